@@ -8,6 +8,7 @@ import { AuthProvider, useAuth } from "@/lib/auth-context";
 import { SidebarProvider, SidebarTrigger } from "@/components/ui/sidebar";
 import { AppSidebar } from "@/components/app-sidebar";
 import { ThemeToggle } from "@/components/theme-toggle";
+import { GlobalSearch } from "@/components/GlobalSearch";
 import { LiveChat } from "@/components/LiveChat";
 import NotFound from "@/pages/not-found";
 import LoginPage from "@/pages/login";
@@ -18,16 +19,22 @@ import OperationDetailPage from "./pages/operation-detail";
 import MapPage from "./pages/map";
 import ClientsPage from "./pages/clients";
 import ClientDetailPage from "./pages/client-detail";
+import SuppliersPage from "./pages/suppliers";
+import TariffsPage from "./pages/tariffs";
 import EmployeesPage from "./pages/employees";
 import InvoicesPage from "./pages/invoices";
 import InvoicesCreatePage from "./pages/invoices-create";
 import ProposalsPage from "./pages/proposals";
 import ExpensesPage from "./pages/expenses";
+import ProfitabilityPage from "./pages/profitability";
+import AccountsPayablePage from "./pages/accounts-payable";
 import LeadsPage from "./pages/leads";
 import CustomFieldsPage from "./pages/custom-fields";
 import BankAccountsPage from "./pages/bank-accounts";
 import BankAccountDetailPage from "./pages/bank-account-detail";
 import GmailPage from "./pages/gmail";
+import EmailTemplatesPage from "./pages/email-templates";
+import EmailLinkingPage from "./pages/email-linking";
 import CalendarPage from "./pages/calendar";
 import AutomationPage from "./pages/automation";
 import OperationFilesPage from "./pages/operation-files";
@@ -105,6 +112,7 @@ function AppLayout() {
               <h2 className="text-sm font-medium text-foreground/70">Logistics Control Center</h2>
             </div>
             <div className="flex items-center gap-2">
+              <GlobalSearch />
               <ThemeToggle />
             </div>
           </header>
@@ -120,16 +128,22 @@ function AppLayout() {
                 <Route path="/map" component={MapPage} />
                 <Route path="/clients/:id" component={ClientDetailPage} />
                 <Route path="/clients" component={ClientsPage} />
+                <Route path="/suppliers" component={SuppliersPage} />
+                <Route path="/tariffs" component={TariffsPage} />
                 <Route path="/employees" component={EmployeesPage} />
                 <Route path="/invoices/new" component={InvoicesCreatePage} />
                 <Route path="/invoices" component={InvoicesPage} />
                 <Route path="/proposals" component={ProposalsPage} />
                 <Route path="/expenses" component={ExpensesPage} />
+                <Route path="/accounts-payable" component={AccountsPayablePage} />
+                <Route path="/reports/profitability" component={ProfitabilityPage} />
                 <Route path="/bank-accounts/:id" component={BankAccountDetailPage} />
                 <Route path="/bank-accounts" component={BankAccountsPage} />
                 <Route path="/leads" component={LeadsPage} />
                 <Route path="/custom-fields" component={CustomFieldsPage} />
                 <Route path="/gmail" component={GmailPage} />
+                <Route path="/email-templates" component={EmailTemplatesPage} />
+                <Route path="/email-linking" component={EmailLinkingPage} />
                 <Route path="/calendar" component={CalendarPage} />
                 <Route path="/automation" component={AutomationPage} />
                 <Route path="/learning-center" component={LearningCenterPage} />
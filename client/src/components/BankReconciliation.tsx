@@ -0,0 +1,510 @@
+import { useRef, useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { Upload, Check, Link2, Plus, EyeOff, Undo2, FileText, Trash2 } from "lucide-react";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import type { BankStatementImport, BankStatementLine } from "@shared/schema";
+
+type RecordType = 'payment' | 'expense' | 'suggestion';
+
+interface ReconciliationCandidate {
+  type: RecordType;
+  id: string;
+  date: string;
+  amount: string;
+  description: string;
+  reference: string | null;
+  confidence: number;
+}
+
+type ReconciliationLine = BankStatementLine & { match: ReconciliationCandidate | null };
+
+interface BankReconciliationProps {
+  accountId: string;
+  formatCurrency: (amount: number) => string;
+}
+
+const RECORD_TYPE_LABELS: Record<RecordType, string> = {
+  payment: 'Pago',
+  expense: 'Gasto',
+  suggestion: 'Sugerencia IA',
+};
+
+const FORMAT_LABELS: Record<string, string> = {
+  csv: 'CSV',
+  ofx: 'OFX',
+  camt053: 'CAMT.053',
+};
+
+export function BankReconciliation({ accountId, formatCurrency }: BankReconciliationProps) {
+  const { toast } = useToast();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [view, setView] = useState<'pending' | 'matched' | 'ignored'>('pending');
+  const [linkLine, setLinkLine] = useState<ReconciliationLine | null>(null);
+  const [createLine, setCreateLine] = useState<ReconciliationLine | null>(null);
+  const [category, setCategory] = useState('other');
+  const [paymentMethod, setPaymentMethod] = useState('transfer');
+  const [description, setDescription] = useState('');
+
+  const { data: lines = [], isLoading } = useQuery<ReconciliationLine[]>({
+    queryKey: ['/api/bank-accounts', accountId, 'reconciliation'],
+  });
+
+  const { data: imports = [] } = useQuery<BankStatementImport[]>({
+    queryKey: ['/api/bank-accounts', accountId, 'statements'],
+  });
+
+  const { data: candidates = [], isLoading: candidatesLoading } = useQuery<ReconciliationCandidate[]>({
+    queryKey: ['/api/bank-statement-lines', linkLine?.id, 'candidates'],
+    enabled: !!linkLine,
+  });
+
+  // Conciliar puede crear pagos/gastos y mover el saldo: refrescar toda la cuenta
+  const invalidateAccount = () => {
+    queryClient.invalidateQueries({ queryKey: ['/api/bank-accounts'] });
+    queryClient.invalidateQueries({ queryKey: ['/api/payments'] });
+    queryClient.invalidateQueries({ queryKey: ['/api/expenses'] });
+    queryClient.invalidateQueries({ queryKey: ['/api/financial-suggestions/pending'] });
+  };
+
+  const showError = (fallback: string) => (error: any) => {
+    toast({
+      title: "Error",
+      description: error.message || fallback,
+      variant: "destructive",
+    });
+  };
+
+  const importMutation = useMutation({
+    mutationFn: async (file: File) => {
+      const content = await file.text();
+      const res = await apiRequest('POST', `/api/bank-accounts/${accountId}/statements/import`, {
+        fileName: file.name,
+        content,
+      });
+      return await res.json();
+    },
+    onSuccess: (result: { imported: number; duplicates: number; matched: number; suggested: number }) => {
+      invalidateAccount();
+      toast({
+        title: "Estado de cuenta importado",
+        description: `${result.imported} movimientos nuevos (${result.duplicates} duplicados), ${result.matched} conciliados, ${result.suggested} por revisar`,
+      });
+    },
+    onError: showError("No se pudo importar el estado de cuenta"),
+  });
+
+  const deleteImportMutation = useMutation({
+    mutationFn: async (importId: string) => {
+      await apiRequest('DELETE', `/api/bank-accounts/${accountId}/statements/${importId}`);
+    },
+    onSuccess: () => {
+      invalidateAccount();
+      toast({ title: "Importación eliminada" });
+    },
+    onError: showError("No se pudo eliminar la importación"),
+  });
+
+  const lineActionMutation = useMutation({
+    mutationFn: async ({ lineId, action, data }: { lineId: string; action: string; data?: Record<string, unknown> }) => {
+      await apiRequest('POST', `/api/bank-statement-lines/${lineId}/${action}`, data || {});
+    },
+    onSuccess: () => {
+      invalidateAccount();
+      setLinkLine(null);
+      setCreateLine(null);
+    },
+    onError: showError("No se pudo actualizar el movimiento"),
+  });
+
+  const handleFileChange = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (file) importMutation.mutate(file);
+    event.target.value = '';
+  };
+
+  const openCreateDialog = (line: ReconciliationLine) => {
+    setCategory('other');
+    setPaymentMethod('transfer');
+    setDescription(line.description);
+    setCreateLine(line);
+  };
+
+  const visibleLines = lines.filter(line => {
+    if (view === 'pending') return line.status === 'unmatched' || line.status === 'suggested';
+    return line.status === view;
+  });
+  const pendingCount = lines.filter(l => l.status === 'unmatched' || l.status === 'suggested').length;
+
+  const getStatusBadge = (line: ReconciliationLine) => {
+    switch (line.status) {
+      case 'matched':
+        return <Badge className="bg-green-100 text-green-800">Conciliado</Badge>;
+      case 'suggested':
+        return <Badge className="bg-yellow-100 text-yellow-800">Por confirmar</Badge>;
+      case 'ignored':
+        return <Badge variant="secondary">Ignorado</Badge>;
+      default:
+        return <Badge variant="outline">Sin conciliar</Badge>;
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between space-y-0">
+        <div>
+          <CardTitle>Conciliación Bancaria</CardTitle>
+          <CardDescription>
+            Importa el estado de cuenta del banco (CSV, OFX o CAMT.053) y concilia cada movimiento
+          </CardDescription>
+        </div>
+        <div>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept=".csv,.txt,.ofx,.qfx,.xml"
+            className="hidden"
+            onChange={handleFileChange}
+            data-testid="input-statement-file"
+          />
+          <Button
+            size="sm"
+            onClick={() => fileInputRef.current?.click()}
+            disabled={importMutation.isPending}
+            data-testid="button-import-statement"
+          >
+            <Upload className="w-4 h-4 mr-2" />
+            {importMutation.isPending ? 'Importando...' : 'Importar Estado de Cuenta'}
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {imports.length > 0 && (
+          <div className="flex flex-wrap gap-2">
+            {imports.slice(0, 5).map((statementImport) => (
+              <div
+                key={statementImport.id}
+                className="flex items-center gap-2 rounded-md border px-3 py-1 text-xs"
+                data-testid={`statement-import-${statementImport.id}`}
+              >
+                <FileText className="w-3 h-3 text-muted-foreground" />
+                <span className="font-medium">{statementImport.fileName}</span>
+                <Badge variant="outline">{FORMAT_LABELS[statementImport.format] || statementImport.format}</Badge>
+                <span className="text-muted-foreground">
+                  {statementImport.matchedLines}/{statementImport.totalLines - statementImport.duplicateLines} conciliados
+                </span>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-5 w-5"
+                  onClick={() => deleteImportMutation.mutate(statementImport.id)}
+                  disabled={deleteImportMutation.isPending}
+                  data-testid={`button-delete-import-${statementImport.id}`}
+                >
+                  <Trash2 className="w-3 h-3" />
+                </Button>
+              </div>
+            ))}
+          </div>
+        )}
+
+        <Tabs value={view} onValueChange={(value) => setView(value as typeof view)}>
+          <TabsList>
+            <TabsTrigger value="pending" data-testid="tab-reconciliation-pending">
+              Pendientes ({pendingCount})
+            </TabsTrigger>
+            <TabsTrigger value="matched" data-testid="tab-reconciliation-matched">Conciliados</TabsTrigger>
+            <TabsTrigger value="ignored" data-testid="tab-reconciliation-ignored">Ignorados</TabsTrigger>
+          </TabsList>
+        </Tabs>
+
+        {isLoading ? (
+          <div className="text-center py-8 text-muted-foreground">Cargando movimientos...</div>
+        ) : visibleLines.length === 0 ? (
+          <div className="text-center py-8 text-muted-foreground">
+            {lines.length === 0 ? 'Aún no se ha importado ningún estado de cuenta' : 'No hay movimientos en esta vista'}
+          </div>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Fecha</TableHead>
+                <TableHead>Descripción del banco</TableHead>
+                <TableHead className="text-right">Monto</TableHead>
+                <TableHead>Estado</TableHead>
+                <TableHead>Registro en libros</TableHead>
+                <TableHead className="text-right">Acciones</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {visibleLines.map((line) => {
+                const amount = parseFloat(line.amount);
+                return (
+                  <TableRow key={line.id} data-testid={`row-statement-line-${line.id}`}>
+                    <TableCell>{format(new Date(line.transactionDate), 'dd/MM/yyyy')}</TableCell>
+                    <TableCell>
+                      <div className="max-w-xs truncate">{line.description}</div>
+                      {line.reference && (
+                        <div className="text-xs text-muted-foreground">Ref: {line.reference}</div>
+                      )}
+                    </TableCell>
+                    <TableCell className={`text-right font-semibold ${amount >= 0 ? 'text-green-600' : 'text-red-600'}`}>
+                      {amount >= 0 ? '+' : '-'}{formatCurrency(Math.abs(amount))}
+                    </TableCell>
+                    <TableCell>{getStatusBadge(line)}</TableCell>
+                    <TableCell className="text-sm">
+                      {line.match ? (
+                        <div>
+                          <span className="font-medium">{RECORD_TYPE_LABELS[line.match.type]}</span>
+                          {' · '}
+                          {format(new Date(line.match.date), 'dd/MM/yyyy')}
+                          {' · '}
+                          {formatCurrency(parseFloat(line.match.amount))}
+                          <div className="text-xs text-muted-foreground truncate max-w-xs">
+                            {line.match.description}
+                            {line.status === 'suggested' && ` (${Math.round(line.match.confidence)}% confianza)`}
+                          </div>
+                        </div>
+                      ) : (
+                        <span className="text-muted-foreground">-</span>
+                      )}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      <div className="flex justify-end gap-1">
+                        {line.status === 'suggested' && (
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            title="Aceptar match"
+                            onClick={() => lineActionMutation.mutate({ lineId: line.id, action: 'accept' })}
+                            disabled={lineActionMutation.isPending}
+                            data-testid={`button-accept-line-${line.id}`}
+                          >
+                            <Check className="w-4 h-4" />
+                          </Button>
+                        )}
+                        {(line.status === 'unmatched' || line.status === 'suggested') && (
+                          <>
+                            <Button
+                              variant="ghost"
+                              size="icon"
+                              title="Vincular manualmente"
+                              onClick={() => setLinkLine(line)}
+                              data-testid={`button-link-line-${line.id}`}
+                            >
+                              <Link2 className="w-4 h-4" />
+                            </Button>
+                            <Button
+                              variant="ghost"
+                              size="icon"
+                              title={amount >= 0 ? 'Crear pago' : 'Crear gasto'}
+                              onClick={() => openCreateDialog(line)}
+                              data-testid={`button-create-record-${line.id}`}
+                            >
+                              <Plus className="w-4 h-4" />
+                            </Button>
+                            <Button
+                              variant="ghost"
+                              size="icon"
+                              title="Ignorar"
+                              onClick={() => lineActionMutation.mutate({ lineId: line.id, action: 'ignore' })}
+                              disabled={lineActionMutation.isPending}
+                              data-testid={`button-ignore-line-${line.id}`}
+                            >
+                              <EyeOff className="w-4 h-4" />
+                            </Button>
+                          </>
+                        )}
+                        {(line.status === 'matched' || line.status === 'ignored') && (
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            title="Deshacer"
+                            onClick={() => lineActionMutation.mutate({ lineId: line.id, action: 'unmatch' })}
+                            disabled={lineActionMutation.isPending}
+                            data-testid={`button-unmatch-line-${line.id}`}
+                          >
+                            <Undo2 className="w-4 h-4" />
+                          </Button>
+                        )}
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                );
+              })}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+
+      {/* Manual link dialog */}
+      <Dialog open={!!linkLine} onOpenChange={(open) => !open && setLinkLine(null)}>
+        <DialogContent className="max-w-2xl">
+          <DialogHeader>
+            <DialogTitle>Vincular Movimiento</DialogTitle>
+            <DialogDescription>
+              {linkLine && (
+                <>
+                  {format(new Date(linkLine.transactionDate), 'dd/MM/yyyy')} · {linkLine.description} ·{' '}
+                  {formatCurrency(Math.abs(parseFloat(linkLine.amount)))}
+                </>
+              )}
+            </DialogDescription>
+          </DialogHeader>
+          {candidatesLoading ? (
+            <div className="text-center py-6 text-muted-foreground">Buscando registros...</div>
+          ) : candidates.length === 0 ? (
+            <div className="text-center py-6 text-muted-foreground">
+              No hay pagos, gastos ni sugerencias pendientes cercanos a esta fecha
+            </div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Tipo</TableHead>
+                  <TableHead>Fecha</TableHead>
+                  <TableHead>Descripción</TableHead>
+                  <TableHead className="text-right">Monto</TableHead>
+                  <TableHead className="text-right">Confianza</TableHead>
+                  <TableHead></TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {candidates.map((candidate) => (
+                  <TableRow key={`${candidate.type}-${candidate.id}`}>
+                    <TableCell>
+                      <Badge variant="outline">{RECORD_TYPE_LABELS[candidate.type]}</Badge>
+                    </TableCell>
+                    <TableCell>{format(new Date(candidate.date), 'dd/MM/yyyy')}</TableCell>
+                    <TableCell className="max-w-xs truncate">{candidate.description}</TableCell>
+                    <TableCell className="text-right">{formatCurrency(parseFloat(candidate.amount))}</TableCell>
+                    <TableCell className="text-right">{Math.round(candidate.confidence)}%</TableCell>
+                    <TableCell>
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        onClick={() => linkLine && lineActionMutation.mutate({
+                          lineId: linkLine.id,
+                          action: 'link',
+                          data: { type: candidate.type, recordId: candidate.id },
+                        })}
+                        disabled={lineActionMutation.isPending}
+                        data-testid={`button-link-candidate-${candidate.id}`}
+                      >
+                        Vincular
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </DialogContent>
+      </Dialog>
+
+      {/* Create record dialog */}
+      <Dialog open={!!createLine} onOpenChange={(open) => !open && setCreateLine(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>
+              {createLine && parseFloat(createLine.amount) >= 0 ? 'Registrar Pago' : 'Registrar Gasto'}
+            </DialogTitle>
+            <DialogDescription>
+              Se creará el registro con la fecha e importe del banco y quedará conciliado.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            {createLine && parseFloat(createLine.amount) >= 0 ? (
+              <div className="space-y-2">
+                <Label>Método de pago</Label>
+                <Select value={paymentMethod} onValueChange={setPaymentMethod}>
+                  <SelectTrigger data-testid="select-payment-method">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="transfer">Transferencia</SelectItem>
+                    <SelectItem value="cash">Efectivo</SelectItem>
+                    <SelectItem value="check">Cheque</SelectItem>
+                    <SelectItem value="card">Tarjeta</SelectItem>
+                    <SelectItem value="other">Otro</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+            ) : (
+              <div className="space-y-2">
+                <Label>Categoría</Label>
+                <Select value={category} onValueChange={setCategory}>
+                  <SelectTrigger data-testid="select-expense-category">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="travel">Viaje</SelectItem>
+                    <SelectItem value="supplies">Suministros</SelectItem>
+                    <SelectItem value="equipment">Equipo</SelectItem>
+                    <SelectItem value="services">Servicios</SelectItem>
+                    <SelectItem value="other">Otro</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+            <div className="space-y-2">
+              <Label htmlFor="record-description">Descripción</Label>
+              <Input
+                id="record-description"
+                value={description}
+                onChange={(e) => setDescription(e.target.value)}
+                data-testid="input-record-description"
+              />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setCreateLine(null)}>
+              Cancelar
+            </Button>
+            <Button
+              onClick={() => createLine && lineActionMutation.mutate({
+                lineId: createLine.id,
+                action: 'create-record',
+                data: { category, paymentMethod, description },
+              })}
+              disabled={lineActionMutation.isPending}
+              data-testid="button-save-record"
+            >
+              Crear y Conciliar
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
@@ -0,0 +1,200 @@
+import { useEffect, useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import type { Invoice, InvoiceItem } from "@shared/schema";
+
+interface CreditNoteDialogProps {
+  invoice: Invoice;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onCreated?: (creditNote: Invoice) => void;
+}
+
+type CreditMode = "items" | "amount";
+
+export function CreditNoteDialog({ invoice, open, onOpenChange, onCreated }: CreditNoteDialogProps) {
+  const { toast } = useToast();
+  const [mode, setMode] = useState<CreditMode>("items");
+  const [quantities, setQuantities] = useState<Record<string, string>>({});
+  const [amount, setAmount] = useState("");
+  const [description, setDescription] = useState("");
+  const [stampNow, setStampNow] = useState(true);
+
+  const { data: items = [] } = useQuery<InvoiceItem[]>({
+    queryKey: ["/api/invoices", invoice.id, "items"],
+    enabled: open,
+  });
+
+  useEffect(() => {
+    if (open) {
+      setMode("items");
+      setQuantities({});
+      setAmount("");
+      setDescription("");
+      setStampNow(true);
+    }
+  }, [open]);
+
+  const createMutation = useMutation({
+    mutationFn: () => {
+      const body = mode === "items"
+        ? {
+            items: Object.entries(quantities).map(([invoiceItemId, quantity]) => ({ invoiceItemId, quantity })),
+            description: description || undefined,
+            stamp: stampNow,
+          }
+        : { amount, description: description || undefined, stamp: stampNow };
+      return apiRequest("POST", `/api/invoices/${invoice.id}/credit-notes`, body).then((res) => res.json());
+    },
+    onSuccess: (result: { creditNote: Invoice; stampError?: string }) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/invoices"] });
+      onOpenChange(false);
+      if (result.stampError) {
+        toast({
+          title: `Nota de crédito ${result.creditNote.invoiceNumber} creada como borrador`,
+          description: `No se pudo timbrar: ${result.stampError}`,
+          variant: "destructive",
+        });
+      } else {
+        toast({
+          title: `Nota de crédito ${result.creditNote.invoiceNumber} ${result.creditNote.folioFiscal ? "timbrada" : "creada"}`,
+        });
+      }
+      onCreated?.(result.creditNote);
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error al crear nota de crédito",
+        description: error?.message || "No se pudo crear la nota de crédito",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const toggleItem = (item: InvoiceItem, checked: boolean) => {
+    setQuantities((prev) => {
+      const next = { ...prev };
+      if (checked) {
+        next[item.id] = item.quantity;
+      } else {
+        delete next[item.id];
+      }
+      return next;
+    });
+  };
+
+  // Estimado con la misma regla que el servidor (IVA solo en conceptos que lo llevan)
+  const itemsTotal = items.reduce((sum, item) => {
+    const quantity = quantities[item.id];
+    if (quantity === undefined) return sum;
+    const lineAmount = parseFloat(item.unitPrice) * (parseFloat(quantity) || 0);
+    const tax = item.taxAmount && parseFloat(item.taxAmount) > 0 ? lineAmount * parseFloat(item.taxRate || "0.16") : 0;
+    return sum + lineAmount + tax;
+  }, 0);
+
+  const creditTotal = mode === "items" ? itemsTotal : parseFloat(amount) || 0;
+  const canSubmit = creditTotal > 0 && !createMutation.isPending;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Nota de Crédito sobre Factura #{invoice.invoiceNumber}</DialogTitle>
+          <DialogDescription>
+            CFDI de Egreso relacionado a la factura original (tipo de relación 01). Al timbrarse reduce su saldo pendiente.
+          </DialogDescription>
+        </DialogHeader>
+
+        <Tabs value={mode} onValueChange={(value) => setMode(value as CreditMode)}>
+          <TabsList>
+            <TabsTrigger value="items" data-testid="tab-credit-items">Por conceptos</TabsTrigger>
+            <TabsTrigger value="amount" data-testid="tab-credit-amount">Monto parcial</TabsTrigger>
+          </TabsList>
+
+          <TabsContent value="items" className="space-y-2">
+            {items.map((item) => {
+              const selected = quantities[item.id] !== undefined;
+              return (
+                <div key={item.id} className="flex items-center gap-3 border rounded-md p-2" data-testid={`row-credit-item-${item.id}`}>
+                  <Checkbox checked={selected} onCheckedChange={(checked) => toggleItem(item, checked === true)} />
+                  <div className="flex-1 text-sm">
+                    <div>{item.description}</div>
+                    <div className="text-xs text-muted-foreground">
+                      {parseFloat(item.quantity).toFixed(2)} × {invoice.currency} {parseFloat(item.unitPrice).toFixed(2)}
+                    </div>
+                  </div>
+                  <Input
+                    type="number"
+                    step="0.01"
+                    min="0"
+                    max={item.quantity}
+                    className="w-24"
+                    disabled={!selected}
+                    value={quantities[item.id] ?? ""}
+                    onChange={(e) => setQuantities((prev) => ({ ...prev, [item.id]: e.target.value }))}
+                  />
+                </div>
+              );
+            })}
+          </TabsContent>
+
+          <TabsContent value="amount" className="space-y-2">
+            <label htmlFor="credit-amount" className="text-sm font-medium">
+              Monto a acreditar ({invoice.currency}, incluye impuestos)
+            </label>
+            <Input
+              id="credit-amount"
+              type="number"
+              step="0.01"
+              value={amount}
+              onChange={(e) => setAmount(e.target.value)}
+              data-testid="input-credit-amount"
+            />
+          </TabsContent>
+        </Tabs>
+
+        <div className="space-y-2">
+          <label htmlFor="credit-description" className="text-sm font-medium">Motivo</label>
+          <Textarea
+            id="credit-description"
+            value={description}
+            onChange={(e) => setDescription(e.target.value)}
+            placeholder="Ej. Ajuste de tarifa de flete acordado con el cliente"
+          />
+        </div>
+
+        <div className="flex items-center gap-2">
+          <Checkbox id="credit-stamp-now" checked={stampNow} onCheckedChange={(checked) => setStampNow(checked === true)} />
+          <label htmlFor="credit-stamp-now" className="text-sm">Timbrar en Facturama al crear</label>
+        </div>
+
+        <div className="flex items-center justify-between pt-2 border-t">
+          <div className="text-sm">
+            Total nota de crédito: <span className="font-semibold">{invoice.currency} {creditTotal.toFixed(2)}</span>
+          </div>
+          <div className="flex gap-2">
+            <Button variant="outline" onClick={() => onOpenChange(false)}>
+              Cancelar
+            </Button>
+            <Button onClick={() => createMutation.mutate()} disabled={!canSubmit} data-testid="button-create-credit-note">
+              {createMutation.isPending ? "Creando..." : "Crear nota de crédito"}
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,346 @@
+import { useEffect, useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { Send, Paperclip } from "lucide-react";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Checkbox } from "@/components/ui/checkbox";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { MERGE_FIELDS, type RenderedTemplate } from "@shared/email-template-fields";
+import type { EmailTemplate, GmailAccount, GmailMessage, OperationFile } from "@shared/schema";
+
+export type ComposeMode = "new" | "reply" | "replyAll" | "forward";
+
+interface EmailComposerProps {
+  operationId: string;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  mode: ComposeMode;
+  originalMessage?: GmailMessage | null;
+  originalBody?: string; // Texto del correo original para citarlo
+}
+
+const modeTitles: Record<ComposeMode, string> = {
+  new: "Nuevo correo",
+  reply: "Responder",
+  replyAll: "Responder a todos",
+  forward: "Reenviar",
+};
+
+const parseEmails = (value: string) =>
+  value.split(/[,;]/).map((email) => email.trim()).filter(Boolean);
+
+const withPrefix = (prefix: string, subject: string | null) => {
+  const base = subject || "";
+  return new RegExp(`^${prefix}:`, "i").test(base) ? base : `${prefix}: ${base}`;
+};
+
+const formatFileSize = (bytes: number): string => {
+  if (bytes < 1024) return bytes + " B";
+  if (bytes < 1024 * 1024) return (bytes / 1024).toFixed(1) + " KB";
+  return (bytes / (1024 * 1024)).toFixed(2) + " MB";
+};
+
+export function EmailComposer({ operationId, open, onOpenChange, mode, originalMessage, originalBody }: EmailComposerProps) {
+  const { toast } = useToast();
+  const [accountId, setAccountId] = useState("");
+  const [to, setTo] = useState("");
+  const [cc, setCc] = useState("");
+  const [bcc, setBcc] = useState("");
+  const [subject, setSubject] = useState("");
+  const [body, setBody] = useState("");
+  const [selectedFileIds, setSelectedFileIds] = useState<string[]>([]);
+  const [includeOriginalAttachments, setIncludeOriginalAttachments] = useState(true);
+  const [templateLanguage, setTemplateLanguage] = useState("es");
+
+  const { data: accountsData } = useQuery<Omit<GmailAccount, "accessToken" | "refreshToken" | "mailPassword">[]>({
+    queryKey: ["/api/gmail/accounts"],
+    enabled: open,
+  });
+  const accounts = accountsData || [];
+
+  const { data: files = [] } = useQuery<OperationFile[]>({
+    queryKey: ["/api/operations", operationId, "files"],
+    enabled: open,
+  });
+
+  const { data: templates = [] } = useQuery<EmailTemplate[]>({
+    queryKey: [`/api/email-templates?language=${templateLanguage}&active=true`],
+    enabled: open,
+  });
+
+  // Prellenar destinatarios, asunto y cita según el modo cada vez que se abre
+  useEffect(() => {
+    if (!open) return;
+
+    const ownEmails = accounts.map((account) => account.email.toLowerCase());
+    const isOwn = (email: string) => ownEmails.includes(email.toLowerCase());
+    const defaultAccount = accounts.find((account) => account.id === originalMessage?.gmailAccountId) || accounts[0];
+    setAccountId(defaultAccount?.id || "");
+    setSelectedFileIds([]);
+    setIncludeOriginalAttachments(true);
+    setBcc("");
+
+    if (mode === "new" || !originalMessage) {
+      setTo("");
+      setCc("");
+      setSubject("");
+      setBody("");
+      return;
+    }
+
+    const sentByUs = isOwn(originalMessage.fromEmail);
+    const quoteHeader = `El ${format(new Date(originalMessage.date), "dd/MM/yyyy HH:mm")}, ${originalMessage.fromName || originalMessage.fromEmail} <${originalMessage.fromEmail}> escribió:`;
+    const quotedText = (originalBody || originalMessage.snippet || "")
+      .split("\n")
+      .map((line) => `> ${line}`)
+      .join("\n");
+
+    if (mode === "forward") {
+      setTo("");
+      setCc("");
+      setSubject(withPrefix("Fwd", originalMessage.subject));
+      setBody([
+        "",
+        "",
+        "---------- Mensaje reenviado ----------",
+        `De: ${originalMessage.fromName || originalMessage.fromEmail} <${originalMessage.fromEmail}>`,
+        `Fecha: ${format(new Date(originalMessage.date), "dd/MM/yyyy HH:mm")}`,
+        `Asunto: ${originalMessage.subject || ""}`,
+        `Para: ${originalMessage.toEmails.join(", ")}`,
+        "",
+        originalBody || originalMessage.snippet || "",
+      ].join("\n"));
+      return;
+    }
+
+    const replyTo = sentByUs ? originalMessage.toEmails : [originalMessage.fromEmail];
+    setTo(replyTo.join(", "));
+    if (mode === "replyAll") {
+      const others = [...originalMessage.toEmails, ...(originalMessage.ccEmails || [])]
+        .filter((email) => !isOwn(email) && !replyTo.includes(email));
+      setCc(Array.from(new Set(others)).join(", "));
+    } else {
+      setCc("");
+    }
+    setSubject(withPrefix("Re", originalMessage.subject));
+    setBody(`\n\n${quoteHeader}\n${quotedText}`);
+  }, [open, mode, originalMessage, originalBody, accountsData]);
+
+  const sendMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", `/api/operations/${operationId}/messages/send`, {
+        accountId,
+        mode,
+        originalMessageId: originalMessage?.id || null,
+        to: parseEmails(to),
+        cc: parseEmails(cc),
+        bcc: parseEmails(bcc),
+        subject,
+        body,
+        operationFileIds: selectedFileIds,
+        includeOriginalAttachments: mode === "forward" ? includeOriginalAttachments : false,
+      });
+      return await res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/operations", operationId, "messages"] });
+      onOpenChange(false);
+      toast({ title: "Correo enviado" });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error al enviar",
+        description: error?.message || "No se pudo enviar el correo",
+        variant: "destructive",
+      });
+    },
+  });
+
+  // Rellena con la plantilla renderizada contra la operación; en respuestas y reenvíos se conserva la cita
+  const applyTemplateMutation = useMutation({
+    mutationFn: async (templateId: string) => {
+      const res = await apiRequest("POST", "/api/email-templates/preview", { templateId, operationId });
+      return (await res.json()) as RenderedTemplate;
+    },
+    onSuccess: (rendered) => {
+      if (mode === "new") {
+        setSubject(rendered.subject);
+        setBody(rendered.body);
+      } else {
+        setBody(`${rendered.body}${body}`);
+      }
+      if (rendered.missingFields.length > 0) {
+        toast({
+          title: "Campos sin datos en la operación",
+          description: rendered.missingFields.map((key) => MERGE_FIELDS.find((f) => f.key === key)?.label || key).join(", "),
+        });
+      }
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error?.message || "No se pudo aplicar la plantilla",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const toggleFile = (fileId: string, checked: boolean) => {
+    setSelectedFileIds((prev) => (checked ? [...prev, fileId] : prev.filter((id) => id !== fileId)));
+  };
+
+  const attachableFiles = files.filter((file) => file.b2Key);
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{modeTitles[mode]}</DialogTitle>
+          <DialogDescription>
+            El correo se envía desde Gmail y queda vinculado a esta operación
+          </DialogDescription>
+        </DialogHeader>
+
+        {accounts.length === 0 ? (
+          <p className="text-sm text-muted-foreground py-4">
+            Conecta una cuenta de Gmail para enviar correos
+          </p>
+        ) : (
+          <div className="space-y-3">
+            <div className="grid grid-cols-[5rem_1fr] items-center gap-2">
+              <Label>De</Label>
+              <Select value={accountId} onValueChange={setAccountId}>
+                <SelectTrigger data-testid="select-compose-account">
+                  <SelectValue placeholder="Seleccionar cuenta" />
+                </SelectTrigger>
+                <SelectContent>
+                  {accounts.map((account) => (
+                    <SelectItem key={account.id} value={account.id}>
+                      {account.email}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Label>Para</Label>
+              <Input value={to} onChange={(e) => setTo(e.target.value)} placeholder="correo@ejemplo.com, ..." data-testid="input-compose-to" />
+              <Label>CC</Label>
+              <Input value={cc} onChange={(e) => setCc(e.target.value)} data-testid="input-compose-cc" />
+              <Label>CCO</Label>
+              <Input value={bcc} onChange={(e) => setBcc(e.target.value)} data-testid="input-compose-bcc" />
+              <Label>Plantilla</Label>
+              <div className="flex gap-2">
+                <Select value={templateLanguage} onValueChange={setTemplateLanguage}>
+                  <SelectTrigger className="w-24" data-testid="select-compose-template-language">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="es">ES</SelectItem>
+                    <SelectItem value="en">EN</SelectItem>
+                  </SelectContent>
+                </Select>
+                <Select
+                  value=""
+                  onValueChange={(templateId) => applyTemplateMutation.mutate(templateId)}
+                  disabled={templates.length === 0 || applyTemplateMutation.isPending}
+                >
+                  <SelectTrigger className="flex-1" data-testid="select-compose-template">
+                    <SelectValue placeholder={templates.length === 0 ? "Sin plantillas en este idioma" : "Usar plantilla..."} />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {templates.map((template) => (
+                      <SelectItem key={template.id} value={template.id}>
+                        {template.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <Label>Asunto</Label>
+              <Input value={subject} onChange={(e) => setSubject(e.target.value)} data-testid="input-compose-subject" />
+            </div>
+
+            <Textarea
+              value={body}
+              onChange={(e) => setBody(e.target.value)}
+              rows={12}
+              className="font-mono text-sm"
+              data-testid="input-compose-body"
+            />
+
+            {mode === "forward" && originalMessage?.hasAttachments && (
+              <div className="flex items-center gap-2">
+                <Checkbox
+                  id="include-original-attachments"
+                  checked={includeOriginalAttachments}
+                  onCheckedChange={(checked) => setIncludeOriginalAttachments(checked === true)}
+                  data-testid="checkbox-include-original-attachments"
+                />
+                <Label htmlFor="include-original-attachments">Incluir adjuntos del correo original</Label>
+              </div>
+            )}
+
+            <div className="space-y-2">
+              <Label className="flex items-center gap-2">
+                <Paperclip className="w-4 h-4" />
+                Adjuntar archivos de la operación {selectedFileIds.length > 0 && `(${selectedFileIds.length})`}
+              </Label>
+              {attachableFiles.length === 0 ? (
+                <p className="text-xs text-muted-foreground">La operación no tiene archivos disponibles</p>
+              ) : (
+                <ScrollArea className="h-32 rounded-md border p-2">
+                  <div className="space-y-1">
+                    {attachableFiles.map((file) => (
+                      <label key={file.id} className="flex items-center gap-2 text-sm cursor-pointer">
+                        <Checkbox
+                          checked={selectedFileIds.includes(file.id)}
+                          onCheckedChange={(checked) => toggleFile(file.id, checked === true)}
+                          data-testid={`checkbox-attach-${file.id}`}
+                        />
+                        <span className="truncate flex-1">{file.name}</span>
+                        <span className="text-xs text-muted-foreground">{formatFileSize(file.size)}</span>
+                      </label>
+                    ))}
+                  </div>
+                </ScrollArea>
+              )}
+            </div>
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancelar
+          </Button>
+          <Button
+            onClick={() => sendMutation.mutate()}
+            disabled={!accountId || parseEmails(to).length === 0 || sendMutation.isPending}
+            data-testid="button-send-email"
+          >
+            <Send className="w-4 h-4 mr-2" />
+            {sendMutation.isPending ? "Enviando..." : "Enviar"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,293 @@
+import { useEffect, useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { AlertTriangle, Paperclip, Scissors, Link2, GitMerge } from "lucide-react";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Label } from "@/components/ui/label";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import type { Operation } from "@shared/schema";
+
+const NO_OPERATION = "none";
+
+export interface ThreadOperationCount {
+  id: string;
+  name: string;
+  messageCount: number;
+}
+
+export interface ThreadSummary {
+  threadId: string;
+  subject: string | null;
+  messageCount: number;
+  unlinkedCount: number;
+  lastDate: string;
+  isSplit: boolean;
+  hasConflict: boolean;
+  operations: ThreadOperationCount[];
+}
+
+interface ThreadMessage {
+  id: string;
+  threadId: string;
+  subject: string | null;
+  fromEmail: string;
+  fromName: string | null;
+  date: string;
+  snippet: string | null;
+  hasAttachments: boolean;
+  operationId: string | null;
+  operationName: string | null;
+}
+
+interface ThreadView {
+  threadId: string;
+  isSplit: boolean;
+  hasConflict: boolean;
+  operations: ThreadOperationCount[];
+  messages: ThreadMessage[];
+}
+
+interface EmailThreadDialogProps {
+  threadId: string | null;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  currentOperationId?: string; // Operación desde la que se abrió (se resalta)
+}
+
+/**
+ * Mensajes de un hilo de Gmail con su operación; permite vincular el hilo completo a una
+ * operación o dividirlo asignando cada mensaje por separado
+ */
+export function EmailThreadDialog({ threadId, open, onOpenChange, currentOperationId }: EmailThreadDialogProps) {
+  const { toast } = useToast();
+  const [isSplitting, setIsSplitting] = useState(false);
+  const [assignments, setAssignments] = useState<Record<string, string>>({});
+  const [linkOperationId, setLinkOperationId] = useState("");
+
+  const { data: thread, isLoading } = useQuery<ThreadView>({
+    queryKey: ["/api/gmail/threads", threadId],
+    enabled: open && !!threadId,
+  });
+
+  const { data: operations = [] } = useQuery<Operation[]>({
+    queryKey: ["/api/operations"],
+    enabled: open,
+  });
+
+  useEffect(() => {
+    if (!open) {
+      setIsSplitting(false);
+      setLinkOperationId("");
+    }
+  }, [open]);
+
+  const startSplit = () => {
+    if (!thread) return;
+    setAssignments(Object.fromEntries(thread.messages.map((m) => [m.id, m.operationId || NO_OPERATION])));
+    setIsSplitting(true);
+  };
+
+  const invalidateThreads = () => {
+    queryClient.invalidateQueries({
+      predicate: (query) => {
+        const key = String(query.queryKey[0]);
+        return key.startsWith("/api/gmail") || key.startsWith("/api/operations") || key.startsWith("/api/email-linking");
+      },
+    });
+  };
+
+  const onError = (fallback: string) => (error: any) => {
+    toast({
+      title: "Error",
+      description: error?.message || fallback,
+      variant: "destructive",
+    });
+  };
+
+  const linkMutation = useMutation({
+    mutationFn: (operationId: string) => apiRequest("POST", `/api/gmail/threads/${threadId}/link`, { operationId }),
+    onSuccess: () => {
+      invalidateThreads();
+      setLinkOperationId("");
+      toast({ title: "Hilo vinculado", description: "Todos los mensajes del hilo quedaron en la operación elegida." });
+    },
+    onError: onError("No se pudo vincular el hilo"),
+  });
+
+  const splitMutation = useMutation({
+    mutationFn: () =>
+      apiRequest("POST", `/api/gmail/threads/${threadId}/split`, {
+        assignments: Object.entries(assignments).map(([messageId, operationId]) => ({
+          messageId,
+          operationId: operationId === NO_OPERATION ? null : operationId,
+        })),
+      }),
+    onSuccess: () => {
+      invalidateThreads();
+      setIsSplitting(false);
+      toast({ title: "Hilo dividido", description: "Cada mensaje quedó en su operación y el hilo ya no hereda vínculos." });
+    },
+    onError: onError("No se pudo dividir el hilo"),
+  });
+
+  const unsplitMutation = useMutation({
+    mutationFn: () => apiRequest("DELETE", `/api/gmail/threads/${threadId}/split`),
+    onSuccess: () => {
+      invalidateThreads();
+      toast({ title: "División eliminada", description: "Los mensajes sin operación heredan otra vez la del hilo." });
+    },
+    onError: onError("No se pudo quitar la división"),
+  });
+
+  const operationSelect = (value: string, onChange: (value: string) => void, testId: string, allowNone: boolean) => (
+    <Select value={value} onValueChange={onChange}>
+      <SelectTrigger className="h-8 text-xs" data-testid={testId}>
+        <SelectValue placeholder="Seleccionar operación" />
+      </SelectTrigger>
+      <SelectContent>
+        {allowNone && <SelectItem value={NO_OPERATION}>Sin operación</SelectItem>}
+        {operations.map((operation) => (
+          <SelectItem key={operation.id} value={operation.id}>
+            {operation.name}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-3xl max-h-[90vh] flex flex-col">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            {thread?.messages[0]?.subject || "(Sin asunto)"}
+            {thread?.isSplit && <Badge variant="secondary">Dividido</Badge>}
+          </DialogTitle>
+          <DialogDescription>
+            {thread ? `${thread.messages.length} ${thread.messages.length === 1 ? "mensaje" : "mensajes"} en el hilo` : "Cargando hilo..."}
+          </DialogDescription>
+        </DialogHeader>
+
+        {thread?.hasConflict && (
+          <Alert variant="destructive">
+            <AlertTriangle className="h-4 w-4" />
+            <AlertTitle>Hilo en conflicto</AlertTitle>
+            <AlertDescription>
+              Los mensajes de este hilo están vinculados a {thread.operations.length} operaciones:{" "}
+              {thread.operations.map((o) => `${o.name} (${o.messageCount})`).join(", ")}. Vincula el hilo completo a una
+              operación o divídelo.
+            </AlertDescription>
+          </Alert>
+        )}
+
+        <ScrollArea className="flex-1 min-h-0 max-h-[50vh]">
+          {isLoading || !thread ? (
+            <p className="text-sm text-muted-foreground p-2">Cargando mensajes...</p>
+          ) : (
+            <div className="space-y-2 pr-3">
+              {thread.messages.map((message) => (
+                <div
+                  key={message.id}
+                  className={`rounded-md border p-3 space-y-1 ${message.operationId && message.operationId === currentOperationId ? "border-primary" : ""}`}
+                  data-testid={`thread-message-${message.id}`}
+                >
+                  <div className="flex items-center justify-between gap-2">
+                    <span className="text-sm font-medium truncate">{message.fromName || message.fromEmail}</span>
+                    <span className="text-xs text-muted-foreground whitespace-nowrap">
+                      {format(new Date(message.date), "dd/MM/yy HH:mm")}
+                    </span>
+                  </div>
+                  {message.snippet && (
+                    <p className="text-xs text-muted-foreground line-clamp-2">{message.snippet}</p>
+                  )}
+                  <div className="flex items-center gap-2 pt-1">
+                    {message.hasAttachments && <Paperclip className="h-3 w-3 text-muted-foreground" />}
+                    {isSplitting ? (
+                      <div className="w-64">
+                        {operationSelect(
+                          assignments[message.id] || NO_OPERATION,
+                          (value) => setAssignments({ ...assignments, [message.id]: value }),
+                          `select-split-operation-${message.id}`,
+                          true,
+                        )}
+                      </div>
+                    ) : message.operationName ? (
+                      <Badge variant={message.operationId === currentOperationId ? "default" : "outline"}>{message.operationName}</Badge>
+                    ) : (
+                      <Badge variant="secondary">Sin operación</Badge>
+                    )}
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </ScrollArea>
+
+        {thread && (
+          <DialogFooter className="flex-col sm:flex-row sm:justify-between gap-2">
+            {isSplitting ? (
+              <>
+                <Button variant="outline" onClick={() => setIsSplitting(false)}>
+                  Cancelar
+                </Button>
+                <Button onClick={() => splitMutation.mutate()} disabled={splitMutation.isPending} data-testid="button-save-split">
+                  <Scissors className="h-4 w-4 mr-2" />
+                  {splitMutation.isPending ? "Guardando..." : "Guardar división"}
+                </Button>
+              </>
+            ) : (
+              <>
+                <div className="flex items-end gap-2">
+                  <div className="space-y-1 w-56">
+                    <Label className="text-xs">Vincular hilo completo a</Label>
+                    {operationSelect(linkOperationId, setLinkOperationId, "select-link-thread-operation", false)}
+                  </div>
+                  <Button
+                    size="sm"
+                    onClick={() => linkMutation.mutate(linkOperationId)}
+                    disabled={!linkOperationId || linkMutation.isPending}
+                    data-testid="button-link-thread"
+                  >
+                    <Link2 className="h-4 w-4 mr-2" />
+                    Vincular
+                  </Button>
+                </div>
+                <div className="flex gap-2">
+                  {thread.isSplit && (
+                    <Button variant="outline" size="sm" onClick={() => unsplitMutation.mutate()} disabled={unsplitMutation.isPending} data-testid="button-unsplit-thread">
+                      <GitMerge className="h-4 w-4 mr-2" />
+                      Quitar división
+                    </Button>
+                  )}
+                  <Button variant="outline" size="sm" onClick={startSplit} data-testid="button-split-thread">
+                    <Scissors className="h-4 w-4 mr-2" />
+                    Dividir hilo
+                  </Button>
+                </div>
+              </>
+            )}
+          </DialogFooter>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,235 @@
+import { useRef, useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { Upload, Plus, Trash2, ArrowLeftRight } from "lucide-react";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import type { ExchangeRate } from "@shared/schema";
+
+const RATE_CURRENCIES = ["USD", "EUR", "ARS", "CAD"];
+
+const sourceLabels: Record<string, string> = {
+  manual: "Manual",
+  banxico_fix: "Banxico FIX",
+};
+
+interface BanxicoImportResult {
+  imported: number;
+  updated: number;
+  skipped: number;
+  currencies: string[];
+}
+
+export function ExchangeRates() {
+  const { toast } = useToast();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [currency, setCurrency] = useState("USD");
+  const [rateDate, setRateDate] = useState(format(new Date(), "yyyy-MM-dd"));
+  const [rate, setRate] = useState("");
+
+  const { data: rates = [], isLoading } = useQuery<ExchangeRate[]>({
+    queryKey: ["/api/exchange-rates"],
+  });
+
+  // Los resúmenes convertidos dependen de las tasas registradas
+  const invalidateRates = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/exchange-rates"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/bank-accounts"] });
+  };
+
+  const createMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", "/api/exchange-rates", { currency, rateDate, rate });
+      return await res.json();
+    },
+    onSuccess: () => {
+      invalidateRates();
+      setRate("");
+      toast({ title: "Tipo de cambio guardado" });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error?.message || "No se pudo guardar el tipo de cambio",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const importMutation = useMutation({
+    mutationFn: async (file: File) => {
+      const content = await file.text();
+      const res = await apiRequest("POST", "/api/exchange-rates/import-banxico", { content });
+      return await res.json();
+    },
+    onSuccess: (result: BanxicoImportResult) => {
+      invalidateRates();
+      toast({
+        title: "Tipos de cambio importados",
+        description: `${result.imported} nuevos, ${result.updated} actualizados (${result.currencies.join(", ")})${result.skipped > 0 ? `, ${result.skipped} sin dato` : ""}`,
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error al importar",
+        description: error?.message || "No se pudo importar el archivo de Banxico",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: (id: string) => apiRequest("DELETE", `/api/exchange-rates/${id}`),
+    onSuccess: () => invalidateRates(),
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error?.message || "No se pudo eliminar el tipo de cambio",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleFileChange = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (file) importMutation.mutate(file);
+    event.target.value = "";
+  };
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between space-y-0">
+        <div>
+          <CardTitle className="flex items-center gap-2">
+            <ArrowLeftRight className="w-5 h-5" />
+            Tipos de Cambio
+          </CardTitle>
+          <CardDescription>
+            MXN por unidad de moneda; los reportes usan el tipo de cambio de la fecha de cada transacción
+          </CardDescription>
+        </div>
+        <div>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept=".csv,.txt,.json"
+            className="hidden"
+            onChange={handleFileChange}
+            data-testid="input-banxico-file"
+          />
+          <Button
+            variant="outline"
+            onClick={() => fileInputRef.current?.click()}
+            disabled={importMutation.isPending}
+            data-testid="button-import-banxico"
+          >
+            <Upload className="w-4 h-4 mr-2" />
+            {importMutation.isPending ? "Importando..." : "Importar FIX Banxico"}
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex flex-wrap items-end gap-2">
+          <Select value={currency} onValueChange={setCurrency}>
+            <SelectTrigger className="w-28" data-testid="select-rate-currency">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {RATE_CURRENCIES.map((code) => (
+                <SelectItem key={code} value={code}>{code}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Input
+            type="date"
+            className="w-40"
+            value={rateDate}
+            onChange={(e) => setRateDate(e.target.value)}
+            data-testid="input-rate-date"
+          />
+          <Input
+            type="number"
+            step="0.000001"
+            className="w-36"
+            placeholder="MXN"
+            value={rate}
+            onChange={(e) => setRate(e.target.value)}
+            data-testid="input-rate-value"
+          />
+          <Button
+            onClick={() => createMutation.mutate()}
+            disabled={!rate || !rateDate || createMutation.isPending}
+            data-testid="button-save-rate"
+          >
+            <Plus className="w-4 h-4 mr-2" />
+            Guardar
+          </Button>
+        </div>
+
+        {isLoading ? (
+          <div className="text-sm text-muted-foreground">Cargando tipos de cambio...</div>
+        ) : rates.length === 0 ? (
+          <div className="text-center py-6 text-sm text-muted-foreground">
+            No hay tipos de cambio registrados
+          </div>
+        ) : (
+          <div className="max-h-80 overflow-y-auto">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Fecha</TableHead>
+                  <TableHead>Moneda</TableHead>
+                  <TableHead className="text-right">Tipo de cambio</TableHead>
+                  <TableHead>Fuente</TableHead>
+                  <TableHead className="w-12"></TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {rates.map((row) => (
+                  <TableRow key={row.id} data-testid={`row-rate-${row.id}`}>
+                    {/* La fecha se guarda a las 00:00 UTC */}
+                    <TableCell>{new Date(row.rateDate).toISOString().slice(0, 10)}</TableCell>
+                    <TableCell>{row.currency}</TableCell>
+                    <TableCell className="text-right font-mono">{parseFloat(row.rate).toFixed(4)}</TableCell>
+                    <TableCell>
+                      <Badge variant="outline">{sourceLabels[row.source] || row.source}</Badge>
+                    </TableCell>
+                    <TableCell>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        onClick={() => deleteMutation.mutate(row.id)}
+                        disabled={deleteMutation.isPending}
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -1,25 +1,47 @@
+import { useState } from "react";
 import { useQuery } from "@tanstack/react-query";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Skeleton } from "@/components/ui/skeleton";
-import { FileText, DollarSign, TrendingDown, TrendingUp } from "lucide-react";
+import { FileText, DollarSign, TrendingDown, TrendingUp, AlertTriangle } from "lucide-react";
+import { ReportingCurrencySelect, ORIGINAL_CURRENCY } from "@/components/ReportingCurrencySelect";
 
 interface FinancialOverviewProps {
   operationId: string;
 }
 
-interface FinancialSummary {
+interface FinancialTotals {
   invoicesTotal: number;
   paymentsTotal: number;
   expensesTotal: number;
   profit: number;
+}
+
+interface FinancialSummary extends FinancialTotals {
   currency: string | null;
+  totalsByCurrency: Array<FinancialTotals & { currency: string }>;
+  missingRateCurrencies: string[];
 }
 
 export function FinancialOverview({ operationId }: FinancialOverviewProps) {
-  const { data: financial, isLoading } = useQuery<FinancialSummary>({
-    queryKey: [`/api/operations/${operationId}/financial-overview`],
+  // Por defecto el servidor reporta en la moneda del proyecto
+  const [reportingCurrency, setReportingCurrency] = useState(ORIGINAL_CURRENCY);
+  const currencyParam = reportingCurrency !== ORIGINAL_CURRENCY ? `?currency=${reportingCurrency}` : '';
+
+  const { data: financial, isLoading, error } = useQuery<FinancialSummary>({
+    queryKey: [`/api/operations/${operationId}/financial-overview${currencyParam}`],
   });
 
+  const currencySelector = (
+    <div className="flex justify-end mb-2">
+      <ReportingCurrencySelect
+        value={reportingCurrency}
+        onChange={setReportingCurrency}
+        originalLabel="Moneda del proyecto"
+        testId="select-financial-currency"
+      />
+    </div>
+  );
+
   const formatCurrency = (amount: number, currency?: string | null) => {
     const curr = currency || 'USD';
     return new Intl.NumberFormat('es-MX', {
@@ -48,80 +70,116 @@ export function FinancialOverview({ operationId }: FinancialOverviewProps) {
     );
   }
 
+  if (error) {
+    return (
+      <div className="mb-6">
+        {currencySelector}
+        <Card>
+          <CardContent className="py-4 text-sm text-destructive" data-testid="text-financial-error">
+            {(error as Error).message}
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
   if (!financial) return null;
 
   const profitColor = financial.profit >= 0 ? 'text-green-600' : 'text-red-600';
   const profitBgColor = financial.profit >= 0 ? 'bg-green-100 dark:bg-green-900/20' : 'bg-red-100 dark:bg-red-900/20';
 
   return (
-    <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4 mb-6">
-      <Card data-testid="card-invoices-total">
-        <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
-          <CardTitle className="text-sm font-medium text-muted-foreground">
-            Facturas
-          </CardTitle>
-          <FileText className="h-4 w-4 text-muted-foreground" />
-        </CardHeader>
-        <CardContent>
-          <div className="text-2xl font-bold" data-testid="text-invoices-amount">
-            {formatCurrency(financial.invoicesTotal, financial.currency)}
-          </div>
-          <p className="text-xs text-muted-foreground mt-1">
-            Total facturado al cliente
-          </p>
-        </CardContent>
-      </Card>
-
-      <Card data-testid="card-payments-total">
-        <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
-          <CardTitle className="text-sm font-medium text-muted-foreground">
-            Pagos Recibidos
-          </CardTitle>
-          <DollarSign className="h-4 w-4 text-green-600" />
-        </CardHeader>
-        <CardContent>
-          <div className="text-2xl font-bold text-green-600" data-testid="text-payments-amount">
-            {formatCurrency(financial.paymentsTotal, financial.currency)}
-          </div>
-          <p className="text-xs text-muted-foreground mt-1">
-            Ingresos de clientes
-          </p>
-        </CardContent>
-      </Card>
-
-      <Card data-testid="card-expenses-total">
-        <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
-          <CardTitle className="text-sm font-medium text-muted-foreground">
-            Gastos
-          </CardTitle>
-          <TrendingDown className="h-4 w-4 text-red-600" />
-        </CardHeader>
-        <CardContent>
-          <div className="text-2xl font-bold text-red-600" data-testid="text-expenses-amount">
-            {formatCurrency(financial.expensesTotal, financial.currency)}
-          </div>
-          <p className="text-xs text-muted-foreground mt-1">
-            Costos de la operación
-          </p>
-        </CardContent>
-      </Card>
-
-      <Card data-testid="card-profit" className={profitBgColor}>
-        <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
-          <CardTitle className="text-sm font-medium text-muted-foreground">
-            Ganancia / Profit
-          </CardTitle>
-          <TrendingUp className={`h-4 w-4 ${profitColor}`} />
-        </CardHeader>
-        <CardContent>
-          <div className={`text-2xl font-bold ${profitColor}`} data-testid="text-profit-amount">
-            {formatCurrency(financial.profit, financial.currency)}
-          </div>
-          <p className="text-xs text-muted-foreground mt-1">
-            Pagos - Gastos
-          </p>
-        </CardContent>
-      </Card>
+    <div className="mb-6">
+      {currencySelector}
+      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4">
+        <Card data-testid="card-invoices-total">
+          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+            <CardTitle className="text-sm font-medium text-muted-foreground">
+              Facturas
+            </CardTitle>
+            <FileText className="h-4 w-4 text-muted-foreground" />
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold" data-testid="text-invoices-amount">
+              {formatCurrency(financial.invoicesTotal, financial.currency)}
+            </div>
+            <p className="text-xs text-muted-foreground mt-1">
+              Total facturado al cliente
+            </p>
+          </CardContent>
+        </Card>
+
+        <Card data-testid="card-payments-total">
+          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+            <CardTitle className="text-sm font-medium text-muted-foreground">
+              Pagos Recibidos
+            </CardTitle>
+            <DollarSign className="h-4 w-4 text-green-600" />
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold text-green-600" data-testid="text-payments-amount">
+              {formatCurrency(financial.paymentsTotal, financial.currency)}
+            </div>
+            <p className="text-xs text-muted-foreground mt-1">
+              Ingresos de clientes
+            </p>
+          </CardContent>
+        </Card>
+
+        <Card data-testid="card-expenses-total">
+          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+            <CardTitle className="text-sm font-medium text-muted-foreground">
+              Gastos
+            </CardTitle>
+            <TrendingDown className="h-4 w-4 text-red-600" />
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold text-red-600" data-testid="text-expenses-amount">
+              {formatCurrency(financial.expensesTotal, financial.currency)}
+            </div>
+            <p className="text-xs text-muted-foreground mt-1">
+              Costos de la operación
+            </p>
+          </CardContent>
+        </Card>
+
+        <Card data-testid="card-profit" className={profitBgColor}>
+          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+            <CardTitle className="text-sm font-medium text-muted-foreground">
+              Ganancia / Profit
+            </CardTitle>
+            <TrendingUp className={`h-4 w-4 ${profitColor}`} />
+          </CardHeader>
+          <CardContent>
+            <div className={`text-2xl font-bold ${profitColor}`} data-testid="text-profit-amount">
+              {formatCurrency(financial.profit, financial.currency)}
+            </div>
+            <p className="text-xs text-muted-foreground mt-1">
+              Pagos - Gastos
+            </p>
+          </CardContent>
+        </Card>
+      </div>
+
+      {financial.missingRateCurrencies.length > 0 && (
+        <Card className="mt-4 border-yellow-500/50" data-testid="card-missing-rates">
+          <CardContent className="py-4 space-y-2 text-sm">
+            <div className="flex items-center gap-2 text-yellow-700 dark:text-yellow-500">
+              <AlertTriangle className="h-4 w-4" />
+              Sin tipo de cambio para {financial.missingRateCurrencies.join(", ")}: esos montos no se incluyen en los totales en {financial.currency}
+            </div>
+            {financial.totalsByCurrency.map((totals) => (
+              <div key={totals.currency} className="flex flex-wrap gap-x-4 text-muted-foreground" data-testid={`text-totals-${totals.currency}`}>
+                <span className="font-medium text-foreground">{totals.currency}</span>
+                <span>Facturas {formatCurrency(totals.invoicesTotal, totals.currency)}</span>
+                <span>Pagos {formatCurrency(totals.paymentsTotal, totals.currency)}</span>
+                <span>Gastos {formatCurrency(totals.expensesTotal, totals.currency)}</span>
+                <span>Profit {formatCurrency(totals.profit, totals.currency)}</span>
+              </div>
+            ))}
+          </CardContent>
+        </Card>
+      )}
     </div>
   );
 }
@@ -0,0 +1,728 @@
+import { useEffect, useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { useLocation } from "wouter";
+import { CheckCircle2, Copy, FileDown, Plus, Save, Search, Ship, Trash2 } from "lucide-react";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { LocationAutocomplete, type LocationKind } from "@/components/LocationAutocomplete";
+import { TariffRateLookup } from "@/components/TariffRateLookup";
+import {
+  CHARGE_BASES,
+  CHARGE_CODES,
+  computeChargeLineAmounts,
+  computeQuoteOptionTotals,
+  getChargeCode,
+  type ChargeBasis,
+  type QuoteOptionTotals,
+} from "@shared/freight-quote";
+import type { RateLookupOption } from "@shared/tariffs";
+import type { Proposal, ProposalRouteOption, ProposalChargeLine } from "@shared/schema";
+
+const INCOTERMS = ["EXW", "FCA", "FAS", "FOB", "CFR", "CIF", "CPT", "CIP", "DAP", "DPU", "DDP"];
+
+interface QuoteRouteOption extends Omit<ProposalRouteOption, "buyTotal" | "sellTotal">, QuoteOptionTotals {
+  chargeLines: ProposalChargeLine[];
+  expired: boolean;
+}
+
+interface FreightQuoteData {
+  options: QuoteRouteOption[];
+  selectedOptionId: string | null;
+}
+
+interface ChargeLineDraft {
+  chargeCode: string;
+  description: string;
+  basis: ChargeBasis;
+  quantity: string;
+  currency: string;
+  buyRate: string;
+  sellRate: string;
+}
+
+interface RouteOptionDraft {
+  name: string;
+  carrier: string;
+  transitDays: string;
+  validUntil: string; // yyyy-mm-dd
+  transshipmentLocationIds: string[];
+  notes: string;
+  chargeLines: ChargeLineDraft[];
+}
+
+interface ShipmentDraft {
+  projectCategory: string;
+  operationType: string;
+  shippingMode: string;
+  incoterm: string;
+  originLocationId: string | null;
+  destinationLocationId: string | null;
+  cargoDescription: string;
+  cargoValue: string;
+}
+
+function emptyLine(currency: string): ChargeLineDraft {
+  return { chargeCode: "OFR", description: "", basis: "per_container", quantity: "1", currency, buyRate: "", sellRate: "" };
+}
+
+function emptyOption(index: number, currency: string): RouteOptionDraft {
+  return {
+    name: `Opción ${index + 1}`,
+    carrier: "",
+    transitDays: "",
+    validUntil: "",
+    transshipmentLocationIds: [],
+    notes: "",
+    chargeLines: [emptyLine(currency)],
+  };
+}
+
+function quoteToDraft(quote: FreightQuoteData): RouteOptionDraft[] {
+  return quote.options.map((option) => ({
+    name: option.name,
+    carrier: option.carrier || "",
+    transitDays: option.transitDays ? String(option.transitDays) : "",
+    validUntil: option.validUntil ? new Date(option.validUntil).toISOString().split("T")[0] : "",
+    transshipmentLocationIds: option.transshipmentLocationIds || [],
+    notes: option.notes || "",
+    chargeLines: option.chargeLines.map((line) => ({
+      chargeCode: line.chargeCode,
+      description: line.description || "",
+      basis: line.basis as ChargeBasis,
+      quantity: line.quantity,
+      currency: line.currency,
+      buyRate: line.buyRate,
+      sellRate: line.sellRate,
+    })),
+  }));
+}
+
+function tariffToDraft(option: RateLookupOption, cargoValue: string): RouteOptionDraft {
+  return {
+    name: option.equipmentType ? `${option.carrier} ${option.equipmentType}` : option.carrier,
+    carrier: option.carrier,
+    transitDays: option.transitDays ? String(option.transitDays) : "",
+    validUntil: option.validUntil ? option.validUntil.split("T")[0] : "",
+    transshipmentLocationIds: [],
+    notes: `Tarifa ${option.tariffName} (${option.supplierName})`,
+    chargeLines: option.chargeLines.map((line) => ({
+      chargeCode: line.chargeCode,
+      description: line.description || "",
+      basis: line.basis,
+      quantity: line.basis === "percent_of_value" ? cargoValue || "0" : String(line.quantity),
+      currency: line.currency,
+      buyRate: String(line.buyRate),
+      sellRate: "", // La venta la define quien cotiza
+    })),
+  };
+}
+
+function isBlankOption(option: RouteOptionDraft) {
+  return !option.carrier && option.chargeLines.every((line) => !line.buyRate && !line.sellRate);
+}
+
+function proposalToShipment(proposal: Proposal): ShipmentDraft {
+  return {
+    projectCategory: proposal.projectCategory || "",
+    operationType: proposal.operationType || "",
+    shippingMode: proposal.shippingMode || "",
+    incoterm: proposal.incoterm || "",
+    originLocationId: proposal.originLocationId,
+    destinationLocationId: proposal.destinationLocationId,
+    cargoDescription: proposal.cargoDescription || "",
+    cargoValue: proposal.cargoValue || "",
+  };
+}
+
+function formatMoney(amount: number, currency: string) {
+  return `${currency} ${amount.toLocaleString("en-US", { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+}
+
+interface FreightQuoteBuilderProps {
+  proposal: Proposal;
+}
+
+/**
+ * Cotización de flete: datos del embarque, opciones de ruta con cargos de compra / venta,
+ * margen por opción, PDF para el cliente y aceptación (crea operación y borrador de factura)
+ */
+export function FreightQuoteBuilder({ proposal }: FreightQuoteBuilderProps) {
+  const { toast } = useToast();
+  const [, navigate] = useLocation();
+  const [shipment, setShipment] = useState<ShipmentDraft>(() => proposalToShipment(proposal));
+  const [options, setOptions] = useState<RouteOptionDraft[]>([]);
+  const [selectedIndex, setSelectedIndex] = useState<number | null>(null);
+  const [dirty, setDirty] = useState(false);
+  const [isLookupOpen, setIsLookupOpen] = useState(false);
+  const isConverted = proposal.status === "converted" || !!proposal.convertedToOperationId;
+
+  const { data: quote, isLoading } = useQuery<FreightQuoteData>({
+    queryKey: ["/api/proposals", proposal.id, "freight-quote"],
+  });
+
+  useEffect(() => {
+    if (!quote) return;
+    setOptions(quote.options.length > 0 ? quoteToDraft(quote) : [emptyOption(0, proposal.currency)]);
+    const selected = quote.options.findIndex((option) => option.id === quote.selectedOptionId);
+    setSelectedIndex(selected === -1 ? null : selected);
+    setDirty(false);
+  }, [quote, proposal.currency]);
+
+  useEffect(() => {
+    setShipment(proposalToShipment(proposal));
+  }, [proposal]);
+
+  // Tipos de cambio fijados en el último guardado; las monedas nuevas se convierten al guardar
+  const exchangeRates = new Map<string, number>([[proposal.currency, 1]]);
+  quote?.options.forEach((option) => option.chargeLines.forEach((line) => {
+    if (!exchangeRates.has(line.currency)) exchangeRates.set(line.currency, Number(line.exchangeRate));
+  }));
+
+  const invalidateProposal = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/proposals"] });
+  };
+
+  const saveShipmentMutation = useMutation({
+    mutationFn: () => apiRequest("PATCH", `/api/proposals/${proposal.id}`, {
+      ...shipment,
+      quoteType: "freight",
+      projectCategory: shipment.projectCategory || null,
+      operationType: shipment.operationType || null,
+      shippingMode: shipment.shippingMode || null,
+      incoterm: shipment.incoterm || null,
+      cargoDescription: shipment.cargoDescription || null,
+      cargoValue: shipment.cargoValue || null,
+    }),
+    onSuccess: () => {
+      invalidateProposal();
+      toast({ title: "Datos del embarque guardados" });
+    },
+    onError: (error: any) => {
+      toast({ title: "Error", description: error?.message || "No se pudieron guardar los datos del embarque", variant: "destructive" });
+    },
+  });
+
+  const saveQuoteMutation = useMutation({
+    mutationFn: () => apiRequest("PUT", `/api/proposals/${proposal.id}/freight-quote`, {
+      selectedOptionIndex: selectedIndex,
+      options: options.map((option) => ({
+        name: option.name.trim() || "Opción",
+        carrier: option.carrier || null,
+        transitDays: option.transitDays ? parseInt(option.transitDays) : null,
+        validUntil: option.validUntil || null,
+        transshipmentLocationIds: option.transshipmentLocationIds.filter(Boolean),
+        notes: option.notes || null,
+        chargeLines: option.chargeLines.map((line) => ({
+          chargeCode: line.chargeCode,
+          description: line.description || null,
+          basis: line.basis,
+          quantity: line.quantity || "0",
+          currency: line.currency,
+          buyRate: line.buyRate || "0",
+          sellRate: line.sellRate || "0",
+        })),
+      })),
+    }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/proposals", proposal.id, "freight-quote"] });
+      invalidateProposal();
+      toast({ title: "Cotización guardada" });
+    },
+    onError: (error: any) => {
+      toast({ title: "Error", description: error?.message || "No se pudo guardar la cotización", variant: "destructive" });
+    },
+  });
+
+  const acceptMutation = useMutation({
+    mutationFn: async (optionId: string) => {
+      const res = await apiRequest("POST", `/api/proposals/${proposal.id}/accept`, { optionId });
+      return await res.json() as { operation: { id: string }; invoice: { invoiceNumber: string } };
+    },
+    onSuccess: (result) => {
+      invalidateProposal();
+      queryClient.invalidateQueries({ queryKey: ["/api/operations"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/invoices"] });
+      toast({ title: "Cotización aceptada", description: `Se creó la operación y el borrador de factura ${result.invoice.invoiceNumber}` });
+      navigate(`/operations/${result.operation.id}`);
+    },
+    onError: (error: any) => {
+      toast({ title: "Error", description: error?.message || "No se pudo aceptar la cotización", variant: "destructive" });
+    },
+  });
+
+  const updateOptions = (next: RouteOptionDraft[]) => {
+    setOptions(next);
+    setDirty(true);
+  };
+
+  const updateOption = (index: number, changes: Partial<RouteOptionDraft>) => {
+    updateOptions(options.map((option, i) => (i === index ? { ...option, ...changes } : option)));
+  };
+
+  const updateLine = (optionIndex: number, lineIndex: number, changes: Partial<ChargeLineDraft>) => {
+    const option = options[optionIndex];
+    updateOption(optionIndex, {
+      chargeLines: option.chargeLines.map((line, i) => (i === lineIndex ? { ...line, ...changes } : line)),
+    });
+  };
+
+  const changeChargeCode = (optionIndex: number, lineIndex: number, chargeCode: string) => {
+    const basis = getChargeCode(chargeCode)?.basis || "per_shipment";
+    const changes: Partial<ChargeLineDraft> = { chargeCode, basis };
+    if (basis === "percent_of_value" && shipment.cargoValue) changes.quantity = shipment.cargoValue;
+    updateLine(optionIndex, lineIndex, changes);
+  };
+
+  const addTariffOption = (option: RateLookupOption) => {
+    const draft = tariffToDraft(option, shipment.cargoValue);
+    updateOptions(options.length === 1 && isBlankOption(options[0]) ? [draft] : [...options, draft]);
+    setIsLookupOpen(false);
+    toast({ title: "Tarifa agregada", description: "Captura la venta de cada cargo y guarda la cotización" });
+  };
+
+  const removeOption = (index: number) => {
+    updateOptions(options.filter((_, i) => i !== index));
+    if (selectedIndex === index) setSelectedIndex(null);
+    else if (selectedIndex !== null && selectedIndex > index) setSelectedIndex(selectedIndex - 1);
+  };
+
+  const locationKind: LocationKind | undefined = shipment.shippingMode === "air" ? "airport" : shipment.shippingMode === "sea" ? "seaport" : undefined;
+
+  if (isLoading) {
+    return <Skeleton className="h-64 w-full" />;
+  }
+
+  return (
+    <div className="space-y-6" data-testid="freight-quote-builder">
+      <Card>
+        <CardHeader>
+          <div className="flex items-center justify-between">
+            <div>
+              <CardTitle className="flex items-center gap-2">
+                <Ship className="w-5 h-5" />
+                Embarque
+              </CardTitle>
+              <CardDescription>Se copia a la operación al aceptar la cotización</CardDescription>
+            </div>
+            {!isConverted && (
+              <Button size="sm" variant="outline" onClick={() => saveShipmentMutation.mutate()} disabled={saveShipmentMutation.isPending} data-testid="button-save-shipment">
+                <Save className="w-4 h-4 mr-2" />
+                Guardar datos
+              </Button>
+            )}
+          </div>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+            <div className="space-y-2">
+              <Label>Categoría</Label>
+              <Select value={shipment.projectCategory} onValueChange={(value) => setShipment({ ...shipment, projectCategory: value })} disabled={isConverted}>
+                <SelectTrigger data-testid="select-quote-category"><SelectValue placeholder="Seleccionar" /></SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="import">Importación</SelectItem>
+                  <SelectItem value="export">Exportación</SelectItem>
+                  <SelectItem value="domestic">Nacional</SelectItem>
+                  <SelectItem value="warehousing">Almacenamiento</SelectItem>
+                  <SelectItem value="customs-clearance">Despacho Aduanal</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>Tipo de operación</Label>
+              <Select value={shipment.operationType} onValueChange={(value) => setShipment({ ...shipment, operationType: value })} disabled={isConverted}>
+                <SelectTrigger data-testid="select-quote-operation-type"><SelectValue placeholder="Seleccionar" /></SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="FCL">FCL</SelectItem>
+                  <SelectItem value="LCL">LCL</SelectItem>
+                  <SelectItem value="Air">Carga Aérea</SelectItem>
+                  <SelectItem value="Road">Transporte Terrestre</SelectItem>
+                  <SelectItem value="Rail">Transporte Ferroviario</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>Modo de envío</Label>
+              <Select value={shipment.shippingMode} onValueChange={(value) => setShipment({ ...shipment, shippingMode: value })} disabled={isConverted}>
+                <SelectTrigger data-testid="select-quote-shipping-mode"><SelectValue placeholder="Seleccionar" /></SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="sea">Marítimo</SelectItem>
+                  <SelectItem value="air">Aéreo</SelectItem>
+                  <SelectItem value="land">Terrestre</SelectItem>
+                  <SelectItem value="multimodal">Multimodal</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>Incoterm</Label>
+              <Select value={shipment.incoterm} onValueChange={(value) => setShipment({ ...shipment, incoterm: value })} disabled={isConverted}>
+                <SelectTrigger data-testid="select-quote-incoterm"><SelectValue placeholder="Seleccionar" /></SelectTrigger>
+                <SelectContent>
+                  {INCOTERMS.map((incoterm) => (
+                    <SelectItem key={incoterm} value={incoterm}>{incoterm}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label>Origen</Label>
+              <LocationAutocomplete
+                value={shipment.originLocationId}
+                onChange={(id) => setShipment({ ...shipment, originLocationId: id })}
+                kind={locationKind}
+                disabled={isConverted}
+                testId="quote-origin"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Destino</Label>
+              <LocationAutocomplete
+                value={shipment.destinationLocationId}
+                onChange={(id) => setShipment({ ...shipment, destinationLocationId: id })}
+                kind={locationKind}
+                disabled={isConverted}
+                testId="quote-destination"
+              />
+            </div>
+          </div>
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <div className="space-y-2 md:col-span-2">
+              <Label>Mercancía</Label>
+              <Input
+                value={shipment.cargoDescription}
+                onChange={(e) => setShipment({ ...shipment, cargoDescription: e.target.value })}
+                placeholder="ej., 2x40HC autopartes, 18,000 kg"
+                disabled={isConverted}
+                data-testid="input-quote-cargo"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Valor de la mercancía ({proposal.currency})</Label>
+              <Input
+                type="number"
+                step="0.01"
+                value={shipment.cargoValue}
+                onChange={(e) => setShipment({ ...shipment, cargoValue: e.target.value })}
+                disabled={isConverted}
+                data-testid="input-quote-cargo-value"
+              />
+            </div>
+          </div>
+        </CardContent>
+      </Card>
+
+      <div className="flex items-center justify-between">
+        <div>
+          <h3 className="text-lg font-semibold">Opciones de ruta</h3>
+          <p className="text-sm text-muted-foreground">
+            Compra y venta por concepto; los totales se expresan en {proposal.currency}
+          </p>
+        </div>
+        <div className="flex gap-2">
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => window.open(`/api/proposals/${proposal.id}/pdf`, "_blank")}
+            disabled={dirty || !quote?.options.length}
+            data-testid="button-quote-pdf"
+          >
+            <FileDown className="w-4 h-4 mr-2" />
+            PDF
+          </Button>
+          {!isConverted && (
+            <>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => setIsLookupOpen(true)}
+                disabled={!shipment.originLocationId || !shipment.destinationLocationId}
+                title={!shipment.originLocationId || !shipment.destinationLocationId ? "Define origen y destino del embarque" : undefined}
+                data-testid="button-lookup-rates"
+              >
+                <Search className="w-4 h-4 mr-2" />
+                Buscar tarifas
+              </Button>
+              <Button variant="outline" size="sm" onClick={() => updateOptions([...options, emptyOption(options.length, proposal.currency)])} data-testid="button-add-option">
+                <Plus className="w-4 h-4 mr-2" />
+                Agregar opción
+              </Button>
+              <Button size="sm" onClick={() => saveQuoteMutation.mutate()} disabled={saveQuoteMutation.isPending || options.length === 0} data-testid="button-save-quote">
+                <Save className="w-4 h-4 mr-2" />
+                Guardar cotización
+              </Button>
+            </>
+          )}
+        </div>
+      </div>
+
+      {options.map((option, optionIndex) => {
+        const saved = quote?.options[optionIndex];
+        const unknownCurrencies = Array.from(new Set(option.chargeLines.map((line) => line.currency)))
+          .filter((currency) => !exchangeRates.has(currency));
+        const totals = computeQuoteOptionTotals(option.chargeLines.map((line) => ({
+          ...line,
+          exchangeRate: exchangeRates.get(line.currency) ?? 0,
+        })));
+        const isSelected = selectedIndex === optionIndex;
+        const isAccepted = isConverted && saved?.id === proposal.selectedOptionId;
+
+        return (
+          <Card key={optionIndex} className={isSelected || isAccepted ? "border-primary" : undefined} data-testid={`card-option-${optionIndex}`}>
+            <CardHeader className="pb-3">
+              <div className="flex flex-wrap items-center justify-between gap-2">
+                <div className="flex items-center gap-2">
+                  <Input
+                    value={option.name}
+                    onChange={(e) => updateOption(optionIndex, { name: e.target.value })}
+                    className="h-8 w-56 font-semibold"
+                    disabled={isConverted}
+                    data-testid={`input-option-name-${optionIndex}`}
+                  />
+                  {isAccepted && <Badge className="bg-green-600">Aceptada</Badge>}
+                  {saved?.expired && !isConverted && <Badge variant="destructive">Tarifa vencida</Badge>}
+                </div>
+                {!isConverted && (
+                  <div className="flex items-center gap-1">
+                    <Button
+                      variant={isSelected ? "default" : "outline"}
+                      size="sm"
+                      onClick={() => { setSelectedIndex(isSelected ? null : optionIndex); setDirty(true); }}
+                      data-testid={`button-select-option-${optionIndex}`}
+                    >
+                      {isSelected ? "Recomendada" : "Marcar recomendada"}
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      onClick={() => updateOptions([...options, { ...option, name: `${option.name} (copia)`, chargeLines: option.chargeLines.map((line) => ({ ...line })) }])}
+                      data-testid={`button-duplicate-option-${optionIndex}`}
+                    >
+                      <Copy className="w-4 h-4" />
+                    </Button>
+                    <Button variant="ghost" size="icon" onClick={() => removeOption(optionIndex)} disabled={options.length === 1} data-testid={`button-remove-option-${optionIndex}`}>
+                      <Trash2 className="w-4 h-4" />
+                    </Button>
+                  </div>
+                )}
+              </div>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+                <div className="space-y-1">
+                  <Label className="text-xs">Carrier</Label>
+                  <Input value={option.carrier} onChange={(e) => updateOption(optionIndex, { carrier: e.target.value })} placeholder="ej., Maersk" disabled={isConverted} data-testid={`input-option-carrier-${optionIndex}`} />
+                </div>
+                <div className="space-y-1">
+                  <Label className="text-xs">Tránsito (días)</Label>
+                  <Input type="number" min="0" value={option.transitDays} onChange={(e) => updateOption(optionIndex, { transitDays: e.target.value })} disabled={isConverted} data-testid={`input-option-transit-${optionIndex}`} />
+                </div>
+                <div className="space-y-1">
+                  <Label className="text-xs">Tarifa válida hasta</Label>
+                  <Input type="date" value={option.validUntil} onChange={(e) => updateOption(optionIndex, { validUntil: e.target.value })} disabled={isConverted} data-testid={`input-option-validity-${optionIndex}`} />
+                </div>
+                <div className="space-y-1">
+                  <Label className="text-xs">Notas</Label>
+                  <Input value={option.notes} onChange={(e) => updateOption(optionIndex, { notes: e.target.value })} disabled={isConverted} data-testid={`input-option-notes-${optionIndex}`} />
+                </div>
+              </div>
+
+              <div className="space-y-2">
+                <Label className="text-xs">Transbordos</Label>
+                {option.transshipmentLocationIds.map((stopId, stopIndex) => (
+                  <LocationAutocomplete
+                    key={stopIndex}
+                    value={stopId || null}
+                    onChange={(id) => updateOption(optionIndex, {
+                      transshipmentLocationIds: option.transshipmentLocationIds.map((current, i) => (i === stopIndex ? id || "" : current)),
+                    })}
+                    onRemove={() => updateOption(optionIndex, {
+                      transshipmentLocationIds: option.transshipmentLocationIds.filter((_, i) => i !== stopIndex),
+                    })}
+                    kind={locationKind}
+                    disabled={isConverted}
+                    testId={`option-${optionIndex}-transshipment-${stopIndex}`}
+                  />
+                ))}
+                {!isConverted && (
+                  <Button
+                    type="button"
+                    variant="outline"
+                    size="sm"
+                    onClick={() => updateOption(optionIndex, { transshipmentLocationIds: [...option.transshipmentLocationIds, ""] })}
+                    data-testid={`button-add-option-transshipment-${optionIndex}`}
+                  >
+                    <Plus className="w-4 h-4 mr-2" />
+                    Agregar transbordo
+                  </Button>
+                )}
+              </div>
+
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead className="w-[170px]">Concepto</TableHead>
+                    <TableHead>Descripción</TableHead>
+                    <TableHead className="w-[150px]">Base</TableHead>
+                    <TableHead className="w-[100px]">Cantidad</TableHead>
+                    <TableHead className="w-[80px]">Moneda</TableHead>
+                    <TableHead className="w-[110px]">Compra</TableHead>
+                    <TableHead className="w-[110px]">Venta</TableHead>
+                    <TableHead className="text-right">Venta total</TableHead>
+                    <TableHead className="w-[40px]" />
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {option.chargeLines.map((line, lineIndex) => {
+                    const amounts = computeChargeLineAmounts(line);
+                    const isPercent = line.basis === "percent_of_value";
+                    return (
+                      <TableRow key={lineIndex} data-testid={`row-charge-${optionIndex}-${lineIndex}`}>
+                        <TableCell>
+                          <Select value={line.chargeCode} onValueChange={(value) => changeChargeCode(optionIndex, lineIndex, value)} disabled={isConverted}>
+                            <SelectTrigger className="h-8"><SelectValue /></SelectTrigger>
+                            <SelectContent>
+                              {CHARGE_CODES.map((code) => (
+                                <SelectItem key={code.code} value={code.code}>{code.code} · {code.label}</SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                        </TableCell>
+                        <TableCell>
+                          <Input className="h-8" value={line.description} onChange={(e) => updateLine(optionIndex, lineIndex, { description: e.target.value })} disabled={isConverted} />
+                        </TableCell>
+                        <TableCell>
+                          <Select value={line.basis} onValueChange={(value) => updateLine(optionIndex, lineIndex, { basis: value as ChargeBasis })} disabled={isConverted}>
+                            <SelectTrigger className="h-8"><SelectValue /></SelectTrigger>
+                            <SelectContent>
+                              {CHARGE_BASES.map((basis) => (
+                                <SelectItem key={basis.code} value={basis.code}>{basis.label}</SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                        </TableCell>
+                        <TableCell>
+                          <Input
+                            className="h-8"
+                            type="number"
+                            step="0.001"
+                            value={line.quantity}
+                            onChange={(e) => updateLine(optionIndex, lineIndex, { quantity: e.target.value })}
+                            title={isPercent ? "Valor de la mercancía" : undefined}
+                            disabled={isConverted}
+                          />
+                        </TableCell>
+                        <TableCell>
+                          <Input className="h-8 uppercase" maxLength={3} value={line.currency} onChange={(e) => updateLine(optionIndex, lineIndex, { currency: e.target.value.toUpperCase() })} disabled={isConverted} />
+                        </TableCell>
+                        <TableCell>
+                          <Input className="h-8" type="number" step="0.01" placeholder={isPercent ? "%" : undefined} value={line.buyRate} onChange={(e) => updateLine(optionIndex, lineIndex, { buyRate: e.target.value })} disabled={isConverted} />
+                        </TableCell>
+                        <TableCell>
+                          <Input className="h-8" type="number" step="0.01" placeholder={isPercent ? "%" : undefined} value={line.sellRate} onChange={(e) => updateLine(optionIndex, lineIndex, { sellRate: e.target.value })} disabled={isConverted} />
+                        </TableCell>
+                        <TableCell className="text-right whitespace-nowrap">
+                          <div>{formatMoney(amounts.sellAmount, line.currency)}</div>
+                          <div className={`text-xs ${amounts.sellAmount - amounts.buyAmount < 0 ? "text-red-600" : "text-muted-foreground"}`}>
+                            Margen {formatMoney(amounts.sellAmount - amounts.buyAmount, line.currency)}
+                          </div>
+                        </TableCell>
+                        <TableCell>
+                          {!isConverted && (
+                            <Button
+                              variant="ghost"
+                              size="icon"
+                              onClick={() => updateOption(optionIndex, { chargeLines: option.chargeLines.filter((_, i) => i !== lineIndex) })}
+                              disabled={option.chargeLines.length === 1}
+                            >
+                              <Trash2 className="w-4 h-4" />
+                            </Button>
+                          )}
+                        </TableCell>
+                      </TableRow>
+                    );
+                  })}
+                </TableBody>
+              </Table>
+
+              <div className="flex flex-wrap items-center justify-between gap-4">
+                {!isConverted ? (
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => updateOption(optionIndex, { chargeLines: [...option.chargeLines, emptyLine(proposal.currency)] })}
+                    data-testid={`button-add-charge-${optionIndex}`}
+                  >
+                    <Plus className="w-4 h-4 mr-2" />
+                    Agregar cargo
+                  </Button>
+                ) : <div />}
+                <div className="flex flex-wrap items-center gap-6 text-sm">
+                  <div>
+                    <span className="text-muted-foreground">Compra </span>
+                    <span className="font-medium">{formatMoney(totals.buyTotal, proposal.currency)}</span>
+                  </div>
+                  <div>
+                    <span className="text-muted-foreground">Venta </span>
+                    <span className="font-semibold">{formatMoney(totals.sellTotal, proposal.currency)}</span>
+                  </div>
+                  <div className={totals.margin < 0 ? "text-red-600" : "text-green-600"} data-testid={`text-option-margin-${optionIndex}`}>
+                    <span>Margen </span>
+                    <span className="font-semibold">
+                      {formatMoney(totals.margin, proposal.currency)}
+                      {totals.marginPercent !== null && ` (${totals.marginPercent}%)`}
+                    </span>
+                  </div>
+                  {!isConverted && saved && (
+                    <Button
+                      size="sm"
+                      onClick={() => acceptMutation.mutate(saved.id)}
+                      disabled={dirty || acceptMutation.isPending || saved.expired}
+                      title={dirty ? "Guarda la cotización antes de aceptar" : undefined}
+                      data-testid={`button-accept-option-${optionIndex}`}
+                    >
+                      <CheckCircle2 className="w-4 h-4 mr-2" />
+                      Aceptar
+                    </Button>
+                  )}
+                </div>
+              </div>
+              {unknownCurrencies.length > 0 && (
+                <p className="text-xs text-muted-foreground">
+                  Los cargos en {unknownCurrencies.join(", ")} se convierten a {proposal.currency} con el tipo de cambio del día al guardar.
+                </p>
+              )}
+            </CardContent>
+          </Card>
+        );
+      })}
+
+      {shipment.originLocationId && shipment.destinationLocationId && (
+        <TariffRateLookup
+          open={isLookupOpen}
+          onOpenChange={setIsLookupOpen}
+          originLocationId={shipment.originLocationId}
+          destinationLocationId={shipment.destinationLocationId}
+          shippingMode={shipment.shippingMode}
+          currency={proposal.currency}
+          onSelect={addTariffOption}
+        />
+      )}
+    </div>
+  );
+}
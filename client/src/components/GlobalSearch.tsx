@@ -0,0 +1,178 @@
+import { useEffect, useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { useLocation } from "wouter";
+import { format } from "date-fns";
+import { Search, Mail, Paperclip, FileText, StickyNote, CheckSquare } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent } from "@/components/ui/dialog";
+import {
+  Command,
+  CommandEmpty,
+  CommandGroup,
+  CommandInput,
+  CommandItem,
+  CommandList,
+} from "@/components/ui/command";
+
+type SearchEntityType = "email" | "email_attachment" | "operation_file" | "operation_note" | "operation_task";
+
+interface SearchResult {
+  entityType: SearchEntityType;
+  entityId: string;
+  title: string;
+  snippet: string;
+  operationId: string | null;
+  operationName: string | null;
+  date: string | null;
+  rank: number;
+}
+
+interface SearchResultGroup {
+  entityType: SearchEntityType;
+  results: SearchResult[];
+}
+
+const GROUPS: Record<SearchEntityType, { label: string; icon: typeof Mail; tab: string }> = {
+  email: { label: "Correos", icon: Mail, tab: "emails" },
+  email_attachment: { label: "Adjuntos de correo", icon: Paperclip, tab: "emails" },
+  operation_file: { label: "Archivos", icon: FileText, tab: "files" },
+  operation_note: { label: "Notas", icon: StickyNote, tab: "notes" },
+  operation_task: { label: "Tareas", icon: CheckSquare, tab: "tasks" },
+};
+
+// Espera antes de buscar mientras se escribe
+const DEBOUNCE_MS = 250;
+
+/**
+ * Resalta los términos que Postgres marcó con <mark></mark> en el fragmento (sin HTML crudo)
+ */
+function HighlightedSnippet({ snippet }: { snippet: string }) {
+  const parts = snippet.split(/<mark>(.*?)<\/mark>/g);
+  return (
+    <span className="text-xs text-muted-foreground line-clamp-2">
+      {parts.map((part, index) =>
+        index % 2 === 1 ? (
+          <mark key={index} className="bg-yellow-200 dark:bg-yellow-800 text-foreground rounded-sm px-0.5">{part}</mark>
+        ) : (
+          part
+        )
+      )}
+    </span>
+  );
+}
+
+/**
+ * Paleta de búsqueda global (Ctrl/⌘ + K) sobre correos, adjuntos, archivos, notas y tareas
+ */
+export function GlobalSearch() {
+  const [, navigate] = useLocation();
+  const [open, setOpen] = useState(false);
+  const [query, setQuery] = useState("");
+  const [debouncedQuery, setDebouncedQuery] = useState("");
+
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key.toLowerCase() === "k" && (event.metaKey || event.ctrlKey)) {
+        event.preventDefault();
+        setOpen((current) => !current);
+      }
+    };
+
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  }, []);
+
+  useEffect(() => {
+    const timeout = setTimeout(() => setDebouncedQuery(query.trim()), DEBOUNCE_MS);
+    return () => clearTimeout(timeout);
+  }, [query]);
+
+  const { data: groups = [], isFetching } = useQuery<SearchResultGroup[]>({
+    queryKey: [`/api/search?q=${encodeURIComponent(debouncedQuery)}`],
+    enabled: open && debouncedQuery.length >= 2,
+  });
+
+  const openResult = (result: SearchResult) => {
+    setOpen(false);
+    if (result.operationId) {
+      navigate(`/operations/${result.operationId}?tab=${GROUPS[result.entityType].tab}`);
+    } else {
+      navigate("/gmail"); // Correos sin operación
+    }
+  };
+
+  return (
+    <>
+      <Button
+        variant="outline"
+        size="sm"
+        className="h-8 w-56 justify-start text-muted-foreground"
+        onClick={() => setOpen(true)}
+        data-testid="button-global-search"
+      >
+        <Search className="h-4 w-4 mr-2" />
+        <span className="flex-1 text-left">Buscar...</span>
+        <kbd className="pointer-events-none text-[10px] font-mono border rounded px-1.5">Ctrl K</kbd>
+      </Button>
+
+      <Dialog
+        open={open}
+        onOpenChange={(value) => {
+          setOpen(value);
+          if (!value) setQuery("");
+        }}
+      >
+        <DialogContent className="overflow-hidden p-0 shadow-lg max-w-2xl">
+          {/* El filtrado lo hace el servidor (texto completo), no cmdk */}
+          <Command shouldFilter={false} className="[&_[cmdk-group-heading]]:px-2 [&_[cmdk-group-heading]]:font-medium [&_[cmdk-group-heading]]:text-muted-foreground [&_[cmdk-group]]:px-2 [&_[cmdk-input]]:h-12 [&_[cmdk-item]]:px-2 [&_[cmdk-item]]:py-2">
+            <CommandInput
+              value={query}
+              onValueChange={setQuery}
+              placeholder="Buscar contenedores, bookings, asuntos, notas..."
+              data-testid="input-global-search"
+            />
+            <CommandList className="max-h-[60vh]">
+              {debouncedQuery.length < 2 ? (
+                <p className="py-6 text-center text-sm text-muted-foreground">Escribe al menos 2 caracteres</p>
+              ) : (
+                <CommandEmpty>{isFetching ? "Buscando..." : "Sin resultados"}</CommandEmpty>
+              )}
+              {debouncedQuery.length >= 2 && groups.map((group) => {
+                const { label, icon: Icon } = GROUPS[group.entityType];
+                return (
+                  <CommandGroup key={group.entityType} heading={label}>
+                    {group.results.map((result) => (
+                      <CommandItem
+                        key={`${result.entityType}-${result.entityId}`}
+                        value={`${result.entityType}-${result.entityId}`}
+                        onSelect={() => openResult(result)}
+                        className="items-start gap-2"
+                        data-testid={`search-result-${result.entityType}-${result.entityId}`}
+                      >
+                        <Icon className="h-4 w-4 mt-0.5 shrink-0 text-muted-foreground" />
+                        <div className="min-w-0 flex-1 space-y-0.5">
+                          <div className="flex items-center justify-between gap-2">
+                            <span className="text-sm font-medium truncate">{result.title}</span>
+                            {result.date && (
+                              <span className="text-[10px] text-muted-foreground whitespace-nowrap">
+                                {format(new Date(result.date), "dd/MM/yy")}
+                              </span>
+                            )}
+                          </div>
+                          {result.snippet && <HighlightedSnippet snippet={result.snippet} />}
+                          {result.operationName && (
+                            <span className="block text-[10px] text-primary truncate">{result.operationName}</span>
+                          )}
+                        </div>
+                      </CommandItem>
+                    ))}
+                  </CommandGroup>
+                );
+              })}
+            </CommandList>
+          </Command>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
@@ -0,0 +1,181 @@
+import { useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { Server } from "lucide-react";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+
+interface ImapForm {
+  email: string;
+  mailUsername: string;
+  mailPassword: string;
+  imapHost: string;
+  imapPort: string;
+  imapSecure: boolean;
+  smtpHost: string;
+  smtpPort: string;
+  smtpSecure: boolean;
+  imapUseIdle: boolean;
+}
+
+const EMPTY_FORM: ImapForm = {
+  email: "",
+  mailUsername: "",
+  mailPassword: "",
+  imapHost: "",
+  imapPort: "993",
+  imapSecure: true,
+  smtpHost: "",
+  smtpPort: "465",
+  smtpSecure: true,
+  imapUseIdle: true,
+};
+
+/**
+ * Alta de un buzón corporativo por IMAP/SMTP (Exchange, Dovecot...) con usuario y contraseña
+ */
+export function ImapAccountDialog() {
+  const { toast } = useToast();
+  const [open, setOpen] = useState(false);
+  const [form, setForm] = useState<ImapForm>(EMPTY_FORM);
+  const [syncRange, setSyncRange] = useState("1");
+
+  const update = <K extends keyof ImapForm>(field: K, value: ImapForm[K]) => setForm((current) => ({ ...current, [field]: value }));
+
+  const buildPayload = () => {
+    const syncFromDate = new Date();
+    syncFromDate.setMonth(syncFromDate.getMonth() - parseInt(syncRange));
+    return {
+      ...form,
+      mailUsername: form.mailUsername || form.email,
+      syncFromDate: syncFromDate.toISOString(),
+    };
+  };
+
+  const testMutation = useMutation({
+    mutationFn: () => apiRequest("POST", "/api/gmail/accounts/imap/test", buildPayload()),
+    onSuccess: () => {
+      toast({ title: "Conexión correcta", description: "Los servidores IMAP y SMTP aceptaron las credenciales." });
+    },
+    onError: (error: any) => {
+      toast({ title: "Error de conexión", description: error?.message || "No se pudo conectar", variant: "destructive" });
+    },
+  });
+
+  const createMutation = useMutation({
+    mutationFn: () => apiRequest("POST", "/api/gmail/accounts/imap", buildPayload()),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/gmail/accounts"] });
+      toast({ title: "Buzón conectado", description: "La sincronización de correos ha iniciado." });
+      setOpen(false);
+      setForm(EMPTY_FORM);
+    },
+    onError: (error: any) => {
+      toast({ title: "Error", description: error?.message || "No se pudo conectar el buzón", variant: "destructive" });
+    },
+  });
+
+  const isPending = testMutation.isPending || createMutation.isPending;
+  const isComplete = !!form.email && !!form.mailPassword && !!form.imapHost && !!form.smtpHost;
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button variant="outline" data-testid="button-connect-imap">
+          <Server className="h-4 w-4 mr-2" />
+          Conectar IMAP
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Conectar buzón IMAP/SMTP</DialogTitle>
+          <DialogDescription>
+            Para buzones corporativos (Exchange, Dovecot...). Usa la contraseña de la cuenta o una contraseña de aplicación.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4 py-2">
+          <div className="grid grid-cols-2 gap-3">
+            <div className="space-y-1">
+              <Label>Correo</Label>
+              <Input value={form.email} onChange={(e) => update("email", e.target.value)} placeholder="ventas@empresa.com" data-testid="input-imap-email" />
+            </div>
+            <div className="space-y-1">
+              <Label>Usuario</Label>
+              <Input value={form.mailUsername} onChange={(e) => update("mailUsername", e.target.value)} placeholder="Igual al correo" data-testid="input-imap-username" />
+            </div>
+          </div>
+          <div className="space-y-1">
+            <Label>Contraseña</Label>
+            <Input type="password" value={form.mailPassword} onChange={(e) => update("mailPassword", e.target.value)} data-testid="input-imap-password" />
+          </div>
+
+          <div className="grid grid-cols-[1fr_90px_auto] gap-3 items-end">
+            <div className="space-y-1">
+              <Label>Servidor IMAP</Label>
+              <Input value={form.imapHost} onChange={(e) => update("imapHost", e.target.value)} placeholder="imap.empresa.com" data-testid="input-imap-host" />
+            </div>
+            <div className="space-y-1">
+              <Label>Puerto</Label>
+              <Input value={form.imapPort} onChange={(e) => update("imapPort", e.target.value)} data-testid="input-imap-port" />
+            </div>
+            <div className="flex items-center gap-2 pb-2">
+              <Switch checked={form.imapSecure} onCheckedChange={(value) => update("imapSecure", value)} data-testid="switch-imap-secure" />
+              <Label className="text-xs">TLS</Label>
+            </div>
+          </div>
+
+          <div className="grid grid-cols-[1fr_90px_auto] gap-3 items-end">
+            <div className="space-y-1">
+              <Label>Servidor SMTP</Label>
+              <Input value={form.smtpHost} onChange={(e) => update("smtpHost", e.target.value)} placeholder="smtp.empresa.com" data-testid="input-smtp-host" />
+            </div>
+            <div className="space-y-1">
+              <Label>Puerto</Label>
+              <Input value={form.smtpPort} onChange={(e) => update("smtpPort", e.target.value)} data-testid="input-smtp-port" />
+            </div>
+            <div className="flex items-center gap-2 pb-2">
+              <Switch checked={form.smtpSecure} onCheckedChange={(value) => update("smtpSecure", value)} data-testid="switch-smtp-secure" />
+              <Label className="text-xs">TLS</Label>
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 gap-3 items-end">
+            <div className="space-y-1">
+              <Label>Rango de sincronización</Label>
+              <Select value={syncRange} onValueChange={setSyncRange}>
+                <SelectTrigger data-testid="select-imap-sync-range">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="1">Último mes</SelectItem>
+                  <SelectItem value="3">Últimos 3 meses</SelectItem>
+                  <SelectItem value="6">Últimos 6 meses</SelectItem>
+                  <SelectItem value="12">Último año</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="flex items-center gap-2 pb-2">
+              <Switch checked={form.imapUseIdle} onCheckedChange={(value) => update("imapUseIdle", value)} data-testid="switch-imap-idle" />
+              <Label className="text-xs">Recibir al instante (IDLE); si no, cada 15 min</Label>
+            </div>
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => testMutation.mutate()} disabled={!isComplete || isPending} data-testid="button-test-imap">
+            {testMutation.isPending ? "Probando..." : "Probar conexión"}
+          </Button>
+          <Button onClick={() => createMutation.mutate()} disabled={!isComplete || isPending} data-testid="button-save-imap">
+            {createMutation.isPending ? "Conectando..." : "Conectar buzón"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,203 @@
+import { useEffect, useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Anchor, ArrowRight, Check, ChevronsUpDown, Plane, Search, Truck, X } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { queryClient } from "@/lib/queryClient";
+import { Button } from "@/components/ui/button";
+import { Command, CommandEmpty, CommandGroup, CommandItem, CommandList } from "@/components/ui/command";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import type { Location } from "@shared/schema";
+
+const DEBOUNCE_MS = 250;
+
+export type LocationKind = "seaport" | "airport" | "inland";
+
+export function formatLocation(location: Location): string {
+  return `${location.name}${location.subdivision ? `, ${location.subdivision}` : ""} (${location.unlocode})`;
+}
+
+function LocationKindIcon({ location, className }: { location: Location; className?: string }) {
+  if (location.isSeaport) return <Anchor className={className} />;
+  if (location.isAirport) return <Plane className={className} />;
+  return <Truck className={className} />;
+}
+
+function locationsByIdsKey(ids: string[]) {
+  return [`/api/locations/by-ids?ids=${ids.join(",")}`];
+}
+
+/**
+ * Resuelve ids de ubicaciones en el orden recibido (omite los que ya no existen)
+ */
+export function useLocations(ids: (string | null | undefined)[]) {
+  const validIds = ids.filter((id): id is string => !!id);
+  const { data = [], isLoading } = useQuery<Location[]>({
+    queryKey: locationsByIdsKey(validIds),
+    enabled: validIds.length > 0,
+    staleTime: 60 * 60 * 1000,
+  });
+
+  const byId = new Map(data.map((location) => [location.id, location]));
+  return { locations: validIds.map((id) => byId.get(id)).filter((l): l is Location => !!l), byId, isLoading };
+}
+
+interface LocationAutocompleteProps {
+  value: string | null | undefined;
+  onChange: (id: string | null, location: Location | null) => void;
+  onRemove?: () => void; // Filas de lista (transbordos): el botón quita la fila en vez de limpiar
+  kind?: LocationKind;
+  placeholder?: string;
+  disabled?: boolean;
+  testId: string;
+}
+
+/**
+ * Selector de ubicación UN/LOCODE con búsqueda por nombre, código UN/LOCODE o IATA
+ */
+export function LocationAutocomplete({ value, onChange, onRemove, kind, placeholder = "Buscar puerto, aeropuerto o ciudad...", disabled, testId }: LocationAutocompleteProps) {
+  const [open, setOpen] = useState(false);
+  const [query, setQuery] = useState("");
+  const [debouncedQuery, setDebouncedQuery] = useState("");
+  const { byId } = useLocations([value]);
+  const selected = value ? byId.get(value) : undefined;
+
+  useEffect(() => {
+    const timeout = setTimeout(() => setDebouncedQuery(query.trim()), DEBOUNCE_MS);
+    return () => clearTimeout(timeout);
+  }, [query]);
+
+  const params = new URLSearchParams({ search: debouncedQuery });
+  if (kind) params.set("kind", kind);
+  const { data: results = [], isFetching } = useQuery<Location[]>({
+    queryKey: [`/api/locations?${params.toString()}`],
+    enabled: open && debouncedQuery.length >= 2,
+  });
+
+  const select = (location: Location) => {
+    // La ubicación elegida ya se conoce: se evita volver a pedirla para mostrarla
+    queryClient.setQueryData(locationsByIdsKey([location.id]), [location]);
+    onChange(location.id, location);
+    setOpen(false);
+    setQuery("");
+  };
+
+  return (
+    <div className="flex gap-1">
+      <Popover open={open} onOpenChange={setOpen}>
+        <PopoverTrigger asChild>
+          <Button
+            type="button"
+            variant="outline"
+            role="combobox"
+            aria-expanded={open}
+            className={cn("w-full justify-between font-normal", !value && "text-muted-foreground")}
+            disabled={disabled}
+            data-testid={`button-location-${testId}`}
+          >
+            <span className="flex items-center gap-2 truncate">
+              {selected && <LocationKindIcon location={selected} className="h-4 w-4 shrink-0" />}
+              {selected ? formatLocation(selected) : value ? "Cargando..." : placeholder}
+            </span>
+            <ChevronsUpDown className="ml-2 h-4 w-4 shrink-0 opacity-50" />
+          </Button>
+        </PopoverTrigger>
+        <PopoverContent className="w-[420px] p-0" align="start">
+          <Command shouldFilter={false}>
+            <div className="flex items-center border-b px-3">
+              <Search className="mr-2 h-4 w-4 shrink-0 opacity-50" />
+              <input
+                className="flex h-11 w-full rounded-md bg-transparent py-3 text-sm outline-none placeholder:text-muted-foreground"
+                placeholder="Nombre, UN/LOCODE (MXZLO) o IATA (MEX)..."
+                value={query}
+                onChange={(e) => setQuery(e.target.value)}
+                data-testid={`input-location-search-${testId}`}
+              />
+            </div>
+            <CommandList>
+              <CommandEmpty>
+                <div className="py-6 text-center text-sm text-muted-foreground">
+                  {debouncedQuery.length < 2 ? "Escribe al menos 2 caracteres" : isFetching ? "Buscando..." : "No se encontraron ubicaciones"}
+                </div>
+              </CommandEmpty>
+              <CommandGroup>
+                {results.map((location) => (
+                  <CommandItem
+                    key={location.id}
+                    value={location.id}
+                    onSelect={() => select(location)}
+                    data-testid={`option-location-${location.unlocode}`}
+                  >
+                    <Check className={cn("mr-2 h-4 w-4", value === location.id ? "opacity-100" : "opacity-0")} />
+                    <LocationKindIcon location={location} className="mr-2 h-4 w-4 shrink-0 text-muted-foreground" />
+                    <div className="flex-1 min-w-0">
+                      <div className="font-medium truncate">
+                        {location.name}{location.subdivision ? `, ${location.subdivision}` : ""}
+                      </div>
+                      <div className="text-xs text-muted-foreground">
+                        {location.unlocode}{location.iataCode ? ` · IATA ${location.iataCode}` : ""}
+                        {location.latitude === null ? " · sin coordenadas" : ""}
+                      </div>
+                    </div>
+                  </CommandItem>
+                ))}
+              </CommandGroup>
+            </CommandList>
+          </Command>
+        </PopoverContent>
+      </Popover>
+      {(value || onRemove) && !disabled && (
+        <Button
+          type="button"
+          variant="ghost"
+          size="icon"
+          onClick={() => (onRemove ? onRemove() : onChange(null, null))}
+          data-testid={`button-clear-location-${testId}`}
+        >
+          <X className="h-4 w-4" />
+        </Button>
+      )}
+    </div>
+  );
+}
+
+interface OperationRouteProps {
+  originLocationId: string | null;
+  destinationLocationId: string | null;
+  transshipmentLocationIds: string[] | null;
+}
+
+/**
+ * Ruta de la operación: origen → transbordos → destino
+ */
+export function OperationRoute({ originLocationId, destinationLocationId, transshipmentLocationIds }: OperationRouteProps) {
+  const ids = [originLocationId, ...(transshipmentLocationIds || []), destinationLocationId];
+  const { byId } = useLocations(ids);
+
+  if (!originLocationId && !destinationLocationId) return null;
+
+  const stops = [
+    { id: originLocationId, label: "Origen" },
+    ...(transshipmentLocationIds || []).map((id) => ({ id, label: "Transbordo" })),
+    { id: destinationLocationId, label: "Destino" },
+  ];
+
+  return (
+    <div className="flex flex-wrap items-center gap-2 text-sm" data-testid="operation-route">
+      {stops.map((stop, index) => {
+        const location = stop.id ? byId.get(stop.id) : undefined;
+        return (
+          <div key={`${stop.label}-${index}`} className="flex items-center gap-2">
+            {index > 0 && <ArrowRight className="h-4 w-4 text-muted-foreground" />}
+            <div>
+              <div className="text-xs text-muted-foreground">{stop.label}</div>
+              <div className="flex items-center gap-1 font-medium">
+                {location && <LocationKindIcon location={location} className="h-3 w-3" />}
+                {location ? formatLocation(location) : stop.id ? "..." : "Sin definir"}
+              </div>
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
@@ -0,0 +1,69 @@
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Link } from "wouter";
+import { AlertTriangle, BellOff } from "lucide-react";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { getMilestoneTypeLabel } from "@shared/milestones";
+import { MilestoneStatusBadge, type TimelineMilestone } from "@/components/OperationTimeline";
+
+interface MilestoneDelayAlert extends TimelineMilestone {
+  operationName: string;
+}
+
+/**
+ * Hitos retrasados o vencidos de las operaciones abiertas; no se muestra si no hay ninguno
+ */
+export function MilestoneDelayAlerts() {
+  const { toast } = useToast();
+
+  const { data: alerts = [] } = useQuery<MilestoneDelayAlert[]>({
+    queryKey: ["/api/milestones/delay-alerts"],
+    refetchInterval: 5 * 60 * 1000,
+  });
+
+  const acknowledgeMutation = useMutation({
+    mutationFn: (id: string) => apiRequest("POST", `/api/milestones/${id}/acknowledge-delay`),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/milestones/delay-alerts"] });
+    },
+    onError: (error: any) => {
+      toast({ title: "Error", description: error?.message || "No se pudo descartar la alerta", variant: "destructive" });
+    },
+  });
+
+  if (alerts.length === 0) return null;
+
+  return (
+    <Card className="border-red-500/50" data-testid="card-delay-alerts">
+      <CardHeader className="pb-3">
+        <CardTitle className="text-base flex items-center gap-2">
+          <AlertTriangle className="h-5 w-5 text-red-600" />
+          Retrasos en embarques ({alerts.length})
+        </CardTitle>
+        <CardDescription>Hitos cuyo estimado ya pasó lo planeado o que vencieron sin fecha real</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-2">
+        {alerts.map((alert) => (
+          <div key={alert.id} className="flex items-center justify-between gap-3 rounded-md border p-2 text-sm" data-testid={`delay-alert-${alert.id}`}>
+            <Link href={`/operations/${alert.operationId}?tab=timeline`} className="flex flex-wrap items-center gap-2 hover:underline">
+              <span className="font-medium">{alert.operationName}</span>
+              <span className="text-muted-foreground">{getMilestoneTypeLabel(alert.milestoneType)}</span>
+              <MilestoneStatusBadge status={alert.status} delayMinutes={alert.delayMinutes} />
+            </Link>
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => acknowledgeMutation.mutate(alert.id)}
+              disabled={acknowledgeMutation.isPending}
+              data-testid={`button-acknowledge-alert-${alert.id}`}
+            >
+              <BellOff className="h-4 w-4" />
+            </Button>
+          </div>
+        ))}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,527 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Boxes, CheckCircle2, Container, Pencil, Plus, Trash2, XCircle } from "lucide-react";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { CONTAINER_TYPES, PACKAGE_TYPES, AIR_VOLUMETRIC_DIVISOR, cargoLineVolumeCbm, computeCargoTotals, isReeferContainerType, type CargoTotals } from "@shared/cargo";
+import { isValidContainerNumber, normalizeContainerNumber } from "@shared/container-number";
+import type { OperationContainer, OperationCargoLine } from "@shared/schema";
+
+const NO_VALUE = "none";
+
+interface ContainerDraft {
+  containerNumber: string;
+  containerType: string;
+  sealNumber: string;
+  grossWeightKg: string;
+  reeferTemperatureC: string;
+}
+
+interface CargoLineDraft {
+  description: string;
+  hsCode: string;
+  packageType: string;
+  packageCount: string;
+  grossWeightKg: string;
+  lengthCm: string;
+  widthCm: string;
+  heightCm: string;
+  volumeCbm: string;
+  containerIndex: number | null;
+}
+
+export interface CargoDraft {
+  containers: ContainerDraft[];
+  lines: CargoLineDraft[];
+}
+
+interface OperationCargoData {
+  containers: OperationContainer[];
+  lines: OperationCargoLine[];
+  totals: CargoTotals;
+}
+
+export const EMPTY_CARGO: CargoDraft = { containers: [], lines: [] };
+
+const EMPTY_CONTAINER: ContainerDraft = { containerNumber: "", containerType: "40HC", sealNumber: "", grossWeightKg: "", reeferTemperatureC: "" };
+
+const EMPTY_LINE: CargoLineDraft = {
+  description: "",
+  hsCode: "",
+  packageType: "carton",
+  packageCount: "1",
+  grossWeightKg: "",
+  lengthCm: "",
+  widthCm: "",
+  heightCm: "",
+  volumeCbm: "",
+  containerIndex: null,
+};
+
+export function cargoToDraft(cargo: OperationCargoData): CargoDraft {
+  const containerIndexes = new Map(cargo.containers.map((container, index) => [container.id, index]));
+  return {
+    containers: cargo.containers.map((container) => ({
+      containerNumber: container.containerNumber || "",
+      containerType: container.containerType || "",
+      sealNumber: container.sealNumber || "",
+      grossWeightKg: container.grossWeightKg || "",
+      reeferTemperatureC: container.reeferTemperatureC || "",
+    })),
+    lines: cargo.lines.map((line) => ({
+      description: line.description,
+      hsCode: line.hsCode || "",
+      packageType: line.packageType,
+      packageCount: String(line.packageCount),
+      grossWeightKg: line.grossWeightKg,
+      lengthCm: line.lengthCm || "",
+      widthCm: line.widthCm || "",
+      heightCm: line.heightCm || "",
+      volumeCbm: line.volumeCbm,
+      containerIndex: line.containerId ? containerIndexes.get(line.containerId) ?? null : null,
+    })),
+  };
+}
+
+/**
+ * Payload de PUT /api/operations/:id/cargo (y del campo `cargo` al crear/editar la operación)
+ */
+export function cargoDraftToPayload(draft: CargoDraft) {
+  return {
+    containers: draft.containers.map((container) => ({
+      containerNumber: container.containerNumber || null,
+      containerType: container.containerType || null,
+      sealNumber: container.sealNumber || null,
+      grossWeightKg: container.grossWeightKg || null,
+      reeferTemperatureC: isReeferContainerType(container.containerType) ? container.reeferTemperatureC || null : null,
+    })),
+    lines: draft.lines
+      .filter((line) => line.description.trim())
+      .map((line) => ({
+        description: line.description.trim(),
+        hsCode: line.hsCode || null,
+        packageType: line.packageType,
+        packageCount: parseInt(line.packageCount) || 1,
+        grossWeightKg: line.grossWeightKg || "0",
+        lengthCm: line.lengthCm || null,
+        widthCm: line.widthCm || null,
+        heightCm: line.heightCm || null,
+        volumeCbm: line.volumeCbm || "0",
+        containerIndex: line.containerIndex,
+      })),
+  };
+}
+
+export function hasInvalidContainers(draft: CargoDraft): boolean {
+  return draft.containers.some((container) => !!container.containerNumber && !isValidContainerNumber(container.containerNumber));
+}
+
+const formatNumber = (value: number, decimals = 2) =>
+  new Intl.NumberFormat("es-MX", { maximumFractionDigits: decimals }).format(value);
+
+function CargoTotalsSummary({ totals, isAir }: { totals: CargoTotals; isAir: boolean }) {
+  return (
+    <div className="grid grid-cols-2 md:grid-cols-4 gap-3 text-sm" data-testid="cargo-totals">
+      <div className="rounded-lg border p-3">
+        <p className="text-muted-foreground text-xs">Bultos</p>
+        <p className="font-semibold">{formatNumber(totals.packages, 0)}</p>
+      </div>
+      <div className="rounded-lg border p-3">
+        <p className="text-muted-foreground text-xs">Peso bruto</p>
+        <p className="font-semibold">{formatNumber(totals.grossWeightKg)} kg</p>
+      </div>
+      <div className="rounded-lg border p-3">
+        <p className="text-muted-foreground text-xs">Volumen</p>
+        <p className="font-semibold">{formatNumber(totals.volumeCbm, 3)} m³</p>
+      </div>
+      <div className={`rounded-lg border p-3 ${isAir ? "border-primary/50 bg-primary/5" : ""}`}>
+        <p className="text-muted-foreground text-xs">Peso tasable aéreo (1:{AIR_VOLUMETRIC_DIVISOR})</p>
+        <p className="font-semibold" data-testid="text-chargeable-weight">{formatNumber(totals.chargeableWeightKg)} kg</p>
+        <p className="text-xs text-muted-foreground">Volumétrico: {formatNumber(totals.volumetricWeightKg)} kg</p>
+      </div>
+    </div>
+  );
+}
+
+function ContainerNumberStatus({ value }: { value: string }) {
+  if (!value) return null;
+  return isValidContainerNumber(value) ? (
+    <CheckCircle2 className="h-4 w-4 text-green-600 shrink-0" aria-label="Dígito verificador correcto" />
+  ) : (
+    <XCircle className="h-4 w-4 text-red-600 shrink-0" aria-label="Dígito verificador incorrecto" />
+  );
+}
+
+/**
+ * Edición de contenedores y líneas de carga; valida el número de contenedor (ISO 6346) al escribir
+ */
+export function CargoEditor({ value, onChange, isAir = false }: { value: CargoDraft; onChange: (value: CargoDraft) => void; isAir?: boolean }) {
+  const updateContainer = (index: number, field: keyof ContainerDraft, fieldValue: string) => {
+    onChange({
+      ...value,
+      containers: value.containers.map((container, i) => (i === index ? { ...container, [field]: fieldValue } : container)),
+    });
+  };
+
+  const removeContainer = (index: number) => {
+    onChange({
+      containers: value.containers.filter((_, i) => i !== index),
+      lines: value.lines.map((line) => ({
+        ...line,
+        containerIndex: line.containerIndex === index ? null : line.containerIndex !== null && line.containerIndex > index ? line.containerIndex - 1 : line.containerIndex,
+      })),
+    });
+  };
+
+  const updateLine = <K extends keyof CargoLineDraft>(index: number, field: K, fieldValue: CargoLineDraft[K]) => {
+    onChange({
+      ...value,
+      lines: value.lines.map((line, i) => (i === index ? { ...line, [field]: fieldValue } : line)),
+    });
+  };
+
+  const hasDimensions = (line: CargoLineDraft) => !!line.lengthCm && !!line.widthCm && !!line.heightCm;
+
+  return (
+    <div className="space-y-6">
+      <div className="space-y-2">
+        <div className="flex items-center justify-between">
+          <h4 className="font-medium flex items-center gap-2">
+            <Container className="h-4 w-4" />
+            Contenedores
+          </h4>
+          <Button
+            type="button"
+            variant="outline"
+            size="sm"
+            onClick={() => onChange({ ...value, containers: [...value.containers, { ...EMPTY_CONTAINER }] })}
+            data-testid="button-add-container"
+          >
+            <Plus className="h-4 w-4 mr-1" />
+            Contenedor
+          </Button>
+        </div>
+        {value.containers.length === 0 ? (
+          <p className="text-sm text-muted-foreground">Sin contenedores (LCL / aéreo o aún sin asignar).</p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Número</TableHead>
+                <TableHead>Tipo</TableHead>
+                <TableHead>Sello</TableHead>
+                <TableHead>Peso bruto (kg)</TableHead>
+                <TableHead>Temp. (°C)</TableHead>
+                <TableHead className="w-10" />
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {value.containers.map((container, index) => (
+                <TableRow key={index} data-testid={`row-container-${index}`}>
+                  <TableCell>
+                    <div className="flex items-center gap-2">
+                      <Input
+                        value={container.containerNumber}
+                        onChange={(e) => updateContainer(index, "containerNumber", normalizeContainerNumber(e.target.value).slice(0, 11))}
+                        placeholder="MSCU1234565"
+                        className="font-mono w-36"
+                        data-testid={`input-container-number-${index}`}
+                      />
+                      <ContainerNumberStatus value={container.containerNumber} />
+                    </div>
+                  </TableCell>
+                  <TableCell>
+                    <Select value={container.containerType || NO_VALUE} onValueChange={(type) => updateContainer(index, "containerType", type === NO_VALUE ? "" : type)}>
+                      <SelectTrigger className="w-40" data-testid={`select-container-type-${index}`}>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value={NO_VALUE}>Sin tipo</SelectItem>
+                        {CONTAINER_TYPES.map((type) => (
+                          <SelectItem key={type.code} value={type.code}>
+                            {type.code} · {type.label}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </TableCell>
+                  <TableCell>
+                    <Input value={container.sealNumber} onChange={(e) => updateContainer(index, "sealNumber", e.target.value)} className="w-28" data-testid={`input-container-seal-${index}`} />
+                  </TableCell>
+                  <TableCell>
+                    <Input type="number" min="0" step="0.001" value={container.grossWeightKg} onChange={(e) => updateContainer(index, "grossWeightKg", e.target.value)} className="w-28" />
+                  </TableCell>
+                  <TableCell>
+                    {isReeferContainerType(container.containerType) ? (
+                      <Input type="number" step="0.1" value={container.reeferTemperatureC} onChange={(e) => updateContainer(index, "reeferTemperatureC", e.target.value)} className="w-20" data-testid={`input-container-temperature-${index}`} />
+                    ) : (
+                      <span className="text-muted-foreground">-</span>
+                    )}
+                  </TableCell>
+                  <TableCell>
+                    <Button type="button" variant="ghost" size="icon" onClick={() => removeContainer(index)} data-testid={`button-remove-container-${index}`}>
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </div>
+
+      <div className="space-y-2">
+        <div className="flex items-center justify-between">
+          <h4 className="font-medium flex items-center gap-2">
+            <Boxes className="h-4 w-4" />
+            Líneas de carga
+          </h4>
+          <Button
+            type="button"
+            variant="outline"
+            size="sm"
+            onClick={() => onChange({ ...value, lines: [...value.lines, { ...EMPTY_LINE }] })}
+            data-testid="button-add-cargo-line"
+          >
+            <Plus className="h-4 w-4 mr-1" />
+            Línea
+          </Button>
+        </div>
+        {value.lines.length === 0 ? (
+          <p className="text-sm text-muted-foreground">Sin líneas de carga.</p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Descripción</TableHead>
+                <TableHead>Bultos</TableHead>
+                <TableHead>Peso bruto (kg)</TableHead>
+                <TableHead>Medidas por bulto (cm)</TableHead>
+                <TableHead>Volumen (m³)</TableHead>
+                {value.containers.length > 0 && <TableHead>Contenedor</TableHead>}
+                <TableHead className="w-10" />
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {value.lines.map((line, index) => (
+                <TableRow key={index} data-testid={`row-cargo-line-${index}`}>
+                  <TableCell>
+                    <div className="space-y-1">
+                      <Input value={line.description} onChange={(e) => updateLine(index, "description", e.target.value)} placeholder="Mercancía" className="min-w-40" data-testid={`input-cargo-description-${index}`} />
+                      <Input value={line.hsCode} onChange={(e) => updateLine(index, "hsCode", e.target.value)} placeholder="Fracción / HS" className="h-8 text-xs" />
+                    </div>
+                  </TableCell>
+                  <TableCell>
+                    <div className="space-y-1">
+                      <Input type="number" min="1" value={line.packageCount} onChange={(e) => updateLine(index, "packageCount", e.target.value)} className="w-20" data-testid={`input-cargo-packages-${index}`} />
+                      <Select value={line.packageType} onValueChange={(type) => updateLine(index, "packageType", type)}>
+                        <SelectTrigger className="h-8 w-28 text-xs">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {PACKAGE_TYPES.map((type) => (
+                            <SelectItem key={type.code} value={type.code}>{type.label}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                  </TableCell>
+                  <TableCell>
+                    <Input type="number" min="0" step="0.001" value={line.grossWeightKg} onChange={(e) => updateLine(index, "grossWeightKg", e.target.value)} className="w-28" data-testid={`input-cargo-weight-${index}`} />
+                  </TableCell>
+                  <TableCell>
+                    <div className="flex items-center gap-1">
+                      <Input type="number" min="0" value={line.lengthCm} onChange={(e) => updateLine(index, "lengthCm", e.target.value)} placeholder="L" className="w-16" />
+                      <Input type="number" min="0" value={line.widthCm} onChange={(e) => updateLine(index, "widthCm", e.target.value)} placeholder="A" className="w-16" />
+                      <Input type="number" min="0" value={line.heightCm} onChange={(e) => updateLine(index, "heightCm", e.target.value)} placeholder="H" className="w-16" />
+                    </div>
+                  </TableCell>
+                  <TableCell>
+                    {hasDimensions(line) ? (
+                      <span className="font-medium">{formatNumber(cargoLineVolumeCbm(line), 3)}</span>
+                    ) : (
+                      <Input type="number" min="0" step="0.001" value={line.volumeCbm} onChange={(e) => updateLine(index, "volumeCbm", e.target.value)} className="w-24" data-testid={`input-cargo-volume-${index}`} />
+                    )}
+                  </TableCell>
+                  {value.containers.length > 0 && (
+                    <TableCell>
+                      <Select
+                        value={line.containerIndex === null ? NO_VALUE : String(line.containerIndex)}
+                        onValueChange={(selected) => updateLine(index, "containerIndex", selected === NO_VALUE ? null : parseInt(selected))}
+                      >
+                        <SelectTrigger className="w-36">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value={NO_VALUE}>Sin asignar</SelectItem>
+                          {value.containers.map((container, containerIndex) => (
+                            <SelectItem key={containerIndex} value={String(containerIndex)}>
+                              {container.containerNumber || `Contenedor ${containerIndex + 1}`}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </TableCell>
+                  )}
+                  <TableCell>
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      size="icon"
+                      onClick={() => onChange({ ...value, lines: value.lines.filter((_, i) => i !== index) })}
+                      data-testid={`button-remove-cargo-line-${index}`}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </div>
+
+      <CargoTotalsSummary totals={computeCargoTotals(value.lines)} isAir={isAir} />
+    </div>
+  );
+}
+
+/**
+ * Carga de la operación en el detalle: resumen de contenedores y líneas, editable en sitio
+ */
+export function OperationCargo({ operationId, operationType }: { operationId: string; operationType: string }) {
+  const { toast } = useToast();
+  const [isEditing, setIsEditing] = useState(false);
+  const [draft, setDraft] = useState<CargoDraft>(EMPTY_CARGO);
+  const isAir = operationType.toLowerCase() === "air";
+
+  const { data: cargo, isLoading } = useQuery<OperationCargoData>({
+    queryKey: ["/api/operations", operationId, "cargo"],
+  });
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("PUT", `/api/operations/${operationId}/cargo`, cargoDraftToPayload(draft));
+      return await res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/operations", operationId, "cargo"] });
+      setIsEditing(false);
+      toast({ title: "Carga guardada" });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error?.message || "No se pudo guardar la carga",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const startEditing = () => {
+    setDraft(cargo ? cargoToDraft(cargo) : EMPTY_CARGO);
+    setIsEditing(true);
+  };
+
+  const containerLabel = (containerId: string | null) => {
+    const container = cargo?.containers.find((c) => c.id === containerId);
+    return container ? container.containerNumber || container.containerType || "Contenedor" : "-";
+  };
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between space-y-0">
+        <div>
+          <CardTitle className="flex items-center gap-2">
+            <Boxes className="h-5 w-5" />
+            Carga
+          </CardTitle>
+          <CardDescription>Contenedores, bultos, peso y volumen del embarque</CardDescription>
+        </div>
+        {isEditing ? (
+          <div className="flex gap-2">
+            <Button variant="outline" size="sm" onClick={() => setIsEditing(false)} disabled={saveMutation.isPending}>
+              Cancelar
+            </Button>
+            <Button size="sm" onClick={() => saveMutation.mutate()} disabled={saveMutation.isPending || hasInvalidContainers(draft)} data-testid="button-save-cargo">
+              {saveMutation.isPending ? "Guardando..." : "Guardar"}
+            </Button>
+          </div>
+        ) : (
+          <Button variant="outline" size="sm" onClick={startEditing} disabled={isLoading} data-testid="button-edit-cargo">
+            <Pencil className="h-4 w-4 mr-2" />
+            Editar
+          </Button>
+        )}
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {isLoading ? (
+          <Skeleton className="h-32 w-full" />
+        ) : isEditing ? (
+          <CargoEditor value={draft} onChange={setDraft} isAir={isAir} />
+        ) : cargo && (cargo.containers.length > 0 || cargo.lines.length > 0) ? (
+          <>
+            {cargo.containers.length > 0 && (
+              <div className="flex flex-wrap gap-2">
+                {cargo.containers.map((container) => (
+                  <Badge key={container.id} variant="outline" className="font-mono text-sm py-1" data-testid={`badge-container-${container.id}`}>
+                    {container.containerNumber || "Sin número"}
+                    {container.containerType && <span className="ml-2 font-sans text-muted-foreground">{container.containerType}</span>}
+                    {container.sealNumber && <span className="ml-2 font-sans text-muted-foreground">Sello {container.sealNumber}</span>}
+                    {container.reeferTemperatureC && <span className="ml-2 font-sans text-muted-foreground">{container.reeferTemperatureC} °C</span>}
+                  </Badge>
+                ))}
+              </div>
+            )}
+            {cargo.lines.length > 0 && (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Descripción</TableHead>
+                    <TableHead className="text-right">Bultos</TableHead>
+                    <TableHead className="text-right">Peso bruto</TableHead>
+                    <TableHead className="text-right">Volumen</TableHead>
+                    {cargo.containers.length > 0 && <TableHead>Contenedor</TableHead>}
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {cargo.lines.map((line) => (
+                    <TableRow key={line.id}>
+                      <TableCell>
+                        {line.description}
+                        {line.hsCode && <span className="ml-2 text-xs text-muted-foreground">HS {line.hsCode}</span>}
+                      </TableCell>
+                      <TableCell className="text-right">
+                        {line.packageCount} {PACKAGE_TYPES.find((type) => type.code === line.packageType)?.label.toLowerCase() || line.packageType}
+                      </TableCell>
+                      <TableCell className="text-right">{formatNumber(Number(line.grossWeightKg))} kg</TableCell>
+                      <TableCell className="text-right">{formatNumber(Number(line.volumeCbm), 3)} m³</TableCell>
+                      {cargo.containers.length > 0 && <TableCell className="font-mono text-xs">{containerLabel(line.containerId)}</TableCell>}
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+            <CargoTotalsSummary totals={cargo.totals} isAir={isAir} />
+          </>
+        ) : (
+          <p className="text-sm text-muted-foreground text-center py-6">Aún no se ha capturado la carga de esta operación.</p>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,303 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { PieChart, Pencil, AlertTriangle } from "lucide-react";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Skeleton } from "@/components/ui/skeleton";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { ReportingCurrencySelect, ORIGINAL_CURRENCY } from "@/components/ReportingCurrencySelect";
+import { CHARGE_CATEGORIES } from "@shared/charge-categories";
+import type { OperationChargeEstimate } from "@shared/schema";
+
+interface PnLFigures {
+  estimatedRevenue: number;
+  estimatedCost: number;
+  estimatedMargin: number;
+  actualRevenue: number;
+  actualCost: number;
+  actualMargin: number;
+  marginPercent: number | null;
+}
+
+interface OperationPnL {
+  operationId: string;
+  operationName: string;
+  currency: string;
+  categories: Array<PnLFigures & { category: string; label: string }>;
+  totals: PnLFigures;
+  estimatedMarginPercent: number | null;
+  missingRateCurrencies: string[];
+}
+
+interface OperationProfitabilityProps {
+  operationId: string;
+  projectCurrency: string;
+}
+
+type EstimateDraft = Record<string, { estimatedRevenue: string; estimatedCost: string }>;
+
+export function OperationProfitability({ operationId, projectCurrency }: OperationProfitabilityProps) {
+  const { toast } = useToast();
+  const [reportingCurrency, setReportingCurrency] = useState(ORIGINAL_CURRENCY);
+  const [isEstimatesOpen, setIsEstimatesOpen] = useState(false);
+  const [draft, setDraft] = useState<EstimateDraft>({});
+  const currencyParam = reportingCurrency !== ORIGINAL_CURRENCY ? `?currency=${reportingCurrency}` : '';
+
+  const { data: pnl, isLoading, error } = useQuery<OperationPnL>({
+    queryKey: ['/api/operations', operationId, `profitability${currencyParam}`],
+  });
+
+  const { data: estimates = [] } = useQuery<OperationChargeEstimate[]>({
+    queryKey: ['/api/operations', operationId, 'charge-estimates'],
+  });
+
+  const saveEstimatesMutation = useMutation({
+    mutationFn: async () => {
+      const payload = CHARGE_CATEGORIES.map((category) => ({
+        chargeCategory: category.code,
+        estimatedRevenue: draft[category.code]?.estimatedRevenue || "0",
+        estimatedCost: draft[category.code]?.estimatedCost || "0",
+        currency: projectCurrency,
+      }));
+      const res = await apiRequest("PUT", `/api/operations/${operationId}/charge-estimates`, { estimates: payload });
+      return await res.json();
+    },
+    onSuccess: () => {
+      // Refresca estimados y el P&L en todas las monedas de reporte
+      queryClient.invalidateQueries({ queryKey: ['/api/operations', operationId] });
+      setIsEstimatesOpen(false);
+      toast({ title: "Estimados guardados" });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error?.message || "No se pudieron guardar los estimados",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const openEstimates = () => {
+    const initial: EstimateDraft = {};
+    for (const estimate of estimates) {
+      initial[estimate.chargeCategory] = {
+        estimatedRevenue: estimate.estimatedRevenue,
+        estimatedCost: estimate.estimatedCost,
+      };
+    }
+    setDraft(initial);
+    setIsEstimatesOpen(true);
+  };
+
+  const updateDraft = (category: string, field: 'estimatedRevenue' | 'estimatedCost', value: string) => {
+    setDraft((prev) => ({
+      ...prev,
+      [category]: {
+        estimatedRevenue: prev[category]?.estimatedRevenue || "",
+        estimatedCost: prev[category]?.estimatedCost || "",
+        [field]: value,
+      },
+    }));
+  };
+
+  const formatCurrency = (amount: number, currency: string) => {
+    return new Intl.NumberFormat('es-MX', {
+      style: 'currency',
+      currency,
+      minimumFractionDigits: 2,
+    }).format(amount);
+  };
+
+  const formatPercent = (value: number | null) => (value === null ? '-' : `${value.toFixed(1)}%`);
+
+  const marginClass = (value: number) => (value >= 0 ? 'text-green-600' : 'text-red-600');
+
+  const renderRow = (figures: PnLFigures, label: string, key: string, currency: string, isTotal = false) => (
+    <TableRow key={key} className={isTotal ? 'bg-muted/50 font-semibold' : ''} data-testid={`row-pnl-${key}`}>
+      <TableCell>{label}</TableCell>
+      <TableCell className="text-right text-muted-foreground">{formatCurrency(figures.estimatedRevenue, currency)}</TableCell>
+      <TableCell className="text-right text-muted-foreground">{formatCurrency(figures.estimatedCost, currency)}</TableCell>
+      <TableCell className="text-right">{formatCurrency(figures.actualRevenue, currency)}</TableCell>
+      <TableCell className="text-right">{formatCurrency(figures.actualCost, currency)}</TableCell>
+      <TableCell className={`text-right ${marginClass(figures.actualMargin)}`}>
+        {formatCurrency(figures.actualMargin, currency)}
+      </TableCell>
+      <TableCell className={`text-right ${figures.marginPercent !== null ? marginClass(figures.marginPercent) : ''}`}>
+        {formatPercent(figures.marginPercent)}
+      </TableCell>
+    </TableRow>
+  );
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between space-y-0">
+        <div>
+          <CardTitle className="flex items-center gap-2">
+            <PieChart className="w-5 h-5" />
+            Rentabilidad por Tipo de Cargo
+          </CardTitle>
+          <CardDescription>
+            Ingresos facturados (sin IVA) contra gastos de la operación, comparados con lo estimado
+          </CardDescription>
+        </div>
+        <div className="flex items-center gap-2">
+          <ReportingCurrencySelect
+            value={reportingCurrency}
+            onChange={setReportingCurrency}
+            originalLabel="Moneda del proyecto"
+            testId="select-pnl-currency"
+          />
+          <Button variant="outline" size="sm" onClick={openEstimates} data-testid="button-edit-estimates">
+            <Pencil className="w-4 h-4 mr-2" />
+            Editar estimados
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="space-y-2">
+            {[1, 2, 3].map((i) => (
+              <Skeleton key={i} className="h-8 w-full" />
+            ))}
+          </div>
+        ) : error ? (
+          <div className="py-4 text-sm text-destructive" data-testid="text-pnl-error">
+            {(error as Error).message}
+          </div>
+        ) : !pnl || pnl.categories.length === 0 ? (
+          <div className="text-center py-8 text-sm text-muted-foreground">
+            La operación aún no tiene ingresos, gastos ni estimados
+          </div>
+        ) : (
+          <div className="space-y-4">
+            {pnl.missingRateCurrencies.length > 0 && (
+              <div className="flex items-center gap-2 text-sm text-yellow-700 dark:text-yellow-500" data-testid="text-pnl-missing-rates">
+                <AlertTriangle className="h-4 w-4" />
+                Sin tipo de cambio para {pnl.missingRateCurrencies.join(", ")}: esos montos no se incluyen en el P&L en {pnl.currency}
+              </div>
+            )}
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              <div className="rounded-lg border p-4">
+                <div className="text-sm text-muted-foreground">Margen estimado</div>
+                <div className={`text-2xl font-bold ${marginClass(pnl.totals.estimatedMargin)}`} data-testid="text-estimated-margin">
+                  {formatCurrency(pnl.totals.estimatedMargin, pnl.currency)}
+                </div>
+                <div className="text-xs text-muted-foreground">{formatPercent(pnl.estimatedMarginPercent)}</div>
+              </div>
+              <div className="rounded-lg border p-4">
+                <div className="text-sm text-muted-foreground">Margen real</div>
+                <div className={`text-2xl font-bold ${marginClass(pnl.totals.actualMargin)}`} data-testid="text-actual-margin">
+                  {formatCurrency(pnl.totals.actualMargin, pnl.currency)}
+                </div>
+                <div className="text-xs text-muted-foreground">{formatPercent(pnl.totals.marginPercent)}</div>
+              </div>
+              <div className="rounded-lg border p-4">
+                <div className="text-sm text-muted-foreground">Desviación vs. estimado</div>
+                <div
+                  className={`text-2xl font-bold ${marginClass(pnl.totals.actualMargin - pnl.totals.estimatedMargin)}`}
+                  data-testid="text-margin-variance"
+                >
+                  {formatCurrency(pnl.totals.actualMargin - pnl.totals.estimatedMargin, pnl.currency)}
+                </div>
+                <div className="text-xs text-muted-foreground">Margen real - margen estimado</div>
+              </div>
+            </div>
+
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Categoría</TableHead>
+                  <TableHead className="text-right">Ingreso est.</TableHead>
+                  <TableHead className="text-right">Costo est.</TableHead>
+                  <TableHead className="text-right">Ingreso real</TableHead>
+                  <TableHead className="text-right">Costo real</TableHead>
+                  <TableHead className="text-right">Margen</TableHead>
+                  <TableHead className="text-right">Margen %</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {pnl.categories.map((row) => renderRow(row, row.label, row.category, pnl.currency))}
+                {renderRow(pnl.totals, 'Total', 'total', pnl.currency, true)}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+      </CardContent>
+
+      <Dialog open={isEstimatesOpen} onOpenChange={setIsEstimatesOpen}>
+        <DialogContent className="max-w-2xl">
+          <DialogHeader>
+            <DialogTitle>Estimados por Tipo de Cargo</DialogTitle>
+            <DialogDescription>
+              Ingreso y costo esperados en {projectCurrency}; las categorías en cero no se guardan
+            </DialogDescription>
+          </DialogHeader>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Categoría</TableHead>
+                <TableHead>Ingreso estimado</TableHead>
+                <TableHead>Costo estimado</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {CHARGE_CATEGORIES.map((category) => (
+                <TableRow key={category.code}>
+                  <TableCell>{category.label}</TableCell>
+                  <TableCell>
+                    <Input
+                      type="number"
+                      step="0.01"
+                      value={draft[category.code]?.estimatedRevenue || ""}
+                      onChange={(e) => updateDraft(category.code, 'estimatedRevenue', e.target.value)}
+                      data-testid={`input-estimate-revenue-${category.code}`}
+                    />
+                  </TableCell>
+                  <TableCell>
+                    <Input
+                      type="number"
+                      step="0.01"
+                      value={draft[category.code]?.estimatedCost || ""}
+                      onChange={(e) => updateDraft(category.code, 'estimatedCost', e.target.value)}
+                      data-testid={`input-estimate-cost-${category.code}`}
+                    />
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setIsEstimatesOpen(false)}>
+              Cancelar
+            </Button>
+            <Button
+              onClick={() => saveEstimatesMutation.mutate()}
+              disabled={saveEstimatesMutation.isPending}
+              data-testid="button-save-estimates"
+            >
+              {saveEstimatesMutation.isPending ? "Guardando..." : "Guardar estimados"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
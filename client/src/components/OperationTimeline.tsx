@@ -0,0 +1,371 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { es } from "date-fns/locale";
+import { AlertTriangle, BellOff, CheckCircle2, Circle, Clock, History, MapPin, Pencil, Plus, Trash2 } from "lucide-react";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Badge } from "@/components/ui/badge";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { MILESTONE_TYPES, MILESTONE_SOURCES, formatDelay, getMilestoneTypeLabel, type MilestoneStatus } from "@shared/milestones";
+import type { OperationMilestone, OperationMilestoneChange } from "@shared/schema";
+
+export interface TimelineMilestone extends OperationMilestone {
+  status: MilestoneStatus;
+  delayMinutes: number;
+  alert: boolean;
+  changes: OperationMilestoneChange[];
+}
+
+interface MilestoneForm {
+  milestoneType: string;
+  plannedAt: string;
+  estimatedAt: string;
+  actualAt: string;
+  location: string;
+  notes: string;
+}
+
+const DATE_FIELD_LABELS: Record<string, string> = {
+  plannedAt: "Planeado",
+  estimatedAt: "Estimado",
+  actualAt: "Real",
+};
+
+const toInputValue = (value: Date | string | null) => (value ? format(new Date(value), "yyyy-MM-dd'T'HH:mm") : "");
+const toPayloadValue = (value: string) => (value ? new Date(value).toISOString() : null);
+const formatDate = (value: Date | string | null) => (value ? format(new Date(value), "dd MMM yyyy HH:mm", { locale: es }) : "-");
+
+export function MilestoneStatusBadge({ status, delayMinutes }: { status: MilestoneStatus; delayMinutes: number }) {
+  switch (status) {
+    case "completed":
+      return delayMinutes > 0 ? (
+        <Badge variant="outline" className="border-amber-500 text-amber-600">Completado con {formatDelay(delayMinutes)} de retraso</Badge>
+      ) : (
+        <Badge variant="outline" className="border-green-500 text-green-600">Completado</Badge>
+      );
+    case "delayed":
+      return <Badge variant="destructive">Retrasado {formatDelay(delayMinutes)}</Badge>;
+    case "overdue":
+      return <Badge variant="destructive">Vencido hace {formatDelay(delayMinutes)}</Badge>;
+    case "on_track":
+      return <Badge variant="outline" className="border-blue-500 text-blue-600">A tiempo</Badge>;
+    default:
+      return <Badge variant="secondary">Sin fecha</Badge>;
+  }
+}
+
+function MilestoneIcon({ status }: { status: MilestoneStatus }) {
+  if (status === "completed") return <CheckCircle2 className="h-5 w-5 text-green-600" />;
+  if (status === "delayed" || status === "overdue") return <AlertTriangle className="h-5 w-5 text-red-600" />;
+  if (status === "on_track") return <Clock className="h-5 w-5 text-blue-600" />;
+  return <Circle className="h-5 w-5 text-muted-foreground" />;
+}
+
+/**
+ * Línea de tiempo de hitos del embarque con fechas planeadas, estimadas y reales
+ */
+export function OperationTimeline({ operationId }: { operationId: string }) {
+  const { toast } = useToast();
+  const [editing, setEditing] = useState<TimelineMilestone | null>(null);
+  const [form, setForm] = useState<MilestoneForm | null>(null);
+  const [expandedHistory, setExpandedHistory] = useState<string | null>(null);
+
+  const { data: milestones = [], isLoading } = useQuery<TimelineMilestone[]>({
+    queryKey: ["/api/operations", operationId, "milestones"],
+  });
+
+  const invalidate = () => {
+    // Los hitos actualizan las fechas de la operación (recolección, ETD, ETA)
+    queryClient.invalidateQueries({ queryKey: ["/api/operations", operationId] });
+    queryClient.invalidateQueries({ queryKey: ["/api/milestones/delay-alerts"] });
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      const payload = {
+        milestoneType: form!.milestoneType,
+        plannedAt: toPayloadValue(form!.plannedAt),
+        estimatedAt: toPayloadValue(form!.estimatedAt),
+        actualAt: toPayloadValue(form!.actualAt),
+        location: form!.location || null,
+        notes: form!.notes || null,
+        source: "manual",
+      };
+      const res = editing
+        ? await apiRequest("PATCH", `/api/milestones/${editing.id}`, payload)
+        : await apiRequest("POST", `/api/operations/${operationId}/milestones`, payload);
+      return await res.json();
+    },
+    onSuccess: () => {
+      invalidate();
+      closeDialog();
+      toast({ title: "Hito guardado" });
+    },
+    onError: (error: any) => {
+      toast({ title: "Error", description: error?.message || "No se pudo guardar el hito", variant: "destructive" });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: (id: string) => apiRequest("DELETE", `/api/milestones/${id}`),
+    onSuccess: () => {
+      invalidate();
+      toast({ title: "Hito eliminado" });
+    },
+    onError: (error: any) => {
+      toast({ title: "Error", description: error?.message || "No se pudo eliminar el hito", variant: "destructive" });
+    },
+  });
+
+  const acknowledgeMutation = useMutation({
+    mutationFn: (id: string) => apiRequest("POST", `/api/milestones/${id}/acknowledge-delay`),
+    onSuccess: () => {
+      invalidate();
+      toast({ title: "Alerta descartada", description: "Volverá a avisar si el retraso sigue creciendo." });
+    },
+    onError: (error: any) => {
+      toast({ title: "Error", description: error?.message || "No se pudo descartar la alerta", variant: "destructive" });
+    },
+  });
+
+  const openNew = (milestoneType = "booking_confirmed") => {
+    setEditing(null);
+    setForm({ milestoneType, plannedAt: "", estimatedAt: "", actualAt: "", location: "", notes: "" });
+  };
+
+  const openEdit = (milestone: TimelineMilestone) => {
+    setEditing(milestone);
+    setForm({
+      milestoneType: milestone.milestoneType,
+      plannedAt: toInputValue(milestone.plannedAt),
+      estimatedAt: toInputValue(milestone.estimatedAt),
+      actualAt: toInputValue(milestone.actualAt),
+      location: milestone.location || "",
+      notes: milestone.notes || "",
+    });
+  };
+
+  const closeDialog = () => {
+    setEditing(null);
+    setForm(null);
+  };
+
+  const recordedTypes = new Set(milestones.map((milestone) => milestone.milestoneType));
+  const missingTypes = MILESTONE_TYPES.filter((type) => !type.repeatable && !recordedTypes.has(type.code));
+  const alerts = milestones.filter((milestone) => milestone.alert);
+
+  return (
+    <div className="space-y-4">
+      {alerts.length > 0 && (
+        <Card className="border-red-500/50 bg-red-500/5" data-testid="card-milestone-alerts">
+          <CardContent className="py-4 space-y-2">
+            {alerts.map((milestone) => (
+              <div key={milestone.id} className="flex items-center justify-between gap-3 text-sm">
+                <div className="flex items-center gap-2">
+                  <AlertTriangle className="h-4 w-4 text-red-600 shrink-0" />
+                  <span>
+                    <strong>{getMilestoneTypeLabel(milestone.milestoneType)}</strong>{" "}
+                    {milestone.status === "overdue"
+                      ? `vencido hace ${formatDelay(milestone.delayMinutes)} sin fecha real`
+                      : `estimado ${formatDelay(milestone.delayMinutes)} después de lo planeado`}
+                  </span>
+                </div>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => acknowledgeMutation.mutate(milestone.id)}
+                  disabled={acknowledgeMutation.isPending}
+                  data-testid={`button-acknowledge-delay-${milestone.id}`}
+                >
+                  <BellOff className="h-4 w-4 mr-1" />
+                  Descartar
+                </Button>
+              </div>
+            ))}
+          </CardContent>
+        </Card>
+      )}
+
+      <Card>
+        <CardHeader className="flex flex-row items-start justify-between space-y-0">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <Clock className="h-5 w-5" />
+              Línea de tiempo
+            </CardTitle>
+            <CardDescription>Hitos del embarque con fechas planeadas, estimadas y reales</CardDescription>
+          </div>
+          <Button size="sm" onClick={() => openNew()} data-testid="button-add-milestone">
+            <Plus className="h-4 w-4 mr-2" />
+            Agregar hito
+          </Button>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <div className="space-y-3">
+              <Skeleton className="h-16 w-full" />
+              <Skeleton className="h-16 w-full" />
+            </div>
+          ) : (
+            <ol className="relative border-l border-border ml-2 space-y-6">
+              {milestones.map((milestone) => (
+                <li key={milestone.id} className="ml-6" data-testid={`milestone-${milestone.id}`}>
+                  <span className="absolute -left-[11px] bg-background">
+                    <MilestoneIcon status={milestone.status} />
+                  </span>
+                  <div className="flex flex-wrap items-start justify-between gap-2">
+                    <div className="space-y-1">
+                      <div className="flex flex-wrap items-center gap-2">
+                        <h4 className="font-medium">{getMilestoneTypeLabel(milestone.milestoneType)}</h4>
+                        <MilestoneStatusBadge status={milestone.status} delayMinutes={milestone.delayMinutes} />
+                        <Badge variant="secondary" className="text-xs">
+                          {MILESTONE_SOURCES.find((source) => source.code === milestone.source)?.label || milestone.source}
+                        </Badge>
+                      </div>
+                      {milestone.location && (
+                        <p className="text-sm text-muted-foreground flex items-center gap-1">
+                          <MapPin className="h-3 w-3" />
+                          {milestone.location}
+                        </p>
+                      )}
+                      <div className="grid grid-cols-3 gap-4 text-sm">
+                        <div>
+                          <p className="text-xs text-muted-foreground">Planeado</p>
+                          <p>{formatDate(milestone.plannedAt)}</p>
+                        </div>
+                        <div>
+                          <p className="text-xs text-muted-foreground">Estimado</p>
+                          <p>{formatDate(milestone.estimatedAt)}</p>
+                        </div>
+                        <div>
+                          <p className="text-xs text-muted-foreground">Real</p>
+                          <p className="font-medium">{formatDate(milestone.actualAt)}</p>
+                        </div>
+                      </div>
+                      {milestone.notes && <p className="text-sm text-muted-foreground">{milestone.notes}</p>}
+                    </div>
+                    <div className="flex items-center gap-1">
+                      {milestone.changes.length > 0 && (
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => setExpandedHistory(expandedHistory === milestone.id ? null : milestone.id)}
+                          data-testid={`button-milestone-history-${milestone.id}`}
+                        >
+                          <History className="h-4 w-4 mr-1" />
+                          {milestone.changes.length}
+                        </Button>
+                      )}
+                      <Button variant="ghost" size="icon" onClick={() => openEdit(milestone)} data-testid={`button-edit-milestone-${milestone.id}`}>
+                        <Pencil className="h-4 w-4" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        onClick={() => deleteMutation.mutate(milestone.id)}
+                        disabled={deleteMutation.isPending}
+                        data-testid={`button-delete-milestone-${milestone.id}`}
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  </div>
+                  {expandedHistory === milestone.id && (
+                    <div className="mt-3 rounded-md border bg-muted/30 p-3 space-y-1 text-xs">
+                      {milestone.changes.map((change) => (
+                        <div key={change.id} className="flex flex-wrap gap-x-2">
+                          <span className="text-muted-foreground">{formatDate(change.createdAt)}</span>
+                          <span className="font-medium">{DATE_FIELD_LABELS[change.field] || change.field}:</span>
+                          <span>{formatDate(change.previousValue)} → {formatDate(change.newValue)}</span>
+                          <span className="text-muted-foreground">
+                            ({MILESTONE_SOURCES.find((source) => source.code === change.source)?.label || change.source})
+                          </span>
+                        </div>
+                      ))}
+                    </div>
+                  )}
+                </li>
+              ))}
+              {missingTypes.map((type) => (
+                <li key={type.code} className="ml-6 opacity-60">
+                  <span className="absolute -left-[11px] bg-background">
+                    <Circle className="h-5 w-5 text-muted-foreground" />
+                  </span>
+                  <div className="flex items-center justify-between">
+                    <h4 className="font-medium text-muted-foreground">{type.label}</h4>
+                    <Button variant="ghost" size="sm" onClick={() => openNew(type.code)} data-testid={`button-record-milestone-${type.code}`}>
+                      <Plus className="h-4 w-4 mr-1" />
+                      Registrar
+                    </Button>
+                  </div>
+                </li>
+              ))}
+            </ol>
+          )}
+        </CardContent>
+      </Card>
+
+      <Dialog open={!!form} onOpenChange={(open) => !open && closeDialog()}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{editing ? "Editar hito" : "Nuevo hito"}</DialogTitle>
+            <DialogDescription>Cada cambio de fecha queda en el historial del hito.</DialogDescription>
+          </DialogHeader>
+          {form && (
+            <div className="space-y-4 py-2">
+              <div className="space-y-1">
+                <Label>Hito</Label>
+                <Select value={form.milestoneType} onValueChange={(value) => setForm({ ...form, milestoneType: value })} disabled={!!editing}>
+                  <SelectTrigger data-testid="select-milestone-type">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {MILESTONE_TYPES.map((type) => (
+                      <SelectItem key={type.code} value={type.code}>{type.label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+                <div className="space-y-1">
+                  <Label>Planeado</Label>
+                  <Input type="datetime-local" value={form.plannedAt} onChange={(e) => setForm({ ...form, plannedAt: e.target.value })} data-testid="input-milestone-planned" />
+                </div>
+                <div className="space-y-1">
+                  <Label>Estimado</Label>
+                  <Input type="datetime-local" value={form.estimatedAt} onChange={(e) => setForm({ ...form, estimatedAt: e.target.value })} data-testid="input-milestone-estimated" />
+                </div>
+                <div className="space-y-1">
+                  <Label>Real</Label>
+                  <Input type="datetime-local" value={form.actualAt} onChange={(e) => setForm({ ...form, actualAt: e.target.value })} data-testid="input-milestone-actual" />
+                </div>
+              </div>
+              <div className="space-y-1">
+                <Label>Ubicación</Label>
+                <Input value={form.location} onChange={(e) => setForm({ ...form, location: e.target.value })} placeholder="Puerto, aeropuerto o terminal" data-testid="input-milestone-location" />
+              </div>
+              <div className="space-y-1">
+                <Label>Notas</Label>
+                <Textarea value={form.notes} onChange={(e) => setForm({ ...form, notes: e.target.value })} rows={2} />
+              </div>
+            </div>
+          )}
+          <DialogFooter>
+            <Button variant="outline" onClick={closeDialog}>Cancelar</Button>
+            <Button onClick={() => saveMutation.mutate()} disabled={saveMutation.isPending} data-testid="button-save-milestone">
+              {saveMutation.isPending ? "Guardando..." : "Guardar"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
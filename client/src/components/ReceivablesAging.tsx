@@ -0,0 +1,161 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Link } from "wouter";
+import { Clock } from "lucide-react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { ReportingCurrencySelect, ORIGINAL_CURRENCY } from "@/components/ReportingCurrencySelect";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+
+interface AgingRow {
+  clientId: string | null;
+  clientName: string | null;
+  currency: string;
+  current: number;
+  days1to30: number;
+  days31to60: number;
+  days61to90: number;
+  days90plus: number;
+  total: number;
+  invoiceCount: number;
+}
+
+interface AgingReport {
+  asOf: string;
+  groupBy: 'client' | 'currency';
+  rows: AgingRow[];
+  totals: AgingRow[];
+  reportingCurrency: string | null;
+}
+
+interface ReceivablesAgingProps {
+  clientId?: string;
+}
+
+const BUCKETS: Array<{ key: keyof Pick<AgingRow, 'current' | 'days1to30' | 'days31to60' | 'days61to90' | 'days90plus'>; label: string; className: string }> = [
+  { key: 'current', label: 'Corriente', className: '' },
+  { key: 'days1to30', label: '1-30 días', className: 'text-yellow-600' },
+  { key: 'days31to60', label: '31-60 días', className: 'text-orange-600' },
+  { key: 'days61to90', label: '61-90 días', className: 'text-red-600' },
+  { key: 'days90plus', label: '90+ días', className: 'text-red-700 font-semibold' },
+];
+
+export function ReceivablesAging({ clientId }: ReceivablesAgingProps) {
+  // En el detalle de cliente solo tiene sentido agrupar por moneda
+  const [groupBy, setGroupBy] = useState<'client' | 'currency'>(clientId ? 'currency' : 'client');
+  const [reportingCurrency, setReportingCurrency] = useState(ORIGINAL_CURRENCY);
+
+  const params = new URLSearchParams({ groupBy });
+  if (clientId) params.set('clientId', clientId);
+  if (reportingCurrency !== ORIGINAL_CURRENCY) params.set('currency', reportingCurrency);
+
+  const { data: report, isLoading, error } = useQuery<AgingReport>({
+    // Bajo '/api/invoices' para refrescarse cuando cambian facturas o pagos
+    queryKey: ['/api/invoices', `aging?${params.toString()}`],
+  });
+
+  const formatCurrency = (amount: number, currency: string) => {
+    return new Intl.NumberFormat('es-MX', {
+      style: 'currency',
+      currency,
+      minimumFractionDigits: 2,
+    }).format(amount);
+  };
+
+  const renderRow = (row: AgingRow, key: string, isTotal = false) => (
+    <TableRow key={key} className={isTotal ? 'bg-muted/50 font-semibold' : ''} data-testid={`row-aging-${key}`}>
+      {groupBy === 'client' && (
+        <TableCell>
+          {isTotal ? (
+            'Total'
+          ) : row.clientId ? (
+            <Link href={`/clients/${row.clientId}`} className="hover:underline">
+              {row.clientName || 'Sin nombre'}
+            </Link>
+          ) : (
+            '-'
+          )}
+        </TableCell>
+      )}
+      <TableCell>{row.currency}</TableCell>
+      {BUCKETS.map(bucket => (
+        <TableCell key={bucket.key} className={`text-right ${row[bucket.key] > 0 ? bucket.className : 'text-muted-foreground'}`}>
+          {formatCurrency(row[bucket.key], row.currency)}
+        </TableCell>
+      ))}
+      <TableCell className="text-right font-semibold">{formatCurrency(row.total, row.currency)}</TableCell>
+      <TableCell className="text-right">{row.invoiceCount}</TableCell>
+    </TableRow>
+  );
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between space-y-0 pb-3">
+        <div>
+          <CardTitle className="flex items-center gap-2 text-lg">
+            <Clock className="w-5 h-5" />
+            Antigüedad de Saldos
+          </CardTitle>
+          <CardDescription className="text-xs">
+            Saldo pendiente de facturas emitidas según días de vencimiento
+          </CardDescription>
+        </div>
+        <div className="flex items-center gap-2">
+          <ReportingCurrencySelect
+            value={reportingCurrency}
+            onChange={setReportingCurrency}
+            originalLabel="Moneda original"
+            testId="select-aging-currency"
+          />
+          {!clientId && (
+            <Tabs value={groupBy} onValueChange={(value) => setGroupBy(value as 'client' | 'currency')}>
+              <TabsList>
+                <TabsTrigger value="client" data-testid="tab-aging-client">Por cliente</TabsTrigger>
+                <TabsTrigger value="currency" data-testid="tab-aging-currency">Por moneda</TabsTrigger>
+              </TabsList>
+            </Tabs>
+          )}
+        </div>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <Skeleton className="h-24 w-full" />
+        ) : error ? (
+          <div className="text-center py-6 text-sm text-destructive">
+            {(error as Error).message}
+          </div>
+        ) : !report || report.rows.length === 0 ? (
+          <div className="text-center py-6 text-sm text-muted-foreground">
+            No hay saldos pendientes de cobro
+          </div>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                {groupBy === 'client' && <TableHead>Cliente</TableHead>}
+                <TableHead>Moneda</TableHead>
+                {BUCKETS.map(bucket => (
+                  <TableHead key={bucket.key} className="text-right">{bucket.label}</TableHead>
+                ))}
+                <TableHead className="text-right">Total</TableHead>
+                <TableHead className="text-right">Facturas</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {report.rows.map(row => renderRow(row, `${row.clientId || 'all'}-${row.currency}`))}
+              {groupBy === 'client' && report.totals.map(row => renderRow(row, `total-${row.currency}`, true))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
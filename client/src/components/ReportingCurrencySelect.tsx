@@ -0,0 +1,40 @@
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+
+export const REPORTING_CURRENCIES = ["MXN", "USD", "EUR", "ARS"];
+
+// Valor para mostrar los montos en su moneda original (sin conversión)
+export const ORIGINAL_CURRENCY = "original";
+
+interface ReportingCurrencySelectProps {
+  value: string;
+  onChange: (value: string) => void;
+  originalLabel?: string;
+  testId?: string;
+}
+
+/**
+ * Selector de moneda de reporte; la conversión usa el tipo de cambio de la fecha de cada transacción
+ */
+export function ReportingCurrencySelect({ value, onChange, originalLabel, testId }: ReportingCurrencySelectProps) {
+  return (
+    <Select value={value} onValueChange={onChange}>
+      <SelectTrigger className="w-36 h-8" data-testid={testId || "select-reporting-currency"}>
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        {originalLabel && <SelectItem value={ORIGINAL_CURRENCY}>{originalLabel}</SelectItem>}
+        {REPORTING_CURRENCIES.map((currency) => (
+          <SelectItem key={currency} value={currency}>
+            En {currency}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+}
@@ -0,0 +1,376 @@
+import { useEffect, useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { format, formatDistanceStrict } from "date-fns";
+import { es } from "date-fns/locale";
+import { Inbox, MessagesSquare, Timer, Users } from "lucide-react";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+
+export type InboxStatus = "open" | "waiting_client" | "done";
+type SlaState = "pending" | "at_risk" | "breached" | "met" | "missed";
+
+export interface ThreadSla {
+  firstInboundAt: string;
+  firstResponseAt: string | null;
+  dueAt: string;
+  state: SlaState;
+  responseMinutes: number | null;
+}
+
+export interface InboxThread {
+  threadId: string;
+  gmailAccountId: string;
+  accountEmail: string;
+  subject: string | null;
+  lastFrom: string | null;
+  lastMessageAt: string;
+  lastInboundAt: string;
+  messageCount: number;
+  operationId: string | null;
+  operationName: string | null;
+  assignedEmployeeId: string | null;
+  assignedEmployeeName: string | null;
+  status: InboxStatus;
+  snoozedUntil: string | null;
+  isSnoozed: boolean;
+  sla: ThreadSla;
+}
+
+interface InboxEmployee {
+  id: string;
+  name: string;
+  status: string;
+}
+
+interface EmployeeWorkload {
+  employeeId: string;
+  employeeName: string;
+  open: number;
+  waitingClient: number;
+  snoozed: number;
+  slaBreached: number;
+  slaAtRisk: number;
+  avgFirstResponseMinutes: number | null;
+}
+
+export const INBOX_STATUS_LABELS: Record<InboxStatus, string> = {
+  open: "Abierto",
+  waiting_client: "Esperando cliente",
+  done: "Terminado",
+};
+
+const UNASSIGNED = "none";
+const NO_SNOOZE = "none";
+
+// Opciones de pausa relativas al momento de elegirlas
+const SNOOZE_OPTIONS: { value: string; label: string; until: () => Date }[] = [
+  { value: "1h", label: "1 hora", until: () => new Date(Date.now() + 60 * 60 * 1000) },
+  { value: "4h", label: "4 horas", until: () => new Date(Date.now() + 4 * 60 * 60 * 1000) },
+  {
+    value: "tomorrow",
+    label: "Mañana 9:00",
+    until: () => {
+      const date = new Date();
+      date.setDate(date.getDate() + 1);
+      date.setHours(9, 0, 0, 0);
+      return date;
+    },
+  },
+  {
+    value: "next-week",
+    label: "Próximo lunes 9:00",
+    until: () => {
+      const date = new Date();
+      date.setDate(date.getDate() + ((8 - date.getDay()) % 7 || 7));
+      date.setHours(9, 0, 0, 0);
+      return date;
+    },
+  },
+];
+
+const formatMinutes = (minutes: number) =>
+  minutes < 60 ? `${minutes} min` : `${Math.floor(minutes / 60)}h ${minutes % 60}m`;
+
+/**
+ * Hora actual que se refresca cada minuto (para los contadores de SLA)
+ */
+function useNow(intervalMs: number = 60000) {
+  const [now, setNow] = useState(() => new Date());
+  useEffect(() => {
+    const id = setInterval(() => setNow(new Date()), intervalMs);
+    return () => clearInterval(id);
+  }, [intervalMs]);
+  return now;
+}
+
+/**
+ * SLA de primera respuesta: tiempo restante, vencido o tiempo en que se respondió
+ */
+export function InboxSlaBadge({ sla, className }: { sla: ThreadSla; className?: string }) {
+  const now = useNow();
+  const dueAt = new Date(sla.dueAt);
+
+  if (sla.firstResponseAt) {
+    return (
+      <Badge variant="outline" className={`gap-1 ${sla.state === "missed" ? "text-orange-600" : "text-green-600"} ${className || ""}`}>
+        <Timer className="h-3 w-3" />
+        {sla.state === "missed" ? "Respondido tarde" : "Respondido"} en {formatMinutes(sla.responseMinutes || 0)}
+      </Badge>
+    );
+  }
+
+  if (now > dueAt) {
+    return (
+      <Badge variant="destructive" className={`gap-1 ${className || ""}`}>
+        <Timer className="h-3 w-3" />
+        SLA vencido hace {formatDistanceStrict(dueAt, now, { locale: es })}
+      </Badge>
+    );
+  }
+
+  const atRisk = sla.state === "at_risk" || dueAt.getTime() - now.getTime() < 60 * 60 * 1000;
+  return (
+    <Badge variant="outline" className={`gap-1 ${atRisk ? "text-orange-600 border-orange-300" : ""} ${className || ""}`}>
+      <Timer className="h-3 w-3" />
+      Responder en {formatDistanceStrict(now, dueAt, { locale: es })}
+    </Badge>
+  );
+}
+
+interface SharedInboxProps {
+  onOpenThread: (threadId: string) => void;
+}
+
+/**
+ * Bandeja compartida: colas de hilos sin asignar / propios / todos / pausados, asignación,
+ * estado, pausa y carga de trabajo por empleado
+ */
+export function SharedInbox({ onOpenThread }: SharedInboxProps) {
+  const { toast } = useToast();
+  const [queue, setQueue] = useState("unassigned");
+
+  const params = queue === "snoozed" ? "queue=all&status=snoozed" : `queue=${queue}`;
+  const { data: threads = [], isLoading } = useQuery<InboxThread[]>({
+    queryKey: [`/api/shared-inbox?${params}`],
+    enabled: queue !== "workload",
+    refetchInterval: 60000,
+  });
+
+  const { data: workload = [] } = useQuery<EmployeeWorkload[]>({
+    queryKey: ["/api/shared-inbox/workload"],
+    enabled: queue === "workload",
+  });
+
+  const { data: employees = [] } = useQuery<InboxEmployee[]>({
+    queryKey: ["/api/employees"],
+  });
+  const activeEmployees = employees.filter((employee) => employee.status === "active");
+
+  const updateMutation = useMutation({
+    mutationFn: ({ threadId, update }: { threadId: string; update: Record<string, unknown> }) =>
+      apiRequest("PATCH", `/api/shared-inbox/threads/${threadId}`, update),
+    onSuccess: () => {
+      queryClient.invalidateQueries({
+        predicate: (query) => String(query.queryKey[0]).startsWith("/api/shared-inbox"),
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error?.message || "No se pudo actualizar el hilo",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const update = (threadId: string, values: Record<string, unknown>) => updateMutation.mutate({ threadId, update: values });
+
+  const renderThreads = () => {
+    if (isLoading) {
+      return <p className="text-sm text-muted-foreground py-4">Cargando hilos...</p>;
+    }
+    if (threads.length === 0) {
+      return <p className="text-sm text-muted-foreground py-4">No hay hilos en esta cola</p>;
+    }
+
+    return (
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>Hilo</TableHead>
+            <TableHead>SLA</TableHead>
+            <TableHead>Asignado a</TableHead>
+            <TableHead>Estado</TableHead>
+            <TableHead>Pausa</TableHead>
+            <TableHead />
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {threads.map((thread) => (
+            <TableRow key={thread.threadId} data-testid={`row-inbox-thread-${thread.threadId}`}>
+              <TableCell className="max-w-xs">
+                <p className="text-sm font-medium truncate">{thread.subject || "(Sin asunto)"}</p>
+                <p className="text-xs text-muted-foreground truncate">
+                  {thread.lastFrom} · {format(new Date(thread.lastMessageAt), "dd/MM/yy HH:mm")} · {thread.messageCount}{" "}
+                  {thread.messageCount === 1 ? "mensaje" : "mensajes"}
+                </p>
+                <div className="flex flex-wrap gap-1 pt-1">
+                  <Badge variant="secondary" className="text-[10px]">{thread.accountEmail}</Badge>
+                  {thread.operationName && <Badge variant="outline" className="text-[10px]">{thread.operationName}</Badge>}
+                </div>
+              </TableCell>
+              <TableCell>
+                <InboxSlaBadge sla={thread.sla} />
+              </TableCell>
+              <TableCell>
+                <Select
+                  value={thread.assignedEmployeeId || UNASSIGNED}
+                  onValueChange={(value) => update(thread.threadId, { assignedEmployeeId: value === UNASSIGNED ? null : value })}
+                >
+                  <SelectTrigger className="h-8 w-40 text-xs" data-testid={`select-inbox-assignee-${thread.threadId}`}>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={UNASSIGNED}>Sin asignar</SelectItem>
+                    {activeEmployees.map((employee) => (
+                      <SelectItem key={employee.id} value={employee.id}>{employee.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </TableCell>
+              <TableCell>
+                <Select value={thread.status} onValueChange={(status) => update(thread.threadId, { status })}>
+                  <SelectTrigger className="h-8 w-40 text-xs" data-testid={`select-inbox-status-${thread.threadId}`}>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {Object.entries(INBOX_STATUS_LABELS).map(([value, label]) => (
+                      <SelectItem key={value} value={value}>{label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </TableCell>
+              <TableCell>
+                <Select
+                  value=""
+                  onValueChange={(value) =>
+                    update(thread.threadId, {
+                      snoozedUntil: value === NO_SNOOZE ? null : SNOOZE_OPTIONS.find((o) => o.value === value)!.until().toISOString(),
+                    })
+                  }
+                >
+                  <SelectTrigger className="h-8 w-40 text-xs" data-testid={`select-inbox-snooze-${thread.threadId}`}>
+                    <SelectValue
+                      placeholder={thread.isSnoozed && thread.snoozedUntil
+                        ? `Hasta ${format(new Date(thread.snoozedUntil), "dd/MM HH:mm")}`
+                        : "Pausar"}
+                    />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {SNOOZE_OPTIONS.map((option) => (
+                      <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                    ))}
+                    {thread.isSnoozed && <SelectItem value={NO_SNOOZE}>Quitar pausa</SelectItem>}
+                  </SelectContent>
+                </Select>
+              </TableCell>
+              <TableCell className="text-right">
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => onOpenThread(thread.threadId)}
+                  data-testid={`button-inbox-open-thread-${thread.threadId}`}
+                >
+                  <MessagesSquare className="h-4 w-4 mr-1" />
+                  Ver hilo
+                </Button>
+              </TableCell>
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+    );
+  };
+
+  return (
+    <Card data-testid="card-shared-inbox">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Inbox className="h-5 w-5" />
+          Bandeja compartida
+        </CardTitle>
+        <CardDescription>
+          Hilos de las cuentas compartidas y de tus cuentas; los que vencen antes aparecen primero
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <Tabs value={queue} onValueChange={setQueue}>
+          <TabsList>
+            <TabsTrigger value="unassigned" data-testid="tab-inbox-unassigned">Sin asignar</TabsTrigger>
+            <TabsTrigger value="mine" data-testid="tab-inbox-mine">Mis hilos</TabsTrigger>
+            <TabsTrigger value="all" data-testid="tab-inbox-all">Todos</TabsTrigger>
+            <TabsTrigger value="snoozed" data-testid="tab-inbox-snoozed">Pausados</TabsTrigger>
+            <TabsTrigger value="workload" data-testid="tab-inbox-workload">
+              <Users className="h-4 w-4 mr-1" />
+              Carga de trabajo
+            </TabsTrigger>
+          </TabsList>
+
+          {["unassigned", "mine", "all", "snoozed"].map((value) => (
+            <TabsContent key={value} value={value}>
+              {renderThreads()}
+            </TabsContent>
+          ))}
+
+          <TabsContent value="workload">
+            {workload.length === 0 ? (
+              <p className="text-sm text-muted-foreground py-4">No hay empleados activos</p>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Empleado</TableHead>
+                    <TableHead className="text-right">Abiertos</TableHead>
+                    <TableHead className="text-right">Esperando cliente</TableHead>
+                    <TableHead className="text-right">Pausados</TableHead>
+                    <TableHead className="text-right">SLA en riesgo</TableHead>
+                    <TableHead className="text-right">SLA vencido</TableHead>
+                    <TableHead className="text-right">Primera respuesta promedio</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {workload.map((row) => (
+                    <TableRow key={row.employeeId} data-testid={`row-workload-${row.employeeId}`}>
+                      <TableCell className="font-medium">{row.employeeName}</TableCell>
+                      <TableCell className="text-right">{row.open}</TableCell>
+                      <TableCell className="text-right">{row.waitingClient}</TableCell>
+                      <TableCell className="text-right">{row.snoozed}</TableCell>
+                      <TableCell className={`text-right ${row.slaAtRisk > 0 ? "text-orange-600" : ""}`}>{row.slaAtRisk}</TableCell>
+                      <TableCell className={`text-right ${row.slaBreached > 0 ? "text-destructive font-semibold" : ""}`}>{row.slaBreached}</TableCell>
+                      <TableCell className="text-right">
+                        {row.avgFirstResponseMinutes !== null ? formatMinutes(row.avgFirstResponseMinutes) : "—"}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </TabsContent>
+        </Tabs>
+      </CardContent>
+    </Card>
+  );
+}
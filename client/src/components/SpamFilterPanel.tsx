@@ -0,0 +1,513 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { ShieldCheck, ShieldBan, Plus, Trash2, MailCheck } from "lucide-react";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import type { GmailAccount, SpamRule, SpamFilteredMessage } from "@shared/schema";
+
+const GLOBAL_SCOPE = "global";
+
+const RULE_TYPE_LABELS: Record<string, string> = {
+  domain: "Dominio",
+  address: "Remitente",
+  subject: "Asunto",
+  header: "Encabezado",
+};
+
+const PATTERN_PLACEHOLDERS: Record<string, string> = {
+  domain: "naviera.com",
+  address: "avisos@naviera.com",
+  subject: "boletín semanal o /promo(ción)?/",
+  header: "vacío = el encabezado existe",
+};
+
+interface SpamFilterStats {
+  filtered: number;
+  restored: number;
+  filteredLast30Days: number;
+  byReason: { reason: string; count: number }[];
+  byConfidence: { confidence: string; count: number }[];
+  topDomains: { domain: string; count: number }[];
+  topRules: { id: string; description: string; action: string; hitCount: number; lastHitAt: string | null }[];
+}
+
+interface SpamFilterPanelProps {
+  accounts: Omit<GmailAccount, 'accessToken' | 'refreshToken' | 'mailPassword'>[];
+  selectedAccountId: string | null;
+}
+
+const emptyRule = {
+  scope: GLOBAL_SCOPE,
+  action: "block",
+  ruleType: "domain",
+  pattern: "",
+  headerName: "",
+  note: "",
+};
+
+/**
+ * Reglas de spam/permiso por cuenta o globales, correos filtrados con "no es spam"
+ * y estadísticas del filtro
+ */
+export function SpamFilterPanel({ accounts, selectedAccountId }: SpamFilterPanelProps) {
+  const { toast } = useToast();
+  const [ruleDialogOpen, setRuleDialogOpen] = useState(false);
+  const [newRule, setNewRule] = useState(emptyRule);
+  const [notSpamTarget, setNotSpamTarget] = useState<SpamFilteredMessage | null>(null);
+  const [notSpamType, setNotSpamType] = useState<"address" | "domain">("address");
+  const [notSpamGlobal, setNotSpamGlobal] = useState(false);
+
+  const { data: rules = [] } = useQuery<SpamRule[]>({
+    queryKey: ["/api/gmail/spam-rules"],
+  });
+
+  const { data: stats } = useQuery<SpamFilterStats>({
+    queryKey: ["/api/gmail/spam-stats"],
+  });
+
+  const { data: filteredMessages = [], isLoading: filteredLoading } = useQuery<SpamFilteredMessage[]>({
+    queryKey: ["/api/gmail/accounts", selectedAccountId, "spam-filtered"],
+    enabled: !!selectedAccountId,
+  });
+
+  const invalidateSpam = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/gmail/spam-rules"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/gmail/spam-stats"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/gmail/accounts"] });
+  };
+
+  const onError = (fallback: string) => (error: any) => {
+    toast({
+      title: "Error",
+      description: error?.message || fallback,
+      variant: "destructive",
+    });
+  };
+
+  const createRuleMutation = useMutation({
+    mutationFn: () =>
+      apiRequest("POST", "/api/gmail/spam-rules", {
+        gmailAccountId: newRule.scope === GLOBAL_SCOPE ? null : newRule.scope,
+        action: newRule.action,
+        ruleType: newRule.ruleType,
+        pattern: newRule.pattern,
+        headerName: newRule.ruleType === "header" ? newRule.headerName : null,
+        note: newRule.note || null,
+      }),
+    onSuccess: () => {
+      invalidateSpam();
+      setRuleDialogOpen(false);
+      setNewRule(emptyRule);
+      toast({ title: "Regla creada", description: "Se aplicará a partir de la siguiente sincronización." });
+    },
+    onError: onError("No se pudo crear la regla"),
+  });
+
+  const toggleRuleMutation = useMutation({
+    mutationFn: (rule: SpamRule) => apiRequest("PATCH", `/api/gmail/spam-rules/${rule.id}`, { isEnabled: !rule.isEnabled }),
+    onSuccess: invalidateSpam,
+    onError: onError("No se pudo actualizar la regla"),
+  });
+
+  const deleteRuleMutation = useMutation({
+    mutationFn: (ruleId: string) => apiRequest("DELETE", `/api/gmail/spam-rules/${ruleId}`),
+    onSuccess: () => {
+      invalidateSpam();
+      toast({ title: "Regla eliminada" });
+    },
+    onError: onError("No se pudo eliminar la regla"),
+  });
+
+  const notSpamMutation = useMutation({
+    mutationFn: async (message: SpamFilteredMessage) => {
+      const response = await apiRequest("POST", `/api/gmail/spam-filtered/${message.id}/not-spam`, {
+        ruleType: notSpamType,
+        global: notSpamGlobal,
+      });
+      return response.json() as Promise<{ rule: SpamRule; restored: number }>;
+    },
+    onSuccess: (result) => {
+      invalidateSpam();
+      setNotSpamTarget(null);
+      toast({
+        title: "Marcado como no spam",
+        description: `Se creó una regla de permiso y se recuperaron ${result.restored} ${result.restored === 1 ? "correo" : "correos"}.`,
+      });
+    },
+    onError: onError("No se pudo marcar como no spam"),
+  });
+
+  const accountEmail = (accountId: string | null) =>
+    accountId ? accounts.find((a) => a.id === accountId)?.email || "Otra cuenta" : "Todas las cuentas";
+
+  const openNotSpam = (message: SpamFilteredMessage) => {
+    setNotSpamType("address");
+    setNotSpamGlobal(false);
+    setNotSpamTarget(message);
+  };
+
+  return (
+    <Card data-testid="card-spam-filter">
+      <CardHeader className="flex flex-row items-start justify-between space-y-0">
+        <div className="space-y-1.5">
+          <CardTitle className="flex items-center gap-2">
+            <ShieldBan className="h-5 w-5" />
+            Filtro de spam
+          </CardTitle>
+          <CardDescription>
+            Las reglas de permiso tienen prioridad sobre las de bloqueo, y las de la cuenta sobre las globales
+          </CardDescription>
+        </div>
+        <Button size="sm" onClick={() => setRuleDialogOpen(true)} data-testid="button-new-spam-rule">
+          <Plus className="h-4 w-4 mr-2" />
+          Nueva regla
+        </Button>
+      </CardHeader>
+      <CardContent>
+        <Tabs defaultValue="filtered">
+          <TabsList>
+            <TabsTrigger value="filtered" data-testid="tab-spam-filtered">Correos filtrados</TabsTrigger>
+            <TabsTrigger value="rules" data-testid="tab-spam-rules">Reglas ({rules.length})</TabsTrigger>
+            <TabsTrigger value="stats" data-testid="tab-spam-stats">Estadísticas</TabsTrigger>
+          </TabsList>
+
+          <TabsContent value="filtered">
+            {!selectedAccountId ? (
+              <p className="text-sm text-muted-foreground py-4">Selecciona una cuenta para ver sus correos filtrados</p>
+            ) : filteredLoading ? (
+              <p className="text-sm text-muted-foreground py-4">Cargando correos filtrados...</p>
+            ) : filteredMessages.length === 0 ? (
+              <p className="text-sm text-muted-foreground py-4">No hay correos filtrados en esta cuenta</p>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Fecha</TableHead>
+                    <TableHead>Remitente</TableHead>
+                    <TableHead>Asunto</TableHead>
+                    <TableHead>Razón</TableHead>
+                    <TableHead />
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {filteredMessages.map((message) => (
+                    <TableRow key={message.id} data-testid={`row-spam-filtered-${message.id}`}>
+                      <TableCell className="whitespace-nowrap">{format(new Date(message.date), "dd/MM/yy")}</TableCell>
+                      <TableCell className="max-w-[180px] truncate">{message.fromName || message.fromEmail}</TableCell>
+                      <TableCell className="max-w-xs truncate">{message.subject || "(Sin asunto)"}</TableCell>
+                      <TableCell className="max-w-xs">
+                        <span className="text-xs text-muted-foreground">{message.reason}</span>
+                      </TableCell>
+                      <TableCell className="text-right">
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => openNotSpam(message)}
+                          data-testid={`button-not-spam-${message.id}`}
+                        >
+                          <MailCheck className="h-4 w-4 mr-2" />
+                          No es spam
+                        </Button>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </TabsContent>
+
+          <TabsContent value="rules">
+            {rules.length === 0 ? (
+              <p className="text-sm text-muted-foreground py-4">
+                No hay reglas; solo se aplican las heurísticas integradas del filtro
+              </p>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Acción</TableHead>
+                    <TableHead>Tipo</TableHead>
+                    <TableHead>Patrón</TableHead>
+                    <TableHead>Cuenta</TableHead>
+                    <TableHead className="text-right">Aciertos</TableHead>
+                    <TableHead>Activa</TableHead>
+                    <TableHead />
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {rules.map((rule) => (
+                    <TableRow key={rule.id} data-testid={`row-spam-rule-${rule.id}`}>
+                      <TableCell>
+                        {rule.action === "allow" ? (
+                          <Badge variant="outline" className="gap-1"><ShieldCheck className="h-3 w-3" />Permitir</Badge>
+                        ) : (
+                          <Badge variant="destructive" className="gap-1"><ShieldBan className="h-3 w-3" />Bloquear</Badge>
+                        )}
+                      </TableCell>
+                      <TableCell>{RULE_TYPE_LABELS[rule.ruleType] || rule.ruleType}</TableCell>
+                      <TableCell className="max-w-xs">
+                        <span className="font-mono text-xs">
+                          {rule.ruleType === "header" ? `${rule.headerName}: ${rule.pattern || "(presente)"}` : rule.pattern}
+                        </span>
+                        {rule.note && <p className="text-xs text-muted-foreground truncate">{rule.note}</p>}
+                      </TableCell>
+                      <TableCell className="text-sm">{accountEmail(rule.gmailAccountId)}</TableCell>
+                      <TableCell className="text-right">{rule.hitCount}</TableCell>
+                      <TableCell>
+                        <Switch
+                          checked={rule.isEnabled}
+                          onCheckedChange={() => toggleRuleMutation.mutate(rule)}
+                          data-testid={`switch-spam-rule-${rule.id}`}
+                        />
+                      </TableCell>
+                      <TableCell className="text-right">
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          onClick={() => deleteRuleMutation.mutate(rule.id)}
+                          data-testid={`button-delete-spam-rule-${rule.id}`}
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </TabsContent>
+
+          <TabsContent value="stats">
+            {!stats ? (
+              <p className="text-sm text-muted-foreground py-4">Cargando estadísticas...</p>
+            ) : (
+              <div className="space-y-6 pt-2">
+                <div className="grid grid-cols-3 gap-4">
+                  <div className="rounded-md border p-3">
+                    <p className="text-xs text-muted-foreground">Filtrados</p>
+                    <p className="text-2xl font-bold" data-testid="text-spam-filtered-count">{stats.filtered}</p>
+                  </div>
+                  <div className="rounded-md border p-3">
+                    <p className="text-xs text-muted-foreground">Últimos 30 días</p>
+                    <p className="text-2xl font-bold">{stats.filteredLast30Days}</p>
+                  </div>
+                  <div className="rounded-md border p-3">
+                    <p className="text-xs text-muted-foreground">Recuperados (no spam)</p>
+                    <p className="text-2xl font-bold">{stats.restored}</p>
+                  </div>
+                </div>
+
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                  <div className="space-y-2">
+                    <p className="text-sm font-medium">Razones de filtrado</p>
+                    {stats.byReason.length === 0 ? (
+                      <p className="text-xs text-muted-foreground">Sin datos</p>
+                    ) : stats.byReason.map((row) => (
+                      <div key={row.reason} className="flex items-center justify-between gap-2 text-sm">
+                        <span className="truncate">{row.reason}</span>
+                        <Badge variant="secondary">{row.count}</Badge>
+                      </div>
+                    ))}
+                    {stats.byConfidence.length > 0 && (
+                      <div className="flex flex-wrap gap-1 pt-1">
+                        {stats.byConfidence.map((row) => (
+                          <Badge key={row.confidence} variant="outline">Confianza {row.confidence}: {row.count}</Badge>
+                        ))}
+                      </div>
+                    )}
+                  </div>
+
+                  <div className="space-y-2">
+                    <p className="text-sm font-medium">Dominios más filtrados</p>
+                    {stats.topDomains.length === 0 ? (
+                      <p className="text-xs text-muted-foreground">Sin datos</p>
+                    ) : stats.topDomains.map((row) => (
+                      <div key={row.domain} className="flex items-center justify-between gap-2 text-sm">
+                        <span className="truncate font-mono text-xs">{row.domain}</span>
+                        <Badge variant="secondary">{row.count}</Badge>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+
+                <div className="space-y-2">
+                  <p className="text-sm font-medium">Reglas con más aciertos</p>
+                  {stats.topRules.length === 0 ? (
+                    <p className="text-xs text-muted-foreground">Ninguna regla se ha aplicado todavía</p>
+                  ) : stats.topRules.map((rule) => (
+                    <div key={rule.id} className="flex items-center justify-between gap-2 text-sm">
+                      <span className="truncate">{rule.description}</span>
+                      <span className="text-xs text-muted-foreground whitespace-nowrap">
+                        {rule.hitCount} aciertos
+                        {rule.lastHitAt && ` · ${format(new Date(rule.lastHitAt), "dd/MM/yy HH:mm")}`}
+                      </span>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
+          </TabsContent>
+        </Tabs>
+      </CardContent>
+
+      <Dialog open={ruleDialogOpen} onOpenChange={setRuleDialogOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Nueva regla de spam</DialogTitle>
+            <DialogDescription>Bloquea o permite correos por dominio, remitente, asunto o encabezado</DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label>Acción</Label>
+                <Select value={newRule.action} onValueChange={(action) => setNewRule({ ...newRule, action })}>
+                  <SelectTrigger data-testid="select-spam-rule-action">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="block">Bloquear (spam)</SelectItem>
+                    <SelectItem value="allow">Permitir (nunca spam)</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label>Tipo</Label>
+                <Select value={newRule.ruleType} onValueChange={(ruleType) => setNewRule({ ...newRule, ruleType })}>
+                  <SelectTrigger data-testid="select-spam-rule-type">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {Object.entries(RULE_TYPE_LABELS).map(([value, label]) => (
+                      <SelectItem key={value} value={value}>{label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+            <div className="space-y-2">
+              <Label>Cuenta</Label>
+              <Select value={newRule.scope} onValueChange={(scope) => setNewRule({ ...newRule, scope })}>
+                <SelectTrigger data-testid="select-spam-rule-scope">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={GLOBAL_SCOPE}>Todas las cuentas (global)</SelectItem>
+                  {accounts.map((account) => (
+                    <SelectItem key={account.id} value={account.id}>{account.email}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            {newRule.ruleType === "header" && (
+              <div className="space-y-2">
+                <Label>Encabezado</Label>
+                <Input
+                  value={newRule.headerName}
+                  onChange={(e) => setNewRule({ ...newRule, headerName: e.target.value })}
+                  placeholder="List-Unsubscribe"
+                  data-testid="input-spam-rule-header"
+                />
+              </div>
+            )}
+            <div className="space-y-2">
+              <Label>{newRule.ruleType === "header" ? "Valor contiene" : "Patrón"}</Label>
+              <Input
+                value={newRule.pattern}
+                onChange={(e) => setNewRule({ ...newRule, pattern: e.target.value })}
+                placeholder={PATTERN_PLACEHOLDERS[newRule.ruleType]}
+                data-testid="input-spam-rule-pattern"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Nota</Label>
+              <Input
+                value={newRule.note}
+                onChange={(e) => setNewRule({ ...newRule, note: e.target.value })}
+                placeholder="Opcional"
+                data-testid="input-spam-rule-note"
+              />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setRuleDialogOpen(false)}>Cancelar</Button>
+            <Button
+              onClick={() => createRuleMutation.mutate()}
+              disabled={createRuleMutation.isPending || (newRule.ruleType !== "header" && !newRule.pattern.trim())}
+              data-testid="button-save-spam-rule"
+            >
+              {createRuleMutation.isPending ? "Guardando..." : "Crear regla"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={notSpamTarget !== null} onOpenChange={(open) => !open && setNotSpamTarget(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>No es spam</DialogTitle>
+            <DialogDescription>
+              Se creará una regla de permiso y se recuperarán los correos filtrados que la cumplan
+            </DialogDescription>
+          </DialogHeader>
+          {notSpamTarget && (
+            <div className="space-y-4">
+              <div className="rounded-md border p-3 space-y-1">
+                <p className="text-sm font-medium">{notSpamTarget.subject || "(Sin asunto)"}</p>
+                <p className="text-xs text-muted-foreground">{notSpamTarget.fromEmail}</p>
+              </div>
+              <div className="space-y-2">
+                <Label>Permitir</Label>
+                <Select value={notSpamType} onValueChange={(value) => setNotSpamType(value as "address" | "domain")}>
+                  <SelectTrigger data-testid="select-not-spam-type">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="address">Solo este remitente ({notSpamTarget.fromEmail})</SelectItem>
+                    <SelectItem value="domain">Todo el dominio ({notSpamTarget.fromEmail.split("@")[1]})</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="flex items-center justify-between">
+                <Label htmlFor="not-spam-global">Aplicar a todas las cuentas</Label>
+                <Switch
+                  id="not-spam-global"
+                  checked={notSpamGlobal}
+                  onCheckedChange={setNotSpamGlobal}
+                  data-testid="switch-not-spam-global"
+                />
+              </div>
+            </div>
+          )}
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setNotSpamTarget(null)}>Cancelar</Button>
+            <Button
+              onClick={() => notSpamTarget && notSpamMutation.mutate(notSpamTarget)}
+              disabled={notSpamMutation.isPending}
+              data-testid="button-confirm-not-spam"
+            >
+              {notSpamMutation.isPending ? "Recuperando..." : "Crear regla y recuperar"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
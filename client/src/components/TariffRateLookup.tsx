@@ -0,0 +1,171 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Search } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { EQUIPMENT_TYPES, type RateLookupOption } from "@shared/tariffs";
+
+const ANY_EQUIPMENT = "any";
+
+interface RateLookupResponse {
+  currency: string;
+  options: RateLookupOption[];
+}
+
+interface TariffRateLookupProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  originLocationId: string;
+  destinationLocationId: string;
+  shippingMode: string; // sea, air, land; otros modos buscan en todos los tarifarios
+  currency: string;
+  onSelect: (option: RateLookupOption) => void;
+}
+
+/**
+ * Búsqueda de tarifas vigentes en los tarifarios para la lane de la cotización
+ */
+export function TariffRateLookup({ open, onOpenChange, originLocationId, destinationLocationId, shippingMode, currency, onSelect }: TariffRateLookupProps) {
+  const [date, setDate] = useState(() => new Date().toISOString().split("T")[0]);
+  const [equipmentType, setEquipmentType] = useState(ANY_EQUIPMENT);
+  const [containers, setContainers] = useState("1");
+  const [weightKg, setWeightKg] = useState("");
+  const [search, setSearch] = useState<string | null>(null);
+  const isAir = shippingMode === "air";
+
+  const { data, isFetching, error } = useQuery<RateLookupResponse>({
+    queryKey: [`/api/tariffs/lookup?${search}`],
+    enabled: open && !!search,
+  });
+
+  const runSearch = () => {
+    const params = new URLSearchParams({ origin: originLocationId, destination: destinationLocationId, date, currency, limit: "10" });
+    if (["sea", "air", "land"].includes(shippingMode)) params.set("mode", shippingMode);
+    if (!isAir && equipmentType !== ANY_EQUIPMENT) params.set("equipmentType", equipmentType);
+    if (!isAir && containers) params.set("containers", containers);
+    if (weightKg) params.set("weightKg", weightKg);
+    setSearch(params.toString());
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-4xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Buscar tarifas</DialogTitle>
+          <DialogDescription>
+            Tarifas de compra vigentes de carriers y agentes para la ruta de la cotización, de la más barata a la más cara
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-3 items-end">
+          <div className="space-y-1">
+            <Label className="text-xs">Fecha de embarque</Label>
+            <Input type="date" value={date} onChange={(e) => setDate(e.target.value)} data-testid="input-lookup-date" />
+          </div>
+          {!isAir && (
+            <>
+              <div className="space-y-1">
+                <Label className="text-xs">Equipo</Label>
+                <Select value={equipmentType} onValueChange={setEquipmentType}>
+                  <SelectTrigger data-testid="select-lookup-equipment"><SelectValue /></SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={ANY_EQUIPMENT}>Todos</SelectItem>
+                    {EQUIPMENT_TYPES.map((item) => (
+                      <SelectItem key={item.code} value={item.code}>{item.code} · {item.label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-1">
+                <Label className="text-xs">Contenedores</Label>
+                <Input type="number" min="1" value={containers} onChange={(e) => setContainers(e.target.value)} data-testid="input-lookup-containers" />
+              </div>
+            </>
+          )}
+          <div className="space-y-1">
+            <Label className="text-xs">Peso tasable (kg){isAir ? "" : " opcional"}</Label>
+            <Input type="number" min="0" value={weightKg} onChange={(e) => setWeightKg(e.target.value)} data-testid="input-lookup-weight" />
+          </div>
+        </div>
+        <div className="flex justify-end">
+          <Button onClick={runSearch} disabled={isFetching || (isAir && !weightKg)} data-testid="button-run-lookup">
+            <Search className="w-4 h-4 mr-2" />
+            {isFetching ? "Buscando..." : "Buscar"}
+          </Button>
+        </div>
+
+        {error && <p className="text-sm text-destructive">{(error as Error).message}</p>}
+        {data && data.options.length === 0 && (
+          <p className="text-sm text-muted-foreground text-center py-4">No hay tarifas vigentes para esta ruta</p>
+        )}
+        {data && data.options.length > 0 && (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Carrier</TableHead>
+                <TableHead>Tarifario</TableHead>
+                <TableHead>Equipo / rango</TableHead>
+                <TableHead>Tránsito</TableHead>
+                <TableHead>Vigencia</TableHead>
+                <TableHead className="text-right">Costo</TableHead>
+                <TableHead />
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {data.options.map((option, index) => (
+                <TableRow key={option.rateId} data-testid={`row-lookup-${option.rateId}`}>
+                  <TableCell>
+                    <div className="font-medium flex items-center gap-2">
+                      {option.carrier}
+                      {index === 0 && <Badge className="bg-green-600">Más barata</Badge>}
+                    </div>
+                    <div className="text-xs text-muted-foreground">
+                      {option.chargeLines.map((line) => line.chargeCode).join(" + ")}
+                    </div>
+                  </TableCell>
+                  <TableCell>
+                    <div className="text-sm">{option.tariffName}</div>
+                    <div className="text-xs text-muted-foreground">{option.supplierName}</div>
+                  </TableCell>
+                  <TableCell>
+                    {option.weightBreakKg !== null ? `+${option.weightBreakKg} kg` : option.equipmentType || "-"}
+                  </TableCell>
+                  <TableCell>{option.transitDays ? `${option.transitDays} días` : "-"}</TableCell>
+                  <TableCell className="whitespace-nowrap">
+                    {option.validUntil ? new Date(option.validUntil).toLocaleDateString("es-MX") : "-"}
+                  </TableCell>
+                  <TableCell className="text-right font-semibold whitespace-nowrap">
+                    {option.currency} {option.total.toLocaleString("en-US", { minimumFractionDigits: 2, maximumFractionDigits: 2 })}
+                  </TableCell>
+                  <TableCell>
+                    <Button size="sm" variant="outline" onClick={() => onSelect(option)} data-testid={`button-use-rate-${option.rateId}`}>
+                      Usar
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -15,7 +15,11 @@ import {
   Calendar,
   Zap,
   Landmark,
-  Brain
+  Brain,
+  PieChart,
+  Wallet,
+  Link2,
+  Tags
 } from "lucide-react";
 import { Link, useLocation } from "wouter";
 import { useAuth } from "@/lib/auth-context";
@@ -62,6 +66,16 @@ const menuItems: MenuItem[] = [
     url: "/clients",
     icon: Building2,
   },
+  {
+    title: "Suppliers",
+    url: "/suppliers",
+    icon: Truck,
+  },
+  {
+    title: "Rate Tariffs",
+    url: "/tariffs",
+    icon: Tags,
+  },
   {
     title: "Staff",
     url: "/employees",
@@ -83,6 +97,16 @@ const menuItems: MenuItem[] = [
     url: "/expenses",
     icon: Receipt,
   },
+  {
+    title: "Accounts Payable",
+    url: "/accounts-payable",
+    icon: Wallet,
+  },
+  {
+    title: "Profitability",
+    url: "/reports/profitability",
+    icon: PieChart,
+  },
   {
     title: "Bank Accounts",
     url: "/bank-accounts",
@@ -98,6 +122,16 @@ const menuItems: MenuItem[] = [
     url: "/gmail",
     icon: Mail,
   },
+  {
+    title: "Email Templates",
+    url: "/email-templates",
+    icon: FileText,
+  },
+  {
+    title: "Email Linking",
+    url: "/email-linking",
+    icon: Link2,
+  },
   {
     title: "Calendar",
     url: "/calendar",
@@ -0,0 +1,781 @@
+import { useRef, useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Link } from "wouter";
+import { Plus, Upload, CalendarClock, Banknote, Ban } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Skeleton } from "@/components/ui/skeleton";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { CHARGE_CATEGORIES } from "@shared/charge-categories";
+import type { BankAccount, Operation, Supplier, SupplierBill } from "@shared/schema";
+
+interface PayableBill extends SupplierBill {
+  supplierName: string;
+  operationName: string | null;
+  balanceDue: string;
+  daysOverdue: number;
+}
+
+interface PayablesSummaryRow {
+  currency: string;
+  current: number;
+  overdue: number;
+  dueNext7Days: number;
+  scheduled: number;
+  total: number;
+}
+
+interface AccountsPayableReport {
+  asOf: string;
+  bills: PayableBill[];
+  summary: PayablesSummaryRow[];
+}
+
+const ALL = "all";
+const NONE = "none";
+const AUTO = "auto";
+
+const statusColors: Record<string, string> = {
+  pending: "bg-yellow-100 text-yellow-800 dark:bg-yellow-900/30 dark:text-yellow-300",
+  partially_paid: "bg-blue-100 text-blue-800 dark:bg-blue-900/30 dark:text-blue-300",
+  paid: "bg-green-100 text-green-800 dark:bg-green-900/30 dark:text-green-300",
+  cancelled: "bg-gray-100 text-gray-800 dark:bg-gray-900/30 dark:text-gray-300",
+};
+
+const statusLabels: Record<string, string> = {
+  pending: "Pending",
+  partially_paid: "Partially Paid",
+  paid: "Paid",
+  cancelled: "Cancelled",
+};
+
+const today = () => new Date().toISOString().split("T")[0];
+
+const emptyBill = {
+  supplierId: "",
+  operationId: NONE,
+  billNumber: "",
+  billDate: today(),
+  dueDate: "",
+  currency: "MXN",
+  subtotal: "",
+  tax: "",
+  chargeCategory: AUTO,
+  description: "",
+};
+
+export default function AccountsPayablePage() {
+  const { toast } = useToast();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [supplierFilter, setSupplierFilter] = useState(ALL);
+  const [isBillOpen, setIsBillOpen] = useState(false);
+  const [billForm, setBillForm] = useState(emptyBill);
+  const [schedulingBill, setSchedulingBill] = useState<PayableBill | null>(null);
+  const [scheduleForm, setScheduleForm] = useState({ date: "", bankAccountId: NONE });
+  const [payingBill, setPayingBill] = useState<PayableBill | null>(null);
+  const [paymentForm, setPaymentForm] = useState({
+    amount: "",
+    paymentDate: today(),
+    bankAccountId: "",
+    paymentMethod: "transfer",
+    reference: "",
+  });
+
+  const payablesUrl = supplierFilter !== ALL
+    ? `/api/supplier-bills/payables?supplierId=${supplierFilter}`
+    : "/api/supplier-bills/payables";
+
+  const { data: report, isLoading } = useQuery<AccountsPayableReport>({
+    queryKey: [payablesUrl],
+  });
+
+  const { data: suppliers = [] } = useQuery<Supplier[]>({
+    queryKey: ["/api/suppliers"],
+  });
+
+  const { data: operations = [] } = useQuery<Operation[]>({
+    queryKey: ["/api/operations"],
+  });
+
+  const { data: bankAccounts = [] } = useQuery<BankAccount[]>({
+    queryKey: ["/api/bank-accounts"],
+  });
+
+  const invalidatePayables = () => {
+    queryClient.invalidateQueries({
+      predicate: (query) => String(query.queryKey[0]).startsWith("/api/supplier-bills"),
+    });
+  };
+
+  const onMutationError = (fallback: string) => (error: any) => {
+    toast({
+      title: "Error",
+      description: error?.message || fallback,
+      variant: "destructive",
+    });
+  };
+
+  const createBillMutation = useMutation({
+    mutationFn: async () => {
+      const subtotal = Number(billForm.subtotal || 0);
+      const tax = Number(billForm.tax || 0);
+      const res = await apiRequest("POST", "/api/supplier-bills", {
+        supplierId: billForm.supplierId,
+        operationId: billForm.operationId !== NONE ? billForm.operationId : null,
+        billNumber: billForm.billNumber,
+        billDate: billForm.billDate,
+        dueDate: billForm.dueDate || null,
+        currency: billForm.currency,
+        subtotal: subtotal.toFixed(2),
+        tax: tax.toFixed(2),
+        total: (subtotal + tax).toFixed(2),
+        chargeCategory: billForm.chargeCategory !== AUTO ? billForm.chargeCategory : null,
+        description: billForm.description || null,
+      });
+      return await res.json();
+    },
+    onSuccess: () => {
+      invalidatePayables();
+      setIsBillOpen(false);
+      setBillForm(emptyBill);
+      toast({ title: "Factura de proveedor registrada" });
+    },
+    onError: onMutationError("No se pudo registrar la factura"),
+  });
+
+  const importCfdiMutation = useMutation({
+    mutationFn: async (file: File) => {
+      const content = await file.text();
+      const res = await apiRequest("POST", "/api/supplier-bills/import-cfdi", {
+        content,
+        filename: file.name,
+      });
+      return await res.json();
+    },
+    onSuccess: (result: { created: boolean; supplierCreated: boolean; supplier: Supplier }) => {
+      invalidatePayables();
+      queryClient.invalidateQueries({ queryKey: ["/api/suppliers"] });
+      toast({
+        title: result.created ? "CFDI importado" : "CFDI ya registrado",
+        description: result.supplierCreated
+          ? `Se dio de alta el proveedor ${result.supplier.name}`
+          : result.supplier.name,
+      });
+    },
+    onError: onMutationError("No se pudo importar el CFDI"),
+  });
+
+  const scheduleMutation = useMutation({
+    mutationFn: async ({ id, date, bankAccountId }: { id: string; date: string | null; bankAccountId: string | null }) => {
+      const res = await apiRequest("POST", `/api/supplier-bills/${id}/schedule`, {
+        scheduledPaymentDate: date,
+        scheduledBankAccountId: bankAccountId,
+      });
+      return await res.json();
+    },
+    onSuccess: () => {
+      invalidatePayables();
+      setSchedulingBill(null);
+      toast({ title: "Programación de pago actualizada" });
+    },
+    onError: onMutationError("No se pudo programar el pago"),
+  });
+
+  const paymentMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", `/api/supplier-bills/${payingBill!.id}/payments`, {
+        amount: Number(paymentForm.amount).toFixed(2),
+        paymentDate: paymentForm.paymentDate,
+        bankAccountId: paymentForm.bankAccountId,
+        paymentMethod: paymentForm.paymentMethod,
+        reference: paymentForm.reference || null,
+      });
+      return await res.json();
+    },
+    onSuccess: () => {
+      invalidatePayables();
+      queryClient.invalidateQueries({ queryKey: ["/api/bank-accounts"] });
+      setPayingBill(null);
+      toast({ title: "Pago registrado" });
+    },
+    onError: onMutationError("No se pudo registrar el pago"),
+  });
+
+  const cancelMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const res = await apiRequest("POST", `/api/supplier-bills/${id}/cancel`);
+      return await res.json();
+    },
+    onSuccess: () => {
+      invalidatePayables();
+      toast({ title: "Factura cancelada" });
+    },
+    onError: onMutationError("No se pudo cancelar la factura"),
+  });
+
+  const formatCurrency = (amount: number | string, currency: string) => {
+    return new Intl.NumberFormat("es-MX", {
+      style: "currency",
+      currency,
+      minimumFractionDigits: 2,
+    }).format(Number(amount));
+  };
+
+  const formatDate = (date: string | Date | null) => (date ? new Date(date).toLocaleDateString() : "-");
+
+  const accountsFor = (currency: string) =>
+    bankAccounts.filter((account) => account.isActive && account.currency === currency);
+
+  const openSchedule = (bill: PayableBill) => {
+    setScheduleForm({
+      date: bill.scheduledPaymentDate ? new Date(bill.scheduledPaymentDate).toISOString().split("T")[0] : today(),
+      bankAccountId: bill.scheduledBankAccountId || NONE,
+    });
+    setSchedulingBill(bill);
+  };
+
+  const openPayment = (bill: PayableBill) => {
+    setPaymentForm({
+      amount: bill.balanceDue,
+      paymentDate: today(),
+      bankAccountId: bill.scheduledBankAccountId || accountsFor(bill.currency)[0]?.id || "",
+      paymentMethod: "transfer",
+      reference: "",
+    });
+    setPayingBill(bill);
+  };
+
+  const handleFileSelected = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (file) importCfdiMutation.mutate(file);
+    event.target.value = "";
+  };
+
+  const renderDue = (bill: PayableBill) => {
+    if (!bill.dueDate) return "-";
+    return (
+      <div>
+        <div>{formatDate(bill.dueDate)}</div>
+        {bill.daysOverdue > 0 ? (
+          <Badge variant="destructive" className="mt-1" data-testid={`badge-overdue-${bill.id}`}>
+            {bill.daysOverdue} days overdue
+          </Badge>
+        ) : bill.daysOverdue >= -7 ? (
+          <span className="text-xs text-muted-foreground">
+            {bill.daysOverdue === 0 ? "Due today" : `Due in ${-bill.daysOverdue} days`}
+          </span>
+        ) : null}
+      </div>
+    );
+  };
+
+  const billFormValid = billForm.supplierId && billForm.billNumber && billForm.billDate && Number(billForm.subtotal) > 0;
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-semibold text-foreground">Accounts Payable</h1>
+          <p className="text-muted-foreground mt-1">Open supplier bills, due dates and scheduled payments</p>
+        </div>
+        <div className="flex items-center gap-2">
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept=".xml,text/xml,application/xml"
+            className="hidden"
+            onChange={handleFileSelected}
+          />
+          <Button
+            variant="outline"
+            onClick={() => fileInputRef.current?.click()}
+            disabled={importCfdiMutation.isPending}
+            data-testid="button-import-cfdi"
+          >
+            <Upload className="w-4 h-4 mr-2" />
+            {importCfdiMutation.isPending ? "Importing..." : "Import CFDI XML"}
+          </Button>
+          <Button onClick={() => setIsBillOpen(true)} data-testid="button-create-bill">
+            <Plus className="w-4 h-4 mr-2" />
+            New Bill
+          </Button>
+        </div>
+      </div>
+
+      <div className="flex items-end gap-4">
+        <div className="space-y-2 w-64">
+          <Label>Supplier</Label>
+          <Select value={supplierFilter} onValueChange={setSupplierFilter}>
+            <SelectTrigger data-testid="select-payables-supplier">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ALL}>All suppliers</SelectItem>
+              {suppliers.map((supplier) => (
+                <SelectItem key={supplier.id} value={supplier.id}>
+                  {supplier.name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+
+      {report && report.summary.length > 0 && (
+        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
+          {report.summary.map((row) => (
+            <Card key={row.currency} data-testid={`card-payables-${row.currency}`}>
+              <CardHeader className="pb-2">
+                <CardDescription>Total payable ({row.currency})</CardDescription>
+                <CardTitle className="text-2xl">{formatCurrency(row.total, row.currency)}</CardTitle>
+              </CardHeader>
+              <CardContent className="grid grid-cols-2 gap-2 text-sm">
+                <div className="text-muted-foreground">Overdue</div>
+                <div className={`text-right ${row.overdue > 0 ? "text-red-600 font-medium" : ""}`}>
+                  {formatCurrency(row.overdue, row.currency)}
+                </div>
+                <div className="text-muted-foreground">Due next 7 days</div>
+                <div className="text-right">{formatCurrency(row.dueNext7Days, row.currency)}</div>
+                <div className="text-muted-foreground">Not yet due</div>
+                <div className="text-right">{formatCurrency(row.current, row.currency)}</div>
+                <div className="text-muted-foreground">Scheduled</div>
+                <div className="text-right">{formatCurrency(row.scheduled, row.currency)}</div>
+              </CardContent>
+            </Card>
+          ))}
+        </div>
+      )}
+
+      <Card>
+        <CardContent className="pt-6">
+          {isLoading ? (
+            <div className="space-y-2">
+              {[1, 2, 3].map((i) => (
+                <Skeleton key={i} className="h-8 w-full" />
+              ))}
+            </div>
+          ) : !report || report.bills.length === 0 ? (
+            <div className="text-center py-8 text-sm text-muted-foreground">
+              No open supplier bills
+            </div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Supplier</TableHead>
+                  <TableHead>Bill</TableHead>
+                  <TableHead>Operation</TableHead>
+                  <TableHead>Due</TableHead>
+                  <TableHead className="text-right">Total</TableHead>
+                  <TableHead className="text-right">Balance</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead>Scheduled</TableHead>
+                  <TableHead className="text-right">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {report.bills.map((bill) => (
+                  <TableRow key={bill.id} data-testid={`row-bill-${bill.id}`}>
+                    <TableCell className="font-medium">{bill.supplierName}</TableCell>
+                    <TableCell>
+                      <div>{bill.billNumber}</div>
+                      <div className="text-xs text-muted-foreground">{formatDate(bill.billDate)}</div>
+                      {bill.source === "cfdi_xml" && <Badge variant="secondary" className="mt-1">CFDI</Badge>}
+                    </TableCell>
+                    <TableCell>
+                      {bill.operationId ? (
+                        <Link href={`/operations/${bill.operationId}`} className="hover:underline">
+                          {bill.operationName}
+                        </Link>
+                      ) : (
+                        "-"
+                      )}
+                    </TableCell>
+                    <TableCell>{renderDue(bill)}</TableCell>
+                    <TableCell className="text-right">{formatCurrency(bill.total, bill.currency)}</TableCell>
+                    <TableCell className="text-right font-medium">{formatCurrency(bill.balanceDue, bill.currency)}</TableCell>
+                    <TableCell>
+                      <Badge className={statusColors[bill.status]}>{statusLabels[bill.status] || bill.status}</Badge>
+                    </TableCell>
+                    <TableCell>{formatDate(bill.scheduledPaymentDate)}</TableCell>
+                    <TableCell>
+                      <div className="flex items-center justify-end gap-1">
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          title="Schedule payment"
+                          onClick={() => openSchedule(bill)}
+                          data-testid={`button-schedule-${bill.id}`}
+                        >
+                          <CalendarClock className="w-4 h-4" />
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          title="Register payment"
+                          onClick={() => openPayment(bill)}
+                          data-testid={`button-pay-${bill.id}`}
+                        >
+                          <Banknote className="w-4 h-4" />
+                        </Button>
+                        {bill.status === "pending" && (
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            title="Cancel bill"
+                            onClick={() => cancelMutation.mutate(bill.id)}
+                            disabled={cancelMutation.isPending}
+                            data-testid={`button-cancel-${bill.id}`}
+                          >
+                            <Ban className="w-4 h-4" />
+                          </Button>
+                        )}
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Nueva factura de proveedor */}
+      <Dialog open={isBillOpen} onOpenChange={setIsBillOpen}>
+        <DialogContent className="max-w-2xl">
+          <DialogHeader>
+            <DialogTitle>New Supplier Bill</DialogTitle>
+            <DialogDescription>
+              The due date defaults to the bill date plus the supplier's payment terms
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label>Supplier</Label>
+                <Select
+                  value={billForm.supplierId}
+                  onValueChange={(value) => {
+                    const supplier = suppliers.find((s) => s.id === value);
+                    setBillForm({ ...billForm, supplierId: value, currency: supplier?.currency || billForm.currency });
+                  }}
+                >
+                  <SelectTrigger data-testid="select-bill-supplier">
+                    <SelectValue placeholder="Select supplier" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {suppliers.filter((s) => s.status === "active").map((supplier) => (
+                      <SelectItem key={supplier.id} value={supplier.id}>
+                        {supplier.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label>Operation</Label>
+                <Select value={billForm.operationId} onValueChange={(value) => setBillForm({ ...billForm, operationId: value })}>
+                  <SelectTrigger data-testid="select-bill-operation">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={NONE}>No operation</SelectItem>
+                    {operations.map((operation) => (
+                      <SelectItem key={operation.id} value={operation.id}>
+                        {operation.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+            <div className="grid grid-cols-3 gap-4">
+              <div className="space-y-2">
+                <Label>Bill Number</Label>
+                <Input
+                  value={billForm.billNumber}
+                  onChange={(e) => setBillForm({ ...billForm, billNumber: e.target.value })}
+                  data-testid="input-bill-number"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label>Bill Date</Label>
+                <Input
+                  type="date"
+                  value={billForm.billDate}
+                  onChange={(e) => setBillForm({ ...billForm, billDate: e.target.value })}
+                  data-testid="input-bill-date"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label>Due Date</Label>
+                <Input
+                  type="date"
+                  value={billForm.dueDate}
+                  onChange={(e) => setBillForm({ ...billForm, dueDate: e.target.value })}
+                  data-testid="input-bill-due-date"
+                />
+              </div>
+            </div>
+            <div className="grid grid-cols-4 gap-4">
+              <div className="space-y-2">
+                <Label>Currency</Label>
+                <Select value={billForm.currency} onValueChange={(value) => setBillForm({ ...billForm, currency: value })}>
+                  <SelectTrigger data-testid="select-bill-currency">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="MXN">MXN</SelectItem>
+                    <SelectItem value="USD">USD</SelectItem>
+                    <SelectItem value="EUR">EUR</SelectItem>
+                    <SelectItem value="ARS">ARS</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label>Subtotal</Label>
+                <Input
+                  type="number"
+                  step="0.01"
+                  value={billForm.subtotal}
+                  onChange={(e) => setBillForm({ ...billForm, subtotal: e.target.value })}
+                  data-testid="input-bill-subtotal"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label>Tax</Label>
+                <Input
+                  type="number"
+                  step="0.01"
+                  value={billForm.tax}
+                  onChange={(e) => setBillForm({ ...billForm, tax: e.target.value })}
+                  data-testid="input-bill-tax"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label>Total</Label>
+                <div className="h-10 flex items-center font-medium" data-testid="text-bill-total">
+                  {formatCurrency(Number(billForm.subtotal || 0) + Number(billForm.tax || 0), billForm.currency)}
+                </div>
+              </div>
+            </div>
+            <div className="space-y-2">
+              <Label>Charge Category</Label>
+              <Select value={billForm.chargeCategory} onValueChange={(value) => setBillForm({ ...billForm, chargeCategory: value })}>
+                <SelectTrigger data-testid="select-bill-charge-category">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={AUTO}>Automatic (from description)</SelectItem>
+                  {CHARGE_CATEGORIES.map((category) => (
+                    <SelectItem key={category.code} value={category.code}>
+                      {category.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>Description</Label>
+              <Textarea
+                value={billForm.description}
+                onChange={(e) => setBillForm({ ...billForm, description: e.target.value })}
+                data-testid="input-bill-description"
+              />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setIsBillOpen(false)}>
+              Cancel
+            </Button>
+            <Button
+              onClick={() => createBillMutation.mutate()}
+              disabled={!billFormValid || createBillMutation.isPending}
+              data-testid="button-save-bill"
+            >
+              {createBillMutation.isPending ? "Saving..." : "Save Bill"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Programar pago */}
+      <Dialog open={!!schedulingBill} onOpenChange={(open) => !open && setSchedulingBill(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Schedule Payment</DialogTitle>
+            <DialogDescription>
+              {schedulingBill?.supplierName} - {schedulingBill?.billNumber}
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label>Payment Date</Label>
+              <Input
+                type="date"
+                value={scheduleForm.date}
+                onChange={(e) => setScheduleForm({ ...scheduleForm, date: e.target.value })}
+                data-testid="input-schedule-date"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Bank Account</Label>
+              <Select value={scheduleForm.bankAccountId} onValueChange={(value) => setScheduleForm({ ...scheduleForm, bankAccountId: value })}>
+                <SelectTrigger data-testid="select-schedule-bank-account">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={NONE}>Not decided</SelectItem>
+                  {schedulingBill && accountsFor(schedulingBill.currency).map((account) => (
+                    <SelectItem key={account.id} value={account.id}>
+                      {account.name} ({account.currency})
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+          <DialogFooter>
+            {schedulingBill?.scheduledPaymentDate && (
+              <Button
+                variant="outline"
+                onClick={() => scheduleMutation.mutate({ id: schedulingBill.id, date: null, bankAccountId: null })}
+                disabled={scheduleMutation.isPending}
+                data-testid="button-unschedule"
+              >
+                Remove schedule
+              </Button>
+            )}
+            <Button
+              onClick={() => schedulingBill && scheduleMutation.mutate({
+                id: schedulingBill.id,
+                date: scheduleForm.date,
+                bankAccountId: scheduleForm.bankAccountId !== NONE ? scheduleForm.bankAccountId : null,
+              })}
+              disabled={!scheduleForm.date || scheduleMutation.isPending}
+              data-testid="button-save-schedule"
+            >
+              Save
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Registrar pago */}
+      <Dialog open={!!payingBill} onOpenChange={(open) => !open && setPayingBill(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Register Payment</DialogTitle>
+            <DialogDescription>
+              {payingBill?.supplierName} - {payingBill?.billNumber} · Balance{" "}
+              {payingBill && formatCurrency(payingBill.balanceDue, payingBill.currency)}
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label>Amount</Label>
+                <Input
+                  type="number"
+                  step="0.01"
+                  value={paymentForm.amount}
+                  onChange={(e) => setPaymentForm({ ...paymentForm, amount: e.target.value })}
+                  data-testid="input-payment-amount"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label>Payment Date</Label>
+                <Input
+                  type="date"
+                  value={paymentForm.paymentDate}
+                  onChange={(e) => setPaymentForm({ ...paymentForm, paymentDate: e.target.value })}
+                  data-testid="input-payment-date"
+                />
+              </div>
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label>Bank Account</Label>
+                <Select value={paymentForm.bankAccountId} onValueChange={(value) => setPaymentForm({ ...paymentForm, bankAccountId: value })}>
+                  <SelectTrigger data-testid="select-payment-bank-account">
+                    <SelectValue placeholder="Select account" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {payingBill && accountsFor(payingBill.currency).map((account) => (
+                      <SelectItem key={account.id} value={account.id}>
+                        {account.name} ({account.currency})
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label>Method</Label>
+                <Select value={paymentForm.paymentMethod} onValueChange={(value) => setPaymentForm({ ...paymentForm, paymentMethod: value })}>
+                  <SelectTrigger data-testid="select-payment-method">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="transfer">Transfer</SelectItem>
+                    <SelectItem value="check">Check</SelectItem>
+                    <SelectItem value="cash">Cash</SelectItem>
+                    <SelectItem value="card">Card</SelectItem>
+                    <SelectItem value="other">Other</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+            <div className="space-y-2">
+              <Label>Reference</Label>
+              <Input
+                value={paymentForm.reference}
+                onChange={(e) => setPaymentForm({ ...paymentForm, reference: e.target.value })}
+                data-testid="input-payment-reference"
+              />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setPayingBill(null)}>
+              Cancel
+            </Button>
+            <Button
+              onClick={() => paymentMutation.mutate()}
+              disabled={!paymentForm.bankAccountId || Number(paymentForm.amount) <= 0 || paymentMutation.isPending}
+              data-testid="button-save-payment"
+            >
+              {paymentMutation.isPending ? "Saving..." : "Register Payment"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
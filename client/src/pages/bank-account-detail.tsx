@@ -1,10 +1,23 @@
+import { useState } from "react";
 import { useQuery, useMutation } from "@tanstack/react-query";
 import { useParams, Link } from "wouter";
-import { ArrowLeft, TrendingUp, TrendingDown, DollarSign, Calendar, Building2, CreditCard, Brain, Sparkles, RefreshCw } from "lucide-react";
+import { ArrowLeft, TrendingUp, TrendingDown, DollarSign, Calendar, Building2, CreditCard, Brain, Sparkles, RefreshCw, Plus, Trash2, Scale } from "lucide-react";
 import { queryClient, apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { BankReconciliation } from "@/components/BankReconciliation";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
 import {
   Table,
   TableBody,
@@ -16,7 +29,7 @@ import {
 import { format, startOfMonth, endOfMonth, subMonths } from "date-fns";
 import { es } from "date-fns/locale";
 import { LineChart, Line, BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer, PieChart, Pie, Cell } from "recharts";
-import type { BankAccount, Payment, Expense } from "@shared/schema";
+import type { BankAccount, BankLedgerEntry, Payment, Expense } from "@shared/schema";
 
 type Transaction = {
   id: string;
@@ -28,6 +41,15 @@ type Transaction = {
   category?: string;
 };
 
+type BankStatement = {
+  account: BankAccount;
+  openingBalance: string;
+  closingBalance: string;
+  totalCredits: string;
+  totalDebits: string;
+  entries: BankLedgerEntry[];
+};
+
 export default function BankAccountDetailPage() {
   const params = useParams();
   const accountId = params.id;
@@ -50,6 +72,12 @@ export default function BankAccountDetailPage() {
     enabled: !!accountId,
   });
 
+  // Fetch ledger statement (running balances)
+  const { data: statement, isLoading: statementLoading } = useQuery<BankStatement>({
+    queryKey: ['/api/bank-accounts', accountId, 'ledger'],
+    enabled: !!accountId,
+  });
+
   // Fetch AI financial analysis
   const { data: analysis, isLoading: analysisLoading, refetch: refetchAnalysis } = useQuery<any>({
     queryKey: ['/api/bank-accounts', accountId, 'analysis'],
@@ -68,6 +96,60 @@ export default function BankAccountDetailPage() {
     },
   });
 
+  const { toast } = useToast();
+  const [isAdjustmentOpen, setIsAdjustmentOpen] = useState(false);
+  const [adjustmentAmount, setAdjustmentAmount] = useState("");
+  const [adjustmentDate, setAdjustmentDate] = useState(format(new Date(), 'yyyy-MM-dd'));
+  const [adjustmentDescription, setAdjustmentDescription] = useState("");
+
+  // Invalida cuenta, ledger y listado (el saldo actual se deriva del ledger)
+  const invalidateLedger = () => {
+    queryClient.invalidateQueries({ queryKey: ['/api/bank-accounts'] });
+  };
+
+  const createAdjustmentMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest('POST', `/api/bank-accounts/${accountId}/ledger/adjustments`, {
+        amount: adjustmentAmount,
+        entryDate: adjustmentDate,
+        description: adjustmentDescription || 'Ajuste de saldo',
+      });
+    },
+    onSuccess: () => {
+      invalidateLedger();
+      setIsAdjustmentOpen(false);
+      setAdjustmentAmount("");
+      setAdjustmentDescription("");
+      toast({ title: "Ajuste registrado", description: "El saldo de la cuenta se recalculó" });
+    },
+    onError: () => {
+      toast({ title: "Error", description: "No se pudo registrar el ajuste", variant: "destructive" });
+    },
+  });
+
+  const deleteAdjustmentMutation = useMutation({
+    mutationFn: async (entryId: string) => {
+      await apiRequest('DELETE', `/api/bank-accounts/${accountId}/ledger/adjustments/${entryId}`);
+    },
+    onSuccess: () => {
+      invalidateLedger();
+      toast({ title: "Ajuste eliminado" });
+    },
+  });
+
+  const recomputeMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest('POST', `/api/bank-accounts/${accountId}/ledger/recompute`);
+    },
+    onSuccess: () => {
+      invalidateLedger();
+      toast({ title: "Saldo recalculado", description: "El libro se reconstruyó a partir de pagos y gastos" });
+    },
+    onError: () => {
+      toast({ title: "Error", description: "No se pudo recalcular el saldo", variant: "destructive" });
+    },
+  });
+
   if (accountLoading || paymentsLoading || expensesLoading) {
     return (
       <div className="container mx-auto py-8">
@@ -487,63 +569,195 @@ export default function BankAccountDetailPage() {
         </Card>
       )}
 
-      {/* Transactions Table */}
+      {/* Ledger Statement */}
       <Card>
-        <CardHeader>
-          <CardTitle>Historial de Movimientos</CardTitle>
-          <CardDescription>Todos los ingresos y egresos de esta cuenta</CardDescription>
+        <CardHeader className="flex flex-row items-start justify-between space-y-0">
+          <div>
+            <CardTitle>Estado de Cuenta</CardTitle>
+            <CardDescription>Movimientos de la cuenta con saldo acumulado</CardDescription>
+          </div>
+          <div className="flex gap-2">
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => recomputeMutation.mutate()}
+              disabled={recomputeMutation.isPending}
+              data-testid="button-recompute-ledger"
+            >
+              <RefreshCw className={`w-4 h-4 mr-2 ${recomputeMutation.isPending ? 'animate-spin' : ''}`} />
+              Recalcular Saldo
+            </Button>
+            <Button
+              size="sm"
+              onClick={() => setIsAdjustmentOpen(true)}
+              data-testid="button-add-adjustment"
+            >
+              <Plus className="w-4 h-4 mr-2" />
+              Ajuste
+            </Button>
+          </div>
         </CardHeader>
         <CardContent>
-          {transactions.length === 0 ? (
+          {statementLoading ? (
+            <div className="text-center py-12 text-muted-foreground">Cargando estado de cuenta...</div>
+          ) : !statement || statement.entries.length === 0 ? (
             <div className="text-center py-12">
               <CreditCard className="w-16 h-16 mx-auto mb-4 text-muted-foreground opacity-30" />
               <p className="text-muted-foreground">No hay movimientos registrados</p>
             </div>
           ) : (
-            <Table>
-              <TableHeader>
-                <TableRow>
-                  <TableHead>Fecha</TableHead>
-                  <TableHead>Tipo</TableHead>
-                  <TableHead>Descripción</TableHead>
-                  <TableHead>Referencia/Categoría</TableHead>
-                  <TableHead className="text-right">Monto</TableHead>
-                </TableRow>
-              </TableHeader>
-              <TableBody>
-                {transactions.map((transaction) => (
-                  <TableRow key={transaction.id} data-testid={`row-transaction-${transaction.id}`}>
-                    <TableCell>
-                      {format(transaction.date, 'dd/MM/yyyy')}
-                    </TableCell>
-                    <TableCell>
-                      {transaction.type === 'income' ? (
-                        <Badge className="bg-green-100 text-green-800">
-                          <TrendingUp className="w-3 h-3 mr-1" />
-                          Ingreso
-                        </Badge>
-                      ) : (
-                        <Badge className="bg-red-100 text-red-800">
-                          <TrendingDown className="w-3 h-3 mr-1" />
-                          Egreso
-                        </Badge>
-                      )}
-                    </TableCell>
-                    <TableCell>{transaction.description}</TableCell>
-                    <TableCell className="text-sm text-muted-foreground">
-                      {transaction.reference || (transaction.category ? getCategoryLabel(transaction.category) : '-')}
-                    </TableCell>
-                    <TableCell className={`text-right font-semibold ${transaction.type === 'income' ? 'text-green-600' : 'text-red-600'}`}>
-                      {transaction.type === 'income' ? '+' : '-'}{formatCurrency(transaction.amount)}
-                    </TableCell>
+            <>
+              <div className="grid gap-4 md:grid-cols-4 mb-4 text-sm">
+                <div>
+                  <p className="text-muted-foreground">Saldo de apertura</p>
+                  <p className="font-semibold" data-testid="text-opening-balance">{formatCurrency(parseFloat(statement.openingBalance))}</p>
+                </div>
+                <div>
+                  <p className="text-muted-foreground">Total créditos</p>
+                  <p className="font-semibold text-green-600">+{formatCurrency(parseFloat(statement.totalCredits))}</p>
+                </div>
+                <div>
+                  <p className="text-muted-foreground">Total débitos</p>
+                  <p className="font-semibold text-red-600">-{formatCurrency(parseFloat(statement.totalDebits))}</p>
+                </div>
+                <div>
+                  <p className="text-muted-foreground">Saldo de cierre</p>
+                  <p className="font-semibold" data-testid="text-closing-balance">{formatCurrency(parseFloat(statement.closingBalance))}</p>
+                </div>
+              </div>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Fecha</TableHead>
+                    <TableHead>Tipo</TableHead>
+                    <TableHead>Descripción</TableHead>
+                    <TableHead>Referencia/Categoría</TableHead>
+                    <TableHead className="text-right">Monto</TableHead>
+                    <TableHead className="text-right">Saldo</TableHead>
+                    <TableHead className="w-[50px]"></TableHead>
                   </TableRow>
-                ))}
-              </TableBody>
-            </Table>
+                </TableHeader>
+                <TableBody>
+                  {[...statement.entries].reverse().map((entry) => {
+                    const amount = parseFloat(entry.amount);
+                    return (
+                      <TableRow key={entry.id} data-testid={`row-ledger-entry-${entry.id}`}>
+                        <TableCell>
+                          {format(new Date(entry.entryDate), 'dd/MM/yyyy')}
+                        </TableCell>
+                        <TableCell>
+                          {entry.entryType === 'adjustment' ? (
+                            <Badge variant="outline">
+                              <Scale className="w-3 h-3 mr-1" />
+                              Ajuste
+                            </Badge>
+                          ) : entry.entryType === 'payment' ? (
+                            <Badge className="bg-green-100 text-green-800">
+                              <TrendingUp className="w-3 h-3 mr-1" />
+                              Ingreso
+                            </Badge>
+                          ) : (
+                            <Badge className="bg-red-100 text-red-800">
+                              <TrendingDown className="w-3 h-3 mr-1" />
+                              Egreso
+                            </Badge>
+                          )}
+                        </TableCell>
+                        <TableCell>{entry.description}</TableCell>
+                        <TableCell className="text-sm text-muted-foreground">
+                          {entry.reference
+                            ? (entry.entryType === 'expense' ? getCategoryLabel(entry.reference) : entry.reference)
+                            : '-'}
+                        </TableCell>
+                        <TableCell className={`text-right font-semibold ${amount >= 0 ? 'text-green-600' : 'text-red-600'}`}>
+                          {amount >= 0 ? '+' : '-'}{formatCurrency(Math.abs(amount))}
+                        </TableCell>
+                        <TableCell className="text-right font-medium" data-testid={`text-running-balance-${entry.id}`}>
+                          {formatCurrency(parseFloat(entry.runningBalance))}
+                        </TableCell>
+                        <TableCell>
+                          {entry.entryType === 'adjustment' && (
+                            <Button
+                              variant="ghost"
+                              size="icon"
+                              onClick={() => deleteAdjustmentMutation.mutate(entry.id)}
+                              disabled={deleteAdjustmentMutation.isPending}
+                              data-testid={`button-delete-adjustment-${entry.id}`}
+                            >
+                              <Trash2 className="w-4 h-4" />
+                            </Button>
+                          )}
+                        </TableCell>
+                      </TableRow>
+                    );
+                  })}
+                </TableBody>
+              </Table>
+            </>
           )}
         </CardContent>
       </Card>
 
+      {/* Bank Reconciliation */}
+      <BankReconciliation accountId={account.id} formatCurrency={formatCurrency} />
+
+      <Dialog open={isAdjustmentOpen} onOpenChange={setIsAdjustmentOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Registrar Ajuste</DialogTitle>
+            <DialogDescription>
+              Usa un monto positivo para aumentar el saldo o negativo para disminuirlo (p. ej. corrección del saldo de apertura).
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="adjustment-amount">Monto</Label>
+              <Input
+                id="adjustment-amount"
+                type="number"
+                step="0.01"
+                placeholder="0.00"
+                value={adjustmentAmount}
+                onChange={(e) => setAdjustmentAmount(e.target.value)}
+                data-testid="input-adjustment-amount"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="adjustment-date">Fecha</Label>
+              <Input
+                id="adjustment-date"
+                type="date"
+                value={adjustmentDate}
+                onChange={(e) => setAdjustmentDate(e.target.value)}
+                data-testid="input-adjustment-date"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="adjustment-description">Descripción</Label>
+              <Input
+                id="adjustment-description"
+                placeholder="Ajuste de saldo"
+                value={adjustmentDescription}
+                onChange={(e) => setAdjustmentDescription(e.target.value)}
+                data-testid="input-adjustment-description"
+              />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setIsAdjustmentOpen(false)}>
+              Cancelar
+            </Button>
+            <Button
+              onClick={() => createAdjustmentMutation.mutate()}
+              disabled={!adjustmentAmount || parseFloat(adjustmentAmount) === 0 || createAdjustmentMutation.isPending}
+              data-testid="button-save-adjustment"
+            >
+              Guardar Ajuste
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
       {account.notes && (
         <Card>
           <CardHeader>
@@ -16,6 +16,7 @@ import {
 import {
   Form,
   FormControl,
+  FormDescription,
   FormField,
   FormItem,
   FormLabel,
@@ -34,6 +35,8 @@ import { Textarea } from "@/components/ui/textarea";
 import { Switch } from "@/components/ui/switch";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
+import { ExchangeRates } from "@/components/ExchangeRates";
+import { ReportingCurrencySelect } from "@/components/ReportingCurrencySelect";
 import { insertBankAccountSchema, type BankAccount, type InsertBankAccount } from "@shared/schema";
 import { useToast } from "@/hooks/use-toast";
 import { apiRequest, queryClient } from "@/lib/queryClient";
@@ -45,12 +48,19 @@ export default function BankAccountsPage() {
   const [, navigate] = useLocation();
   const [isDialogOpen, setIsDialogOpen] = useState(false);
   const [editingAccount, setEditingAccount] = useState<BankAccount | null>(null);
+  const [reportingCurrency, setReportingCurrency] = useState("MXN");
   const { toast } = useToast();
 
   const { data: accounts = [], isLoading } = useQuery<BankAccount[]>({
     queryKey: ["/api/bank-accounts"],
   });
 
+  // Saldo consolidado de cuentas activas convertido al tipo de cambio del día
+  const { data: consolidated, error: consolidatedError } = useQuery<{ currency: string; total: number; accountCount: number }>({
+    queryKey: ["/api/bank-accounts", `consolidated-balance?currency=${reportingCurrency}`],
+    enabled: new Set(accounts.map((account) => account.currency)).size > 1,
+  });
+
   const form = useForm<BankAccountFormData>({
     resolver: zodResolver(insertBankAccountSchema),
     defaultValues: {
@@ -243,6 +253,29 @@ export default function BankAccountsPage() {
             </CardContent>
           </Card>
         ))}
+
+        {Object.keys(totalsByCurrency).length > 1 && (
+          <Card data-testid="card-consolidated-balance">
+            <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+              <CardTitle className="text-sm font-medium">Saldo Consolidado</CardTitle>
+              <ReportingCurrencySelect value={reportingCurrency} onChange={setReportingCurrency} />
+            </CardHeader>
+            <CardContent>
+              {consolidatedError ? (
+                <p className="text-xs text-destructive">{(consolidatedError as Error).message}</p>
+              ) : (
+                <>
+                  <div className="text-2xl font-bold">
+                    {getCurrencySymbol(reportingCurrency)}{(consolidated?.total ?? 0).toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}
+                  </div>
+                  <p className="text-xs text-muted-foreground">
+                    {consolidated?.accountCount ?? 0} cuenta(s) activas al tipo de cambio del día
+                  </p>
+                </>
+              )}
+            </CardContent>
+          </Card>
+        )}
       </div>
 
       {/* Accounts Table */}
@@ -486,9 +519,13 @@ export default function BankAccountsPage() {
                           step="0.01" 
                           placeholder="0.00" 
                           {...field} 
+                          disabled
                           data-testid="input-current-balance" 
                         />
                       </FormControl>
+                      <FormDescription>
+                        Se calcula automáticamente a partir del saldo inicial, pagos, gastos y ajustes
+                      </FormDescription>
                       <FormMessage />
                     </FormItem>
                   )}
@@ -553,6 +590,8 @@ export default function BankAccountsPage() {
           </Form>
         </DialogContent>
       </Dialog>
+
+      <ExchangeRates />
     </div>
   );
 }
@@ -17,6 +17,7 @@ import { format } from "date-fns";
 import { es } from "date-fns/locale";
 import { BarChart, Bar, LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer, PieChart, Pie, Cell } from "recharts";
 import type { Client, Operation, Invoice, Proposal } from "@shared/schema";
+import { ReceivablesAging } from "@/components/ReceivablesAging";
 
 export default function ClientDetailPage() {
   const params = useParams();
@@ -484,8 +485,8 @@ export default function ClientDetailPage() {
                           <TableCell className="font-medium">{invoice.invoiceNumber}</TableCell>
                           <TableCell>{formatCurrency(parseFloat(invoice.total))}</TableCell>
                           <TableCell>
-                            <Badge variant={invoice.status === 'paid' ? 'default' : 'secondary'}>
-                              {invoice.status === 'paid' ? 'Pagada' : invoice.status === 'pending' ? 'Pendiente' : invoice.status}
+                            <Badge variant={invoice.status === 'paid' ? 'default' : invoice.status === 'overdue' ? 'destructive' : 'secondary'}>
+                              {invoice.status === 'paid' ? 'Pagada' : invoice.status === 'pending' ? 'Pendiente' : invoice.status === 'partially_paid' ? 'Pago parcial' : invoice.status === 'overdue' ? 'Vencida' : invoice.status}
                             </Badge>
                           </TableCell>
                           <TableCell>{format(new Date(invoice.dueDate), 'dd/MM/yyyy')}</TableCell>
@@ -502,6 +503,8 @@ export default function ClientDetailPage() {
               )}
             </CardContent>
           </Card>
+
+          <ReceivablesAging clientId={client.id} />
         </TabsContent>
 
         <TabsContent value="proposals" className="space-y-3 mt-4">
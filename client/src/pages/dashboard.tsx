@@ -18,6 +18,7 @@ import {
 } from "lucide-react";
 import { useAuth } from "@/lib/auth-context";
 import { Skeleton } from "@/components/ui/skeleton";
+import { MilestoneDelayAlerts } from "@/components/MilestoneDelayAlerts";
 
 interface DashboardStats {
   operations: number;
@@ -124,6 +125,8 @@ export default function DashboardPage() {
         </div>
       </div>
 
+      <MilestoneDelayAlerts />
+
       <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
         {filteredCards.map((card) => {
           const count = stats?.[card.statsKey] ?? 0;
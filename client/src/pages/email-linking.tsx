@@ -0,0 +1,501 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Check, Eye, Link2, PlayCircle, Unlink } from "lucide-react";
+import { format } from "date-fns";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Skeleton } from "@/components/ui/skeleton";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import type { EmailLinkDecision, Operation } from "@shared/schema";
+
+const ALL = "all";
+
+interface CandidateMatch {
+  matcher: string;
+  weight: number;
+  location: string;
+  evidence: string;
+}
+
+interface LinkCandidate {
+  operationId: string;
+  operationName: string;
+  score: number;
+  matches: CandidateMatch[];
+}
+
+interface DecisionRow extends EmailLinkDecision {
+  message: {
+    subject: string | null;
+    fromEmail: string;
+    fromName: string | null;
+    date: string;
+    operationId: string | null;
+  };
+  operationName: string | null;
+  reviewedOperationName: string | null;
+}
+
+interface MatcherSetting {
+  key: string;
+  label: string;
+  description: string;
+  defaultWeight: number;
+  weight: number;
+  isEnabled: boolean;
+  successRate: number | null;
+  reviews: number;
+}
+
+interface LinkingRunResult {
+  evaluated: number;
+  linked: number;
+  ambiguous: number;
+  belowThreshold: number;
+  noMatch: number;
+  inherited: number;
+}
+
+const DECISION_LABELS: Record<string, { label: string; variant: "default" | "secondary" | "destructive" | "outline" }> = {
+  linked: { label: "Linked", variant: "default" },
+  ambiguous: { label: "Ambiguous", variant: "destructive" },
+  below_threshold: { label: "Below threshold", variant: "secondary" },
+  no_match: { label: "No match", variant: "outline" },
+  manual: { label: "Manual", variant: "outline" },
+};
+
+const REVIEW_LABELS: Record<string, string> = {
+  pending: "Pending review",
+  confirmed: "Confirmed",
+  overridden: "Overridden",
+  unlinked: "Unlinked",
+};
+
+export default function EmailLinkingPage() {
+  const { toast } = useToast();
+  const [reviewFilter, setReviewFilter] = useState("pending");
+  const [decisionFilter, setDecisionFilter] = useState(ALL);
+  const [detailDecision, setDetailDecision] = useState<DecisionRow | null>(null);
+  const [overrideDecision, setOverrideDecision] = useState<DecisionRow | null>(null);
+  const [overrideOperationId, setOverrideOperationId] = useState("");
+  const [weightDrafts, setWeightDrafts] = useState<Record<string, string>>({});
+
+  const params = new URLSearchParams();
+  if (reviewFilter !== ALL) params.set("reviewStatus", reviewFilter);
+  if (decisionFilter !== ALL) params.set("decision", decisionFilter);
+  const decisionsUrl = `/api/email-linking/decisions${params.toString() ? `?${params}` : ""}`;
+
+  const { data: decisions = [], isLoading } = useQuery<DecisionRow[]>({
+    queryKey: [decisionsUrl],
+  });
+
+  const { data: matchers = [], isLoading: matchersLoading } = useQuery<MatcherSetting[]>({
+    queryKey: ["/api/email-linking/matchers"],
+  });
+
+  const { data: operations = [] } = useQuery<Operation[]>({
+    queryKey: ["/api/operations"],
+    enabled: !!overrideDecision,
+  });
+
+  const invalidateDecisions = () => {
+    queryClient.invalidateQueries({
+      predicate: (query) => String(query.queryKey[0]).startsWith("/api/email-linking"),
+    });
+    queryClient.invalidateQueries({ queryKey: ["/api/operations"] });
+  };
+
+  const onError = (fallback: string) => (error: any) => {
+    toast({
+      title: "Error",
+      description: error?.message || fallback,
+      variant: "destructive",
+    });
+  };
+
+  const runMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", "/api/gmail/link-messages", {});
+      return (await res.json()) as LinkingRunResult;
+    },
+    onSuccess: (result) => {
+      invalidateDecisions();
+      toast({
+        title: "Vinculación completada",
+        description: `${result.evaluated} correos evaluados: ${result.linked} vinculados, ${result.ambiguous} ambiguos, ${result.belowThreshold} bajo el umbral, ${result.inherited} heredados del hilo`,
+      });
+    },
+    onError: onError("No se pudo ejecutar la vinculación"),
+  });
+
+  const confirmMutation = useMutation({
+    mutationFn: (id: string) => apiRequest("POST", `/api/email-linking/decisions/${id}/confirm`),
+    onSuccess: () => {
+      invalidateDecisions();
+      setDetailDecision(null);
+      toast({ title: "Vínculo confirmado" });
+    },
+    onError: onError("No se pudo confirmar el vínculo"),
+  });
+
+  const overrideMutation = useMutation({
+    mutationFn: ({ id, operationId }: { id: string; operationId: string }) =>
+      apiRequest("POST", `/api/email-linking/decisions/${id}/override`, { operationId }),
+    onSuccess: () => {
+      invalidateDecisions();
+      setOverrideDecision(null);
+      setOverrideOperationId("");
+      toast({ title: "Correo vinculado a la operación elegida" });
+    },
+    onError: onError("No se pudo cambiar el vínculo"),
+  });
+
+  const unlinkMutation = useMutation({
+    mutationFn: (id: string) => apiRequest("POST", `/api/email-linking/decisions/${id}/unlink`),
+    onSuccess: () => {
+      invalidateDecisions();
+      setDetailDecision(null);
+      toast({ title: "Correo desvinculado" });
+    },
+    onError: onError("No se pudo desvincular el correo"),
+  });
+
+  const matcherMutation = useMutation({
+    mutationFn: ({ key, data }: { key: string; data: { weight?: number; isEnabled?: boolean } }) =>
+      apiRequest("PATCH", `/api/email-linking/matchers/${key}`, data),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/email-linking/matchers"] });
+      toast({ title: "Matcher actualizado" });
+    },
+    onError: onError("No se pudo actualizar el matcher"),
+  });
+
+  const saveWeight = (matcher: MatcherSetting) => {
+    const draft = weightDrafts[matcher.key];
+    if (draft === undefined) return;
+    const weight = parseInt(draft, 10);
+    setWeightDrafts(({ [matcher.key]: _, ...rest }) => rest);
+    if (isNaN(weight) || weight === matcher.weight) return;
+    matcherMutation.mutate({ key: matcher.key, data: { weight } });
+  };
+
+  const openOverride = (decision: DecisionRow) => {
+    setDetailDecision(null);
+    setOverrideDecision(decision);
+    setOverrideOperationId(decision.reviewedOperationId || decision.message.operationId || "");
+  };
+
+  const matcherLabel = (key: string) => matchers.find((m) => m.key === key)?.label || key;
+  const candidatesOf = (decision: DecisionRow) => (decision.candidates as LinkCandidate[] | null) || [];
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-semibold text-foreground">Email Linking</h1>
+          <p className="text-muted-foreground mt-1">
+            Why each email was or wasn't linked to an operation, with weighted matchers you can tune
+          </p>
+        </div>
+        <Button onClick={() => runMutation.mutate()} disabled={runMutation.isPending} data-testid="button-run-linker">
+          <PlayCircle className="w-4 h-4 mr-2" />
+          {runMutation.isPending ? "Running..." : "Run Linker"}
+        </Button>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Decisions</CardTitle>
+          <CardDescription>Latest decision for each unlinked or reviewed email</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="flex gap-4">
+            <div className="w-48 space-y-2">
+              <Label>Review</Label>
+              <Select value={reviewFilter} onValueChange={setReviewFilter}>
+                <SelectTrigger data-testid="select-review-filter">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ALL}>All</SelectItem>
+                  {Object.entries(REVIEW_LABELS).map(([value, label]) => (
+                    <SelectItem key={value} value={value}>{label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="w-48 space-y-2">
+              <Label>Decision</Label>
+              <Select value={decisionFilter} onValueChange={setDecisionFilter}>
+                <SelectTrigger data-testid="select-decision-filter">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ALL}>All</SelectItem>
+                  {Object.entries(DECISION_LABELS).map(([value, { label }]) => (
+                    <SelectItem key={value} value={value}>{label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          {isLoading ? (
+            <div className="space-y-2">
+              {[1, 2, 3].map((i) => (
+                <Skeleton key={i} className="h-8 w-full" />
+              ))}
+            </div>
+          ) : decisions.length === 0 ? (
+            <div className="text-center py-8 text-sm text-muted-foreground">
+              No decisions match these filters.
+            </div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Date</TableHead>
+                  <TableHead>From</TableHead>
+                  <TableHead>Subject</TableHead>
+                  <TableHead>Decision</TableHead>
+                  <TableHead>Operation</TableHead>
+                  <TableHead className="text-right">Score</TableHead>
+                  <TableHead className="text-right">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {decisions.map((decision) => {
+                  const decisionLabel = DECISION_LABELS[decision.decision] || { label: decision.decision, variant: "outline" as const };
+                  return (
+                    <TableRow key={decision.id} data-testid={`row-decision-${decision.id}`}>
+                      <TableCell className="whitespace-nowrap">{format(new Date(decision.message.date), "dd/MM/yy")}</TableCell>
+                      <TableCell className="max-w-[180px] truncate">{decision.message.fromName || decision.message.fromEmail}</TableCell>
+                      <TableCell className="max-w-xs truncate">{decision.message.subject || "(Sin asunto)"}</TableCell>
+                      <TableCell>
+                        <div className="flex flex-col gap-1 items-start">
+                          <Badge variant={decisionLabel.variant}>{decisionLabel.label}</Badge>
+                          {decision.reviewStatus !== "pending" && (
+                            <span className="text-xs text-muted-foreground">{REVIEW_LABELS[decision.reviewStatus]}</span>
+                          )}
+                        </div>
+                      </TableCell>
+                      <TableCell className="max-w-[200px] truncate">
+                        {decision.reviewStatus === "overridden"
+                          ? decision.reviewedOperationName
+                          : decision.operationName || <span className="text-muted-foreground">—</span>}
+                      </TableCell>
+                      <TableCell className="text-right font-mono">{decision.score}</TableCell>
+                      <TableCell>
+                        <div className="flex items-center justify-end gap-1">
+                          <Button variant="ghost" size="icon" onClick={() => setDetailDecision(decision)} data-testid={`button-decision-details-${decision.id}`}>
+                            <Eye className="w-4 h-4" />
+                          </Button>
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            onClick={() => confirmMutation.mutate(decision.id)}
+                            disabled={!decision.operationId || confirmMutation.isPending}
+                            data-testid={`button-confirm-decision-${decision.id}`}
+                          >
+                            <Check className="w-4 h-4" />
+                          </Button>
+                          <Button variant="ghost" size="icon" onClick={() => openOverride(decision)} data-testid={`button-override-decision-${decision.id}`}>
+                            <Link2 className="w-4 h-4" />
+                          </Button>
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            onClick={() => unlinkMutation.mutate(decision.id)}
+                            disabled={!decision.message.operationId || unlinkMutation.isPending}
+                            data-testid={`button-unlink-decision-${decision.id}`}
+                          >
+                            <Unlink className="w-4 h-4" />
+                          </Button>
+                        </div>
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Matchers</CardTitle>
+          <CardDescription>
+            Each matcher adds its weight to an operation when it finds its signal; 60 points link automatically
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {matchersLoading ? (
+            <Skeleton className="h-32 w-full" />
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Matcher</TableHead>
+                  <TableHead>Signal</TableHead>
+                  <TableHead className="w-28">Weight</TableHead>
+                  <TableHead>Accuracy</TableHead>
+                  <TableHead>Enabled</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {matchers.map((matcher) => (
+                  <TableRow key={matcher.key} data-testid={`row-matcher-${matcher.key}`}>
+                    <TableCell className="font-medium">{matcher.label}</TableCell>
+                    <TableCell className="text-sm text-muted-foreground">{matcher.description}</TableCell>
+                    <TableCell>
+                      <Input
+                        type="number"
+                        min={0}
+                        max={100}
+                        value={weightDrafts[matcher.key] ?? String(matcher.weight)}
+                        onChange={(e) => setWeightDrafts({ ...weightDrafts, [matcher.key]: e.target.value })}
+                        onBlur={() => saveWeight(matcher)}
+                        onKeyDown={(e) => e.key === "Enter" && saveWeight(matcher)}
+                        data-testid={`input-matcher-weight-${matcher.key}`}
+                      />
+                    </TableCell>
+                    <TableCell className="text-sm">
+                      {matcher.successRate === null ? (
+                        <span className="text-muted-foreground">No reviews</span>
+                      ) : (
+                        `${matcher.successRate}% (${matcher.reviews} reviews)`
+                      )}
+                    </TableCell>
+                    <TableCell>
+                      <Switch
+                        checked={matcher.isEnabled}
+                        onCheckedChange={(isEnabled) => matcherMutation.mutate({ key: matcher.key, data: { isEnabled } })}
+                        data-testid={`switch-matcher-${matcher.key}`}
+                      />
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <Dialog open={!!detailDecision} onOpenChange={(open) => !open && setDetailDecision(null)}>
+        <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>{detailDecision?.message.subject || "(Sin asunto)"}</DialogTitle>
+            <DialogDescription>{detailDecision?.reason}</DialogDescription>
+          </DialogHeader>
+          {detailDecision && (
+            <div className="space-y-3">
+              {candidatesOf(detailDecision).length === 0 ? (
+                <p className="text-sm text-muted-foreground">No matcher pointed to any operation.</p>
+              ) : (
+                candidatesOf(detailDecision).map((candidate) => (
+                  <div key={candidate.operationId} className="rounded-md border p-3 space-y-2" data-testid={`candidate-${candidate.operationId}`}>
+                    <div className="flex items-center justify-between">
+                      <span className="font-medium">{candidate.operationName}</span>
+                      <Badge variant="outline">{candidate.score} pts</Badge>
+                    </div>
+                    <ul className="space-y-1 text-sm">
+                      {candidate.matches.map((match, i) => (
+                        <li key={i} className="flex justify-between gap-4">
+                          <span>
+                            <span className="font-medium">{matcherLabel(match.matcher)}:</span>{" "}
+                            <span className="text-muted-foreground">{match.evidence}</span>
+                          </span>
+                          <span className="font-mono text-muted-foreground">+{match.weight}</span>
+                        </li>
+                      ))}
+                    </ul>
+                  </div>
+                ))
+              )}
+            </div>
+          )}
+          <DialogFooter>
+            {detailDecision && (
+              <>
+                <Button variant="outline" onClick={() => openOverride(detailDecision)}>
+                  Choose Operation
+                </Button>
+                <Button
+                  onClick={() => confirmMutation.mutate(detailDecision.id)}
+                  disabled={!detailDecision.operationId || confirmMutation.isPending}
+                >
+                  Confirm {detailDecision.operationName ? `"${detailDecision.operationName}"` : ""}
+                </Button>
+              </>
+            )}
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={!!overrideDecision} onOpenChange={(open) => !open && setOverrideDecision(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Link to Another Operation</DialogTitle>
+            <DialogDescription>{overrideDecision?.message.subject || "(Sin asunto)"}</DialogDescription>
+          </DialogHeader>
+          <div className="space-y-2">
+            <Label>Operation</Label>
+            <Select value={overrideOperationId} onValueChange={setOverrideOperationId}>
+              <SelectTrigger data-testid="select-override-operation">
+                <SelectValue placeholder="Select an operation" />
+              </SelectTrigger>
+              <SelectContent>
+                {operations.map((operation) => (
+                  <SelectItem key={operation.id} value={operation.id}>
+                    {operation.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setOverrideDecision(null)}>
+              Cancel
+            </Button>
+            <Button
+              onClick={() => overrideDecision && overrideMutation.mutate({ id: overrideDecision.id, operationId: overrideOperationId })}
+              disabled={!overrideOperationId || overrideMutation.isPending}
+              data-testid="button-save-override"
+            >
+              Link
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
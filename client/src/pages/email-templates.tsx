@@ -0,0 +1,492 @@
+import { useRef, useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Plus, Edit, Trash2, Eye, AlertTriangle } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Switch } from "@/components/ui/switch";
+import { Skeleton } from "@/components/ui/skeleton";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { MERGE_FIELDS, TEMPLATE_CATEGORIES, type RenderedTemplate } from "@shared/email-template-fields";
+import type { EmailTemplate, Operation } from "@shared/schema";
+
+const ALL = "all";
+
+const GROUP_LABELS: Record<string, string> = {
+  operation: "Operation",
+  client: "Client",
+  employee: "Employee",
+};
+
+const emptyTemplate = {
+  name: "",
+  category: "other",
+  language: "es",
+  subject: "",
+  body: "",
+  isActive: true,
+};
+
+type TemplateDraft = typeof emptyTemplate;
+
+const categoryLabel = (code: string) => TEMPLATE_CATEGORIES.find((c) => c.code === code)?.label || code;
+
+export default function EmailTemplatesPage() {
+  const { toast } = useToast();
+  const [languageFilter, setLanguageFilter] = useState(ALL);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [isEditorOpen, setIsEditorOpen] = useState(false);
+  const [draft, setDraft] = useState<TemplateDraft>(emptyTemplate);
+  const [deletingTemplate, setDeletingTemplate] = useState<EmailTemplate | null>(null);
+  const [previewOperationId, setPreviewOperationId] = useState("");
+  const [preview, setPreview] = useState<RenderedTemplate | null>(null);
+
+  // Campo donde se insertan los marcadores (el último que tuvo foco)
+  const subjectRef = useRef<HTMLInputElement>(null);
+  const bodyRef = useRef<HTMLTextAreaElement>(null);
+  const [activeField, setActiveField] = useState<"subject" | "body">("body");
+
+  const templatesUrl = languageFilter !== ALL ? `/api/email-templates?language=${languageFilter}` : "/api/email-templates";
+
+  const { data: templates = [], isLoading } = useQuery<EmailTemplate[]>({
+    queryKey: [templatesUrl],
+  });
+
+  const { data: operations = [] } = useQuery<Operation[]>({
+    queryKey: ["/api/operations"],
+    enabled: isEditorOpen,
+  });
+
+  const invalidateTemplates = () => {
+    queryClient.invalidateQueries({
+      predicate: (query) => String(query.queryKey[0]).startsWith("/api/email-templates"),
+    });
+  };
+
+  const closeEditor = () => {
+    setIsEditorOpen(false);
+    setEditingId(null);
+    setDraft(emptyTemplate);
+    setPreview(null);
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      const res = editingId
+        ? await apiRequest("PATCH", `/api/email-templates/${editingId}`, draft)
+        : await apiRequest("POST", "/api/email-templates", draft);
+      return await res.json();
+    },
+    onSuccess: () => {
+      invalidateTemplates();
+      closeEditor();
+      toast({ title: editingId ? "Plantilla actualizada" : "Plantilla creada" });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error?.message || "No se pudo guardar la plantilla",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: (id: string) => apiRequest("DELETE", `/api/email-templates/${id}`),
+    onSuccess: () => {
+      invalidateTemplates();
+      setDeletingTemplate(null);
+      toast({ title: "Plantilla eliminada" });
+    },
+    onError: (error: any) => {
+      setDeletingTemplate(null);
+      toast({
+        title: "Error",
+        description: error?.message || "No se pudo eliminar la plantilla",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const previewMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", "/api/email-templates/preview", {
+        operationId: previewOperationId,
+        subject: draft.subject,
+        body: draft.body,
+        language: draft.language,
+      });
+      return (await res.json()) as RenderedTemplate;
+    },
+    onSuccess: (rendered) => setPreview(rendered),
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error?.message || "No se pudo generar la vista previa",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const openCreate = () => {
+    setEditingId(null);
+    setDraft(emptyTemplate);
+    setPreview(null);
+    setIsEditorOpen(true);
+  };
+
+  const openEdit = (template: EmailTemplate) => {
+    setEditingId(template.id);
+    setDraft({
+      name: template.name,
+      category: template.category,
+      language: template.language,
+      subject: template.subject,
+      body: template.body,
+      isActive: template.isActive,
+    });
+    setPreview(null);
+    setIsEditorOpen(true);
+  };
+
+  const insertField = (key: string) => {
+    const placeholder = `{{${key}}}`;
+    const element = activeField === "subject" ? subjectRef.current : bodyRef.current;
+    const current = draft[activeField];
+    const start = element?.selectionStart ?? current.length;
+    const end = element?.selectionEnd ?? current.length;
+    const next = current.slice(0, start) + placeholder + current.slice(end);
+    setDraft({ ...draft, [activeField]: next });
+
+    requestAnimationFrame(() => {
+      element?.focus();
+      element?.setSelectionRange(start + placeholder.length, start + placeholder.length);
+    });
+  };
+
+  const canSave = draft.name.trim() && draft.subject.trim() && draft.body.trim();
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-semibold text-foreground">Email Templates</h1>
+          <p className="text-muted-foreground mt-1">
+            Booking confirmations, arrival notices and document requests with operation merge fields
+          </p>
+        </div>
+        <Button onClick={openCreate} data-testid="button-create-template">
+          <Plus className="w-4 h-4 mr-2" />
+          New Template
+        </Button>
+      </div>
+
+      <div className="w-48 space-y-2">
+        <Label>Language</Label>
+        <Select value={languageFilter} onValueChange={setLanguageFilter}>
+          <SelectTrigger data-testid="select-template-language-filter">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={ALL}>All languages</SelectItem>
+            <SelectItem value="es">Español</SelectItem>
+            <SelectItem value="en">English</SelectItem>
+          </SelectContent>
+        </Select>
+      </div>
+
+      <Card>
+        <CardContent className="pt-6">
+          {isLoading ? (
+            <div className="space-y-2">
+              {[1, 2, 3].map((i) => (
+                <Skeleton key={i} className="h-8 w-full" />
+              ))}
+            </div>
+          ) : templates.length === 0 ? (
+            <div className="text-center py-8 text-sm text-muted-foreground">
+              No templates yet. Create your first template to reuse it from any operation.
+            </div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Name</TableHead>
+                  <TableHead>Category</TableHead>
+                  <TableHead>Language</TableHead>
+                  <TableHead>Subject</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead className="text-right">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {templates.map((template) => (
+                  <TableRow key={template.id} data-testid={`row-template-${template.id}`}>
+                    <TableCell className="font-medium">{template.name}</TableCell>
+                    <TableCell>{categoryLabel(template.category)}</TableCell>
+                    <TableCell>
+                      <Badge variant="outline">{template.language.toUpperCase()}</Badge>
+                    </TableCell>
+                    <TableCell className="max-w-xs truncate text-muted-foreground">{template.subject}</TableCell>
+                    <TableCell>
+                      <Badge variant={template.isActive ? "default" : "secondary"}>
+                        {template.isActive ? "Active" : "Inactive"}
+                      </Badge>
+                    </TableCell>
+                    <TableCell>
+                      <div className="flex items-center justify-end gap-2">
+                        <Button variant="ghost" size="icon" onClick={() => openEdit(template)} data-testid={`button-edit-template-${template.id}`}>
+                          <Edit className="w-4 h-4" />
+                        </Button>
+                        <Button variant="ghost" size="icon" onClick={() => setDeletingTemplate(template)} data-testid={`button-delete-template-${template.id}`}>
+                          <Trash2 className="w-4 h-4" />
+                        </Button>
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <Dialog open={isEditorOpen} onOpenChange={(open) => !open && closeEditor()}>
+        <DialogContent className="max-w-6xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>{editingId ? "Edit Template" : "New Template"}</DialogTitle>
+            <DialogDescription>
+              Click a field to insert it at the cursor in the subject or body
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+            <div className="space-y-4">
+              <div className="grid grid-cols-3 gap-4">
+                <div className="col-span-3 space-y-2">
+                  <Label>Name</Label>
+                  <Input value={draft.name} onChange={(e) => setDraft({ ...draft, name: e.target.value })} data-testid="input-template-name" />
+                </div>
+                <div className="space-y-2">
+                  <Label>Category</Label>
+                  <Select value={draft.category} onValueChange={(value) => setDraft({ ...draft, category: value })}>
+                    <SelectTrigger data-testid="select-template-category">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {TEMPLATE_CATEGORIES.map((category) => (
+                        <SelectItem key={category.code} value={category.code}>
+                          {category.label}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-2">
+                  <Label>Language</Label>
+                  <Select value={draft.language} onValueChange={(value) => setDraft({ ...draft, language: value })}>
+                    <SelectTrigger data-testid="select-template-language">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="es">Español</SelectItem>
+                      <SelectItem value="en">English</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-2">
+                  <Label>Active</Label>
+                  <div className="h-10 flex items-center">
+                    <Switch
+                      checked={draft.isActive}
+                      onCheckedChange={(checked) => setDraft({ ...draft, isActive: checked })}
+                      data-testid="switch-template-active"
+                    />
+                  </div>
+                </div>
+              </div>
+
+              <div className="space-y-2">
+                <Label>Subject</Label>
+                <Input
+                  ref={subjectRef}
+                  value={draft.subject}
+                  onFocus={() => setActiveField("subject")}
+                  onChange={(e) => setDraft({ ...draft, subject: e.target.value })}
+                  placeholder="Booking confirmation {{operation.bookingTracking}}"
+                  data-testid="input-template-subject"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label>Body</Label>
+                <Textarea
+                  ref={bodyRef}
+                  value={draft.body}
+                  onFocus={() => setActiveField("body")}
+                  onChange={(e) => setDraft({ ...draft, body: e.target.value })}
+                  rows={12}
+                  className="font-mono text-sm"
+                  data-testid="input-template-body"
+                />
+              </div>
+
+              <div className="space-y-2">
+                <Label>Merge fields</Label>
+                {Object.entries(GROUP_LABELS).map(([group, label]) => (
+                  <div key={group} className="space-y-1">
+                    <div className="text-xs text-muted-foreground">{label}</div>
+                    <div className="flex flex-wrap gap-1">
+                      {MERGE_FIELDS.filter((field) => field.group === group).map((field) => (
+                        <Badge
+                          key={field.key}
+                          variant="outline"
+                          className="cursor-pointer hover-elevate"
+                          title={`{{${field.key}}}`}
+                          onClick={() => insertField(field.key)}
+                          data-testid={`badge-field-${field.key}`}
+                        >
+                          {field.label}
+                        </Badge>
+                      ))}
+                    </div>
+                  </div>
+                ))}
+              </div>
+            </div>
+
+            <div className="space-y-4">
+              <div className="flex items-end gap-2">
+                <div className="flex-1 space-y-2">
+                  <Label>Preview with operation</Label>
+                  <Select value={previewOperationId} onValueChange={setPreviewOperationId}>
+                    <SelectTrigger data-testid="select-preview-operation">
+                      <SelectValue placeholder="Select operation" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {operations.map((operation) => (
+                        <SelectItem key={operation.id} value={operation.id}>
+                          {operation.name}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <Button
+                  variant="outline"
+                  onClick={() => previewMutation.mutate()}
+                  disabled={!previewOperationId || previewMutation.isPending}
+                  data-testid="button-preview-template"
+                >
+                  <Eye className="w-4 h-4 mr-2" />
+                  Preview
+                </Button>
+              </div>
+
+              {preview ? (
+                <div className="rounded-lg border">
+                  <div className="px-4 py-3 border-b bg-muted/30">
+                    <div className="text-xs text-muted-foreground">Subject</div>
+                    <div className="font-semibold" data-testid="text-preview-subject">{preview.subject || "-"}</div>
+                  </div>
+                  <pre className="p-4 text-sm whitespace-pre-wrap font-sans" data-testid="text-preview-body">
+                    {preview.body}
+                  </pre>
+                  {(preview.missingFields.length > 0 || preview.unknownFields.length > 0) && (
+                    <div className="px-4 py-3 border-t text-xs space-y-1 bg-yellow-50 dark:bg-yellow-900/20">
+                      {preview.missingFields.length > 0 && (
+                        <div className="flex items-start gap-2">
+                          <AlertTriangle className="w-3.5 h-3.5 mt-0.5 text-yellow-600" />
+                          <span>
+                            No data in this operation for:{" "}
+                            {preview.missingFields.map((key) => MERGE_FIELDS.find((f) => f.key === key)?.label || key).join(", ")}
+                          </span>
+                        </div>
+                      )}
+                      {preview.unknownFields.length > 0 && (
+                        <div className="flex items-start gap-2">
+                          <AlertTriangle className="w-3.5 h-3.5 mt-0.5 text-red-600" />
+                          <span>Unknown fields: {preview.unknownFields.map((key) => `{{${key}}}`).join(", ")}</span>
+                        </div>
+                      )}
+                    </div>
+                  )}
+                </div>
+              ) : (
+                <div className="rounded-lg border border-dashed p-8 text-center text-sm text-muted-foreground">
+                  Choose an operation to see how the template renders
+                </div>
+              )}
+            </div>
+          </div>
+
+          <DialogFooter>
+            <Button variant="outline" onClick={closeEditor}>
+              Cancel
+            </Button>
+            <Button onClick={() => saveMutation.mutate()} disabled={!canSave || saveMutation.isPending} data-testid="button-save-template">
+              {saveMutation.isPending ? "Saving..." : editingId ? "Update" : "Create"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <AlertDialog open={!!deletingTemplate} onOpenChange={(open) => !open && setDeletingTemplate(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>¿Eliminar plantilla?</AlertDialogTitle>
+            <AlertDialogDescription>
+              ¿Estás seguro de que deseas eliminar la plantilla <strong>{deletingTemplate?.name}</strong>?
+              Esta acción no se puede deshacer.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancelar</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => deletingTemplate && deleteMutation.mutate(deletingTemplate.id)}
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+            >
+              Eliminar
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
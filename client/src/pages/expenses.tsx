@@ -32,6 +32,7 @@ import {
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { insertExpenseSchema, type Expense, type Employee, type Operation } from "@shared/schema";
+import { CHARGE_CATEGORIES } from "@shared/charge-categories";
 import { useToast } from "@/hooks/use-toast";
 import { apiRequest, queryClient } from "@/lib/queryClient";
 import type { z } from "zod";
@@ -68,6 +69,7 @@ export default function ExpensesPage() {
       operationId: null,
       employeeId: "",
       category: "other",
+      chargeCategory: null,
       amount: "",
       description: "",
       date: new Date() as any,
@@ -282,6 +284,35 @@ export default function ExpensesPage() {
                     )}
                   />
                 </div>
+                <FormField
+                  control={form.control}
+                  name="chargeCategory"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Charge Type (P&L)</FormLabel>
+                      {/* Sin tipo asignado se clasifica por la descripción */}
+                      <Select
+                        onValueChange={(value) => field.onChange(value === "auto" ? null : value)}
+                        value={field.value || "auto"}
+                      >
+                        <FormControl>
+                          <SelectTrigger data-testid="select-charge-category">
+                            <SelectValue />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          <SelectItem value="auto">Auto-detect from description</SelectItem>
+                          {CHARGE_CATEGORIES.map((chargeCategory) => (
+                            <SelectItem key={chargeCategory.code} value={chargeCategory.code}>
+                              {chargeCategory.label}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
                 <div className="grid grid-cols-2 gap-4">
                   <FormField
                     control={form.control}
@@ -8,16 +8,21 @@ import { Badge } from "@/components/ui/badge";
 import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { ScrollArea } from "@/components/ui/scroll-area";
-import { Mail, Paperclip, RefreshCw, Trash2, Power } from "lucide-react";
+import { Mail, Paperclip, RefreshCw, Trash2, Power, MessagesSquare, AlertTriangle, Users } from "lucide-react";
 import { format } from "date-fns";
+import { EmailThreadDialog, type ThreadSummary } from "@/components/EmailThreadDialog";
+import { SpamFilterPanel } from "@/components/SpamFilterPanel";
+import { SharedInbox } from "@/components/SharedInbox";
+import { ImapAccountDialog } from "@/components/ImapAccountDialog";
 import type { GmailAccount, GmailMessage } from "@shared/schema";
 
 export default function GmailPage() {
   const { toast } = useToast();
   const [selectedAccount, setSelectedAccount] = useState<string | null>(null);
   const [syncRange, setSyncRange] = useState("1");
+  const [threadDialogId, setThreadDialogId] = useState<string | null>(null);
 
-  const { data: accounts = [], isLoading: accountsLoading } = useQuery<Omit<GmailAccount, 'accessToken' | 'refreshToken'>[]>({
+  const { data: accounts = [], isLoading: accountsLoading } = useQuery<Omit<GmailAccount, 'accessToken' | 'refreshToken' | 'mailPassword'>[]>({
     queryKey: ["/api/gmail/accounts"],
   });
 
@@ -46,6 +51,16 @@ export default function GmailPage() {
     },
   });
 
+  // Hilos cuyos mensajes quedaron vinculados a más de una operación
+  const { data: threadConflicts = [] } = useQuery<ThreadSummary[]>({
+    queryKey: ["/api/gmail/threads/conflicts"],
+  });
+
+  const threadSizes = messages.reduce<Record<string, number>>((sizes, message) => {
+    sizes[message.threadId] = (sizes[message.threadId] || 0) + 1;
+    return sizes;
+  }, {});
+
   const connectMutation = useMutation({
     mutationFn: async () => {
       const response = await fetch("/api/gmail/oauth/start");
@@ -88,6 +103,31 @@ export default function GmailPage() {
     },
   });
 
+  const toggleSharedMutation = useMutation({
+    mutationFn: async ({ accountId, isShared }: { accountId: string; isShared: boolean }) => {
+      await apiRequest("PATCH", `/api/gmail/accounts/${accountId}/shared`, { isShared });
+    },
+    onSuccess: (_, { isShared }) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/gmail/accounts"] });
+      queryClient.invalidateQueries({
+        predicate: (query) => String(query.queryKey[0]).startsWith("/api/shared-inbox"),
+      });
+      toast({
+        title: isShared ? "Cuenta compartida" : "Cuenta personal",
+        description: isShared
+          ? "Los hilos de esta cuenta aparecerán en la bandeja compartida del equipo."
+          : "Los hilos de esta cuenta ya no se comparten con el equipo.",
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error?.message || "No se pudo actualizar la cuenta",
+        variant: "destructive",
+      });
+    },
+  });
+
   const resyncMutation = useMutation({
     mutationFn: async (accountId: string) => {
       await apiRequest("POST", `/api/gmail/accounts/${accountId}/resync`);
@@ -119,48 +159,51 @@ export default function GmailPage() {
           <h1 className="text-3xl font-bold">Correos de Gmail</h1>
           <p className="text-muted-foreground">Gestiona tus cuentas de Gmail y visualiza tus correos</p>
         </div>
-        <Dialog>
-          <DialogTrigger asChild>
-            <Button data-testid="button-connect-gmail">
-              <Mail className="h-4 w-4 mr-2" />
-              Conectar Gmail
-            </Button>
-          </DialogTrigger>
-          <DialogContent>
-            <DialogHeader>
-              <DialogTitle>Conectar cuenta de Gmail</DialogTitle>
-              <DialogDescription>
-                Selecciona el rango de sincronización para tus correos
-              </DialogDescription>
-            </DialogHeader>
-            <div className="space-y-4 py-4">
-              <div className="space-y-2">
-                <label className="text-sm font-medium">Rango de sincronización</label>
-                <Select value={syncRange} onValueChange={setSyncRange}>
-                  <SelectTrigger data-testid="select-sync-range">
-                    <SelectValue />
-                  </SelectTrigger>
-                  <SelectContent>
-                    <SelectItem value="1">Último mes</SelectItem>
-                    <SelectItem value="2">Últimos 2 meses</SelectItem>
-                    <SelectItem value="3">Últimos 3 meses</SelectItem>
-                    <SelectItem value="6">Últimos 6 meses</SelectItem>
-                    <SelectItem value="12">Último año</SelectItem>
-                    <SelectItem value="24">Últimos 2 años</SelectItem>
-                  </SelectContent>
-                </Select>
-              </div>
-              <Button
-                onClick={() => connectMutation.mutate()}
-                disabled={connectMutation.isPending}
-                className="w-full"
-                data-testid="button-confirm-connect"
-              >
-                {connectMutation.isPending ? "Conectando..." : "Conectar cuenta"}
+        <div className="flex gap-2">
+          <ImapAccountDialog />
+          <Dialog>
+            <DialogTrigger asChild>
+              <Button data-testid="button-connect-gmail">
+                <Mail className="h-4 w-4 mr-2" />
+                Conectar Gmail
               </Button>
-            </div>
-          </DialogContent>
-        </Dialog>
+            </DialogTrigger>
+            <DialogContent>
+              <DialogHeader>
+                <DialogTitle>Conectar cuenta de Gmail</DialogTitle>
+                <DialogDescription>
+                  Selecciona el rango de sincronización para tus correos
+                </DialogDescription>
+              </DialogHeader>
+              <div className="space-y-4 py-4">
+                <div className="space-y-2">
+                  <label className="text-sm font-medium">Rango de sincronización</label>
+                  <Select value={syncRange} onValueChange={setSyncRange}>
+                    <SelectTrigger data-testid="select-sync-range">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="1">Último mes</SelectItem>
+                      <SelectItem value="2">Últimos 2 meses</SelectItem>
+                      <SelectItem value="3">Últimos 3 meses</SelectItem>
+                      <SelectItem value="6">Últimos 6 meses</SelectItem>
+                      <SelectItem value="12">Último año</SelectItem>
+                      <SelectItem value="24">Últimos 2 años</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+                <Button
+                  onClick={() => connectMutation.mutate()}
+                  disabled={connectMutation.isPending}
+                  className="w-full"
+                  data-testid="button-confirm-connect"
+                >
+                  {connectMutation.isPending ? "Conectando..." : "Conectar cuenta"}
+                </Button>
+              </div>
+            </DialogContent>
+          </Dialog>
+        </div>
       </div>
 
       <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
@@ -196,6 +239,8 @@ export default function GmailPage() {
                               <Badge variant={account.syncEnabled ? "default" : "secondary"}>
                                 {account.syncEnabled ? "Activa" : "Pausada"}
                               </Badge>
+                              {account.provider === 'imap' && <Badge variant="outline">IMAP</Badge>}
+                              {account.isShared && <Badge variant="outline">Compartida</Badge>}
                               <Badge variant={
                                 account.syncStatus === 'completed' ? 'default' :
                                 account.syncStatus === 'syncing' ? 'secondary' :
@@ -225,6 +270,19 @@ export default function GmailPage() {
                           >
                             <Power className="h-3 w-3" />
                           </Button>
+                          <Button
+                            size="sm"
+                            variant={account.isShared ? "default" : "outline"}
+                            title={account.isShared ? "Dejar de compartir con el equipo" : "Compartir con el equipo"}
+                            onClick={(e) => {
+                              e.stopPropagation();
+                              toggleSharedMutation.mutate({ accountId: account.id, isShared: !account.isShared });
+                            }}
+                            disabled={toggleSharedMutation.isPending}
+                            data-testid={`button-toggle-shared-${account.id}`}
+                          >
+                            <Users className="h-3 w-3" />
+                          </Button>
                           <Button
                             size="sm"
                             variant="outline"
@@ -312,8 +370,21 @@ export default function GmailPage() {
                               </p>
                             )}
                           </div>
-                          <div className="text-xs text-muted-foreground whitespace-nowrap">
-                            {format(new Date(message.date), "dd/MM/yy")}
+                          <div className="flex flex-col items-end gap-1">
+                            <div className="text-xs text-muted-foreground whitespace-nowrap">
+                              {format(new Date(message.date), "dd/MM/yy")}
+                            </div>
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              className="h-6 px-2 text-xs"
+                              onClick={() => setThreadDialogId(message.threadId)}
+                              data-testid={`button-view-thread-${message.id}`}
+                            >
+                              <MessagesSquare className="h-3 w-3 mr-1" />
+                              Ver hilo
+                              {threadSizes[message.threadId] > 1 && ` (${threadSizes[message.threadId]})`}
+                            </Button>
                           </div>
                         </div>
                       </CardContent>
@@ -326,7 +397,59 @@ export default function GmailPage() {
         </Card>
       </div>
 
-      
+      <SharedInbox onOpenThread={setThreadDialogId} />
+
+      <SpamFilterPanel accounts={accounts} selectedAccountId={selectedAccount} />
+
+      {threadConflicts.length > 0 && (
+        <Card data-testid="card-thread-conflicts">
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <AlertTriangle className="h-5 w-5 text-destructive" />
+              Conflictos de hilos
+            </CardTitle>
+            <CardDescription>
+              Hilos cuyos mensajes están vinculados a más de una operación. Vincula el hilo completo o divídelo.
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <div className="space-y-2">
+              {threadConflicts.map((thread) => (
+                <div
+                  key={thread.threadId}
+                  className="flex items-center justify-between gap-4 rounded-md border p-3"
+                  data-testid={`thread-conflict-${thread.threadId}`}
+                >
+                  <div className="min-w-0 space-y-1">
+                    <p className="font-medium text-sm truncate">{thread.subject || "(Sin asunto)"}</p>
+                    <div className="flex flex-wrap gap-1">
+                      {thread.operations.map((operation) => (
+                        <Badge key={operation.id} variant="outline">
+                          {operation.name} ({operation.messageCount})
+                        </Badge>
+                      ))}
+                    </div>
+                  </div>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => setThreadDialogId(thread.threadId)}
+                    data-testid={`button-resolve-thread-${thread.threadId}`}
+                  >
+                    Resolver
+                  </Button>
+                </div>
+              ))}
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
+      <EmailThreadDialog
+        threadId={threadDialogId}
+        open={threadDialogId !== null}
+        onOpenChange={(open) => !open && setThreadDialogId(null)}
+      />
     </div>
   );
 }
@@ -1,9 +1,11 @@
 import { useState, useEffect } from "react";
 import { useQuery, useMutation } from "@tanstack/react-query";
 import { useLocation } from "wouter";
-import { Plus, Trash2, Eye, X, Minus, FileText, CheckCircle2 } from "lucide-react";
+import { Plus, Trash2, Eye, X, Minus, FileText, CheckCircle2, RefreshCw, Ban, ReceiptText } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { DataTable } from "@/components/data-table";
+import { ReceivablesAging } from "@/components/ReceivablesAging";
+import { CreditNoteDialog } from "@/components/CreditNoteDialog";
 import { Badge } from "@/components/ui/badge";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Separator } from "@/components/ui/separator";
@@ -36,7 +38,7 @@ import {
 import { Checkbox } from "@/components/ui/checkbox";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
-import { insertInvoiceSchema, insertPaymentSchema, type Invoice, type InvoiceItem, type Payment, type Client, type Employee } from "@shared/schema";
+import { insertInvoiceSchema, insertPaymentSchema, type Invoice, type InvoiceItem, type Payment, type PaymentComplement, type Client, type Employee } from "@shared/schema";
 import { useToast } from "@/hooks/use-toast";
 import { apiRequest, queryClient } from "@/lib/queryClient";
 import type { z } from "zod";
@@ -50,16 +52,45 @@ import {
   SAT_TAX_REGIMES,
   SAT_EXPORT_TYPES,
 } from "@shared/sat-catalogs";
+import { CHARGE_CATEGORIES, classifyCharge, getChargeCategoryLabel } from "@shared/charge-categories";
 import { SATCombobox } from "@/components/ui/sat-combobox";
 
 const statusColors = {
   draft: "bg-gray-100 text-gray-800 dark:bg-gray-900/30 dark:text-gray-300",
   sent: "bg-blue-100 text-blue-800 dark:bg-blue-900/30 dark:text-blue-300",
+  partially_paid: "bg-amber-100 text-amber-800 dark:bg-amber-900/30 dark:text-amber-300",
   paid: "bg-green-100 text-green-800 dark:bg-green-900/30 dark:text-green-300",
   overdue: "bg-red-100 text-red-800 dark:bg-red-900/30 dark:text-red-300",
   cancelled: "bg-gray-100 text-gray-800 dark:bg-gray-900/30 dark:text-gray-300",
+  applied: "bg-purple-100 text-purple-800 dark:bg-purple-900/30 dark:text-purple-300",
 };
 
+// Catálogo c_MotivoCancelacion del SAT
+const CANCELLATION_MOTIVES = [
+  { value: "01", label: "01 - Comprobante emitido con errores con relación" },
+  { value: "02", label: "02 - Comprobante emitido con errores sin relación" },
+  { value: "03", label: "03 - No se llevó a cabo la operación" },
+  { value: "04", label: "04 - Operación nominativa relacionada en una factura global" },
+];
+
+const cancellationStatusLabels: Record<string, string> = {
+  pending_substitute: "Esperando factura sustituta",
+  requested: "Cancelación solicitada",
+  accepted: "Cancelación aceptada",
+  rejected: "Cancelación rechazada por el receptor",
+};
+
+// Facturas PPD timbradas: cada pago lleva Complemento de Pago (CFDI tipo P)
+const requiresPaymentComplement = (invoice: Invoice) =>
+  invoice.metodoPago === "PPD" && !!invoice.folioFiscal && (invoice.tipoComprobante || "I") === "I" && invoice.status !== "cancelled";
+
+const isCreditNote = (invoice: Invoice) => invoice.tipoComprobante === "E";
+
+// Saldo pendiente: amountPaid y amountCredited los calcula el servidor a partir de pagos y notas de crédito
+const getBalanceDue = (invoice: Invoice) => isCreditNote(invoice)
+  ? 0
+  : Math.max(parseFloat(invoice.total) - parseFloat(invoice.amountPaid || "0") - parseFloat(invoice.amountCredited || "0"), 0);
+
 type InvoiceFormData = z.infer<typeof insertInvoiceSchema>;
 type PaymentFormData = z.infer<typeof insertPaymentSchema>;
 
@@ -76,6 +107,9 @@ interface InvoiceLineItem {
   satTaxObject: string;
   identification: string;
   
+  // Tipo de cargo para el P&L de la operación ("" = inferir de la descripción)
+  chargeCategory: string;
+  
   // IVA configurable
   applyTax: boolean;
   taxRate: string;
@@ -88,6 +122,13 @@ export default function InvoicesPage() {
   const [selectedInvoice, setSelectedInvoice] = useState<Invoice | null>(null);
   const [isPaymentDialogOpen, setIsPaymentDialogOpen] = useState(false);
   const [editingPayment, setEditingPayment] = useState<Payment | null>(null);
+  const [creditOverpayment, setCreditOverpayment] = useState(false);
+  const [complementExchangeRate, setComplementExchangeRate] = useState("");
+  const [complementPayment, setComplementPayment] = useState<Payment | null>(null);
+  const [isCancelDialogOpen, setIsCancelDialogOpen] = useState(false);
+  const [cancellationMotive, setCancellationMotive] = useState("02");
+  const [replacementInvoiceNumber, setReplacementInvoiceNumber] = useState("");
+  const [isCreditNoteDialogOpen, setIsCreditNoteDialogOpen] = useState(false);
   const [lineItems, setLineItems] = useState<InvoiceLineItem[]>([
     { 
       tempId: '1', 
@@ -99,6 +140,7 @@ export default function InvoicesPage() {
       satUnitCode: 'E48',
       satTaxObject: '01',
       identification: '',
+      chargeCategory: '',
       applyTax: false,
       taxRate: '0.16',
       taxAmount: '0'
@@ -114,6 +156,19 @@ export default function InvoicesPage() {
     queryKey: ["/api/clients"],
   });
 
+  // Mantener la factura seleccionada al día (estado y saldo cambian al registrar pagos)
+  useEffect(() => {
+    if (!selectedInvoice) return;
+    const refreshed = invoices.find((invoice) => invoice.id === selectedInvoice.id);
+    if (refreshed && refreshed !== selectedInvoice) {
+      setSelectedInvoice(refreshed);
+    }
+  }, [invoices]);
+
+  const selectedCreditNotes = selectedInvoice
+    ? invoices.filter((invoice) => isCreditNote(invoice) && invoice.relatedInvoiceId === selectedInvoice.id)
+    : [];
+
   const { data: employees = [] } = useQuery<Employee[]>({
     queryKey: ["/api/employees"],
   });
@@ -128,6 +183,11 @@ export default function InvoicesPage() {
     enabled: !!selectedInvoice,
   });
 
+  const { data: paymentComplements = [] } = useQuery<PaymentComplement[]>({
+    queryKey: ["/api/invoices", selectedInvoice?.id, "payment-complements"],
+    enabled: !!selectedInvoice && requiresPaymentComplement(selectedInvoice),
+  });
+
   const form = useForm<InvoiceFormData>({
     resolver: zodResolver(insertInvoiceSchema),
     defaultValues: {
@@ -209,6 +269,7 @@ export default function InvoicesPage() {
       satUnitCode: 'E48',
       satTaxObject: '01',
       identification: '',
+      chargeCategory: '',
       applyTax: false,
       taxRate: '0.16',
       taxAmount: '0'
@@ -275,6 +336,7 @@ export default function InvoicesPage() {
             satUnitCode: item.satUnitCode,
             satTaxObject: item.satTaxObject,
             identification: item.identification || null,
+            chargeCategory: item.chargeCategory || null,
             taxRate: item.applyTax ? item.taxRate : null,
             taxAmount: item.applyTax ? item.taxAmount : null,
           });
@@ -297,6 +359,7 @@ export default function InvoicesPage() {
         satUnitCode: 'E48',
         satTaxObject: '01',
         identification: '',
+        chargeCategory: '',
         applyTax: false,
         taxRate: '0.16',
         taxAmount: '0'
@@ -336,17 +399,62 @@ export default function InvoicesPage() {
         ...data,
         paymentDate: new Date(data.paymentDate),
       };
-      return apiRequest("POST", `/api/invoices/${selectedInvoice?.id}/payments`, formattedData);
+      return apiRequest("POST", `/api/invoices/${selectedInvoice?.id}/payments`, {
+        ...formattedData,
+        overpaymentHandling: creditOverpayment ? "credit" : "reject",
+        complementExchangeRate: complementExchangeRate || undefined,
+      }).then((res) => res.json());
     },
-    onSuccess: () => {
+    onSuccess: (result: Payment & { clientCredit?: { amount: string; currency: string } }) => {
       queryClient.invalidateQueries({ queryKey: ["/api/invoices", selectedInvoice?.id, "payments"] });
       queryClient.invalidateQueries({ queryKey: ["/api/invoices"] });
       setIsPaymentDialogOpen(false);
       paymentForm.reset();
-      toast({ title: "Pago agregado exitosamente" });
+      toast({
+        title: "Pago agregado exitosamente",
+        description: result.clientCredit
+          ? `El excedente de ${result.clientCredit.currency} ${parseFloat(result.clientCredit.amount).toFixed(2)} quedó como saldo a favor del cliente`
+          : undefined,
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error al agregar pago",
+        description: error?.message || "No se pudo registrar el pago",
+        variant: "destructive",
+      });
     },
   });
 
+  const stampComplementMutation = useMutation({
+    mutationFn: ({ paymentId, exchangeRate }: { paymentId: string; exchangeRate?: string }) =>
+      apiRequest("POST", `/api/payments/${paymentId}/payment-complement`, { exchangeRate }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/invoices", selectedInvoice?.id, "payment-complements"] });
+      setComplementPayment(null);
+      toast({ title: "Complemento de pago timbrado exitosamente" });
+    },
+    onError: (error: any) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/invoices", selectedInvoice?.id, "payment-complements"] });
+      toast({
+        title: "Error al timbrar complemento de pago",
+        description: error?.message || "Verifica los datos fiscales de la factura",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleStampComplement = (payment: Payment) => {
+    // Los pagos en moneda extranjera requieren tipo de cambio (TipoCambioP)
+    const complement = paymentComplements.find((c) => c.paymentId === payment.id);
+    if (payment.currency !== "MXN" && !complement?.exchangeRate) {
+      setComplementExchangeRate("");
+      setComplementPayment(payment);
+      return;
+    }
+    stampComplementMutation.mutate({ paymentId: payment.id });
+  };
+
   const deletePaymentMutation = useMutation({
     mutationFn: (id: string) => apiRequest("DELETE", `/api/payments/${id}`, undefined),
     onSuccess: () => {
@@ -354,8 +462,79 @@ export default function InvoicesPage() {
       queryClient.invalidateQueries({ queryKey: ["/api/invoices"] });
       toast({ title: "Pago eliminado exitosamente" });
     },
+    onError: (error: any) => {
+      toast({
+        title: "Error al eliminar pago",
+        description: error?.message || "No se pudo eliminar el pago",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const cancelInvoiceMutation = useMutation({
+    mutationFn: ({ invoiceId, motive, replacementInvoiceNumber }: { invoiceId: string; motive: string; replacementInvoiceNumber?: string }) =>
+      apiRequest("POST", `/api/invoices/${invoiceId}/cancel`, { motive, replacementInvoiceNumber }).then((res) => res.json()),
+    onSuccess: (result: { invoice: Invoice; replacement?: Invoice }) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/invoices"] });
+      setIsCancelDialogOpen(false);
+      if (result.replacement) {
+        toast({
+          title: "Factura sustituta creada",
+          description: `Revisa y timbra el borrador ${result.replacement.invoiceNumber}; al timbrarlo se cancelará la factura original`,
+        });
+        setSelectedInvoice(result.replacement);
+      } else {
+        toast({
+          title: cancellationStatusLabels[result.invoice.cancellationStatus || ""] || "Cancelación enviada",
+        });
+      }
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error al cancelar factura",
+        description: error?.message || "No se pudo cancelar en Facturama",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const refreshCancellationMutation = useMutation({
+    mutationFn: (invoiceId: string) =>
+      apiRequest("POST", `/api/invoices/${invoiceId}/cancellation/refresh`, {}).then((res) => res.json()),
+    onSuccess: (invoice: Invoice) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/invoices"] });
+      toast({ title: cancellationStatusLabels[invoice.cancellationStatus || ""] || "Estatus actualizado" });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error al consultar cancelación",
+        description: error?.message || "No se pudo consultar el estatus en Facturama",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const withdrawCancellationMutation = useMutation({
+    mutationFn: (invoiceId: string) => apiRequest("POST", `/api/invoices/${invoiceId}/cancellation/withdraw`, {}),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/invoices"] });
+      toast({ title: "Cancelación retirada" });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error al retirar cancelación",
+        description: error?.message || "No se pudo retirar la cancelación",
+        variant: "destructive",
+      });
+    },
   });
 
+  const handleOpenCancelDialog = () => {
+    setCancellationMotive("02");
+    setReplacementInvoiceNumber("");
+    setIsCancelDialogOpen(true);
+  };
+
   const stampMutation = useMutation({
     mutationFn: (invoiceId: string) => apiRequest("POST", `/api/invoices/${invoiceId}/stamp`, {}),
     onSuccess: () => {
@@ -392,9 +571,11 @@ export default function InvoicesPage() {
 
   const handleAddPayment = () => {
     setEditingPayment(null);
+    setCreditOverpayment(false);
+    setComplementExchangeRate("");
     paymentForm.reset({
       invoiceId: selectedInvoice!.id,
-      amount: "0",
+      amount: getBalanceDue(selectedInvoice!).toFixed(2),
       paymentDate: new Date() as any,
       paymentMethod: "transfer",
       reference: "",
@@ -403,12 +584,55 @@ export default function InvoicesPage() {
     setIsPaymentDialogOpen(true);
   };
 
+  const renderComplementCell = (payment: Payment) => {
+    const complement = paymentComplements.find((c) => c.paymentId === payment.id);
+
+    if (complement?.stampStatus === "stamped") {
+      return (
+        <div className="space-y-1" data-testid={`complement-${payment.id}`}>
+          <Badge variant="outline" className="bg-emerald-50 dark:bg-emerald-900/20 text-emerald-700 dark:text-emerald-300">
+            Parcialidad {complement.installmentNumber} · Saldo {selectedInvoice?.currency} {parseFloat(complement.outstandingBalance).toFixed(2)}
+          </Badge>
+          <div className="flex gap-2 text-xs">
+            <a href={`/api/payment-complements/${complement.id}/download/xml`} className="text-primary hover:underline">XML</a>
+            <a href={`/api/payment-complements/${complement.id}/download/pdf`} className="text-primary hover:underline">PDF</a>
+          </div>
+        </div>
+      );
+    }
+
+    return (
+      <div className="flex items-center gap-2" data-testid={`complement-${payment.id}`}>
+        {complement?.stampStatus === "stamp_failed" ? (
+          <Badge variant="destructive" title={complement.stampError || undefined}>Error</Badge>
+        ) : (
+          <Badge variant="secondary">Pendiente</Badge>
+        )}
+        <Button
+          variant="ghost"
+          size="icon"
+          title="Timbrar complemento de pago"
+          onClick={() => handleStampComplement(payment)}
+          disabled={stampComplementMutation.isPending}
+          data-testid={`button-stamp-complement-${payment.id}`}
+        >
+          <RefreshCw className="w-4 h-4" />
+        </Button>
+      </div>
+    );
+  };
+
   const columns = [
     {
       header: "Factura #",
       accessor: (row: Invoice) => (
         <div className="flex items-center gap-1.5 flex-wrap">
           <div className="font-medium">{row.invoiceNumber}</div>
+          {isCreditNote(row) && (
+            <Badge variant="outline" className="text-[10px] px-1.5 py-0 h-4 bg-purple-50 dark:bg-purple-900/20 text-purple-700 dark:text-purple-300 border-purple-200 dark:border-purple-800">
+              Nota de crédito
+            </Badge>
+          )}
           {row.folioFiscal && (
             <Badge variant="outline" className="text-[10px] px-1.5 py-0 h-4 bg-emerald-50 dark:bg-emerald-900/20 text-emerald-700 dark:text-emerald-300 border-emerald-200 dark:border-emerald-800">
               <CheckCircle2 className="w-2.5 h-2.5 mr-0.5" />
@@ -440,6 +664,18 @@ export default function InvoicesPage() {
       header: "Total",
       accessor: (row: Invoice) => `${row.currency} ${parseFloat(row.total).toFixed(2)}`,
     },
+    {
+      header: "Saldo",
+      accessor: (row: Invoice) => {
+        if (isCreditNote(row)) return <span className="text-muted-foreground">-</span>;
+        const balanceDue = getBalanceDue(row);
+        return (
+          <span className={balanceDue > 0 && row.status !== "draft" && row.status !== "cancelled" ? "font-medium" : "text-muted-foreground"} data-testid={`balance-${row.id}`}>
+            {row.currency} {balanceDue.toFixed(2)}
+          </span>
+        );
+      },
+    },
     {
       header: "Estado",
       accessor: (row: Invoice) => (
@@ -669,6 +905,32 @@ export default function InvoicesPage() {
                       )}
                     />
                   </div>
+
+                  {form.watch("currency") && form.watch("currency") !== "MXN" && (
+                    <div className="grid grid-cols-4 gap-4">
+                      <FormField
+                        control={form.control}
+                        name="exchangeRate"
+                        render={({ field }) => (
+                          <FormItem>
+                            <FormLabel>Tipo de Cambio (MXN)</FormLabel>
+                            <FormControl>
+                              <Input
+                                type="number"
+                                step="0.000001"
+                                placeholder="Vigente al timbrar"
+                                {...field}
+                                value={field.value || ""}
+                                onChange={(e) => field.onChange(e.target.value || null)}
+                                data-testid="input-exchange-rate"
+                              />
+                            </FormControl>
+                            <FormDescription className="text-xs">TipoCambio del CFDI</FormDescription>
+                          </FormItem>
+                        )}
+                      />
+                    </div>
+                  )}
                 </div>
 
                 <Separator />
@@ -836,6 +1098,7 @@ export default function InvoicesPage() {
                       <thead className="bg-muted">
                         <tr>
                           <th className="text-left p-2 font-medium">Descripción</th>
+                          <th className="text-left p-2 font-medium w-36">Tipo de cargo</th>
                           <th className="text-left p-2 font-medium w-32">Código SAT</th>
                           <th className="text-left p-2 font-medium w-24">Unidad</th>
                           <th className="text-right p-2 font-medium w-20">Cant.</th>
@@ -860,6 +1123,24 @@ export default function InvoicesPage() {
                                 data-testid={`input-item-description-${index}`}
                               />
                             </td>
+                            <td className="p-1">
+                              <Select
+                                value={item.chargeCategory || "auto"}
+                                onValueChange={(val) => updateLineItem(item.tempId, 'chargeCategory', val === "auto" ? '' : val)}
+                              >
+                                <SelectTrigger className="w-36 h-8 text-sm" data-testid={`select-item-charge-category-${index}`}>
+                                  <SelectValue />
+                                </SelectTrigger>
+                                <SelectContent>
+                                  <SelectItem value="auto">Automático</SelectItem>
+                                  {CHARGE_CATEGORIES.map((category) => (
+                                    <SelectItem key={category.code} value={category.code}>
+                                      {category.label}
+                                    </SelectItem>
+                                  ))}
+                                </SelectContent>
+                              </Select>
+                            </td>
                             <td className="p-1">
                               <div className="w-32">
                                 <SATCombobox
@@ -1013,6 +1294,8 @@ export default function InvoicesPage() {
         </Dialog>
       </div>
 
+      <ReceivablesAging />
+
       <DataTable
         data={invoices}
         columns={columns}
@@ -1041,6 +1324,9 @@ export default function InvoicesPage() {
                   {selectedInvoice?.folioFiscal && (
                     <div className="text-xs mt-1">Folio Fiscal: {selectedInvoice.folioFiscal}</div>
                   )}
+                  {selectedInvoice?.exchangeRate && (
+                    <div className="text-xs mt-1">Tipo de cambio: {parseFloat(selectedInvoice.exchangeRate).toFixed(4)} MXN/{selectedInvoice.currency}</div>
+                  )}
                 </DialogDescription>
               </div>
               <Button variant="ghost" size="icon" onClick={() => setSelectedInvoice(null)}>
@@ -1051,6 +1337,78 @@ export default function InvoicesPage() {
 
           {selectedInvoice && (
             <div className="space-y-6">
+              {selectedInvoice.replacesInvoiceId && !selectedInvoice.folioFiscal && (
+                <div className="rounded-md border border-amber-200 bg-amber-50 dark:bg-amber-900/20 p-3 text-sm" data-testid="text-replacement-notice">
+                  Esta factura sustituye a la factura #{invoices.find((inv) => inv.id === selectedInvoice.replacesInvoiceId)?.invoiceNumber}.
+                  Al timbrarla se solicitará la cancelación de la original con motivo 01.
+                </div>
+              )}
+
+              {isCreditNote(selectedInvoice) && selectedInvoice.relatedInvoiceId && (
+                <div className="rounded-md border border-purple-200 bg-purple-50 dark:bg-purple-900/20 p-3 text-sm" data-testid="text-credit-note-notice">
+                  Nota de crédito sobre la factura #{invoices.find((inv) => inv.id === selectedInvoice.relatedInvoiceId)?.invoiceNumber}.
+                  {!selectedInvoice.folioFiscal && " Al timbrarla se relaciona con tipo 01 y reduce el saldo de la factura original."}
+                </div>
+              )}
+
+              {selectedInvoice.cancellationStatus && (
+                <div className="flex items-center justify-between gap-4 rounded-md border p-3" data-testid="section-cancellation">
+                  <div className="space-y-1 text-sm">
+                    <div className="flex items-center gap-2">
+                      <Badge variant={selectedInvoice.cancellationStatus === "rejected" ? "destructive" : "outline"}>
+                        {cancellationStatusLabels[selectedInvoice.cancellationStatus] || selectedInvoice.cancellationStatus}
+                      </Badge>
+                      {selectedInvoice.cancellationMotive && (
+                        <span className="text-muted-foreground">Motivo {selectedInvoice.cancellationMotive}</span>
+                      )}
+                    </div>
+                    {selectedInvoice.cancellationError && (
+                      <div className="text-destructive">{selectedInvoice.cancellationError}</div>
+                    )}
+                    {selectedInvoice.cancellationAcuseB2Key && (
+                      <a href={`/api/invoices/${selectedInvoice.id}/cancellation/acuse`} className="text-primary hover:underline">
+                        Descargar acuse de cancelación
+                      </a>
+                    )}
+                  </div>
+                  <div className="flex gap-2">
+                    {selectedInvoice.cancellationStatus === "pending_substitute" && (
+                      <>
+                        {invoices.find((inv) => inv.replacesInvoiceId === selectedInvoice.id) && (
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            onClick={() => setSelectedInvoice(invoices.find((inv) => inv.replacesInvoiceId === selectedInvoice.id)!)}
+                          >
+                            Ver sustituta
+                          </Button>
+                        )}
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => withdrawCancellationMutation.mutate(selectedInvoice.id)}
+                          disabled={withdrawCancellationMutation.isPending}
+                        >
+                          Retirar
+                        </Button>
+                      </>
+                    )}
+                    {selectedInvoice.cancellationStatus === "requested" && (
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => refreshCancellationMutation.mutate(selectedInvoice.id)}
+                        disabled={refreshCancellationMutation.isPending}
+                        data-testid="button-refresh-cancellation"
+                      >
+                        <RefreshCw className="w-4 h-4 mr-1" />
+                        Consultar estatus
+                      </Button>
+                    )}
+                  </div>
+                </div>
+              )}
+
               <div className="grid grid-cols-3 gap-4">
                 <Card>
                   <CardHeader className="pb-3">
@@ -1100,7 +1458,7 @@ export default function InvoicesPage() {
                           <td className="p-3">
                             <div>{item.description}</div>
                             <div className="text-xs text-muted-foreground">
-                              SAT: {item.satProductCode} | {item.satUnitCode} | Obj: {item.satTaxObject}
+                              SAT: {item.satProductCode} | {item.satUnitCode} | Obj: {item.satTaxObject} | {getChargeCategoryLabel(classifyCharge(item.description, item.chargeCategory))}
                             </div>
                           </td>
                           <td className="p-3 text-right">{parseFloat(item.quantity).toFixed(2)}</td>
@@ -1127,7 +1485,16 @@ export default function InvoicesPage() {
 
               <div>
                 <div className="flex items-center justify-between mb-3">
-                  <h3 className="text-lg font-semibold">Pagos</h3>
+                  <div>
+                    <h3 className="text-lg font-semibold">Pagos</h3>
+                    <p className="text-sm text-muted-foreground" data-testid="text-invoice-balance">
+                      Pagado: {selectedInvoice.currency} {parseFloat(selectedInvoice.amountPaid).toFixed(2)}
+                      {parseFloat(selectedInvoice.amountCredited || "0") > 0 && (
+                        <> · Notas de crédito: {selectedInvoice.currency} {parseFloat(selectedInvoice.amountCredited).toFixed(2)}</>
+                      )}
+                      {" "}· Saldo pendiente: {selectedInvoice.currency} {getBalanceDue(selectedInvoice).toFixed(2)}
+                    </p>
+                  </div>
                   <Button size="sm" onClick={handleAddPayment}>
                     <Plus className="w-4 h-4 mr-1" />
                     Agregar Pago
@@ -1142,6 +1509,9 @@ export default function InvoicesPage() {
                           <th className="text-left p-3 font-medium text-sm">Método</th>
                           <th className="text-right p-3 font-medium text-sm">Monto</th>
                           <th className="text-left p-3 font-medium text-sm">Referencia</th>
+                          {requiresPaymentComplement(selectedInvoice) && (
+                            <th className="text-left p-3 font-medium text-sm">Complemento</th>
+                          )}
                           <th className="w-12"></th>
                         </tr>
                       </thead>
@@ -1152,6 +1522,11 @@ export default function InvoicesPage() {
                             <td className="p-3">{payment.paymentMethod}</td>
                             <td className="p-3 text-right font-medium">{selectedInvoice.currency} {parseFloat(payment.amount).toFixed(2)}</td>
                             <td className="p-3">{payment.reference || "-"}</td>
+                            {requiresPaymentComplement(selectedInvoice) && (
+                              <td className="p-3">
+                                {renderComplementCell(payment)}
+                              </td>
+                            )}
                             <td className="p-3">
                               <Button
                                 variant="ghost"
@@ -1171,6 +1546,44 @@ export default function InvoicesPage() {
                 )}
               </div>
 
+              {selectedCreditNotes.length > 0 && (
+                <div data-testid="section-credit-notes">
+                  <h3 className="text-lg font-semibold mb-3">Notas de Crédito</h3>
+                  <div className="border rounded-md overflow-hidden">
+                    <table className="w-full">
+                      <thead className="bg-muted">
+                        <tr>
+                          <th className="text-left p-3 font-medium text-sm">Nota #</th>
+                          <th className="text-left p-3 font-medium text-sm">Fecha</th>
+                          <th className="text-right p-3 font-medium text-sm">Total</th>
+                          <th className="text-left p-3 font-medium text-sm">Estado</th>
+                          <th className="w-12"></th>
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {selectedCreditNotes.map((note) => (
+                          <tr key={note.id} className="border-t">
+                            <td className="p-3 font-medium">{note.invoiceNumber}</td>
+                            <td className="p-3">{new Date(note.createdAt).toLocaleDateString('es-MX')}</td>
+                            <td className="p-3 text-right">{note.currency} {parseFloat(note.total).toFixed(2)}</td>
+                            <td className="p-3">
+                              <Badge className={statusColors[note.status as keyof typeof statusColors]}>
+                                {note.folioFiscal ? note.status : "borrador"}
+                              </Badge>
+                            </td>
+                            <td className="p-3">
+                              <Button variant="ghost" size="icon" onClick={() => setSelectedInvoice(note)}>
+                                <Eye className="w-4 h-4" />
+                              </Button>
+                            </td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  </div>
+                </div>
+              )}
+
               {!selectedInvoice.folioFiscal && (
                 <div className="flex justify-end pt-4 border-t">
                   <Button 
@@ -1182,11 +1595,35 @@ export default function InvoicesPage() {
                   </Button>
                 </div>
               )}
+
+              {selectedInvoice.folioFiscal && selectedInvoice.status !== "cancelled" &&
+                (!selectedInvoice.cancellationStatus || selectedInvoice.cancellationStatus === "rejected") && (
+                <div className="flex justify-end gap-2 pt-4 border-t">
+                  {!isCreditNote(selectedInvoice) && getBalanceDue(selectedInvoice) > 0 && (
+                    <Button variant="outline" onClick={() => setIsCreditNoteDialogOpen(true)} data-testid="button-open-credit-note">
+                      <ReceiptText className="w-4 h-4 mr-2" />
+                      Nota de crédito
+                    </Button>
+                  )}
+                  <Button variant="outline" onClick={handleOpenCancelDialog} data-testid="button-cancel-invoice">
+                    <Ban className="w-4 h-4 mr-2" />
+                    Cancelar factura
+                  </Button>
+                </div>
+              )}
             </div>
           )}
         </DialogContent>
       </Dialog>
 
+      {selectedInvoice && (
+        <CreditNoteDialog
+          invoice={selectedInvoice}
+          open={isCreditNoteDialogOpen}
+          onOpenChange={setIsCreditNoteDialogOpen}
+        />
+      )}
+
       {/* Dialog para agregar pago */}
       <Dialog open={isPaymentDialogOpen} onOpenChange={setIsPaymentDialogOpen}>
         <DialogContent>
@@ -1204,6 +1641,11 @@ export default function InvoicesPage() {
                     <FormControl>
                       <Input type="number" step="0.01" {...field} />
                     </FormControl>
+                    {selectedInvoice && (
+                      <FormDescription>
+                        Saldo pendiente: {selectedInvoice.currency} {getBalanceDue(selectedInvoice).toFixed(2)}
+                      </FormDescription>
+                    )}
                     <FormMessage />
                   </FormItem>
                 )}
@@ -1261,6 +1703,32 @@ export default function InvoicesPage() {
                   </FormItem>
                 )}
               />
+              {selectedInvoice && requiresPaymentComplement(selectedInvoice) && selectedInvoice.currency !== "MXN" && (
+                <div className="space-y-2">
+                  <label htmlFor="complement-exchange-rate" className="text-sm font-medium">
+                    Tipo de cambio {selectedInvoice.currency}/MXN (complemento de pago)
+                  </label>
+                  <Input
+                    id="complement-exchange-rate"
+                    type="number"
+                    step="0.000001"
+                    value={complementExchangeRate}
+                    onChange={(e) => setComplementExchangeRate(e.target.value)}
+                    data-testid="input-complement-exchange-rate"
+                  />
+                </div>
+              )}
+              <div className="flex items-start gap-2">
+                <Checkbox
+                  id="credit-overpayment"
+                  checked={creditOverpayment}
+                  onCheckedChange={(checked) => setCreditOverpayment(checked === true)}
+                  data-testid="checkbox-credit-overpayment"
+                />
+                <label htmlFor="credit-overpayment" className="text-sm leading-tight">
+                  Si el pago excede el saldo, registrar el excedente como saldo a favor del cliente
+                </label>
+              </div>
               <div className="flex justify-end gap-2">
                 <Button type="button" variant="outline" onClick={() => setIsPaymentDialogOpen(false)}>
                   Cancelar
@@ -1273,6 +1741,96 @@ export default function InvoicesPage() {
           </Form>
         </DialogContent>
       </Dialog>
+
+      {/* Dialog para cancelar factura ante el SAT */}
+      <Dialog open={isCancelDialogOpen} onOpenChange={setIsCancelDialogOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Cancelar Factura #{selectedInvoice?.invoiceNumber}</DialogTitle>
+            <DialogDescription>
+              La cancelación se envía al SAT a través de Facturama. Si el receptor debe aceptarla, quedará como solicitada.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <label className="text-sm font-medium">Motivo de cancelación</label>
+              <Select value={cancellationMotive} onValueChange={setCancellationMotive}>
+                <SelectTrigger data-testid="select-cancellation-motive">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {CANCELLATION_MOTIVES.map((motive) => (
+                    <SelectItem key={motive.value} value={motive.value}>{motive.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            {cancellationMotive === "01" && (
+              <div className="space-y-2">
+                <label htmlFor="replacement-invoice-number" className="text-sm font-medium">Número de la factura sustituta</label>
+                <Input
+                  id="replacement-invoice-number"
+                  value={replacementInvoiceNumber}
+                  onChange={(e) => setReplacementInvoiceNumber(e.target.value)}
+                  placeholder={`${selectedInvoice?.invoiceNumber}S`}
+                  data-testid="input-replacement-invoice-number"
+                />
+                <p className="text-xs text-muted-foreground">
+                  Se creará un borrador con los mismos conceptos. Corrígelo y timbralo: la factura original se cancelará con el UUID de la sustituta.
+                </p>
+              </div>
+            )}
+            <div className="flex justify-end gap-2">
+              <Button type="button" variant="outline" onClick={() => setIsCancelDialogOpen(false)}>
+                Cerrar
+              </Button>
+              <Button
+                variant="destructive"
+                onClick={() => selectedInvoice && cancelInvoiceMutation.mutate({
+                  invoiceId: selectedInvoice.id,
+                  motive: cancellationMotive,
+                  replacementInvoiceNumber: replacementInvoiceNumber || undefined,
+                })}
+                disabled={cancelInvoiceMutation.isPending}
+                data-testid="button-confirm-cancel-invoice"
+              >
+                {cancellationMotive === "01" ? "Crear sustituta" : "Cancelar factura"}
+              </Button>
+            </div>
+          </div>
+        </DialogContent>
+      </Dialog>
+
+      {/* Dialog para tipo de cambio del complemento de pago */}
+      <Dialog open={!!complementPayment} onOpenChange={(open) => !open && setComplementPayment(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Timbrar Complemento de Pago</DialogTitle>
+            <DialogDescription>
+              El pago está en {complementPayment?.currency}; indica el tipo de cambio a MXN del día del pago.
+            </DialogDescription>
+          </DialogHeader>
+          <Input
+            type="number"
+            step="0.000001"
+            value={complementExchangeRate}
+            onChange={(e) => setComplementExchangeRate(e.target.value)}
+            placeholder="Tipo de cambio"
+            data-testid="input-retry-complement-exchange-rate"
+          />
+          <div className="flex justify-end gap-2">
+            <Button type="button" variant="outline" onClick={() => setComplementPayment(null)}>
+              Cancelar
+            </Button>
+            <Button
+              onClick={() => complementPayment && stampComplementMutation.mutate({ paymentId: complementPayment.id, exchangeRate: complementExchangeRate })}
+              disabled={!complementExchangeRate || stampComplementMutation.isPending}
+            >
+              Timbrar
+            </Button>
+          </div>
+        </DialogContent>
+      </Dialog>
     </div>
   );
 }
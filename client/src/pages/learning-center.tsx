@@ -4,19 +4,21 @@ import { Badge } from "@/components/ui/badge";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Brain, TrendingUp, Target, Database, Award, Activity } from "lucide-react";
 import { Progress } from "@/components/ui/progress";
+import type { KnowledgeBase } from "@shared/schema";
 
 export default function LearningCenter() {
   const { data: stats, isLoading: statsLoading } = useQuery({
     queryKey: ['/api/knowledge-base/stats'],
   });
 
-  const { data: allEntries, isLoading: entriesLoading } = useQuery({
+  const { data: allEntries, isLoading: entriesLoading } = useQuery<KnowledgeBase[]>({
     queryKey: ['/api/knowledge-base'],
   });
 
   const financialDetection = allEntries?.filter((e: any) => e.type === 'financial_detection') || [];
   const operationAnalysis = allEntries?.filter((e: any) => e.type === 'operation') || [];
   const bankAnalysis = allEntries?.filter((e: any) => e.type === 'bank_account') || [];
+  const emailLinking = allEntries?.filter((e: any) => e.type === 'email_linking') || [];
 
   if (statsLoading || entriesLoading) {
     return (
@@ -113,6 +115,9 @@ export default function LearningCenter() {
               <TabsTrigger value="banking" data-testid="tab-bank-analysis">
                 Análisis Bancario ({bankAnalysis.length})
               </TabsTrigger>
+              <TabsTrigger value="email-linking" data-testid="tab-email-linking">
+                Vinculación de Correos ({emailLinking.length})
+              </TabsTrigger>
             </TabsList>
 
             <TabsContent value="financial" className="space-y-4">
@@ -283,6 +288,57 @@ export default function LearningCenter() {
                 </CardContent>
               </Card>
             </TabsContent>
+
+            <TabsContent value="email-linking" className="space-y-4">
+              <Card>
+                <CardHeader>
+                  <CardTitle>Patrones de Vinculación de Correos</CardTitle>
+                  <CardDescription>
+                    Aprende de cada vínculo confirmado, corregido o deshecho en la revisión de correos
+                  </CardDescription>
+                </CardHeader>
+                <CardContent className="space-y-4">
+                  {emailLinking.length === 0 ? (
+                    <div className="text-center py-8 text-muted-foreground">
+                      <Brain className="w-12 h-12 mx-auto mb-3 opacity-50" />
+                      <p>Aún no hay patrones de vinculación.</p>
+                      <p className="text-sm mt-1">El sistema comenzará a aprender cuando confirmes o corrijas vínculos de correos.</p>
+                    </div>
+                  ) : (
+                    <div className="space-y-3">
+                      {emailLinking.map((pattern: any) => (
+                        <Card key={pattern.id} className="hover-elevate" data-testid={`linking-pattern-${pattern.id}`}>
+                          <CardHeader className="pb-3">
+                            <div className="flex items-start justify-between gap-4 flex-wrap">
+                              <div className="flex-1 min-w-0">
+                                <CardTitle className="text-base flex items-center gap-2 flex-wrap">
+                                  <Badge variant="secondary">{pattern.linkingMethod}</Badge>
+                                  <span className="text-sm font-mono break-all">{pattern.linkingPattern}</span>
+                                </CardTitle>
+                              </div>
+                              <div className="flex items-center gap-3 flex-shrink-0">
+                                <div className="text-right">
+                                  <div className="text-xs text-muted-foreground">Acierto</div>
+                                  <div className="text-sm font-semibold">{Math.round(parseFloat(pattern.successRate || '0'))}%</div>
+                                </div>
+                                <div className="text-right">
+                                  <div className="text-xs text-muted-foreground">Calidad</div>
+                                  <div className="text-sm font-semibold">{pattern.qualityScore}/10</div>
+                                </div>
+                                <div className="text-right">
+                                  <div className="text-xs text-muted-foreground">Revisiones</div>
+                                  <div className="text-sm font-semibold">{pattern.usageCount}</div>
+                                </div>
+                              </div>
+                            </div>
+                          </CardHeader>
+                        </Card>
+                      ))}
+                    </div>
+                  )}
+                </CardContent>
+              </Card>
+            </TabsContent>
           </Tabs>
         </div>
       </div>
@@ -1,12 +1,14 @@
 
-import { useState, Fragment } from "react";
+import { useState } from "react";
 import { useQuery } from "@tanstack/react-query";
-import { MapContainer, TileLayer, Marker, Popup, Polyline } from "react-leaflet";
-import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Link } from "wouter";
+import { MapContainer, TileLayer, Marker, Popup, Polyline, CircleMarker } from "react-leaflet";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Skeleton } from "@/components/ui/skeleton";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
-import type { Operation, Client } from "@shared/schema";
+import { formatLocation } from "@/components/LocationAutocomplete";
+import type { Operation, Client, Location } from "@shared/schema";
 import "leaflet/dist/leaflet.css";
 import L from "leaflet";
 
@@ -32,40 +34,64 @@ const shippingModeIcons = {
   multimodal: "🌐",
 };
 
-// Coordenadas de ejemplo para ciudades principales
-const cityCoordinates: Record<string, [number, number]> = {
-  "new york": [40.7128, -74.0060],
-  "los angeles": [34.0522, -118.2437],
-  "chicago": [41.8781, -87.6298],
-  "houston": [29.7604, -95.3698],
-  "miami": [25.7617, -80.1918],
-  "san francisco": [37.7749, -122.4194],
-  "seattle": [47.6062, -122.3321],
-  "boston": [42.3601, -71.0589],
-  "atlanta": [33.7490, -84.3880],
-  "mexico city": [19.4326, -99.1332],
-  "guadalajara": [20.6597, -103.3496],
-  "monterrey": [25.6866, -100.3161],
-  "tijuana": [32.5149, -117.0382],
-  "london": [51.5074, -0.1278],
-  "paris": [48.8566, 2.3522],
-  "tokyo": [35.6762, 139.6503],
-  "shanghai": [31.2304, 121.4737],
-  "singapore": [1.3521, 103.8198],
-  "dubai": [25.2048, 55.2708],
-  "sydney": [-33.8688, 151.2093],
-};
+interface RouteOperation {
+  id: string;
+  name: string;
+  status: string;
+  shippingMode: string;
+  operationType: string;
+  clientName: string | null;
+  eta: string | null;
+  transshipments: Location[];
+}
 
-function getCoordinatesFromAddress(address: string | null): [number, number] | null {
-  if (!address) return null;
-  
-  const lowerAddress = address.toLowerCase();
-  for (const [city, coords] of Object.entries(cityCoordinates)) {
-    if (lowerAddress.includes(city)) {
-      return coords;
-    }
-  }
-  return null;
+interface OperationLane {
+  key: string;
+  origin: Location | null;
+  destination: Location | null;
+  operations: RouteOperation[];
+}
+
+interface LocationMarker {
+  location: Location;
+  position: [number, number];
+  role: "origin" | "destination" | "transshipment";
+  operations: RouteOperation[];
+}
+
+const MIXED_STATUS_COLOR = "#8B5CF6";
+
+function locationPosition(location: Location | null): [number, number] | null {
+  if (!location || location.latitude === null || location.longitude === null) return null;
+  return [Number(location.latitude), Number(location.longitude)];
+}
+
+function laneLabel(lane: OperationLane): string {
+  return `${lane.origin ? formatLocation(lane.origin) : "?"} → ${lane.destination ? formatLocation(lane.destination) : "?"}`;
+}
+
+function LocationPopup({ marker }: { marker: LocationMarker }) {
+  return (
+    <Popup>
+      <div className="p-2 min-w-[200px]">
+        <div className="font-bold text-sm">{formatLocation(marker.location)}</div>
+        <div className="text-xs text-muted-foreground mb-2">
+          {marker.role === "origin" ? "Origin" : marker.role === "destination" ? "Destination" : "Transshipment"}
+        </div>
+        <div className="text-xs space-y-1">
+          {marker.operations.map((op) => (
+            <div key={op.id}>
+              <Link href={`/operations/${op.id}`} className="font-medium hover:underline">{op.name}</Link>{" "}
+              {shippingModeIcons[op.shippingMode as keyof typeof shippingModeIcons]}{" "}
+              <span style={{ color: statusColors[op.status as keyof typeof statusColors] }}>{op.status}</span>
+              {op.clientName && <span className="text-muted-foreground"> · {op.clientName}</span>}
+              {op.eta && <span className="text-muted-foreground"> · ETA {new Date(op.eta).toLocaleDateString()}</span>}
+            </div>
+          ))}
+        </div>
+      </div>
+    </Popup>
+  );
 }
 
 export default function MapPage() {
@@ -76,32 +102,75 @@ export default function MapPage() {
     queryKey: ["/api/operations"],
   });
 
+  const { data: lanes = [], isLoading: lanesLoading } = useQuery<OperationLane[]>({
+    queryKey: ["/api/operations/lanes"],
+  });
+
   const { data: clients = [] } = useQuery<Client[]>({
     queryKey: ["/api/clients"],
   });
 
-  // Filtrar operaciones
-  const filteredOperations = operations.filter((op) => {
+  const matchesFilters = (op: { status: string; shippingMode: string }) => {
     if (selectedStatus !== "all" && op.status !== selectedStatus) return false;
     if (selectedMode !== "all" && op.shippingMode !== selectedMode) return false;
     return true;
-  });
+  };
+
+  // Filtrar operaciones
+  const filteredOperations = operations.filter(matchesFilters);
 
-  // Preparar datos para el mapa
-  const mapData = filteredOperations
-    .map((op) => {
-      const pickupCoords = getCoordinatesFromAddress(op.pickUpAddress);
-      const deliveryCoords = getCoordinatesFromAddress(op.deliveryAddress);
-      const client = clients.find((c) => c.id === op.clientId);
+  // Lanes con las operaciones que pasan los filtros
+  const filteredLanes = lanes
+    .map((lane) => ({ ...lane, operations: lane.operations.filter(matchesFilters) }))
+    .filter((lane) => lane.operations.length > 0);
 
+  const routedOperationIds = new Set(lanes.flatMap((lane) => lane.operations.map((op) => op.id)));
+  const unroutedCount = filteredOperations.filter((op) => !routedOperationIds.has(op.id)).length;
+
+  // Un trazo por recorrido distinto (origen → transbordos → destino) dentro de cada lane
+  const routeLines = filteredLanes.flatMap((lane) => {
+    const paths = new Map<string, { positions: [number, number][]; operations: RouteOperation[] }>();
+    for (const op of lane.operations) {
+      const positions = [lane.origin, ...op.transshipments, lane.destination]
+        .map(locationPosition)
+        .filter((position): position is [number, number] => !!position);
+      if (positions.length < 2) continue;
+
+      const pathKey = op.transshipments.map((stop) => stop.id).join(",");
+      const path = paths.get(pathKey) || { positions, operations: [] };
+      path.operations.push(op);
+      paths.set(pathKey, path);
+    }
+
+    return Array.from(paths.entries()).map(([pathKey, path]) => {
+      const statuses = new Set(path.operations.map((op) => op.status));
+      const status = statuses.size === 1 ? path.operations[0].status : null;
       return {
-        operation: op,
-        client,
-        pickupCoords,
-        deliveryCoords,
+        key: `${lane.key}:${pathKey}`,
+        positions: path.positions,
+        color: status ? statusColors[status as keyof typeof statusColors] || MIXED_STATUS_COLOR : MIXED_STATUS_COLOR,
+        weight: Math.min(2 + path.operations.length, 8),
+        completed: status === "completed",
       };
-    })
-    .filter((item) => item.pickupCoords || item.deliveryCoords);
+    });
+  });
+
+  // Un marcador por ubicación, con las operaciones que pasan por ella
+  const markers = new Map<string, LocationMarker>();
+  const addMarker = (location: Location | null, role: LocationMarker["role"], op: RouteOperation) => {
+    const position = locationPosition(location);
+    if (!location || !position) return;
+    const marker = markers.get(location.id) || { location, position, role, operations: [] };
+    if (!marker.operations.some((existing) => existing.id === op.id)) marker.operations.push(op);
+    markers.set(location.id, marker);
+  };
+  for (const lane of filteredLanes) {
+    for (const op of lane.operations) {
+      addMarker(lane.origin, "origin", op);
+      addMarker(lane.destination, "destination", op);
+      op.transshipments.forEach((stop) => addMarker(stop, "transshipment", op));
+    }
+  }
 
   const statusCounts = {
     planning: operations.filter((op) => op.status === "planning").length,
@@ -110,7 +179,7 @@ export default function MapPage() {
     cancelled: operations.filter((op) => op.status === "cancelled").length,
   };
 
-  if (isLoading) {
+  if (isLoading || lanesLoading) {
     return (
       <div className="space-y-6">
         <Skeleton className="h-10 w-64" />
@@ -210,82 +279,67 @@ export default function MapPage() {
                 url="https://{s}.basemaps.cartocdn.com/dark_all/{z}/{x}/{y}{r}.png"
               />
 
-              {mapData.map((item) => {
-                const { operation, client, pickupCoords, deliveryCoords } = item;
-                const color = statusColors[operation.status as keyof typeof statusColors];
-                const modeIcon = shippingModeIcons[operation.shippingMode as keyof typeof shippingModeIcons];
+              {routeLines.map((line) => (
+                <Polyline
+                  key={line.key}
+                  positions={line.positions}
+                  color={line.color}
+                  weight={line.weight}
+                  opacity={0.6}
+                  dashArray={line.completed ? undefined : "10, 10"}
+                />
+              ))}
 
-                return (
-                  <Fragment key={operation.id}>
-                    {pickupCoords && (
-                      <Marker position={pickupCoords}>
-                        <Popup>
-                          <div className="p-2 min-w-[200px]">
-                            <div className="font-bold text-sm mb-2">{operation.name}</div>
-                            <div className="text-xs space-y-1">
-                              <div>
-                                <span className="font-medium">Mode:</span> {modeIcon} {operation.shippingMode}
-                              </div>
-                              <div>
-                                <span className="font-medium">Type:</span> {operation.operationType}
-                              </div>
-                              <div>
-                                <span className="font-medium">Client:</span> {client?.name || "N/A"}
-                              </div>
-                              <div>
-                                <span className="font-medium">Status:</span>{" "}
-                                <span style={{ color }}>{operation.status}</span>
-                              </div>
-                              {operation.pickUpAddress && (
-                                <div>
-                                  <span className="font-medium">From:</span> {operation.pickUpAddress}
-                                </div>
-                              )}
-                            </div>
-                          </div>
-                        </Popup>
-                      </Marker>
-                    )}
-
-                    {deliveryCoords && (
-                      <Marker position={deliveryCoords}>
-                        <Popup>
-                          <div className="p-2 min-w-[200px]">
-                            <div className="font-bold text-sm mb-2">{operation.name}</div>
-                            <div className="text-xs space-y-1">
-                              <div>
-                                <span className="font-medium">Delivery Address:</span>{" "}
-                                {operation.deliveryAddress}
-                              </div>
-                              {operation.eta && (
-                                <div>
-                                  <span className="font-medium">ETA:</span>{" "}
-                                  {new Date(operation.eta).toLocaleDateString()}
-                                </div>
-                              )}
-                            </div>
-                          </div>
-                        </Popup>
-                      </Marker>
-                    )}
-
-                    {pickupCoords && deliveryCoords && (
-                      <Polyline
-                        positions={[pickupCoords, deliveryCoords]}
-                        color={color}
-                        weight={3}
-                        opacity={0.6}
-                        dashArray={operation.status === "completed" ? undefined : "10, 10"}
-                      />
-                    )}
-                  </Fragment>
-                );
-              })}
+              {Array.from(markers.values()).map((marker) => (
+                marker.role === "transshipment" ? (
+                  <CircleMarker key={marker.location.id} center={marker.position} radius={5} pathOptions={{ color: MIXED_STATUS_COLOR }}>
+                    <LocationPopup marker={marker} />
+                  </CircleMarker>
+                ) : (
+                  <Marker key={marker.location.id} position={marker.position}>
+                    <LocationPopup marker={marker} />
+                  </Marker>
+                )
+              ))}
             </MapContainer>
           </div>
         </CardContent>
       </Card>
 
+      <Card>
+        <CardHeader>
+          <CardTitle>Lanes</CardTitle>
+          {unroutedCount > 0 && (
+            <CardDescription>
+              {unroutedCount} operation(s) have no origin or destination location and are not on the map
+            </CardDescription>
+          )}
+        </CardHeader>
+        <CardContent>
+          <div className="space-y-2">
+            {filteredLanes.length === 0 ? (
+              <p className="text-muted-foreground text-center py-8">No lanes yet: set the origin and destination of your operations</p>
+            ) : (
+              filteredLanes.map((lane) => (
+                <div
+                  key={lane.key}
+                  className="flex items-center justify-between gap-3 p-3 rounded-lg border border-border"
+                  data-testid={`lane-${lane.key}`}
+                >
+                  <div className="min-w-0">
+                    <div className="font-medium text-sm truncate">{laneLabel(lane)}</div>
+                    <div className="text-xs text-muted-foreground truncate">
+                      {lane.operations.map((op) => op.name).join(", ")}
+                    </div>
+                  </div>
+                  <Badge variant="secondary">{lane.operations.length}</Badge>
+                </div>
+              ))
+            )}
+          </div>
+        </CardContent>
+      </Card>
+
       <Card>
         <CardHeader>
           <CardTitle>Active Shipments</CardTitle>
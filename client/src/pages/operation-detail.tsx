@@ -1,4 +1,4 @@
-import { useParams, useLocation } from "wouter";
+import { useParams, useLocation, useSearch } from "wouter";
 import { useQuery, useMutation } from "@tanstack/react-query";
 import { queryClient, apiRequest } from "@/lib/queryClient";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
@@ -19,7 +19,7 @@ import {
   Calendar, User as UserIcon, MapPin, Ship, Plane, Truck, DollarSign, FolderOpen,
   Download, Paperclip, Upload, Link, FileIcon, Image, ExternalLink, Eye, MoreVertical,
   Grid3x3, List, Zap, File, ChevronLeft, ChevronRight, FileArchive, FileSpreadsheet, Clock, X,
-  Phone, Building2
+  Phone, Building2, PieChart, Reply, ReplyAll, Forward, PenSquare, MessagesSquare, AlertTriangle
 } from "lucide-react";
 import { useState, useEffect, useMemo } from "react";
 import DOMPurify from 'isomorphic-dompurify';
@@ -29,6 +29,12 @@ import { FileUploader } from "@/components/FileUploader";
 import { OperationAnalysisComponent } from "@/components/OperationAnalysis";
 import { TaskKanban } from "@/components/TaskKanban";
 import { FinancialOverview } from "@/components/FinancialOverview";
+import { OperationProfitability } from "@/components/OperationProfitability";
+import { OperationCargo } from "@/components/OperationCargo";
+import { OperationTimeline } from "@/components/OperationTimeline";
+import { OperationRoute } from "@/components/LocationAutocomplete";
+import { EmailComposer, type ComposeMode } from "@/components/EmailComposer";
+import { EmailThreadDialog, type ThreadSummary } from "@/components/EmailThreadDialog";
 import { PendingSuggestionsPanel } from "@/components/PendingSuggestionsPanel";
 import {
   Dialog,
@@ -62,6 +68,7 @@ import {
 } from "@/components/ui/form";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
+import { InboxSlaBadge, INBOX_STATUS_LABELS, type InboxThread } from "@/components/SharedInbox";
 
 // Mock EmployeeMultiSelect component for demonstration purposes
 const EmployeeMultiSelect = ({ employees, selectedIds, onChange, placeholder }: any) => {
@@ -158,7 +165,14 @@ export default function OperationDetail() {
   const { id } = useParams<{ id: string }>();
   const [, navigate] = useLocation();
   const { toast } = useToast();
-  const [activeTab, setActiveTab] = useState("info");
+  const search = useSearch();
+  const [activeTab, setActiveTab] = useState(() => new URLSearchParams(search).get("tab") || "info");
+
+  // Abrir la pestaña indicada en ?tab= (p. ej. desde la búsqueda global)
+  useEffect(() => {
+    const tab = new URLSearchParams(search).get("tab");
+    if (tab) setActiveTab(tab);
+  }, [id, search]);
 
   const { data: operation, isLoading: operationLoading, isError } = useQuery<Operation>({
     queryKey: [`/api/operations/${id}`],
@@ -394,7 +408,7 @@ export default function OperationDetail() {
 
         {/* Tabs mejorados */}
         <Tabs value={activeTab} onValueChange={setActiveTab} className="w-full">
-          <TabsList className="grid w-full grid-cols-9 h-auto p-1 bg-muted/50 backdrop-blur-sm rounded-xl">
+          <TabsList className="grid w-full grid-cols-11 h-auto p-1 bg-muted/50 backdrop-blur-sm rounded-xl">
             <TabsTrigger
               value="info"
               data-testid="tab-info"
@@ -403,6 +417,14 @@ export default function OperationDetail() {
               <Package className="w-4 h-4 mr-2" />
               <span className="font-medium">Información</span>
             </TabsTrigger>
+            <TabsTrigger
+              value="timeline"
+              data-testid="tab-timeline"
+              className="data-[state=active]:bg-background data-[state=active]:shadow-md rounded-lg transition-all py-3"
+            >
+              <Clock className="w-4 h-4 mr-2" />
+              <span className="font-medium">Timeline</span>
+            </TabsTrigger>
             <TabsTrigger
               value="client"
               data-testid="tab-client"
@@ -451,6 +473,14 @@ export default function OperationDetail() {
               <DollarSign className="w-4 h-4 mr-2" />
               <span className="font-medium">Gastos</span>
             </TabsTrigger>
+            <TabsTrigger
+              value="profitability"
+              data-testid="tab-profitability"
+              className="data-[state=active]:bg-background data-[state=active]:shadow-md rounded-lg transition-all py-3"
+            >
+              <PieChart className="w-4 h-4 mr-2" />
+              <span className="font-medium">Rentabilidad</span>
+            </TabsTrigger>
             <TabsTrigger
               value="files"
               data-testid="tab-files"
@@ -471,6 +501,11 @@ export default function OperationDetail() {
 
           <TabsContent value="info" className="space-y-4 mt-6 animate-in fade-in-50 duration-300">
             <InformationTab operation={operation} client={client} employees={employees} />
+            <OperationCargo operationId={id!} operationType={operation.operationType} />
+          </TabsContent>
+
+          <TabsContent value="timeline" className="space-y-4 mt-6 animate-in fade-in-50 duration-300">
+            <OperationTimeline operationId={id!} />
           </TabsContent>
 
           <TabsContent value="client" className="space-y-4 mt-6 animate-in fade-in-50 duration-300">
@@ -497,6 +532,10 @@ export default function OperationDetail() {
             <ExpensesTab operationId={id!} />
           </TabsContent>
 
+          <TabsContent value="profitability" className="space-y-4 mt-6 animate-in fade-in-50 duration-300">
+            <OperationProfitability operationId={id!} projectCurrency={operation.projectCurrency} />
+          </TabsContent>
+
           <TabsContent value="files" className="space-y-4 mt-6 animate-in fade-in-50 duration-300">
             <FilesTab operationId={id!} />
           </TabsContent>
@@ -594,6 +633,21 @@ function InformationTab({ operation, client, employees }: { operation: Operation
           </CardTitle>
         </CardHeader>
         <CardContent className="space-y-5 pt-6">
+          {(operation.originLocationId || operation.destinationLocationId) && (
+            <div className="flex items-start gap-3 p-3 rounded-lg bg-muted/50 hover:bg-muted transition-colors">
+              <MapPin className="w-5 h-5 text-primary shrink-0 mt-0.5" />
+              <div className="flex-1 min-w-0">
+                <Label className="text-xs text-muted-foreground uppercase tracking-wide">Ruta</Label>
+                <div className="mt-1">
+                  <OperationRoute
+                    originLocationId={operation.originLocationId}
+                    destinationLocationId={operation.destinationLocationId}
+                    transshipmentLocationIds={operation.transshipmentLocationIds}
+                  />
+                </div>
+              </div>
+            </div>
+          )}
           <div className="flex items-start gap-3 p-3 rounded-lg bg-muted/50 hover:bg-muted transition-colors">
             <Package className="w-5 h-5 text-primary shrink-0 mt-0.5" />
             <div className="flex-1 min-w-0">
@@ -1450,6 +1504,23 @@ function EmailsTab({ operationId, operation }: {
     queryKey: ['/api/operations', operationId, 'messages'],
   });
 
+  // Hilos de Gmail de la operación, con conflictos contra otras operaciones
+  const { data: threads = [] } = useQuery<ThreadSummary[]>({
+    queryKey: ['/api/operations', operationId, 'threads'],
+  });
+  const [groupByThread, setGroupByThread] = useState(false);
+  const [threadDialogId, setThreadDialogId] = useState<string | null>(null);
+  const conflictCount = threads.filter(t => t.hasConflict).length;
+
+  // Asignación, estado y SLA de la bandeja compartida para los hilos de la operación
+  const { data: inboxThreads = [] } = useQuery<InboxThread[]>({
+    queryKey: [`/api/shared-inbox?operationId=${operationId}`],
+  });
+  const inboxByThread = useMemo(
+    () => new Map(inboxThreads.map(thread => [thread.threadId, thread])),
+    [inboxThreads]
+  );
+
   // Get full email content with signed URLs when a message is selected
   const { data: emailContent, isLoading: isLoadingContent } = useQuery<{
     htmlBodyUrl?: string;
@@ -1496,7 +1567,40 @@ function EmailsTab({ operationId, operation }: {
     return groups;
   }, [relatedEmails]);
 
+  // Group emails by Gmail thread, most recent thread first
+  const threadGroups = useMemo(() => {
+    const groups = new Map<string, GmailMessage[]>();
+    relatedEmails.forEach((email) => {
+      groups.set(email.threadId, [...(groups.get(email.threadId) || []), email]);
+    });
+    return Array.from(groups.entries())
+      .map(([threadId, emails]) => ({
+        threadId,
+        emails,
+        summary: threads.find(t => t.threadId === threadId),
+      }))
+      .sort((a, b) => new Date(b.emails[0].date).getTime() - new Date(a.emails[0].date).getTime());
+  }, [relatedEmails, threads]);
+
   const selectedMessage = relatedEmails.find(e => e.id === selectedMessageId);
+  const selectedInbox = selectedMessage ? inboxByThread.get(selectedMessage.threadId) : undefined;
+
+  const renderInboxBadges = (inbox: InboxThread, compact: boolean) => {
+    const badgeClass = compact ? "text-[9px] px-1 py-0" : "text-xs";
+    return (
+      <>
+        <Badge variant="outline" className={badgeClass}>
+          {inbox.assignedEmployeeName || 'Sin asignar'}
+        </Badge>
+        <Badge variant={inbox.status === 'done' ? 'secondary' : 'outline'} className={badgeClass}>
+          {inbox.isSnoozed && inbox.snoozedUntil
+            ? `Pausado hasta ${format(new Date(inbox.snoozedUntil), 'dd/MM HH:mm')}`
+            : INBOX_STATUS_LABELS[inbox.status]}
+        </Badge>
+        {!(compact && inbox.sla.firstResponseAt) && <InboxSlaBadge sla={inbox.sla} className={badgeClass} />}
+      </>
+    );
+  };
 
   // Format file size
   const formatFileSize = (bytes: number): string => {
@@ -1573,6 +1677,87 @@ function EmailsTab({ operationId, operation }: {
     return () => window.removeEventListener('resize', checkMobile);
   }, []);
 
+  // Composer: nuevo correo, respuesta o reenvío del correo seleccionado
+  const [composeMode, setComposeMode] = useState<ComposeMode | null>(null);
+
+  const originalBodyText = useMemo(() => {
+    if (textBodyContent) return textBodyContent;
+    if (htmlBodyContent) {
+      return new DOMParser().parseFromString(htmlBodyContent, 'text/html').body.textContent?.trim() || '';
+    }
+    return selectedMessage?.bodyText || '';
+  }, [textBodyContent, htmlBodyContent, selectedMessage]);
+
+  const composer = (
+    <EmailComposer
+      operationId={operationId}
+      open={composeMode !== null}
+      onOpenChange={(open) => !open && setComposeMode(null)}
+      mode={composeMode || 'new'}
+      originalMessage={composeMode && composeMode !== 'new' ? selectedMessage : null}
+      originalBody={originalBodyText}
+    />
+  );
+
+  const renderEmailItem = (email: GmailMessage) => {
+    const isSelected = email.id === selectedMessageId;
+    return (
+      <button
+        key={email.id}
+        data-testid={`button-email-${email.id}`}
+        onClick={() => setSelectedMessageId(email.id)}
+        className={`w-full text-left px-2 py-2 rounded-md transition-all ${
+          isSelected
+            ? 'bg-primary text-primary-foreground'
+            : 'hover:bg-accent'
+        }`}
+      >
+        <div className="flex items-start gap-1.5 min-w-0 w-full">
+          <div className={`flex items-center justify-center w-6 h-6 rounded-full shrink-0 text-[10px] font-medium ${
+            isSelected
+              ? 'bg-primary/20 text-primary'
+              : 'bg-muted text-muted-foreground'
+          }`}>
+            {email.fromEmail?.[0]?.toUpperCase() || 'U'}
+          </div>
+
+          <div className="flex-1 min-w-0">
+            <div className="flex items-center justify-between gap-1 mb-0.5">
+              <p className={`text-[10px] font-medium truncate max-w-[140px] ${isSelected ? 'opacity-95' : 'text-foreground'}`}>
+                {email.fromEmail.split('@')[0]}
+              </p>
+              <time className={`text-[8px] shrink-0 ${isSelected ? 'opacity-70' : 'text-muted-foreground'}`}>
+                {format(new Date(email.date), 'HH:mm')}
+              </time>
+            </div>
+
+            <p className={`text-[10px] font-medium truncate mb-0.5 ${isSelected ? 'opacity-95' : 'text-foreground'}`}>
+              {email.subject || '(Sin asunto)'}
+            </p>
+
+            <div className="flex items-center gap-1">
+              <p className={`text-[9px] line-clamp-1 flex-1 min-w-0 ${isSelected ? 'opacity-75' : 'text-muted-foreground'}`}>
+                {email.snippet}
+              </p>
+              {email.hasAttachments && (
+                <Paperclip className={`w-2.5 h-2.5 shrink-0 ${isSelected ? 'opacity-70' : 'text-muted-foreground'}`} />
+              )}
+            </div>
+          </div>
+        </div>
+      </button>
+    );
+  };
+
+  const threadDialog = (
+    <EmailThreadDialog
+      threadId={threadDialogId}
+      open={threadDialogId !== null}
+      onOpenChange={(open) => !open && setThreadDialogId(null)}
+      currentOperationId={operationId}
+    />
+  );
+
   if (relatedEmails.length === 0) {
     return (
       <Card>
@@ -1584,79 +1769,97 @@ function EmailsTab({ operationId, operation }: {
           <p className="text-sm text-muted-foreground mt-2">
             Los correos relacionados con esta operación aparecerán aquí
           </p>
+          <Button className="mt-4" onClick={() => setComposeMode('new')} data-testid="button-compose-email">
+            <PenSquare className="w-4 h-4 mr-2" />
+            Redactar correo
+          </Button>
         </CardContent>
+        {composer}
       </Card>
     );
   }
 
   return (
     <div className="h-[calc(100vh-20rem)] flex flex-col md:flex-row gap-3">
+      {composer}
+      {threadDialog}
       {/* Email List - Master Panel - Más compacto */}
       <div className={`${isMobile && selectedMessageId ? 'hidden' : 'flex'} flex-col w-full md:w-72 border rounded-lg bg-card overflow-hidden shadow-sm`}>
-        <div className="px-3 py-2 border-b bg-muted/50">
+        <div className="px-3 py-2 border-b bg-muted/50 flex items-center justify-between">
           <h3 className="font-semibold text-xs flex items-center gap-2 text-muted-foreground uppercase tracking-wide">
             <Mail className="w-3.5 h-3.5" />
             Correos Vinculados ({relatedEmails.length})
           </h3>
+          <div className="flex items-center gap-0.5">
+            <Button
+              variant={groupByThread ? "secondary" : "ghost"}
+              size="icon"
+              className="h-7 w-7"
+              title={groupByThread ? "Agrupar por fecha" : "Agrupar por hilo"}
+              onClick={() => setGroupByThread(!groupByThread)}
+              data-testid="button-toggle-thread-view"
+            >
+              <MessagesSquare className="w-4 h-4" />
+            </Button>
+            <Button
+              variant="ghost"
+              size="icon"
+              className="h-7 w-7"
+              title="Redactar correo"
+              onClick={() => setComposeMode('new')}
+              data-testid="button-compose-email"
+            >
+              <PenSquare className="w-4 h-4" />
+            </Button>
+          </div>
         </div>
 
+        {conflictCount > 0 && (
+          <button
+            className="px-3 py-1.5 border-b bg-destructive/10 text-destructive text-[11px] flex items-center gap-1.5 text-left"
+            onClick={() => setGroupByThread(true)}
+            data-testid="button-thread-conflicts"
+          >
+            <AlertTriangle className="w-3.5 h-3.5 shrink-0" />
+            {conflictCount} {conflictCount === 1 ? 'hilo toca' : 'hilos tocan'} otras operaciones
+          </button>
+        )}
+
         <ScrollArea className="flex-1">
           <div className="p-1">
-            {Object.entries(groupedEmails).map(([dateGroup, emails]) => (
+            {groupByThread ? threadGroups.map(({ threadId, emails, summary }) => (
+              <div key={threadId} className="mb-2" data-testid={`thread-group-${threadId}`}>
+                <button
+                  className="w-full px-2 py-1 flex items-center gap-1.5 text-left hover:bg-accent rounded-md"
+                  onClick={() => setThreadDialogId(threadId)}
+                  title="Ver hilo completo"
+                >
+                  <MessagesSquare className="w-3 h-3 shrink-0 text-muted-foreground" />
+                  <span className="text-[10px] font-semibold text-muted-foreground truncate flex-1">
+                    {summary?.subject || emails[emails.length - 1].subject || '(Sin asunto)'}
+                  </span>
+                  {summary && summary.messageCount > emails.length && (
+                    <Badge variant="outline" className="text-[9px] px-1 py-0">{emails.length}/{summary.messageCount}</Badge>
+                  )}
+                  {summary?.hasConflict && (
+                    <Badge variant="destructive" className="text-[9px] px-1 py-0">Conflicto</Badge>
+                  )}
+                  {summary?.isSplit && (
+                    <Badge variant="secondary" className="text-[9px] px-1 py-0">Dividido</Badge>
+                  )}
+                  {inboxByThread.has(threadId) && renderInboxBadges(inboxByThread.get(threadId)!, true)}
+                </button>
+                <div className="space-y-0.5 pl-2 border-l ml-2">
+                  {emails.map(renderEmailItem)}
+                </div>
+              </div>
+            )) : Object.entries(groupedEmails).map(([dateGroup, emails]) => (
               <div key={dateGroup} className="mb-2">
                 <div className="px-2 py-1 text-[10px] font-semibold text-muted-foreground uppercase tracking-wider">
                   {dateGroup}
                 </div>
                 <div className="space-y-0.5">
-                  {emails.map((email) => {
-                    const isSelected = email.id === selectedMessageId;
-                    return (
-                      <button
-                        key={email.id}
-                        data-testid={`button-email-${email.id}`}
-                        onClick={() => setSelectedMessageId(email.id)}
-                        className={`w-full text-left px-2 py-2 rounded-md transition-all ${
-                          isSelected
-                            ? 'bg-primary text-primary-foreground'
-                            : 'hover:bg-accent'
-                        }`}
-                      >
-                        <div className="flex items-start gap-1.5 min-w-0 w-full">
-                          <div className={`flex items-center justify-center w-6 h-6 rounded-full shrink-0 text-[10px] font-medium ${
-                            isSelected
-                              ? 'bg-primary/20 text-primary'
-                              : 'bg-muted text-muted-foreground'
-                          }`}>
-                            {email.fromEmail?.[0]?.toUpperCase() || 'U'}
-                          </div>
-
-                          <div className="flex-1 min-w-0">
-                            <div className="flex items-center justify-between gap-1 mb-0.5">
-                              <p className={`text-[10px] font-medium truncate max-w-[140px] ${isSelected ? 'opacity-95' : 'text-foreground'}`}>
-                                {email.fromEmail.split('@')[0]}
-                              </p>
-                              <time className={`text-[8px] shrink-0 ${isSelected ? 'opacity-70' : 'text-muted-foreground'}`}>
-                                {format(new Date(email.date), 'HH:mm')}
-                              </time>
-                            </div>
-
-                            <p className={`text-[10px] font-medium truncate mb-0.5 ${isSelected ? 'opacity-95' : 'text-foreground'}`}>
-                              {email.subject || '(Sin asunto)'}
-                            </p>
-
-                            <div className="flex items-center gap-1">
-                              <p className={`text-[9px] line-clamp-1 flex-1 min-w-0 ${isSelected ? 'opacity-75' : 'text-muted-foreground'}`}>
-                                {email.snippet}
-                              </p>
-                              {email.hasAttachments && (
-                                <Paperclip className={`w-2.5 h-2.5 shrink-0 ${isSelected ? 'opacity-70' : 'text-muted-foreground'}`} />
-                              )}
-                            </div>
-                          </div>
-                        </div>
-                      </button>
-                    );
-                  })}
+                  {emails.map(renderEmailItem)}
                 </div>
               </div>
             ))}
@@ -1694,9 +1897,25 @@ function EmailsTab({ operationId, operation }: {
                 </Button>
               )}
 
-              <h2 className="text-lg font-bold mb-3" data-testid="text-email-subject">
-                {selectedMessage.subject || '(Sin asunto)'}
-              </h2>
+              <div className="flex items-start justify-between gap-2 mb-3">
+                <h2 className="text-lg font-bold" data-testid="text-email-subject">
+                  {selectedMessage.subject || '(Sin asunto)'}
+                </h2>
+                <div className="flex gap-1 flex-shrink-0">
+                  <Button variant="ghost" size="icon" className="h-8 w-8" title="Responder" onClick={() => setComposeMode('reply')} data-testid="button-reply-email">
+                    <Reply className="w-4 h-4" />
+                  </Button>
+                  <Button variant="ghost" size="icon" className="h-8 w-8" title="Responder a todos" onClick={() => setComposeMode('replyAll')} data-testid="button-reply-all-email">
+                    <ReplyAll className="w-4 h-4" />
+                  </Button>
+                  <Button variant="ghost" size="icon" className="h-8 w-8" title="Reenviar" onClick={() => setComposeMode('forward')} data-testid="button-forward-email">
+                    <Forward className="w-4 h-4" />
+                  </Button>
+                  <Button variant="ghost" size="icon" className="h-8 w-8" title="Ver hilo" onClick={() => setThreadDialogId(selectedMessage.threadId)} data-testid="button-view-thread">
+                    <MessagesSquare className="w-4 h-4" />
+                  </Button>
+                </div>
+              </div>
 
               <div className="flex items-start gap-3">
                 <div className="w-9 h-9 rounded-full bg-primary/10 text-primary flex items-center justify-center text-sm font-bold flex-shrink-0">
@@ -1727,6 +1946,12 @@ function EmailsTab({ operationId, operation }: {
                   </div>
                 )}
               </div>
+
+              {selectedInbox && (
+                <div className="mt-2 flex flex-wrap items-center gap-1" data-testid="email-inbox-assignment">
+                  {renderInboxBadges(selectedInbox, false)}
+                </div>
+              )}
             </div>
 
             {/* Email Body con scroll */}
@@ -3477,6 +3702,7 @@ function InvoicesTab({ operationId }: { operationId: string }) {
     switch (status) {
       case 'draft': return 'bg-gray-100 text-gray-800';
       case 'sent': return 'bg-blue-100 text-blue-800';
+      case 'partially_paid': return 'bg-amber-100 text-amber-800';
       case 'paid': return 'bg-green-100 text-green-800';
       case 'overdue': return 'bg-red-100 text-red-800';
       case 'cancelled': return 'bg-yellow-100 text-yellow-800';
@@ -3488,6 +3714,7 @@ function InvoicesTab({ operationId }: { operationId: string }) {
     switch (status) {
       case 'draft': return 'Borrador';
       case 'sent': return 'Enviada';
+      case 'partially_paid': return 'Pago parcial';
       case 'paid': return 'Pagada';
       case 'overdue': return 'Vencida';
       case 'cancelled': return 'Cancelada';
@@ -2,10 +2,12 @@
 import { useState, useEffect, useRef } from "react";
 import { useQuery, useMutation } from "@tanstack/react-query";
 import { useLocation, useParams } from "wouter";
-import { ArrowLeft, MapPin } from "lucide-react";
+import { ArrowLeft, MapPin, Plus } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { EmployeeMultiSelect } from "@/components/employee-multi-select";
+import { CargoEditor, EMPTY_CARGO, cargoToDraft, cargoDraftToPayload, hasInvalidContainers, type CargoDraft } from "@/components/OperationCargo";
+import { LocationAutocomplete, type LocationKind } from "@/components/LocationAutocomplete";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Separator } from "@/components/ui/separator";
 import {
@@ -27,7 +29,7 @@ import {
 } from "@/components/ui/select";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
-import { insertOperationSchema, type Client, type Employee } from "@shared/schema";
+import { insertOperationSchema, type Client, type Employee, type Operation } from "@shared/schema";
 import { useToast } from "@/hooks/use-toast";
 import { apiRequest, queryClient } from "@/lib/queryClient";
 import { MapContainer, TileLayer, Marker } from "react-leaflet";
@@ -180,6 +182,7 @@ export default function OperationsCreatePage() {
   const [selectedEmployeeIds, setSelectedEmployeeIds] = useState<string[]>([]);
   const [pickupLocation, setPickupLocation] = useState<[number, number] | null>(null);
   const [deliveryLocation, setDeliveryLocation] = useState<[number, number] | null>(null);
+  const [cargoDraft, setCargoDraft] = useState<CargoDraft>(EMPTY_CARGO);
   const { toast } = useToast();
 
   const { data: clients = [] } = useQuery<Client[]>({
@@ -190,11 +193,22 @@ export default function OperationsCreatePage() {
     queryKey: ["/api/employees"],
   });
 
-  const { data: existingOperation, isLoading: isLoadingOperation } = useQuery({
+  const { data: existingOperation, isLoading: isLoadingOperation } = useQuery<Operation>({
     queryKey: ["/api/operations", operationId],
     enabled: isEditing,
   });
 
+  const { data: existingCargo } = useQuery<Parameters<typeof cargoToDraft>[0]>({
+    queryKey: ["/api/operations", operationId, "cargo"],
+    enabled: isEditing,
+  });
+
+  useEffect(() => {
+    if (existingCargo) {
+      setCargoDraft(cargoToDraft(existingCargo));
+    }
+  }, [existingCargo]);
+
   const form = useForm<OperationFormData>({
     resolver: zodResolver(insertOperationSchema),
     defaultValues: {
@@ -219,6 +233,9 @@ export default function OperationsCreatePage() {
       eta: null,
       mblAwb: "",
       hblAwb: "",
+      originLocationId: null,
+      destinationLocationId: null,
+      transshipmentLocationIds: [],
     },
   });
 
@@ -246,10 +263,17 @@ export default function OperationsCreatePage() {
         eta: existingOperation.eta || null,
         mblAwb: existingOperation.mblAwb || "",
         hblAwb: existingOperation.hblAwb || "",
+        originLocationId: existingOperation.originLocationId || null,
+        destinationLocationId: existingOperation.destinationLocationId || null,
+        transshipmentLocationIds: existingOperation.transshipmentLocationIds || [],
       });
     }
   }, [existingOperation, isEditing, form]);
 
+  // Autocompletado de la ruta: aeropuertos en aéreo, puertos en marítimo
+  const isAirShipment = form.watch("shippingMode") === "air" || form.watch("operationType") === "Air";
+  const locationKind: LocationKind | undefined = isAirShipment ? "airport" : form.watch("shippingMode") === "sea" ? "seaport" : undefined;
+
   const createMutation = useMutation({
     mutationFn: (data: OperationFormData) => apiRequest("POST", "/api/operations", data),
     onSuccess: () => {
@@ -286,6 +310,8 @@ export default function OperationsCreatePage() {
       mblAwb: data.mblAwb || null,
       hblAwb: data.hblAwb || null,
       employeeIds: selectedEmployeeIds,
+      // Al editar, solo se reemplaza la carga una vez cargada la existente
+      cargo: !isEditing || existingCargo ? cargoDraftToPayload(cargoDraft) : undefined,
     };
 
     if (isEditing) {
@@ -319,9 +345,10 @@ export default function OperationsCreatePage() {
       <Form {...form}>
         <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-6">
           <Tabs defaultValue="details" className="w-full">
-            <TabsList className="grid w-full grid-cols-3">
+            <TabsList className="grid w-full grid-cols-4">
               <TabsTrigger value="details">Detalles del Proyecto</TabsTrigger>
               <TabsTrigger value="shipping">Información de Envío</TabsTrigger>
+              <TabsTrigger value="cargo" data-testid="tab-cargo">Carga</TabsTrigger>
               <TabsTrigger value="tracking">Rastreo y Fechas</TabsTrigger>
             </TabsList>
             
@@ -631,6 +658,77 @@ export default function OperationsCreatePage() {
             </TabsContent>
             
             <TabsContent value="shipping" className="space-y-6 mt-6">
+              <Card>
+                <CardHeader>
+                  <CardTitle className="text-lg">Ruta</CardTitle>
+                </CardHeader>
+                <CardContent className="space-y-4">
+                  <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                    <FormField
+                      control={form.control}
+                      name="originLocationId"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Origen</FormLabel>
+                          <FormControl>
+                            <LocationAutocomplete value={field.value} onChange={(id) => field.onChange(id)} kind={locationKind} testId="origin" />
+                          </FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                    <FormField
+                      control={form.control}
+                      name="destinationLocationId"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Destino</FormLabel>
+                          <FormControl>
+                            <LocationAutocomplete value={field.value} onChange={(id) => field.onChange(id)} kind={locationKind} testId="destination" />
+                          </FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                  </div>
+                  <FormField
+                    control={form.control}
+                    name="transshipmentLocationIds"
+                    render={({ field }) => {
+                      const stops = field.value || [];
+                      return (
+                        <FormItem>
+                          <FormLabel>Transbordos</FormLabel>
+                          <div className="space-y-2">
+                            {stops.map((stopId, index) => (
+                              <LocationAutocomplete
+                                key={index}
+                                value={stopId || null}
+                                onChange={(id) => field.onChange(stops.map((current, i) => (i === index ? id || "" : current)))}
+                                onRemove={() => field.onChange(stops.filter((_, i) => i !== index))}
+                                kind={locationKind}
+                                testId={`transshipment-${index}`}
+                              />
+                            ))}
+                            <Button
+                              type="button"
+                              variant="outline"
+                              size="sm"
+                              onClick={() => field.onChange([...stops, ""])}
+                              data-testid="button-add-transshipment"
+                            >
+                              <Plus className="h-4 w-4 mr-2" />
+                              Agregar transbordo
+                            </Button>
+                          </div>
+                          <FormMessage />
+                        </FormItem>
+                      );
+                    }}
+                  />
+                </CardContent>
+              </Card>
+
               <Card>
                 <CardHeader>
                   <CardTitle className="text-lg">Información del Courier</CardTitle>
@@ -732,6 +830,21 @@ export default function OperationsCreatePage() {
               </Card>
             </TabsContent>
             
+            <TabsContent value="cargo" className="space-y-6 mt-6">
+              <Card>
+                <CardHeader>
+                  <CardTitle className="text-lg">Contenedores y Carga</CardTitle>
+                </CardHeader>
+                <CardContent>
+                  <CargoEditor
+                    value={cargoDraft}
+                    onChange={setCargoDraft}
+                    isAir={isAirShipment}
+                  />
+                </CardContent>
+              </Card>
+            </TabsContent>
+
             <TabsContent value="tracking" className="space-y-6 mt-6">
               <Card>
                 <CardHeader>
@@ -854,7 +967,7 @@ export default function OperationsCreatePage() {
             >
               Cancelar
             </Button>
-            <Button type="submit" disabled={createMutation.isPending} data-testid="button-submit">
+            <Button type="submit" disabled={createMutation.isPending || hasInvalidContainers(cargoDraft)} data-testid="button-submit">
               {createMutation.isPending ? "Creando..." : "Crear Operación"}
             </Button>
           </div>
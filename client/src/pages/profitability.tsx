@@ -0,0 +1,288 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Link } from "wouter";
+import { AlertTriangle } from "lucide-react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Skeleton } from "@/components/ui/skeleton";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { ReportingCurrencySelect } from "@/components/ReportingCurrencySelect";
+import type { Client } from "@shared/schema";
+
+interface PnLFigures {
+  estimatedRevenue: number;
+  estimatedCost: number;
+  estimatedMargin: number;
+  actualRevenue: number;
+  actualCost: number;
+  actualMargin: number;
+  marginPercent: number | null;
+}
+
+interface ProfitabilityRow extends PnLFigures {
+  operationId: string;
+  operationName: string;
+  clientId: string | null;
+  clientName: string | null;
+  shippingMode: string;
+  operationType: string;
+  startDate: string;
+}
+
+interface ProfitabilityReport {
+  currency: string;
+  rows: ProfitabilityRow[];
+  totals: PnLFigures;
+  missingRateCurrencies: string[];
+}
+
+const ALL = "all";
+
+const SHIPPING_MODES = [
+  { value: "sea", label: "Sea" },
+  { value: "air", label: "Air" },
+  { value: "land", label: "Land" },
+  { value: "multimodal", label: "Multimodal" },
+];
+
+const OPERATION_TYPES = ["FCL", "LCL", "Air", "Road", "Rail"];
+
+export default function ProfitabilityPage() {
+  const [clientId, setClientId] = useState(ALL);
+  const [shippingMode, setShippingMode] = useState(ALL);
+  const [operationType, setOperationType] = useState(ALL);
+  const [from, setFrom] = useState("");
+  const [to, setTo] = useState("");
+  const [currency, setCurrency] = useState("MXN");
+
+  const { data: clients = [] } = useQuery<Client[]>({
+    queryKey: ["/api/clients"],
+  });
+
+  const params = new URLSearchParams({ currency });
+  if (clientId !== ALL) params.set("clientId", clientId);
+  if (shippingMode !== ALL) params.set("shippingMode", shippingMode);
+  if (operationType !== ALL) params.set("operationType", operationType);
+  if (from) params.set("from", from);
+  if (to) params.set("to", to);
+
+  const { data: report, isLoading, error } = useQuery<ProfitabilityReport>({
+    queryKey: [`/api/reports/profitability?${params.toString()}`],
+  });
+
+  const formatCurrency = (amount: number) => {
+    return new Intl.NumberFormat("es-MX", {
+      style: "currency",
+      currency: report?.currency || currency,
+      minimumFractionDigits: 2,
+    }).format(amount);
+  };
+
+  const formatPercent = (value: number | null) => (value === null ? "-" : `${value.toFixed(1)}%`);
+
+  const marginClass = (value: number) => (value >= 0 ? "text-green-600" : "text-red-600");
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-3xl font-semibold text-foreground">Profitability</h1>
+        <p className="text-muted-foreground mt-1">
+          Estimated vs. actual margin per operation, converted at each transaction's exchange rate
+        </p>
+      </div>
+
+      <Card>
+        <CardContent className="pt-6">
+          <div className="grid grid-cols-1 md:grid-cols-3 lg:grid-cols-6 gap-4 items-end">
+            <div className="space-y-2">
+              <Label>Client</Label>
+              <Select value={clientId} onValueChange={setClientId}>
+                <SelectTrigger data-testid="select-profitability-client">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ALL}>All clients</SelectItem>
+                  {clients.map((client) => (
+                    <SelectItem key={client.id} value={client.id}>
+                      {client.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>Shipping Mode</Label>
+              <Select value={shippingMode} onValueChange={setShippingMode}>
+                <SelectTrigger data-testid="select-profitability-shipping-mode">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ALL}>All modes</SelectItem>
+                  {SHIPPING_MODES.map((mode) => (
+                    <SelectItem key={mode.value} value={mode.value}>
+                      {mode.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>Operation Type</Label>
+              <Select value={operationType} onValueChange={setOperationType}>
+                <SelectTrigger data-testid="select-profitability-operation-type">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ALL}>All types</SelectItem>
+                  {OPERATION_TYPES.map((type) => (
+                    <SelectItem key={type} value={type}>
+                      {type}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>Start Date From</Label>
+              <Input type="date" value={from} onChange={(e) => setFrom(e.target.value)} data-testid="input-profitability-from" />
+            </div>
+            <div className="space-y-2">
+              <Label>Start Date To</Label>
+              <Input type="date" value={to} onChange={(e) => setTo(e.target.value)} data-testid="input-profitability-to" />
+            </div>
+            <div className="space-y-2">
+              <Label>Currency</Label>
+              <ReportingCurrencySelect value={currency} onChange={setCurrency} testId="select-profitability-currency" />
+            </div>
+          </div>
+        </CardContent>
+      </Card>
+
+      {report && report.missingRateCurrencies.length > 0 && (
+        <Card className="border-yellow-500/50" data-testid="card-profitability-missing-rates">
+          <CardContent className="py-4 text-sm">
+            <div className="flex items-center gap-2 text-yellow-700 dark:text-yellow-500">
+              <AlertTriangle className="h-4 w-4" />
+              No exchange rate for {report.missingRateCurrencies.join(", ")}: those amounts are excluded from the {report.currency} totals
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
+      {report && (
+        <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+          <Card>
+            <CardHeader className="pb-2">
+              <CardDescription>Revenue</CardDescription>
+              <CardTitle className="text-2xl" data-testid="text-total-revenue">{formatCurrency(report.totals.actualRevenue)}</CardTitle>
+            </CardHeader>
+          </Card>
+          <Card>
+            <CardHeader className="pb-2">
+              <CardDescription>Costs</CardDescription>
+              <CardTitle className="text-2xl text-red-600" data-testid="text-total-cost">{formatCurrency(report.totals.actualCost)}</CardTitle>
+            </CardHeader>
+          </Card>
+          <Card>
+            <CardHeader className="pb-2">
+              <CardDescription>Margin ({formatPercent(report.totals.marginPercent)})</CardDescription>
+              <CardTitle className={`text-2xl ${marginClass(report.totals.actualMargin)}`} data-testid="text-total-margin">
+                {formatCurrency(report.totals.actualMargin)}
+              </CardTitle>
+            </CardHeader>
+          </Card>
+          <Card>
+            <CardHeader className="pb-2">
+              <CardDescription>Estimated Margin</CardDescription>
+              <CardTitle className={`text-2xl ${marginClass(report.totals.estimatedMargin)}`} data-testid="text-total-estimated-margin">
+                {formatCurrency(report.totals.estimatedMargin)}
+              </CardTitle>
+            </CardHeader>
+          </Card>
+        </div>
+      )}
+
+      <Card>
+        <CardContent className="pt-6">
+          {isLoading ? (
+            <div className="space-y-2">
+              {[1, 2, 3].map((i) => (
+                <Skeleton key={i} className="h-8 w-full" />
+              ))}
+            </div>
+          ) : error ? (
+            <div className="py-4 text-sm text-destructive" data-testid="text-profitability-error">
+              {(error as Error).message}
+            </div>
+          ) : !report || report.rows.length === 0 ? (
+            <div className="text-center py-8 text-sm text-muted-foreground">
+              No operations match the selected filters
+            </div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Operation</TableHead>
+                  <TableHead>Client</TableHead>
+                  <TableHead>Mode / Type</TableHead>
+                  <TableHead>Start</TableHead>
+                  <TableHead className="text-right">Est. Margin</TableHead>
+                  <TableHead className="text-right">Revenue</TableHead>
+                  <TableHead className="text-right">Costs</TableHead>
+                  <TableHead className="text-right">Margin</TableHead>
+                  <TableHead className="text-right">Margin %</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {report.rows.map((row) => (
+                  <TableRow key={row.operationId} data-testid={`row-profitability-${row.operationId}`}>
+                    <TableCell>
+                      <Link href={`/operations/${row.operationId}`} className="font-medium hover:underline">
+                        {row.operationName}
+                      </Link>
+                    </TableCell>
+                    <TableCell>{row.clientName || "-"}</TableCell>
+                    <TableCell className="text-muted-foreground">
+                      {row.shippingMode} / {row.operationType}
+                    </TableCell>
+                    <TableCell>{new Date(row.startDate).toLocaleDateString()}</TableCell>
+                    <TableCell className="text-right text-muted-foreground">{formatCurrency(row.estimatedMargin)}</TableCell>
+                    <TableCell className="text-right">{formatCurrency(row.actualRevenue)}</TableCell>
+                    <TableCell className="text-right">{formatCurrency(row.actualCost)}</TableCell>
+                    <TableCell className={`text-right ${marginClass(row.actualMargin)}`}>{formatCurrency(row.actualMargin)}</TableCell>
+                    <TableCell className="text-right">{formatPercent(row.marginPercent)}</TableCell>
+                  </TableRow>
+                ))}
+                <TableRow className="bg-muted/50 font-semibold">
+                  <TableCell colSpan={4}>Total</TableCell>
+                  <TableCell className="text-right">{formatCurrency(report.totals.estimatedMargin)}</TableCell>
+                  <TableCell className="text-right">{formatCurrency(report.totals.actualRevenue)}</TableCell>
+                  <TableCell className="text-right">{formatCurrency(report.totals.actualCost)}</TableCell>
+                  <TableCell className={`text-right ${marginClass(report.totals.actualMargin)}`}>
+                    {formatCurrency(report.totals.actualMargin)}
+                  </TableCell>
+                  <TableCell className="text-right">{formatPercent(report.totals.marginPercent)}</TableCell>
+                </TableRow>
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
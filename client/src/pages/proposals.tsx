@@ -1,6 +1,7 @@
 import { useState, useEffect } from "react";
 import { useQuery, useMutation } from "@tanstack/react-query";
-import { Plus, Edit, Trash2, Eye, FileText, ArrowRight, X } from "lucide-react";
+import { Link } from "wouter";
+import { Plus, Edit, Trash2, Eye, FileText, ArrowRight, X, Ship } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { DataTable } from "@/components/data-table";
 import { Badge } from "@/components/ui/badge";
@@ -35,6 +36,7 @@ import { zodResolver } from "@hookform/resolvers/zod";
 import { insertProposalSchema, insertProposalItemSchema, type Proposal, type ProposalItem, type Client, type Employee } from "@shared/schema";
 import { useToast } from "@/hooks/use-toast";
 import { apiRequest, queryClient } from "@/lib/queryClient";
+import { FreightQuoteBuilder } from "@/components/FreightQuoteBuilder";
 import type { z } from "zod";
 
 const statusColors = {
@@ -68,9 +70,13 @@ export default function ProposalsPage() {
     queryKey: ["/api/employees"],
   });
 
+  // El detalle sigue a la lista para reflejar totales y estado tras guardar o aceptar
+  const currentProposal = proposals.find((p) => p.id === selectedProposal?.id) ?? selectedProposal;
+  const isFreightQuote = currentProposal?.quoteType === "freight";
+
   const { data: proposalItems = [] } = useQuery<ProposalItem[]>({
     queryKey: ["/api/proposals", selectedProposal?.id, "items"],
-    enabled: !!selectedProposal,
+    enabled: !!selectedProposal && !isFreightQuote,
   });
 
   const form = useForm<ProposalFormData>({
@@ -88,6 +94,7 @@ export default function ProposalsPage() {
       status: "draft",
       validUntil: new Date() as any,
       convertedToInvoiceId: null,
+      quoteType: "general",
     },
   });
 
@@ -154,6 +161,13 @@ export default function ProposalsPage() {
     },
   });
 
+  const switchToFreightMutation = useMutation({
+    mutationFn: (id: string) => apiRequest("PATCH", `/api/proposals/${id}`, { quoteType: "freight" }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/proposals"] });
+    },
+  });
+
   const createItemMutation = useMutation({
     mutationFn: (data: ProposalItemFormData) =>
       apiRequest("POST", `/api/proposals/${selectedProposal?.id}/items`, data),
@@ -225,6 +239,12 @@ export default function ProposalsPage() {
         <div>
           <div className="font-medium">{row.proposalNumber}</div>
           <div className="text-sm text-muted-foreground line-clamp-1">{row.title}</div>
+          {row.quoteType === "freight" && (
+            <Badge variant="outline" className="mt-1 gap-1" data-testid={`badge-freight-${row.id}`}>
+              <Ship className="w-3 h-3" />
+              Freight
+            </Badge>
+          )}
         </div>
       ),
     },
@@ -404,6 +424,27 @@ export default function ProposalsPage() {
                     </FormItem>
                   )}
                 />
+                <FormField
+                  control={form.control}
+                  name="quoteType"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Type</FormLabel>
+                      <Select onValueChange={field.onChange} value={field.value || "general"}>
+                        <FormControl>
+                          <SelectTrigger data-testid="select-quote-type">
+                            <SelectValue />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          <SelectItem value="general">General (line items)</SelectItem>
+                          <SelectItem value="freight">Freight quote (route options and rates)</SelectItem>
+                        </SelectContent>
+                      </Select>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
                 <div className="grid grid-cols-2 gap-4">
                   <FormField
                     control={form.control}
@@ -481,7 +522,7 @@ export default function ProposalsPage() {
             </div>
           </DialogHeader>
 
-          {selectedProposal && (
+          {currentProposal && (
             <div className="space-y-6">
               <div className="grid grid-cols-3 gap-4">
                 <Card>
@@ -489,7 +530,7 @@ export default function ProposalsPage() {
                     <CardTitle className="text-sm font-medium">Subtotal</CardTitle>
                   </CardHeader>
                   <CardContent>
-                    <div className="text-2xl font-semibold">{selectedProposal.currency} {parseFloat(selectedProposal.subtotal).toFixed(2)}</div>
+                    <div className="text-2xl font-semibold">{currentProposal.currency} {parseFloat(currentProposal.subtotal).toFixed(2)}</div>
                   </CardContent>
                 </Card>
                 <Card>
@@ -497,7 +538,7 @@ export default function ProposalsPage() {
                     <CardTitle className="text-sm font-medium">Tax</CardTitle>
                   </CardHeader>
                   <CardContent>
-                    <div className="text-2xl font-semibold">{selectedProposal.currency} {parseFloat(selectedProposal.tax).toFixed(2)}</div>
+                    <div className="text-2xl font-semibold">{currentProposal.currency} {parseFloat(currentProposal.tax).toFixed(2)}</div>
                   </CardContent>
                 </Card>
                 <Card>
@@ -505,12 +546,12 @@ export default function ProposalsPage() {
                     <CardTitle className="text-sm font-medium">Total</CardTitle>
                   </CardHeader>
                   <CardContent>
-                    <div className="text-2xl font-semibold">{selectedProposal.currency} {parseFloat(selectedProposal.total).toFixed(2)}</div>
+                    <div className="text-2xl font-semibold">{currentProposal.currency} {parseFloat(currentProposal.total).toFixed(2)}</div>
                   </CardContent>
                 </Card>
               </div>
 
-              {selectedProposal.status !== "converted" && !selectedProposal.convertedToInvoiceId && (
+              {!isFreightQuote && currentProposal.status !== "converted" && !currentProposal.convertedToInvoiceId && (
                 <Card className="border-primary/20 bg-primary/5">
                   <CardHeader>
                     <CardTitle className="text-sm">Convert to Invoice</CardTitle>
@@ -520,7 +561,7 @@ export default function ProposalsPage() {
                   </CardHeader>
                   <CardContent>
                     <Button 
-                      onClick={() => convertToInvoiceMutation.mutate(selectedProposal.id)}
+                      onClick={() => convertToInvoiceMutation.mutate(currentProposal.id)}
                       disabled={convertToInvoiceMutation.isPending}
                       data-testid="button-convert-to-invoice"
                     >
@@ -531,16 +572,28 @@ export default function ProposalsPage() {
                 </Card>
               )}
 
-              {selectedProposal.status === "converted" && (
+              {currentProposal.status === "converted" && (
                 <Card className="border-purple-500/20 bg-purple-50 dark:bg-purple-950/20">
                   <CardContent className="pt-6">
-                    <p className="text-sm text-muted-foreground">
-                      This proposal has been converted to an invoice
-                    </p>
+                    {currentProposal.convertedToOperationId ? (
+                      <p className="text-sm text-muted-foreground">
+                        This quote was accepted: an operation and an invoice draft were created.{" "}
+                        <Link href={`/operations/${currentProposal.convertedToOperationId}`} className="text-primary underline" data-testid="link-converted-operation">
+                          View operation
+                        </Link>
+                      </p>
+                    ) : (
+                      <p className="text-sm text-muted-foreground">
+                        This proposal has been converted to an invoice
+                      </p>
+                    )}
                   </CardContent>
                 </Card>
               )}
 
+              {isFreightQuote ? (
+                <FreightQuoteBuilder proposal={currentProposal} />
+              ) : (
               <Card>
                 <CardHeader>
                   <div className="flex items-center justify-between">
@@ -551,10 +604,24 @@ export default function ProposalsPage() {
                       </CardTitle>
                       <CardDescription>Line items for this proposal</CardDescription>
                     </div>
-                    <Button size="sm" onClick={handleAddItem} data-testid="button-add-item">
-                      <Plus className="w-4 h-4 mr-2" />
-                      Add Item
-                    </Button>
+                    <div className="flex gap-2">
+                      {proposalItems.length === 0 && currentProposal.status !== "converted" && (
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          onClick={() => switchToFreightMutation.mutate(currentProposal.id)}
+                          disabled={switchToFreightMutation.isPending}
+                          data-testid="button-use-freight-quote"
+                        >
+                          <Ship className="w-4 h-4 mr-2" />
+                          Freight Quote
+                        </Button>
+                      )}
+                      <Button size="sm" onClick={handleAddItem} data-testid="button-add-item">
+                        <Plus className="w-4 h-4 mr-2" />
+                        Add Item
+                      </Button>
+                    </div>
                   </div>
                 </CardHeader>
                 <CardContent>
@@ -567,11 +634,11 @@ export default function ProposalsPage() {
                           <div className="flex-1">
                             <div className="font-medium">{item.description}</div>
                             <div className="text-sm text-muted-foreground">
-                              {parseFloat(item.quantity).toFixed(2)} × {selectedProposal.currency} {parseFloat(item.unitPrice).toFixed(2)}
+                              {parseFloat(item.quantity).toFixed(2)} × {currentProposal.currency} {parseFloat(item.unitPrice).toFixed(2)}
                             </div>
                           </div>
                           <div className="flex items-center gap-2">
-                            <div className="font-semibold">{selectedProposal.currency} {parseFloat(item.amount).toFixed(2)}</div>
+                            <div className="font-semibold">{currentProposal.currency} {parseFloat(item.amount).toFixed(2)}</div>
                             <Button
                               variant="ghost"
                               size="icon"
@@ -595,6 +662,7 @@ export default function ProposalsPage() {
                   )}
                 </CardContent>
               </Card>
+              )}
             </div>
           )}
         </DialogContent>
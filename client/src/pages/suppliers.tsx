@@ -0,0 +1,610 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Plus, Edit, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { DataTable } from "@/components/data-table";
+import { Badge } from "@/components/ui/badge";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { SATCombobox } from "@/components/ui/sat-combobox";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { insertSupplierSchema, type Supplier } from "@shared/schema";
+import { SAT_TAX_REGIMES } from "@shared/sat-catalogs";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import type { z } from "zod";
+
+const supplierTypeLabels: Record<string, string> = {
+  carrier: "Carrier",
+  agent: "Agent",
+  customs_broker: "Customs Broker",
+  trucker: "Trucker",
+  other: "Other",
+};
+
+const statusColors = {
+  active: "bg-green-100 text-green-800 dark:bg-green-900/30 dark:text-green-300",
+  inactive: "bg-gray-100 text-gray-800 dark:bg-gray-900/30 dark:text-gray-300",
+};
+
+type SupplierFormData = z.infer<typeof insertSupplierSchema>;
+
+const emptySupplier: SupplierFormData = {
+  name: "",
+  supplierType: "carrier",
+  email: "",
+  phone: "",
+  contactName: "",
+  address: "",
+  currency: "MXN",
+  status: "active",
+  notes: "",
+  rfc: "",
+  razonSocial: "",
+  regimenFiscal: "",
+  codigoPostal: "",
+  paymentTermsDays: 0,
+  bankName: "",
+  bankAccountNumber: "",
+  clabe: "",
+  swiftCode: "",
+};
+
+export default function SuppliersPage() {
+  const [isCreateOpen, setIsCreateOpen] = useState(false);
+  const [editingSupplier, setEditingSupplier] = useState<Supplier | null>(null);
+  const [deletingSupplier, setDeletingSupplier] = useState<Supplier | null>(null);
+  const { toast } = useToast();
+
+  const { data: suppliers = [], isLoading } = useQuery<Supplier[]>({
+    queryKey: ["/api/suppliers"],
+  });
+
+  const form = useForm<SupplierFormData>({
+    resolver: zodResolver(insertSupplierSchema),
+    defaultValues: emptySupplier,
+  });
+
+  const closeDialog = () => {
+    setIsCreateOpen(false);
+    setEditingSupplier(null);
+    form.reset(emptySupplier);
+  };
+
+  const createMutation = useMutation({
+    mutationFn: (data: SupplierFormData) => apiRequest("POST", "/api/suppliers", data),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/suppliers"] });
+      closeDialog();
+      toast({ title: "Proveedor creado exitosamente" });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error al crear proveedor",
+        description: error.message || "No se pudo crear el proveedor",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const updateMutation = useMutation({
+    mutationFn: ({ id, data }: { id: string; data: SupplierFormData }) =>
+      apiRequest("PATCH", `/api/suppliers/${id}`, data),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/suppliers"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/supplier-bills"] });
+      closeDialog();
+      toast({ title: "Proveedor actualizado exitosamente" });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error al actualizar proveedor",
+        description: error.message || "No se pudo actualizar el proveedor",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: (id: string) => apiRequest("DELETE", `/api/suppliers/${id}`, undefined),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/suppliers"] });
+      setDeletingSupplier(null);
+      toast({ title: "Proveedor eliminado exitosamente" });
+    },
+    onError: (error: any) => {
+      setDeletingSupplier(null);
+      toast({
+        title: "Error al eliminar proveedor",
+        description: error.message || "No se pudo eliminar el proveedor",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const onSubmit = (data: SupplierFormData) => {
+    if (editingSupplier) {
+      updateMutation.mutate({ id: editingSupplier.id, data });
+    } else {
+      createMutation.mutate(data);
+    }
+  };
+
+  const handleEdit = (supplier: Supplier) => {
+    setEditingSupplier(supplier);
+    const { id, createdAt, createdFromCfdi, ...values } = supplier;
+    form.reset(values);
+  };
+
+  const columns = [
+    {
+      header: "Name",
+      accessor: (row: Supplier) => (
+        <div>
+          <div className="font-medium">{row.name}</div>
+          {row.rfc && <div className="text-sm text-muted-foreground font-mono">{row.rfc}</div>}
+        </div>
+      ),
+    },
+    {
+      header: "Type",
+      accessor: (row: Supplier) => (
+        <Badge variant="outline">{supplierTypeLabels[row.supplierType] || row.supplierType}</Badge>
+      ),
+    },
+    {
+      header: "Contact",
+      accessor: (row: Supplier) => (
+        <div>
+          {row.contactName && <div className="text-sm">{row.contactName}</div>}
+          {row.email && <div className="text-sm text-muted-foreground">{row.email}</div>}
+          {!row.contactName && !row.email && "-"}
+        </div>
+      ),
+    },
+    {
+      header: "Payment Terms",
+      accessor: (row: Supplier) => (row.paymentTermsDays > 0 ? `${row.paymentTermsDays} días` : "Contado"),
+    },
+    {
+      header: "Currency",
+      accessor: (row: Supplier) => <Badge variant="outline">{row.currency}</Badge>,
+    },
+    {
+      header: "Status",
+      accessor: (row: Supplier) => (
+        <div className="flex items-center gap-1">
+          <Badge className={statusColors[row.status as keyof typeof statusColors]} data-testid={`status-${row.id}`}>
+            {row.status}
+          </Badge>
+          {row.createdFromCfdi && <Badge variant="secondary">CFDI</Badge>}
+        </div>
+      ),
+    },
+    {
+      header: "Actions",
+      accessor: (row: Supplier) => (
+        <div className="flex items-center gap-2">
+          <Button
+            variant="ghost"
+            size="icon"
+            onClick={() => handleEdit(row)}
+            data-testid={`button-edit-${row.id}`}
+          >
+            <Edit className="w-4 h-4" />
+          </Button>
+          <Button
+            variant="ghost"
+            size="icon"
+            onClick={() => setDeletingSupplier(row)}
+            data-testid={`button-delete-${row.id}`}
+          >
+            <Trash2 className="w-4 h-4" />
+          </Button>
+        </div>
+      ),
+      className: "text-right",
+    },
+  ];
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-semibold text-foreground">Suppliers</h1>
+          <p className="text-muted-foreground mt-1">Carriers, agents, customs brokers and truckers you pay</p>
+        </div>
+        <Dialog open={isCreateOpen || !!editingSupplier} onOpenChange={(open) => !open && closeDialog()}>
+          <DialogTrigger asChild>
+            <Button onClick={() => setIsCreateOpen(true)} data-testid="button-create-supplier">
+              <Plus className="w-4 h-4 mr-2" />
+              New Supplier
+            </Button>
+          </DialogTrigger>
+          <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+            <DialogHeader>
+              <DialogTitle>{editingSupplier ? "Edit Supplier" : "Create Supplier"}</DialogTitle>
+              <DialogDescription>
+                {editingSupplier ? "Update supplier details" : "Add a new supplier to the directory"}
+              </DialogDescription>
+            </DialogHeader>
+            <Form {...form}>
+              <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+                <div className="grid grid-cols-2 gap-4">
+                  <FormField
+                    control={form.control}
+                    name="name"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Name</FormLabel>
+                        <FormControl>
+                          <Input {...field} data-testid="input-name" />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  <FormField
+                    control={form.control}
+                    name="supplierType"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Type</FormLabel>
+                        <Select onValueChange={field.onChange} value={field.value}>
+                          <FormControl>
+                            <SelectTrigger data-testid="select-supplier-type">
+                              <SelectValue />
+                            </SelectTrigger>
+                          </FormControl>
+                          <SelectContent>
+                            {Object.entries(supplierTypeLabels).map(([value, label]) => (
+                              <SelectItem key={value} value={value}>{label}</SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                </div>
+                <div className="grid grid-cols-3 gap-4">
+                  <FormField
+                    control={form.control}
+                    name="contactName"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Contact</FormLabel>
+                        <FormControl>
+                          <Input {...field} value={field.value || ""} data-testid="input-contact-name" />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  <FormField
+                    control={form.control}
+                    name="email"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Email</FormLabel>
+                        <FormControl>
+                          <Input type="email" {...field} value={field.value || ""} data-testid="input-email" />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  <FormField
+                    control={form.control}
+                    name="phone"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Phone</FormLabel>
+                        <FormControl>
+                          <Input {...field} value={field.value || ""} data-testid="input-phone" />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                </div>
+                <FormField
+                  control={form.control}
+                  name="address"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Address</FormLabel>
+                      <FormControl>
+                        <Input {...field} value={field.value || ""} data-testid="input-address" />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <div className="grid grid-cols-3 gap-4">
+                  <FormField
+                    control={form.control}
+                    name="currency"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Currency</FormLabel>
+                        <Select onValueChange={field.onChange} value={field.value}>
+                          <FormControl>
+                            <SelectTrigger data-testid="select-currency">
+                              <SelectValue />
+                            </SelectTrigger>
+                          </FormControl>
+                          <SelectContent>
+                            <SelectItem value="MXN">MXN</SelectItem>
+                            <SelectItem value="USD">USD</SelectItem>
+                            <SelectItem value="EUR">EUR</SelectItem>
+                            <SelectItem value="ARS">ARS</SelectItem>
+                          </SelectContent>
+                        </Select>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  <FormField
+                    control={form.control}
+                    name="paymentTermsDays"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Payment Terms (days)</FormLabel>
+                        <FormControl>
+                          <Input
+                            type="number"
+                            min="0"
+                            {...field}
+                            value={field.value ?? 0}
+                            onChange={(e) => field.onChange(parseInt(e.target.value) || 0)}
+                            data-testid="input-payment-terms"
+                          />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  <FormField
+                    control={form.control}
+                    name="status"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Status</FormLabel>
+                        <Select onValueChange={field.onChange} value={field.value}>
+                          <FormControl>
+                            <SelectTrigger data-testid="select-status">
+                              <SelectValue />
+                            </SelectTrigger>
+                          </FormControl>
+                          <SelectContent>
+                            <SelectItem value="active">Active</SelectItem>
+                            <SelectItem value="inactive">Inactive</SelectItem>
+                          </SelectContent>
+                        </Select>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                </div>
+
+                {/* Sección de Datos Fiscales */}
+                <div className="border-t pt-4 mt-6">
+                  <h3 className="text-sm font-medium mb-3 text-foreground">Datos Fiscales</h3>
+                  <p className="text-xs text-muted-foreground mb-4">Con el RFC, los CFDI recibidos de este proveedor se registran automáticamente</p>
+                  <div className="space-y-4">
+                    <div className="grid grid-cols-2 gap-4">
+                      <FormField
+                        control={form.control}
+                        name="rfc"
+                        render={({ field }) => (
+                          <FormItem>
+                            <FormLabel>RFC</FormLabel>
+                            <FormControl>
+                              <Input {...field} value={field.value || ""} placeholder="XAXX010101000" data-testid="input-rfc" />
+                            </FormControl>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+                      <FormField
+                        control={form.control}
+                        name="razonSocial"
+                        render={({ field }) => (
+                          <FormItem>
+                            <FormLabel>Razón Social</FormLabel>
+                            <FormControl>
+                              <Input {...field} value={field.value || ""} placeholder="Nombre fiscal" data-testid="input-razon-social" />
+                            </FormControl>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+                    </div>
+                    <div className="grid grid-cols-2 gap-4">
+                      <FormField
+                        control={form.control}
+                        name="regimenFiscal"
+                        render={({ field }) => (
+                          <FormItem>
+                            <SATCombobox
+                              catalog={SAT_TAX_REGIMES}
+                              value={field.value || ""}
+                              onChange={field.onChange}
+                              label="Régimen Fiscal"
+                              placeholder="Seleccionar régimen fiscal"
+                              allowCustom={false}
+                              catalogName="regimen-fiscal"
+                            />
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+                      <FormField
+                        control={form.control}
+                        name="codigoPostal"
+                        render={({ field }) => (
+                          <FormItem>
+                            <FormLabel>Código Postal</FormLabel>
+                            <FormControl>
+                              <Input {...field} value={field.value || ""} placeholder="22000" data-testid="input-codigo-postal" />
+                            </FormControl>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+                    </div>
+                  </div>
+                </div>
+
+                {/* Datos bancarios para programar transferencias */}
+                <div className="border-t pt-4 mt-6">
+                  <h3 className="text-sm font-medium mb-3 text-foreground">Datos Bancarios</h3>
+                  <div className="grid grid-cols-2 gap-4">
+                    <FormField
+                      control={form.control}
+                      name="bankName"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Banco</FormLabel>
+                          <FormControl>
+                            <Input {...field} value={field.value || ""} data-testid="input-bank-name" />
+                          </FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                    <FormField
+                      control={form.control}
+                      name="bankAccountNumber"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Número de cuenta</FormLabel>
+                          <FormControl>
+                            <Input {...field} value={field.value || ""} data-testid="input-bank-account" />
+                          </FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                    <FormField
+                      control={form.control}
+                      name="clabe"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>CLABE</FormLabel>
+                          <FormControl>
+                            <Input {...field} value={field.value || ""} maxLength={18} data-testid="input-clabe" />
+                          </FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                    <FormField
+                      control={form.control}
+                      name="swiftCode"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>SWIFT</FormLabel>
+                          <FormControl>
+                            <Input {...field} value={field.value || ""} data-testid="input-swift" />
+                          </FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                  </div>
+                </div>
+
+                <FormField
+                  control={form.control}
+                  name="notes"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Notes</FormLabel>
+                      <FormControl>
+                        <Textarea {...field} value={field.value || ""} data-testid="input-notes" />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <div className="flex justify-end gap-2">
+                  <Button type="button" variant="outline" onClick={closeDialog}>
+                    Cancel
+                  </Button>
+                  <Button type="submit" disabled={createMutation.isPending || updateMutation.isPending} data-testid="button-submit">
+                    {editingSupplier ? "Update" : "Create"}
+                  </Button>
+                </div>
+              </form>
+            </Form>
+          </DialogContent>
+        </Dialog>
+      </div>
+
+      <DataTable
+        data={suppliers}
+        columns={columns}
+        searchPlaceholder="Search suppliers..."
+        isLoading={isLoading}
+        emptyMessage="No suppliers found. Add your first supplier to get started."
+      />
+
+      <AlertDialog open={!!deletingSupplier} onOpenChange={(open) => !open && setDeletingSupplier(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>¿Eliminar proveedor?</AlertDialogTitle>
+            <AlertDialogDescription>
+              ¿Estás seguro de que deseas eliminar el proveedor <strong>{deletingSupplier?.name}</strong>?
+              Esta acción no se puede deshacer.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancelar</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => deletingSupplier && deleteMutation.mutate(deletingSupplier.id)}
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+            >
+              Eliminar
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
@@ -0,0 +1,526 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Plus, Eye, Trash2, Archive, ArchiveRestore, Upload, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { DataTable } from "@/components/data-table";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import type { RateTariff, TariffRate, Supplier } from "@shared/schema";
+import { TARIFF_MODES, EQUIPMENT_TYPES, getTariffMode } from "@shared/tariffs";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+
+interface TariffWithSupplier extends RateTariff {
+  supplierName: string;
+  supplierType: string;
+}
+
+interface TariffRateWithLane extends TariffRate {
+  origin: { unlocode: string; name: string } | null;
+  destination: { unlocode: string; name: string } | null;
+}
+
+interface TariffImportResult {
+  tariff: RateTariff;
+  imported: number;
+  skipped: { row: number; message: string }[];
+}
+
+const statusColors = {
+  active: "bg-green-100 text-green-800 dark:bg-green-900/30 dark:text-green-300",
+  archived: "bg-gray-100 text-gray-800 dark:bg-gray-900/30 dark:text-gray-300",
+};
+
+const emptyUpload = {
+  supplierId: "",
+  name: "",
+  mode: "sea",
+  currency: "USD",
+  validFrom: "",
+  validUntil: "",
+  notes: "",
+};
+
+function formatDate(value: Date | string | null) {
+  return value ? new Date(value).toLocaleDateString() : "-";
+}
+
+/**
+ * Lee el archivo para el API: CSV como texto, XLSX en base64
+ */
+async function readTariffFile(file: File): Promise<string> {
+  if (!/\.xlsx$/i.test(file.name)) return await file.text();
+
+  const bytes = new Uint8Array(await file.arrayBuffer());
+  let binary = "";
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode.apply(null, Array.from(bytes.subarray(i, i + 0x8000)));
+  }
+  return btoa(binary);
+}
+
+export default function TariffsPage() {
+  const [isUploadOpen, setIsUploadOpen] = useState(false);
+  const [upload, setUpload] = useState(emptyUpload);
+  const [file, setFile] = useState<File | null>(null);
+  const [lastImport, setLastImport] = useState<TariffImportResult | null>(null);
+  const [viewingTariff, setViewingTariff] = useState<TariffWithSupplier | null>(null);
+  const [deletingTariff, setDeletingTariff] = useState<TariffWithSupplier | null>(null);
+  const { toast } = useToast();
+
+  const { data: tariffs = [], isLoading } = useQuery<TariffWithSupplier[]>({
+    queryKey: ["/api/tariffs"],
+  });
+
+  const { data: suppliers = [] } = useQuery<Supplier[]>({
+    queryKey: ["/api/suppliers"],
+  });
+
+  const { data: rates = [], isLoading: ratesLoading } = useQuery<TariffRateWithLane[]>({
+    queryKey: ["/api/tariffs", viewingTariff?.id, "rates"],
+    enabled: !!viewingTariff,
+  });
+
+  const rateSuppliers = suppliers.filter((s) => s.status === "active" && ["carrier", "agent"].includes(s.supplierType));
+
+  const closeUpload = () => {
+    setIsUploadOpen(false);
+    setUpload(emptyUpload);
+    setFile(null);
+  };
+
+  const importMutation = useMutation({
+    mutationFn: async () => {
+      const content = await readTariffFile(file!);
+      const res = await apiRequest("POST", "/api/tariffs/import", {
+        ...upload,
+        validFrom: upload.validFrom || null,
+        validUntil: upload.validUntil || null,
+        notes: upload.notes || null,
+        fileName: file!.name,
+        content,
+      });
+      return await res.json() as TariffImportResult;
+    },
+    onSuccess: (result) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/tariffs"] });
+      closeUpload();
+      setLastImport(result.skipped.length > 0 ? result : null);
+      toast({
+        title: "Tarifario importado",
+        description: `${result.imported} tarifas importadas${result.skipped.length > 0 ? `, ${result.skipped.length} filas omitidas` : ""}`,
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error al importar tarifario",
+        description: error.message || "No se pudo importar el tarifario",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const statusMutation = useMutation({
+    mutationFn: ({ id, status }: { id: string; status: "active" | "archived" }) =>
+      apiRequest("PATCH", `/api/tariffs/${id}`, { status }),
+    onSuccess: (_, { status }) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/tariffs"] });
+      toast({ title: status === "archived" ? "Tarifario archivado" : "Tarifario reactivado" });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.message || "No se pudo actualizar el tarifario",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: (id: string) => apiRequest("DELETE", `/api/tariffs/${id}`, undefined),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/tariffs"] });
+      setDeletingTariff(null);
+      toast({ title: "Tarifario eliminado exitosamente" });
+    },
+    onError: (error: any) => {
+      setDeletingTariff(null);
+      toast({
+        title: "Error al eliminar tarifario",
+        description: error.message || "No se pudo eliminar el tarifario",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const columns = [
+    {
+      header: "Tariff",
+      accessor: (row: TariffWithSupplier) => (
+        <div>
+          <div className="font-medium">{row.name}</div>
+          {row.fileName && <div className="text-sm text-muted-foreground">{row.fileName}</div>}
+        </div>
+      ),
+    },
+    {
+      header: "Supplier",
+      accessor: (row: TariffWithSupplier) => (
+        <div>
+          <div className="text-sm">{row.supplierName}</div>
+          <div className="text-xs text-muted-foreground capitalize">{row.supplierType}</div>
+        </div>
+      ),
+    },
+    {
+      header: "Mode",
+      accessor: (row: TariffWithSupplier) => (
+        <Badge variant="outline">{getTariffMode(row.mode)?.label || row.mode}</Badge>
+      ),
+    },
+    {
+      header: "Rates",
+      accessor: (row: TariffWithSupplier) => row.rateCount,
+    },
+    {
+      header: "Validity",
+      accessor: (row: TariffWithSupplier) =>
+        row.validFrom || row.validUntil ? `${formatDate(row.validFrom)} - ${formatDate(row.validUntil)}` : "Per row",
+    },
+    {
+      header: "Status",
+      accessor: (row: TariffWithSupplier) => (
+        <Badge className={statusColors[row.status as keyof typeof statusColors]} data-testid={`status-${row.id}`}>
+          {row.status}
+        </Badge>
+      ),
+    },
+    {
+      header: "Actions",
+      accessor: (row: TariffWithSupplier) => (
+        <div className="flex items-center gap-2">
+          <Button
+            variant="ghost"
+            size="icon"
+            onClick={() => setViewingTariff(row)}
+            data-testid={`button-view-${row.id}`}
+          >
+            <Eye className="w-4 h-4" />
+          </Button>
+          <Button
+            variant="ghost"
+            size="icon"
+            onClick={() => statusMutation.mutate({ id: row.id, status: row.status === "active" ? "archived" : "active" })}
+            disabled={statusMutation.isPending}
+            title={row.status === "active" ? "Archive" : "Reactivate"}
+            data-testid={`button-archive-${row.id}`}
+          >
+            {row.status === "active" ? <Archive className="w-4 h-4" /> : <ArchiveRestore className="w-4 h-4" />}
+          </Button>
+          <Button
+            variant="ghost"
+            size="icon"
+            onClick={() => setDeletingTariff(row)}
+            data-testid={`button-delete-${row.id}`}
+          >
+            <Trash2 className="w-4 h-4" />
+          </Button>
+        </div>
+      ),
+      className: "text-right",
+    },
+  ];
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-semibold text-foreground">Rate Tariffs</h1>
+          <p className="text-muted-foreground mt-1">Carrier and agent rate sheets used to quote lanes</p>
+        </div>
+        <Dialog open={isUploadOpen} onOpenChange={(open) => (open ? setIsUploadOpen(true) : closeUpload())}>
+          <DialogTrigger asChild>
+            <Button data-testid="button-upload-tariff">
+              <Plus className="w-4 h-4 mr-2" />
+              Upload Tariff
+            </Button>
+          </DialogTrigger>
+          <DialogContent className="max-w-2xl">
+            <DialogHeader>
+              <DialogTitle>Upload Tariff</DialogTitle>
+              <DialogDescription>
+                CSV or XLSX with origin, destination and rate columns (UN/LOCODE or IATA codes). Optional columns:
+                equipment, weight break, minimum, currency, validity, transit time, carrier and surcharges by charge code (BAF, LSS, THC, FSC...).
+              </DialogDescription>
+            </DialogHeader>
+            <form
+              className="space-y-4"
+              onSubmit={(e) => {
+                e.preventDefault();
+                importMutation.mutate();
+              }}
+            >
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label>Supplier</Label>
+                  <Select value={upload.supplierId} onValueChange={(value) => setUpload({ ...upload, supplierId: value })}>
+                    <SelectTrigger data-testid="select-tariff-supplier">
+                      <SelectValue placeholder="Select carrier or agent" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {rateSuppliers.map((supplier) => (
+                        <SelectItem key={supplier.id} value={supplier.id}>
+                          {supplier.name}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-2">
+                  <Label>Name</Label>
+                  <Input
+                    value={upload.name}
+                    onChange={(e) => setUpload({ ...upload, name: e.target.value })}
+                    placeholder="e.g., Asia - Mexico Q4"
+                    data-testid="input-tariff-name"
+                  />
+                </div>
+              </div>
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label>Mode</Label>
+                  <Select value={upload.mode} onValueChange={(value) => setUpload({ ...upload, mode: value })}>
+                    <SelectTrigger data-testid="select-tariff-mode">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {TARIFF_MODES.map((mode) => (
+                        <SelectItem key={mode.code} value={mode.code}>{mode.label}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-2">
+                  <Label>Default Currency</Label>
+                  <Input
+                    value={upload.currency}
+                    maxLength={3}
+                    onChange={(e) => setUpload({ ...upload, currency: e.target.value.toUpperCase() })}
+                    data-testid="input-tariff-currency"
+                  />
+                </div>
+              </div>
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label>Valid From</Label>
+                  <Input
+                    type="date"
+                    value={upload.validFrom}
+                    onChange={(e) => setUpload({ ...upload, validFrom: e.target.value })}
+                    data-testid="input-tariff-valid-from"
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label>Valid Until</Label>
+                  <Input
+                    type="date"
+                    value={upload.validUntil}
+                    onChange={(e) => setUpload({ ...upload, validUntil: e.target.value })}
+                    data-testid="input-tariff-valid-until"
+                  />
+                </div>
+              </div>
+              <p className="text-sm text-muted-foreground">Rows without their own currency or validity use these defaults.</p>
+              <div className="space-y-2">
+                <Label>Notes</Label>
+                <Textarea
+                  value={upload.notes}
+                  onChange={(e) => setUpload({ ...upload, notes: e.target.value })}
+                  data-testid="input-tariff-notes"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label>File</Label>
+                <Input
+                  type="file"
+                  accept=".csv,.txt,.xlsx"
+                  onChange={(e) => setFile(e.target.files?.[0] || null)}
+                  data-testid="input-tariff-file"
+                />
+              </div>
+              <div className="flex justify-end gap-2">
+                <Button type="button" variant="outline" onClick={closeUpload}>
+                  Cancel
+                </Button>
+                <Button
+                  type="submit"
+                  disabled={!file || !upload.supplierId || !upload.name.trim() || importMutation.isPending}
+                  data-testid="button-submit-tariff"
+                >
+                  <Upload className="w-4 h-4 mr-2" />
+                  {importMutation.isPending ? "Importing..." : "Import"}
+                </Button>
+              </div>
+            </form>
+          </DialogContent>
+        </Dialog>
+      </div>
+
+      {lastImport && (
+        <Card className="border-yellow-500/30 bg-yellow-50 dark:bg-yellow-950/20" data-testid="card-import-skipped">
+          <CardHeader className="pb-3">
+            <div className="flex items-center justify-between">
+              <div>
+                <CardTitle className="text-sm">Rows skipped in {lastImport.tariff.name}</CardTitle>
+                <CardDescription>
+                  {lastImport.imported} rates imported, {lastImport.skipped.length} rows skipped
+                </CardDescription>
+              </div>
+              <Button variant="ghost" size="icon" onClick={() => setLastImport(null)}>
+                <X className="w-4 h-4" />
+              </Button>
+            </div>
+          </CardHeader>
+          <CardContent>
+            <ul className="text-sm space-y-1">
+              {lastImport.skipped.slice(0, 20).map((error) => (
+                <li key={error.row}>
+                  <span className="font-mono text-muted-foreground">Fila {error.row}:</span> {error.message}
+                </li>
+              ))}
+              {lastImport.skipped.length > 20 && (
+                <li className="text-muted-foreground">... y {lastImport.skipped.length - 20} más</li>
+              )}
+            </ul>
+          </CardContent>
+        </Card>
+      )}
+
+      <DataTable
+        data={tariffs}
+        columns={columns}
+        searchPlaceholder="Search tariffs..."
+        isLoading={isLoading}
+        emptyMessage="No tariffs found. Upload a carrier or agent rate sheet to get started."
+      />
+
+      <Dialog open={!!viewingTariff} onOpenChange={(open) => !open && setViewingTariff(null)}>
+        <DialogContent className="max-w-5xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>{viewingTariff?.name}</DialogTitle>
+            <DialogDescription>
+              {viewingTariff?.supplierName} · {viewingTariff?.rateCount} rates
+            </DialogDescription>
+          </DialogHeader>
+          {ratesLoading ? (
+            <p className="text-sm text-muted-foreground text-center py-4">Loading rates...</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Lane</TableHead>
+                  <TableHead>Equipment / Break</TableHead>
+                  <TableHead className="text-right">Rate</TableHead>
+                  <TableHead className="text-right">Minimum</TableHead>
+                  <TableHead>Surcharges</TableHead>
+                  <TableHead>Carrier</TableHead>
+                  <TableHead>Transit</TableHead>
+                  <TableHead>Validity</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {rates.map((rate) => (
+                  <TableRow key={rate.id} data-testid={`row-rate-${rate.id}`}>
+                    <TableCell>
+                      <div className="font-mono text-sm">{rate.origin?.unlocode} → {rate.destination?.unlocode}</div>
+                      <div className="text-xs text-muted-foreground">{rate.origin?.name} → {rate.destination?.name}</div>
+                    </TableCell>
+                    <TableCell>
+                      {rate.basis === "per_kg"
+                        ? `+${Number(rate.weightBreakKg || 0)} kg`
+                        : EQUIPMENT_TYPES.find((item) => item.code === rate.equipmentType)?.label || rate.equipmentType || "-"}
+                    </TableCell>
+                    <TableCell className="text-right whitespace-nowrap">
+                      {rate.currency} {Number(rate.baseRate).toFixed(2)}
+                      {rate.basis === "per_kg" && <span className="text-muted-foreground">/kg</span>}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      {rate.minimumCharge ? `${rate.currency} ${Number(rate.minimumCharge).toFixed(2)}` : "-"}
+                    </TableCell>
+                    <TableCell className="text-sm">
+                      {rate.surcharges.length > 0
+                        ? rate.surcharges.map((surcharge) => `${surcharge.chargeCode} ${surcharge.rate}`).join(", ")
+                        : "-"}
+                    </TableCell>
+                    <TableCell>{rate.carrier || "-"}</TableCell>
+                    <TableCell>{rate.transitDays ? `${rate.transitDays} d` : "-"}</TableCell>
+                    <TableCell className="text-sm whitespace-nowrap">
+                      {formatDate(rate.validFrom)} - {formatDate(rate.validUntil)}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </DialogContent>
+      </Dialog>
+
+      <AlertDialog open={!!deletingTariff} onOpenChange={(open) => !open && setDeletingTariff(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>¿Eliminar tarifario?</AlertDialogTitle>
+            <AlertDialogDescription>
+              ¿Estás seguro de que deseas eliminar el tarifario <strong>{deletingTariff?.name}</strong> y sus{" "}
+              {deletingTariff?.rateCount} tarifas? Para conservarlo sin usarlo en cotizaciones, archívalo.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancelar</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => deletingTariff && deleteMutation.mutate(deletingTariff.id)}
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+            >
+              Eliminar
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
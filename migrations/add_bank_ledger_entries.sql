@@ -0,0 +1,25 @@
+-- Migración para el libro mayor de cuentas bancarias
+-- Fecha: 2026-10-19
+--
+-- Después de aplicarla hay que correr `npm run ledger:rebuild`: genera las entradas de los
+-- pagos y gastos existentes y recalcula `current_balance` de cada cuenta. Sin ese paso, el
+-- primer movimiento nuevo de una cuenta con historial recalcularía su saldo sin el historial.
+
+CREATE TABLE IF NOT EXISTS bank_ledger_entries (
+  id VARCHAR PRIMARY KEY DEFAULT gen_random_uuid(),
+  bank_account_id VARCHAR NOT NULL REFERENCES bank_accounts(id) ON DELETE CASCADE,
+  entry_type TEXT NOT NULL,
+  payment_id VARCHAR REFERENCES payments(id) ON DELETE CASCADE,
+  expense_id VARCHAR REFERENCES expenses(id) ON DELETE CASCADE,
+  amount DECIMAL(12,2) NOT NULL,
+  running_balance DECIMAL(12,2) NOT NULL DEFAULT 0,
+  entry_date TIMESTAMP NOT NULL,
+  description TEXT NOT NULL,
+  reference TEXT,
+  created_by_id VARCHAR REFERENCES users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_bank_ledger_entries_account_date ON bank_ledger_entries(bank_account_id, entry_date);
+CREATE INDEX IF NOT EXISTS idx_bank_ledger_entries_payment ON bank_ledger_entries(payment_id);
+CREATE INDEX IF NOT EXISTS idx_bank_ledger_entries_expense ON bank_ledger_entries(expense_id);
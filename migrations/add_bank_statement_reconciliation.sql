@@ -0,0 +1,45 @@
+-- Migración para importar estados de cuenta bancarios y conciliarlos contra pagos y gastos
+-- Fecha: 2026-10-19
+
+CREATE TABLE IF NOT EXISTS bank_statement_imports (
+  id VARCHAR PRIMARY KEY DEFAULT gen_random_uuid(),
+  bank_account_id VARCHAR NOT NULL REFERENCES bank_accounts(id) ON DELETE CASCADE,
+  file_name TEXT NOT NULL,
+  format TEXT NOT NULL,
+  period_start TIMESTAMP,
+  period_end TIMESTAMP,
+  opening_balance DECIMAL(12,2),
+  closing_balance DECIMAL(12,2),
+  total_lines INTEGER NOT NULL DEFAULT 0,
+  duplicate_lines INTEGER NOT NULL DEFAULT 0,
+  matched_lines INTEGER NOT NULL DEFAULT 0,
+  uploaded_by_id VARCHAR REFERENCES users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP NOT NULL DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS bank_statement_lines (
+  id VARCHAR PRIMARY KEY DEFAULT gen_random_uuid(),
+  import_id VARCHAR NOT NULL REFERENCES bank_statement_imports(id) ON DELETE CASCADE,
+  bank_account_id VARCHAR NOT NULL REFERENCES bank_accounts(id) ON DELETE CASCADE,
+  transaction_date TIMESTAMP NOT NULL,
+  amount DECIMAL(12,2) NOT NULL,
+  description TEXT NOT NULL,
+  reference TEXT,
+  external_id TEXT,
+  balance DECIMAL(12,2),
+  fingerprint TEXT NOT NULL,
+  status TEXT NOT NULL DEFAULT 'unmatched',
+  matched_payment_id VARCHAR REFERENCES payments(id) ON DELETE SET NULL,
+  matched_expense_id VARCHAR REFERENCES expenses(id) ON DELETE SET NULL,
+  matched_suggestion_id VARCHAR REFERENCES financial_suggestions(id) ON DELETE SET NULL,
+  match_confidence DECIMAL(5,2),
+  match_method TEXT,
+  reconciled_by_id VARCHAR REFERENCES users(id) ON DELETE SET NULL,
+  reconciled_at TIMESTAMP,
+  created_at TIMESTAMP NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_bank_statement_imports_account ON bank_statement_imports(bank_account_id);
+CREATE INDEX IF NOT EXISTS idx_bank_statement_lines_import ON bank_statement_lines(import_id);
+CREATE INDEX IF NOT EXISTS idx_bank_statement_lines_account_status ON bank_statement_lines(bank_account_id, status);
+CREATE INDEX IF NOT EXISTS idx_bank_statement_lines_fingerprint ON bank_statement_lines(bank_account_id, fingerprint);
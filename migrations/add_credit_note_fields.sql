@@ -0,0 +1,8 @@
+-- Migración para notas de crédito (CFDI de Egreso) ligadas a la factura original
+-- Fecha: 2026-10-19
+
+ALTER TABLE invoices
+ADD COLUMN IF NOT EXISTS amount_credited DECIMAL(12, 2) NOT NULL DEFAULT 0,
+ADD COLUMN IF NOT EXISTS related_invoice_id VARCHAR;
+
+CREATE INDEX IF NOT EXISTS idx_invoices_related_invoice_id ON invoices(related_invoice_id);
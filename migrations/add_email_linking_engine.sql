@@ -0,0 +1,30 @@
+-- Migración para el motor de vinculación de correos a operaciones con bitácora de decisiones
+-- Fecha: 2026-10-19
+
+CREATE TABLE IF NOT EXISTS email_linking_matchers (
+  id VARCHAR PRIMARY KEY DEFAULT gen_random_uuid(),
+  matcher_key TEXT NOT NULL UNIQUE,
+  is_enabled BOOLEAN NOT NULL DEFAULT TRUE,
+  weight INTEGER NOT NULL,
+  updated_at TIMESTAMP NOT NULL DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS email_link_decisions (
+  id VARCHAR PRIMARY KEY DEFAULT gen_random_uuid(),
+  gmail_message_id VARCHAR NOT NULL REFERENCES gmail_messages(id) ON DELETE CASCADE,
+  operation_id VARCHAR REFERENCES operations(id) ON DELETE SET NULL,
+  decision TEXT NOT NULL,
+  score INTEGER NOT NULL DEFAULT 0,
+  reason TEXT NOT NULL,
+  candidates JSONB,
+  review_status TEXT NOT NULL DEFAULT 'pending',
+  reviewed_operation_id VARCHAR REFERENCES operations(id) ON DELETE SET NULL,
+  reviewed_by VARCHAR REFERENCES users(id) ON DELETE SET NULL,
+  reviewed_at TIMESTAMP,
+  evaluated_at TIMESTAMP NOT NULL DEFAULT NOW(),
+  created_at TIMESTAMP NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_email_link_decisions_message ON email_link_decisions(gmail_message_id);
+CREATE INDEX IF NOT EXISTS idx_email_link_decisions_review ON email_link_decisions(review_status, decision);
+CREATE INDEX IF NOT EXISTS idx_gmail_messages_thread ON gmail_messages(thread_id);
@@ -0,0 +1,17 @@
+-- Migración para plantillas de correo con campos de la operación
+-- Fecha: 2026-10-19
+
+CREATE TABLE IF NOT EXISTS email_templates (
+  id VARCHAR PRIMARY KEY DEFAULT gen_random_uuid(),
+  name TEXT NOT NULL,
+  category TEXT NOT NULL DEFAULT 'other',
+  language TEXT NOT NULL DEFAULT 'es',
+  subject TEXT NOT NULL,
+  body TEXT NOT NULL,
+  is_active BOOLEAN NOT NULL DEFAULT TRUE,
+  created_by VARCHAR REFERENCES users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMP NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_email_templates_language ON email_templates(language);
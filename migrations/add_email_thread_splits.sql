@@ -0,0 +1,9 @@
+-- Migración para vinculación por hilo: hilos divididos entre operaciones
+-- Fecha: 2026-10-19
+
+CREATE TABLE IF NOT EXISTS email_thread_splits (
+  id VARCHAR PRIMARY KEY DEFAULT gen_random_uuid(),
+  thread_id TEXT NOT NULL UNIQUE,
+  split_by VARCHAR REFERENCES users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP NOT NULL DEFAULT NOW()
+);
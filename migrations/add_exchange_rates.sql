@@ -0,0 +1,17 @@
+-- Migración para tipos de cambio diarios y TipoCambio de facturas
+-- Fecha: 2026-10-19
+
+CREATE TABLE IF NOT EXISTS exchange_rates (
+  id VARCHAR PRIMARY KEY DEFAULT gen_random_uuid(),
+  currency TEXT NOT NULL,
+  rate_date TIMESTAMP NOT NULL,
+  rate DECIMAL(12,6) NOT NULL,
+  source TEXT NOT NULL DEFAULT 'manual',
+  created_by_id VARCHAR REFERENCES users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP NOT NULL DEFAULT NOW()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_exchange_rates_currency_date ON exchange_rates(currency, rate_date);
+
+ALTER TABLE invoices
+ADD COLUMN IF NOT EXISTS exchange_rate DECIMAL(12,6);
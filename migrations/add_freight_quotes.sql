@@ -0,0 +1,48 @@
+-- Migración para cotizaciones de flete: opciones de ruta y cargos con compra / venta
+-- Fecha: 2026-10-19
+
+ALTER TABLE proposals ADD COLUMN IF NOT EXISTS quote_type TEXT NOT NULL DEFAULT 'general';
+ALTER TABLE proposals ADD COLUMN IF NOT EXISTS project_category TEXT;
+ALTER TABLE proposals ADD COLUMN IF NOT EXISTS operation_type TEXT;
+ALTER TABLE proposals ADD COLUMN IF NOT EXISTS shipping_mode TEXT;
+ALTER TABLE proposals ADD COLUMN IF NOT EXISTS incoterm TEXT;
+ALTER TABLE proposals ADD COLUMN IF NOT EXISTS origin_location_id VARCHAR REFERENCES locations(id) ON DELETE SET NULL;
+ALTER TABLE proposals ADD COLUMN IF NOT EXISTS destination_location_id VARCHAR REFERENCES locations(id) ON DELETE SET NULL;
+ALTER TABLE proposals ADD COLUMN IF NOT EXISTS cargo_description TEXT;
+ALTER TABLE proposals ADD COLUMN IF NOT EXISTS cargo_value DECIMAL(12,2);
+ALTER TABLE proposals ADD COLUMN IF NOT EXISTS selected_option_id VARCHAR;
+ALTER TABLE proposals ADD COLUMN IF NOT EXISTS converted_to_operation_id VARCHAR REFERENCES operations(id) ON DELETE SET NULL;
+
+CREATE TABLE IF NOT EXISTS proposal_route_options (
+  id VARCHAR PRIMARY KEY DEFAULT gen_random_uuid(),
+  proposal_id VARCHAR NOT NULL REFERENCES proposals(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  carrier TEXT,
+  transit_days INTEGER,
+  transshipment_location_ids TEXT[],
+  valid_until TIMESTAMP,
+  notes TEXT,
+  buy_total DECIMAL(12,2) NOT NULL DEFAULT 0,
+  sell_total DECIMAL(12,2) NOT NULL DEFAULT 0,
+  sort_order INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMP NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_proposal_route_options_proposal ON proposal_route_options(proposal_id);
+
+CREATE TABLE IF NOT EXISTS proposal_charge_lines (
+  id VARCHAR PRIMARY KEY DEFAULT gen_random_uuid(),
+  option_id VARCHAR NOT NULL REFERENCES proposal_route_options(id) ON DELETE CASCADE,
+  charge_code TEXT NOT NULL,
+  description TEXT,
+  basis TEXT NOT NULL,
+  quantity DECIMAL(12,3) NOT NULL DEFAULT 1,
+  currency TEXT NOT NULL,
+  buy_rate DECIMAL(12,4) NOT NULL DEFAULT 0,
+  sell_rate DECIMAL(12,4) NOT NULL DEFAULT 0,
+  exchange_rate DECIMAL(12,6) NOT NULL DEFAULT 1,
+  sort_order INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMP NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_proposal_charge_lines_option ON proposal_charge_lines(option_id);
@@ -0,0 +1,5 @@
+-- Migración para sincronización incremental de Gmail con la History API
+-- Fecha: 2026-10-19
+
+ALTER TABLE gmail_accounts
+ADD COLUMN IF NOT EXISTS history_id TEXT;
@@ -0,0 +1,20 @@
+-- Migración para buzones IMAP/SMTP junto a Gmail (proveedor de correo por cuenta)
+-- Fecha: 2026-10-19
+
+ALTER TABLE gmail_accounts ADD COLUMN IF NOT EXISTS provider TEXT NOT NULL DEFAULT 'gmail';
+
+-- Los tokens OAuth solo aplican a cuentas de Gmail
+ALTER TABLE gmail_accounts ALTER COLUMN access_token DROP NOT NULL;
+ALTER TABLE gmail_accounts ALTER COLUMN refresh_token DROP NOT NULL;
+ALTER TABLE gmail_accounts ALTER COLUMN token_expiry DROP NOT NULL;
+
+ALTER TABLE gmail_accounts ADD COLUMN IF NOT EXISTS imap_host TEXT;
+ALTER TABLE gmail_accounts ADD COLUMN IF NOT EXISTS imap_port INTEGER;
+ALTER TABLE gmail_accounts ADD COLUMN IF NOT EXISTS imap_secure BOOLEAN NOT NULL DEFAULT TRUE;
+ALTER TABLE gmail_accounts ADD COLUMN IF NOT EXISTS smtp_host TEXT;
+ALTER TABLE gmail_accounts ADD COLUMN IF NOT EXISTS smtp_port INTEGER;
+ALTER TABLE gmail_accounts ADD COLUMN IF NOT EXISTS smtp_secure BOOLEAN NOT NULL DEFAULT TRUE;
+ALTER TABLE gmail_accounts ADD COLUMN IF NOT EXISTS mail_username TEXT;
+ALTER TABLE gmail_accounts ADD COLUMN IF NOT EXISTS mail_password TEXT;
+ALTER TABLE gmail_accounts ADD COLUMN IF NOT EXISTS imap_use_idle BOOLEAN NOT NULL DEFAULT TRUE;
+ALTER TABLE gmail_accounts ADD COLUMN IF NOT EXISTS imap_sync_state JSONB;
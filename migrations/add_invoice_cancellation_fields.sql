@@ -0,0 +1,15 @@
+-- Migración para el flujo de cancelación de facturas ante el SAT
+-- Fecha: 2026-10-19
+
+ALTER TABLE invoices
+ADD COLUMN IF NOT EXISTS cancellation_status TEXT,
+ADD COLUMN IF NOT EXISTS cancellation_motive TEXT,
+ADD COLUMN IF NOT EXISTS cancellation_requested_at TIMESTAMP,
+ADD COLUMN IF NOT EXISTS cancelled_at TIMESTAMP,
+ADD COLUMN IF NOT EXISTS cancellation_error TEXT,
+ADD COLUMN IF NOT EXISTS cancellation_acuse_b2_key TEXT,
+ADD COLUMN IF NOT EXISTS replaces_invoice_id VARCHAR;
+
+-- Seguimiento de cancelaciones pendientes de aceptación del receptor
+CREATE INDEX IF NOT EXISTS idx_invoices_cancellation_status ON invoices(cancellation_status);
+CREATE INDEX IF NOT EXISTS idx_invoices_replaces_invoice_id ON invoices(replaces_invoice_id);
@@ -0,0 +1,43 @@
+-- Migración para calcular el saldo de facturas a partir de los pagos asignados
+-- Fecha: 2026-10-19
+
+-- Monto pagado por factura (limitado al total; el excedente es saldo a favor)
+ALTER TABLE invoices
+ADD COLUMN IF NOT EXISTS amount_paid DECIMAL(12,2) NOT NULL DEFAULT 0;
+
+-- Sobrepagos registrados como saldo a favor del cliente
+CREATE TABLE IF NOT EXISTS client_credits (
+  id VARCHAR PRIMARY KEY DEFAULT gen_random_uuid(),
+  client_id VARCHAR NOT NULL REFERENCES clients(id) ON DELETE CASCADE,
+  invoice_id VARCHAR REFERENCES invoices(id) ON DELETE SET NULL,
+  payment_id VARCHAR REFERENCES payments(id) ON DELETE CASCADE,
+  amount DECIMAL(12,2) NOT NULL,
+  currency TEXT NOT NULL,
+  status TEXT NOT NULL DEFAULT 'available',
+  notes TEXT,
+  created_at TIMESTAMP NOT NULL DEFAULT NOW()
+);
+
+-- Backfill de amount_paid con los pagos existentes
+UPDATE invoices i
+SET amount_paid = LEAST(i.total, p.paid)
+FROM (
+  SELECT invoice_id, SUM(amount) AS paid
+  FROM payments
+  WHERE invoice_id IS NOT NULL
+  GROUP BY invoice_id
+) p
+WHERE p.invoice_id = i.id;
+
+-- Recalcular estado de facturas por cobrar según lo pagado (las marcadas como pagadas se respetan)
+UPDATE invoices
+SET status = CASE
+    WHEN total > 0 AND amount_paid >= total THEN 'paid'
+    WHEN due_date < NOW() THEN 'overdue'
+    WHEN amount_paid > 0 THEN 'partially_paid'
+    ELSE 'sent'
+  END
+WHERE status IN ('sent', 'overdue');
+
+-- Índice para sumar pagos por factura
+CREATE INDEX IF NOT EXISTS idx_payments_invoice_id ON payments(invoice_id);
@@ -0,0 +1,29 @@
+-- Migración para el catálogo de ubicaciones UN/LOCODE y la ruta estructurada de las operaciones
+-- Fecha: 2026-10-19
+-- Después de aplicarla, cargar el catálogo con: npm run locations:import -- <CodeListPart1.csv> [...]
+
+CREATE TABLE IF NOT EXISTS locations (
+  id VARCHAR PRIMARY KEY DEFAULT gen_random_uuid(),
+  unlocode TEXT NOT NULL UNIQUE,
+  country_code TEXT NOT NULL,
+  name TEXT NOT NULL,
+  name_ascii TEXT NOT NULL,
+  subdivision TEXT,
+  functions TEXT NOT NULL,
+  is_seaport BOOLEAN NOT NULL DEFAULT false,
+  is_airport BOOLEAN NOT NULL DEFAULT false,
+  is_inland_depot BOOLEAN NOT NULL DEFAULT false,
+  iata_code TEXT,
+  latitude DECIMAL(9,6),
+  longitude DECIMAL(9,6),
+  created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMP NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_locations_name_ascii ON locations(name_ascii);
+CREATE INDEX IF NOT EXISTS idx_locations_country ON locations(country_code);
+
+ALTER TABLE operations
+ADD COLUMN IF NOT EXISTS origin_location_id VARCHAR REFERENCES locations(id) ON DELETE SET NULL,
+ADD COLUMN IF NOT EXISTS destination_location_id VARCHAR REFERENCES locations(id) ON DELETE SET NULL,
+ADD COLUMN IF NOT EXISTS transshipment_location_ids TEXT[];
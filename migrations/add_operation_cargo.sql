@@ -0,0 +1,37 @@
+-- Migración para la carga de operaciones: contenedores y líneas de carga
+-- Fecha: 2026-10-19
+
+CREATE TABLE IF NOT EXISTS operation_containers (
+  id VARCHAR PRIMARY KEY DEFAULT gen_random_uuid(),
+  operation_id VARCHAR NOT NULL REFERENCES operations(id) ON DELETE CASCADE,
+  container_number TEXT,
+  container_type TEXT,
+  seal_number TEXT,
+  tare_weight_kg DECIMAL(12,3),
+  gross_weight_kg DECIMAL(12,3),
+  reefer_temperature_c DECIMAL(5,1),
+  sort_order INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMP NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_operation_containers_operation ON operation_containers(operation_id);
+CREATE INDEX IF NOT EXISTS idx_operation_containers_number ON operation_containers(container_number);
+
+CREATE TABLE IF NOT EXISTS operation_cargo_lines (
+  id VARCHAR PRIMARY KEY DEFAULT gen_random_uuid(),
+  operation_id VARCHAR NOT NULL REFERENCES operations(id) ON DELETE CASCADE,
+  container_id VARCHAR REFERENCES operation_containers(id) ON DELETE SET NULL,
+  description TEXT NOT NULL,
+  hs_code TEXT,
+  package_type TEXT NOT NULL DEFAULT 'carton',
+  package_count INTEGER NOT NULL DEFAULT 1,
+  gross_weight_kg DECIMAL(12,3) NOT NULL DEFAULT 0,
+  length_cm DECIMAL(10,2),
+  width_cm DECIMAL(10,2),
+  height_cm DECIMAL(10,2),
+  volume_cbm DECIMAL(12,3) NOT NULL DEFAULT 0,
+  sort_order INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMP NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_operation_cargo_lines_operation ON operation_cargo_lines(operation_id);
@@ -0,0 +1,45 @@
+-- Migración para la línea de tiempo de hitos del embarque (planeado / estimado / real)
+-- Fecha: 2026-10-19
+
+CREATE TABLE IF NOT EXISTS operation_milestones (
+  id VARCHAR PRIMARY KEY DEFAULT gen_random_uuid(),
+  operation_id VARCHAR NOT NULL REFERENCES operations(id) ON DELETE CASCADE,
+  milestone_type TEXT NOT NULL,
+  planned_at TIMESTAMP,
+  estimated_at TIMESTAMP,
+  actual_at TIMESTAMP,
+  location TEXT,
+  source TEXT NOT NULL DEFAULT 'manual',
+  source_gmail_message_id VARCHAR REFERENCES gmail_messages(id) ON DELETE SET NULL,
+  notes TEXT,
+  delay_acknowledged_minutes INTEGER,
+  delay_acknowledged_by VARCHAR REFERENCES users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMP NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_operation_milestones_operation ON operation_milestones(operation_id);
+
+CREATE TABLE IF NOT EXISTS operation_milestone_changes (
+  id VARCHAR PRIMARY KEY DEFAULT gen_random_uuid(),
+  milestone_id VARCHAR NOT NULL REFERENCES operation_milestones(id) ON DELETE CASCADE,
+  field TEXT NOT NULL,
+  previous_value TIMESTAMP,
+  new_value TIMESTAMP,
+  source TEXT NOT NULL,
+  source_gmail_message_id VARCHAR REFERENCES gmail_messages(id) ON DELETE SET NULL,
+  changed_by VARCHAR REFERENCES users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_operation_milestone_changes_milestone ON operation_milestone_changes(milestone_id);
+
+-- Las fechas actuales de las operaciones se vuelven hitos planeados
+INSERT INTO operation_milestones (operation_id, milestone_type, planned_at)
+SELECT id, 'cargo_picked_up', pick_up_date FROM operations WHERE pick_up_date IS NOT NULL;
+
+INSERT INTO operation_milestones (operation_id, milestone_type, planned_at)
+SELECT id, 'departed', etd FROM operations WHERE etd IS NOT NULL;
+
+INSERT INTO operation_milestones (operation_id, milestone_type, planned_at)
+SELECT id, 'arrived', eta FROM operations WHERE eta IS NOT NULL;
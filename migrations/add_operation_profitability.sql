@@ -0,0 +1,21 @@
+-- Migración para P&L por operación: categorías de cargo y estimados
+-- Fecha: 2026-10-19
+
+ALTER TABLE invoice_items
+ADD COLUMN IF NOT EXISTS charge_category TEXT;
+
+ALTER TABLE expenses
+ADD COLUMN IF NOT EXISTS charge_category TEXT;
+
+CREATE TABLE IF NOT EXISTS operation_charge_estimates (
+  id VARCHAR PRIMARY KEY DEFAULT gen_random_uuid(),
+  operation_id VARCHAR NOT NULL REFERENCES operations(id) ON DELETE CASCADE,
+  charge_category TEXT NOT NULL,
+  estimated_revenue DECIMAL(12,2) NOT NULL DEFAULT 0,
+  estimated_cost DECIMAL(12,2) NOT NULL DEFAULT 0,
+  currency TEXT NOT NULL,
+  notes TEXT,
+  created_at TIMESTAMP NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_operation_charge_estimates_operation ON operation_charge_estimates(operation_id);
@@ -0,0 +1,25 @@
+-- Migración para Complementos de Pago (CFDI tipo P) de facturas PPD
+-- Fecha: 2026-10-19
+
+CREATE TABLE IF NOT EXISTS payment_complements (
+  id VARCHAR PRIMARY KEY DEFAULT gen_random_uuid(),
+  payment_id VARCHAR NOT NULL UNIQUE REFERENCES payments(id) ON DELETE RESTRICT,
+  invoice_id VARCHAR NOT NULL REFERENCES invoices(id) ON DELETE CASCADE,
+  installment_number INTEGER NOT NULL,
+  previous_balance DECIMAL(12,2) NOT NULL,
+  amount_paid DECIMAL(12,2) NOT NULL,
+  outstanding_balance DECIMAL(12,2) NOT NULL,
+  payment_form TEXT NOT NULL,
+  currency TEXT NOT NULL,
+  exchange_rate DECIMAL(12,6),
+  stamp_status TEXT NOT NULL DEFAULT 'pending_stamp',
+  folio_fiscal TEXT,
+  facturama_cfdi_id TEXT,
+  stamped_at TIMESTAMP,
+  stamp_error TEXT,
+  xml_b2_key TEXT,
+  pdf_b2_key TEXT,
+  created_at TIMESTAMP NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_payment_complements_invoice_id ON payment_complements(invoice_id);
@@ -0,0 +1,43 @@
+-- Migración para tarifarios de carriers y agentes con búsqueda de tarifas por lane
+-- Fecha: 2026-10-19
+
+CREATE TABLE IF NOT EXISTS rate_tariffs (
+  id VARCHAR PRIMARY KEY DEFAULT gen_random_uuid(),
+  supplier_id VARCHAR NOT NULL REFERENCES suppliers(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  mode TEXT NOT NULL,
+  currency TEXT NOT NULL DEFAULT 'USD',
+  valid_from TIMESTAMP,
+  valid_until TIMESTAMP,
+  status TEXT NOT NULL DEFAULT 'active',
+  file_name TEXT,
+  rate_count INTEGER NOT NULL DEFAULT 0,
+  notes TEXT,
+  uploaded_by_id VARCHAR REFERENCES users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_rate_tariffs_supplier ON rate_tariffs(supplier_id);
+
+CREATE TABLE IF NOT EXISTS tariff_rates (
+  id VARCHAR PRIMARY KEY DEFAULT gen_random_uuid(),
+  tariff_id VARCHAR NOT NULL REFERENCES rate_tariffs(id) ON DELETE CASCADE,
+  origin_location_id VARCHAR NOT NULL REFERENCES locations(id) ON DELETE CASCADE,
+  destination_location_id VARCHAR NOT NULL REFERENCES locations(id) ON DELETE CASCADE,
+  equipment_type TEXT,
+  weight_break_kg DECIMAL(10,2),
+  basis TEXT NOT NULL,
+  currency TEXT NOT NULL,
+  base_rate DECIMAL(12,4) NOT NULL,
+  minimum_charge DECIMAL(12,2),
+  surcharges JSONB NOT NULL DEFAULT '[]'::jsonb,
+  carrier TEXT,
+  transit_days INTEGER,
+  valid_from TIMESTAMP,
+  valid_until TIMESTAMP,
+  notes TEXT,
+  created_at TIMESTAMP NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_tariff_rates_lane ON tariff_rates(origin_location_id, destination_location_id);
+CREATE INDEX IF NOT EXISTS idx_tariff_rates_tariff ON tariff_rates(tariff_id);
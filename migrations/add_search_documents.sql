@@ -0,0 +1,20 @@
+-- Migración para búsqueda de texto completo (español e inglés) sobre correos, adjuntos, archivos, notas y tareas
+-- Fecha: 2026-10-19
+
+CREATE TABLE IF NOT EXISTS search_documents (
+  id VARCHAR PRIMARY KEY DEFAULT gen_random_uuid(),
+  entity_type TEXT NOT NULL,
+  entity_id VARCHAR NOT NULL,
+  operation_id VARCHAR REFERENCES operations(id) ON DELETE SET NULL,
+  gmail_account_id VARCHAR REFERENCES gmail_accounts(id) ON DELETE CASCADE,
+  title TEXT NOT NULL,
+  content TEXT NOT NULL DEFAULT '',
+  search_vector TSVECTOR NOT NULL,
+  source_version TEXT,
+  source_date TIMESTAMP,
+  indexed_at TIMESTAMP NOT NULL DEFAULT NOW(),
+  CONSTRAINT search_documents_entity_unique UNIQUE (entity_type, entity_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_search_documents_vector ON search_documents USING GIN (search_vector);
+CREATE INDEX IF NOT EXISTS idx_search_documents_operation ON search_documents(operation_id);
@@ -0,0 +1,16 @@
+-- Migración para cifrado de secretos: bitácora de eventos de seguridad (tokens y rotación de llaves)
+-- Fecha: 2026-10-19
+-- Los tokens y contraseñas existentes siguen legibles en texto plano hasta ejecutar
+-- `npm run secrets:reencrypt`, que los cifra con SECRETS_MASTER_KEY.
+
+CREATE TABLE IF NOT EXISTS security_audit_events (
+  id VARCHAR PRIMARY KEY DEFAULT gen_random_uuid(),
+  event_type TEXT NOT NULL,
+  entity_type TEXT NOT NULL,
+  entity_id VARCHAR,
+  user_id VARCHAR REFERENCES users(id) ON DELETE SET NULL,
+  details JSONB,
+  created_at TIMESTAMP NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_security_audit_events_entity ON security_audit_events(entity_type, entity_id);
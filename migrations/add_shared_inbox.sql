@@ -0,0 +1,21 @@
+-- Migración para bandeja compartida: asignación, estado y pausa de hilos de Gmail
+-- Fecha: 2026-10-19
+
+ALTER TABLE gmail_accounts ADD COLUMN IF NOT EXISTS is_shared BOOLEAN NOT NULL DEFAULT FALSE;
+
+CREATE TABLE IF NOT EXISTS email_thread_assignments (
+  id VARCHAR PRIMARY KEY DEFAULT gen_random_uuid(),
+  thread_id TEXT NOT NULL UNIQUE,
+  gmail_account_id VARCHAR NOT NULL REFERENCES gmail_accounts(id) ON DELETE CASCADE,
+  assigned_employee_id VARCHAR REFERENCES employees(id) ON DELETE SET NULL,
+  status TEXT NOT NULL DEFAULT 'open',
+  snoozed_until TIMESTAMP,
+  status_changed_at TIMESTAMP NOT NULL DEFAULT NOW(),
+  assigned_by VARCHAR REFERENCES users(id) ON DELETE SET NULL,
+  assigned_at TIMESTAMP,
+  created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMP NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_email_thread_assignments_employee ON email_thread_assignments(assigned_employee_id, status);
+CREATE INDEX IF NOT EXISTS idx_gmail_messages_account_date ON gmail_messages(gmail_account_id, date);
@@ -0,0 +1,38 @@
+-- Migración para reglas de spam/permiso por cuenta de Gmail y bitácora de correos filtrados
+-- Fecha: 2026-10-19
+
+CREATE TABLE IF NOT EXISTS spam_rules (
+  id VARCHAR PRIMARY KEY DEFAULT gen_random_uuid(),
+  gmail_account_id VARCHAR REFERENCES gmail_accounts(id) ON DELETE CASCADE,
+  action TEXT NOT NULL,
+  rule_type TEXT NOT NULL,
+  pattern TEXT NOT NULL,
+  header_name TEXT,
+  note TEXT,
+  is_enabled BOOLEAN NOT NULL DEFAULT TRUE,
+  hit_count INTEGER NOT NULL DEFAULT 0,
+  last_hit_at TIMESTAMP,
+  created_by VARCHAR REFERENCES users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP NOT NULL DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS spam_filtered_messages (
+  id VARCHAR PRIMARY KEY DEFAULT gen_random_uuid(),
+  gmail_account_id VARCHAR NOT NULL REFERENCES gmail_accounts(id) ON DELETE CASCADE,
+  message_id TEXT NOT NULL UNIQUE,
+  thread_id TEXT,
+  from_email TEXT NOT NULL,
+  from_name TEXT,
+  subject TEXT,
+  date TIMESTAMP NOT NULL,
+  reason TEXT NOT NULL,
+  confidence TEXT NOT NULL,
+  spam_rule_id VARCHAR REFERENCES spam_rules(id) ON DELETE SET NULL,
+  status TEXT NOT NULL DEFAULT 'filtered',
+  restored_by VARCHAR REFERENCES users(id) ON DELETE SET NULL,
+  restored_at TIMESTAMP,
+  filtered_at TIMESTAMP NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_spam_rules_account ON spam_rules(gmail_account_id);
+CREATE INDEX IF NOT EXISTS idx_spam_filtered_messages_account ON spam_filtered_messages(gmail_account_id, status, filtered_at);
@@ -0,0 +1,73 @@
+-- Migración para proveedores, facturas de proveedores y cuentas por pagar
+-- Fecha: 2026-10-19
+
+CREATE TABLE IF NOT EXISTS suppliers (
+  id VARCHAR PRIMARY KEY DEFAULT gen_random_uuid(),
+  name TEXT NOT NULL,
+  supplier_type TEXT NOT NULL DEFAULT 'other',
+  email TEXT,
+  phone TEXT,
+  contact_name TEXT,
+  address TEXT,
+  currency TEXT NOT NULL DEFAULT 'MXN',
+  status TEXT NOT NULL DEFAULT 'active',
+  notes TEXT,
+  rfc TEXT,
+  razon_social TEXT,
+  regimen_fiscal TEXT,
+  codigo_postal TEXT,
+  payment_terms_days INTEGER NOT NULL DEFAULT 0,
+  bank_name TEXT,
+  bank_account_number TEXT,
+  clabe TEXT,
+  swift_code TEXT,
+  created_from_cfdi BOOLEAN DEFAULT FALSE,
+  created_at TIMESTAMP NOT NULL DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS supplier_bills (
+  id VARCHAR PRIMARY KEY DEFAULT gen_random_uuid(),
+  supplier_id VARCHAR NOT NULL REFERENCES suppliers(id) ON DELETE RESTRICT,
+  operation_id VARCHAR REFERENCES operations(id) ON DELETE SET NULL,
+  bill_number TEXT NOT NULL,
+  folio_fiscal TEXT UNIQUE,
+  description TEXT,
+  charge_category TEXT,
+  currency TEXT NOT NULL DEFAULT 'MXN',
+  subtotal DECIMAL(12,2) NOT NULL,
+  tax DECIMAL(12,2) NOT NULL DEFAULT 0,
+  total DECIMAL(12,2) NOT NULL,
+  amount_paid DECIMAL(12,2) NOT NULL DEFAULT 0,
+  bill_date TIMESTAMP NOT NULL,
+  due_date TIMESTAMP NOT NULL,
+  status TEXT NOT NULL DEFAULT 'pending',
+  scheduled_payment_date TIMESTAMP,
+  scheduled_bank_account_id VARCHAR REFERENCES bank_accounts(id) ON DELETE SET NULL,
+  source TEXT NOT NULL DEFAULT 'manual',
+  source_file_id VARCHAR REFERENCES operation_files(id) ON DELETE SET NULL,
+  notes TEXT,
+  created_at TIMESTAMP NOT NULL DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS supplier_bill_payments (
+  id VARCHAR PRIMARY KEY DEFAULT gen_random_uuid(),
+  supplier_bill_id VARCHAR NOT NULL REFERENCES supplier_bills(id) ON DELETE CASCADE,
+  bank_account_id VARCHAR REFERENCES bank_accounts(id) ON DELETE RESTRICT,
+  amount DECIMAL(12,2) NOT NULL,
+  currency TEXT NOT NULL,
+  payment_date TIMESTAMP NOT NULL,
+  payment_method TEXT NOT NULL,
+  reference TEXT,
+  notes TEXT,
+  created_at TIMESTAMP NOT NULL DEFAULT NOW()
+);
+
+ALTER TABLE bank_ledger_entries
+ADD COLUMN IF NOT EXISTS supplier_bill_payment_id VARCHAR REFERENCES supplier_bill_payments(id) ON DELETE CASCADE;
+
+CREATE INDEX IF NOT EXISTS idx_suppliers_rfc ON suppliers(rfc);
+CREATE INDEX IF NOT EXISTS idx_supplier_bills_supplier ON supplier_bills(supplier_id);
+CREATE INDEX IF NOT EXISTS idx_supplier_bills_operation ON supplier_bills(operation_id);
+CREATE INDEX IF NOT EXISTS idx_supplier_bills_due_date ON supplier_bills(due_date);
+CREATE INDEX IF NOT EXISTS idx_supplier_bill_payments_bill ON supplier_bill_payments(supplier_bill_id);
+CREATE INDEX IF NOT EXISTS idx_bank_ledger_entries_supplier_payment ON bank_ledger_entries(supplier_bill_payment_id);
@@ -96,7 +96,8 @@ async function syncAllGmailAccounts() {
     // Link messages to operations after sync
     try {
       console.log('[Gmail Auto-Sync] Linking messages to operations...');
-      await storage.linkMessagesToOperations();
+      const { emailLinkingService } = await import('./email-linking-service');
+      await emailLinkingService.linkUnlinkedMessages();
     } catch (error) {
       console.error('[Gmail Auto-Sync] Error linking messages:', error);
     }
@@ -5,6 +5,8 @@ import { BackblazeStorage } from './backblazeStorage';
 import { processEmailThreadForAutomation, EmailTaskAutomation } from './email-task-automation';
 import { clientAutoAssignmentService } from './client-auto-assignment-service';
 import { invoiceAutoAssignmentService } from './invoice-auto-assignment-service';
+import { operationCargoService } from './operation-cargo-service';
+import { extractContainerNumbers } from '@shared/container-number';
 import { eq, and, isNotNull, sql, desc } from 'drizzle-orm';
 
 // Automation service that processes emails and creates operations automatically
@@ -267,6 +269,9 @@ export class AutomationService {
         fieldValue = message.toRecipients || '';
       } else if (field === 'body') {
         fieldValue = message.snippet || '';
+      } else if (field === 'container') {
+        // Números de contenedor ISO 6346 válidos del correo, separados por espacio
+        fieldValue = this.getMessageContainers(message).join(' ');
       } else {
         continue;
       }
@@ -280,6 +285,10 @@ export class AutomationService {
     return true;
   }
 
+  private getMessageContainers(message: GmailMessage): string[] {
+    return extractContainerNumbers(`${message.subject || ''} ${message.snippet || ''} ${message.bodyText || ''}`);
+  }
+
   private evaluateCondition(fieldValue: string | null, operator: string, expectedValue: string): boolean {
     if (!fieldValue) return false;
 
@@ -362,6 +371,27 @@ export class AutomationService {
       return;
     }
 
+    // Un contenedor del correo ya registrado en otra operación: se vincula ahí en lugar de duplicarla
+    const containers = this.getMessageContainers(message);
+    const containerOperations = await operationCargoService.findOperationsByContainers(containers);
+    const matchedOperationIds = Array.from(new Set(Array.from(containerOperations.values()).flat()));
+    if (matchedOperationIds.length === 1) {
+      await storage.linkMessageToOperation(message.id, matchedOperationIds[0]);
+      console.log(`[Automation] Linked message ${message.id} to operation ${matchedOperationIds[0]} by container`);
+
+      await storage.createAutomationLog({
+        ruleId: rule.id,
+        emailMessageId: message.id,
+        actionType: 'create_operation',
+        status: 'skipped',
+        entityType: 'operation',
+        entityId: matchedOperationIds[0],
+        details: { reason: 'container_matches_operation', operationName, containers: Array.from(containerOperations.keys()) },
+      });
+
+      return;
+    }
+
     // Create operation with minimal data
     const operation = await storage.createOperation({
       name: operationName,
@@ -383,6 +413,11 @@ export class AutomationService {
     await storage.linkMessageToOperation(message.id, operation.id);
     console.log(`Linked message ${message.id} to operation ${operation.id}`);
 
+    // Contenedores mencionados en el correo quedan en la carga de la operación
+    if (containers.length > 0) {
+      await operationCargoService.addContainers(operation.id, containers);
+    }
+
     // Assign default employees to the operation
     const defaultEmployees = (config.defaultEmployees as string[]) || [];
     for (const employeeId of defaultEmployees) {
@@ -426,6 +461,7 @@ export class AutomationService {
       details: { 
         operationName, 
         messageSubject: message.subject,
+        containers,
         assignedEmployees: defaultEmployees.length,
         autoTasksEnabled: config.autoCreateTasks !== 'disabled',
         autoNotesEnabled: config.autoCreateNotes !== 'disabled',
@@ -465,6 +465,12 @@ export const backblazeStorage = {
     }
     return backblazeStorageInstance.uploadEmailAttachment(data, filename, mimeType);
   },
+  async uploadFile(buffer: Buffer, folder: string, metadata: B2FileMetadata = {}) {
+    if (!backblazeStorageInstance) {
+      backblazeStorageInstance = new BackblazeStorage();
+    }
+    return backblazeStorageInstance.uploadFile(buffer, folder, metadata);
+  },
   async uploadOperationFile(data: Buffer, filename: string, mimeType: string, operationId: string, uploadedBy: string, category?: string, extractedText?: string) {
     if (!backblazeStorageInstance) {
       backblazeStorageInstance = new BackblazeStorage();
@@ -0,0 +1,312 @@
+/**
+ * Bank Ledger Service - Libro mayor de cuentas bancarias
+ *
+ * Mantiene una entrada de ledger por cada pago (crédito), gasto o pago a proveedor (débito) y ajuste manual,
+ * con saldo acumulado. `bankAccounts.currentBalance` se deriva siempre del ledger.
+ */
+
+import { db } from './db';
+import { eq, and, asc, desc, lt, gte, lte, inArray } from 'drizzle-orm';
+import { bankAccounts, bankLedgerEntries, payments, expenses, supplierBillPayments, supplierBills, suppliers } from '@shared/schema';
+import type { BankAccount, BankLedgerEntry, InsertBankLedgerEntry, Payment, Expense, SupplierBillPayment } from '@shared/schema';
+
+// Acepta tanto la conexión global como una transacción abierta
+export type DbExecutor = typeof db | Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+export interface BankStatement {
+  account: BankAccount;
+  openingBalance: string;
+  closingBalance: string;
+  totalCredits: string;
+  totalDebits: string;
+  entries: BankLedgerEntry[];
+}
+
+// Gastos rechazados nunca salieron de la cuenta
+const EXCLUDED_EXPENSE_STATUSES = ['rejected'];
+
+const toCents = (value: string | number | null | undefined) => Math.round(Number(value || 0) * 100);
+const fromCents = (cents: number) => (cents / 100).toFixed(2);
+
+export const supplierPaymentDescription = (supplierName: string, billNumber: string) =>
+  `Pago a proveedor - ${supplierName} (${billNumber})`;
+
+export class BankLedgerService {
+  /**
+   * Sincroniza la entrada de ledger de un pago y recalcula las cuentas afectadas
+   */
+  async syncPaymentEntry(executor: DbExecutor, payment: Payment, previousBankAccountId?: string | null): Promise<void> {
+    await executor.delete(bankLedgerEntries).where(eq(bankLedgerEntries.paymentId, payment.id));
+
+    if (payment.bankAccountId) {
+      await executor.insert(bankLedgerEntries).values({
+        bankAccountId: payment.bankAccountId,
+        entryType: 'payment',
+        paymentId: payment.id,
+        amount: fromCents(toCents(payment.amount)),
+        entryDate: payment.paymentDate,
+        description: `Pago recibido - ${payment.paymentMethod}`,
+        reference: payment.reference,
+      });
+    }
+
+    await this.recomputeAccounts(executor, [previousBankAccountId, payment.bankAccountId]);
+  }
+
+  /**
+   * Sincroniza la entrada de ledger de un gasto y recalcula las cuentas afectadas
+   */
+  async syncExpenseEntry(executor: DbExecutor, expense: Expense, previousBankAccountId?: string | null): Promise<void> {
+    await executor.delete(bankLedgerEntries).where(eq(bankLedgerEntries.expenseId, expense.id));
+
+    if (expense.bankAccountId && !EXCLUDED_EXPENSE_STATUSES.includes(expense.status)) {
+      await executor.insert(bankLedgerEntries).values({
+        bankAccountId: expense.bankAccountId,
+        entryType: 'expense',
+        expenseId: expense.id,
+        amount: fromCents(-toCents(expense.amount)),
+        entryDate: expense.date,
+        description: expense.description,
+        reference: expense.category,
+      });
+    }
+
+    await this.recomputeAccounts(executor, [previousBankAccountId, expense.bankAccountId]);
+  }
+
+  /**
+   * Sincroniza la entrada de ledger de un pago a proveedor y recalcula las cuentas afectadas
+   */
+  async syncSupplierPaymentEntry(executor: DbExecutor, payment: SupplierBillPayment, description: string, previousBankAccountId?: string | null): Promise<void> {
+    await executor.delete(bankLedgerEntries).where(eq(bankLedgerEntries.supplierBillPaymentId, payment.id));
+
+    if (payment.bankAccountId) {
+      await executor.insert(bankLedgerEntries).values({
+        bankAccountId: payment.bankAccountId,
+        entryType: 'supplier_payment',
+        supplierBillPaymentId: payment.id,
+        amount: fromCents(-toCents(payment.amount)),
+        entryDate: payment.paymentDate,
+        description,
+        reference: payment.reference,
+      });
+    }
+
+    await this.recomputeAccounts(executor, [previousBankAccountId, payment.bankAccountId]);
+  }
+
+  /**
+   * Recalcula saldos acumulados de varias cuentas (ignora nulos y duplicados)
+   */
+  async recomputeAccounts(executor: DbExecutor, bankAccountIds: Array<string | null | undefined>): Promise<void> {
+    const uniqueIds = Array.from(new Set(bankAccountIds.filter((id): id is string => !!id)));
+    for (const bankAccountId of uniqueIds) {
+      await this.recomputeRunningBalances(executor, bankAccountId);
+    }
+  }
+
+  /**
+   * Recorre el ledger en orden cronológico desde `initialBalance`,
+   * reescribe los saldos acumulados que cambiaron y actualiza `currentBalance`
+   */
+  async recomputeRunningBalances(executor: DbExecutor, bankAccountId: string): Promise<BankAccount | undefined> {
+    // Bloquear la cuenta para serializar recálculos concurrentes
+    const [account] = await executor.select().from(bankAccounts)
+      .where(eq(bankAccounts.id, bankAccountId))
+      .for('update');
+
+    if (!account) return undefined;
+
+    const entries = await executor.select().from(bankLedgerEntries)
+      .where(eq(bankLedgerEntries.bankAccountId, bankAccountId))
+      .orderBy(asc(bankLedgerEntries.entryDate), asc(bankLedgerEntries.createdAt), asc(bankLedgerEntries.id));
+
+    let balance = toCents(account.initialBalance);
+    for (const entry of entries) {
+      balance += toCents(entry.amount);
+      const runningBalance = fromCents(balance);
+      if (toCents(entry.runningBalance) !== balance) {
+        await executor.update(bankLedgerEntries)
+          .set({ runningBalance })
+          .where(eq(bankLedgerEntries.id, entry.id));
+      }
+    }
+
+    const [updated] = await executor.update(bankAccounts)
+      .set({ currentBalance: fromCents(balance) })
+      .where(eq(bankAccounts.id, bankAccountId))
+      .returning();
+
+    return updated;
+  }
+
+  /**
+   * Reconstruye el ledger completo de una cuenta a partir de pagos, gastos y pagos a proveedores.
+   * Conserva los ajustes manuales y recalcula el saldo desde `initialBalance`.
+   */
+  async rebuildAccount(bankAccountId: string): Promise<BankAccount | undefined> {
+    return await db.transaction(async (tx) => {
+      await tx.delete(bankLedgerEntries).where(and(
+        eq(bankLedgerEntries.bankAccountId, bankAccountId),
+        inArray(bankLedgerEntries.entryType, ['payment', 'expense', 'supplier_payment'])
+      ));
+
+      const accountPayments = await tx.select().from(payments).where(eq(payments.bankAccountId, bankAccountId));
+      const accountExpenses = await tx.select().from(expenses).where(eq(expenses.bankAccountId, bankAccountId));
+      const accountSupplierPayments = await tx.select({ payment: supplierBillPayments, bill: supplierBills, supplierName: suppliers.name })
+        .from(supplierBillPayments)
+        .innerJoin(supplierBills, eq(supplierBillPayments.supplierBillId, supplierBills.id))
+        .innerJoin(suppliers, eq(supplierBills.supplierId, suppliers.id))
+        .where(eq(supplierBillPayments.bankAccountId, bankAccountId));
+
+      const values: InsertBankLedgerEntry[] = [
+        ...accountPayments.map(payment => ({
+          bankAccountId,
+          entryType: 'payment',
+          paymentId: payment.id,
+          amount: fromCents(toCents(payment.amount)),
+          entryDate: payment.paymentDate,
+          description: `Pago recibido - ${payment.paymentMethod}`,
+          reference: payment.reference,
+        })),
+        ...accountExpenses
+          .filter(expense => !EXCLUDED_EXPENSE_STATUSES.includes(expense.status))
+          .map(expense => ({
+            bankAccountId,
+            entryType: 'expense',
+            expenseId: expense.id,
+            amount: fromCents(-toCents(expense.amount)),
+            entryDate: expense.date,
+            description: expense.description,
+            reference: expense.category,
+          })),
+        ...accountSupplierPayments.map(({ payment, bill, supplierName }) => ({
+          bankAccountId,
+          entryType: 'supplier_payment',
+          supplierBillPaymentId: payment.id,
+          amount: fromCents(-toCents(payment.amount)),
+          entryDate: payment.paymentDate,
+          description: supplierPaymentDescription(supplierName, bill.billNumber),
+          reference: payment.reference,
+        })),
+      ];
+
+      if (values.length > 0) {
+        await tx.insert(bankLedgerEntries).values(values);
+      }
+
+      const account = await this.recomputeRunningBalances(tx, bankAccountId);
+      console.log(`[Bank Ledger] Rebuilt ledger for account ${bankAccountId}: ${values.length} entries`);
+      return account;
+    });
+  }
+
+  /**
+   * Reconstruye el ledger de todas las cuentas (backfill inicial o reparación).
+   * Cada cuenta va en su propia transacción: un error no detiene las demás.
+   */
+  async rebuildAllAccounts(): Promise<{ accounts: number; errors: number }> {
+    const accounts = await db.select({ id: bankAccounts.id, name: bankAccounts.name }).from(bankAccounts);
+
+    let errors = 0;
+    for (const account of accounts) {
+      try {
+        await this.rebuildAccount(account.id);
+      } catch (error) {
+        errors++;
+        console.error(`[Bank Ledger] Error rebuilding account ${account.name} (${account.id}):`, error);
+      }
+    }
+
+    return { accounts: accounts.length - errors, errors };
+  }
+
+  /**
+   * Registra un ajuste manual (p. ej. corrección del saldo de apertura)
+   */
+  async createAdjustment(data: InsertBankLedgerEntry): Promise<BankLedgerEntry> {
+    return await db.transaction(async (tx) => {
+      const [entry] = await tx.insert(bankLedgerEntries).values({
+        ...data,
+        entryType: 'adjustment',
+        paymentId: null,
+        expenseId: null,
+        supplierBillPaymentId: null,
+        amount: fromCents(toCents(data.amount)),
+      }).returning();
+
+      await this.recomputeRunningBalances(tx, entry.bankAccountId);
+
+      const [refreshed] = await tx.select().from(bankLedgerEntries).where(eq(bankLedgerEntries.id, entry.id));
+      return refreshed;
+    });
+  }
+
+  /**
+   * Elimina un ajuste manual. Las entradas de pagos/gastos solo se eliminan desde su registro origen.
+   */
+  async deleteAdjustment(bankAccountId: string, entryId: string): Promise<boolean> {
+    return await db.transaction(async (tx) => {
+      const deleted = await tx.delete(bankLedgerEntries)
+        .where(and(
+          eq(bankLedgerEntries.id, entryId),
+          eq(bankLedgerEntries.bankAccountId, bankAccountId),
+          eq(bankLedgerEntries.entryType, 'adjustment')
+        ))
+        .returning({ id: bankLedgerEntries.id });
+
+      if (deleted.length === 0) return false;
+
+      await this.recomputeRunningBalances(tx, bankAccountId);
+      return true;
+    });
+  }
+
+  /**
+   * Estado de cuenta con saldo de apertura, movimientos del período y saldo de cierre
+   */
+  async getStatement(bankAccountId: string, from?: Date, to?: Date): Promise<BankStatement | undefined> {
+    const [account] = await db.select().from(bankAccounts).where(eq(bankAccounts.id, bankAccountId));
+    if (!account) return undefined;
+
+    let openingBalance = toCents(account.initialBalance);
+    if (from) {
+      const [lastBefore] = await db.select().from(bankLedgerEntries)
+        .where(and(
+          eq(bankLedgerEntries.bankAccountId, bankAccountId),
+          lt(bankLedgerEntries.entryDate, from)
+        ))
+        .orderBy(desc(bankLedgerEntries.entryDate), desc(bankLedgerEntries.createdAt), desc(bankLedgerEntries.id))
+        .limit(1);
+      if (lastBefore) {
+        openingBalance = toCents(lastBefore.runningBalance);
+      }
+    }
+
+    const conditions = [eq(bankLedgerEntries.bankAccountId, bankAccountId)];
+    if (from) conditions.push(gte(bankLedgerEntries.entryDate, from));
+    if (to) conditions.push(lte(bankLedgerEntries.entryDate, to));
+
+    const entries = await db.select().from(bankLedgerEntries)
+      .where(and(...conditions))
+      .orderBy(asc(bankLedgerEntries.entryDate), asc(bankLedgerEntries.createdAt), asc(bankLedgerEntries.id));
+
+    const totalCredits = entries.filter(e => toCents(e.amount) > 0).reduce((sum, e) => sum + toCents(e.amount), 0);
+    const totalDebits = entries.filter(e => toCents(e.amount) < 0).reduce((sum, e) => sum - toCents(e.amount), 0);
+    const closingBalance = entries.length > 0
+      ? toCents(entries[entries.length - 1].runningBalance)
+      : openingBalance;
+
+    return {
+      account,
+      openingBalance: fromCents(openingBalance),
+      closingBalance: fromCents(closingBalance),
+      totalCredits: fromCents(totalCredits),
+      totalDebits: fromCents(totalDebits),
+      entries,
+    };
+  }
+}
+
+// Instancia singleton
+export const bankLedgerService = new BankLedgerService();
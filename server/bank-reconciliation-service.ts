@@ -0,0 +1,765 @@
+/**
+ * Bank Reconciliation Service - Conciliación de estados de cuenta bancarios
+ *
+ * Importa estados de cuenta (CSV, OFX, CAMT.053) a una cuenta bancaria y concilia cada
+ * movimiento contra pagos, gastos y sugerencias financieras pendientes.
+ *
+ * Flujo:
+ * 1. Importación con detección de movimientos ya importados (fingerprint por cuenta)
+ * 2. Auto-match por importe exacto, ventana de fechas y referencia
+ * 3. Revisión manual: aceptar sugerencia, vincular manualmente, ignorar o crear el registro
+ */
+
+import { createHash } from 'crypto';
+import { db } from './db';
+import { storage } from './storage';
+import { paymentComplementService } from './payment-complement-service';
+import { eq, and, or, inArray, isNull, gte, lte, desc } from 'drizzle-orm';
+import {
+  bankStatementImports,
+  bankStatementLines,
+  payments,
+  expenses,
+  financialSuggestions,
+} from '@shared/schema';
+import type {
+  BankAccount,
+  BankStatementImport,
+  BankStatementLine,
+  Payment,
+  Expense,
+  FinancialSuggestion,
+} from '@shared/schema';
+import { parseBankStatement, type BankStatementFormat } from './bank-statement-parser';
+
+export type ReconciliationRecordType = 'payment' | 'expense' | 'suggestion';
+
+export interface ReconciliationCandidate {
+  type: ReconciliationRecordType;
+  id: string;
+  date: Date;
+  amount: string;
+  description: string;
+  reference: string | null;
+  confidence: number;
+}
+
+export interface ReconciliationLine extends BankStatementLine {
+  match: ReconciliationCandidate | null;
+}
+
+export interface StatementImportResult {
+  import: BankStatementImport;
+  imported: number;
+  duplicates: number;
+  matched: number;
+  suggested: number;
+}
+
+export interface CreateRecordOptions {
+  employeeId?: string | null;
+  category?: string;
+  paymentMethod?: string;
+  operationId?: string | null;
+  invoiceId?: string | null;
+  description?: string;
+}
+
+export class ReconciliationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ReconciliationError';
+    Object.setPrototypeOf(this, ReconciliationError.prototype);
+  }
+}
+
+// Ventana de fechas (días) para auto-match y para la búsqueda manual
+const AUTO_MATCH_WINDOW_DAYS = 5;
+const MANUAL_MATCH_WINDOW_DAYS = 30;
+// Confianza mínima y diferencia con el segundo candidato para conciliar sin revisión
+const AUTO_ACCEPT_CONFIDENCE = 80;
+const AUTO_ACCEPT_MARGIN = 10;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const toCents = (value: string | number | null | undefined) => Math.round(Number(value || 0) * 100);
+const fromCents = (cents: number) => (cents / 100).toFixed(2);
+const normalizeRef = (value: string | null | undefined) => (value || '').toLowerCase().replace(/[^a-z0-9]/g, '');
+
+export class BankReconciliationService {
+  /**
+   * Importa un archivo de estado de cuenta y ejecuta el auto-match de los movimientos nuevos
+   */
+  async importStatement(params: {
+    bankAccountId: string;
+    fileName: string;
+    content: string;
+    format?: BankStatementFormat;
+    uploadedById?: string | null;
+  }): Promise<StatementImportResult> {
+    const account = await storage.getBankAccount(params.bankAccountId);
+    if (!account) {
+      throw new ReconciliationError('Cuenta bancaria no encontrada');
+    }
+
+    const parsed = parseBankStatement(params.fileName, params.content, params.format);
+    if (parsed.currency && parsed.currency.toUpperCase() !== account.currency.toUpperCase()) {
+      throw new ReconciliationError(
+        `La moneda del estado de cuenta (${parsed.currency}) no coincide con la de la cuenta (${account.currency})`
+      );
+    }
+
+    // Movimientos idénticos dentro del mismo archivo se distinguen por su ocurrencia
+    const occurrences = new Map<string, number>();
+    const candidates = parsed.lines.map(line => {
+      const base = line.externalId
+        ? `ext:${line.externalId}`
+        : createHash('sha256')
+            .update([
+              line.transactionDate.toISOString().slice(0, 10),
+              fromCents(toCents(line.amount)),
+              line.description.trim().toLowerCase(),
+              (line.reference || '').trim().toLowerCase(),
+            ].join('|'))
+            .digest('hex');
+      const occurrence = (occurrences.get(base) || 0) + 1;
+      occurrences.set(base, occurrence);
+      return { line, fingerprint: `${base}#${occurrence}` };
+    });
+
+    const existing = await db.select({ fingerprint: bankStatementLines.fingerprint })
+      .from(bankStatementLines)
+      .where(and(
+        eq(bankStatementLines.bankAccountId, account.id),
+        inArray(bankStatementLines.fingerprint, candidates.map(c => c.fingerprint))
+      ));
+    const existingFingerprints = new Set(existing.map(e => e.fingerprint));
+    const newLines = candidates.filter(c => !existingFingerprints.has(c.fingerprint));
+
+    const { statementImport, insertedLines } = await db.transaction(async (tx) => {
+      const [statementImport] = await tx.insert(bankStatementImports).values({
+        bankAccountId: account.id,
+        fileName: params.fileName,
+        format: parsed.format,
+        periodStart: parsed.periodStart,
+        periodEnd: parsed.periodEnd,
+        openingBalance: parsed.openingBalance !== null ? fromCents(toCents(parsed.openingBalance)) : null,
+        closingBalance: parsed.closingBalance !== null ? fromCents(toCents(parsed.closingBalance)) : null,
+        totalLines: parsed.lines.length,
+        duplicateLines: parsed.lines.length - newLines.length,
+        uploadedById: params.uploadedById || null,
+      }).returning();
+
+      const insertedLines = newLines.length > 0
+        ? await tx.insert(bankStatementLines).values(newLines.map(({ line, fingerprint }) => ({
+            importId: statementImport.id,
+            bankAccountId: account.id,
+            transactionDate: line.transactionDate,
+            amount: fromCents(toCents(line.amount)),
+            description: line.description,
+            reference: line.reference,
+            externalId: line.externalId,
+            balance: line.balance !== null ? fromCents(toCents(line.balance)) : null,
+            fingerprint,
+          }))).returning()
+        : [];
+
+      return { statementImport, insertedLines };
+    });
+
+    const { matched, suggested } = await this.autoMatchLines(account, insertedLines);
+
+    const [updatedImport] = await db.update(bankStatementImports)
+      .set({ matchedLines: matched })
+      .where(eq(bankStatementImports.id, statementImport.id))
+      .returning();
+
+    console.log(`[Bank Reconciliation] Imported ${insertedLines.length} lines (${parsed.lines.length - newLines.length} duplicates) into account ${account.id}: ${matched} matched, ${suggested} suggested`);
+
+    return {
+      import: updatedImport,
+      imported: insertedLines.length,
+      duplicates: parsed.lines.length - newLines.length,
+      matched,
+      suggested,
+    };
+  }
+
+  /**
+   * Concilia automáticamente movimientos sin match. Los pagos/gastos con alta confianza quedan
+   * conciliados; el resto (y toda sugerencia financiera) queda como "suggested" para revisión.
+   */
+  async autoMatchLines(account: BankAccount, lines: BankStatementLine[]): Promise<{ matched: number; suggested: number }> {
+    let matched = 0;
+    let suggested = 0;
+    const claimed = new Set<string>();
+
+    for (const line of lines) {
+      if (line.status !== 'unmatched') continue;
+
+      const candidates = (await this.findCandidates(account, line, AUTO_MATCH_WINDOW_DAYS, true))
+        .filter(c => !claimed.has(`${c.type}:${c.id}`));
+      if (candidates.length === 0) continue;
+
+      const [best, second] = candidates;
+      claimed.add(`${best.type}:${best.id}`);
+
+      const isConfident = best.confidence >= AUTO_ACCEPT_CONFIDENCE &&
+        (!second || best.confidence - second.confidence >= AUTO_ACCEPT_MARGIN);
+
+      if (isConfident && best.type !== 'suggestion') {
+        await this.applyRecordMatch(account, line, best.type, best.id, best.confidence, 'auto', null);
+        matched++;
+      } else {
+        await db.update(bankStatementLines)
+          .set({
+            status: 'suggested',
+            ...this.matchColumns(best.type, best.id),
+            matchConfidence: best.confidence.toFixed(2),
+            matchMethod: 'auto',
+          })
+          .where(eq(bankStatementLines.id, line.id));
+        suggested++;
+      }
+    }
+
+    return { matched, suggested };
+  }
+
+  /**
+   * Busca pagos/gastos/sugerencias compatibles con un movimiento, ordenados por confianza
+   */
+  async findCandidates(
+    account: BankAccount,
+    line: BankStatementLine,
+    windowDays: number = MANUAL_MATCH_WINDOW_DAYS,
+    exactAmountOnly: boolean = false
+  ): Promise<ReconciliationCandidate[]> {
+    const lineCents = toCents(line.amount);
+    const isCredit = lineCents > 0;
+    const from = new Date(line.transactionDate.getTime() - windowDays * DAY_MS);
+    const to = new Date(line.transactionDate.getTime() + windowDays * DAY_MS);
+    const reconciled = await this.getReconciledRecordIds(account.id, line.id);
+
+    const candidates: ReconciliationCandidate[] = [];
+
+    if (isCredit) {
+      const accountPayments = await db.select().from(payments)
+        .where(and(
+          or(
+            eq(payments.bankAccountId, account.id),
+            and(isNull(payments.bankAccountId), eq(payments.currency, account.currency))
+          ),
+          gte(payments.paymentDate, from),
+          lte(payments.paymentDate, to)
+        ));
+
+      for (const payment of accountPayments) {
+        if (reconciled.has(`payment:${payment.id}`)) continue;
+        candidates.push({
+          type: 'payment',
+          id: payment.id,
+          date: payment.paymentDate,
+          amount: payment.amount,
+          description: `Pago recibido - ${payment.paymentMethod}`,
+          reference: payment.reference,
+          confidence: this.scoreCandidate(line, payment.amount, payment.paymentDate, payment.reference, windowDays),
+        });
+      }
+    } else {
+      const accountExpenses = await db.select().from(expenses)
+        .where(and(
+          or(
+            eq(expenses.bankAccountId, account.id),
+            and(isNull(expenses.bankAccountId), eq(expenses.currency, account.currency))
+          ),
+          gte(expenses.date, from),
+          lte(expenses.date, to)
+        ));
+
+      for (const expense of accountExpenses) {
+        if (expense.status === 'rejected' || reconciled.has(`expense:${expense.id}`)) continue;
+        candidates.push({
+          type: 'expense',
+          id: expense.id,
+          date: expense.date,
+          amount: expense.amount,
+          description: expense.description,
+          reference: null,
+          confidence: this.scoreCandidate(line, expense.amount, expense.date, null, windowDays),
+        });
+      }
+    }
+
+    const pendingSuggestions = await db.select().from(financialSuggestions)
+      .where(and(
+        eq(financialSuggestions.status, 'pending'),
+        eq(financialSuggestions.type, isCredit ? 'payment' : 'expense'),
+        eq(financialSuggestions.currency, account.currency),
+        or(isNull(financialSuggestions.bankAccountId), eq(financialSuggestions.bankAccountId, account.id)),
+        gte(financialSuggestions.date, from),
+        lte(financialSuggestions.date, to)
+      ));
+
+    for (const suggestion of pendingSuggestions) {
+      if (reconciled.has(`suggestion:${suggestion.id}`)) continue;
+      candidates.push({
+        type: 'suggestion',
+        id: suggestion.id,
+        date: suggestion.date,
+        amount: suggestion.amount,
+        description: suggestion.description,
+        reference: suggestion.reference,
+        confidence: this.scoreCandidate(line, suggestion.amount, suggestion.date, suggestion.reference, windowDays),
+      });
+    }
+
+    return candidates
+      .filter(c => !exactAmountOnly || toCents(c.amount) === Math.abs(lineCents))
+      .sort((a, b) => b.confidence - a.confidence);
+  }
+
+  /**
+   * Puntuación 0-100: importe exacto (50), cercanía de fecha (hasta 30) y referencia (20)
+   */
+  private scoreCandidate(
+    line: BankStatementLine,
+    amount: string,
+    date: Date,
+    reference: string | null,
+    windowDays: number
+  ): number {
+    const lineCents = Math.abs(toCents(line.amount));
+    const diffCents = Math.abs(lineCents - toCents(amount));
+    let score = diffCents === 0 ? 50 : Math.max(0, 25 - (diffCents / Math.max(lineCents, 1)) * 100);
+
+    const daysApart = Math.abs(line.transactionDate.getTime() - new Date(date).getTime()) / DAY_MS;
+    score += Math.max(0, 30 * (1 - daysApart / Math.max(windowDays, 1)));
+
+    const candidateRef = normalizeRef(reference);
+    if (candidateRef.length >= 4) {
+      const haystack = normalizeRef(`${line.reference || ''} ${line.description}`);
+      if (haystack.includes(candidateRef)) score += 20;
+    }
+
+    return Math.round(Math.min(score, 100) * 100) / 100;
+  }
+
+  /**
+   * Ids de registros ya vinculados (o propuestos) a otros movimientos de la cuenta
+   */
+  private async getReconciledRecordIds(bankAccountId: string, excludeLineId?: string): Promise<Set<string>> {
+    const lines = await db.select({
+      id: bankStatementLines.id,
+      matchedPaymentId: bankStatementLines.matchedPaymentId,
+      matchedExpenseId: bankStatementLines.matchedExpenseId,
+      matchedSuggestionId: bankStatementLines.matchedSuggestionId,
+    })
+      .from(bankStatementLines)
+      .where(and(
+        eq(bankStatementLines.bankAccountId, bankAccountId),
+        inArray(bankStatementLines.status, ['matched', 'suggested'])
+      ));
+
+    const ids = new Set<string>();
+    for (const line of lines) {
+      if (line.id === excludeLineId) continue;
+      if (line.matchedPaymentId) ids.add(`payment:${line.matchedPaymentId}`);
+      if (line.matchedExpenseId) ids.add(`expense:${line.matchedExpenseId}`);
+      if (line.matchedSuggestionId) ids.add(`suggestion:${line.matchedSuggestionId}`);
+    }
+    return ids;
+  }
+
+  private matchColumns(type: ReconciliationRecordType, id: string) {
+    return {
+      matchedPaymentId: type === 'payment' ? id : null,
+      matchedExpenseId: type === 'expense' ? id : null,
+      matchedSuggestionId: type === 'suggestion' ? id : null,
+    };
+  }
+
+  /**
+   * Marca un movimiento como conciliado contra un pago/gasto. Si el registro no tenía
+   * cuenta bancaria se le asigna esta (el ledger se actualiza vía storage).
+   */
+  private async applyRecordMatch(
+    account: BankAccount,
+    line: BankStatementLine,
+    type: 'payment' | 'expense',
+    recordId: string,
+    confidence: number | null,
+    method: 'auto' | 'manual' | 'created',
+    userId: string | null
+  ): Promise<BankStatementLine> {
+    if (type === 'payment') {
+      const payment = await storage.getPayment(recordId);
+      if (!payment) throw new ReconciliationError('Pago no encontrado');
+      if (payment.bankAccountId && payment.bankAccountId !== account.id) {
+        throw new ReconciliationError('El pago pertenece a otra cuenta bancaria');
+      }
+      if (!payment.bankAccountId) {
+        await storage.updatePayment(payment.id, { bankAccountId: account.id });
+      }
+    } else {
+      const expense = await storage.getExpense(recordId);
+      if (!expense) throw new ReconciliationError('Gasto no encontrado');
+      if (expense.bankAccountId && expense.bankAccountId !== account.id) {
+        throw new ReconciliationError('El gasto pertenece a otra cuenta bancaria');
+      }
+      if (!expense.bankAccountId) {
+        await storage.updateExpense(expense.id, { bankAccountId: account.id });
+      }
+    }
+
+    const [updated] = await db.update(bankStatementLines)
+      .set({
+        status: 'matched',
+        ...this.matchColumns(type, recordId),
+        matchConfidence: confidence !== null ? confidence.toFixed(2) : null,
+        matchMethod: method,
+        reconciledById: userId,
+        reconciledAt: new Date(),
+      })
+      .where(eq(bankStatementLines.id, line.id))
+      .returning();
+
+    await this.refreshImportCounters(line.importId);
+    return updated;
+  }
+
+  /**
+   * Aprueba una sugerencia financiera creando el pago/gasto en esta cuenta con los datos del banco
+   */
+  private async createRecordFromSuggestion(
+    account: BankAccount,
+    line: BankStatementLine,
+    suggestion: FinancialSuggestion,
+    userId: string,
+    employeeId: string | null
+  ): Promise<{ type: 'payment' | 'expense'; id: string }> {
+    if (suggestion.status !== 'pending') {
+      throw new ReconciliationError('La sugerencia ya fue procesada');
+    }
+
+    const amount = fromCents(Math.abs(toCents(line.amount)));
+    let record: { type: 'payment' | 'expense'; id: string };
+
+    if (suggestion.type === 'payment') {
+      const payment = await storage.createPayment({
+        invoiceId: suggestion.invoiceId,
+        operationId: suggestion.operationId,
+        bankAccountId: account.id,
+        amount,
+        currency: account.currency,
+        paymentDate: line.transactionDate,
+        paymentMethod: suggestion.paymentMethod || 'transfer',
+        reference: suggestion.reference || line.reference,
+        notes: suggestion.description,
+      });
+      await paymentComplementService.generateInBackground(payment);
+      record = { type: 'payment', id: payment.id };
+    } else {
+      if (!employeeId) {
+        throw new ReconciliationError('Se requiere un empleado para registrar el gasto');
+      }
+      const expense = await storage.createExpense({
+        operationId: suggestion.operationId,
+        employeeId,
+        bankAccountId: account.id,
+        category: suggestion.category || 'other',
+        amount,
+        currency: account.currency,
+        description: suggestion.description,
+        date: line.transactionDate,
+        status: 'approved',
+      });
+      record = { type: 'expense', id: expense.id };
+    }
+
+    await storage.approveFinancialSuggestion(suggestion.id, userId);
+
+    // 🎓 Aprender de la sugerencia confirmada por el banco
+    const { knowledgeBaseService } = await import('./knowledge-base-service');
+    knowledgeBaseService.learnFromApprovedSuggestion(suggestion.id).catch(err => {
+      console.error('[Learning] Error learning from approved suggestion:', err);
+    });
+
+    return record;
+  }
+
+  private async getLineWithAccount(lineId: string): Promise<{ line: BankStatementLine; account: BankAccount }> {
+    const [line] = await db.select().from(bankStatementLines).where(eq(bankStatementLines.id, lineId));
+    if (!line) throw new ReconciliationError('Movimiento no encontrado');
+
+    const account = await storage.getBankAccount(line.bankAccountId);
+    if (!account) throw new ReconciliationError('Cuenta bancaria no encontrada');
+
+    return { line, account };
+  }
+
+  /**
+   * Acepta el match propuesto por el auto-match
+   */
+  async acceptMatch(lineId: string, userId: string, employeeId: string | null): Promise<BankStatementLine> {
+    const { line, account } = await this.getLineWithAccount(lineId);
+    if (line.status !== 'suggested') {
+      throw new ReconciliationError('El movimiento no tiene un match propuesto');
+    }
+
+    const confidence = line.matchConfidence !== null ? Number(line.matchConfidence) : null;
+    if (line.matchedPaymentId) {
+      return this.applyRecordMatch(account, line, 'payment', line.matchedPaymentId, confidence, 'auto', userId);
+    }
+    if (line.matchedExpenseId) {
+      return this.applyRecordMatch(account, line, 'expense', line.matchedExpenseId, confidence, 'auto', userId);
+    }
+    if (line.matchedSuggestionId) {
+      const suggestion = await storage.getFinancialSuggestion(line.matchedSuggestionId);
+      if (!suggestion) throw new ReconciliationError('Sugerencia no encontrada');
+      const record = await this.createRecordFromSuggestion(account, line, suggestion, userId, employeeId);
+      return this.applyRecordMatch(account, line, record.type, record.id, confidence, 'auto', userId);
+    }
+
+    throw new ReconciliationError('El registro propuesto ya no existe');
+  }
+
+  /**
+   * Vincula manualmente un movimiento con un pago, gasto o sugerencia
+   */
+  async linkLine(
+    lineId: string,
+    target: { type: ReconciliationRecordType; id: string },
+    userId: string,
+    employeeId: string | null
+  ): Promise<BankStatementLine> {
+    const { line, account } = await this.getLineWithAccount(lineId);
+    if (line.status === 'matched') {
+      throw new ReconciliationError('El movimiento ya está conciliado');
+    }
+
+    const reconciled = await this.getReconciledRecordIds(account.id, line.id);
+    if (reconciled.has(`${target.type}:${target.id}`)) {
+      throw new ReconciliationError('El registro ya está vinculado a otro movimiento');
+    }
+
+    const isCredit = toCents(line.amount) > 0;
+    if (target.type === 'suggestion') {
+      const suggestion = await storage.getFinancialSuggestion(target.id);
+      if (!suggestion) throw new ReconciliationError('Sugerencia no encontrada');
+      if ((suggestion.type === 'payment') !== isCredit) {
+        throw new ReconciliationError('El tipo de la sugerencia no coincide con el movimiento');
+      }
+      const record = await this.createRecordFromSuggestion(account, line, suggestion, userId, employeeId);
+      return this.applyRecordMatch(account, line, record.type, record.id, null, 'manual', userId);
+    }
+
+    if ((target.type === 'payment') !== isCredit) {
+      throw new ReconciliationError(isCredit
+        ? 'Un abono solo puede vincularse con un pago'
+        : 'Un cargo solo puede vincularse con un gasto');
+    }
+
+    return this.applyRecordMatch(account, line, target.type, target.id, null, 'manual', userId);
+  }
+
+  /**
+   * Crea un pago (abono) o gasto (cargo) nuevo a partir del movimiento y lo concilia
+   */
+  async createRecordFromLine(lineId: string, options: CreateRecordOptions, userId: string): Promise<BankStatementLine> {
+    const { line, account } = await this.getLineWithAccount(lineId);
+    if (line.status === 'matched') {
+      throw new ReconciliationError('El movimiento ya está conciliado');
+    }
+
+    const lineCents = toCents(line.amount);
+    const amount = fromCents(Math.abs(lineCents));
+
+    if (lineCents > 0) {
+      const payment: Payment = await storage.createPayment({
+        invoiceId: options.invoiceId || null,
+        operationId: options.operationId || null,
+        bankAccountId: account.id,
+        amount,
+        currency: account.currency,
+        paymentDate: line.transactionDate,
+        paymentMethod: options.paymentMethod || 'transfer',
+        reference: line.reference || line.externalId,
+        notes: options.description || line.description,
+      });
+      await paymentComplementService.generateInBackground(payment);
+      return this.applyRecordMatch(account, line, 'payment', payment.id, null, 'created', userId);
+    }
+
+    if (!options.employeeId) {
+      throw new ReconciliationError('Se requiere un empleado para registrar el gasto');
+    }
+
+    const expense: Expense = await storage.createExpense({
+      operationId: options.operationId || null,
+      employeeId: options.employeeId,
+      bankAccountId: account.id,
+      category: options.category || 'other',
+      amount,
+      currency: account.currency,
+      description: options.description || line.description,
+      date: line.transactionDate,
+      status: 'approved',
+    });
+    return this.applyRecordMatch(account, line, 'expense', expense.id, null, 'created', userId);
+  }
+
+  /**
+   * Marca un movimiento como ignorado (comisiones ya registradas, traspasos, etc.)
+   */
+  async ignoreLine(lineId: string, userId: string): Promise<BankStatementLine> {
+    const { line } = await this.getLineWithAccount(lineId);
+    if (line.status === 'matched') {
+      throw new ReconciliationError('El movimiento ya está conciliado');
+    }
+
+    const [updated] = await db.update(bankStatementLines)
+      .set({
+        status: 'ignored',
+        matchedPaymentId: null,
+        matchedExpenseId: null,
+        matchedSuggestionId: null,
+        matchConfidence: null,
+        matchMethod: 'manual',
+        reconciledById: userId,
+        reconciledAt: new Date(),
+      })
+      .where(eq(bankStatementLines.id, line.id))
+      .returning();
+
+    return updated;
+  }
+
+  /**
+   * Deshace la conciliación de un movimiento. Los registros creados se conservan.
+   */
+  async unmatchLine(lineId: string): Promise<BankStatementLine> {
+    const { line } = await this.getLineWithAccount(lineId);
+
+    const [updated] = await db.update(bankStatementLines)
+      .set({
+        status: 'unmatched',
+        matchedPaymentId: null,
+        matchedExpenseId: null,
+        matchedSuggestionId: null,
+        matchConfidence: null,
+        matchMethod: null,
+        reconciledById: null,
+        reconciledAt: null,
+      })
+      .where(eq(bankStatementLines.id, line.id))
+      .returning();
+
+    await this.refreshImportCounters(line.importId);
+    return updated;
+  }
+
+  /**
+   * Candidatos para vinculación manual (ventana amplia, cualquier importe)
+   */
+  async getLineCandidates(lineId: string): Promise<ReconciliationCandidate[]> {
+    const { line, account } = await this.getLineWithAccount(lineId);
+    return this.findCandidates(account, line, MANUAL_MATCH_WINDOW_DAYS, false);
+  }
+
+  /**
+   * Movimientos importados de una cuenta con el detalle del registro vinculado/propuesto
+   */
+  async getReconciliationLines(bankAccountId: string, status?: string): Promise<ReconciliationLine[]> {
+    // Registros borrados dejan vínculos nulos (ON DELETE SET NULL): vuelven a quedar pendientes
+    await db.update(bankStatementLines)
+      .set({ status: 'unmatched', matchConfidence: null, matchMethod: null, reconciledById: null, reconciledAt: null })
+      .where(and(
+        eq(bankStatementLines.bankAccountId, bankAccountId),
+        inArray(bankStatementLines.status, ['matched', 'suggested']),
+        isNull(bankStatementLines.matchedPaymentId),
+        isNull(bankStatementLines.matchedExpenseId),
+        isNull(bankStatementLines.matchedSuggestionId)
+      ));
+
+    const conditions = [eq(bankStatementLines.bankAccountId, bankAccountId)];
+    if (status) conditions.push(eq(bankStatementLines.status, status));
+
+    const lines = await db.select().from(bankStatementLines)
+      .where(and(...conditions))
+      .orderBy(desc(bankStatementLines.transactionDate), desc(bankStatementLines.createdAt));
+
+    const paymentIds = lines.map(l => l.matchedPaymentId).filter((id): id is string => !!id);
+    const expenseIds = lines.map(l => l.matchedExpenseId).filter((id): id is string => !!id);
+    const suggestionIds = lines.map(l => l.matchedSuggestionId).filter((id): id is string => !!id);
+
+    const [linkedPayments, linkedExpenses, linkedSuggestions] = await Promise.all([
+      paymentIds.length > 0 ? db.select().from(payments).where(inArray(payments.id, paymentIds)) : Promise.resolve([] as Payment[]),
+      expenseIds.length > 0 ? db.select().from(expenses).where(inArray(expenses.id, expenseIds)) : Promise.resolve([] as Expense[]),
+      suggestionIds.length > 0
+        ? db.select().from(financialSuggestions).where(inArray(financialSuggestions.id, suggestionIds))
+        : Promise.resolve([] as FinancialSuggestion[]),
+    ]);
+
+    const paymentMap = new Map(linkedPayments.map(p => [p.id, p]));
+    const expenseMap = new Map(linkedExpenses.map(e => [e.id, e]));
+    const suggestionMap = new Map(linkedSuggestions.map(s => [s.id, s]));
+
+    return lines.map(line => {
+      const confidence = line.matchConfidence !== null ? Number(line.matchConfidence) : 100;
+      let match: ReconciliationCandidate | null = null;
+
+      const payment = line.matchedPaymentId ? paymentMap.get(line.matchedPaymentId) : undefined;
+      const expense = line.matchedExpenseId ? expenseMap.get(line.matchedExpenseId) : undefined;
+      const suggestion = line.matchedSuggestionId ? suggestionMap.get(line.matchedSuggestionId) : undefined;
+
+      if (payment) {
+        match = {
+          type: 'payment', id: payment.id, date: payment.paymentDate, amount: payment.amount,
+          description: `Pago recibido - ${payment.paymentMethod}`, reference: payment.reference, confidence,
+        };
+      } else if (expense) {
+        match = {
+          type: 'expense', id: expense.id, date: expense.date, amount: expense.amount,
+          description: expense.description, reference: null, confidence,
+        };
+      } else if (suggestion) {
+        match = {
+          type: 'suggestion', id: suggestion.id, date: suggestion.date, amount: suggestion.amount,
+          description: suggestion.description, reference: suggestion.reference, confidence,
+        };
+      }
+
+      return { ...line, match };
+    });
+  }
+
+  async getImports(bankAccountId: string): Promise<BankStatementImport[]> {
+    return await db.select().from(bankStatementImports)
+      .where(eq(bankStatementImports.bankAccountId, bankAccountId))
+      .orderBy(desc(bankStatementImports.createdAt));
+  }
+
+  /**
+   * Elimina una importación y sus movimientos. Los pagos/gastos conciliados no se tocan.
+   */
+  async deleteImport(bankAccountId: string, importId: string): Promise<boolean> {
+    const deleted = await db.delete(bankStatementImports)
+      .where(and(eq(bankStatementImports.id, importId), eq(bankStatementImports.bankAccountId, bankAccountId)))
+      .returning({ id: bankStatementImports.id });
+    return deleted.length > 0;
+  }
+
+  private async refreshImportCounters(importId: string): Promise<void> {
+    const matchedLines = await db.select({ id: bankStatementLines.id })
+      .from(bankStatementLines)
+      .where(and(eq(bankStatementLines.importId, importId), eq(bankStatementLines.status, 'matched')));
+
+    await db.update(bankStatementImports)
+      .set({ matchedLines: matchedLines.length })
+      .where(eq(bankStatementImports.id, importId));
+  }
+}
+
+// Instancia singleton
+export const bankReconciliationService = new BankReconciliationService();
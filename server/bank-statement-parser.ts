@@ -0,0 +1,404 @@
+/**
+ * Bank Statement Parser
+ *
+ * Convierte archivos de estado de cuenta bancario a un formato común de movimientos.
+ *
+ * Formatos soportados:
+ * 1. CSV - Detección de delimitador y columnas por encabezado (español / inglés)
+ * 2. OFX - Versiones 1.x (SGML) y 2.x (XML)
+ * 3. CAMT.053 - ISO 20022 Bank-to-Customer Statement
+ */
+
+import { XMLParser } from 'fast-xml-parser';
+
+export type BankStatementFormat = 'csv' | 'ofx' | 'camt053';
+
+export interface ParsedStatementLine {
+  transactionDate: Date;
+  amount: number; // Positivo = abono, negativo = cargo
+  description: string;
+  reference: string | null;
+  externalId: string | null;
+  balance: number | null;
+}
+
+export interface ParsedStatement {
+  format: BankStatementFormat;
+  currency: string | null;
+  periodStart: Date | null;
+  periodEnd: Date | null;
+  openingBalance: number | null;
+  closingBalance: number | null;
+  lines: ParsedStatementLine[];
+}
+
+export class BankStatementParseError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'BankStatementParseError';
+    Object.setPrototypeOf(this, BankStatementParseError.prototype);
+  }
+}
+
+/**
+ * Detecta el formato del archivo por extensión y, si no es concluyente, por contenido
+ */
+export function detectStatementFormat(fileName: string, content: string): BankStatementFormat {
+  const lowerName = fileName.toLowerCase();
+  if (lowerName.endsWith('.ofx') || lowerName.endsWith('.qfx')) return 'ofx';
+  if (lowerName.endsWith('.csv') || lowerName.endsWith('.txt')) return 'csv';
+
+  const head = content.slice(0, 2000);
+  if (/OFXHEADER|<OFX>/i.test(head)) return 'ofx';
+  if (/camt\.053|<BkToCstmrStmt>/i.test(head) || /<BkToCstmrStmt>/.test(content)) return 'camt053';
+  if (lowerName.endsWith('.xml')) return 'camt053';
+
+  return 'csv';
+}
+
+/**
+ * Parsea un estado de cuenta en el formato indicado (o detectado)
+ */
+export function parseBankStatement(fileName: string, content: string, format?: BankStatementFormat): ParsedStatement {
+  const resolvedFormat = format || detectStatementFormat(fileName, content);
+
+  let statement: ParsedStatement;
+  switch (resolvedFormat) {
+    case 'ofx':
+      statement = parseOfx(content);
+      break;
+    case 'camt053':
+      statement = parseCamt053(content);
+      break;
+    default:
+      statement = parseCsv(content);
+  }
+
+  if (statement.lines.length === 0) {
+    throw new BankStatementParseError('El archivo no contiene movimientos reconocibles');
+  }
+
+  statement.lines.sort((a, b) => a.transactionDate.getTime() - b.transactionDate.getTime());
+  if (!statement.periodStart) statement.periodStart = statement.lines[0].transactionDate;
+  if (!statement.periodEnd) statement.periodEnd = statement.lines[statement.lines.length - 1].transactionDate;
+
+  return statement;
+}
+
+// ============================================================================
+// Utilidades
+// ============================================================================
+
+/**
+ * Convierte importes con formatos "1,234.56", "1.234,56", "$ -1,234.56" o "(1,234.56)"
+ */
+function parseAmount(raw: string | undefined | null): number | null {
+  if (raw === undefined || raw === null) return null;
+  let value = String(raw).trim();
+  if (!value) return null;
+
+  let negative = false;
+  if (/^\(.*\)$/.test(value)) {
+    negative = true;
+    value = value.slice(1, -1);
+  }
+  if (/-$/.test(value)) {
+    negative = true;
+    value = value.slice(0, -1);
+  }
+
+  value = value.replace(/[^0-9.,-]/g, '');
+  if (value.startsWith('-')) {
+    negative = !negative;
+    value = value.slice(1);
+  }
+  if (!value) return null;
+
+  const lastComma = value.lastIndexOf(',');
+  const lastDot = value.lastIndexOf('.');
+  if (lastComma > lastDot) {
+    // Coma como separador decimal solo si le siguen 1-2 dígitos
+    const decimals = value.length - lastComma - 1;
+    value = decimals > 0 && decimals <= 2
+      ? value.replace(/\./g, '').replace(',', '.')
+      : value.replace(/,/g, '');
+  } else {
+    value = value.replace(/,/g, '');
+  }
+
+  const parsed = parseFloat(value);
+  if (isNaN(parsed)) return null;
+  return negative ? -parsed : parsed;
+}
+
+/**
+ * Convierte fechas YYYY-MM-DD, YYYYMMDD[HHMMSS], DD/MM/YYYY o DD-MM-YYYY (sin zona horaria, a mediodía UTC)
+ */
+function parseDate(raw: string | undefined | null): Date | null {
+  if (!raw) return null;
+  const value = String(raw).trim();
+
+  let match = value.match(/^(\d{4})-(\d{2})-(\d{2})/);
+  if (match) return utcNoon(+match[1], +match[2], +match[3]);
+
+  match = value.match(/^(\d{4})(\d{2})(\d{2})/);
+  if (match) return utcNoon(+match[1], +match[2], +match[3]);
+
+  match = value.match(/^(\d{1,2})[\/.-](\d{1,2})[\/.-](\d{2,4})/);
+  if (match) {
+    const year = match[3].length === 2 ? 2000 + +match[3] : +match[3];
+    return utcNoon(year, +match[2], +match[1]);
+  }
+
+  return null;
+}
+
+function utcNoon(year: number, month: number, day: number): Date | null {
+  if (month < 1 || month > 12 || day < 1 || day > 31) return null;
+  return new Date(Date.UTC(year, month - 1, day, 12, 0, 0));
+}
+
+function asArray<T>(value: T | T[] | undefined | null): T[] {
+  if (value === undefined || value === null) return [];
+  return Array.isArray(value) ? value : [value];
+}
+
+function textOf(value: any): string {
+  if (value === undefined || value === null) return '';
+  if (typeof value === 'object') return String(value['#text'] ?? '');
+  return String(value);
+}
+
+// ============================================================================
+// CSV
+// ============================================================================
+
+const CSV_COLUMNS = {
+  date: ['fecha', 'fecha operacion', 'fecha de operacion', 'fecha movimiento', 'date', 'transaction date', 'posting date', 'booking date'],
+  description: ['descripcion', 'concepto', 'detalle', 'description', 'details', 'memo', 'narrative'],
+  reference: ['referencia', 'folio', 'no. referencia', 'reference', 'ref', 'check number'],
+  amount: ['monto', 'importe', 'amount', 'valor'],
+  credit: ['abono', 'abonos', 'deposito', 'depositos', 'credito', 'credit', 'deposit', 'ingreso'],
+  debit: ['cargo', 'cargos', 'retiro', 'retiros', 'debito', 'debit', 'withdrawal', 'egreso'],
+  balance: ['saldo', 'balance', 'running balance'],
+};
+
+function normalizeHeader(header: string): string {
+  return header
+    .toLowerCase()
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/["']/g, '')
+    .trim();
+}
+
+function splitCsvLine(line: string, delimiter: string): string[] {
+  const fields: string[] = [];
+  let current = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (char === '"') {
+      if (inQuotes && line[i + 1] === '"') {
+        current += '"';
+        i++;
+      } else {
+        inQuotes = !inQuotes;
+      }
+    } else if (char === delimiter && !inQuotes) {
+      fields.push(current.trim());
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+  fields.push(current.trim());
+  return fields;
+}
+
+function parseCsv(content: string): ParsedStatement {
+  const rows = content.replace(/^\uFEFF/, '').split(/\r?\n/).filter(row => row.trim().length > 0);
+  const sample = rows.slice(0, 10);
+  const delimiter = [';', '\t', ','].find(d => sample.some(row => row.split(d).length > 2)) || ',';
+
+  // Los bancos suelen incluir líneas de título antes del encabezado real
+  const headerIndex = rows.findIndex(row => {
+    const headers = splitCsvLine(row, delimiter).map(normalizeHeader);
+    return headers.some(h => CSV_COLUMNS.date.includes(h)) &&
+      headers.some(h => [...CSV_COLUMNS.amount, ...CSV_COLUMNS.credit, ...CSV_COLUMNS.debit].includes(h));
+  });
+
+  if (headerIndex === -1) {
+    throw new BankStatementParseError('No se encontró un encabezado CSV con columnas de fecha e importe');
+  }
+
+  const headers = splitCsvLine(rows[headerIndex], delimiter).map(normalizeHeader);
+  const column = (names: string[]) => headers.findIndex(h => names.includes(h));
+  const dateCol = column(CSV_COLUMNS.date);
+  const descriptionCol = column(CSV_COLUMNS.description);
+  const referenceCol = column(CSV_COLUMNS.reference);
+  const amountCol = column(CSV_COLUMNS.amount);
+  const creditCol = column(CSV_COLUMNS.credit);
+  const debitCol = column(CSV_COLUMNS.debit);
+  const balanceCol = column(CSV_COLUMNS.balance);
+
+  const lines: ParsedStatementLine[] = [];
+  for (const row of rows.slice(headerIndex + 1)) {
+    const fields = splitCsvLine(row, delimiter);
+    const transactionDate = parseDate(fields[dateCol]);
+    if (!transactionDate) continue;
+
+    let amount: number | null = null;
+    if (amountCol !== -1) {
+      amount = parseAmount(fields[amountCol]);
+    } else {
+      const credit = creditCol !== -1 ? parseAmount(fields[creditCol]) : null;
+      const debit = debitCol !== -1 ? parseAmount(fields[debitCol]) : null;
+      if (credit) amount = Math.abs(credit);
+      else if (debit) amount = -Math.abs(debit);
+    }
+    if (amount === null || amount === 0) continue;
+
+    lines.push({
+      transactionDate,
+      amount,
+      description: (descriptionCol !== -1 ? fields[descriptionCol] : '') || 'Movimiento bancario',
+      reference: referenceCol !== -1 ? fields[referenceCol] || null : null,
+      externalId: null,
+      balance: balanceCol !== -1 ? parseAmount(fields[balanceCol]) : null,
+    });
+  }
+
+  return {
+    format: 'csv',
+    currency: null,
+    periodStart: null,
+    periodEnd: null,
+    openingBalance: null,
+    closingBalance: lines.length > 0 ? lines[lines.length - 1].balance : null,
+    lines,
+  };
+}
+
+// ============================================================================
+// OFX
+// ============================================================================
+
+/**
+ * Lee el valor de una etiqueta OFX. Funciona tanto con SGML (sin etiquetas de cierre) como con XML.
+ */
+function ofxTag(block: string, tag: string): string | null {
+  const match = block.match(new RegExp(`<${tag}>([^<\\r\\n]*)`, 'i'));
+  return match ? match[1].trim() : null;
+}
+
+function parseOfx(content: string): ParsedStatement {
+  const blocks = content.match(/<STMTTRN>[\s\S]*?(?=<STMTTRN>|<\/BANKTRANLIST>|$)/gi) || [];
+
+  const lines: ParsedStatementLine[] = [];
+  for (const block of blocks) {
+    const transactionDate = parseDate(ofxTag(block, 'DTPOSTED'));
+    const amount = parseAmount(ofxTag(block, 'TRNAMT'));
+    if (!transactionDate || amount === null || amount === 0) continue;
+
+    const name = ofxTag(block, 'NAME');
+    const memo = ofxTag(block, 'MEMO');
+    lines.push({
+      transactionDate,
+      amount,
+      description: [name, memo].filter(Boolean).join(' - ') || 'Movimiento bancario',
+      reference: ofxTag(block, 'CHECKNUM') || ofxTag(block, 'REFNUM'),
+      externalId: ofxTag(block, 'FITID'),
+      balance: null,
+    });
+  }
+
+  const ledgerBalance = content.match(/<LEDGERBAL>[\s\S]*?(?=<\/LEDGERBAL>|<AVAILBAL>|$)/i);
+
+  return {
+    format: 'ofx',
+    currency: ofxTag(content, 'CURDEF'),
+    periodStart: parseDate(ofxTag(content, 'DTSTART')),
+    periodEnd: parseDate(ofxTag(content, 'DTEND')),
+    openingBalance: null,
+    closingBalance: ledgerBalance ? parseAmount(ofxTag(ledgerBalance[0], 'BALAMT')) : null,
+    lines,
+  };
+}
+
+// ============================================================================
+// CAMT.053
+// ============================================================================
+
+function camtSignedAmount(node: any): number | null {
+  const amount = parseAmount(textOf(node?.Amt));
+  if (amount === null) return null;
+  return node?.CdtDbtInd === 'DBIT' ? -Math.abs(amount) : Math.abs(amount);
+}
+
+function parseCamt053(content: string): ParsedStatement {
+  const parser = new XMLParser({
+    ignoreAttributes: false,
+    attributeNamePrefix: '@_',
+    removeNSPrefix: true,
+    parseTagValue: false,
+  });
+
+  const xml = parser.parse(content);
+  const statements = asArray(xml?.Document?.BkToCstmrStmt?.Stmt);
+  if (statements.length === 0) {
+    throw new BankStatementParseError('El XML no es un estado de cuenta CAMT.053 válido');
+  }
+
+  let currency: string | null = null;
+  let openingBalance: number | null = null;
+  let closingBalance: number | null = null;
+  let periodStart: Date | null = null;
+  let periodEnd: Date | null = null;
+  const lines: ParsedStatementLine[] = [];
+
+  for (const stmt of statements) {
+    currency = currency || stmt?.Acct?.Ccy || null;
+    periodStart = periodStart || parseDate(stmt?.FrToDt?.FrDtTm);
+    periodEnd = parseDate(stmt?.FrToDt?.ToDtTm) || periodEnd;
+
+    for (const balance of asArray<any>(stmt?.Bal)) {
+      const code = balance?.Tp?.CdOrPrtry?.Cd;
+      if (code === 'OPBD' && openingBalance === null) openingBalance = camtSignedAmount(balance);
+      if (code === 'CLBD') closingBalance = camtSignedAmount(balance);
+    }
+
+    for (const entry of asArray<any>(stmt?.Ntry)) {
+      const amount = camtSignedAmount(entry);
+      const transactionDate = parseDate(entry?.BookgDt?.Dt || entry?.BookgDt?.DtTm || entry?.ValDt?.Dt || entry?.ValDt?.DtTm);
+      if (!transactionDate || amount === null || amount === 0) continue;
+
+      const txDetails = asArray<any>(entry?.NtryDtls?.TxDtls)[0];
+      const remittance = asArray<any>(txDetails?.RmtInf?.Ustrd).map(textOf).join(' ');
+      const counterparty = amount > 0
+        ? txDetails?.RltdPties?.Dbtr?.Nm || txDetails?.RltdPties?.Dbtr?.Pty?.Nm
+        : txDetails?.RltdPties?.Cdtr?.Nm || txDetails?.RltdPties?.Cdtr?.Pty?.Nm;
+      const endToEndId = txDetails?.Refs?.EndToEndId;
+
+      lines.push({
+        transactionDate,
+        amount,
+        description: [counterparty, remittance || textOf(entry?.AddtlNtryInf)].filter(Boolean).join(' - ') || 'Movimiento bancario',
+        reference: endToEndId && endToEndId !== 'NOTPROVIDED' ? String(endToEndId) : null,
+        externalId: entry?.AcctSvcrRef ? String(entry.AcctSvcrRef) : null,
+        balance: null,
+      });
+    }
+  }
+
+  return {
+    format: 'camt053',
+    currency,
+    periodStart,
+    periodEnd,
+    openingBalance,
+    closingBalance,
+    lines,
+  };
+}
@@ -1,5 +1,7 @@
-import { google } from 'googleapis';
+import { google, type Auth } from 'googleapis';
 import { storage } from './storage';
+import { secretVault } from './secret-vault';
+import { securityAuditService } from './security-audit-service';
 import type { GmailAccount, CalendarEvent } from '@shared/schema';
 
 interface GoogleAttendee {
@@ -46,13 +48,46 @@ export async function getCalendarOAuthClient(account: GmailAccount) {
   );
 
   oauth2Client.setCredentials({
-    access_token: account.accessToken,
-    refresh_token: account.refreshToken,
+    access_token: secretVault.decryptOptional(account.accessToken),
+    refresh_token: secretVault.decryptOptional(account.refreshToken),
+  });
+
+  // googleapis renueva el access token por su cuenta: guardarlo cifrado y auditarlo
+  oauth2Client.on('tokens', (tokens) => {
+    saveRefreshedTokens(account, tokens).catch(error => {
+      console.error(`[Calendar] Error saving refreshed token for ${account.email}:`, error);
+    });
   });
 
   return oauth2Client;
 }
 
+/**
+ * Guarda cifrados los tokens que googleapis renovó automáticamente y registra el evento
+ */
+async function saveRefreshedTokens(account: GmailAccount, tokens: Auth.Credentials): Promise<void> {
+  if (!tokens.access_token) return;
+
+  await storage.updateGmailAccount(account.id, {
+    accessToken: secretVault.encrypt(tokens.access_token),
+    ...(tokens.expiry_date ? { tokenExpiry: new Date(tokens.expiry_date) } : {}),
+    // Google puede rotar el refresh token en la respuesta
+    ...(tokens.refresh_token ? { refreshToken: secretVault.encrypt(tokens.refresh_token) } : {}),
+  });
+
+  await securityAuditService.record({
+    eventType: 'token_refreshed',
+    entityType: 'gmail_account',
+    entityId: account.id,
+    details: {
+      provider: 'gmail',
+      email: account.email,
+      source: 'calendar',
+      expiresAt: tokens.expiry_date ? new Date(tokens.expiry_date).toISOString() : null,
+    },
+  });
+}
+
 export async function syncCalendarEvents(accountId: string) {
   try {
     const account = await storage.getGmailAccount(accountId);
@@ -347,7 +382,7 @@ export function startAutoCalendarSync() {
     try {
       const accounts = await storage.getAllGmailAccounts();
       for (const account of accounts) {
-        if (account.syncEnabled && account.status === 'active') {
+        if (account.provider === 'gmail' && account.syncEnabled && account.status === 'active') {
           await syncCalendarEvents(account.id);
         }
       }
@@ -0,0 +1,239 @@
+/**
+ * Credit Note Service - Notas de crédito (CFDI de Egreso) ligadas a la factura original
+ *
+ * La nota se crea como factura tipo `E` a partir de conceptos de la factura original
+ * (con cantidad parcial) o de un monto parcial. Se timbra con CfdiRelacionados tipo 01
+ * (ver InvoiceCfdiService) y, una vez timbrada, reduce el saldo de la factura original.
+ */
+
+import { db } from './db';
+import { storage } from './storage';
+import { eq, and, ne, like, desc } from 'drizzle-orm';
+import { invoices, invoiceItems } from '@shared/schema';
+import type { Invoice, InvoiceItem } from '@shared/schema';
+import { invoiceCfdiService, InvoiceCfdiError } from './invoice-cfdi-service';
+import { invoiceBalanceService } from './invoice-balance-service';
+
+// Clave SAT para descuentos y bonificaciones sobre servicios facturados
+const CREDIT_PRODUCT_CODE = '84111506';
+const CREDIT_UNIT_CODE = 'ACT';
+
+const toCents = (value: string | number | null | undefined) => Math.round(Number(value || 0) * 100);
+const fromCents = (cents: number) => (cents / 100).toFixed(2);
+
+export class CreditNoteError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'CreditNoteError';
+    Object.setPrototypeOf(this, CreditNoteError.prototype);
+  }
+}
+
+export interface CreditNoteRequest {
+  items?: Array<{ invoiceItemId: string; quantity: string | number }>; // Conceptos a acreditar
+  amount?: string | number; // Monto parcial a acreditar (incluye impuestos)
+  description?: string;
+  stamp?: boolean; // Timbrar inmediatamente
+}
+
+export interface CreditNoteResult {
+  creditNote: Invoice;
+  stampError?: string; // La nota quedó en borrador si falló el timbrado
+}
+
+type CreditNoteLine = Omit<InvoiceItem, 'id' | 'invoiceId' | 'createdAt'>;
+
+export class CreditNoteService {
+  async getCreditNotes(invoiceId: string): Promise<Invoice[]> {
+    return await db.select().from(invoices)
+      .where(and(eq(invoices.relatedInvoiceId, invoiceId), eq(invoices.tipoComprobante, 'E')))
+      .orderBy(desc(invoices.createdAt));
+  }
+
+  /**
+   * Monto que aún puede acreditarse: el saldo pendiente, es decir, total menos pagos y notas
+   * de crédito vigentes (incluye borradores). Lo ya pagado se devuelve como saldo a favor,
+   * no con una nota de crédito.
+   */
+  async getCreditableCents(invoice: Invoice): Promise<number> {
+    const notes = await db.select({ total: invoices.total })
+      .from(invoices)
+      .where(and(
+        eq(invoices.relatedInvoiceId, invoice.id),
+        eq(invoices.tipoComprobante, 'E'),
+        ne(invoices.status, 'cancelled')
+      ));
+    const creditedCents = notes.reduce((sum, note) => sum + toCents(note.total), 0);
+    const paidCents = await invoiceBalanceService.getPaidCents(db, invoice.id);
+    return Math.max(toCents(invoice.total) - creditedCents - paidCents, 0);
+  }
+
+  async createCreditNote(invoiceId: string, request: CreditNoteRequest): Promise<CreditNoteResult> {
+    const [invoice] = await db.select().from(invoices).where(eq(invoices.id, invoiceId));
+    if (!invoice) {
+      throw new CreditNoteError('Factura no encontrada');
+    }
+    if ((invoice.tipoComprobante || 'I') !== 'I') {
+      throw new CreditNoteError('Solo se pueden emitir notas de crédito sobre facturas de ingreso');
+    }
+    if (!invoice.folioFiscal || invoice.status === 'cancelled') {
+      throw new CreditNoteError('La factura debe estar timbrada y vigente para emitir una nota de crédito');
+    }
+
+    const hasItems = !!request.items && request.items.length > 0;
+    if (hasItems === (request.amount !== undefined)) {
+      throw new CreditNoteError('Indica conceptos o un monto parcial para la nota de crédito');
+    }
+
+    const lines = hasItems
+      ? await this.buildLinesFromItems(invoice, request.items!)
+      : this.buildLineFromAmount(invoice, request.amount!, request.description);
+
+    const subtotalCents = lines.reduce((sum, line) => sum + toCents(line.amount), 0);
+    const taxCents = lines.reduce((sum, line) => sum + toCents(line.taxAmount), 0);
+    const totalCents = subtotalCents + taxCents;
+
+    if (totalCents <= 0) {
+      throw new CreditNoteError('El monto de la nota de crédito debe ser mayor a cero');
+    }
+
+    const creditableCents = await this.getCreditableCents(invoice);
+    if (totalCents > creditableCents) {
+      throw new CreditNoteError(`La nota de crédito excede el saldo pendiente de la factura (${fromCents(creditableCents)} ${invoice.currency})`);
+    }
+
+    const invoiceNumber = await this.nextCreditNoteNumber(invoice.invoiceNumber);
+
+    const creditNote = await db.transaction(async (tx) => {
+      const [note] = await tx.insert(invoices).values({
+        invoiceNumber,
+        operationId: invoice.operationId,
+        employeeId: invoice.employeeId,
+        clientId: invoice.clientId,
+        currency: invoice.currency,
+        subtotal: fromCents(subtotalCents),
+        tax: fromCents(taxCents),
+        total: fromCents(totalCents),
+        status: 'draft',
+        dueDate: new Date(),
+        notes: request.description || `Nota de crédito sobre factura ${invoice.invoiceNumber}`,
+        issuerRFC: invoice.issuerRFC,
+        issuerName: invoice.issuerName,
+        issuerRegimenFiscal: invoice.issuerRegimenFiscal,
+        lugarExpedicion: invoice.lugarExpedicion,
+        recipientRFC: invoice.recipientRFC,
+        recipientName: invoice.recipientName,
+        recipientRegimenFiscal: invoice.recipientRegimenFiscal,
+        recipientCodigoPostal: invoice.recipientCodigoPostal,
+        recipientDomicilioFiscal: invoice.recipientDomicilioFiscal,
+        metodoPago: 'PUE',
+        // "99 - Por definir" no aplica a egresos; se documenta como condonación
+        formaPago: invoice.formaPago && invoice.formaPago !== '99' ? invoice.formaPago : '15',
+        tipoComprobante: 'E',
+        usoCFDI: 'G02', // Devoluciones, descuentos o bonificaciones
+        exportacion: invoice.exportacion,
+        relatedInvoiceId: invoice.id,
+      }).returning();
+
+      await tx.insert(invoiceItems).values(lines.map(line => ({ ...line, invoiceId: note.id })));
+
+      return note;
+    });
+
+    console.log(`[Credit Note] ${creditNote.invoiceNumber} created for invoice ${invoice.invoiceNumber} (${creditNote.total} ${creditNote.currency})`);
+
+    if (!request.stamp) {
+      return { creditNote };
+    }
+
+    try {
+      return { creditNote: await invoiceCfdiService.stampInvoice(creditNote.id) };
+    } catch (error: any) {
+      if (!(error instanceof InvoiceCfdiError)) throw error;
+      const [draft] = await db.select().from(invoices).where(eq(invoices.id, creditNote.id));
+      return { creditNote: draft || creditNote, stampError: error.message };
+    }
+  }
+
+  /**
+   * Conceptos de la nota a partir de conceptos de la factura original (cantidad parcial permitida)
+   */
+  private async buildLinesFromItems(invoice: Invoice, selection: NonNullable<CreditNoteRequest['items']>): Promise<CreditNoteLine[]> {
+    const originalItems = await storage.getInvoiceItems(invoice.id);
+    const itemsById = new Map(originalItems.map(item => [item.id, item]));
+
+    return selection.map(({ invoiceItemId, quantity }) => {
+      const item = itemsById.get(invoiceItemId);
+      if (!item) {
+        throw new CreditNoteError('El concepto seleccionado no pertenece a la factura');
+      }
+
+      const qty = Number(quantity);
+      if (!(qty > 0) || qty > Number(item.quantity)) {
+        throw new CreditNoteError(`Cantidad inválida para "${item.description}" (máximo ${item.quantity})`);
+      }
+
+      const amountCents = Math.round(toCents(item.unitPrice) * qty);
+      const hasTax = toCents(item.taxAmount) > 0;
+      const taxRate = item.taxRate ? Number(item.taxRate) : 0.16;
+      const taxCents = hasTax ? Math.round(amountCents * taxRate) : 0;
+
+      return {
+        description: item.description,
+        quantity: qty.toFixed(2),
+        unitPrice: item.unitPrice,
+        amount: fromCents(amountCents),
+        satProductCode: item.satProductCode,
+        satUnitCode: item.satUnitCode,
+        satTaxObject: item.satTaxObject,
+        identification: item.identification,
+        taxRate: hasTax ? taxRate.toFixed(4) : null,
+        taxAmount: hasTax ? fromCents(taxCents) : null,
+        chargeCategory: item.chargeCategory, // La nota resta ingreso de la misma categoría
+      };
+    });
+  }
+
+  /**
+   * Concepto único de bonificación por un monto parcial, con la tasa de IVA de la factura original
+   */
+  private buildLineFromAmount(invoice: Invoice, amount: string | number, description?: string): CreditNoteLine[] {
+    const totalCents = toCents(amount);
+    const subtotal = Number(invoice.subtotal);
+    const taxRate = subtotal > 0 ? Math.round((Number(invoice.tax) / subtotal) * 10000) / 10000 : 0;
+    const subtotalCents = Math.round(totalCents / (1 + taxRate));
+    const taxCents = totalCents - subtotalCents;
+
+    return [{
+      description: description || `Bonificación sobre factura ${invoice.invoiceNumber}`,
+      quantity: '1.00',
+      unitPrice: fromCents(subtotalCents),
+      amount: fromCents(subtotalCents),
+      satProductCode: CREDIT_PRODUCT_CODE,
+      satUnitCode: CREDIT_UNIT_CODE,
+      satTaxObject: taxCents > 0 ? '02' : '01',
+      identification: null,
+      taxRate: taxCents > 0 ? taxRate.toFixed(4) : null,
+      taxAmount: taxCents > 0 ? fromCents(taxCents) : null,
+      chargeCategory: null,
+    }];
+  }
+
+  private async nextCreditNoteNumber(invoiceNumber: string): Promise<string> {
+    // Sin guiones extra: el timbrado separa serie y folio por el primer guion
+    const base = `NC-${invoiceNumber.replace(/-/g, '')}`;
+    const taken = await db.select({ invoiceNumber: invoices.invoiceNumber })
+      .from(invoices)
+      .where(like(invoices.invoiceNumber, `${base}%`));
+    const takenNumbers = new Set(taken.map(row => row.invoiceNumber));
+
+    let candidate = base;
+    for (let n = 2; takenNumbers.has(candidate); n++) {
+      candidate = `${base}.${n}`;
+    }
+    return candidate;
+  }
+}
+
+// Instancia singleton
+export const creditNoteService = new CreditNoteService();
@@ -0,0 +1,951 @@
+/**
+ * Email Linking Service - Vinculación de correos a operaciones
+ *
+ * Cada matcher busca una señal en el correo (nombre de la operación, booking, MBL/HBL,
+ * contenedores de la carga, orden de compra de una factura, hilo ya vinculado, dominio del remitente
+ * → cliente) y suma su peso a la operación candidata. El mejor candidato se vincula si
+ * alcanza el umbral y no empata con otro. Cada decisión queda en `email_link_decisions`
+ * con su puntaje y razones para que un usuario la confirme o la corrija; las revisiones
+ * alimentan la base de conocimiento (`email_linking`).
+ *
+ * Los pesos y el encendido de cada matcher se guardan en `email_linking_matchers`.
+ *
+ * Cuando un hilo de Gmail tiene una sola operación, sus demás mensajes la heredan
+ * (aunque las respuestas ya no traigan la referencia), salvo que el hilo se haya dividido.
+ */
+
+import { db } from './db';
+import { eq, and, desc, sql, inArray, notInArray, isNull, isNotNull } from 'drizzle-orm';
+import { gmailMessages, gmailAttachments, operations, operationContainers, invoices, clients, emailLinkingMatchers, emailLinkDecisions, emailThreadSplits } from '@shared/schema';
+import type { EmailLinkDecision, EmailLinkingMatcher } from '@shared/schema';
+import { extractContainerNumbers } from '@shared/container-number';
+import { storage } from './storage';
+import { knowledgeBaseService, type EmailLinkingPattern } from './knowledge-base-service';
+
+// Puntaje mínimo para vincular automáticamente
+const LINK_THRESHOLD = 60;
+
+// Si el segundo candidato también pasa el umbral y queda a menos de esto, no se decide
+const AMBIGUITY_MARGIN = 20;
+
+// Candidatos que se guardan en la bitácora por decisión
+const MAX_LOGGED_CANDIDATES = 5;
+
+const BATCH_SIZE = 200;
+
+// Operaciones cuyo cliente recibe correos nuevos
+const ACTIVE_OPERATION_STATUSES = ['planning', 'in-progress'];
+
+// Dominios de correo personal; no identifican a un cliente
+const GENERIC_DOMAINS = new Set([
+  'gmail.com', 'googlemail.com', 'hotmail.com', 'outlook.com', 'live.com', 'yahoo.com',
+  'yahoo.com.mx', 'icloud.com', 'me.com', 'aol.com', 'prodigy.net.mx', 'msn.com',
+]);
+
+export class EmailLinkingError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'EmailLinkingError';
+    Object.setPrototypeOf(this, EmailLinkingError.prototype);
+  }
+}
+
+export type MatchLocation = 'subject' | 'body' | 'attachment' | 'sender' | 'thread';
+
+export interface MatchHit {
+  operationId: string;
+  location: MatchLocation;
+  evidence: string;
+}
+
+interface MessageSection {
+  location: MatchLocation;
+  label: string;
+  lower: string;
+  compact: string;
+}
+
+export interface LinkableMessage {
+  id: string;
+  threadId: string;
+  fromEmail: string;
+  sections: MessageSection[];
+}
+
+interface CandidateOperation {
+  id: string;
+  name: string;
+  status: string;
+  clientId: string | null;
+  bookingTracking: string | null;
+  mblAwb: string | null;
+  hblAwb: string | null;
+}
+
+export interface LinkingIndex {
+  operations: Map<string, CandidateOperation>;
+  purchaseOrders: Array<{ value: string; operationId: string; invoiceNumber: string }>;
+  containers: Map<string, Set<string>>; // Contenedor → operaciones
+  threadOperations: Map<string, Set<string>>; // threadId → operaciones de sus mensajes vinculados
+  domainClients: Map<string, Set<string>>; // Dominio → clientes
+  clientNames: Map<string, string>;
+  clientOperations: Map<string, string[]>; // Cliente → operaciones activas
+}
+
+/**
+ * Un matcher aporta su peso a cada operación en la que encuentra su señal.
+ * Para agregar una señal nueva basta con registrar otro matcher con `registerMatcher`.
+ */
+export interface EmailMatcher {
+  key: string;
+  label: string;
+  description: string;
+  defaultWeight: number;
+  match(message: LinkableMessage, index: LinkingIndex): MatchHit[];
+}
+
+export interface CandidateMatch {
+  matcher: string;
+  weight: number;
+  location: MatchLocation;
+  evidence: string;
+}
+
+export interface LinkCandidate {
+  operationId: string;
+  operationName: string;
+  score: number;
+  matches: CandidateMatch[];
+}
+
+export interface LinkingRunResult {
+  evaluated: number;
+  linked: number;
+  ambiguous: number;
+  belowThreshold: number;
+  noMatch: number;
+  inherited: number; // Mensajes vinculados por herencia del hilo
+}
+
+export interface MatcherSetting {
+  key: string;
+  label: string;
+  description: string;
+  defaultWeight: number;
+  weight: number;
+  isEnabled: boolean;
+  successRate: number | null; // Acierto según las revisiones (0-100)
+  reviews: number;
+}
+
+export interface DecisionWithMessage extends EmailLinkDecision {
+  message: {
+    subject: string | null;
+    fromEmail: string;
+    fromName: string | null;
+    date: Date;
+    operationId: string | null; // Vínculo actual del mensaje
+  };
+  operationName: string | null;
+  reviewedOperationName: string | null;
+}
+
+const compact = (value: string) => value.toUpperCase().replace(/[^A-Z0-9]/g, '');
+
+const LOCATION_LABELS: Record<MatchLocation, string> = {
+  subject: 'asunto',
+  body: 'cuerpo',
+  attachment: 'adjunto',
+  sender: 'remitente',
+  thread: 'hilo',
+};
+
+const LOCATION_METHODS: Record<MatchLocation, EmailLinkingPattern['method']> = {
+  subject: 'subject',
+  body: 'content',
+  attachment: 'attachment_ocr',
+  sender: 'sender_email',
+  thread: 'combined',
+};
+
+export function senderDomain(email: string): string | null {
+  const domain = email.toLowerCase().split('@')[1]?.trim().replace(/>$/, '');
+  return domain && !GENERIC_DOMAINS.has(domain) ? domain : null;
+}
+
+/**
+ * Busca una palabra completa (sin letras o dígitos pegados) en texto en minúsculas
+ */
+function containsWord(text: string, word: string): boolean {
+  let index = text.indexOf(word);
+  while (index !== -1) {
+    const before = index > 0 ? text[index - 1] : ' ';
+    const after = text[index + word.length] ?? ' ';
+    if (!/[a-z0-9]/.test(before) && !/[a-z0-9]/.test(after)) {
+      return true;
+    }
+    index = text.indexOf(word, index + 1);
+  }
+  return false;
+}
+
+/**
+ * Primera sección del mensaje que contiene una referencia, ignorando espacios y guiones
+ */
+function findReference(message: LinkableMessage, reference: string | null, minLength: number = 6): MessageSection | undefined {
+  if (!reference) return undefined;
+  const needle = compact(reference);
+  if (needle.length < minLength) return undefined;
+  return message.sections.find(section => section.compact.includes(needle));
+}
+
+function sectionEvidence(section: MessageSection, text: string): string {
+  return section.location === 'attachment'
+    ? `${text} en adjunto ${section.label}`
+    : `${text} en ${LOCATION_LABELS[section.location]}`;
+}
+
+const operationNameMatcher: EmailMatcher = {
+  key: 'operation_name',
+  label: 'Nombre de la operación',
+  description: 'El nombre de la operación aparece como palabra completa (mínimo 4 caracteres)',
+  defaultWeight: 60,
+  match(message, index) {
+    const hits: MatchHit[] = [];
+    for (const operation of Array.from(index.operations.values())) {
+      const name = operation.name.trim().toLowerCase();
+      if (name.length < 4) continue;
+      const section = message.sections.find(s => containsWord(s.lower, name));
+      if (section) {
+        hits.push({ operationId: operation.id, location: section.location, evidence: sectionEvidence(section, `"${operation.name}"`) });
+      }
+    }
+    return hits;
+  },
+};
+
+const bookingMatcher: EmailMatcher = {
+  key: 'booking',
+  label: 'Booking / Tracking',
+  description: 'El número de booking o tracking de la operación aparece en el correo',
+  defaultWeight: 80,
+  match(message, index) {
+    const hits: MatchHit[] = [];
+    for (const operation of Array.from(index.operations.values())) {
+      const section = findReference(message, operation.bookingTracking);
+      if (section) {
+        hits.push({ operationId: operation.id, location: section.location, evidence: sectionEvidence(section, `Booking ${operation.bookingTracking}`) });
+      }
+    }
+    return hits;
+  },
+};
+
+const billOfLadingMatcher: EmailMatcher = {
+  key: 'bill_of_lading',
+  label: 'MBL / HBL',
+  description: 'El MBL/AWB o HBL/AWB de la operación aparece en el correo',
+  defaultWeight: 80,
+  match(message, index) {
+    const hits: MatchHit[] = [];
+    for (const operation of Array.from(index.operations.values())) {
+      const references = [
+        { label: 'MBL', value: operation.mblAwb },
+        { label: 'HBL', value: operation.hblAwb },
+      ];
+      for (const reference of references) {
+        const section = findReference(message, reference.value);
+        if (section) {
+          hits.push({ operationId: operation.id, location: section.location, evidence: sectionEvidence(section, `${reference.label} ${reference.value}`) });
+          break;
+        }
+      }
+    }
+    return hits;
+  },
+};
+
+const containerMatcher: EmailMatcher = {
+  key: 'container',
+  label: 'Contenedor',
+  description: 'Un número de contenedor ISO 6346 ya asociado a la operación aparece en el correo',
+  defaultWeight: 70,
+  match(message, index) {
+    const hits: MatchHit[] = [];
+    const seen = new Set<string>();
+    for (const section of message.sections) {
+      for (const container of extractContainerNumbers(section.lower)) {
+        for (const operationId of Array.from(index.containers.get(container) || [])) {
+          if (seen.has(operationId)) continue;
+          seen.add(operationId);
+          hits.push({ operationId, location: section.location, evidence: sectionEvidence(section, `Contenedor ${container}`) });
+        }
+      }
+    }
+    return hits;
+  },
+};
+
+const purchaseOrderMatcher: EmailMatcher = {
+  key: 'purchase_order',
+  label: 'Orden de compra',
+  description: 'La orden de compra de una factura de la operación aparece en el correo',
+  defaultWeight: 70,
+  match(message, index) {
+    const hits: MatchHit[] = [];
+    const seen = new Set<string>();
+    for (const order of index.purchaseOrders) {
+      if (seen.has(order.operationId)) continue;
+      const section = findReference(message, order.value, 5);
+      if (section) {
+        seen.add(order.operationId);
+        hits.push({ operationId: order.operationId, location: section.location, evidence: sectionEvidence(section, `Orden de compra ${order.value} (factura ${order.invoiceNumber})`) });
+      }
+    }
+    return hits;
+  },
+};
+
+const threadMatcher: EmailMatcher = {
+  key: 'thread',
+  label: 'Hilo vinculado',
+  description: 'Otro mensaje del mismo hilo ya está vinculado a la operación',
+  defaultWeight: 90,
+  match(message, index) {
+    return Array.from(index.threadOperations.get(message.threadId) || []).map(operationId => ({
+      operationId,
+      location: 'thread' as const,
+      evidence: 'Otro mensaje del hilo está vinculado a la operación',
+    }));
+  },
+};
+
+const senderDomainMatcher: EmailMatcher = {
+  key: 'sender_domain',
+  label: 'Dominio del remitente',
+  description: 'El dominio del remitente corresponde a un cliente; suma a sus operaciones activas',
+  defaultWeight: 25,
+  match(message, index) {
+    const domain = senderDomain(message.fromEmail);
+    if (!domain) return [];
+    const hits: MatchHit[] = [];
+    for (const clientId of Array.from(index.domainClients.get(domain) || [])) {
+      for (const operationId of index.clientOperations.get(clientId) || []) {
+        hits.push({ operationId, location: 'sender', evidence: `Dominio ${domain} → cliente ${index.clientNames.get(clientId) || clientId}` });
+      }
+    }
+    return hits;
+  },
+};
+
+const matchers: EmailMatcher[] = [
+  operationNameMatcher,
+  bookingMatcher,
+  billOfLadingMatcher,
+  containerMatcher,
+  purchaseOrderMatcher,
+  threadMatcher,
+  senderDomainMatcher,
+];
+
+export class EmailLinkingService {
+  /**
+   * Registra un matcher adicional (o reemplaza uno con la misma llave)
+   */
+  registerMatcher(matcher: EmailMatcher): void {
+    const existing = matchers.findIndex(m => m.key === matcher.key);
+    if (existing >= 0) {
+      matchers[existing] = matcher;
+    } else {
+      matchers.push(matcher);
+    }
+  }
+
+  /**
+   * Matchers registrados con su peso configurado y su acierto según las revisiones
+   */
+  async getMatcherSettings(): Promise<MatcherSetting[]> {
+    const rows = await db.select().from(emailLinkingMatchers);
+    const accuracy = await knowledgeBaseService.getEmailLinkingAccuracy();
+
+    return matchers.map(matcher => {
+      const row = rows.find(r => r.matcherKey === matcher.key);
+      const stats = accuracy.get(matcher.key);
+      return {
+        key: matcher.key,
+        label: matcher.label,
+        description: matcher.description,
+        defaultWeight: matcher.defaultWeight,
+        weight: row?.weight ?? matcher.defaultWeight,
+        isEnabled: row?.isEnabled ?? true,
+        successRate: stats ? stats.successRate : null,
+        reviews: stats?.reviews ?? 0,
+      };
+    });
+  }
+
+  async updateMatcherSetting(key: string, data: { weight?: number; isEnabled?: boolean }): Promise<EmailLinkingMatcher> {
+    const matcher = matchers.find(m => m.key === key);
+    if (!matcher) {
+      throw new EmailLinkingError(`Matcher desconocido: ${key}`);
+    }
+
+    const [row] = await db.insert(emailLinkingMatchers)
+      .values({
+        matcherKey: key,
+        weight: data.weight ?? matcher.defaultWeight,
+        isEnabled: data.isEnabled ?? true,
+      })
+      .onConflictDoUpdate({
+        target: emailLinkingMatchers.matcherKey,
+        set: {
+          ...(data.weight !== undefined && { weight: data.weight }),
+          ...(data.isEnabled !== undefined && { isEnabled: data.isEnabled }),
+          updatedAt: new Date(),
+        },
+      })
+      .returning();
+    return row;
+  }
+
+  /**
+   * Evalúa los mensajes sin operación y vincula los que tengan un candidato claro.
+   * Se saltan los mensajes revisados por un usuario y los evaluados después de la
+   * última operación creada, salvo con `reevaluate`.
+   */
+  async linkUnlinkedMessages(options: { reevaluate?: boolean } = {}): Promise<LinkingRunResult> {
+    const result: LinkingRunResult = { evaluated: 0, linked: 0, ambiguous: 0, belowThreshold: 0, noMatch: 0, inherited: 0 };
+
+    const activeMatchers = await this.getActiveMatchers();
+    if (activeMatchers.length === 0) {
+      console.log('[Email Linking] All matchers are disabled, skipping');
+      return result;
+    }
+
+    const pendingIds = await this.getMessagesToEvaluate(options.reevaluate === true);
+    if (pendingIds.length === 0) {
+      console.log('[Email Linking] No messages to evaluate');
+      result.inherited = await this.inheritThreadLinks();
+      return result;
+    }
+
+    const baseIndex = await this.buildIndex();
+
+    for (let i = 0; i < pendingIds.length; i += BATCH_SIZE) {
+      const batch = await this.loadMessages(pendingIds.slice(i, i + BATCH_SIZE));
+      const index = { ...baseIndex, threadOperations: await this.loadThreadOperations(batch) };
+
+      for (const message of batch) {
+        const candidates = this.scoreCandidates(message, index, activeMatchers);
+        const decision = await this.recordDecision(message.id, candidates);
+        result.evaluated++;
+        if (decision === 'linked') result.linked++;
+        else if (decision === 'ambiguous') result.ambiguous++;
+        else if (decision === 'below_threshold') result.belowThreshold++;
+        else result.noMatch++;
+      }
+    }
+
+    // Los vínculos nuevos pueden completar hilos cuyos demás mensajes no traen referencia
+    result.inherited = await this.inheritThreadLinks();
+
+    console.log(`[Email Linking] Evaluated ${result.evaluated} messages: ${result.linked} linked, ${result.ambiguous} ambiguous, ${result.belowThreshold} below threshold, ${result.noMatch} without match, ${result.inherited} inherited from thread`);
+    return result;
+  }
+
+  private async getActiveMatchers(): Promise<Array<{ matcher: EmailMatcher; weight: number }>> {
+    const settings = await db.select().from(emailLinkingMatchers);
+    return matchers
+      .map(matcher => {
+        const setting = settings.find(s => s.matcherKey === matcher.key);
+        return { matcher, weight: setting?.weight ?? matcher.defaultWeight, isEnabled: setting?.isEnabled ?? true };
+      })
+      .filter(m => m.isEnabled && m.weight > 0);
+  }
+
+  private async getMessagesToEvaluate(reevaluate: boolean): Promise<string[]> {
+    const unlinked = await db.select({ id: gmailMessages.id })
+      .from(gmailMessages)
+      .where(isNull(gmailMessages.operationId))
+      .orderBy(desc(gmailMessages.date));
+
+    const history = await db.select({
+      gmailMessageId: emailLinkDecisions.gmailMessageId,
+      lastEvaluatedAt: sql<Date>`MAX(${emailLinkDecisions.evaluatedAt})`,
+      reviewed: sql<boolean>`BOOL_OR(${emailLinkDecisions.reviewStatus} <> 'pending')`,
+    })
+      .from(emailLinkDecisions)
+      .groupBy(emailLinkDecisions.gmailMessageId);
+
+    const [{ lastOperationAt }] = await db.select({
+      lastOperationAt: sql<Date | null>`MAX(${operations.createdAt})`,
+    }).from(operations);
+    const newestOperation = lastOperationAt ? new Date(lastOperationAt).getTime() : 0;
+
+    const historyByMessage = new Map(history.map(h => [h.gmailMessageId, h]));
+
+    return unlinked
+      .filter(({ id }) => {
+        const previous = historyByMessage.get(id);
+        if (!previous) return true;
+        if (previous.reviewed) return false; // La decisión humana manda
+        return reevaluate || new Date(previous.lastEvaluatedAt).getTime() < newestOperation;
+      })
+      .map(({ id }) => id);
+  }
+
+  private async buildIndex(): Promise<Omit<LinkingIndex, 'threadOperations'>> {
+    const operationRows = await db.select({
+      id: operations.id,
+      name: operations.name,
+      status: operations.status,
+      clientId: operations.clientId,
+      bookingTracking: operations.bookingTracking,
+      mblAwb: operations.mblAwb,
+      hblAwb: operations.hblAwb,
+      description: operations.description,
+    }).from(operations);
+
+    const operationMap = new Map<string, CandidateOperation>();
+    const containers = new Map<string, Set<string>>();
+    const clientOperations = new Map<string, string[]>();
+
+    const addContainers = (text: string | null, operationId: string) => {
+      if (!text) return;
+      for (const container of extractContainerNumbers(text)) {
+        const operationIds = containers.get(container) || new Set<string>();
+        operationIds.add(operationId);
+        containers.set(container, operationIds);
+      }
+    };
+
+    for (const { description, ...operation } of operationRows) {
+      operationMap.set(operation.id, operation);
+      addContainers(`${operation.name} ${description || ''} ${operation.bookingTracking || ''}`, operation.id);
+      if (operation.clientId && ACTIVE_OPERATION_STATUSES.includes(operation.status)) {
+        clientOperations.set(operation.clientId, [...(clientOperations.get(operation.clientId) || []), operation.id]);
+      }
+    }
+
+    // Contenedores registrados en la carga de la operación
+    const cargoContainers = await db.select({
+      containerNumber: operationContainers.containerNumber,
+      operationId: operationContainers.operationId,
+    })
+      .from(operationContainers)
+      .where(isNotNull(operationContainers.containerNumber));
+    for (const row of cargoContainers) {
+      addContainers(row.containerNumber, row.operationId);
+    }
+
+    // Contenedores mencionados en el asunto de correos ya vinculados
+    const linkedSubjects = await db.select({ operationId: gmailMessages.operationId, subject: gmailMessages.subject })
+      .from(gmailMessages)
+      .where(isNotNull(gmailMessages.operationId));
+    for (const row of linkedSubjects) {
+      addContainers(row.subject, row.operationId!);
+    }
+
+    const purchaseOrders = (await db.select({
+      value: invoices.ordenCompra,
+      operationId: invoices.operationId,
+      invoiceNumber: invoices.invoiceNumber,
+    })
+      .from(invoices)
+      .where(and(isNotNull(invoices.ordenCompra), isNotNull(invoices.operationId))))
+      .map(row => ({ value: row.value!, operationId: row.operationId!, invoiceNumber: row.invoiceNumber }));
+
+    const clientRows = await db.select({ id: clients.id, name: clients.name, email: clients.email }).from(clients);
+    const domainClients = new Map<string, Set<string>>();
+    const addDomain = (domain: string, clientId: string) => {
+      const clientIds = domainClients.get(domain) || new Set<string>();
+      clientIds.add(clientId);
+      domainClients.set(domain, clientIds);
+    };
+    for (const client of clientRows) {
+      const domain = senderDomain(client.email || '');
+      if (domain) addDomain(domain, client.id);
+    }
+    const learnedDomains = await knowledgeBaseService.getLearnedSenderDomains();
+    for (const [domain, clientId] of Array.from(learnedDomains.entries())) {
+      addDomain(domain, clientId);
+    }
+
+    return {
+      operations: operationMap,
+      purchaseOrders,
+      containers,
+      domainClients,
+      clientNames: new Map(clientRows.map(c => [c.id, c.name])),
+      clientOperations,
+    };
+  }
+
+  private async loadMessages(ids: string[]): Promise<LinkableMessage[]> {
+    const rows = await db.select({
+      id: gmailMessages.id,
+      threadId: gmailMessages.threadId,
+      subject: gmailMessages.subject,
+      fromEmail: gmailMessages.fromEmail,
+      snippet: gmailMessages.snippet,
+      bodyText: gmailMessages.bodyText,
+    })
+      .from(gmailMessages)
+      .where(inArray(gmailMessages.id, ids));
+
+    const attachments = await db.select({
+      gmailMessageId: gmailAttachments.gmailMessageId,
+      filename: gmailAttachments.filename,
+      extractedText: gmailAttachments.extractedText,
+    })
+      .from(gmailAttachments)
+      .where(and(inArray(gmailAttachments.gmailMessageId, ids), isNotNull(gmailAttachments.extractedText)));
+
+    const section = (location: MatchLocation, label: string, text: string): MessageSection => ({
+      location,
+      label,
+      lower: text.toLowerCase(),
+      compact: compact(text),
+    });
+
+    return rows.map(row => ({
+      id: row.id,
+      threadId: row.threadId,
+      fromEmail: row.fromEmail,
+      sections: [
+        section('subject', 'asunto', row.subject || ''),
+        section('body', 'cuerpo', `${row.snippet || ''} ${row.bodyText || ''}`),
+        ...attachments
+          .filter(att => att.gmailMessageId === row.id)
+          .map(att => section('attachment', att.filename, att.extractedText || '')),
+      ],
+    }));
+  }
+
+  private async loadThreadOperations(batch: LinkableMessage[]): Promise<Map<string, Set<string>>> {
+    const threadIds = Array.from(new Set(batch.map(m => m.threadId)));
+    const threadOperations = new Map<string, Set<string>>();
+    if (threadIds.length === 0) return threadOperations;
+
+    const rows = await db.selectDistinct({ threadId: gmailMessages.threadId, operationId: gmailMessages.operationId })
+      .from(gmailMessages)
+      .where(and(
+        inArray(gmailMessages.threadId, threadIds),
+        isNotNull(gmailMessages.operationId),
+        notInArray(gmailMessages.threadId, db.select({ threadId: emailThreadSplits.threadId }).from(emailThreadSplits)),
+      ));
+
+    for (const row of rows) {
+      const operationIds = threadOperations.get(row.threadId) || new Set<string>();
+      operationIds.add(row.operationId!);
+      threadOperations.set(row.threadId, operationIds);
+    }
+    return threadOperations;
+  }
+
+  /**
+   * Vincula los mensajes sin operación de hilos que tocan una sola operación.
+   * Respeta el matcher de hilo (si está apagado no se hereda), los hilos divididos y los
+   * mensajes que un usuario desvinculó.
+   */
+  async inheritThreadLinks(threadIds?: string[]): Promise<number> {
+    const threadMatcher = (await this.getActiveMatchers()).find(m => m.matcher.key === 'thread');
+    if (!threadMatcher || threadIds?.length === 0) return 0;
+
+    const threads = await db.select({
+      threadId: gmailMessages.threadId,
+      operationId: sql<string>`MIN(${gmailMessages.operationId})`,
+    })
+      .from(gmailMessages)
+      .where(and(
+        threadIds ? inArray(gmailMessages.threadId, threadIds) : undefined,
+        notInArray(gmailMessages.threadId, db.select({ threadId: emailThreadSplits.threadId }).from(emailThreadSplits)),
+      ))
+      .groupBy(gmailMessages.threadId)
+      .having(sql`COUNT(DISTINCT ${gmailMessages.operationId}) = 1 AND COUNT(*) FILTER (WHERE ${gmailMessages.operationId} IS NULL) > 0`);
+
+    if (threads.length === 0) return 0;
+
+    const operationNames = new Map(
+      (await db.select({ id: operations.id, name: operations.name })
+        .from(operations)
+        .where(inArray(operations.id, Array.from(new Set(threads.map(t => t.operationId))))))
+        .map(o => [o.id, o.name])
+    );
+
+    // Mensajes que un usuario desvinculó a propósito
+    const unlinkedByUser = new Set((await db.selectDistinct({ id: emailLinkDecisions.gmailMessageId })
+      .from(emailLinkDecisions)
+      .innerJoin(gmailMessages, eq(emailLinkDecisions.gmailMessageId, gmailMessages.id))
+      .where(and(
+        inArray(gmailMessages.threadId, threads.map(t => t.threadId)),
+        eq(emailLinkDecisions.reviewStatus, 'unlinked'),
+      )))
+      .map(row => row.id));
+
+    let inherited = 0;
+    for (const thread of threads) {
+      const operationName = operationNames.get(thread.operationId) || thread.operationId;
+      const pending = await db.select({ id: gmailMessages.id })
+        .from(gmailMessages)
+        .where(and(eq(gmailMessages.threadId, thread.threadId), isNull(gmailMessages.operationId)));
+
+      for (const message of pending) {
+        if (unlinkedByUser.has(message.id)) continue;
+
+        const evidence = 'Otro mensaje del hilo está vinculado a la operación';
+        await db.insert(emailLinkDecisions).values({
+          gmailMessageId: message.id,
+          operationId: thread.operationId,
+          decision: 'linked',
+          score: threadMatcher.weight,
+          reason: `Heredado del hilo: vinculado a "${operationName}"`,
+          candidates: [{
+            operationId: thread.operationId,
+            operationName,
+            score: threadMatcher.weight,
+            matches: [{ matcher: 'thread', weight: threadMatcher.weight, location: 'thread', evidence }],
+          }],
+        });
+        await storage.linkMessageToOperation(message.id, thread.operationId);
+        inherited++;
+      }
+    }
+
+    if (inherited > 0) {
+      console.log(`[Email Linking] Inherited thread operation for ${inherited} messages`);
+    }
+    return inherited;
+  }
+
+  /**
+   * Suma el peso de cada matcher que apunta a una operación; un matcher cuenta una vez por operación
+   */
+  scoreCandidates(message: LinkableMessage, index: LinkingIndex, activeMatchers: Array<{ matcher: EmailMatcher; weight: number }>): LinkCandidate[] {
+    const candidates = new Map<string, LinkCandidate>();
+
+    for (const { matcher, weight } of activeMatchers) {
+      const counted = new Set<string>();
+      for (const hit of matcher.match(message, index)) {
+        if (counted.has(hit.operationId)) continue;
+        const operation = index.operations.get(hit.operationId);
+        if (!operation) continue;
+        counted.add(hit.operationId);
+
+        const candidate = candidates.get(hit.operationId) || {
+          operationId: hit.operationId,
+          operationName: operation.name,
+          score: 0,
+          matches: [],
+        };
+        candidate.score += weight;
+        candidate.matches.push({ matcher: matcher.key, weight, location: hit.location, evidence: hit.evidence });
+        candidates.set(hit.operationId, candidate);
+      }
+    }
+
+    return Array.from(candidates.values()).sort((a, b) => b.score - a.score);
+  }
+
+  private async recordDecision(messageId: string, candidates: LinkCandidate[]): Promise<EmailLinkDecision['decision']> {
+    const [best, second] = candidates;
+    let decision: string;
+    let reason: string;
+
+    if (!best) {
+      decision = 'no_match';
+      reason = 'Ningún matcher encontró una operación';
+    } else if (best.score < LINK_THRESHOLD) {
+      decision = 'below_threshold';
+      reason = `Mejor candidato "${best.operationName}" con ${best.score} pts, debajo del umbral de ${LINK_THRESHOLD}`;
+    } else if (second && second.score >= LINK_THRESHOLD && best.score - second.score < AMBIGUITY_MARGIN) {
+      decision = 'ambiguous';
+      reason = `"${best.operationName}" (${best.score} pts) y "${second.operationName}" (${second.score} pts) están a menos de ${AMBIGUITY_MARGIN} pts`;
+    } else {
+      decision = 'linked';
+      reason = `Vinculado a "${best.operationName}" con ${best.score} pts: ${best.matches.map(m => m.evidence).join('; ')}`;
+    }
+
+    const operationId = best?.operationId ?? null;
+    const score = best?.score ?? 0;
+    const loggedCandidates = candidates.slice(0, MAX_LOGGED_CANDIDATES);
+
+    // Si el resultado no cambió desde la última evaluación, se actualiza en vez de duplicar la bitácora
+    const [previous] = await db.select().from(emailLinkDecisions)
+      .where(eq(emailLinkDecisions.gmailMessageId, messageId))
+      .orderBy(desc(emailLinkDecisions.createdAt))
+      .limit(1);
+
+    if (previous && previous.reviewStatus === 'pending' && previous.decision === decision && previous.operationId === operationId) {
+      await db.update(emailLinkDecisions)
+        .set({ score, reason, candidates: loggedCandidates, evaluatedAt: new Date() })
+        .where(eq(emailLinkDecisions.id, previous.id));
+    } else {
+      await db.insert(emailLinkDecisions).values({
+        gmailMessageId: messageId,
+        operationId,
+        decision,
+        score,
+        reason,
+        candidates: loggedCandidates,
+      });
+    }
+
+    if (decision === 'linked' && operationId) {
+      await storage.linkMessageToOperation(messageId, operationId);
+    }
+
+    return decision;
+  }
+
+  /**
+   * Última decisión de cada mensaje, con datos del correo para la revisión
+   */
+  async getDecisions(filters: { reviewStatus?: string; decision?: string; messageId?: string; limit?: number } = {}): Promise<DecisionWithMessage[]> {
+    const conditions = [
+      sql`${emailLinkDecisions.id} IN (
+        SELECT DISTINCT ON (gmail_message_id) id FROM email_link_decisions
+        ORDER BY gmail_message_id, created_at DESC
+      )`,
+    ];
+    if (filters.reviewStatus) conditions.push(eq(emailLinkDecisions.reviewStatus, filters.reviewStatus));
+    if (filters.decision) conditions.push(eq(emailLinkDecisions.decision, filters.decision));
+    if (filters.messageId) conditions.push(eq(emailLinkDecisions.gmailMessageId, filters.messageId));
+
+    const rows = await db.select({
+      decision: emailLinkDecisions,
+      subject: gmailMessages.subject,
+      fromEmail: gmailMessages.fromEmail,
+      fromName: gmailMessages.fromName,
+      date: gmailMessages.date,
+      messageOperationId: gmailMessages.operationId,
+    })
+      .from(emailLinkDecisions)
+      .innerJoin(gmailMessages, eq(emailLinkDecisions.gmailMessageId, gmailMessages.id))
+      .where(and(...conditions))
+      .orderBy(desc(gmailMessages.date))
+      .limit(filters.limit ?? 200);
+
+    const operationIds = Array.from(new Set(rows.flatMap(r => [r.decision.operationId, r.decision.reviewedOperationId])
+      .filter((id): id is string => !!id)));
+    const names = operationIds.length > 0
+      ? new Map((await db.select({ id: operations.id, name: operations.name }).from(operations).where(inArray(operations.id, operationIds)))
+        .map(o => [o.id, o.name]))
+      : new Map<string, string>();
+
+    return rows.map(row => ({
+      ...row.decision,
+      message: {
+        subject: row.subject,
+        fromEmail: row.fromEmail,
+        fromName: row.fromName,
+        date: row.date,
+        operationId: row.messageOperationId,
+      },
+      operationName: row.decision.operationId ? names.get(row.decision.operationId) ?? null : null,
+      reviewedOperationName: row.decision.reviewedOperationId ? names.get(row.decision.reviewedOperationId) ?? null : null,
+    }));
+  }
+
+  private async getDecisionOrThrow(id: string): Promise<EmailLinkDecision> {
+    const [decision] = await db.select().from(emailLinkDecisions).where(eq(emailLinkDecisions.id, id));
+    if (!decision) {
+      throw new EmailLinkingError('Decisión no encontrada');
+    }
+    return decision;
+  }
+
+  /**
+   * Acepta el mejor candidato del linker (también para decisiones ambiguas o bajo el umbral)
+   */
+  async confirmDecision(id: string, userId: string): Promise<EmailLinkDecision> {
+    const decision = await this.getDecisionOrThrow(id);
+    if (!decision.operationId) {
+      throw new EmailLinkingError('La decisión no tiene una operación candidata para confirmar');
+    }
+    return this.applyReview(decision, 'confirmed', decision.operationId, userId);
+  }
+
+  /**
+   * Vincula el mensaje a otra operación elegida por el usuario
+   */
+  async overrideDecision(id: string, operationId: string, userId: string): Promise<EmailLinkDecision> {
+    const decision = await this.getDecisionOrThrow(id);
+    const operation = await storage.getOperation(operationId);
+    if (!operation) {
+      throw new EmailLinkingError('Operación no encontrada');
+    }
+    return this.applyReview(decision, 'overridden', operationId, userId);
+  }
+
+  /**
+   * Quita el vínculo; el linker no vuelve a evaluar el mensaje
+   */
+  async unlinkDecision(id: string, userId: string): Promise<EmailLinkDecision> {
+    const decision = await this.getDecisionOrThrow(id);
+    return this.applyReview(decision, 'unlinked', null, userId);
+  }
+
+  private async applyReview(decision: EmailLinkDecision, reviewStatus: 'confirmed' | 'overridden' | 'unlinked', operationId: string | null, userId: string): Promise<EmailLinkDecision> {
+    await storage.linkMessageToOperation(decision.gmailMessageId, operationId);
+
+    const [updated] = await db.update(emailLinkDecisions)
+      .set({ reviewStatus, reviewedOperationId: operationId, reviewedBy: userId, reviewedAt: new Date() })
+      .where(eq(emailLinkDecisions.id, decision.id))
+      .returning();
+
+    this.learnFromReview(decision, operationId).catch(err => {
+      console.error('[Email Linking] Error feeding knowledge base:', err);
+    });
+
+    if (operationId) {
+      const [message] = await db.select({ threadId: gmailMessages.threadId })
+        .from(gmailMessages)
+        .where(eq(gmailMessages.id, decision.gmailMessageId));
+      if (message) {
+        await this.inheritThreadLinks([message.threadId]);
+      }
+    }
+
+    return updated;
+  }
+
+  /**
+   * Los matchers que apuntaron a la operación final cuentan como acierto y los que
+   * apuntaron a otra como error; el dominio del remitente se aprende para el cliente final
+   */
+  private async learnFromReview(decision: EmailLinkDecision, operationId: string | null): Promise<void> {
+    const candidates = (decision.candidates as LinkCandidate[] | null) || [];
+    const confirmed = new Map<string, EmailLinkingPattern>();
+    const rejected = new Map<string, EmailLinkingPattern>();
+
+    for (const candidate of candidates) {
+      const target = candidate.operationId === operationId ? confirmed : rejected;
+      for (const match of candidate.matches) {
+        const pattern = `matcher:${match.matcher}@${match.location}`;
+        target.set(pattern, { pattern, method: LOCATION_METHODS[match.location] });
+      }
+    }
+
+    if (operationId) {
+      const operation = await storage.getOperation(operationId);
+      const [message] = await db.select({ fromEmail: gmailMessages.fromEmail })
+        .from(gmailMessages)
+        .where(eq(gmailMessages.id, decision.gmailMessageId));
+      const domain = message ? senderDomain(message.fromEmail) : null;
+      if (operation?.clientId && domain) {
+        const pattern = `sender:${domain}`;
+        confirmed.set(pattern, { pattern, method: 'sender_email', tags: [`client:${operation.clientId}`, domain] });
+      }
+    }
+
+    await knowledgeBaseService.learnFromEmailLinkReview({
+      operationId,
+      confirmed: Array.from(confirmed.values()),
+      rejected: Array.from(rejected.values()),
+    });
+  }
+}
+
+// Instancia singleton
+export const emailLinkingService = new EmailLinkingService();
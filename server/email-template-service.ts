@@ -0,0 +1,73 @@
+/**
+ * Email Template Service - Plantillas de correo con campos de la operación
+ *
+ * Arma el contexto de combinación (operación, cliente y empleados asignados) y
+ * renderiza asunto y cuerpo de una plantilla contra una operación. El primer empleado
+ * asignado se usa para los campos `employee.*`.
+ */
+
+import { storage } from './storage';
+import { renderTemplate, type MergeContext, type RenderedTemplate } from '@shared/email-template-fields';
+import type { Employee } from '@shared/schema';
+
+export class EmailTemplateError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'EmailTemplateError';
+    Object.setPrototypeOf(this, EmailTemplateError.prototype);
+  }
+}
+
+export class EmailTemplateService {
+  /**
+   * Datos de la operación, su cliente y sus empleados con las llaves de los marcadores
+   */
+  async buildMergeContext(operationId: string): Promise<MergeContext> {
+    const operation = await storage.getOperation(operationId);
+    if (!operation) {
+      throw new EmailTemplateError('Operación no encontrada');
+    }
+
+    const client = operation.clientId ? await storage.getClient(operation.clientId) : undefined;
+    const employeeIds = await storage.getOperationEmployees(operationId);
+    const employees = (await Promise.all(employeeIds.map(id => storage.getEmployee(id))))
+      .filter((employee): employee is Employee => !!employee);
+    const employee = employees[0];
+
+    return {
+      'operation.name': operation.name,
+      'operation.bookingTracking': operation.bookingTracking,
+      'operation.mblAwb': operation.mblAwb,
+      'operation.hblAwb': operation.hblAwb,
+      'operation.etd': operation.etd,
+      'operation.eta': operation.eta,
+      'operation.pickUpDate': operation.pickUpDate,
+      'operation.pickUpAddress': operation.pickUpAddress,
+      'operation.deliveryAddress': operation.deliveryAddress,
+      'operation.courier': operation.courier,
+      'operation.shippingMode': operation.shippingMode,
+      'operation.operationType': operation.operationType,
+      'operation.projectCategory': operation.projectCategory,
+      'client.name': client?.name,
+      'client.razonSocial': client?.razonSocial,
+      'client.email': client?.email,
+      'client.phone': client?.phone,
+      'employee.name': employee?.name,
+      'employee.email': employee?.email,
+      'employee.phone': employee?.phone,
+      'employee.position': employee?.position,
+      'employees.names': employees.map(e => e.name).join(', '),
+    };
+  }
+
+  /**
+   * Renderiza una plantilla guardada, o un borrador sin guardar, contra una operación
+   */
+  async renderForOperation(template: { subject: string; body: string; language: string }, operationId: string): Promise<RenderedTemplate> {
+    const context = await this.buildMergeContext(operationId);
+    return renderTemplate(template, context);
+  }
+}
+
+// Instancia singleton
+export const emailTemplateService = new EmailTemplateService();
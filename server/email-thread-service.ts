@@ -0,0 +1,283 @@
+/**
+ * Email Thread Service - Vista de hilos de Gmail y conflictos de vinculación
+ *
+ * Un hilo está en conflicto cuando sus mensajes apuntan a más de una operación. El
+ * usuario puede vincular el hilo completo a una operación o dividirlo, asignando cada
+ * mensaje por separado; un hilo dividido ya no hereda operación entre sus mensajes.
+ * Cada cambio manual queda en la bitácora de decisiones de vinculación.
+ */
+
+import { db } from './db';
+import { eq, asc, desc, sql, inArray, notInArray } from 'drizzle-orm';
+import { gmailMessages, operations, emailThreadSplits, emailLinkDecisions } from '@shared/schema';
+import { storage } from './storage';
+import { emailLinkingService } from './email-linking-service';
+
+export class EmailThreadError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'EmailThreadError';
+    Object.setPrototypeOf(this, EmailThreadError.prototype);
+  }
+}
+
+export interface ThreadOperationCount {
+  id: string;
+  name: string;
+  messageCount: number;
+}
+
+export interface ThreadMessage {
+  id: string;
+  gmailAccountId: string;
+  threadId: string;
+  subject: string | null;
+  fromEmail: string;
+  fromName: string | null;
+  toEmails: string[];
+  date: Date;
+  snippet: string | null;
+  hasAttachments: boolean;
+  operationId: string | null;
+  operationName: string | null;
+}
+
+export interface ThreadView {
+  threadId: string;
+  isSplit: boolean;
+  hasConflict: boolean;
+  operations: ThreadOperationCount[];
+  messages: ThreadMessage[];
+}
+
+export interface ThreadSummary {
+  threadId: string;
+  subject: string | null;
+  messageCount: number;
+  unlinkedCount: number;
+  lastDate: Date;
+  isSplit: boolean;
+  hasConflict: boolean;
+  operations: ThreadOperationCount[];
+}
+
+export interface ThreadAssignment {
+  messageId: string;
+  operationId: string | null;
+}
+
+export class EmailThreadService {
+  /**
+   * Mensajes del hilo en orden cronológico con la operación de cada uno
+   */
+  async getThread(threadId: string): Promise<ThreadView> {
+    const messages = await db.select({
+      id: gmailMessages.id,
+      gmailAccountId: gmailMessages.gmailAccountId,
+      threadId: gmailMessages.threadId,
+      subject: gmailMessages.subject,
+      fromEmail: gmailMessages.fromEmail,
+      fromName: gmailMessages.fromName,
+      toEmails: gmailMessages.toEmails,
+      date: gmailMessages.date,
+      snippet: gmailMessages.snippet,
+      hasAttachments: gmailMessages.hasAttachments,
+      operationId: gmailMessages.operationId,
+      operationName: operations.name,
+    })
+      .from(gmailMessages)
+      .leftJoin(operations, eq(gmailMessages.operationId, operations.id))
+      .where(eq(gmailMessages.threadId, threadId))
+      .orderBy(asc(gmailMessages.date));
+
+    if (messages.length === 0) {
+      throw new EmailThreadError('Hilo no encontrado');
+    }
+
+    const counts = new Map<string, ThreadOperationCount>();
+    for (const message of messages) {
+      if (!message.operationId) continue;
+      const count = counts.get(message.operationId) || { id: message.operationId, name: message.operationName || '', messageCount: 0 };
+      count.messageCount++;
+      counts.set(message.operationId, count);
+    }
+
+    const [split] = await db.select().from(emailThreadSplits).where(eq(emailThreadSplits.threadId, threadId));
+
+    return {
+      threadId,
+      isSplit: !!split,
+      hasConflict: counts.size > 1 && !split,
+      operations: Array.from(counts.values()),
+      messages,
+    };
+  }
+
+  /**
+   * Resumen de varios hilos: mensajes, operaciones que tocan y si están divididos
+   */
+  private async summarizeThreads(threadIds: string[]): Promise<ThreadSummary[]> {
+    if (threadIds.length === 0) return [];
+
+    const rows = await db.select({
+      threadId: gmailMessages.threadId,
+      subject: gmailMessages.subject,
+      date: gmailMessages.date,
+      operationId: gmailMessages.operationId,
+      operationName: operations.name,
+    })
+      .from(gmailMessages)
+      .leftJoin(operations, eq(gmailMessages.operationId, operations.id))
+      .where(inArray(gmailMessages.threadId, threadIds))
+      .orderBy(asc(gmailMessages.date));
+
+    const splits = new Set((await db.select({ threadId: emailThreadSplits.threadId })
+      .from(emailThreadSplits)
+      .where(inArray(emailThreadSplits.threadId, threadIds)))
+      .map(s => s.threadId));
+
+    const summaries = new Map<string, ThreadSummary & { counts: Map<string, ThreadOperationCount> }>();
+    for (const row of rows) {
+      const summary = summaries.get(row.threadId) || {
+        threadId: row.threadId,
+        subject: row.subject, // Asunto del primer mensaje
+        messageCount: 0,
+        unlinkedCount: 0,
+        lastDate: row.date,
+        isSplit: splits.has(row.threadId),
+        hasConflict: false,
+        operations: [],
+        counts: new Map<string, ThreadOperationCount>(),
+      };
+      summary.messageCount++;
+      summary.lastDate = row.date;
+      if (row.operationId) {
+        const count = summary.counts.get(row.operationId) || { id: row.operationId, name: row.operationName || '', messageCount: 0 };
+        count.messageCount++;
+        summary.counts.set(row.operationId, count);
+      } else {
+        summary.unlinkedCount++;
+      }
+      summaries.set(row.threadId, summary);
+    }
+
+    return Array.from(summaries.values())
+      .map(({ counts, ...summary }) => ({
+        ...summary,
+        operations: Array.from(counts.values()),
+        hasConflict: counts.size > 1 && !summary.isSplit,
+      }))
+      .sort((a, b) => new Date(b.lastDate).getTime() - new Date(a.lastDate).getTime());
+  }
+
+  /**
+   * Hilos con al menos un mensaje vinculado a la operación
+   */
+  async getOperationThreads(operationId: string): Promise<ThreadSummary[]> {
+    const threads = await db.selectDistinct({ threadId: gmailMessages.threadId })
+      .from(gmailMessages)
+      .where(eq(gmailMessages.operationId, operationId));
+    return this.summarizeThreads(threads.map(t => t.threadId));
+  }
+
+  /**
+   * Hilos sin dividir cuyos mensajes apuntan a más de una operación
+   */
+  async getConflicts(): Promise<ThreadSummary[]> {
+    const threads = await db.select({ threadId: gmailMessages.threadId })
+      .from(gmailMessages)
+      .where(notInArray(gmailMessages.threadId, db.select({ threadId: emailThreadSplits.threadId }).from(emailThreadSplits)))
+      .groupBy(gmailMessages.threadId)
+      .having(sql`COUNT(DISTINCT ${gmailMessages.operationId}) > 1`)
+      .orderBy(desc(sql`MAX(${gmailMessages.date})`))
+      .limit(200);
+    return this.summarizeThreads(threads.map(t => t.threadId));
+  }
+
+  /**
+   * Vincula todos los mensajes del hilo a una operación y quita la división
+   */
+  async linkThread(threadId: string, operationId: string, userId: string): Promise<ThreadView> {
+    const operation = await storage.getOperation(operationId);
+    if (!operation) {
+      throw new EmailThreadError('Operación no encontrada');
+    }
+
+    const thread = await this.getThread(threadId);
+    await db.delete(emailThreadSplits).where(eq(emailThreadSplits.threadId, threadId));
+
+    for (const message of thread.messages) {
+      if (message.operationId === operationId) continue;
+      await this.recordManualLink(message.id, operationId, userId, `Hilo completo vinculado a "${operation.name}"`);
+    }
+
+    console.log(`[Email Threads] Thread ${threadId} linked to operation ${operationId}`);
+    return this.getThread(threadId);
+  }
+
+  /**
+   * Divide el hilo: cada mensaje queda en la operación indicada (o sin operación) y el
+   * hilo deja de heredar vínculos
+   */
+  async splitThread(threadId: string, assignments: ThreadAssignment[], userId: string): Promise<ThreadView> {
+    const thread = await this.getThread(threadId);
+    const messageIds = new Set(thread.messages.map(m => m.id));
+
+    const foreign = assignments.find(a => !messageIds.has(a.messageId));
+    if (foreign) {
+      throw new EmailThreadError('Un mensaje no pertenece a este hilo');
+    }
+
+    const operationIds = Array.from(new Set(assignments.map(a => a.operationId).filter((id): id is string => !!id)));
+    const found = operationIds.length > 0
+      ? await db.select({ id: operations.id, name: operations.name }).from(operations).where(inArray(operations.id, operationIds))
+      : [];
+    if (found.length !== operationIds.length) {
+      throw new EmailThreadError('Operación no encontrada');
+    }
+    const names = new Map(found.map(o => [o.id, o.name]));
+
+    await db.insert(emailThreadSplits)
+      .values({ threadId, splitBy: userId })
+      .onConflictDoNothing();
+
+    for (const assignment of assignments) {
+      const current = thread.messages.find(m => m.id === assignment.messageId);
+      if (current?.operationId === assignment.operationId) continue;
+      const reason = assignment.operationId
+        ? `Hilo dividido: mensaje asignado a "${names.get(assignment.operationId)}"`
+        : 'Hilo dividido: mensaje sin operación';
+      await this.recordManualLink(assignment.messageId, assignment.operationId, userId, reason);
+    }
+
+    console.log(`[Email Threads] Thread ${threadId} split across ${operationIds.length} operations`);
+    return this.getThread(threadId);
+  }
+
+  /**
+   * Quita la división; los mensajes sin operación vuelven a heredar la del hilo
+   */
+  async unsplitThread(threadId: string): Promise<ThreadView> {
+    await db.delete(emailThreadSplits).where(eq(emailThreadSplits.threadId, threadId));
+    await emailLinkingService.inheritThreadLinks([threadId]);
+    return this.getThread(threadId);
+  }
+
+  private async recordManualLink(messageId: string, operationId: string | null, userId: string, reason: string): Promise<void> {
+    await storage.linkMessageToOperation(messageId, operationId);
+    await db.insert(emailLinkDecisions).values({
+      gmailMessageId: messageId,
+      operationId,
+      decision: 'manual',
+      score: 0,
+      reason,
+      reviewStatus: operationId ? 'overridden' : 'unlinked',
+      reviewedOperationId: operationId,
+      reviewedBy: userId,
+      reviewedAt: new Date(),
+    });
+  }
+}
+
+// Instancia singleton
+export const emailThreadService = new EmailThreadService();
@@ -0,0 +1,283 @@
+/**
+ * Exchange Rate Service - Tipos de cambio diarios y conversión a moneda de reporte
+ *
+ * Cada tasa se guarda como MXN por unidad de la moneda (igual que el FIX de Banxico y el
+ * TipoCambio del CFDI). Las conversiones entre dos monedas extranjeras pasan por MXN.
+ * Para una fecha se usa la última tasa publicada en o antes de ese día.
+ *
+ * Fuentes:
+ * 1. Captura manual
+ * 2. Archivo del SIE de Banxico (CSV exportado o JSON de la API) con series FIX
+ */
+
+import { db } from './db';
+import { eq, and, gte, lte, desc } from 'drizzle-orm';
+import { exchangeRates } from '@shared/schema';
+import type { ExchangeRate, InsertExchangeRate } from '@shared/schema';
+
+export const BASE_CURRENCY = 'MXN';
+
+// Series del SIE de Banxico publicadas en el DOF (pesos por unidad de moneda extranjera)
+const BANXICO_SERIES: Record<string, string> = {
+  SF43718: 'USD', // FIX
+  SF46410: 'EUR',
+  SF60632: 'CAD',
+  SF46406: 'JPY',
+  SF46407: 'GBP',
+};
+
+export class ExchangeRateError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ExchangeRateError';
+    Object.setPrototypeOf(this, ExchangeRateError.prototype);
+  }
+}
+
+export interface BanxicoImportResult {
+  imported: number; // Tasas nuevas
+  updated: number; // Tasas existentes reemplazadas
+  skipped: number; // Renglones sin dato (N/E) o no reconocidos
+  currencies: string[];
+}
+
+/**
+ * Normaliza una fecha al día (00:00 UTC) con el que se guardan las tasas
+ */
+export function toRateDate(date: Date | string): Date {
+  const value = typeof date === 'string' ? new Date(date) : date;
+  return new Date(Date.UTC(value.getUTCFullYear(), value.getUTCMonth(), value.getUTCDate()));
+}
+
+const formatRateDate = (date: Date) => date.toISOString().slice(0, 10);
+
+/**
+ * Convierte montos a una moneda de reporte, memorizando las tasas consultadas
+ */
+export class CurrencyConverter {
+  private cache = new Map<string, Promise<number>>();
+
+  constructor(private service: ExchangeRateService, readonly reportingCurrency: string) {}
+
+  async convert(amount: number, currency: string, date: Date): Promise<number> {
+    if (!amount || currency === this.reportingCurrency) return amount;
+
+    const [fromRate, toRate] = await Promise.all([
+      this.getRate(currency, date),
+      this.getRate(this.reportingCurrency, date),
+    ]);
+    return Math.round((amount * fromRate / toRate) * 100) / 100;
+  }
+
+  /**
+   * Como convert, pero regresa null si falta el tipo de cambio de alguna de las monedas
+   */
+  async tryConvert(amount: number, currency: string, date: Date): Promise<number | null> {
+    try {
+      return await this.convert(amount, currency, date);
+    } catch (error) {
+      if (error instanceof ExchangeRateError) return null;
+      throw error;
+    }
+  }
+
+  private getRate(currency: string, date: Date): Promise<number> {
+    const key = `${currency}|${formatRateDate(toRateDate(date))}`;
+    let rate = this.cache.get(key);
+    if (!rate) {
+      rate = this.service.getRate(currency, date);
+      this.cache.set(key, rate);
+    }
+    return rate;
+  }
+}
+
+export class ExchangeRateService {
+  async getRates(filters: { currency?: string; from?: Date; to?: Date } = {}): Promise<ExchangeRate[]> {
+    const conditions = [];
+    if (filters.currency) conditions.push(eq(exchangeRates.currency, filters.currency));
+    if (filters.from) conditions.push(gte(exchangeRates.rateDate, toRateDate(filters.from)));
+    if (filters.to) conditions.push(lte(exchangeRates.rateDate, toRateDate(filters.to)));
+
+    return await db.select().from(exchangeRates)
+      .where(conditions.length > 0 ? and(...conditions) : undefined)
+      .orderBy(desc(exchangeRates.rateDate), exchangeRates.currency)
+      .limit(500);
+  }
+
+  /**
+   * Registra la tasa de una moneda para un día; si ya existe la reemplaza
+   */
+  async upsertRate(data: InsertExchangeRate): Promise<{ rate: ExchangeRate; created: boolean }> {
+    const currency = data.currency.toUpperCase();
+    if (currency === BASE_CURRENCY) {
+      throw new ExchangeRateError(`El tipo de cambio de ${BASE_CURRENCY} siempre es 1`);
+    }
+    if (!(Number(data.rate) > 0)) {
+      throw new ExchangeRateError('El tipo de cambio debe ser mayor a cero');
+    }
+
+    const rateDate = toRateDate(data.rateDate);
+    const [existing] = await db.select().from(exchangeRates)
+      .where(and(eq(exchangeRates.currency, currency), eq(exchangeRates.rateDate, rateDate)));
+
+    if (existing) {
+      const [rate] = await db.update(exchangeRates)
+        .set({ rate: data.rate, source: data.source, createdById: data.createdById })
+        .where(eq(exchangeRates.id, existing.id))
+        .returning();
+      return { rate, created: false };
+    }
+
+    const [rate] = await db.insert(exchangeRates)
+      .values({ ...data, currency, rateDate })
+      .returning();
+    return { rate, created: true };
+  }
+
+  async deleteRate(id: string): Promise<void> {
+    await db.delete(exchangeRates).where(eq(exchangeRates.id, id));
+  }
+
+  /**
+   * MXN por unidad de `currency` vigente en `date` (última tasa en o antes de ese día)
+   */
+  async getRate(currency: string, date: Date = new Date()): Promise<number> {
+    if (currency === BASE_CURRENCY) return 1;
+
+    const [row] = await db.select({ rate: exchangeRates.rate })
+      .from(exchangeRates)
+      .where(and(eq(exchangeRates.currency, currency), lte(exchangeRates.rateDate, toRateDate(date))))
+      .orderBy(desc(exchangeRates.rateDate))
+      .limit(1);
+
+    if (!row) {
+      throw new ExchangeRateError(`No hay tipo de cambio ${currency}/${BASE_CURRENCY} registrado al ${formatRateDate(toRateDate(date))}`);
+    }
+    return Number(row.rate);
+  }
+
+  createConverter(reportingCurrency: string): CurrencyConverter {
+    return new CurrencyConverter(this, reportingCurrency);
+  }
+
+  /**
+   * Importa tasas FIX desde un archivo del SIE de Banxico (CSV o JSON de la API)
+   */
+  async importBanxicoFile(content: string, createdById?: string): Promise<BanxicoImportResult> {
+    const trimmed = content.trim();
+    const parsed = trimmed.startsWith('{') ? this.parseBanxicoJson(trimmed) : this.parseBanxicoCsv(trimmed);
+
+    if (parsed.rates.length === 0) {
+      throw new ExchangeRateError('El archivo no contiene tipos de cambio reconocibles de Banxico');
+    }
+
+    const result: BanxicoImportResult = { imported: 0, updated: 0, skipped: parsed.skipped, currencies: [] };
+    const currencies = new Set<string>();
+
+    for (const entry of parsed.rates) {
+      const { created } = await this.upsertRate({
+        currency: entry.currency,
+        rateDate: entry.date,
+        rate: entry.rate,
+        source: 'banxico_fix',
+        createdById: createdById || null,
+      });
+      if (created) result.imported++;
+      else result.updated++;
+      currencies.add(entry.currency);
+    }
+
+    result.currencies = Array.from(currencies).sort();
+    console.log(`[Exchange Rates] Banxico import: ${result.imported} new, ${result.updated} updated, ${result.skipped} skipped (${result.currencies.join(', ')})`);
+    return result;
+  }
+
+  /**
+   * CSV del SIE: metadatos al inicio y un encabezado "Fecha,SF43718,..." seguido de dd/mm/aaaa
+   */
+  private parseBanxicoCsv(content: string): { rates: Array<{ currency: string; date: Date; rate: string }>; skipped: number } {
+    const rows = content.split(/\r?\n/).map(line =>
+      line.split(/[,;\t]/).map(cell => cell.trim().replace(/^"|"$/g, ''))
+    );
+
+    const headerIndex = rows.findIndex(cells => /^fecha$/i.test(cells[0] || ''));
+    if (headerIndex === -1) {
+      throw new ExchangeRateError('No se encontró el encabezado "Fecha" del archivo de Banxico');
+    }
+
+    const header = rows[headerIndex];
+    const columns = header.slice(1).map(code => BANXICO_SERIES[code.toUpperCase()] || null);
+    if (columns.every(currency => !currency)) {
+      throw new ExchangeRateError(`Series de Banxico no reconocidas: ${header.slice(1).join(', ')}`);
+    }
+
+    const rates: Array<{ currency: string; date: Date; rate: string }> = [];
+    let skipped = 0;
+
+    for (const cells of rows.slice(headerIndex + 1)) {
+      const date = this.parseBanxicoDate(cells[0] || '');
+      if (!date) {
+        if (cells.some(cell => cell)) skipped++;
+        continue;
+      }
+
+      columns.forEach((currency, index) => {
+        const value = cells[index + 1];
+        if (!currency) return;
+        if (!value || !/^\d+(\.\d+)?$/.test(value)) {
+          skipped++; // N/E: sin publicación ese día
+          return;
+        }
+        rates.push({ currency, date, rate: value });
+      });
+    }
+
+    return { rates, skipped };
+  }
+
+  /**
+   * JSON de la API del SIE: { bmx: { series: [{ idSerie, datos: [{ fecha, dato }] }] } }
+   */
+  private parseBanxicoJson(content: string): { rates: Array<{ currency: string; date: Date; rate: string }>; skipped: number } {
+    let data: any;
+    try {
+      data = JSON.parse(content);
+    } catch {
+      throw new ExchangeRateError('El archivo JSON de Banxico no es válido');
+    }
+
+    const rates: Array<{ currency: string; date: Date; rate: string }> = [];
+    let skipped = 0;
+
+    for (const serie of data?.bmx?.series || []) {
+      const currency = BANXICO_SERIES[String(serie.idSerie || '').toUpperCase()];
+      if (!currency) {
+        skipped += (serie.datos || []).length;
+        continue;
+      }
+      for (const dato of serie.datos || []) {
+        const date = this.parseBanxicoDate(String(dato.fecha || ''));
+        const value = String(dato.dato || '').replace(/,/g, '');
+        if (!date || !/^\d+(\.\d+)?$/.test(value)) {
+          skipped++;
+          continue;
+        }
+        rates.push({ currency, date, rate: value });
+      }
+    }
+
+    return { rates, skipped };
+  }
+
+  private parseBanxicoDate(value: string): Date | null {
+    const dmy = value.match(/^(\d{2})\/(\d{2})\/(\d{4})$/);
+    if (dmy) return new Date(Date.UTC(Number(dmy[3]), Number(dmy[2]) - 1, Number(dmy[1])));
+    const iso = value.match(/^(\d{4})-(\d{2})-(\d{2})$/);
+    if (iso) return new Date(Date.UTC(Number(iso[1]), Number(iso[2]) - 1, Number(iso[3])));
+    return null;
+  }
+}
+
+// Instancia singleton
+export const exchangeRateService = new ExchangeRateService();
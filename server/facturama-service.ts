@@ -17,6 +17,7 @@ interface FacturamaInvoiceRequest {
   Serie?: string;
   Folio?: string;
   Currency: string;
+  ExchangeRate?: number; // TipoCambio, requerido si la moneda no es MXN ni XXX
   Date?: string;
   PaymentForm: string;
   PaymentMethod: string;
@@ -24,6 +25,10 @@ interface FacturamaInvoiceRequest {
   CfdiType: string;
   ExpeditionPlace: string;
   Exportation: string;
+  Relations?: {
+    Type: string;
+    Cfdis: Array<{ Uuid: string }>;
+  };
   Receiver: {
     Rfc: string;
     Name: string;
@@ -81,6 +86,102 @@ interface FacturamaInvoiceResponse {
   };
 }
 
+interface FacturamaTax {
+  Total: number;
+  Name: string;
+  Base: number;
+  Rate: number;
+  IsRetention: boolean;
+}
+
+interface FacturamaPaymentComplementRequest {
+  CfdiType: "P";
+  NameId: string;
+  ExpeditionPlace: string;
+  Receiver: {
+    Rfc: string;
+    Name: string;
+    CfdiUse: string;
+    FiscalRegime: string;
+    TaxZipCode?: string;
+  };
+  Complemento: {
+    Payments: Array<{
+      Date: string;
+      PaymentForm: string;
+      Currency: string;
+      ExchangeRate?: number;
+      Amount: number;
+      RelatedDocuments: Array<{
+        TaxObject: string;
+        Taxes?: FacturamaTax[];
+        Uuid: string;
+        Serie?: string;
+        Folio?: string;
+        Currency: string;
+        PaymentMethod: string;
+        PartialityNumber: number;
+        PreviousBalanceAmount: number;
+        AmountPaid: number;
+        ImpSaldoInsoluto: number;
+      }>;
+    }>;
+  };
+}
+
+// CfdiRelacionados: 01=Nota de crédito, 04=Sustitución de CFDI previos, etc.
+export interface CfdiRelations {
+  type: string;
+  uuids: string[];
+}
+
+export interface FacturamaCancellationResult {
+  status: 'requested' | 'accepted' | 'rejected';
+  message?: string;
+  acuseXml?: string; // Acuse de cancelación del SAT
+}
+
+interface FacturamaCancellationResponse {
+  Status?: string; // canceled, pending, active, rejected...
+  Message?: string;
+  AcuseXmlBase64?: string;
+}
+
+// Consulta de estatus del CFDI ante el SAT
+interface FacturamaCfdiStatusResponse {
+  Status?: string; // Vigente, Cancelado, No Encontrado
+  IsCancelable?: string;
+  CancelationStatus?: string; // En proceso, Solicitud rechazada, Cancelado con aceptación, Plazo vencido...
+}
+
+export interface CfdiStatusQuery {
+  uuid: string;
+  issuerRfc: string;
+  receiverRfc: string;
+  total: string;
+}
+
+export interface PaymentComplementData {
+  invoiceNumber: string;
+  invoiceUuid: string; // folioFiscal de la factura PPD
+  invoiceCurrency: string;
+  lugarExpedicion: string;
+  receiverRFC: string;
+  receiverName: string;
+  receiverFiscalRegime: string;
+  receiverZipCode?: string | null;
+  invoiceTotal: number;
+  invoiceItems: InvoiceItem[]; // Conceptos de la factura, para los impuestos del documento relacionado
+  paymentDate: Date;
+  paymentForm: string; // c_FormaPago (01, 02, 03, 04, 28...)
+  paymentCurrency: string;
+  exchangeRate?: number | null; // TipoCambioP, requerido si la moneda del pago no es MXN
+  installmentNumber: number; // NumParcialidad
+  previousBalance: number; // ImpSaldoAnt
+  amountPaid: number; // ImpPagado
+  outstandingBalance: number; // ImpSaldoInsoluto
+}
+
 /**
  * Obtiene la configuración de Facturama
  */
@@ -102,6 +203,25 @@ function getFacturamaConfig(): FacturamaConfig {
   };
 }
 
+/**
+ * Extrae el mensaje de error de una respuesta de Facturama
+ */
+function parseFacturamaError(errorText: string, fallback: string): string {
+  let errorMessage = fallback;
+  try {
+    const errorJson = JSON.parse(errorText);
+    if (errorJson.Message) {
+      errorMessage = errorJson.Message;
+    } else if (errorJson.ModelState) {
+      const errors = Object.values(errorJson.ModelState).flat();
+      errorMessage = errors.join(', ');
+    }
+  } catch {
+    errorMessage = errorText || fallback;
+  }
+  return errorMessage;
+}
+
 /**
  * Timbra una factura en Facturama
  */
@@ -110,7 +230,8 @@ export async function stampInvoiceInFacturama(
   items: InvoiceItem[],
   receiverRFC: string,
   receiverName: string,
-  receiverFiscalRegime: string = "612"
+  receiverFiscalRegime: string = "612",
+  relations?: CfdiRelations
 ): Promise<{ folioFiscal: string; facturamId: string }> {
   const config = getFacturamaConfig();
 
@@ -132,12 +253,18 @@ export async function stampInvoiceInFacturama(
     Serie: invoice.invoiceNumber.split('-')[0] || undefined,
     Folio: invoice.invoiceNumber.split('-')[1] || invoice.invoiceNumber,
     Currency: invoice.currency,
+    ExchangeRate: invoice.currency !== "MXN" && invoice.currency !== "XXX" && invoice.exchangeRate
+      ? parseFloat(invoice.exchangeRate)
+      : undefined,
     PaymentForm: invoice.formaPago || "99",
     PaymentMethod: invoice.metodoPago || "PPD",
     OrderNumber: invoice.ordenCompra || undefined,
     CfdiType: invoice.tipoComprobante || "I",
     ExpeditionPlace: invoice.lugarExpedicion,
     Exportation: invoice.exportacion || "01",
+    Relations: relations && relations.uuids.length > 0
+      ? { Type: relations.type, Cfdis: relations.uuids.map(uuid => ({ Uuid: uuid })) }
+      : undefined,
     Receiver: {
       Rfc: receiverRFC,
       Name: receiverName,
@@ -196,21 +323,7 @@ export async function stampInvoiceInFacturama(
   if (!response.ok) {
     const errorText = await response.text();
     console.error('[Facturama] Error al timbrar:', errorText);
-    
-    let errorMessage = 'Error al timbrar en Facturama';
-    try {
-      const errorJson = JSON.parse(errorText);
-      if (errorJson.Message) {
-        errorMessage = errorJson.Message;
-      } else if (errorJson.ModelState) {
-        const errors = Object.values(errorJson.ModelState).flat();
-        errorMessage = errors.join(', ');
-      }
-    } catch {
-      errorMessage = errorText;
-    }
-    
-    throw new Error(errorMessage);
+    throw new Error(parseFacturamaError(errorText, 'Error al timbrar en Facturama'));
   }
 
   const result: FacturamaInvoiceResponse = await response.json();
@@ -224,40 +337,267 @@ export async function stampInvoiceInFacturama(
 }
 
 /**
- * Cancela una factura en Facturama
+ * Fecha y hora local de la Ciudad de México (YYYY-MM-DDTHH:mm:ss), como la pide el SAT
+ */
+function formatMexicoCityDateTime(date: Date): string {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone: 'America/Mexico_City',
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit',
+    hourCycle: 'h23',
+  }).formatToParts(date);
+  const part = (type: Intl.DateTimeFormatPartTypes) => parts.find(p => p.type === type)?.value || '00';
+  return `${part('year')}-${part('month')}-${part('day')}T${part('hour')}:${part('minute')}:${part('second')}`;
+}
+
+/**
+ * Impuestos del documento relacionado (ImpuestosDR): los traslados de IVA de la factura,
+ * agrupados por tasa y prorrateados según la proporción del total que cubre el pago
+ */
+function buildRelatedDocumentTaxes(items: InvoiceItem[], invoiceTotal: number, amountPaid: number): FacturamaTax[] {
+  const round = (value: number) => Math.round(value * 100) / 100;
+  const share = invoiceTotal > 0 ? amountPaid / invoiceTotal : 0;
+  const bases = new Map<number, number>();
+
+  for (const item of items) {
+    if (!item.taxAmount || parseFloat(item.taxAmount) <= 0) continue;
+    const rate = item.taxRate ? parseFloat(item.taxRate) : 0.16;
+    bases.set(rate, (bases.get(rate) || 0) + parseFloat(item.amount));
+  }
+
+  const taxes: FacturamaTax[] = [];
+  bases.forEach((base, rate) => {
+    const proratedBase = round(base * share);
+    taxes.push({
+      Total: round(proratedBase * rate),
+      Name: "IVA",
+      Base: proratedBase,
+      Rate: rate,
+      IsRetention: false,
+    });
+  });
+  return taxes;
+}
+
+/**
+ * Timbra un Complemento de Pago (CFDI tipo P) para una factura PPD
+ */
+export async function stampPaymentComplementInFacturama(
+  data: PaymentComplementData
+): Promise<{ folioFiscal: string; facturamId: string }> {
+  const config = getFacturamaConfig();
+
+  if (!data.lugarExpedicion) {
+    throw new Error('Falta el Lugar de Expedición de la factura');
+  }
+
+  if (!data.receiverRFC || !data.receiverName) {
+    throw new Error('Faltan datos fiscales del receptor: RFC y Razón Social');
+  }
+
+  const [serie, folio] = data.invoiceNumber.includes('-')
+    ? data.invoiceNumber.split('-')
+    : [undefined, data.invoiceNumber];
+
+  // ObjetoImpDR 02 cuando la factura trasladó impuestos; 01 si ningún concepto los tuvo
+  const relatedTaxes = buildRelatedDocumentTaxes(data.invoiceItems, data.invoiceTotal, data.amountPaid);
+
+  const facturamaRequest: FacturamaPaymentComplementRequest = {
+    CfdiType: "P",
+    NameId: "14", // Complemento de pago
+    ExpeditionPlace: data.lugarExpedicion,
+    Receiver: {
+      Rfc: data.receiverRFC,
+      Name: data.receiverName,
+      CfdiUse: "CP01", // Pagos
+      FiscalRegime: data.receiverFiscalRegime,
+      TaxZipCode: data.receiverZipCode || undefined,
+    },
+    Complemento: {
+      Payments: [
+        {
+          Date: formatMexicoCityDateTime(data.paymentDate),
+          PaymentForm: data.paymentForm,
+          Currency: data.paymentCurrency,
+          ExchangeRate: data.paymentCurrency !== 'MXN' ? data.exchangeRate || undefined : undefined,
+          Amount: data.amountPaid,
+          RelatedDocuments: [
+            {
+              TaxObject: relatedTaxes.length > 0 ? "02" : "01",
+              Taxes: relatedTaxes.length > 0 ? relatedTaxes : undefined,
+              Uuid: data.invoiceUuid,
+              Serie: serie || undefined,
+              Folio: folio || undefined,
+              Currency: data.invoiceCurrency,
+              PaymentMethod: "PPD",
+              PartialityNumber: data.installmentNumber,
+              PreviousBalanceAmount: data.previousBalance,
+              AmountPaid: data.amountPaid,
+              ImpSaldoInsoluto: data.outstandingBalance,
+            },
+          ],
+        },
+      ],
+    },
+  };
+
+  const auth = Buffer.from(`${config.apiUser}:${config.apiPassword}`).toString('base64');
+
+  console.log(`[Facturama] Timbrando complemento de pago: ${data.invoiceNumber} parcialidad ${data.installmentNumber}`);
+
+  const response = await fetch(`${config.baseUrl}/api/3/cfdis`, {
+    method: 'POST',
+    headers: {
+      'Authorization': `Basic ${auth}`,
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify(facturamaRequest),
+  });
+
+  if (!response.ok) {
+    const errorText = await response.text();
+    console.error('[Facturama] Error al timbrar complemento de pago:', errorText);
+    throw new Error(parseFacturamaError(errorText, 'Error al timbrar complemento de pago en Facturama'));
+  }
+
+  const result: FacturamaInvoiceResponse = await response.json();
+
+  console.log('[Facturama] Complemento de pago timbrado exitosamente:', result.Complement.TaxStamp.Uuid);
+
+  return {
+    folioFiscal: result.Complement.TaxStamp.Uuid,
+    facturamId: result.Id,
+  };
+}
+
+/**
+ * Interpreta el estatus de cancelación que regresa Facturama
+ */
+function parseCancellationResponse(result: FacturamaCancellationResponse): FacturamaCancellationResult {
+  const status = (result.Status || '').toLowerCase();
+  const acuseXml = result.AcuseXmlBase64
+    ? Buffer.from(result.AcuseXmlBase64, 'base64').toString('utf-8')
+    : undefined;
+
+  if (status === 'canceled' || status === 'cancelled') {
+    return { status: 'accepted', message: result.Message, acuseXml };
+  }
+  // El receptor rechazó la solicitud: el CFDI sigue vigente
+  if (status === 'rejected' || status === 'active') {
+    return { status: 'rejected', message: result.Message, acuseXml };
+  }
+  return { status: 'requested', message: result.Message, acuseXml };
+}
+
+/**
+ * Cancela una factura en Facturama.
+ * Si el receptor debe aceptar la cancelación, el resultado queda en `requested` y el
+ * seguimiento se hace con `getCancellationStatusInFacturama`.
  */
 export async function cancelInvoiceInFacturama(
   facturamId: string,
   motive: string = "01", // 01: Comprobante emitido con errores con relación
   substitutionUUID?: string
-): Promise<void> {
+): Promise<FacturamaCancellationResult> {
   const config = getFacturamaConfig();
   const auth = Buffer.from(`${config.apiUser}:${config.apiPassword}`).toString('base64');
 
-  const cancelRequest: any = {
-    Motive: motive,
-  };
-
+  const params = new URLSearchParams({ type: 'issued', motive });
   if (substitutionUUID) {
-    cancelRequest.SubstitutionUUID = substitutionUUID;
+    params.set('uuidReplacement', substitutionUUID);
   }
 
-  const response = await fetch(`${config.baseUrl}/api/3/cfdis/${facturamId}`, {
+  const response = await fetch(`${config.baseUrl}/api/3/cfdis/${facturamId}?${params.toString()}`, {
     method: 'DELETE',
     headers: {
       'Authorization': `Basic ${auth}`,
-      'Content-Type': 'application/json',
     },
-    body: JSON.stringify(cancelRequest),
   });
 
   if (!response.ok) {
     const errorText = await response.text();
     console.error('[Facturama] Error al cancelar:', errorText);
-    throw new Error('Error al cancelar factura en Facturama');
+    throw new Error(parseFacturamaError(errorText, 'Error al cancelar factura en Facturama'));
+  }
+
+  const result = parseCancellationResponse(await response.json());
+
+  console.log(`[Facturama] Cancelación de ${facturamId}: ${result.status}`);
+
+  return result;
+}
+
+/**
+ * Consulta el estatus de cancelación de un CFDI sin volver a solicitarla.
+ * Cuando el SAT ya la aceptó, descarga además el acuse de cancelación.
+ */
+export async function getCancellationStatusInFacturama(
+  facturamId: string,
+  query: CfdiStatusQuery
+): Promise<FacturamaCancellationResult> {
+  const config = getFacturamaConfig();
+  const auth = Buffer.from(`${config.apiUser}:${config.apiPassword}`).toString('base64');
+
+  const params = new URLSearchParams({
+    uuid: query.uuid,
+    issuerRfc: query.issuerRfc,
+    receiverRfc: query.receiverRfc,
+    total: query.total,
+  });
+
+  const response = await fetch(`${config.baseUrl}/cfdi/status?${params.toString()}`, {
+    method: 'GET',
+    headers: {
+      'Authorization': `Basic ${auth}`,
+    },
+  });
+
+  if (!response.ok) {
+    const errorText = await response.text();
+    console.error('[Facturama] Error al consultar estatus:', errorText);
+    throw new Error(parseFacturamaError(errorText, 'Error al consultar estatus del CFDI en Facturama'));
+  }
+
+  const result: FacturamaCfdiStatusResponse = await response.json();
+  const status = (result.Status || '').toLowerCase();
+  const cancellationStatus = (result.CancelationStatus || '').toLowerCase();
+
+  if (status.startsWith('cancelado')) {
+    return { status: 'accepted', message: result.CancelationStatus, acuseXml: await downloadCancellationAcuse(facturamId) };
+  }
+  // El receptor rechazó la solicitud: el CFDI sigue vigente
+  if (cancellationStatus.includes('rechaz')) {
+    return { status: 'rejected', message: result.CancelationStatus };
+  }
+  return { status: 'requested', message: result.CancelationStatus };
+}
+
+/**
+ * Descarga el acuse de cancelación (XML). El acuse es un respaldo: si no está disponible
+ * todavía, la cancelación se registra de todos modos.
+ */
+async function downloadCancellationAcuse(facturamId: string): Promise<string | undefined> {
+  const config = getFacturamaConfig();
+  const auth = Buffer.from(`${config.apiUser}:${config.apiPassword}`).toString('base64');
+
+  const response = await fetch(`${config.baseUrl}/acuse/xml/issued/${facturamId}`, {
+    method: 'GET',
+    headers: {
+      'Authorization': `Basic ${auth}`,
+    },
+  });
+
+  if (!response.ok) {
+    console.error('[Facturama] Error al descargar acuse de cancelación:', await response.text());
+    return undefined;
   }
 
-  console.log('[Facturama] Factura cancelada exitosamente:', facturamId);
+  const result: { Content?: string } = await response.json();
+  return result.Content ? Buffer.from(result.Content, 'base64').toString('utf-8') : undefined;
 }
 
 /**
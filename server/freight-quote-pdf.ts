@@ -0,0 +1,182 @@
+/**
+ * Freight Quote PDF - Cotización de flete con la marca de la empresa para enviar al cliente
+ *
+ * Solo muestra tarifas de venta (nunca compra ni margen). La marca se toma de variables de
+ * entorno: COMPANY_NAME, COMPANY_CONTACT (dirección / teléfono / correo en una línea),
+ * COMPANY_RFC, COMPANY_LOGO_PATH (PNG o JPG) y QUOTE_BRAND_COLOR (hex, p. ej. #0F4C81).
+ */
+
+import PDFDocument from 'pdfkit';
+import { existsSync } from 'fs';
+import type { Proposal, Location } from '@shared/schema';
+import { getChargeBasisLabel, getChargeCode } from '@shared/freight-quote';
+import type { QuoteRouteOption } from './freight-quote-service';
+
+const DEFAULT_BRAND_COLOR = '#0F4C81';
+const PAGE_MARGIN = 50;
+
+export interface FreightQuotePdfData {
+  proposal: Proposal;
+  clientName: string;
+  employeeName: string | null;
+  origin: Location | null;
+  destination: Location | null;
+  options: QuoteRouteOption[];
+  locations: Map<string, Location>; // Transbordos de las opciones
+}
+
+const SHIPPING_MODE_LABELS: Record<string, string> = {
+  sea: 'Marítimo',
+  air: 'Aéreo',
+  land: 'Terrestre',
+  multimodal: 'Multimodal',
+};
+
+function formatMoney(amount: number, currency: string): string {
+  return `${currency} ${amount.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+}
+
+function formatDate(date: Date | string | null): string {
+  return date ? new Date(date).toLocaleDateString('es-MX', { day: '2-digit', month: 'short', year: 'numeric' }) : '-';
+}
+
+function formatLocation(location: Location | null): string | null {
+  return location ? `${location.name} (${location.unlocode})` : null;
+}
+
+export function renderFreightQuotePdf(data: FreightQuotePdfData): Promise<Buffer> {
+  const { proposal } = data;
+  const brandColor = /^#[0-9a-f]{6}$/i.test(process.env.QUOTE_BRAND_COLOR || '') ? process.env.QUOTE_BRAND_COLOR! : DEFAULT_BRAND_COLOR;
+  const companyName = process.env.COMPANY_NAME || '';
+  const logoPath = process.env.COMPANY_LOGO_PATH;
+
+  const doc = new PDFDocument({ size: 'LETTER', margin: PAGE_MARGIN, info: { Title: `Cotización ${proposal.proposalNumber}` } });
+  const chunks: Buffer[] = [];
+  const done = new Promise<Buffer>((resolve, reject) => {
+    doc.on('data', (chunk: Buffer) => chunks.push(chunk));
+    doc.on('end', () => resolve(Buffer.concat(chunks)));
+    doc.on('error', reject);
+  });
+
+  const width = doc.page.width - PAGE_MARGIN * 2;
+
+  // Encabezado de marca
+  doc.rect(0, 0, doc.page.width, 90).fill(brandColor);
+  let headerX = PAGE_MARGIN;
+  if (logoPath && existsSync(logoPath)) {
+    doc.image(logoPath, PAGE_MARGIN, 20, { fit: [120, 50] });
+    headerX += 135;
+  }
+  doc.fillColor('#FFFFFF').font('Helvetica-Bold').fontSize(18).text(companyName || 'Cotización de flete', headerX, 25, { width: width - (headerX - PAGE_MARGIN) - 160 });
+  doc.font('Helvetica').fontSize(8);
+  if (process.env.COMPANY_CONTACT) doc.text(process.env.COMPANY_CONTACT, headerX, 50, { width: width - (headerX - PAGE_MARGIN) - 160 });
+  if (process.env.COMPANY_RFC) doc.text(`RFC ${process.env.COMPANY_RFC}`);
+  doc.font('Helvetica-Bold').fontSize(11).text('COTIZACIÓN', PAGE_MARGIN + width - 150, 25, { width: 150, align: 'right' });
+  doc.font('Helvetica').fontSize(9)
+    .text(proposal.proposalNumber, { width: 150, align: 'right' })
+    .text(`Emitida ${formatDate(proposal.createdAt)}`, { width: 150, align: 'right' })
+    .text(`Válida hasta ${formatDate(proposal.validUntil)}`, { width: 150, align: 'right' });
+
+  // Cliente y embarque
+  doc.fillColor('#111111').font('Helvetica-Bold').fontSize(14).text(proposal.title, PAGE_MARGIN, 110, { width });
+  doc.moveDown(0.5);
+  const detailsTop = doc.y;
+  const column = width / 2;
+  const detail = (label: string, value: string | null | undefined, x: number) => {
+    if (!value) return;
+    doc.font('Helvetica-Bold').fontSize(8).fillColor('#666666').text(label.toUpperCase(), x, doc.y, { width: column - 10 });
+    doc.font('Helvetica').fontSize(10).fillColor('#111111').text(value, x, doc.y, { width: column - 10 });
+    doc.moveDown(0.4);
+  };
+
+  detail('Cliente', data.clientName, PAGE_MARGIN);
+  detail('Atiende', data.employeeName, PAGE_MARGIN);
+  detail('Mercancía', proposal.cargoDescription, PAGE_MARGIN);
+  if (proposal.cargoValue) detail('Valor de la mercancía', formatMoney(Number(proposal.cargoValue), proposal.currency), PAGE_MARGIN);
+  const leftBottom = doc.y;
+
+  doc.y = detailsTop;
+  detail('Origen', formatLocation(data.origin), PAGE_MARGIN + column);
+  detail('Destino', formatLocation(data.destination), PAGE_MARGIN + column);
+  detail('Servicio', [SHIPPING_MODE_LABELS[proposal.shippingMode || ''], proposal.operationType].filter(Boolean).join(' · '), PAGE_MARGIN + column);
+  detail('Incoterm', proposal.incoterm, PAGE_MARGIN + column);
+  doc.y = Math.max(leftBottom, doc.y) + 10;
+
+  if (proposal.description) {
+    doc.font('Helvetica').fontSize(9).fillColor('#333333').text(proposal.description, PAGE_MARGIN, doc.y, { width });
+    doc.moveDown();
+  }
+
+  // Una tabla por opción de ruta, solo con venta
+  const columns = [
+    { label: 'Concepto', width: width * 0.34, align: 'left' as const },
+    { label: 'Base', width: width * 0.16, align: 'left' as const },
+    { label: 'Cant.', width: width * 0.1, align: 'right' as const },
+    { label: 'Tarifa', width: width * 0.18, align: 'right' as const },
+    { label: 'Importe', width: width * 0.22, align: 'right' as const },
+  ];
+  const row = (values: string[], options: { bold?: boolean; fill?: string; color?: string } = {}) => {
+    if (doc.y > doc.page.height - PAGE_MARGIN - 60) doc.addPage();
+    const top = doc.y;
+    if (options.fill) doc.rect(PAGE_MARGIN, top - 3, width, 16).fill(options.fill);
+    doc.font(options.bold ? 'Helvetica-Bold' : 'Helvetica').fontSize(9).fillColor(options.color || '#111111');
+    let x = PAGE_MARGIN;
+    values.forEach((value, index) => {
+      doc.text(value, x + 4, top, { width: columns[index].width - 8, align: columns[index].align, lineBreak: false, ellipsis: true });
+      x += columns[index].width;
+    });
+    doc.y = top + 16;
+  };
+
+  for (const option of data.options) {
+    if (doc.y > doc.page.height - PAGE_MARGIN - 140) doc.addPage();
+    doc.moveDown(0.5);
+    const accepted = option.id === proposal.selectedOptionId && proposal.status === 'converted';
+    doc.font('Helvetica-Bold').fontSize(12).fillColor(brandColor)
+      .text(`${option.name}${accepted ? '  (aceptada)' : ''}`, PAGE_MARGIN, doc.y, { width });
+
+    const via = (option.transshipmentLocationIds || [])
+      .map(id => data.locations.get(id))
+      .filter((location): location is Location => !!location)
+      .map(location => location.name);
+    const facts = [
+      option.carrier ? `Carrier: ${option.carrier}` : null,
+      option.transitDays ? `Tránsito: ${option.transitDays} días` : null,
+      via.length > 0 ? `Vía ${via.join(', ')}` : 'Directo',
+      option.validUntil ? `Tarifa válida hasta ${formatDate(option.validUntil)}` : null,
+    ].filter(Boolean).join('  ·  ');
+    doc.font('Helvetica').fontSize(9).fillColor('#444444').text(facts, { width });
+    doc.moveDown(0.5);
+
+    row(columns.map(c => c.label), { bold: true, fill: brandColor, color: '#FFFFFF' });
+    option.chargeLines.forEach((line, index) => {
+      const label = getChargeCode(line.chargeCode)?.label || line.chargeCode;
+      const isPercent = line.basis === 'percent_of_value';
+      row([
+        line.description ? `${label} - ${line.description}` : label,
+        getChargeBasisLabel(line.basis),
+        isPercent ? '-' : Number(line.quantity).toLocaleString('en-US', { maximumFractionDigits: 3 }),
+        isPercent ? `${Number(line.sellRate)}%` : formatMoney(Number(line.sellRate), line.currency),
+        formatMoney(line.sellAmount, line.currency),
+      ], { fill: index % 2 === 1 ? '#F3F4F6' : undefined });
+    });
+    row(['', '', '', 'Total', formatMoney(option.sellTotal, proposal.currency)], { bold: true });
+    if (option.chargeLines.some(line => line.currency !== proposal.currency)) {
+      doc.font('Helvetica').fontSize(7).fillColor('#666666')
+        .text(`Total convertido a ${proposal.currency} con el tipo de cambio del ${formatDate(option.createdAt)}.`, PAGE_MARGIN, doc.y, { width });
+    }
+    if (option.notes) {
+      doc.font('Helvetica').fontSize(8).fillColor('#444444').text(option.notes, PAGE_MARGIN, doc.y + 4, { width });
+    }
+  }
+
+  doc.moveDown(2);
+  doc.font('Helvetica').fontSize(7).fillColor('#666666').text(
+    'Tarifas sujetas a disponibilidad de espacio y equipo al momento de la reserva. No incluyen impuestos, ' +
+    'maniobras, almacenajes ni demoras no indicados. Los recargos del carrier pueden cambiar sin previo aviso.',
+    PAGE_MARGIN, doc.y, { width }
+  );
+
+  doc.end();
+  return done;
+}
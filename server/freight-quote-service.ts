@@ -0,0 +1,321 @@
+/**
+ * Freight Quote Service - Cotizaciones de flete con opciones de ruta y margen
+ *
+ * Una cotización de flete (proposals.quoteType = 'freight') tiene una o más opciones de ruta
+ * (carrier, transbordos, tránsito, vigencia de tarifa), cada una con renglones de compra y
+ * venta por concepto. Al guardar se fija el tipo de cambio de cada moneda a la de la
+ * cotización, y el subtotal de la cotización es la venta de la opción seleccionada.
+ *
+ * Aceptar una opción crea en una sola transacción la operación (con ruta, carrier y
+ * estimados de ingreso / costo por categoría para su P&L) y el borrador de factura con los
+ * conceptos de venta.
+ */
+
+import { db } from './db';
+import { eq, and, asc, inArray, isNull } from 'drizzle-orm';
+import {
+  proposals,
+  proposalRouteOptions,
+  proposalChargeLines,
+  operations,
+  operationEmployees,
+  operationChargeEstimates,
+  invoices,
+  invoiceItems,
+  clients,
+  employees,
+} from '@shared/schema';
+import type { Proposal, ProposalRouteOption, ProposalChargeLine, FreightQuoteInput, Operation, Invoice } from '@shared/schema';
+import {
+  computeChargeLineAmounts,
+  computeQuoteOptionTotals,
+  getChargeCode,
+  type ChargeLineAmounts,
+  type QuoteOptionTotals,
+} from '@shared/freight-quote';
+import type { ChargeCategory } from '@shared/charge-categories';
+import { exchangeRateService, ExchangeRateError } from './exchange-rate-service';
+import { locationService } from './location-service';
+import { renderFreightQuotePdf } from './freight-quote-pdf';
+
+const INVOICE_DUE_DAYS = 30;
+
+export class FreightQuoteError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'FreightQuoteError';
+    Object.setPrototypeOf(this, FreightQuoteError.prototype);
+  }
+}
+
+export interface QuoteChargeLine extends ProposalChargeLine, ChargeLineAmounts {}
+
+export interface QuoteRouteOption extends Omit<ProposalRouteOption, 'buyTotal' | 'sellTotal'>, QuoteOptionTotals {
+  chargeLines: QuoteChargeLine[];
+  expired: boolean; // Vigencia de la tarifa vencida
+}
+
+export interface FreightQuote {
+  options: QuoteRouteOption[];
+  selectedOptionId: string | null;
+}
+
+export interface AcceptedQuote {
+  operation: Operation;
+  invoice: Invoice;
+}
+
+function chargeLineLabel(line: ProposalChargeLine): string {
+  const label = getChargeCode(line.chargeCode)?.label || line.chargeCode;
+  return line.description ? `${label} - ${line.description}` : label;
+}
+
+export class FreightQuoteService {
+  async getQuote(proposal: Proposal): Promise<FreightQuote> {
+    const options = await db.select().from(proposalRouteOptions)
+      .where(eq(proposalRouteOptions.proposalId, proposal.id))
+      .orderBy(asc(proposalRouteOptions.sortOrder));
+
+    const optionIds = options.map(option => option.id);
+    const lines = optionIds.length === 0 ? [] : await db.select().from(proposalChargeLines)
+      .where(inArray(proposalChargeLines.optionId, optionIds))
+      .orderBy(asc(proposalChargeLines.sortOrder));
+
+    const now = new Date();
+    return {
+      selectedOptionId: proposal.selectedOptionId,
+      options: options.map(option => {
+        const optionLines = lines.filter(line => line.optionId === option.id);
+        return {
+          ...option,
+          ...computeQuoteOptionTotals(optionLines),
+          chargeLines: optionLines.map(line => ({ ...line, ...computeChargeLineAmounts(line) })),
+          expired: !!option.validUntil && new Date(option.validUntil) < now,
+        };
+      }),
+    };
+  }
+
+  /**
+   * Reemplaza las opciones de ruta de la cotización y recalcula sus totales
+   */
+  async replaceQuote(proposal: Proposal, input: FreightQuoteInput): Promise<FreightQuote> {
+    if (proposal.convertedToInvoiceId || proposal.convertedToOperationId) {
+      throw new FreightQuoteError('La cotización ya fue aceptada; no se puede modificar');
+    }
+
+    const exchangeRates = await this.getExchangeRates(
+      input.options.flatMap(option => option.chargeLines.map(line => line.currency)),
+      proposal.currency
+    );
+
+    await db.transaction(async (tx) => {
+      await tx.delete(proposalRouteOptions).where(eq(proposalRouteOptions.proposalId, proposal.id));
+
+      const created: { id: string; sellTotal: number }[] = [];
+      for (let index = 0; index < input.options.length; index++) {
+        const { chargeLines, ...option } = input.options[index];
+        const lines = chargeLines.map((line, lineIndex) => ({
+          ...line,
+          exchangeRate: exchangeRates.get(line.currency)!.toFixed(6),
+          sortOrder: lineIndex,
+        }));
+        const totals = computeQuoteOptionTotals(lines);
+
+        const [routeOption] = await tx.insert(proposalRouteOptions).values({
+          ...option,
+          proposalId: proposal.id,
+          buyTotal: totals.buyTotal.toFixed(2),
+          sellTotal: totals.sellTotal.toFixed(2),
+          sortOrder: index,
+        }).returning();
+        created.push({ id: routeOption.id, sellTotal: totals.sellTotal });
+
+        await tx.insert(proposalChargeLines).values(lines.map(line => ({ ...line, optionId: routeOption.id })));
+      }
+
+      // Sin opción elegida, el subtotal muestra la primera
+      const selectedIndex = input.selectedOptionIndex ?? null;
+      const subtotal = created[selectedIndex ?? 0].sellTotal;
+
+      await tx.update(proposals)
+        .set({
+          quoteType: 'freight',
+          selectedOptionId: selectedIndex !== null ? created[selectedIndex].id : null,
+          subtotal: subtotal.toFixed(2),
+          total: (subtotal + Number(proposal.tax)).toFixed(2),
+        })
+        .where(eq(proposals.id, proposal.id));
+    });
+
+    const [updated] = await db.select().from(proposals).where(eq(proposals.id, proposal.id));
+    return await this.getQuote(updated);
+  }
+
+  /**
+   * El cliente acepta una opción: crea la operación y el borrador de factura
+   */
+  async acceptQuote(proposal: Proposal, optionId: string, userId: string): Promise<AcceptedQuote> {
+    if (proposal.convertedToInvoiceId || proposal.convertedToOperationId) {
+      throw new FreightQuoteError('La cotización ya fue aceptada');
+    }
+    if (!proposal.projectCategory || !proposal.operationType || !proposal.shippingMode) {
+      throw new FreightQuoteError('Completa categoría, tipo de operación y modo de envío de la cotización antes de aceptarla');
+    }
+
+    const quote = await this.getQuote(proposal);
+    const option = quote.options.find(o => o.id === optionId);
+    if (!option) {
+      throw new FreightQuoteError('La opción de ruta no pertenece a esta cotización');
+    }
+    if (option.expired) {
+      throw new FreightQuoteError(`La tarifa de "${option.name}" venció el ${new Date(option.validUntil!).toLocaleDateString('es-MX')}; actualízala antes de aceptar`);
+    }
+
+    const now = new Date();
+    const dueDate = new Date(now);
+    dueDate.setDate(dueDate.getDate() + INVOICE_DUE_DAYS);
+    const reference = `Cotización ${proposal.proposalNumber} - ${option.name}`;
+
+    const result = await db.transaction(async (tx) => {
+      const [operation] = await tx.insert(operations).values({
+        name: proposal.title,
+        description: [proposal.description, proposal.cargoDescription].filter(Boolean).join('\n') || null,
+        status: 'planning',
+        clientId: proposal.clientId,
+        startDate: now,
+        projectCategory: proposal.projectCategory!,
+        operationType: proposal.operationType!,
+        shippingMode: proposal.shippingMode!,
+        insurance: option.chargeLines.some(line => getChargeCode(line.chargeCode)?.category === 'insurance') ? 'yes' : 'no',
+        projectCurrency: proposal.currency,
+        courier: option.carrier,
+        originLocationId: proposal.originLocationId,
+        destinationLocationId: proposal.destinationLocationId,
+        transshipmentLocationIds: option.transshipmentLocationIds,
+      }).returning();
+
+      await tx.insert(operationEmployees).values({ operationId: operation.id, employeeId: proposal.employeeId });
+
+      // Estimados del P&L por categoría, en la moneda de la cotización
+      const estimates = new Map<ChargeCategory, { revenue: number; cost: number }>();
+      for (const line of option.chargeLines) {
+        const category = getChargeCode(line.chargeCode)?.category || 'other';
+        const estimate = estimates.get(category) || { revenue: 0, cost: 0 };
+        estimate.revenue += line.sellAmountQuote;
+        estimate.cost += line.buyAmountQuote;
+        estimates.set(category, estimate);
+      }
+      await tx.insert(operationChargeEstimates).values(Array.from(estimates.entries()).map(([chargeCategory, estimate]) => ({
+        operationId: operation.id,
+        chargeCategory,
+        estimatedRevenue: estimate.revenue.toFixed(2),
+        estimatedCost: estimate.cost.toFixed(2),
+        currency: proposal.currency,
+        notes: reference,
+      })));
+
+      const tax = Number(proposal.tax);
+      const [invoice] = await tx.insert(invoices).values({
+        invoiceNumber: `INV-${Date.now()}`,
+        clientId: proposal.clientId,
+        employeeId: proposal.employeeId,
+        operationId: operation.id,
+        currency: proposal.currency,
+        subtotal: option.sellTotal.toFixed(2),
+        tax: tax.toFixed(2),
+        total: (option.sellTotal + tax).toFixed(2),
+        status: 'draft',
+        dueDate,
+        notes: reference,
+      }).returning();
+
+      const billable = option.chargeLines.filter(line => line.sellAmountQuote !== 0);
+      if (billable.length > 0) {
+        await tx.insert(invoiceItems).values(billable.map(line => {
+          // "% del valor" se factura como un solo concepto por el importe
+          const quantity = line.basis === 'percent_of_value' ? 1 : Number(line.quantity) || 1;
+          return {
+            invoiceId: invoice.id,
+            description: chargeLineLabel(line),
+            quantity: quantity.toFixed(2),
+            unitPrice: (line.sellAmountQuote / quantity).toFixed(2),
+            amount: line.sellAmountQuote.toFixed(2),
+            chargeCategory: getChargeCode(line.chargeCode)?.category || 'other',
+          };
+        }));
+      }
+
+      // Solo una aceptación gana si dos llegan a la vez
+      const [accepted] = await tx.update(proposals)
+        .set({
+          status: 'converted',
+          selectedOptionId: option.id,
+          subtotal: option.sellTotal.toFixed(2),
+          total: (option.sellTotal + tax).toFixed(2),
+          convertedToInvoiceId: invoice.id,
+          convertedToOperationId: operation.id,
+        })
+        .where(and(eq(proposals.id, proposal.id), isNull(proposals.convertedToOperationId), isNull(proposals.convertedToInvoiceId)))
+        .returning();
+      if (!accepted) {
+        throw new FreightQuoteError('La cotización ya fue aceptada');
+      }
+
+      return { operation, invoice };
+    });
+
+    console.log(`[FreightQuote] ${proposal.proposalNumber} accepted (${option.name}) by ${userId}: operation ${result.operation.id}, invoice ${result.invoice.invoiceNumber}`);
+    return result;
+  }
+
+  /**
+   * PDF para el cliente: todas las opciones, o solo la aceptada
+   */
+  async generatePdf(proposal: Proposal): Promise<Buffer> {
+    const quote = await this.getQuote(proposal);
+    const options = proposal.status === 'converted' && proposal.selectedOptionId
+      ? quote.options.filter(option => option.id === proposal.selectedOptionId)
+      : quote.options;
+
+    const [client] = await db.select({ name: clients.name }).from(clients).where(eq(clients.id, proposal.clientId));
+    const [employee] = await db.select({ name: employees.name }).from(employees).where(eq(employees.id, proposal.employeeId));
+    const locations = new Map((await locationService.getByIds([
+      proposal.originLocationId,
+      proposal.destinationLocationId,
+      ...options.flatMap(option => option.transshipmentLocationIds || []),
+    ].filter((id): id is string => !!id))).map(location => [location.id, location]));
+
+    return await renderFreightQuotePdf({
+      proposal,
+      clientName: client?.name || '',
+      employeeName: employee?.name || null,
+      origin: proposal.originLocationId ? locations.get(proposal.originLocationId) || null : null,
+      destination: proposal.destinationLocationId ? locations.get(proposal.destinationLocationId) || null : null,
+      options,
+      locations,
+    });
+  }
+
+  /**
+   * Unidades de la moneda de la cotización por unidad de cada moneda (vía MXN, tasa del día)
+   */
+  private async getExchangeRates(currencies: string[], quoteCurrency: string): Promise<Map<string, number>> {
+    const rates = new Map<string, number>();
+    try {
+      const quoteRate = await exchangeRateService.getRate(quoteCurrency);
+      for (const currency of Array.from(new Set(currencies))) {
+        rates.set(currency, currency === quoteCurrency ? 1 : (await exchangeRateService.getRate(currency)) / quoteRate);
+      }
+    } catch (error) {
+      if (error instanceof ExchangeRateError) {
+        throw new FreightQuoteError(error.message);
+      }
+      throw error;
+    }
+    return rates;
+  }
+}
+
+// Instancia singleton
+export const freightQuoteService = new FreightQuoteService();
@@ -60,6 +60,11 @@ TU MISIÓN: Ayudar a los usuarios con operaciones, clientes, empleados, facturas
 - create_operation: Crear nueva operación logística
 - update_operation: Actualizar estados, prioridades y datos
 - create_operation_note: Agregar notas a operaciones
+- get_operation_milestones: Línea de tiempo de hitos y retrasos de una operación
+- update_milestone: Registrar fechas planeadas, estimadas o reales de un hito
+
+💲 TARIFAS:
+- lookup_lane_rates: Tarifas de compra vigentes más baratas para una ruta (para cotizar)
 
 👥 CLIENTES:
 - get_clients: Buscar clientes
@@ -164,6 +169,32 @@ RECUERDA: Eres un asistente personal COMPLETO con acceso a TODOS los módulos de
           return updated;
         }
 
+        case 'get_operation_milestones': {
+          const { operationMilestoneService } = await import('./operation-milestone-service');
+          return await operationMilestoneService.getTimeline(parameters.operationId);
+        }
+
+        case 'update_milestone': {
+          const { insertOperationMilestoneSchema } = await import('@shared/schema');
+          const { operationId, source, sourceGmailMessageId, ...data } = insertOperationMilestoneSchema.parse(parameters);
+          const { operationMilestoneService } = await import('./operation-milestone-service');
+          return await operationMilestoneService.upsertMilestone(operationId, data, { userId, source: 'ai' });
+        }
+
+        case 'lookup_lane_rates': {
+          const { tariffService } = await import('./tariff-service');
+          return await tariffService.lookupRates({
+            origin: parameters.origin,
+            destination: parameters.destination,
+            date: parameters.date ? new Date(parameters.date) : undefined,
+            mode: parameters.mode,
+            equipmentType: parameters.equipmentType,
+            containers: parameters.containers,
+            weightKg: parameters.weightKg,
+            currency: parameters.currency,
+          });
+        }
+
         case 'get_clients': {
           const clients = await storage.getAllClients();
           let filtered = clients;
@@ -0,0 +1,282 @@
+/**
+ * Gmail Send Service - Redactar, responder y reenviar correos desde una operación
+ *
+ * Envía a través del proveedor de la cuenta conectada (API de Gmail o SMTP). Las respuestas
+ * conservan el `threadId` y los encabezados In-Reply-To/References para que se agrupen en
+ * la misma conversación. Se pueden adjuntar archivos de la operación (Backblaze B2) y, al
+ * reenviar, los adjuntos del correo original. El correo enviado se guarda en
+ * `gmailMessages` ya vinculado a la operación; la siguiente sincronización lo detecta
+ * como existente y no lo duplica.
+ */
+
+import { storage } from './storage';
+import { backblazeStorage } from './backblazeStorage';
+import { getMailProvider, getAttachmentData } from './gmail-sync';
+import type { GmailAccount, GmailMessage } from '@shared/schema';
+
+// Límite de Gmail para el mensaje completo (adjuntos incluidos)
+const MAX_MESSAGE_BYTES = 25 * 1024 * 1024;
+
+export type ComposeMode = 'new' | 'reply' | 'replyAll' | 'forward';
+
+export interface SendEmailInput {
+  accountId: string;
+  mode: ComposeMode;
+  originalMessageId?: string | null; // gmailMessages.id del correo que se responde o reenvía
+  to: string[];
+  cc?: string[];
+  bcc?: string[];
+  subject: string;
+  body: string; // Texto plano
+  operationFileIds?: string[];
+  includeOriginalAttachments?: boolean; // Solo al reenviar
+}
+
+interface MimeAttachment {
+  filename: string;
+  mimeType: string;
+  data: Buffer;
+}
+
+export class GmailSendError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'GmailSendError';
+    Object.setPrototypeOf(this, GmailSendError.prototype);
+  }
+}
+
+/**
+ * Codifica un encabezado con caracteres no ASCII (RFC 2047)
+ */
+function encodeHeader(value: string): string {
+  return /^[\x20-\x7E]*$/.test(value) ? value : `=?UTF-8?B?${Buffer.from(value, 'utf-8').toString('base64')}?=`;
+}
+
+/**
+ * Base64 en líneas de 76 caracteres, como exige MIME
+ */
+function toBase64Lines(data: Buffer): string {
+  return (data.toString('base64').match(/.{1,76}/g) || []).join('\r\n');
+}
+
+function buildMimeMessage(headers: Record<string, string>, body: string, attachments: MimeAttachment[]): string {
+  const headerLines = Object.entries(headers)
+    .filter(([, value]) => value)
+    .map(([name, value]) => `${name}: ${value}`);
+  headerLines.push('MIME-Version: 1.0');
+
+  const textPart = [
+    'Content-Type: text/plain; charset="UTF-8"',
+    'Content-Transfer-Encoding: base64',
+    '',
+    toBase64Lines(Buffer.from(body, 'utf-8')),
+  ].join('\r\n');
+
+  if (attachments.length === 0) {
+    return [...headerLines, textPart].join('\r\n');
+  }
+
+  const boundary = `----=_Part_${Date.now().toString(36)}${Math.random().toString(36).slice(2)}`;
+  const parts = [textPart];
+  for (const attachment of attachments) {
+    const filename = encodeHeader(attachment.filename.replace(/"/g, ''));
+    parts.push([
+      `Content-Type: ${attachment.mimeType}; name="${filename}"`,
+      `Content-Disposition: attachment; filename="${filename}"`,
+      'Content-Transfer-Encoding: base64',
+      '',
+      toBase64Lines(attachment.data),
+    ].join('\r\n'));
+  }
+
+  return [
+    ...headerLines,
+    `Content-Type: multipart/mixed; boundary="${boundary}"`,
+    '',
+    ...parts.map(part => `--${boundary}\r\n${part}`),
+    `--${boundary}--`,
+  ].join('\r\n');
+}
+
+/**
+ * Gmail responde 403 cuando la cuenta se conectó sin el permiso gmail.send
+ */
+function isInsufficientScopeError(error: any): boolean {
+  const status = error?.code ?? error?.response?.status;
+  return (status === 403 || status === '403') && /insufficient/i.test(error?.message || '');
+}
+
+export class GmailSendService {
+  /**
+   * Envía un correo nuevo, respuesta o reenvío y lo guarda vinculado a la operación
+   */
+  async sendOperationEmail(userId: string, operationId: string, input: SendEmailInput): Promise<GmailMessage> {
+    const account = await storage.getGmailAccount(input.accountId);
+    if (!account || account.userId !== userId) {
+      throw new GmailSendError('Cuenta de Gmail no encontrada');
+    }
+    if (account.status === 'disconnected') {
+      throw new GmailSendError('La cuenta de Gmail está desconectada');
+    }
+
+    const operation = await storage.getOperation(operationId);
+    if (!operation) {
+      throw new GmailSendError('Operación no encontrada');
+    }
+
+    const to = input.to.map(email => email.trim()).filter(Boolean);
+    const cc = (input.cc || []).map(email => email.trim()).filter(Boolean);
+    const bcc = (input.bcc || []).map(email => email.trim()).filter(Boolean);
+    if (to.length === 0) {
+      throw new GmailSendError('Se requiere al menos un destinatario');
+    }
+
+    let original: GmailMessage | undefined;
+    if (input.mode !== 'new') {
+      if (!input.originalMessageId) {
+        throw new GmailSendError('Falta el correo original');
+      }
+      original = await storage.getGmailMessage(input.originalMessageId);
+      if (!original) {
+        throw new GmailSendError('Correo original no encontrado');
+      }
+    }
+
+    const attachments = await this.collectAttachments(operationId, input, original);
+    const totalBytes = attachments.reduce((sum, attachment) => sum + attachment.data.length, 0);
+    if (totalBytes > MAX_MESSAGE_BYTES) {
+      throw new GmailSendError('Los adjuntos superan el límite de 25 MB de Gmail');
+    }
+
+    const provider = getMailProvider(account);
+
+    // Encabezados de conversación para respuestas
+    const isReply = input.mode === 'reply' || input.mode === 'replyAll';
+    const threadHeaders: Record<string, string> = {};
+    if (isReply && original) {
+      const replyHeaders = await provider.getReplyHeaders(account, original.messageId);
+      if (replyHeaders) {
+        threadHeaders['In-Reply-To'] = replyHeaders.messageId;
+        threadHeaders['References'] = [replyHeaders.references, replyHeaders.messageId].filter(Boolean).join(' ');
+      }
+    }
+
+    const raw = buildMimeMessage({
+      From: account.email,
+      To: to.join(', '),
+      Cc: cc.join(', '),
+      Bcc: bcc.join(', '),
+      Subject: encodeHeader(input.subject),
+      ...threadHeaders,
+    }, input.body, attachments);
+
+    let sent;
+    try {
+      sent = await provider.sendMessage(account, raw, {
+        recipients: [...to, ...cc, ...bcc],
+        threadId: isReply && original ? original.threadId : undefined,
+      });
+    } catch (error) {
+      if (isInsufficientScopeError(error)) {
+        throw new GmailSendError('La cuenta no tiene permiso para enviar correos; vuelve a conectarla desde Gmail');
+      }
+      throw error;
+    }
+
+    console.log(`[Gmail Send] ${input.mode} sent from ${account.email} for operation ${operationId}: ${sent.messageId}`);
+
+    return await this.storeSentMessage(account, operationId, sent.messageId, sent.threadId, sent.labels, {
+      to,
+      cc,
+      bcc,
+      subject: input.subject,
+      body: input.body,
+      hasAttachments: attachments.length > 0,
+    });
+  }
+
+  /**
+   * Descarga los archivos de la operación seleccionados y, al reenviar, los adjuntos originales
+   */
+  private async collectAttachments(operationId: string, input: SendEmailInput, original?: GmailMessage): Promise<MimeAttachment[]> {
+    const attachments: MimeAttachment[] = [];
+
+    for (const fileId of input.operationFileIds || []) {
+      const file = await storage.getOperationFile(fileId);
+      if (!file || file.operationId !== operationId) {
+        throw new GmailSendError('Archivo de la operación no encontrado');
+      }
+      if (!file.b2Key) {
+        throw new GmailSendError(`El archivo ${file.name} no está disponible en almacenamiento`);
+      }
+      attachments.push({
+        filename: file.name,
+        mimeType: file.mimeType,
+        data: await backblazeStorage.downloadFile(file.b2Key),
+      });
+    }
+
+    if (input.mode === 'forward' && input.includeOriginalAttachments && original?.hasAttachments) {
+      const originalAccount = await storage.getGmailAccount(original.gmailAccountId);
+      if (originalAccount) {
+        const originalAttachments = await storage.getGmailAttachments(original.id);
+        for (const attachment of originalAttachments.filter(a => !a.isInline)) {
+          const data = attachment.b2Key
+            ? await backblazeStorage.downloadFile(attachment.b2Key)
+            : Buffer.from(attachment.data || await getAttachmentData(originalAccount, original.messageId, attachment.attachmentId), 'base64');
+          attachments.push({ filename: attachment.filename, mimeType: attachment.mimeType, data });
+        }
+      }
+    }
+
+    return attachments;
+  }
+
+  private async storeSentMessage(
+    account: GmailAccount,
+    operationId: string,
+    messageId: string,
+    threadId: string,
+    labels: string[],
+    content: { to: string[]; cc: string[]; bcc: string[]; subject: string; body: string; hasAttachments: boolean }
+  ): Promise<GmailMessage> {
+    let bodyTextB2Key: string | undefined;
+    if (backblazeStorage.isAvailable()) {
+      try {
+        const b2Keys = await backblazeStorage.uploadEmailBody(messageId, content.body, null);
+        bodyTextB2Key = b2Keys.textKey;
+      } catch (error) {
+        console.error(`[Gmail Send] Error storing sent body in Backblaze for ${messageId}:`, error);
+      }
+    }
+
+    return await storage.createGmailMessage({
+      gmailAccountId: account.id,
+      operationId,
+      messageId,
+      threadId,
+      subject: content.subject,
+      fromEmail: account.email,
+      fromName: account.email,
+      toEmails: content.to,
+      ccEmails: content.cc.length > 0 ? content.cc : null,
+      bccEmails: content.bcc.length > 0 ? content.bcc : null,
+      date: new Date(),
+      snippet: content.body.replace(/\s+/g, ' ').trim().slice(0, 200) || null,
+      bodyText: bodyTextB2Key ? null : content.body,
+      bodyHtml: null,
+      bodyTextB2Key: bodyTextB2Key || null,
+      bodyHtmlB2Key: null,
+      labels,
+      hasAttachments: content.hasAttachments,
+      isRead: true,
+      isStarred: false,
+      isImportant: false,
+      internalDate: Date.now().toString(),
+    });
+  }
+}
+
+// Instancia singleton
+export const gmailSendService = new GmailSendService();
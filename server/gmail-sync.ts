@@ -4,8 +4,19 @@ import type { GmailAccount } from '@shared/schema';
 import * as calendarSync from './calendar-sync';
 import { AttachmentAnalyzer } from './attachment-analyzer';
 import { backblazeStorage } from './backblazeStorage';
-import { SpamFilter } from './spam-filter';
-import { AttachmentFilter } from './attachment-filter';
+import type { SpamFilterRule } from './spam-filter';
+import { spamRuleService } from './spam-rule-service';
+import {
+  getLabelState,
+  storeParsedMessage,
+  type ImportResult,
+  type MailProvider,
+  type ParsedMailAttachment,
+  type SyncCounts,
+} from './mail-provider';
+import { imapProvider } from './imap-sync';
+import { secretVault } from './secret-vault';
+import { securityAuditService } from './security-audit-service';
 
 // Construir la URL de redirección automáticamente
 function getRedirectUri(): string {
@@ -40,6 +51,7 @@ export function getAuthUrl(userId: string): string {
     access_type: 'offline',
     scope: [
       'https://www.googleapis.com/auth/gmail.readonly',
+      'https://www.googleapis.com/auth/gmail.send', // Enviar y responder correos desde las operaciones
       'https://www.googleapis.com/auth/userinfo.email',
       'https://www.googleapis.com/auth/calendar', // Acceso completo a Google Calendar
     ],
@@ -62,8 +74,8 @@ export async function handleOAuthCallback(code: string, userId: string, syncFrom
   const account = await storage.createGmailAccount({
     userId,
     email: profile.data.emailAddress!,
-    accessToken: tokens.access_token,
-    refreshToken: tokens.refresh_token,
+    accessToken: secretVault.encrypt(tokens.access_token),
+    refreshToken: secretVault.encrypt(tokens.refresh_token),
     tokenExpiry: new Date(tokens.expiry_date),
     syncFromDate,
     syncEnabled: true,
@@ -78,272 +90,460 @@ export async function handleOAuthCallback(code: string, userId: string, syncFrom
   return account;
 }
 
+/**
+ * Google responde invalid_grant cuando el usuario revocó el acceso o el refresh token expiró
+ */
+function isInvalidGrantError(error: any): boolean {
+  return error?.response?.data?.error === 'invalid_grant' || /invalid_grant/.test(error?.message || '');
+}
+
 export async function refreshAccessToken(account: GmailAccount) {
+  if (!account.refreshToken) {
+    throw new Error(`Account ${account.id} has no OAuth refresh token`);
+  }
+
   oauth2Client.setCredentials({
-    refresh_token: account.refreshToken,
+    refresh_token: secretVault.decrypt(account.refreshToken),
   });
 
-  const { credentials } = await oauth2Client.refreshAccessToken();
+  let credentials;
+  try {
+    ({ credentials } = await oauth2Client.refreshAccessToken());
+  } catch (error: any) {
+    if (isInvalidGrantError(error)) {
+      await securityAuditService.record({
+        eventType: 'token_revoked',
+        entityType: 'gmail_account',
+        entityId: account.id,
+        details: { provider: 'gmail', email: account.email, source: 'google', reason: error.message },
+      });
+    }
+    throw error;
+  }
 
   if (!credentials.access_token || !credentials.expiry_date) {
     throw new Error('Failed to refresh access token');
   }
 
   await storage.updateGmailAccount(account.id, {
-    accessToken: credentials.access_token,
+    accessToken: secretVault.encrypt(credentials.access_token),
     tokenExpiry: new Date(credentials.expiry_date),
+    // Google puede rotar el refresh token en la respuesta
+    ...(credentials.refresh_token ? { refreshToken: secretVault.encrypt(credentials.refresh_token) } : {}),
+  });
+
+  await securityAuditService.record({
+    eventType: 'token_refreshed',
+    entityType: 'gmail_account',
+    entityId: account.id,
+    details: { provider: 'gmail', email: account.email, expiresAt: new Date(credentials.expiry_date).toISOString() },
   });
 
   return credentials.access_token;
 }
 
 async function getValidAccessToken(account: GmailAccount): Promise<string> {
-  if (new Date() >= new Date(account.tokenExpiry)) {
+  if (!account.accessToken || !account.tokenExpiry || new Date() >= new Date(account.tokenExpiry)) {
     return await refreshAccessToken(account);
   }
-  return account.accessToken;
+  return secretVault.decrypt(account.accessToken);
 }
 
-export async function startSync(accountId: string) {
-  try {
-    const account = await storage.getGmailAccount(accountId);
-    if (!account || !account.syncEnabled) return;
+/**
+ * Revoca los tokens de Google al desconectar la cuenta (en IMAP solo queda el registro,
+ * la contraseña se elimina con la cuenta)
+ */
+export async function revokeAccountCredentials(account: GmailAccount, userId: string): Promise<void> {
+  let revokedAtProvider = false;
+  if (account.provider === 'gmail' && account.refreshToken) {
+    try {
+      await oauth2Client.revokeToken(secretVault.decrypt(account.refreshToken));
+      revokedAtProvider = true;
+    } catch (error) {
+      // Pudo revocarse antes desde la cuenta de Google; la desconexión continúa
+      console.error(`Error revoking Google token for account ${account.id}:`, error);
+    }
+  }
 
-    await storage.updateGmailAccount(accountId, {
-      syncStatus: 'syncing',
-      errorMessage: null,
-    });
+  await securityAuditService.record({
+    eventType: 'token_revoked',
+    entityType: 'gmail_account',
+    entityId: account.id,
+    userId,
+    details: { provider: account.provider, email: account.email, source: 'disconnect', revokedAtProvider },
+  });
+}
+
+export type GmailClient = ReturnType<typeof google.gmail>;
+
+/**
+ * Cliente de Gmail autenticado con el token vigente de la cuenta
+ */
+export async function getGmailClient(account: GmailAccount): Promise<GmailClient> {
+  const accessToken = await getValidAccessToken(account);
+  oauth2Client.setCredentials({ access_token: accessToken });
+  return google.gmail({ version: 'v1', auth: oauth2Client });
+}
 
-    const accessToken = await getValidAccessToken(account);
-    oauth2Client.setCredentials({ access_token: accessToken });
+/**
+ * Gmail responde 404 cuando el historyId guardado ya expiró (aprox. una semana)
+ * o cuando el mensaje ya no existe
+ */
+function isNotFoundError(error: any): boolean {
+  return error?.code === 404 || error?.code === '404' || error?.response?.status === 404;
+}
 
-    const gmail = google.gmail({ version: 'v1', auth: oauth2Client });
+/**
+ * Descarga un mensaje completo de Gmail y lo entrega a storeParsedMessage (filtro de spam + guardado)
+ */
+async function importMessage(gmail: GmailClient, accountId: string, messageId: string, spamRules: SpamFilterRule[]): Promise<ImportResult> {
+  const existing = await storage.getGmailMessageByMessageId(messageId);
+  if (existing) {
+    return 'exists';
+  }
 
-    const after = Math.floor(new Date(account.syncFromDate).getTime() / 1000);
-    const query = `after:${after}`;
+  const fullMessage = await gmail.users.messages.get({
+    userId: 'me',
+    id: messageId,
+    format: 'full',
+  });
 
-    let pageToken: string | undefined;
-    let syncedCount = 0;
-    let filteredSpamCount = 0;
-    let totalProcessed = 0;
+  const headers = fullMessage.data.payload?.headers || [];
+  const getHeader = (name: string) => headers.find(h => h.name?.toLowerCase() === name.toLowerCase())?.value || '';
+
+  const subject = getHeader('subject');
+  const from = getHeader('from');
+  const to = getHeader('to');
+  const cc = getHeader('cc');
+  const bcc = getHeader('bcc');
+  const date = fullMessage.data.internalDate ? new Date(parseInt(fullMessage.data.internalDate)) : new Date();
+
+  const fromMatch = from.match(/<(.+?)>/) || from.match(/(.+)/);
+  const fromEmail = fromMatch ? fromMatch[1].trim() : from;
+  const fromName = from.replace(/<.+>/, '').trim() || fromEmail;
+
+  const toEmails = to.split(',').map((e: string) => {
+    const match = e.match(/<(.+?)>/) || e.match(/(.+)/);
+    return match ? match[1].trim() : e.trim();
+  }).filter((e: string) => e);
+
+  const ccEmails = cc ? cc.split(',').map((e: string) => {
+    const match = e.match(/<(.+?)>/) || e.match(/(.+)/);
+    return match ? match[1].trim() : e.trim();
+  }).filter((e: string) => e) : [];
+
+  const bccEmails = bcc ? bcc.split(',').map((e: string) => {
+    const match = e.match(/<(.+?)>/) || e.match(/(.+)/);
+    return match ? match[1].trim() : e.trim();
+  }).filter((e: string) => e) : [];
+
+  let bodyText = '';
+  let bodyHtml = '';
+
+  const extractBody = (part: any): void => {
+    if (part.mimeType === 'text/plain' && part.body?.data) {
+      bodyText = Buffer.from(part.body.data, 'base64').toString('utf-8');
+    } else if (part.mimeType === 'text/html' && part.body?.data) {
+      bodyHtml = Buffer.from(part.body.data, 'base64').toString('utf-8');
+    }
+    if (part.parts) {
+      part.parts.forEach(extractBody);
+    }
+  };
 
-    console.log(`Starting sync for account ${accountId} from date ${account.syncFromDate}`);
+  if (fullMessage.data.payload) {
+    extractBody(fullMessage.data.payload);
+  }
 
-    do {
-      const response = await gmail.users.messages.list({
-        userId: 'me',
-        q: query,
-        maxResults: 500, // Aumentar a 500 mensajes por página
-        pageToken,
+  // Adjuntos de primer nivel; el contenido se descarga después con su attachmentId
+  const attachments: ParsedMailAttachment[] = [];
+  for (const part of fullMessage.data.payload?.parts || []) {
+    if (part.filename && part.body?.attachmentId) {
+      attachments.push({
+        attachmentId: part.body.attachmentId,
+        filename: part.filename,
+        mimeType: part.mimeType || 'application/octet-stream',
+        size: part.body.size || 0,
+        isInline: part.headers?.some((h: {name?: string | null; value?: string | null}) =>
+          h.name === 'Content-Disposition' && h.value?.includes('inline')
+        ) || false,
       });
+    }
+  }
 
-      const messages = response.data.messages || [];
-      totalProcessed += messages.length;
+  return storeParsedMessage(accountId, {
+    messageId,
+    threadId: fullMessage.data.threadId || messageId,
+    subject,
+    fromEmail,
+    fromName,
+    toEmails,
+    ccEmails,
+    bccEmails,
+    date,
+    snippet: fullMessage.data.snippet || null,
+    bodyText,
+    bodyHtml,
+    labelIds: fullMessage.data.labelIds || [],
+    headers: Object.fromEntries(headers.map(h => [(h.name || '').toLowerCase(), h.value || ''])),
+    internalDate: fullMessage.data.internalDate || null,
+    attachments,
+  }, spamRules);
+}
 
-      console.log(`Processing ${messages.length} messages (total processed: ${totalProcessed})`);
+/**
+ * Sincronización completa: lista todos los mensajes desde syncFromDate.
+ * Devuelve el historyId del buzón tomado antes de listar, para que los cambios
+ * ocurridos durante la sincronización se apliquen en la siguiente incremental.
+ */
+async function fullSync(gmail: GmailClient, account: GmailAccount, counts: SyncCounts, spamRules: SpamFilterRule[]): Promise<string | null> {
+  const profile = await gmail.users.getProfile({ userId: 'me' });
+  const historyId = profile.data.historyId || null;
 
-      for (const message of messages) {
-        if (!message.id) continue;
+  const after = Math.floor(new Date(account.syncFromDate).getTime() / 1000);
+  const query = `after:${after}`;
 
-        const existing = await storage.getGmailMessageByMessageId(message.id);
-        if (existing) {
-          console.log(`Message ${message.id} already exists, skipping...`);
-          continue;
-        }
+  let pageToken: string | undefined;
 
-        const fullMessage = await gmail.users.messages.get({
-          userId: 'me',
-          id: message.id,
-          format: 'full',
-        });
-
-        const headers = fullMessage.data.payload?.headers || [];
-        const getHeader = (name: string) => headers.find(h => h.name?.toLowerCase() === name.toLowerCase())?.value || '';
-
-        const subject = getHeader('subject');
-        const from = getHeader('from');
-        const to = getHeader('to');
-        const cc = getHeader('cc');
-        const bcc = getHeader('bcc');
-        const date = fullMessage.data.internalDate ? new Date(parseInt(fullMessage.data.internalDate)) : new Date();
-
-        const fromMatch = from.match(/<(.+?)>/) || from.match(/(.+)/);
-        const fromEmail = fromMatch ? fromMatch[1].trim() : from;
-        const fromName = from.replace(/<.+>/, '').trim() || fromEmail;
-
-        const toEmails = to.split(',').map((e: string) => {
-          const match = e.match(/<(.+?)>/) || e.match(/(.+)/);
-          return match ? match[1].trim() : e.trim();
-        }).filter((e: string) => e);
-
-        const ccEmails = cc ? cc.split(',').map((e: string) => {
-          const match = e.match(/<(.+?)>/) || e.match(/(.+)/);
-          return match ? match[1].trim() : e.trim();
-        }).filter((e: string) => e) : [];
-
-        const bccEmails = bcc ? bcc.split(',').map((e: string) => {
-          const match = e.match(/<(.+?)>/) || e.match(/(.+)/);
-          return match ? match[1].trim() : e.trim();
-        }).filter((e: string) => e) : [];
-
-        let bodyText = '';
-        let bodyHtml = '';
-
-        const extractBody = (part: any): void => {
-          if (part.mimeType === 'text/plain' && part.body?.data) {
-            bodyText = Buffer.from(part.body.data, 'base64').toString('utf-8');
-          } else if (part.mimeType === 'text/html' && part.body?.data) {
-            bodyHtml = Buffer.from(part.body.data, 'base64').toString('utf-8');
-          }
-          if (part.parts) {
-            part.parts.forEach(extractBody);
-          }
-        };
-
-        if (fullMessage.data.payload) {
-          extractBody(fullMessage.data.payload);
-        }
+  console.log(`Starting full sync for account ${account.id} from date ${account.syncFromDate}`);
 
-        const hasAttachments = (fullMessage.data.payload?.parts || []).some(
-          (part: any) => part.filename && part.body?.attachmentId
-        );
+  do {
+    const response = await gmail.users.messages.list({
+      userId: 'me',
+      q: query,
+      maxResults: 500, // Aumentar a 500 mensajes por página
+      pageToken,
+    });
 
-        const labels = fullMessage.data.labelIds || [];
-        const isRead = !labels.includes('UNREAD');
-        const isStarred = labels.includes('STARRED');
-        const isImportant = labels.includes('IMPORTANT');
-
-        // Aplicar filtro de spam inteligente
-        const spamCheck = SpamFilter.getFilterStats({
-          fromEmail,
-          fromName,
-          subject,
-          bodyText,
-          bodyHtml,
-          labels,
-        });
-
-        // Si es spam, saltar este correo (pero registrar la acción)
-        if (spamCheck.isSpam) {
-          filteredSpamCount++;
-          console.log(`[SPAM FILTERED] ${fromEmail} - "${subject}" | Reason: ${spamCheck.reason} (Confidence: ${spamCheck.confidence})`);
-          continue; // No guardar este correo
-        }
+    const messages = response.data.messages || [];
+    counts.processed += messages.length;
 
-        // Store email body in Backblaze B2 (if configured)
-        let bodyTextB2Key: string | undefined;
-        let bodyHtmlB2Key: string | undefined;
-
-        if (backblazeStorage.isAvailable()) {
-          try {
-            const b2Keys = await backblazeStorage.uploadEmailBody(
-              message.id,
-              bodyText || null,
-              bodyHtml || null
-            );
-            bodyTextB2Key = b2Keys.textKey;
-            bodyHtmlB2Key = b2Keys.htmlKey;
-            console.log(`Stored email body in Backblaze: ${message.id}`);
-          } catch (error) {
-            console.error(`Error storing email body in Backblaze for ${message.id}:`, error);
-            // Continue without Backblaze if there's an error
-          }
-        }
+    console.log(`Processing ${messages.length} messages (total processed: ${counts.processed})`);
 
-        const createdMessage = await storage.createGmailMessage({
-          gmailAccountId: accountId,
-          messageId: message.id,
-          threadId: fullMessage.data.threadId || message.id,
-          subject,
-          fromEmail,
-          fromName,
-          toEmails,
-          ccEmails: ccEmails.length > 0 ? ccEmails : null,
-          bccEmails: bccEmails.length > 0 ? bccEmails : null,
-          date,
-          snippet: fullMessage.data.snippet || null,
-          bodyText: bodyTextB2Key ? null : (bodyText || null), // Fall back to DB if B2 not configured
-          bodyHtml: bodyHtmlB2Key ? null : (bodyHtml || null), // Fall back to DB if B2 not configured
-          bodyTextB2Key: bodyTextB2Key || null,
-          bodyHtmlB2Key: bodyHtmlB2Key || null,
-          labels: labels.length > 0 ? labels : null,
-          hasAttachments,
-          isRead,
-          isStarred,
-          isImportant,
-          internalDate: fullMessage.data.internalDate || null,
-        });
-
-        if (hasAttachments && fullMessage.data.payload?.parts) {
-          for (const part of fullMessage.data.payload.parts) {
-            if (part.filename && part.body?.attachmentId) {
-              const mimeType = part.mimeType || 'application/octet-stream';
-              
-              // Detectar si es inline antes de procesar
-              const isInline = part.headers?.some((h: {name?: string | null; value?: string | null}) => 
-                h.name === 'Content-Disposition' && h.value?.includes('inline')
-              ) || false;
-              
-              // Filtrar attachments innecesarios (firmas, logos inline, tracking pixels)
-              const shouldIgnore = AttachmentFilter.shouldIgnoreAttachment({
-                filename: part.filename,
-                mimeType,
-                size: part.body.size || 0,
-                isInline
-              });
-              
-              if (shouldIgnore) {
-                // Saltar este attachment - no descargarlo ni almacenarlo
-                continue;
-              }
-              
-              // 🎯 LAZY LOADING: Solo guardar metadata, NO descargar archivos aún
-              // Los archivos se descargarán cuando:
-              // 1. Email se vincule a operación (automático)
-              // 2. Automatizaciones lo necesiten (Facturama, pagos, etc.)
-              // 3. Usuario haga clic en el archivo (on-demand)
-              
-              await storage.createGmailAttachment({
-                gmailMessageId: createdMessage.id,
-                attachmentId: part.body.attachmentId,
-                filename: part.filename,
-                mimeType,
-                size: part.body.size || 0,
-                data: null, // No descargar en sync - lazy loading
-                b2Key: null, // Se llenará cuando se descargue
-                fileHash: null, // Se llenará cuando se descargue
-                isInline,
-                extractedText: null, // Se llenará cuando se descargue
-                extractedTextB2Key: null, // Se llenará cuando se descargue
-              });
-              
-              console.log(`📋 Metadata saved for attachment: ${part.filename} (${(part.body.size || 0) / 1024} KB) - lazy loading enabled`);
-            }
-          }
-        }
+    for (const message of messages) {
+      if (!message.id) continue;
 
-        syncedCount++;
+      const result = await importMessage(gmail, account.id, message.id, spamRules);
+      if (result === 'synced') counts.synced++;
+      if (result === 'spam') counts.spam++;
+    }
+
+    pageToken = response.data.nextPageToken || undefined;
+
+    // Actualizar progreso cada página procesada
+    console.log(`Synced ${counts.synced} new messages so far for account ${account.id}`);
+
+    // Pequeña pausa para evitar rate limiting de Google
+    if (pageToken) {
+      await new Promise(resolve => setTimeout(resolve, 100));
+    }
+
+  } while (pageToken);
+
+  return historyId;
+}
+
+/**
+ * Sincronización incremental con la History API: solo aplica los cambios desde el
+ * historyId guardado (mensajes nuevos, eliminados y cambios de etiquetas/leído).
+ * Lanza un error 404 si el historial expiró.
+ */
+async function incrementalSync(gmail: GmailClient, account: GmailAccount, counts: SyncCounts, spamRules: SpamFilterRule[]): Promise<string> {
+  const added = new Set<string>();
+  const deleted = new Set<string>();
+  const labelChanged = new Set<string>();
+  let latestHistoryId = account.historyId!;
+  let pageToken: string | undefined;
+
+  console.log(`Starting incremental sync for account ${account.id} from historyId ${account.historyId}`);
+
+  do {
+    const response = await gmail.users.history.list({
+      userId: 'me',
+      startHistoryId: account.historyId!,
+      historyTypes: ['messageAdded', 'messageDeleted', 'labelAdded', 'labelRemoved'],
+      maxResults: 500,
+      pageToken,
+    });
+
+    for (const record of response.data.history || []) {
+      for (const { message } of record.messagesAdded || []) {
+        if (message?.id) added.add(message.id);
+      }
+      for (const { message } of record.messagesDeleted || []) {
+        if (message?.id) deleted.add(message.id);
+      }
+      for (const { message } of [...(record.labelsAdded || []), ...(record.labelsRemoved || [])]) {
+        if (message?.id) labelChanged.add(message.id);
+      }
+    }
+
+    if (response.data.historyId) {
+      latestHistoryId = response.data.historyId;
+    }
+    pageToken = response.data.nextPageToken || undefined;
+  } while (pageToken);
+
+  counts.processed = new Set([...Array.from(added), ...Array.from(deleted), ...Array.from(labelChanged)]).size;
+
+  // 1. Mensajes eliminados en Gmail
+  let deletedCount = 0;
+  for (const messageId of Array.from(deleted)) {
+    const existing = await storage.getGmailMessageByMessageId(messageId);
+    if (existing) {
+      await storage.deleteGmailMessage(existing.id);
+      deletedCount++;
+    }
+  }
+
+  // 2. Mensajes nuevos (ya traen sus etiquetas actuales)
+  const imported = new Set<string>();
+  for (const messageId of Array.from(added)) {
+    if (deleted.has(messageId)) continue;
+    try {
+      const result = await importMessage(gmail, account.id, messageId, spamRules);
+      if (result === 'synced') {
+        counts.synced++;
+        imported.add(messageId);
       }
+      if (result === 'spam') counts.spam++;
+    } catch (error) {
+      // El mensaje pudo eliminarse entre el evento y la descarga
+      if (!isNotFoundError(error)) throw error;
+    }
+  }
 
-      pageToken = response.data.nextPageToken || undefined;
+  // 3. Cambios de etiquetas y estado de lectura en mensajes ya importados
+  let updatedCount = 0;
+  for (const messageId of Array.from(labelChanged)) {
+    if (deleted.has(messageId) || imported.has(messageId)) continue;
 
-      // Actualizar progreso cada página procesada
-      console.log(`Synced ${syncedCount} new messages so far for account ${accountId}`);
+    const existing = await storage.getGmailMessageByMessageId(messageId);
+    if (!existing) continue; // Filtrado como spam o anterior a syncFromDate
 
-      // Pequeña pausa para evitar rate limiting de Google
-      if (pageToken) {
-        await new Promise(resolve => setTimeout(resolve, 100));
+    try {
+      const current = await gmail.users.messages.get({
+        userId: 'me',
+        id: messageId,
+        format: 'minimal',
+      });
+      await storage.updateGmailMessage(existing.id, getLabelState(current.data.labelIds || []));
+      updatedCount++;
+    } catch (error) {
+      if (!isNotFoundError(error)) throw error;
+      await storage.deleteGmailMessage(existing.id);
+      deletedCount++;
+    }
+  }
+
+  console.log(`Incremental sync for account ${account.id}: ${counts.synced} new, ${deletedCount} deleted, ${updatedCount} label updates`);
+
+  return latestHistoryId;
+}
+
+/**
+ * Proveedor Gmail: API de Gmail autenticada con OAuth, History API para las incrementales
+ */
+export const gmailProvider: MailProvider = {
+  async sync(account, counts, spamRules) {
+    const gmail = await getGmailClient(account);
+    let historyId: string | null;
+
+    if (account.historyId) {
+      try {
+        historyId = await incrementalSync(gmail, account, counts, spamRules);
+      } catch (error) {
+        if (!isNotFoundError(error)) throw error;
+        // Historial expirado: volver a una sincronización completa
+        console.log(`History ${account.historyId} expired for account ${account.id}, falling back to full sync`);
+        historyId = await fullSync(gmail, account, counts, spamRules);
       }
+    } else {
+      historyId = await fullSync(gmail, account, counts, spamRules);
+    }
+
+    return { historyId };
+  },
+
+  async reimportMessage(account, messageId, spamRules) {
+    const gmail = await getGmailClient(account);
+    return importMessage(gmail, account.id, messageId, spamRules);
+  },
+
+  async getAttachmentData(account, messageId, attachmentId) {
+    const gmail = await getGmailClient(account);
+
+    const response = await gmail.users.messages.attachments.get({
+      userId: 'me',
+      messageId,
+      id: attachmentId,
+    });
 
-    } while (pageToken);
+    return response.data.data || '';
+  },
+
+  async getReplyHeaders(account, messageId) {
+    const gmail = await getGmailClient(account);
+    const metadata = await gmail.users.messages.get({
+      userId: 'me',
+      id: messageId,
+      format: 'metadata',
+      metadataHeaders: ['Message-ID', 'References'],
+    });
+    const headers = metadata.data.payload?.headers || [];
+    const getHeader = (name: string) => headers.find(h => h.name?.toLowerCase() === name.toLowerCase())?.value || '';
+    const originalMessageId = getHeader('Message-ID');
+    return originalMessageId ? { messageId: originalMessageId, references: getHeader('References') } : null;
+  },
+
+  async sendMessage(account, raw, options) {
+    const gmail = await getGmailClient(account);
+    const sent = await gmail.users.messages.send({
+      userId: 'me',
+      requestBody: {
+        raw: Buffer.from(raw, 'utf-8').toString('base64url'),
+        threadId: options.threadId,
+      },
+    });
+
+    const sentId = sent.data.id!;
+    return {
+      messageId: sentId,
+      threadId: sent.data.threadId || sentId,
+      labels: sent.data.labelIds || ['SENT'],
+    };
+  },
+};
+
+/**
+ * Proveedor de correo de la cuenta (Gmail o IMAP/SMTP)
+ */
+export function getMailProvider(account: GmailAccount): MailProvider {
+  return account.provider === 'imap' ? imapProvider : gmailProvider;
+}
+
+export async function startSync(accountId: string) {
+  try {
+    const account = await storage.getGmailAccount(accountId);
+    if (!account || !account.syncEnabled) return;
+
+    await storage.updateGmailAccount(accountId, {
+      syncStatus: 'syncing',
+      errorMessage: null,
+    });
+
+    const counts: SyncCounts = { processed: 0, synced: 0, spam: 0 };
+    const spamRules = await spamRuleService.getActiveRules(accountId);
+    const checkpoint = await getMailProvider(account).sync(account, counts, spamRules);
 
     await storage.updateGmailAccount(accountId, {
+      ...checkpoint,
       syncStatus: 'idle',
       lastSyncDate: new Date(),
       errorMessage: null,
     });
 
-    console.log(`Sync completed for account ${accountId}. Total processed: ${totalProcessed} messages, New messages synced: ${syncedCount}, Spam filtered: ${filteredSpamCount}`);
+    console.log(`Sync completed for account ${accountId}. Total processed: ${counts.processed} messages, New messages synced: ${counts.synced}, Spam filtered: ${counts.spam}`);
 
   } catch (error: any) {
     console.error(`Sync error for account ${accountId}:`, error);
@@ -354,6 +554,20 @@ export async function startSync(accountId: string) {
   }
 }
 
+/**
+ * Vuelve a importar un correo que el filtro de spam había descartado, aplicando las
+ * reglas vigentes (se usa al marcarlo como "no es spam")
+ */
+export async function restoreFilteredMessage(accountId: string, messageId: string): Promise<ImportResult> {
+  const account = await storage.getGmailAccount(accountId);
+  if (!account) {
+    throw new Error(`Gmail account ${accountId} not found`);
+  }
+
+  const spamRules = await spamRuleService.getActiveRules(accountId);
+  return getMailProvider(account).reimportMessage(account, messageId, spamRules);
+}
+
 /**
  * 🎯 LAZY LOADING: Descarga y procesa un archivo adjunto cuando realmente se necesita
  * Se usa en:
@@ -488,16 +702,5 @@ export async function downloadMessageAttachments(gmailMessageId: string): Promis
 }
 
 export async function getAttachmentData(account: GmailAccount, messageId: string, attachmentId: string): Promise<string> {
-  const accessToken = await getValidAccessToken(account);
-  oauth2Client.setCredentials({ access_token: accessToken });
-
-  const gmail = google.gmail({ version: 'v1', auth: oauth2Client });
-
-  const response = await gmail.users.messages.attachments.get({
-    userId: 'me',
-    messageId,
-    id: attachmentId,
-  });
-
-  return response.data.data || '';
+  return getMailProvider(account).getAttachmentData(account, messageId, attachmentId);
 }
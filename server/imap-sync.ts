@@ -0,0 +1,689 @@
+/**
+ * IMAP Sync - Buzones corporativos (Exchange, Dovecot...) por IMAP/SMTP
+ *
+ * Sincroniza INBOX y la carpeta de enviados por UID: por carpeta se guarda UIDVALIDITY y el
+ * último UID importado en `imapSyncState`. Los mensajes se guardan con storeParsedMessage,
+ * igual que los de Gmail, con `messageId` = imap:<cuenta>:<uidValidity>:<uid>:<carpeta>.
+ * Los adjuntos solo guardan su número de parte MIME y se descargan bajo demanda. Como IMAP
+ * no tiene hilos, el threadId se deriva de la raíz de References/In-Reply-To.
+ *
+ * El envío va por SMTP y se guarda una copia en Enviados. Con IDLE activo se mantiene una
+ * conexión abierta a INBOX que sincroniza en cuanto llega un correo; sin IDLE la cuenta se
+ * sincroniza con el sondeo periódico de auto-gmail-sync.
+ */
+
+import { createHash, randomUUID } from 'crypto';
+import type { Readable } from 'stream';
+import { ImapFlow, type MailboxObject, type MessageAddressObject, type MessageStructureObject } from 'imapflow';
+import nodemailer from 'nodemailer';
+import { and, eq, gte, like } from 'drizzle-orm';
+import { db } from './db';
+import { storage } from './storage';
+import { gmailMessages, type GmailAccount } from '@shared/schema';
+import type { SpamFilterRule } from './spam-filter';
+import { secretVault } from './secret-vault';
+import {
+  getLabelState,
+  storeParsedMessage,
+  type ImportResult,
+  type MailProvider,
+  type ParsedMailAttachment,
+  type SyncCounts,
+} from './mail-provider';
+
+// Días hacia atrás en los que se reconcilian leídos/destacados y mensajes borrados
+const RECONCILE_DAYS = 30;
+// Tamaño máximo que se descarga de cada cuerpo de texto/HTML
+const MAX_BODY_BYTES = 5 * 1024 * 1024;
+// Espera tras un aviso de IDLE antes de sincronizar (agrupa ráfagas de correos)
+const IDLE_SYNC_DELAY_MS = 5000;
+// Cada cuánto se revisa qué cuentas necesitan conexión IDLE (y se reconectan las caídas)
+const IDLE_RECONCILE_INTERVAL_MS = 5 * 60 * 1000;
+
+type ImapConnection = Pick<
+  GmailAccount,
+  'imapHost' | 'imapPort' | 'imapSecure' | 'smtpHost' | 'smtpPort' | 'smtpSecure' | 'mailUsername' | 'mailPassword'
+>;
+
+type FolderSyncState = {
+  uidValidity: string;
+  lastUid: number;
+};
+
+type ImapSyncState = Record<string, FolderSyncState>;
+
+interface SyncFolder {
+  path: string;
+  label: 'INBOX' | 'SENT';
+}
+
+interface MessageKey {
+  accountId: string;
+  uidValidity: string;
+  uid: number;
+  path: string;
+}
+
+interface MessageParts {
+  text?: string;
+  html?: string;
+  attachments: ParsedMailAttachment[];
+}
+
+export class ImapAccountError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ImapAccountError';
+    Object.setPrototypeOf(this, ImapAccountError.prototype);
+  }
+}
+
+function buildMessageKey(accountId: string, path: string, uidValidity: string, uid: number): string {
+  return `imap:${accountId}:${uidValidity}:${uid}:${path}`;
+}
+
+function parseMessageKey(messageId: string): MessageKey | null {
+  if (!messageId.startsWith('imap:')) return null;
+  const [, accountId, uidValidity, uid, ...path] = messageId.split(':');
+  if (!accountId || !uidValidity || !uid || path.length === 0) return null;
+  return { accountId, uidValidity, uid: parseInt(uid, 10), path: path.join(':') };
+}
+
+/**
+ * Hilo = raíz de la conversación (primer References, In-Reply-To o el propio Message-ID)
+ */
+function computeThreadId(accountId: string, messageId?: string, inReplyTo?: string, references?: string): string | null {
+  const root = (references || '').match(/<[^>]+>/)?.[0] || inReplyTo || messageId;
+  if (!root) return null;
+  return `imap-${createHash('sha1').update(`${accountId}:${root.trim().toLowerCase()}`).digest('hex').slice(0, 16)}`;
+}
+
+/**
+ * Encabezados crudos → { nombre en minúsculas: valor } (se queda con la primera aparición)
+ */
+function parseHeaders(raw?: Buffer | string): Record<string, string> {
+  const headers: Record<string, string> = {};
+  if (!raw) return headers;
+
+  const lines = raw.toString().replace(/\r?\n[ \t]+/g, ' ').split(/\r?\n/);
+  for (const line of lines) {
+    const separator = line.indexOf(':');
+    if (separator <= 0) continue;
+    const name = line.slice(0, separator).trim().toLowerCase();
+    if (!(name in headers)) {
+      headers[name] = line.slice(separator + 1).trim();
+    }
+  }
+  return headers;
+}
+
+function addressList(addresses?: MessageAddressObject[]): string[] {
+  return (addresses || []).map(address => address.address || '').filter(Boolean);
+}
+
+/**
+ * Recorre BODYSTRUCTURE: primer text/plain y text/html como cuerpo, el resto con nombre como adjunto
+ */
+function collectParts(node: MessageStructureObject, parts: MessageParts): void {
+  const partId = node.part || '1';
+  const filename = node.dispositionParameters?.filename || node.parameters?.name;
+
+  if (node.type === 'message/rfc822') {
+    parts.attachments.push({
+      attachmentId: partId,
+      filename: filename || `${node.envelope?.subject || 'mensaje'}.eml`,
+      mimeType: node.type,
+      size: node.size || 0,
+      isInline: false,
+    });
+    return;
+  }
+
+  if (node.childNodes) {
+    node.childNodes.forEach(child => collectParts(child, parts));
+    return;
+  }
+
+  const isAttachment = node.disposition === 'attachment' || !!filename;
+  if (!isAttachment && node.type === 'text/plain' && !parts.text) {
+    parts.text = partId;
+  } else if (!isAttachment && node.type === 'text/html' && !parts.html) {
+    parts.html = partId;
+  } else if (isAttachment) {
+    parts.attachments.push({
+      attachmentId: partId,
+      filename: filename || 'adjunto',
+      mimeType: node.type || 'application/octet-stream',
+      size: node.size || 0,
+      isInline: node.disposition === 'inline',
+    });
+  }
+}
+
+async function readStream(stream: Readable): Promise<Buffer> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of stream) {
+    chunks.push(Buffer.from(chunk));
+  }
+  return Buffer.concat(chunks);
+}
+
+function createImapClient(account: ImapConnection, options: { idle?: boolean } = {}): ImapFlow {
+  if (!account.imapHost || !account.mailUsername || !account.mailPassword) {
+    throw new ImapAccountError('La cuenta no tiene configurado el servidor IMAP');
+  }
+
+  return new ImapFlow({
+    host: account.imapHost,
+    port: account.imapPort || 993,
+    secure: account.imapSecure,
+    auth: { user: account.mailUsername, pass: secretVault.decrypt(account.mailPassword) },
+    logger: false,
+    disableAutoIdle: !options.idle,
+  });
+}
+
+function createSmtpTransport(account: ImapConnection) {
+  if (!account.smtpHost || !account.mailUsername || !account.mailPassword) {
+    throw new ImapAccountError('La cuenta no tiene configurado el servidor SMTP');
+  }
+
+  return nodemailer.createTransport({
+    host: account.smtpHost,
+    port: account.smtpPort || 465,
+    secure: account.smtpSecure,
+    auth: { user: account.mailUsername, pass: secretVault.decrypt(account.mailPassword) },
+  });
+}
+
+/**
+ * Abre una conexión, ejecuta la operación y cierra la sesión aunque falle
+ */
+async function withImapClient<T>(account: ImapConnection, fn: (client: ImapFlow) => Promise<T>): Promise<T> {
+  const client = createImapClient(account);
+  await client.connect();
+  try {
+    return await fn(client);
+  } finally {
+    await client.logout().catch(() => client.close());
+  }
+}
+
+/**
+ * Abre la carpeta del mensaje y comprueba que sus UIDs sigan siendo válidos
+ */
+async function withMessageFolder<T>(client: ImapFlow, key: MessageKey, fn: () => Promise<T>): Promise<T> {
+  const lock = await client.getMailboxLock(key.path, { readOnly: true });
+  try {
+    if ((client.mailbox as MailboxObject).uidValidity.toString() !== key.uidValidity) {
+      throw new ImapAccountError('La carpeta cambió en el servidor (UIDVALIDITY); vuelve a sincronizar la cuenta');
+    }
+    return await fn();
+  } finally {
+    lock.release();
+  }
+}
+
+async function findSentFolder(client: ImapFlow): Promise<string | null> {
+  const mailboxes = await client.list();
+  return mailboxes.find(mailbox => mailbox.specialUse === '\\Sent')?.path || null;
+}
+
+/**
+ * Comprueba usuario, contraseña y servidores antes de guardar la cuenta
+ */
+export async function verifyImapConnection(settings: ImapConnection): Promise<void> {
+  try {
+    await withImapClient(settings, async () => undefined);
+  } catch (error: any) {
+    if (error instanceof ImapAccountError) throw error;
+    throw new ImapAccountError(`No se pudo conectar al servidor IMAP: ${error.responseText || error.message}`);
+  }
+
+  try {
+    await createSmtpTransport(settings).verify();
+  } catch (error: any) {
+    if (error instanceof ImapAccountError) throw error;
+    throw new ImapAccountError(`No se pudo conectar al servidor SMTP: ${error.message}`);
+  }
+}
+
+export class ImapProvider implements MailProvider {
+  async sync(account: GmailAccount, counts: SyncCounts, spamRules: SpamFilterRule[]) {
+    const state: ImapSyncState = { ...((account.imapSyncState as ImapSyncState | null) || {}) };
+
+    await withImapClient(account, async (client) => {
+      const folders: SyncFolder[] = [{ path: 'INBOX', label: 'INBOX' }];
+      const sentPath = await findSentFolder(client);
+      if (sentPath) {
+        folders.push({ path: sentPath, label: 'SENT' });
+      }
+
+      for (const folder of folders) {
+        state[folder.path] = await this.syncFolder(client, account, folder, state[folder.path], counts, spamRules);
+      }
+    });
+
+    console.log(`[IMAP Sync] ${account.email}: ${counts.synced} new, ${counts.spam} spam of ${counts.processed} processed`);
+
+    return { imapSyncState: state };
+  }
+
+  async reimportMessage(account: GmailAccount, messageId: string, spamRules: SpamFilterRule[]): Promise<ImportResult> {
+    const key = parseMessageKey(messageId);
+    if (!key) {
+      throw new ImapAccountError('Mensaje IMAP no válido');
+    }
+
+    const result = await withImapClient(account, client =>
+      withMessageFolder(client, key, () =>
+        this.importUid(client, account, { path: key.path, label: key.path === 'INBOX' ? 'INBOX' : 'SENT' }, key.uidValidity, key.uid, spamRules, false)
+      )
+    );
+    if (!result) {
+      throw new ImapAccountError('El mensaje ya no existe en el servidor');
+    }
+    return result;
+  }
+
+  async getAttachmentData(account: GmailAccount, messageId: string, attachmentId: string): Promise<string> {
+    const key = parseMessageKey(messageId);
+    if (!key) {
+      throw new ImapAccountError('El adjunto no está disponible en el servidor IMAP');
+    }
+
+    return withImapClient(account, client =>
+      withMessageFolder(client, key, async () => {
+        const { content } = await client.download(String(key.uid), attachmentId, { uid: true });
+        return (await readStream(content)).toString('base64');
+      })
+    );
+  }
+
+  async getReplyHeaders(account: GmailAccount, messageId: string) {
+    // Enviado sin copia en Enviados: la clave ya es el Message-ID
+    if (messageId.startsWith('smtp:')) {
+      return { messageId: messageId.split(':').slice(2).join(':'), references: '' };
+    }
+
+    const key = parseMessageKey(messageId);
+    if (!key) return null;
+
+    return withImapClient(account, client =>
+      withMessageFolder(client, key, async () => {
+        const message = await client.fetchOne(String(key.uid), { uid: true, envelope: true, headers: ['references'] }, { uid: true });
+        if (!message || !message.envelope?.messageId) return null;
+        return { messageId: message.envelope.messageId, references: parseHeaders(message.headers)['references'] || '' };
+      })
+    );
+  }
+
+  async sendMessage(account: GmailAccount, raw: string, options: { recipients: string[]; threadId?: string }) {
+    // Gmail completa Date y Message-ID; por SMTP hay que ponerlos antes de guardar la copia
+    const messageIdHeader = `<${randomUUID()}@${account.email.split('@')[1] || 'localhost'}>`;
+    const message = `Date: ${new Date().toUTCString()}\r\nMessage-ID: ${messageIdHeader}\r\n${raw}`;
+    const headerEnd = message.indexOf('\r\n\r\n');
+    const headers = parseHeaders(message.slice(0, headerEnd));
+
+    // Bcc solo va en el sobre SMTP, nunca en los encabezados que reciben los destinatarios
+    const publicMessage = message.slice(0, headerEnd).replace(/^Bcc:.*(\r\n|$)/im, '') + message.slice(headerEnd);
+    await createSmtpTransport(account).sendMail({
+      envelope: { from: account.email, to: options.recipients },
+      raw: publicMessage,
+    });
+
+    let storedId: string | null = null;
+    try {
+      storedId = await withImapClient(account, async (client) => {
+        const sentPath = await findSentFolder(client);
+        if (!sentPath) return null;
+        const appended = await client.append(sentPath, message, ['\\Seen']);
+        // Con UIDPLUS la copia queda con la misma clave que le daría la sincronización
+        return appended && appended.uid && appended.uidValidity !== undefined
+          ? buildMessageKey(account.id, sentPath, appended.uidValidity.toString(), appended.uid)
+          : null;
+      });
+    } catch (error) {
+      console.error(`[IMAP Sync] Could not store sent copy for ${account.email}:`, error);
+    }
+
+    return {
+      messageId: storedId || `smtp:${account.id}:${messageIdHeader}`,
+      threadId: options.threadId || computeThreadId(account.id, messageIdHeader, headers['in-reply-to'], headers['references'])!,
+      labels: ['SENT'],
+    };
+  }
+
+  /**
+   * Importa los UIDs nuevos de una carpeta. Si cambió UIDVALIDITY se recorre otra vez desde
+   * syncFromDate y los mensajes ya importados se re-asocian a su nuevo UID.
+   */
+  private async syncFolder(
+    client: ImapFlow,
+    account: GmailAccount,
+    folder: SyncFolder,
+    previous: FolderSyncState | undefined,
+    counts: SyncCounts,
+    spamRules: SpamFilterRule[]
+  ): Promise<FolderSyncState> {
+    const lock = await client.getMailboxLock(folder.path, { readOnly: true });
+    try {
+      const uidValidity = (client.mailbox as MailboxObject).uidValidity.toString();
+      const incremental = previous?.uidValidity === uidValidity;
+      const lastUid = incremental ? previous!.lastUid : 0;
+
+      if (previous && !incremental) {
+        console.log(`[IMAP Sync] UIDVALIDITY changed for ${account.email} ${folder.path}, rescanning from ${account.syncFromDate}`);
+      }
+
+      const found = incremental
+        ? await client.search({ uid: `${lastUid + 1}:*` }, { uid: true })
+        : await client.search({ since: new Date(account.syncFromDate) }, { uid: true });
+      // "N:*" siempre devuelve el último mensaje aunque su UID sea menor que N
+      const uids = (found || []).filter(uid => uid > lastUid).sort((a, b) => a - b);
+      counts.processed += uids.length;
+
+      let newLastUid = lastUid;
+      for (const uid of uids) {
+        const result = await this.importUid(client, account, folder, uidValidity, uid, spamRules, !!previous && !incremental);
+        if (result === 'synced') counts.synced++;
+        if (result === 'spam') counts.spam++;
+        newLastUid = uid;
+      }
+
+      if (incremental) {
+        await this.reconcileFolder(client, account, folder, uidValidity, lastUid);
+      }
+
+      return { uidValidity, lastUid: newLastUid };
+    } finally {
+      lock.release();
+    }
+  }
+
+  /**
+   * Descarga encabezados, estructura y cuerpos de un UID y lo guarda.
+   * Devuelve null si el mensaje ya no existe en el servidor.
+   */
+  private async importUid(
+    client: ImapFlow,
+    account: GmailAccount,
+    folder: SyncFolder,
+    uidValidity: string,
+    uid: number,
+    spamRules: SpamFilterRule[],
+    rekey: boolean
+  ): Promise<ImportResult | null> {
+    const messageId = buildMessageKey(account.id, folder.path, uidValidity, uid);
+    if (await storage.getGmailMessageByMessageId(messageId)) {
+      return 'exists';
+    }
+
+    const message = await client.fetchOne(String(uid), {
+      uid: true,
+      envelope: true,
+      flags: true,
+      bodyStructure: true,
+      internalDate: true,
+      headers: true,
+    }, { uid: true });
+    if (!message || !message.envelope) {
+      return null;
+    }
+
+    const { envelope } = message;
+    const internalDate = message.internalDate ? new Date(message.internalDate) : null;
+    const from = envelope.from?.[0];
+    const fromEmail = from?.address || '';
+    const fromName = from?.name || fromEmail;
+    const subject = envelope.subject || '';
+
+    // UIDVALIDITY cambió: el mensaje ya importado conserva sus vínculos con la nueva clave
+    if (rekey && internalDate && await this.rekeyExisting(account, messageId, internalDate, fromEmail, subject)) {
+      return 'exists';
+    }
+
+    const headers = parseHeaders(message.headers);
+    const parts: MessageParts = { attachments: [] };
+    if (message.bodyStructure) {
+      collectParts(message.bodyStructure, parts);
+    }
+
+    const downloadText = async (part?: string) => {
+      if (!part) return '';
+      const { content } = await client.download(String(uid), part, { uid: true, maxBytes: MAX_BODY_BYTES });
+      return (await readStream(content)).toString('utf-8');
+    };
+    const bodyText = await downloadText(parts.text);
+    const bodyHtml = await downloadText(parts.html);
+
+    const flags = message.flags || new Set<string>();
+    const labelIds: string[] = [folder.label];
+    if (!flags.has('\\Seen')) labelIds.push('UNREAD');
+    if (flags.has('\\Flagged')) labelIds.push('STARRED');
+
+    const snippetSource = bodyText || bodyHtml.replace(/<style[\s\S]*?<\/style>/gi, ' ').replace(/<[^>]+>/g, ' ');
+
+    return storeParsedMessage(account.id, {
+      messageId,
+      threadId: computeThreadId(account.id, envelope.messageId, envelope.inReplyTo, headers['references']) || messageId,
+      subject,
+      fromEmail,
+      fromName,
+      toEmails: addressList(envelope.to),
+      ccEmails: addressList(envelope.cc),
+      bccEmails: addressList(envelope.bcc),
+      date: envelope.date || internalDate || new Date(),
+      snippet: snippetSource.replace(/\s+/g, ' ').trim().slice(0, 200) || null,
+      bodyText,
+      bodyHtml,
+      labelIds,
+      headers,
+      internalDate: internalDate ? internalDate.getTime().toString() : null,
+      attachments: parts.attachments,
+    }, spamRules);
+  }
+
+  /**
+   * Busca el mismo mensaje importado con el UIDVALIDITY anterior y le asigna la nueva clave
+   */
+  private async rekeyExisting(account: GmailAccount, messageId: string, internalDate: Date, fromEmail: string, subject: string): Promise<boolean> {
+    const key = parseMessageKey(messageId)!;
+    const candidates = await db
+      .select({ id: gmailMessages.id, messageId: gmailMessages.messageId })
+      .from(gmailMessages)
+      .where(and(
+        eq(gmailMessages.gmailAccountId, account.id),
+        eq(gmailMessages.internalDate, internalDate.getTime().toString()),
+        eq(gmailMessages.fromEmail, fromEmail),
+        eq(gmailMessages.subject, subject)
+      ));
+
+    const previous = candidates.find(candidate => {
+      const candidateKey = parseMessageKey(candidate.messageId);
+      return candidateKey && candidateKey.path === key.path && candidateKey.uidValidity !== key.uidValidity;
+    });
+    if (!previous) return false;
+
+    await storage.updateGmailMessage(previous.id, { messageId });
+    return true;
+  }
+
+  /**
+   * Aplica leído/destacado y borrados de los últimos días (IMAP no tiene historial de cambios)
+   */
+  private async reconcileFolder(client: ImapFlow, account: GmailAccount, folder: SyncFolder, uidValidity: string, lastUid: number): Promise<void> {
+    const since = new Date(Date.now() - RECONCILE_DAYS * 24 * 60 * 60 * 1000);
+    const found = await client.search({ since }, { uid: true });
+    const flagsByUid = new Map<number, Set<string>>();
+    if (found && found.length > 0) {
+      for (const message of await client.fetchAll(found, { uid: true, flags: true }, { uid: true })) {
+        flagsByUid.set(message.uid, message.flags || new Set<string>());
+      }
+    }
+
+    // Margen de un día: SINCE usa la fecha de recepción y la columna date la del encabezado
+    const rows = await db
+      .select({ id: gmailMessages.id, messageId: gmailMessages.messageId, isRead: gmailMessages.isRead, isStarred: gmailMessages.isStarred })
+      .from(gmailMessages)
+      .where(and(
+        eq(gmailMessages.gmailAccountId, account.id),
+        like(gmailMessages.messageId, `imap:${account.id}:${uidValidity}:%`),
+        gte(gmailMessages.date, new Date(since.getTime() + 24 * 60 * 60 * 1000))
+      ));
+
+    let updated = 0;
+    let deleted = 0;
+    for (const row of rows) {
+      const key = parseMessageKey(row.messageId);
+      if (!key || key.path !== folder.path || key.uid > lastUid) continue;
+
+      const flags = flagsByUid.get(key.uid);
+      if (!flags) {
+        await storage.deleteGmailMessage(row.id);
+        deleted++;
+        continue;
+      }
+
+      const labelIds: string[] = [folder.label];
+      if (!flags.has('\\Seen')) labelIds.push('UNREAD');
+      if (flags.has('\\Flagged')) labelIds.push('STARRED');
+      const labelState = getLabelState(labelIds);
+      if (labelState.isRead !== row.isRead || labelState.isStarred !== row.isStarred) {
+        await storage.updateGmailMessage(row.id, labelState);
+        updated++;
+      }
+    }
+
+    if (updated > 0 || deleted > 0) {
+      console.log(`[IMAP Sync] ${account.email} ${folder.path}: ${updated} flag updates, ${deleted} deleted`);
+    }
+  }
+}
+
+/**
+ * Conexiones IDLE a INBOX de las cuentas IMAP que lo tienen activo
+ */
+export class ImapIdleService {
+  private watchers = new Map<string, ImapFlow>();
+  private pendingSyncs = new Map<string, NodeJS.Timeout>();
+  private isRunning = false;
+  private intervalId: NodeJS.Timeout | null = null;
+
+  start() {
+    if (this.isRunning) {
+      console.log('[IMAP IDLE] Service already running');
+      return;
+    }
+
+    this.isRunning = true;
+    console.log('[IMAP IDLE] Starting IDLE watchers for IMAP accounts');
+
+    this.reconcile();
+    this.intervalId = setInterval(() => this.reconcile(), IDLE_RECONCILE_INTERVAL_MS);
+  }
+
+  stop() {
+    if (this.intervalId) {
+      clearInterval(this.intervalId);
+      this.intervalId = null;
+    }
+    Array.from(this.pendingSyncs.values()).forEach(timeout => clearTimeout(timeout));
+    this.pendingSyncs.clear();
+    Array.from(this.watchers.values()).forEach(client => client.close());
+    this.watchers.clear();
+    this.isRunning = false;
+    console.log('[IMAP IDLE] Service stopped');
+  }
+
+  /**
+   * Abre conexiones para las cuentas nuevas o caídas y cierra las que ya no aplican
+   */
+  private async reconcile() {
+    try {
+      const accounts = (await storage.getAllGmailAccounts()).filter(account =>
+        account.provider === 'imap' && account.syncEnabled && account.imapUseIdle && account.status !== 'disconnected'
+      );
+      const accountIds = new Set(accounts.map(account => account.id));
+
+      for (const [accountId, client] of Array.from(this.watchers.entries())) {
+        if (!accountIds.has(accountId)) {
+          this.watchers.delete(accountId);
+          client.close();
+        }
+      }
+
+      for (const account of accounts) {
+        if (!this.watchers.has(account.id)) {
+          await this.watch(account);
+        }
+      }
+    } catch (error) {
+      console.error('[IMAP IDLE] Error reconciling accounts:', error);
+    }
+  }
+
+  private async watch(account: GmailAccount) {
+    let client: ImapFlow;
+    try {
+      client = createImapClient(account, { idle: true });
+    } catch (error) {
+      console.error(`[IMAP IDLE] Invalid settings for ${account.email}:`, error);
+      return;
+    }
+
+    client.on('exists', () => this.scheduleSync(account.id));
+    client.on('error', (error) => console.error(`[IMAP IDLE] Connection error for ${account.email}:`, error));
+    client.on('close', () => {
+      // Se reconecta en la siguiente revisión
+      if (this.watchers.get(account.id) === client) {
+        this.watchers.delete(account.id);
+      }
+    });
+
+    try {
+      await client.connect();
+      await client.mailboxOpen('INBOX');
+      this.watchers.set(account.id, client);
+      console.log(`[IMAP IDLE] Watching INBOX of ${account.email}`);
+    } catch (error) {
+      console.error(`[IMAP IDLE] Could not connect ${account.email}:`, error);
+      client.close();
+    }
+  }
+
+  private scheduleSync(accountId: string) {
+    const pending = this.pendingSyncs.get(accountId);
+    if (pending) clearTimeout(pending);
+
+    this.pendingSyncs.set(accountId, setTimeout(async () => {
+      this.pendingSyncs.delete(accountId);
+      try {
+        const account = await storage.getGmailAccount(accountId);
+        if (!account) return;
+        if (account.syncStatus === 'syncing') {
+          // Hay una sincronización en curso que pudo pasar ya por INBOX: reintentar después
+          this.scheduleSync(accountId);
+          return;
+        }
+
+        const { startSync } = await import('./gmail-sync');
+        await startSync(accountId);
+
+        const { emailLinkingService } = await import('./email-linking-service');
+        await emailLinkingService.linkUnlinkedMessages();
+      } catch (error) {
+        console.error(`[IMAP IDLE] Error syncing account ${accountId}:`, error);
+      }
+    }, IDLE_SYNC_DELAY_MS));
+  }
+}
+
+// Instancias singleton
+export const imapProvider = new ImapProvider();
+export const imapIdleService = new ImapIdleService();
+
+// Auto-start function for background processing
+export function startImapIdleService() {
+  imapIdleService.start();
+}
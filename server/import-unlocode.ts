@@ -0,0 +1,38 @@
+/**
+ * Importación del catálogo UN/LOCODE - Carga la tabla `locations`
+ *
+ * Descargar la edición vigente de https://unece.org/trade/cefact/UNLOCODE-Download
+ * (formato CSV) y pasar los archivos CodeListPart1-3.csv. Se puede repetir con cada
+ * edición nueva: las ubicaciones existentes se actualizan por código.
+ *
+ * Uso: npm run locations:import -- <CodeListPart1.csv> [CodeListPart2.csv ...]
+ */
+
+import { readFile } from 'fs/promises';
+import { decodeUnlocodeFile, parseUnlocodeCsv } from './unlocode-parser';
+import { locationService } from './location-service';
+
+(async () => {
+  const files = process.argv.slice(2).filter(arg => !arg.startsWith('--'));
+  if (files.length === 0) {
+    console.error('[Locations] Uso: npm run locations:import -- <CodeListPart1.csv> [CodeListPart2.csv ...]');
+    process.exit(1);
+  }
+
+  let total = 0;
+  let errors = 0;
+  for (const file of files) {
+    try {
+      const rows = parseUnlocodeCsv(decodeUnlocodeFile(await readFile(file)));
+      const imported = await locationService.importLocations(rows);
+      total += imported;
+      console.log(`[Locations] ${file}: ${imported} locations imported`);
+    } catch (error) {
+      errors++;
+      console.error(`[Locations] Error importing ${file}:`, error);
+    }
+  }
+
+  console.log(`[Locations] Done: ${total} locations imported from ${files.length} file(s), ${errors} errors`);
+  process.exit(errors > 0 ? 1 : 0);
+})();
@@ -3,8 +3,12 @@ import { registerRoutes } from "./routes";
 import { setupVite, serveStatic, log } from "./vite";
 import { startAutoCalendarSync } from "./calendar-sync";
 import { startAutomationService } from "./automation-service";
+import { startInvoiceAgingService } from "./invoice-aging-service";
+import { startInvoiceCfdiService } from "./invoice-cfdi-service";
+import { startSearchService } from "./search-service";
 import { startAutoGmailSync } from "./auto-gmail-sync";
-import { storage } from "./storage";
+import { startImapIdleService } from "./imap-sync";
+import { secretVault } from "./secret-vault";
 
 const app = express();
 
@@ -52,6 +56,9 @@ app.use((req, res, next) => {
 });
 
 (async () => {
+  // Verificar la llave maestra de secretos antes de atender peticiones (obligatoria en producción)
+  secretVault.checkConfiguration();
+
   const server = await registerRoutes(app);
 
   // Iniciar sincronización automática de Google Calendar
@@ -60,14 +67,27 @@ app.use((req, res, next) => {
   // Iniciar servicio de automatización en segundo plano
   startAutomationService();
 
+  // Iniciar job de facturas vencidas (marca como overdue las facturas sin pagar vencidas)
+  startInvoiceAgingService();
+
+  // Iniciar seguimiento de cancelaciones CFDI pendientes de aceptación del receptor
+  startInvoiceCfdiService();
+
+  // Iniciar indexado de búsqueda de texto completo (correos, adjuntos, archivos, notas y tareas)
+  startSearchService();
+
   // Iniciar sincronización automática de Gmail (cada 15 minutos para automatización en tiempo real)
   startAutoGmailSync(15);
 
+  // Iniciar conexiones IDLE de los buzones IMAP (sincronizan al llegar un correo)
+  startImapIdleService();
+
   // Vincular mensajes existentes a operaciones automáticamente (se ejecuta una vez al inicio)
   setTimeout(async () => {
     try {
       console.log('[Startup] Linking existing messages to operations...');
-      await storage.linkMessagesToOperations();
+      const { emailLinkingService } = await import('./email-linking-service');
+      await emailLinkingService.linkUnlinkedMessages();
     } catch (error) {
       console.error('[Startup] Error linking messages:', error);
     }
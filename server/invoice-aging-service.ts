@@ -0,0 +1,230 @@
+/**
+ * Invoice Aging Service - Facturas vencidas y antigüedad de saldos (cuentas por cobrar)
+ *
+ * 1. Job en segundo plano que marca como `overdue` las facturas emitidas sin pagar
+ *    cuyo `dueDate` ya pasó (y las regresa a `sent`/`partially_paid` si se extiende el vencimiento)
+ * 2. Reporte de antigüedad de saldos por rangos: corriente, 1-30, 31-60, 61-90 y 90+ días,
+ *    agrupado por cliente y moneda o solo por moneda; opcionalmente convertido a una moneda de reporte
+ */
+
+import { db } from './db';
+import { eq, and, inArray, lt, gte, sql } from 'drizzle-orm';
+import { invoices, clients } from '@shared/schema';
+import { exchangeRateService } from './exchange-rate-service';
+
+export type AgingBucket = 'current' | 'days1to30' | 'days31to60' | 'days61to90' | 'days90plus';
+
+export interface AgingRow {
+  clientId: string | null;
+  clientName: string | null;
+  currency: string;
+  current: number;
+  days1to30: number;
+  days31to60: number;
+  days61to90: number;
+  days90plus: number;
+  total: number;
+  invoiceCount: number;
+}
+
+export interface AgingReport {
+  asOf: string;
+  groupBy: 'client' | 'currency';
+  rows: AgingRow[];
+  totals: AgingRow[]; // Un total por moneda (no se suman monedas distintas)
+  reportingCurrency: string | null; // Si se indicó, todos los saldos están convertidos a esta moneda
+}
+
+// Facturas emitidas que aún tienen saldo por cobrar
+const RECEIVABLE_STATUSES = ['sent', 'partially_paid', 'overdue'];
+// Facturas que el job puede marcar como vencidas
+const OVERDUE_ELIGIBLE_STATUSES = ['sent', 'partially_paid'];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const toCents = (value: string | number | null | undefined) => Math.round(Number(value || 0) * 100);
+
+function emptyRow(clientId: string | null, clientName: string | null, currency: string): AgingRow {
+  return {
+    clientId,
+    clientName,
+    currency,
+    current: 0,
+    days1to30: 0,
+    days31to60: 0,
+    days61to90: 0,
+    days90plus: 0,
+    total: 0,
+    invoiceCount: 0,
+  };
+}
+
+export function getAgingBucket(dueDate: Date, asOf: Date): AgingBucket {
+  const daysPastDue = Math.floor((asOf.getTime() - dueDate.getTime()) / DAY_MS);
+  if (daysPastDue <= 0) return 'current';
+  if (daysPastDue <= 30) return 'days1to30';
+  if (daysPastDue <= 60) return 'days31to60';
+  if (daysPastDue <= 90) return 'days61to90';
+  return 'days90plus';
+}
+
+export class InvoiceAgingService {
+  private isRunning = false;
+  private intervalId: NodeJS.Timeout | null = null;
+  private readonly CHECK_INTERVAL = 60 * 60 * 1000; // 1 hour
+
+  start() {
+    if (this.isRunning) {
+      console.log('[Invoice Aging] Service is already running');
+      return;
+    }
+
+    this.isRunning = true;
+    console.log('[Invoice Aging] Service started (interval: 60 minutes)');
+
+    // Run immediately on start
+    this.markOverdueInvoices().catch(err => {
+      console.error('[Invoice Aging] Error in initial overdue check:', err);
+    });
+
+    this.intervalId = setInterval(() => {
+      this.markOverdueInvoices().catch(err => {
+        console.error('[Invoice Aging] Error in overdue check:', err);
+      });
+    }, this.CHECK_INTERVAL);
+  }
+
+  stop() {
+    if (this.intervalId) {
+      clearInterval(this.intervalId);
+      this.intervalId = null;
+    }
+    this.isRunning = false;
+    console.log('[Invoice Aging] Service stopped');
+  }
+
+  /**
+   * Marca como vencidas las facturas con saldo pendiente cuyo vencimiento ya pasó y
+   * regresa a `sent` (o `partially_paid` si tienen abonos) las vencidas cuyo `dueDate` se movió al futuro
+   */
+  async markOverdueInvoices(now: Date = new Date()): Promise<{ markedOverdue: number; restored: number }> {
+    const pastDue = await db.select().from(invoices)
+      .where(and(
+        inArray(invoices.status, OVERDUE_ELIGIBLE_STATUSES),
+        lt(invoices.dueDate, now)
+      ));
+
+    const overdueIds = pastDue
+      .filter(invoice => toCents(invoice.total) - toCents(invoice.amountPaid) - toCents(invoice.amountCredited) > 0)
+      .map(invoice => invoice.id);
+
+    if (overdueIds.length > 0) {
+      await db.update(invoices)
+        .set({ status: 'overdue' })
+        .where(and(inArray(invoices.id, overdueIds), inArray(invoices.status, OVERDUE_ELIGIBLE_STATUSES)));
+    }
+
+    const restored = await db.update(invoices)
+      .set({ status: sql`case when ${invoices.amountPaid} > 0 or ${invoices.amountCredited} > 0 then 'partially_paid' else 'sent' end` })
+      .where(and(eq(invoices.status, 'overdue'), gte(invoices.dueDate, now)))
+      .returning({ id: invoices.id });
+
+    if (overdueIds.length > 0 || restored.length > 0) {
+      console.log(`[Invoice Aging] ${overdueIds.length} invoice(s) marked overdue, ${restored.length} restored`);
+    }
+
+    return { markedOverdue: overdueIds.length, restored: restored.length };
+  }
+
+  /**
+   * Reporte de antigüedad de saldos con el saldo pendiente (total - pagos - notas de crédito) de cada factura
+   */
+  async getAgingReport(options: {
+    groupBy?: 'client' | 'currency';
+    clientId?: string;
+    asOf?: Date;
+    reportingCurrency?: string;
+  } = {}): Promise<AgingReport> {
+    const groupBy = options.groupBy || 'client';
+    const asOf = options.asOf || new Date();
+    const reportingCurrency = options.reportingCurrency || null;
+    const converter = reportingCurrency ? exchangeRateService.createConverter(reportingCurrency) : null;
+
+    const conditions = [inArray(invoices.status, RECEIVABLE_STATUSES)];
+    if (options.clientId) conditions.push(eq(invoices.clientId, options.clientId));
+
+    const receivables = await db.select({
+      invoice: invoices,
+      clientName: clients.name,
+    })
+      .from(invoices)
+      .leftJoin(clients, eq(invoices.clientId, clients.id))
+      .where(and(...conditions));
+
+    const rowsByKey = new Map<string, AgingRow>();
+    const totalsByCurrency = new Map<string, AgingRow>();
+
+    const addTo = (row: AgingRow, bucket: AgingBucket, cents: number) => {
+      row[bucket] += cents;
+      row.total += cents;
+      row.invoiceCount += 1;
+    };
+
+    for (const { invoice, clientName } of receivables) {
+      let outstanding = toCents(invoice.total) - toCents(invoice.amountPaid) - toCents(invoice.amountCredited);
+      if (outstanding <= 0) continue;
+
+      // El saldo se convierte con el tipo de cambio de la fecha de emisión de la factura
+      const currency = reportingCurrency || invoice.currency;
+      if (converter) {
+        outstanding = toCents(await converter.convert(outstanding / 100, invoice.currency, invoice.stampedAt || invoice.createdAt));
+      }
+
+      const bucket = getAgingBucket(invoice.dueDate, asOf);
+      const key = groupBy === 'client' ? `${invoice.clientId}|${currency}` : currency;
+
+      if (!rowsByKey.has(key)) {
+        rowsByKey.set(key, groupBy === 'client'
+          ? emptyRow(invoice.clientId, clientName, currency)
+          : emptyRow(null, null, currency));
+      }
+      if (!totalsByCurrency.has(currency)) {
+        totalsByCurrency.set(currency, emptyRow(null, null, currency));
+      }
+
+      addTo(rowsByKey.get(key)!, bucket, outstanding);
+      addTo(totalsByCurrency.get(currency)!, bucket, outstanding);
+    }
+
+    // Los acumulados se llevan en centavos para evitar errores de redondeo
+    const toAmounts = (row: AgingRow): AgingRow => ({
+      ...row,
+      current: row.current / 100,
+      days1to30: row.days1to30 / 100,
+      days31to60: row.days31to60 / 100,
+      days61to90: row.days61to90 / 100,
+      days90plus: row.days90plus / 100,
+      total: row.total / 100,
+    });
+
+    return {
+      asOf: asOf.toISOString(),
+      groupBy,
+      rows: Array.from(rowsByKey.values())
+        .sort((a, b) => b.total - a.total)
+        .map(toAmounts),
+      totals: Array.from(totalsByCurrency.values())
+        .sort((a, b) => a.currency.localeCompare(b.currency))
+        .map(toAmounts),
+      reportingCurrency,
+    };
+  }
+}
+
+// Instancia singleton
+export const invoiceAgingService = new InvoiceAgingService();
+
+// Auto-start function for background processing
+export function startInvoiceAgingService() {
+  invoiceAgingService.start();
+}
@@ -6,6 +6,7 @@
  * 2. Verifica si la factura ya existe (por folioFiscal - UUID)
  * 3. Crea la factura completa con todos los items y códigos SAT
  * 4. Asigna automáticamente la factura a la operación
+ * 5. Si la empresa es el receptor (CFDI de un proveedor), registra una factura por pagar
  * 
  * Integrado con el sistema de automatización para procesamiento continuo
  */
@@ -16,6 +17,7 @@ import { storage } from './storage';
 import { db } from './db';
 import { invoices, invoiceItems, operations, clients, operationFiles } from '@shared/schema';
 import { eq, and } from 'drizzle-orm';
+import { isReceivedCfdi, supplierBillService } from './supplier-bill-service';
 
 export interface InvoiceMatchResult {
   matched: boolean;
@@ -26,8 +28,9 @@ export interface InvoiceMatchResult {
 
 export interface InvoiceAutoAssignmentResult {
   success: boolean;
-  action: 'assigned-existing' | 'created-and-assigned' | 'skipped' | 'error';
+  action: 'assigned-existing' | 'created-and-assigned' | 'supplier-bill' | 'skipped' | 'error';
   invoiceId?: string;
+  supplierBillId?: string;
   invoiceNumber?: string;
   invoiceData?: FacturamaInvoiceData;
   error?: string;
@@ -94,6 +97,31 @@ export class InvoiceAutoAssignmentService {
         };
       }
       
+      // CFDI recibido de un proveedor: va a cuentas por pagar, no a facturas de clientes
+      if (isReceivedCfdi(invoiceData)) {
+        if (invoiceData.tipoComprobante && invoiceData.tipoComprobante !== 'I') {
+          return {
+            success: false,
+            action: 'skipped',
+            reasoning: `CFDI recibido tipo "${invoiceData.tipoComprobante}" - Solo se registran facturas de Ingreso de proveedores`
+          };
+        }
+
+        const { bill, supplier, created } = await supplierBillService.createBillFromCfdi(invoiceData, {
+          operationId,
+          sourceFileId: attachmentId,
+        });
+        console.log(`[Invoice Auto-Assignment] 🧾 CFDI de proveedor ${supplier.name} - Factura por pagar ${created ? 'creada' : 'ya existente'}: ${bill.billNumber}`);
+
+        return {
+          success: true,
+          action: 'supplier-bill',
+          supplierBillId: bill.id,
+          invoiceNumber: bill.billNumber,
+          invoiceData
+        };
+      }
+      
       // Validar tipo de comprobante - Solo procesar facturas de Ingreso (tipo I)
       if (invoiceData.tipoComprobante && invoiceData.tipoComprobante !== 'I') {
         console.log(`[Invoice Auto-Assignment] ⏭️  CFDI tipo "${invoiceData.tipoComprobante}" detectado - Solo se procesan facturas de Ingreso (tipo I)`);
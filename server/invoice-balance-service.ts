@@ -0,0 +1,240 @@
+/**
+ * Invoice Balance Service - Saldo de facturas a partir de los pagos asignados
+ *
+ * Calcula el monto pagado contra `invoices.total` y mueve la factura por
+ * `sent` → `partially_paid` → `paid` (o `overdue` si venció con saldo pendiente).
+ * Las notas de crédito timbradas reducen el saldo; los sobrepagos se rechazan o se
+ * registran como saldo a favor del cliente.
+ */
+
+import { db } from './db';
+import { eq, and, ne, desc, sql, isNotNull } from 'drizzle-orm';
+import { invoices, payments, clientCredits } from '@shared/schema';
+import type { Invoice, ClientCredit, InsertClientCredit, Payment, InsertPayment } from '@shared/schema';
+import { bankLedgerService, type DbExecutor } from './bank-ledger-service';
+
+// Estados que no se recalculan: el borrador aún no se emite, la cancelada no se cobra
+// y la nota de crédito aplicada no tiene saldo propio
+const FROZEN_STATUSES = ['draft', 'cancelled', 'applied'];
+
+const toCents = (value: string | number | null | undefined) => Math.round(Number(value || 0) * 100);
+const fromCents = (cents: number) => (cents / 100).toFixed(2);
+
+export interface OverpaymentCheck {
+  balanceDue: string;
+  excess: string; // Monto que rebasa el saldo pendiente ("0.00" si no hay sobrepago)
+}
+
+// reject: un pago mayor al saldo pendiente se rechaza; credit: el excedente queda a favor del cliente
+export type OverpaymentHandling = 'reject' | 'credit';
+
+export class InvoiceBalanceError extends Error {
+  constructor(message: string, public balanceDue?: string, public excess?: string) {
+    super(message);
+    this.name = 'InvoiceBalanceError';
+    Object.setPrototypeOf(this, InvoiceBalanceError.prototype);
+  }
+}
+
+/**
+ * Estado que corresponde a una factura emitida según lo pagado y su vencimiento
+ */
+export function getPaymentStatus(totalCents: number, paidCents: number, dueDate: Date, now: Date = new Date(), creditedCents: number = 0): string {
+  if (totalCents > 0 && paidCents + creditedCents >= totalCents) return 'paid';
+  if (dueDate < now) return 'overdue';
+  if (paidCents > 0 || creditedCents > 0) return 'partially_paid';
+  return 'sent';
+}
+
+export class InvoiceBalanceService {
+  /**
+   * Suma de pagos de una factura en centavos, opcionalmente excluyendo un pago
+   */
+  async getPaidCents(executor: DbExecutor, invoiceId: string, excludePaymentId?: string): Promise<number> {
+    const conditions = [eq(payments.invoiceId, invoiceId)];
+    if (excludePaymentId) conditions.push(ne(payments.id, excludePaymentId));
+
+    const [row] = await executor.select({
+      amount: sql<string>`coalesce(sum(${payments.amount}), 0)`,
+    })
+      .from(payments)
+      .where(and(...conditions));
+
+    return toCents(row?.amount);
+  }
+
+  /**
+   * Suma de notas de crédito timbradas y vigentes de una factura, en centavos
+   */
+  async getCreditedCents(executor: DbExecutor, invoiceId: string): Promise<number> {
+    const [row] = await executor.select({
+      amount: sql<string>`coalesce(sum(${invoices.total}), 0)`,
+    })
+      .from(invoices)
+      .where(and(
+        eq(invoices.relatedInvoiceId, invoiceId),
+        eq(invoices.tipoComprobante, 'E'),
+        isNotNull(invoices.folioFiscal),
+        ne(invoices.status, 'cancelled')
+      ));
+
+    return toCents(row?.amount);
+  }
+
+  /**
+   * Recalcula `amountPaid`, `amountCredited`, `status` y `paidDate` de una factura a partir
+   * de sus pagos y notas de crédito. Con `preserveStatus` solo recalcula los montos
+   * (p. ej. cuando el usuario acaba de fijar el estado a mano).
+   */
+  async syncInvoiceStatus(executor: DbExecutor, invoiceId: string, options: { now?: Date; preserveStatus?: boolean } = {}): Promise<Invoice | undefined> {
+    const now = options.now || new Date();
+    const [invoice] = await executor.select().from(invoices).where(eq(invoices.id, invoiceId));
+    if (!invoice) return undefined;
+    // Una nota de crédito no se cobra: su efecto se refleja en la factura original
+    if (invoice.tipoComprobante === 'E') return invoice;
+
+    const totalCents = toCents(invoice.total);
+    const creditedCents = Math.min(await this.getCreditedCents(executor, invoiceId), totalCents);
+    const paidCents = await this.getPaidCents(executor, invoiceId);
+    // El excedente de un sobrepago queda como saldo a favor, no como pago de la factura
+    const allocatedCents = Math.min(paidCents, totalCents - creditedCents);
+
+    const updates: Partial<Invoice> = {
+      amountPaid: fromCents(allocatedCents),
+      amountCredited: fromCents(creditedCents),
+    };
+
+    if (!options.preserveStatus && !FROZEN_STATUSES.includes(invoice.status)) {
+      const status = getPaymentStatus(totalCents, allocatedCents, invoice.dueDate, now, creditedCents);
+      updates.status = status;
+
+      if (status === 'paid') {
+        const [lastPayment] = await executor.select({ paymentDate: payments.paymentDate })
+          .from(payments)
+          .where(eq(payments.invoiceId, invoiceId))
+          .orderBy(desc(payments.paymentDate))
+          .limit(1);
+        updates.paidDate = lastPayment?.paymentDate || invoice.paidDate || now;
+      } else {
+        updates.paidDate = null;
+      }
+    }
+
+    const [updated] = await executor.update(invoices)
+      .set(updates)
+      .where(eq(invoices.id, invoiceId))
+      .returning();
+
+    if (updates.status && updates.status !== invoice.status) {
+      console.log(`[Invoice Balance] Invoice ${invoice.invoiceNumber}: ${invoice.status} → ${updates.status}`);
+    }
+
+    return updated;
+  }
+
+  /**
+   * Compara un monto a pagar contra el saldo pendiente de la factura
+   */
+  async checkOverpayment(invoice: Invoice, amount: string | number, excludePaymentId?: string, executor: DbExecutor = db): Promise<OverpaymentCheck> {
+    const paidCents = await this.getPaidCents(executor, invoice.id, excludePaymentId);
+    const balanceDueCents = Math.max(toCents(invoice.total) - toCents(invoice.amountCredited) - paidCents, 0);
+    const excessCents = Math.max(toCents(amount) - balanceDueCents, 0);
+
+    return {
+      balanceDue: fromCents(balanceDueCents),
+      excess: fromCents(excessCents),
+    };
+  }
+
+  /**
+   * Registra un pago a una factura. La factura se bloquea durante la validación del saldo
+   * para que dos pagos simultáneos no puedan rebasarlo; el excedente, si se acepta,
+   * queda como saldo a favor en la misma transacción.
+   */
+  async recordPayment(data: InsertPayment & { invoiceId: string }, overpaymentHandling: OverpaymentHandling = 'reject'): Promise<{ payment: Payment; clientCredit?: ClientCredit }> {
+    return await db.transaction(async (tx) => {
+      const [invoice] = await tx.select().from(invoices).where(eq(invoices.id, data.invoiceId)).for('update');
+      if (!invoice) {
+        throw new InvoiceBalanceError('Factura no encontrada');
+      }
+
+      const { balanceDue, excess } = await this.checkOverpayment(invoice, data.amount, undefined, tx);
+      if (Number(excess) > 0 && overpaymentHandling === 'reject') {
+        throw new InvoiceBalanceError(`El pago excede el saldo pendiente de la factura (${balanceDue} ${invoice.currency})`, balanceDue, excess);
+      }
+
+      const [payment] = await tx.insert(payments).values(data).returning();
+      await bankLedgerService.syncPaymentEntry(tx, payment);
+      await this.syncInvoiceStatus(tx, invoice.id);
+
+      if (Number(excess) === 0) {
+        return { payment };
+      }
+
+      const clientCredit = await this.createClientCredit({
+        clientId: invoice.clientId,
+        invoiceId: invoice.id,
+        paymentId: payment.id,
+        amount: excess,
+        currency: invoice.currency,
+        notes: `Sobrepago de la factura ${invoice.invoiceNumber}`,
+      }, tx);
+      return { payment, clientCredit };
+    });
+  }
+
+  /**
+   * Actualiza un pago. Si cambia su monto o su factura, la factura destino se bloquea igual
+   * que en `recordPayment` para validar el saldo; al cambiar de factura se recalculan ambas.
+   */
+  async updatePayment(id: string, data: Partial<InsertPayment>): Promise<Payment | undefined> {
+    return await db.transaction(async (tx) => {
+      const [existing] = await tx.select().from(payments).where(eq(payments.id, id)).for('update');
+      if (!existing) return undefined;
+
+      const invoiceId = data.invoiceId !== undefined ? data.invoiceId : existing.invoiceId;
+      const amountChanged = data.amount !== undefined && toCents(data.amount) !== toCents(existing.amount);
+      if (invoiceId && (amountChanged || invoiceId !== existing.invoiceId)) {
+        // El saldo a favor se calculó con el monto original del pago
+        if (await this.getPaymentCredit(id, tx)) {
+          throw new InvoiceBalanceError('Este pago generó saldo a favor del cliente; elimínalo y regístralo de nuevo para cambiar su monto o factura');
+        }
+        const [invoice] = await tx.select().from(invoices).where(eq(invoices.id, invoiceId)).for('update');
+        if (invoice) {
+          const { balanceDue, excess } = await this.checkOverpayment(invoice, data.amount ?? existing.amount, id, tx);
+          if (Number(excess) > 0) {
+            throw new InvoiceBalanceError(`El pago excede el saldo pendiente de la factura (${balanceDue} ${invoice.currency})`, balanceDue, excess);
+          }
+        }
+      }
+
+      const [payment] = await tx.update(payments).set(data).where(eq(payments.id, id)).returning();
+      await bankLedgerService.syncPaymentEntry(tx, payment, existing.bankAccountId);
+      const invoiceIds = new Set([existing.invoiceId, payment.invoiceId].filter((paymentInvoiceId): paymentInvoiceId is string => !!paymentInvoiceId));
+      for (const paymentInvoiceId of Array.from(invoiceIds)) {
+        await this.syncInvoiceStatus(tx, paymentInvoiceId);
+      }
+      return payment;
+    });
+  }
+
+  async createClientCredit(data: InsertClientCredit, executor: DbExecutor = db): Promise<ClientCredit> {
+    const [credit] = await executor.insert(clientCredits).values(data).returning();
+    console.log(`[Invoice Balance] Client credit of ${credit.amount} ${credit.currency} recorded for client ${credit.clientId}`);
+    return credit;
+  }
+
+  async getClientCredits(clientId: string): Promise<ClientCredit[]> {
+    return await db.select().from(clientCredits)
+      .where(eq(clientCredits.clientId, clientId))
+      .orderBy(desc(clientCredits.createdAt));
+  }
+
+  async getPaymentCredit(paymentId: string, executor: DbExecutor = db): Promise<ClientCredit | undefined> {
+    const [credit] = await executor.select().from(clientCredits).where(eq(clientCredits.paymentId, paymentId));
+    return credit || undefined;
+  }
+}
+
+// Instancia singleton
+export const invoiceBalanceService = new InvoiceBalanceService();
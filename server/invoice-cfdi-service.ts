@@ -0,0 +1,508 @@
+/**
+ * Invoice CFDI Service - Timbrado y cancelación de facturas ante el SAT vía Facturama
+ *
+ * 1. Timbrado: guarda UUID, ID de Facturama y respalda XML/PDF en B2. Las facturas en moneda
+ *    extranjera llevan TipoCambio (capturado o el vigente del día). Las notas de crédito
+ *    (tipo E) se relacionan con tipo 01 a la factura original y reducen su saldo
+ * 2. Cancelación con motivo SAT (01-04). El motivo 01 requiere una factura sustituta:
+ *    se crea un borrador vinculado y, al timbrarlo (con relación 04), se solicita la
+ *    cancelación de la original con el UUID de la sustituta
+ * 3. Seguimiento del estatus (solicitada, aceptada, rechazada por el receptor) con un job
+ *    en segundo plano y resguardo del acuse XML en B2
+ */
+
+import { db } from './db';
+import { storage } from './storage';
+import { eq, and, like } from 'drizzle-orm';
+import { invoices, invoiceItems, clients, payments, paymentComplements } from '@shared/schema';
+import type { Invoice } from '@shared/schema';
+import {
+  stampInvoiceInFacturama,
+  cancelInvoiceInFacturama,
+  getCancellationStatusInFacturama,
+  downloadInvoiceXML,
+  downloadInvoicePDF,
+  type CfdiRelations,
+  type FacturamaCancellationResult,
+} from './facturama-service';
+import { backblazeStorage } from './backblazeStorage';
+import { invoiceBalanceService } from './invoice-balance-service';
+import { exchangeRateService, ExchangeRateError, BASE_CURRENCY } from './exchange-rate-service';
+
+// Catálogo c_MotivoCancelacion del SAT
+export const CANCELLATION_MOTIVES: Record<string, string> = {
+  '01': 'Comprobante emitido con errores con relación',
+  '02': 'Comprobante emitido con errores sin relación',
+  '03': 'No se llevó a cabo la operación',
+  '04': 'Operación nominativa relacionada en una factura global',
+};
+
+// Estatus de cancelación que impiden solicitar otra
+const ACTIVE_CANCELLATION_STATUSES = ['pending_substitute', 'requested', 'accepted'];
+
+const toCents = (value: string | number | null | undefined) => Math.round(Number(value || 0) * 100);
+const fromCents = (cents: number) => (cents / 100).toFixed(2);
+
+export class InvoiceCfdiError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'InvoiceCfdiError';
+    Object.setPrototypeOf(this, InvoiceCfdiError.prototype);
+  }
+}
+
+export interface CancellationRequestResult {
+  invoice: Invoice;
+  replacement?: Invoice; // Borrador sustituto (motivo 01)
+}
+
+export class InvoiceCfdiService {
+  private isRunning = false;
+  private intervalId: NodeJS.Timeout | null = null;
+  private readonly CHECK_INTERVAL = 60 * 60 * 1000; // 1 hour
+
+  start() {
+    if (this.isRunning) {
+      console.log('[Invoice CFDI] Service is already running');
+      return;
+    }
+
+    this.isRunning = true;
+    console.log('[Invoice CFDI] Cancellation status service started (interval: 60 minutes)');
+
+    this.refreshPendingCancellations().catch(err => {
+      console.error('[Invoice CFDI] Error in initial cancellation check:', err);
+    });
+
+    this.intervalId = setInterval(() => {
+      this.refreshPendingCancellations().catch(err => {
+        console.error('[Invoice CFDI] Error in cancellation check:', err);
+      });
+    }, this.CHECK_INTERVAL);
+  }
+
+  stop() {
+    if (this.intervalId) {
+      clearInterval(this.intervalId);
+      this.intervalId = null;
+    }
+    this.isRunning = false;
+    console.log('[Invoice CFDI] Service stopped');
+  }
+
+  private async getInvoiceOrFail(invoiceId: string): Promise<Invoice> {
+    const [invoice] = await db.select().from(invoices).where(eq(invoices.id, invoiceId));
+    if (!invoice) {
+      throw new InvoiceCfdiError('Factura no encontrada');
+    }
+    return invoice;
+  }
+
+  private async updateInvoice(invoiceId: string, updates: Partial<Invoice>): Promise<Invoice> {
+    const [updated] = await db.update(invoices).set(updates).where(eq(invoices.id, invoiceId)).returning();
+    return updated;
+  }
+
+  /**
+   * Timbra una factura en Facturama. Si sustituye a otra (motivo 01), la relaciona
+   * con tipo 04 y solicita la cancelación de la original.
+   */
+  async stampInvoice(invoiceId: string): Promise<Invoice> {
+    const invoice = await this.getInvoiceOrFail(invoiceId);
+
+    if (invoice.folioFiscal) {
+      throw new InvoiceCfdiError('Esta factura ya está timbrada');
+    }
+
+    const items = await storage.getInvoiceItems(invoiceId);
+    if (!items || items.length === 0) {
+      throw new InvoiceCfdiError('La factura debe tener al menos un concepto');
+    }
+
+    const [client] = await db.select().from(clients).where(eq(clients.id, invoice.clientId));
+    if (!client) {
+      throw new InvoiceCfdiError('Cliente no encontrado');
+    }
+
+    let original: Invoice | undefined;
+    let relations: CfdiRelations | undefined;
+    if (invoice.replacesInvoiceId) {
+      original = await this.getInvoiceOrFail(invoice.replacesInvoiceId);
+      if (!original.folioFiscal) {
+        throw new InvoiceCfdiError('La factura que se sustituye no está timbrada');
+      }
+      relations = { type: '04', uuids: [original.folioFiscal] }; // Sustitución de los CFDI previos
+    }
+
+    let creditedInvoice: Invoice | undefined;
+    if (invoice.tipoComprobante === 'E' && invoice.relatedInvoiceId) {
+      creditedInvoice = await this.getInvoiceOrFail(invoice.relatedInvoiceId);
+      if (!creditedInvoice.folioFiscal || creditedInvoice.status === 'cancelled') {
+        throw new InvoiceCfdiError('La factura original de la nota de crédito no está timbrada o fue cancelada');
+      }
+      // Los pagos registrados después de crear el borrador también reducen lo acreditable
+      const outstandingCents = toCents(creditedInvoice.total)
+        - await invoiceBalanceService.getPaidCents(db, creditedInvoice.id)
+        - await invoiceBalanceService.getCreditedCents(db, creditedInvoice.id);
+      if (toCents(invoice.total) > outstandingCents) {
+        throw new InvoiceCfdiError(`La nota de crédito excede el saldo pendiente de la factura original (${fromCents(Math.max(outstandingCents, 0))} ${creditedInvoice.currency})`);
+      }
+      relations = { type: '01', uuids: [creditedInvoice.folioFiscal] }; // Nota de crédito de los documentos relacionados
+    }
+
+    // TipoCambio: si no se capturó, se usa el tipo de cambio vigente el día del timbrado
+    let toStamp = invoice;
+    if (invoice.currency !== BASE_CURRENCY && invoice.currency !== 'XXX' && !invoice.exchangeRate) {
+      try {
+        const rate = await exchangeRateService.getRate(invoice.currency, new Date());
+        toStamp = await this.updateInvoice(invoiceId, { exchangeRate: rate.toFixed(6) });
+      } catch (error) {
+        if (error instanceof ExchangeRateError) {
+          throw new InvoiceCfdiError(`${error.message}. Captura el tipo de cambio de la factura o registra el del día`);
+        }
+        throw error;
+      }
+    }
+
+    let result: { folioFiscal: string; facturamId: string };
+    try {
+      result = await stampInvoiceInFacturama(
+        toStamp,
+        items,
+        invoice.recipientRFC || client.rfc || '',
+        invoice.recipientName || client.razonSocial || client.name,
+        invoice.recipientRegimenFiscal || client.regimenFiscal || '612',
+        relations
+      );
+    } catch (error: any) {
+      await this.updateInvoice(invoiceId, { stampStatus: 'stamp_failed', stampError: error?.message || 'Error al timbrar' });
+      throw new InvoiceCfdiError(error?.message || 'Error al timbrar factura');
+    }
+
+    let stamped = await this.updateInvoice(invoiceId, {
+      folioFiscal: result.folioFiscal,
+      facturamaCfdiId: result.facturamId,
+      stampStatus: 'stamped',
+      stampedAt: new Date(),
+      stampError: null,
+      // Una factura timbrada ya está emitida; una nota de crédito timbrada queda aplicada
+      status: invoice.tipoComprobante === 'E' ? 'applied' : invoice.status === 'draft' ? 'sent' : invoice.status,
+    });
+    stamped = (await invoiceBalanceService.syncInvoiceStatus(db, invoiceId)) || stamped;
+
+    if (creditedInvoice) {
+      await invoiceBalanceService.syncInvoiceStatus(db, creditedInvoice.id);
+    }
+
+    try {
+      stamped = await this.archiveFiles(stamped);
+    } catch (error) {
+      console.error('[Invoice CFDI] Error archiving XML/PDF in B2:', error);
+    }
+
+    if (original) {
+      // La sustituta ya es válida; si falla la cancelación queda registrada en la original para reintentar
+      try {
+        await this.submitCancellation(original, '01', result.folioFiscal);
+      } catch (error) {
+        console.error(`[Invoice CFDI] Error cancelling substituted invoice ${original.invoiceNumber}:`, error);
+      }
+    }
+
+    return stamped;
+  }
+
+  /**
+   * Descarga XML y PDF de una factura timbrada y los guarda en B2
+   */
+  async archiveFiles(invoice: Invoice): Promise<Invoice> {
+    if (!invoice.facturamaCfdiId || !backblazeStorage.isAvailable()) {
+      return invoice;
+    }
+
+    const folder = `invoices/${invoice.id}`;
+    const updates: Partial<Invoice> = {};
+
+    if (!invoice.xmlB2Key) {
+      const xml = await downloadInvoiceXML(invoice.facturamaCfdiId);
+      const upload = await backblazeStorage.uploadFile(Buffer.from(xml, 'utf-8'), folder, {
+        originalName: `${invoice.folioFiscal}.xml`,
+        mimeType: 'application/xml',
+        category: 'invoice',
+      });
+      updates.xmlB2Key = upload.fileKey;
+    }
+
+    if (!invoice.pdfB2Key) {
+      const pdf = await downloadInvoicePDF(invoice.facturamaCfdiId);
+      const upload = await backblazeStorage.uploadFile(pdf, folder, {
+        originalName: `${invoice.folioFiscal}.pdf`,
+        mimeType: 'application/pdf',
+        category: 'invoice',
+      });
+      updates.pdfB2Key = upload.fileKey;
+    }
+
+    if (Object.keys(updates).length === 0) return invoice;
+    return await this.updateInvoice(invoice.id, updates);
+  }
+
+  /**
+   * Solicita la cancelación de una factura timbrada.
+   * Con motivo 01 solo se crea el borrador sustituto; la cancelación se envía al timbrarlo.
+   */
+  async requestCancellation(invoiceId: string, motive: string, options: { replacementInvoiceNumber?: string } = {}): Promise<CancellationRequestResult> {
+    if (!CANCELLATION_MOTIVES[motive]) {
+      throw new InvoiceCfdiError('Motivo de cancelación no válido (01-04)');
+    }
+
+    const invoice = await this.getInvoiceOrFail(invoiceId);
+
+    if (!invoice.folioFiscal) {
+      throw new InvoiceCfdiError('Solo se pueden cancelar facturas timbradas');
+    }
+    if (!invoice.facturamaCfdiId) {
+      throw new InvoiceCfdiError('La factura no tiene ID de Facturama; cancélala desde el portal de Facturama');
+    }
+    if (invoice.cancellationStatus && ACTIVE_CANCELLATION_STATUSES.includes(invoice.cancellationStatus)) {
+      throw new InvoiceCfdiError('La factura ya tiene una cancelación en proceso');
+    }
+
+    // El SAT exige cancelar primero los complementos de pago relacionados
+    const [stampedComplement] = await db.select({ id: paymentComplements.id })
+      .from(paymentComplements)
+      .where(and(eq(paymentComplements.invoiceId, invoiceId), eq(paymentComplements.stampStatus, 'stamped')))
+      .limit(1);
+    if (stampedComplement) {
+      throw new InvoiceCfdiError('La factura tiene complementos de pago timbrados; cancélalos antes de cancelar la factura');
+    }
+
+    if (motive === '01') {
+      const replacement = await this.createReplacementDraft(invoice, options.replacementInvoiceNumber);
+      const updated = await this.updateInvoice(invoiceId, {
+        cancellationStatus: 'pending_substitute',
+        cancellationMotive: '01',
+        cancellationError: null,
+      });
+      console.log(`[Invoice CFDI] Replacement draft ${replacement.invoiceNumber} created for ${invoice.invoiceNumber}`);
+      return { invoice: updated, replacement };
+    }
+
+    return { invoice: await this.submitCancellation(invoice, motive) };
+  }
+
+  /**
+   * Crea un borrador copia de la factura (con sus conceptos) vinculado como sustituto
+   */
+  async createReplacementDraft(invoice: Invoice, invoiceNumber?: string): Promise<Invoice> {
+    const number = invoiceNumber?.trim() || await this.nextReplacementNumber(invoice.invoiceNumber);
+
+    const [existing] = await db.select({ id: invoices.id }).from(invoices).where(eq(invoices.invoiceNumber, number));
+    if (existing) {
+      throw new InvoiceCfdiError(`Ya existe una factura con el número ${number}`);
+    }
+
+    const {
+      id, createdAt, status, paidDate, amountPaid,
+      stampStatus, folioFiscal, facturamaCfdiId, stampedAt, stampError, xmlB2Key, pdfB2Key,
+      cancellationStatus, cancellationMotive, cancellationRequestedAt, cancelledAt, cancellationError, cancellationAcuseB2Key,
+      replacesInvoiceId, amountCredited, createdAutomatically, sourceInvoiceAttachmentId,
+      ...fiscalData
+    } = invoice;
+
+    const items = await storage.getInvoiceItems(invoice.id);
+
+    return await db.transaction(async (tx) => {
+      const [replacement] = await tx.insert(invoices).values({
+        ...fiscalData,
+        invoiceNumber: number,
+        status: 'draft',
+        replacesInvoiceId: invoice.id,
+      }).returning();
+
+      if (items.length > 0) {
+        await tx.insert(invoiceItems).values(items.map(({ id, createdAt, invoiceId, ...item }) => ({
+          ...item,
+          invoiceId: replacement.id,
+        })));
+      }
+
+      return replacement;
+    });
+  }
+
+  private async nextReplacementNumber(invoiceNumber: string): Promise<string> {
+    const taken = await db.select({ invoiceNumber: invoices.invoiceNumber })
+      .from(invoices)
+      .where(like(invoices.invoiceNumber, `${invoiceNumber}S%`));
+    const takenNumbers = new Set(taken.map(row => row.invoiceNumber));
+
+    let candidate = `${invoiceNumber}S`;
+    for (let n = 2; takenNumbers.has(candidate); n++) {
+      candidate = `${invoiceNumber}S${n}`;
+    }
+    return candidate;
+  }
+
+  /**
+   * Retira una cancelación con motivo 01 que aún espera su sustituta
+   */
+  async withdrawCancellation(invoiceId: string): Promise<Invoice> {
+    const invoice = await this.getInvoiceOrFail(invoiceId);
+    if (invoice.cancellationStatus !== 'pending_substitute') {
+      throw new InvoiceCfdiError('Solo se puede retirar una cancelación que espera factura sustituta');
+    }
+
+    // El borrador sustituto se conserva, pero deja de estar vinculado
+    await db.update(invoices)
+      .set({ replacesInvoiceId: null })
+      .where(and(eq(invoices.replacesInvoiceId, invoiceId), eq(invoices.stampStatus, 'not_stamped')));
+
+    return await this.updateInvoice(invoiceId, {
+      cancellationStatus: null,
+      cancellationMotive: null,
+      cancellationError: null,
+    });
+  }
+
+  /**
+   * Envía la solicitud de cancelación a Facturama y registra el resultado
+   */
+  async submitCancellation(invoice: Invoice, motive: string, substitutionUUID?: string): Promise<Invoice> {
+    if (!invoice.facturamaCfdiId) {
+      throw new InvoiceCfdiError('La factura no tiene ID de Facturama');
+    }
+
+    try {
+      const result = await cancelInvoiceInFacturama(invoice.facturamaCfdiId, motive, substitutionUUID);
+      return await this.applyCancellationResult(invoice, motive, result);
+    } catch (error: any) {
+      if (error instanceof InvoiceCfdiError) throw error;
+      await this.updateInvoice(invoice.id, {
+        cancellationMotive: motive,
+        cancellationError: error?.message || 'Error al cancelar en Facturama',
+      });
+      throw new InvoiceCfdiError(error?.message || 'Error al cancelar factura en Facturama');
+    }
+  }
+
+  private async applyCancellationResult(invoice: Invoice, motive: string, result: FacturamaCancellationResult): Promise<Invoice> {
+    const updates: Partial<Invoice> = {
+      cancellationStatus: result.status,
+      cancellationMotive: motive,
+      cancellationRequestedAt: invoice.cancellationRequestedAt || new Date(),
+      cancellationError: result.status === 'rejected'
+        ? result.message || 'El receptor rechazó la cancelación'
+        : null,
+    };
+
+    if (result.acuseXml && !invoice.cancellationAcuseB2Key && backblazeStorage.isAvailable()) {
+      try {
+        const upload = await backblazeStorage.uploadFile(Buffer.from(result.acuseXml, 'utf-8'), `invoices/${invoice.id}/cancellation`, {
+          originalName: `acuse-cancelacion-${invoice.folioFiscal}.xml`,
+          mimeType: 'application/xml',
+          category: 'cancellation_acuse',
+        });
+        updates.cancellationAcuseB2Key = upload.fileKey;
+      } catch (error) {
+        console.error('[Invoice CFDI] Error archiving cancellation acuse in B2:', error);
+      }
+    }
+
+    if (result.status === 'accepted') {
+      updates.status = 'cancelled';
+      updates.cancelledAt = new Date();
+    }
+
+    const updated = await this.updateInvoice(invoice.id, updates);
+
+    if (result.status === 'accepted' && motive === '01') {
+      await this.movePaymentsToReplacement(invoice.id);
+    }
+    // Una nota de crédito cancelada deja de reducir el saldo de la factura original
+    if (result.status === 'accepted' && invoice.relatedInvoiceId) {
+      await invoiceBalanceService.syncInvoiceStatus(db, invoice.relatedInvoiceId);
+    }
+
+    console.log(`[Invoice CFDI] Invoice ${invoice.invoiceNumber} cancellation ${result.status} (motivo ${motive})`);
+    return updated;
+  }
+
+  /**
+   * Al cancelarse por sustitución, los pagos recibidos pasan a la factura sustituta
+   */
+  private async movePaymentsToReplacement(invoiceId: string): Promise<void> {
+    const [replacement] = await db.select().from(invoices).where(eq(invoices.replacesInvoiceId, invoiceId));
+    if (!replacement) return;
+
+    const invoicePayments = await db.select().from(payments).where(eq(payments.invoiceId, invoiceId));
+    for (const payment of invoicePayments) {
+      await storage.updatePayment(payment.id, { invoiceId: replacement.id });
+    }
+
+    if (invoicePayments.length > 0) {
+      console.log(`[Invoice CFDI] ${invoicePayments.length} payment(s) moved to replacement ${replacement.invoiceNumber}`);
+    }
+  }
+
+  /**
+   * Consulta el estatus de una cancelación pendiente de aceptación del receptor.
+   * Solo consulta: la solicitud ya se envió y no se repite.
+   */
+  async refreshCancellationStatus(invoiceId: string): Promise<Invoice> {
+    const invoice = await this.getInvoiceOrFail(invoiceId);
+    if (invoice.cancellationStatus !== 'requested' || !invoice.cancellationMotive) {
+      return invoice;
+    }
+    if (!invoice.facturamaCfdiId || !invoice.folioFiscal) {
+      throw new InvoiceCfdiError('La factura no tiene ID de Facturama');
+    }
+
+    const [client] = await db.select().from(clients).where(eq(clients.id, invoice.clientId));
+
+    try {
+      const result = await getCancellationStatusInFacturama(invoice.facturamaCfdiId, {
+        uuid: invoice.folioFiscal,
+        issuerRfc: invoice.issuerRFC || '',
+        receiverRfc: invoice.recipientRFC || client?.rfc || '',
+        total: invoice.total,
+      });
+      return await this.applyCancellationResult(invoice, invoice.cancellationMotive, result);
+    } catch (error: any) {
+      if (error instanceof InvoiceCfdiError) throw error;
+      throw new InvoiceCfdiError(error?.message || 'Error al consultar la cancelación en Facturama');
+    }
+  }
+
+  async refreshPendingCancellations(): Promise<number> {
+    const pending = await db.select({ id: invoices.id })
+      .from(invoices)
+      .where(eq(invoices.cancellationStatus, 'requested'));
+
+    for (const { id } of pending) {
+      try {
+        await this.refreshCancellationStatus(id);
+      } catch (error) {
+        console.error(`[Invoice CFDI] Error refreshing cancellation of invoice ${id}:`, error);
+      }
+    }
+
+    return pending.length;
+  }
+
+  async getCancellationAcuse(invoiceId: string): Promise<Buffer> {
+    const invoice = await this.getInvoiceOrFail(invoiceId);
+    if (!invoice.cancellationAcuseB2Key) {
+      throw new InvoiceCfdiError('La factura no tiene acuse de cancelación');
+    }
+    return await backblazeStorage.downloadFile(invoice.cancellationAcuseB2Key);
+  }
+}
+
+// Instancia singleton
+export const invoiceCfdiService = new InvoiceCfdiService();
+
+// Auto-start function for background processing
+export function startInvoiceCfdiService() {
+  invoiceCfdiService.start();
+}
@@ -27,6 +27,18 @@ interface KnowledgeDocument {
   };
 }
 
+export interface EmailLinkingPattern {
+  pattern: string; // e.g. "matcher:booking@subject", "sender:acme.com"
+  method: 'subject' | 'content' | 'attachment_ocr' | 'sender_email' | 'combined';
+  tags?: string[]; // First tag identifies the pattern together with the text (e.g. "client:<id>")
+}
+
+export interface EmailLinkFeedback {
+  operationId: string | null; // Operation the message ended up linked to (null = unlinked)
+  confirmed: EmailLinkingPattern[];
+  rejected: EmailLinkingPattern[];
+}
+
 /**
  * Knowledge Base Service
  * Implements progressive learning system to reduce Gemini API usage
@@ -527,6 +539,162 @@ export class KnowledgeBaseService {
       return [];
     }
   }
+
+  /**
+   * 📧 EMAIL LINKING LEARNING SYSTEM
+   * Learn from confirmed, overridden and unlinked email→operation decisions
+   */
+
+  /**
+   * Record the outcome of a reviewed linking decision
+   * Confirmed patterns raise their success rate; rejected patterns lower it
+   */
+  async learnFromEmailLinkReview(feedback: EmailLinkFeedback): Promise<void> {
+    try {
+      for (const pattern of feedback.confirmed) {
+        await this.recordEmailLinkingOutcome(pattern, true, feedback.operationId);
+      }
+      for (const pattern of feedback.rejected) {
+        await this.recordEmailLinkingOutcome(pattern, false, feedback.operationId);
+      }
+
+      console.log(`[Knowledge] 📧 Learned from email link review (${feedback.confirmed.length} confirmed, ${feedback.rejected.length} rejected)`);
+    } catch (error: any) {
+      console.error('[Knowledge] Error learning from email link review:', error);
+    }
+  }
+
+  private async recordEmailLinkingOutcome(pattern: EmailLinkingPattern, success: boolean, operationId: string | null): Promise<void> {
+    const tag = pattern.tags?.[0];
+    const [existing] = await db.select().from(knowledgeBase)
+      .where(
+        and(
+          eq(knowledgeBase.type, 'email_linking'),
+          eq(knowledgeBase.linkingPattern, pattern.pattern),
+          tag ? sql`${tag} = ANY(${knowledgeBase.tags})` : sql`true`
+        )
+      )
+      .limit(1);
+
+    const sample = success ? 100 : 0;
+
+    if (existing) {
+      await db.update(knowledgeBase)
+        .set({
+          usageCount: sql`${knowledgeBase.usageCount} + 1`,
+          qualityScore: success
+            ? sql`LEAST(${knowledgeBase.qualityScore} + 1, 10)`
+            : sql`GREATEST(${knowledgeBase.qualityScore} - 1, 1)`,
+          successRate: sql`((COALESCE(${knowledgeBase.successRate}, 0) * ${knowledgeBase.usageCount} + ${sample}) / (${knowledgeBase.usageCount} + 1))`,
+          lastUsedAt: new Date()
+        })
+        .where(eq(knowledgeBase.id, existing.id));
+      return;
+    }
+
+    const knowledgeDoc = {
+      pattern,
+      success,
+      operationId,
+      learnedAt: new Date()
+    };
+
+    const filename = `email-linking-pattern-${Date.now()}.json`;
+    const buffer = Buffer.from(JSON.stringify(knowledgeDoc, null, 2), 'utf-8');
+
+    const uploadResult = await backblazeStorage.uploadOperationFile(
+      buffer,
+      filename,
+      'application/json',
+      operationId || '00000000-0000-0000-0000-000000000000', // System placeholder
+      'system',
+      'email-linking-learning'
+    );
+
+    await db.insert(knowledgeBase).values({
+      type: 'email_linking',
+      b2Key: uploadResult.fileKey,
+      linkingPattern: pattern.pattern,
+      linkingMethod: pattern.method,
+      successRate: String(sample),
+      tags: pattern.tags || [],
+      usageCount: 1,
+      qualityScore: success ? 7 : 3,
+    });
+  }
+
+  /**
+   * Sender domains learned from reviews that always pointed to the same client
+   * Returns domain → clientId, skipping domains shared by several clients (carriers, agents)
+   */
+  async getLearnedSenderDomains(minSuccessRate: number = 50): Promise<Map<string, string>> {
+    try {
+      const patterns = await db.select().from(knowledgeBase)
+        .where(
+          and(
+            eq(knowledgeBase.type, 'email_linking'),
+            eq(knowledgeBase.linkingMethod, 'sender_email'),
+            sql`${knowledgeBase.successRate} >= ${minSuccessRate}`
+          )
+        );
+
+      const clientsByDomain = new Map<string, Set<string>>();
+      for (const pattern of patterns) {
+        const domain = pattern.linkingPattern?.replace(/^sender:/, '');
+        const clientTag = pattern.tags?.find(tag => tag.startsWith('client:'));
+        if (!domain || !clientTag) continue;
+        const clients = clientsByDomain.get(domain) || new Set<string>();
+        clients.add(clientTag.replace(/^client:/, ''));
+        clientsByDomain.set(domain, clients);
+      }
+
+      const learned = new Map<string, string>();
+      for (const [domain, clients] of Array.from(clientsByDomain.entries())) {
+        if (clients.size === 1) {
+          learned.set(domain, Array.from(clients)[0]);
+        }
+      }
+      return learned;
+    } catch (error: any) {
+      console.error('[Knowledge] Error getting learned sender domains:', error);
+      return new Map();
+    }
+  }
+
+  /**
+   * Reviewed accuracy per linking matcher, aggregated over every location it matched in
+   */
+  async getEmailLinkingAccuracy(): Promise<Map<string, { successRate: number; reviews: number }>> {
+    const accuracy = new Map<string, { successRate: number; reviews: number }>();
+    try {
+      const patterns = await db.select().from(knowledgeBase)
+        .where(
+          and(
+            eq(knowledgeBase.type, 'email_linking'),
+            sql`${knowledgeBase.linkingPattern} LIKE 'matcher:%'`
+          )
+        );
+
+      const totals = new Map<string, { weighted: number; reviews: number }>();
+      for (const pattern of patterns) {
+        const matcherKey = pattern.linkingPattern!.replace(/^matcher:/, '').split('@')[0];
+        const total = totals.get(matcherKey) || { weighted: 0, reviews: 0 };
+        total.weighted += parseFloat(pattern.successRate?.toString() || '0') * pattern.usageCount;
+        total.reviews += pattern.usageCount;
+        totals.set(matcherKey, total);
+      }
+
+      for (const [matcherKey, total] of Array.from(totals.entries())) {
+        accuracy.set(matcherKey, {
+          successRate: total.reviews > 0 ? Math.round(total.weighted / total.reviews) : 0,
+          reviews: total.reviews,
+        });
+      }
+    } catch (error: any) {
+      console.error('[Knowledge] Error getting email linking accuracy:', error);
+    }
+    return accuracy;
+  }
 }
 
 export const knowledgeBaseService = new KnowledgeBaseService();
@@ -0,0 +1,170 @@
+/**
+ * Location Service - Catálogo de ubicaciones UN/LOCODE y rutas de las operaciones
+ *
+ * Las operaciones guardan origen, destino y puertos de transbordo como referencias a
+ * `locations`. El mapa agrupa las operaciones por ruta comercial (lane: origen → destino)
+ * y dibuja cada una por sus transbordos cuando tienen coordenadas.
+ */
+
+import { db } from './db';
+import { eq, and, or, ilike, inArray, isNotNull, sql, desc, asc } from 'drizzle-orm';
+import { locations, operations, clients } from '@shared/schema';
+import type { Location, InsertLocation } from '@shared/schema';
+import { normalizeLocationName } from './unlocode-parser';
+
+const IMPORT_BATCH_SIZE = 500;
+
+export type LocationKind = 'seaport' | 'airport' | 'inland';
+
+export interface LocationSearchOptions {
+  kind?: LocationKind;
+  limit?: number;
+}
+
+export interface RouteOperation {
+  id: string;
+  name: string;
+  status: string;
+  shippingMode: string;
+  operationType: string;
+  clientName: string | null;
+  eta: Date | null;
+  transshipments: Location[];
+}
+
+export interface OperationLane {
+  key: string; // "CNSHA-MXZLO"; "?" del lado desconocido
+  origin: Location | null;
+  destination: Location | null;
+  operations: RouteOperation[];
+}
+
+export class LocationService {
+  /**
+   * Inserta o actualiza (por UN/LOCODE) las ubicaciones de un archivo
+   */
+  async importLocations(rows: InsertLocation[]): Promise<number> {
+    let imported = 0;
+    for (let i = 0; i < rows.length; i += IMPORT_BATCH_SIZE) {
+      const batch = rows.slice(i, i + IMPORT_BATCH_SIZE);
+      await db.insert(locations)
+        .values(batch)
+        .onConflictDoUpdate({
+          target: locations.unlocode,
+          set: {
+            countryCode: sql`excluded.country_code`,
+            name: sql`excluded.name`,
+            nameAscii: sql`excluded.name_ascii`,
+            subdivision: sql`excluded.subdivision`,
+            functions: sql`excluded.functions`,
+            isSeaport: sql`excluded.is_seaport`,
+            isAirport: sql`excluded.is_airport`,
+            isInlandDepot: sql`excluded.is_inland_depot`,
+            iataCode: sql`excluded.iata_code`,
+            // Se conservan coordenadas capturadas a mano si el archivo no trae
+            latitude: sql`COALESCE(excluded.latitude, ${locations.latitude})`,
+            longitude: sql`COALESCE(excluded.longitude, ${locations.longitude})`,
+            updatedAt: new Date(),
+          },
+        });
+      imported += batch.length;
+    }
+    return imported;
+  }
+
+  /**
+   * Autocompletado por código UN/LOCODE, código IATA o nombre
+   */
+  async search(query: string, options: LocationSearchOptions = {}): Promise<Location[]> {
+    const term = query.trim();
+    if (term.length < 2) return [];
+
+    const code = term.toUpperCase().replace(/[^A-Z0-9]/g, '');
+    const name = normalizeLocationName(term);
+    const kindCondition = options.kind === 'seaport' ? eq(locations.isSeaport, true)
+      : options.kind === 'airport' ? eq(locations.isAirport, true)
+      : options.kind === 'inland' ? eq(locations.isInlandDepot, true)
+      : undefined;
+
+    const matches = or(
+      ilike(locations.unlocode, `${code}%`),
+      eq(locations.iataCode, code),
+      ilike(locations.nameAscii, `%${name}%`),
+    );
+
+    return await db.select().from(locations)
+      .where(and(matches, kindCondition))
+      .orderBy(
+        desc(sql`${locations.unlocode} = ${code}`),
+        desc(sql`${locations.nameAscii} LIKE ${name + '%'}`),
+        desc(locations.isSeaport),
+        desc(locations.isAirport),
+        asc(locations.name),
+      )
+      .limit(Math.min(options.limit || 20, 50));
+  }
+
+  async getByIds(ids: string[]): Promise<Location[]> {
+    const unique = Array.from(new Set(ids.filter(Boolean)));
+    if (unique.length === 0) return [];
+    return await db.select().from(locations).where(inArray(locations.id, unique));
+  }
+
+  async getLocation(id: string): Promise<Location | undefined> {
+    const [location] = await db.select().from(locations).where(eq(locations.id, id));
+    return location;
+  }
+
+  /**
+   * Operaciones con origen o destino conocido, agrupadas por lane
+   */
+  async getOperationLanes(): Promise<OperationLane[]> {
+    const rows = await db.select({
+      id: operations.id,
+      name: operations.name,
+      status: operations.status,
+      shippingMode: operations.shippingMode,
+      operationType: operations.operationType,
+      eta: operations.eta,
+      originLocationId: operations.originLocationId,
+      destinationLocationId: operations.destinationLocationId,
+      transshipmentLocationIds: operations.transshipmentLocationIds,
+      clientName: clients.name,
+    })
+      .from(operations)
+      .leftJoin(clients, eq(clients.id, operations.clientId))
+      .where(or(isNotNull(operations.originLocationId), isNotNull(operations.destinationLocationId)));
+
+    const locationIds = rows.flatMap(row => [row.originLocationId, row.destinationLocationId, ...(row.transshipmentLocationIds || [])])
+      .filter((id): id is string => !!id);
+    const locationMap = new Map((await this.getByIds(locationIds)).map(location => [location.id, location]));
+
+    const lanes = new Map<string, OperationLane>();
+    for (const row of rows) {
+      const origin = row.originLocationId ? locationMap.get(row.originLocationId) || null : null;
+      const destination = row.destinationLocationId ? locationMap.get(row.destinationLocationId) || null : null;
+      if (!origin && !destination) continue;
+
+      const key = `${origin?.unlocode || '?'}-${destination?.unlocode || '?'}`;
+      const lane = lanes.get(key) || { key, origin, destination, operations: [] };
+      lane.operations.push({
+        id: row.id,
+        name: row.name,
+        status: row.status,
+        shippingMode: row.shippingMode,
+        operationType: row.operationType,
+        clientName: row.clientName,
+        eta: row.eta,
+        transshipments: (row.transshipmentLocationIds || [])
+          .map(id => locationMap.get(id))
+          .filter((location): location is Location => !!location),
+      });
+      lanes.set(key, lane);
+    }
+
+    return Array.from(lanes.values()).sort((a, b) => b.operations.length - a.operations.length);
+  }
+}
+
+// Instancia singleton
+export const locationService = new LocationService();
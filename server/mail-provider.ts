@@ -0,0 +1,220 @@
+/**
+ * Mail Provider - Abstracción sobre los proveedores de correo de una cuenta
+ *
+ * Cada cuenta de `gmailAccounts` tiene un `provider` (Gmail vía API + OAuth o IMAP/SMTP
+ * con usuario y contraseña). Los proveedores solo saben leer y enviar en su protocolo;
+ * todos entregan los mensajes como `ParsedMailMessage` a `storeParsedMessage`, que aplica
+ * el filtro de spam y guarda en `gmailMessages`/`gmailAttachments`. Así la vinculación a
+ * operaciones, la cola de adjuntos y las automatizaciones no dependen del proveedor.
+ */
+
+import { storage } from './storage';
+import { backblazeStorage } from './backblazeStorage';
+import { SpamFilter, type SpamFilterRule } from './spam-filter';
+import { spamRuleService } from './spam-rule-service';
+import { AttachmentFilter } from './attachment-filter';
+import type { GmailAccount, InsertGmailAccount } from '@shared/schema';
+
+export type MailProviderType = 'gmail' | 'imap';
+
+// Resultado de importar un mensaje a la base de datos
+export type ImportResult = 'synced' | 'spam' | 'exists';
+
+export interface SyncCounts {
+  processed: number;
+  synced: number;
+  spam: number;
+}
+
+export interface ParsedMailAttachment {
+  attachmentId: string; // Identificador del proveedor para descargarlo después (lazy loading)
+  filename: string;
+  mimeType: string;
+  size: number;
+  isInline: boolean;
+}
+
+export interface ParsedMailMessage {
+  messageId: string; // Único entre cuentas (gmailMessages.messageId)
+  threadId: string;
+  subject: string;
+  fromEmail: string;
+  fromName: string;
+  toEmails: string[];
+  ccEmails: string[];
+  bccEmails: string[];
+  date: Date;
+  snippet: string | null;
+  bodyText: string;
+  bodyHtml: string;
+  labelIds: string[]; // Etiquetas al estilo Gmail: INBOX, SENT, UNREAD, STARRED, IMPORTANT
+  headers: Record<string, string>; // Nombres en minúsculas
+  internalDate: string | null;
+  attachments: ParsedMailAttachment[];
+}
+
+export interface ReplyHeaders {
+  messageId: string; // Message-ID del correo original
+  references: string;
+}
+
+export interface SendOptions {
+  recipients: string[]; // To + Cc + Bcc (sobre SMTP)
+  threadId?: string; // Hilo del correo que se responde
+}
+
+export interface SentMailResult {
+  messageId: string;
+  threadId: string;
+  labels: string[];
+}
+
+export interface MailProvider {
+  /**
+   * Aplica los cambios del buzón desde el último checkpoint de la cuenta y devuelve los
+   * campos de la cuenta que hay que guardar (historyId, estado por carpeta...)
+   */
+  sync(account: GmailAccount, counts: SyncCounts, spamRules: SpamFilterRule[]): Promise<Partial<InsertGmailAccount>>;
+  /** Vuelve a importar un mensaje concreto (p. ej. al marcarlo como "no es spam") */
+  reimportMessage(account: GmailAccount, messageId: string, spamRules: SpamFilterRule[]): Promise<ImportResult>;
+  /** Contenido de un adjunto en base64 */
+  getAttachmentData(account: GmailAccount, messageId: string, attachmentId: string): Promise<string>;
+  /** Encabezados para responder dentro de la misma conversación */
+  getReplyHeaders(account: GmailAccount, messageId: string): Promise<ReplyHeaders | null>;
+  /** Envía un mensaje MIME ya construido */
+  sendMessage(account: GmailAccount, raw: string, options: SendOptions): Promise<SentMailResult>;
+}
+
+/**
+ * Estado derivado de las etiquetas (leído, destacado, importante)
+ */
+export function getLabelState(labelIds: string[]) {
+  return {
+    labels: labelIds.length > 0 ? labelIds : null,
+    isRead: !labelIds.includes('UNREAD'),
+    isStarred: labelIds.includes('STARRED'),
+    isImportant: labelIds.includes('IMPORTANT'),
+  };
+}
+
+/**
+ * Aplica el filtro de spam y guarda el mensaje con la metadata de sus adjuntos
+ * (el proveedor ya comprobó que no existía)
+ */
+export async function storeParsedMessage(accountId: string, message: ParsedMailMessage, spamRules: SpamFilterRule[]): Promise<ImportResult> {
+  const { messageId, fromEmail, fromName, subject, bodyText, bodyHtml } = message;
+  const labelState = getLabelState(message.labelIds);
+
+  // Aplicar filtro de spam inteligente (reglas de la cuenta y globales primero)
+  const spamCheck = SpamFilter.getFilterStats({
+    fromEmail,
+    fromName,
+    subject,
+    bodyText,
+    bodyHtml,
+    labels: message.labelIds,
+    headers: message.headers,
+  }, spamRules);
+
+  if (spamCheck.ruleId) {
+    await spamRuleService.recordRuleHit(spamCheck.ruleId);
+  }
+
+  // Si es spam, saltar este correo (pero registrar la acción para poder revisarlo)
+  if (spamCheck.isSpam) {
+    console.log(`[SPAM FILTERED] ${fromEmail} - "${subject}" | Reason: ${spamCheck.reason} (Confidence: ${spamCheck.confidence})`);
+    await spamRuleService.recordFilteredMessage({
+      gmailAccountId: accountId,
+      messageId,
+      threadId: message.threadId || null,
+      fromEmail,
+      fromName,
+      subject: subject || null,
+      date: message.date,
+      reason: spamCheck.reason,
+      confidence: spamCheck.confidence,
+      spamRuleId: spamCheck.ruleId,
+    });
+    return 'spam'; // No guardar este correo
+  }
+
+  // Store email body in Backblaze B2 (if configured)
+  let bodyTextB2Key: string | undefined;
+  let bodyHtmlB2Key: string | undefined;
+
+  if (backblazeStorage.isAvailable()) {
+    try {
+      const b2Keys = await backblazeStorage.uploadEmailBody(
+        messageId,
+        bodyText || null,
+        bodyHtml || null
+      );
+      bodyTextB2Key = b2Keys.textKey;
+      bodyHtmlB2Key = b2Keys.htmlKey;
+      console.log(`Stored email body in Backblaze: ${messageId}`);
+    } catch (error) {
+      console.error(`Error storing email body in Backblaze for ${messageId}:`, error);
+      // Continue without Backblaze if there's an error
+    }
+  }
+
+  const createdMessage = await storage.createGmailMessage({
+    gmailAccountId: accountId,
+    messageId,
+    threadId: message.threadId || messageId,
+    subject,
+    fromEmail,
+    fromName,
+    toEmails: message.toEmails,
+    ccEmails: message.ccEmails.length > 0 ? message.ccEmails : null,
+    bccEmails: message.bccEmails.length > 0 ? message.bccEmails : null,
+    date: message.date,
+    snippet: message.snippet,
+    bodyText: bodyTextB2Key ? null : (bodyText || null), // Fall back to DB if B2 not configured
+    bodyHtml: bodyHtmlB2Key ? null : (bodyHtml || null), // Fall back to DB if B2 not configured
+    bodyTextB2Key: bodyTextB2Key || null,
+    bodyHtmlB2Key: bodyHtmlB2Key || null,
+    hasAttachments: message.attachments.length > 0,
+    ...labelState,
+    internalDate: message.internalDate,
+  });
+
+  for (const attachment of message.attachments) {
+    // Filtrar attachments innecesarios (firmas, logos inline, tracking pixels)
+    const shouldIgnore = AttachmentFilter.shouldIgnoreAttachment({
+      filename: attachment.filename,
+      mimeType: attachment.mimeType,
+      size: attachment.size,
+      isInline: attachment.isInline,
+    });
+
+    if (shouldIgnore) {
+      // Saltar este attachment - no descargarlo ni almacenarlo
+      continue;
+    }
+
+    // 🎯 LAZY LOADING: Solo guardar metadata, NO descargar archivos aún
+    // Los archivos se descargarán cuando:
+    // 1. Email se vincule a operación (automático)
+    // 2. Automatizaciones lo necesiten (Facturama, pagos, etc.)
+    // 3. Usuario haga clic en el archivo (on-demand)
+
+    await storage.createGmailAttachment({
+      gmailMessageId: createdMessage.id,
+      attachmentId: attachment.attachmentId,
+      filename: attachment.filename,
+      mimeType: attachment.mimeType,
+      size: attachment.size,
+      data: null, // No descargar en sync - lazy loading
+      b2Key: null, // Se llenará cuando se descargue
+      fileHash: null, // Se llenará cuando se descargue
+      isInline: attachment.isInline,
+      extractedText: null, // Se llenará cuando se descargue
+      extractedTextB2Key: null, // Se llenará cuando se descargue
+    });
+
+    console.log(`📋 Metadata saved for attachment: ${attachment.filename} (${attachment.size / 1024} KB) - lazy loading enabled`);
+  }
+
+  return 'synced';
+}
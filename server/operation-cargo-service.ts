@@ -0,0 +1,106 @@
+/**
+ * Operation Cargo Service - Contenedores y líneas de carga de una operación
+ *
+ * Los contenedores se guardan con su número ISO 6346 normalizado (ya validado con el dígito
+ * verificador), para que el vinculador de correos y la automatización ubiquen la operación
+ * por contenedor. Las líneas guardan su volumen calculado (dimensiones × bultos cuando se
+ * capturan); los totales y el peso tasable aéreo (1:6000) se calculan al leer.
+ */
+
+import { db } from './db';
+import { eq, asc, inArray, and, isNotNull } from 'drizzle-orm';
+import { operationContainers, operationCargoLines } from '@shared/schema';
+import type { OperationContainer, OperationCargoLine, OperationCargoInput } from '@shared/schema';
+import { cargoLineVolumeCbm, computeCargoTotals, type CargoTotals } from '@shared/cargo';
+import { normalizeContainerNumber } from '@shared/container-number';
+
+export interface OperationCargo {
+  containers: OperationContainer[];
+  lines: OperationCargoLine[];
+  totals: CargoTotals;
+}
+
+export class OperationCargoService {
+  async getCargo(operationId: string): Promise<OperationCargo> {
+    const containers = await db.select().from(operationContainers)
+      .where(eq(operationContainers.operationId, operationId))
+      .orderBy(asc(operationContainers.sortOrder));
+    const lines = await db.select().from(operationCargoLines)
+      .where(eq(operationCargoLines.operationId, operationId))
+      .orderBy(asc(operationCargoLines.sortOrder));
+
+    return { containers, lines, totals: computeCargoTotals(lines) };
+  }
+
+  /**
+   * Reemplaza contenedores y líneas de la operación
+   */
+  async replaceCargo(operationId: string, cargo: OperationCargoInput): Promise<OperationCargo> {
+    await db.transaction(async (tx) => {
+      await tx.delete(operationCargoLines).where(eq(operationCargoLines.operationId, operationId));
+      await tx.delete(operationContainers).where(eq(operationContainers.operationId, operationId));
+
+      const containers = cargo.containers.length === 0 ? [] : await tx.insert(operationContainers)
+        .values(cargo.containers.map((container, index) => ({ ...container, operationId, sortOrder: index })))
+        .returning();
+      const containerIds = new Map(containers.map(container => [container.sortOrder, container.id]));
+
+      if (cargo.lines.length === 0) return;
+      await tx.insert(operationCargoLines).values(cargo.lines.map(({ containerIndex, ...line }, index) => ({
+        ...line,
+        operationId,
+        containerId: containerIndex != null ? containerIds.get(containerIndex) || null : null,
+        volumeCbm: cargoLineVolumeCbm(line).toFixed(3),
+        sortOrder: index,
+      })));
+    });
+
+    return await this.getCargo(operationId);
+  }
+
+  /**
+   * Operaciones que tienen registrado cada número de contenedor
+   */
+  async findOperationsByContainers(containerNumbers: string[]): Promise<Map<string, string[]>> {
+    const numbers = Array.from(new Set(containerNumbers.map(normalizeContainerNumber)));
+    const result = new Map<string, string[]>();
+    if (numbers.length === 0) return result;
+
+    const rows = await db.select({
+      containerNumber: operationContainers.containerNumber,
+      operationId: operationContainers.operationId,
+    })
+      .from(operationContainers)
+      .where(and(isNotNull(operationContainers.containerNumber), inArray(operationContainers.containerNumber, numbers)));
+
+    for (const row of rows) {
+      const operationIds = result.get(row.containerNumber!) || [];
+      if (!operationIds.includes(row.operationId)) operationIds.push(row.operationId);
+      result.set(row.containerNumber!, operationIds);
+    }
+    return result;
+  }
+
+  /**
+   * Registra contenedores detectados (p. ej. en el correo que creó la operación) sin duplicar
+   */
+  async addContainers(operationId: string, containerNumbers: string[]): Promise<OperationContainer[]> {
+    const existing = await db.select().from(operationContainers)
+      .where(eq(operationContainers.operationId, operationId));
+    const known = new Set(existing.map(container => container.containerNumber));
+    const numbers = Array.from(new Set(containerNumbers.map(normalizeContainerNumber)))
+      .filter(number => !known.has(number));
+    if (numbers.length === 0) return [];
+
+    return await db.insert(operationContainers)
+      .values(numbers.map((containerNumber, index) => ({
+        operationId,
+        containerNumber,
+        sortOrder: existing.length + index,
+      })))
+      .returning();
+  }
+}
+
+// Instancia singleton
+export const operationCargoService = new OperationCargoService();
@@ -0,0 +1,272 @@
+/**
+ * Operation Milestone Service - Línea de tiempo de hitos del embarque
+ *
+ * Cada cambio de fecha planeada, estimada o real queda en `operation_milestone_changes`
+ * con su origen (manual, correo, IA), así no se pierde la historia de las ETAs. Los hitos
+ * de recolección, zarpe y arribo mantienen al día `pickUpDate`, `etd` y `eta` de la
+ * operación (real, si no estimada, si no planeada), y al revés: editar esas fechas en la
+ * operación registra un nuevo estimado del hito.
+ *
+ * Las alertas de retraso se calculan al leer: un hito retrasado o vencido alerta hasta que
+ * alguien la descarta, y vuelve a alertar si el retraso crece más allá de la holgura.
+ */
+
+import { db } from './db';
+import { eq, and, inArray, notInArray, isNull, desc } from 'drizzle-orm';
+import { operations, operationMilestones, operationMilestoneChanges } from '@shared/schema';
+import type { Operation, OperationMilestone, OperationMilestoneChange, InsertOperationMilestone } from '@shared/schema';
+import {
+  MILESTONE_TYPES,
+  MILESTONE_DELAY_TOLERANCE_MINUTES,
+  OPERATION_DATE_MILESTONES,
+  getMilestoneDelay,
+  type MilestoneDelay,
+  type MilestoneSource,
+  type MilestoneType,
+} from '@shared/milestones';
+
+// Operaciones cuyos hitos ya no alertan
+const CLOSED_OPERATION_STATUSES = ['completed', 'cancelled'];
+
+const DATE_FIELDS = ['plannedAt', 'estimatedAt', 'actualAt'] as const;
+type DateField = typeof DATE_FIELDS[number];
+
+export class MilestoneError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'MilestoneError';
+    Object.setPrototypeOf(this, MilestoneError.prototype);
+  }
+}
+
+export interface TimelineMilestone extends OperationMilestone, MilestoneDelay {
+  alert: boolean; // Retraso vigente sin descartar
+  changes: OperationMilestoneChange[]; // Más reciente primero
+}
+
+export interface MilestoneDelayAlert extends TimelineMilestone {
+  operationName: string;
+}
+
+export type MilestoneInput = Omit<InsertOperationMilestone, 'operationId' | 'source' | 'sourceGmailMessageId'>;
+
+export interface MilestoneChangeContext {
+  userId: string | null;
+  source: MilestoneSource;
+  sourceGmailMessageId?: string | null;
+}
+
+function sameTime(a: Date | null | undefined, b: Date | null | undefined): boolean {
+  return (a ? new Date(a).getTime() : null) === (b ? new Date(b).getTime() : null);
+}
+
+function typeOrder(milestoneType: string): number {
+  const index = MILESTONE_TYPES.findIndex(type => type.code === milestoneType);
+  return index === -1 ? MILESTONE_TYPES.length : index;
+}
+
+function milestoneTime(milestone: OperationMilestone): number {
+  const date = milestone.actualAt || milestone.estimatedAt || milestone.plannedAt;
+  return date ? new Date(date).getTime() : Number.MAX_SAFE_INTEGER;
+}
+
+function isAlerting(milestone: OperationMilestone, delay: MilestoneDelay): boolean {
+  if (delay.status !== 'delayed' && delay.status !== 'overdue') return false;
+  if (milestone.delayAcknowledgedMinutes === null) return true;
+  return delay.delayMinutes - milestone.delayAcknowledgedMinutes >= MILESTONE_DELAY_TOLERANCE_MINUTES;
+}
+
+export class OperationMilestoneService {
+  /**
+   * Hitos de la operación en el orden del embarque, con retraso e historial
+   */
+  async getTimeline(operationId: string): Promise<TimelineMilestone[]> {
+    const milestones = await db.select().from(operationMilestones)
+      .where(eq(operationMilestones.operationId, operationId));
+    return await this.withDelays(milestones);
+  }
+
+  /**
+   * Hitos con alerta de retraso vigente en operaciones abiertas
+   */
+  async getDelayAlerts(): Promise<MilestoneDelayAlert[]> {
+    const rows = await db.select({ milestone: operationMilestones, operationName: operations.name })
+      .from(operationMilestones)
+      .innerJoin(operations, eq(operations.id, operationMilestones.operationId))
+      .where(and(
+        notInArray(operations.status, CLOSED_OPERATION_STATUSES),
+        isNull(operationMilestones.actualAt),
+      ));
+
+    const operationNames = new Map(rows.map(row => [row.milestone.id, row.operationName]));
+    const timeline = await this.withDelays(rows.map(row => row.milestone));
+    return timeline
+      .filter(milestone => milestone.alert)
+      .map(milestone => ({ ...milestone, operationName: operationNames.get(milestone.id) || '' }))
+      .sort((a, b) => b.delayMinutes - a.delayMinutes);
+  }
+
+  async createMilestone(operationId: string, input: MilestoneInput, context: MilestoneChangeContext): Promise<OperationMilestone> {
+    const type = MILESTONE_TYPES.find(t => t.code === input.milestoneType);
+    if (!type?.repeatable) {
+      const [existing] = await db.select({ id: operationMilestones.id }).from(operationMilestones)
+        .where(and(eq(operationMilestones.operationId, operationId), eq(operationMilestones.milestoneType, input.milestoneType)));
+      if (existing) {
+        throw new MilestoneError(`La operación ya tiene el hito "${type?.label || input.milestoneType}"`);
+      }
+    }
+
+    const [milestone] = await db.insert(operationMilestones).values({
+      ...input,
+      operationId,
+      source: context.source,
+      sourceGmailMessageId: context.sourceGmailMessageId || null,
+    }).returning();
+
+    await this.recordChanges(milestone.id, {}, milestone, context);
+    await this.syncOperationDate(milestone);
+    return milestone;
+  }
+
+  async updateMilestone(id: string, updates: Partial<MilestoneInput>, context: MilestoneChangeContext): Promise<OperationMilestone | undefined> {
+    const [current] = await db.select().from(operationMilestones).where(eq(operationMilestones.id, id));
+    if (!current) return undefined;
+
+    const { milestoneType, ...fields } = updates;
+    if (milestoneType && milestoneType !== current.milestoneType) {
+      throw new MilestoneError('No se puede cambiar el tipo de un hito; elimínalo y crea otro');
+    }
+
+    const [milestone] = await db.update(operationMilestones)
+      .set({
+        ...fields,
+        source: context.source,
+        sourceGmailMessageId: context.sourceGmailMessageId || null,
+        updatedAt: new Date(),
+      })
+      .where(eq(operationMilestones.id, id))
+      .returning();
+
+    await this.recordChanges(id, current, milestone, context);
+    await this.syncOperationDate(milestone);
+    return milestone;
+  }
+
+  /**
+   * Registra fechas para un tipo de hito: actualiza el existente (si no es repetible) o lo crea
+   */
+  async upsertMilestone(operationId: string, input: MilestoneInput, context: MilestoneChangeContext): Promise<OperationMilestone> {
+    const type = MILESTONE_TYPES.find(t => t.code === input.milestoneType);
+    if (!type?.repeatable) {
+      const [existing] = await db.select({ id: operationMilestones.id }).from(operationMilestones)
+        .where(and(eq(operationMilestones.operationId, operationId), eq(operationMilestones.milestoneType, input.milestoneType)));
+      if (existing) {
+        const { milestoneType, ...updates } = input;
+        const defined = Object.fromEntries(Object.entries(updates).filter(([, value]) => value !== undefined));
+        return (await this.updateMilestone(existing.id, defined, context))!;
+      }
+    }
+    return await this.createMilestone(operationId, input, context);
+  }
+
+  async deleteMilestone(id: string): Promise<boolean> {
+    const deleted = await db.delete(operationMilestones).where(eq(operationMilestones.id, id)).returning();
+    return deleted.length > 0;
+  }
+
+  /**
+   * Descarta la alerta de retraso hasta que el retraso crezca más allá de la holgura
+   */
+  async acknowledgeDelay(id: string, userId: string): Promise<OperationMilestone | undefined> {
+    const [current] = await db.select().from(operationMilestones).where(eq(operationMilestones.id, id));
+    if (!current) return undefined;
+
+    const [milestone] = await db.update(operationMilestones)
+      .set({ delayAcknowledgedMinutes: getMilestoneDelay(current).delayMinutes, delayAcknowledgedBy: userId })
+      .where(eq(operationMilestones.id, id))
+      .returning();
+    return milestone;
+  }
+
+  /**
+   * Fechas de recolección / ETD / ETA editadas en la operación: se vuelven el plan del hito
+   * si aún no tiene, o un nuevo estimado
+   */
+  async recordOperationDates(previous: Operation, operation: Operation, userId: string | null): Promise<void> {
+    for (const [milestoneType, field] of Object.entries(OPERATION_DATE_MILESTONES) as [MilestoneType, 'pickUpDate' | 'etd' | 'eta'][]) {
+      const value = operation[field];
+      if (!value || sameTime(previous[field], value)) continue;
+
+      const [existing] = await db.select().from(operationMilestones)
+        .where(and(eq(operationMilestones.operationId, operation.id), eq(operationMilestones.milestoneType, milestoneType)));
+      const context: MilestoneChangeContext = { userId, source: 'manual' };
+
+      if (!existing) {
+        await this.createMilestone(operation.id, { milestoneType, plannedAt: value }, context);
+      } else if (!existing.plannedAt) {
+        await this.updateMilestone(existing.id, { plannedAt: value }, context);
+      } else if (!existing.actualAt && !sameTime(existing.estimatedAt || existing.plannedAt, value)) {
+        await this.updateMilestone(existing.id, { estimatedAt: value }, context);
+      }
+    }
+  }
+
+  private async recordChanges(
+    milestoneId: string,
+    previous: Partial<Pick<OperationMilestone, DateField>>,
+    milestone: OperationMilestone,
+    context: MilestoneChangeContext,
+  ): Promise<void> {
+    const changes = DATE_FIELDS
+      .filter(field => !sameTime(previous[field], milestone[field]))
+      .map(field => ({
+        milestoneId,
+        field,
+        previousValue: previous[field] || null,
+        newValue: milestone[field],
+        source: context.source,
+        sourceGmailMessageId: context.sourceGmailMessageId || null,
+        changedBy: context.userId,
+      }));
+
+    if (changes.length > 0) {
+      await db.insert(operationMilestoneChanges).values(changes);
+    }
+  }
+
+  private async syncOperationDate(milestone: OperationMilestone): Promise<void> {
+    const field = OPERATION_DATE_MILESTONES[milestone.milestoneType as MilestoneType];
+    const date = milestone.actualAt || milestone.estimatedAt || milestone.plannedAt;
+    if (!field || !date) return;
+
+    await db.update(operations).set({ [field]: date }).where(eq(operations.id, milestone.operationId));
+  }
+
+  private async withDelays(milestones: OperationMilestone[]): Promise<TimelineMilestone[]> {
+    const ids = milestones.map(milestone => milestone.id);
+    const changes = ids.length === 0 ? [] : await db.select().from(operationMilestoneChanges)
+      .where(inArray(operationMilestoneChanges.milestoneId, ids))
+      .orderBy(desc(operationMilestoneChanges.createdAt));
+
+    const changesByMilestone = new Map<string, OperationMilestoneChange[]>();
+    for (const change of changes) {
+      changesByMilestone.set(change.milestoneId, [...(changesByMilestone.get(change.milestoneId) || []), change]);
+    }
+
+    const now = new Date();
+    return milestones
+      .map(milestone => {
+        const delay = getMilestoneDelay(milestone, now);
+        return {
+          ...milestone,
+          ...delay,
+          alert: isAlerting(milestone, delay),
+          changes: changesByMilestone.get(milestone.id) || [],
+        };
+      })
+      .sort((a, b) => typeOrder(a.milestoneType) - typeOrder(b.milestoneType) || milestoneTime(a) - milestoneTime(b));
+  }
+}
+
+// Instancia singleton
+export const operationMilestoneService = new OperationMilestoneService();
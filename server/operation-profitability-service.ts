@@ -0,0 +1,307 @@
+/**
+ * Operation Profitability Service - P&L por operación y reporte de rentabilidad
+ *
+ * Ingresos: conceptos (subtotal sin IVA) de facturas emitidas de la operación; las notas de
+ * crédito restan. Costos: gastos no rechazados y facturas de proveedores (subtotal) no
+ * canceladas de la operación. Ambos se agrupan por
+ * categoría de cargo (flete marítimo, cargos locales, aduana, etc.) y se comparan contra lo
+ * estimado. Todo se convierte a la moneda de reporte con el tipo de cambio de la fecha de
+ * cada transacción (los estimados, a la fecha de inicio de la operación). Los montos en
+ * monedas sin tipo de cambio se omiten y se reportan en `missingRateCurrencies`.
+ */
+
+import { db } from './db';
+import { eq, and, inArray, gte, lte, notInArray, ne, asc } from 'drizzle-orm';
+import { operations, clients, invoices, invoiceItems, expenses, supplierBills, operationChargeEstimates } from '@shared/schema';
+import type { Operation, OperationChargeEstimate, InsertOperationChargeEstimate } from '@shared/schema';
+import { CHARGE_CATEGORIES, classifyCharge, type ChargeCategory } from '@shared/charge-categories';
+import { exchangeRateService, type CurrencyConverter } from './exchange-rate-service';
+
+// Facturas que aún no cuentan como ingreso real
+const NON_REVENUE_STATUSES = ['draft', 'cancelled'];
+
+export interface PnLFigures {
+  estimatedRevenue: number;
+  estimatedCost: number;
+  estimatedMargin: number;
+  actualRevenue: number;
+  actualCost: number;
+  actualMargin: number;
+  marginPercent: number | null; // Margen real sobre ingreso real
+}
+
+export interface ChargeCategoryPnL extends PnLFigures {
+  category: ChargeCategory;
+  label: string;
+}
+
+export interface OperationPnL {
+  operationId: string;
+  operationName: string;
+  currency: string;
+  categories: ChargeCategoryPnL[]; // Solo categorías con movimiento o estimado
+  totals: PnLFigures;
+  estimatedMarginPercent: number | null;
+  missingRateCurrencies: string[];
+}
+
+export interface ProfitabilityReportRow extends PnLFigures {
+  operationId: string;
+  operationName: string;
+  clientId: string | null;
+  clientName: string | null;
+  shippingMode: string;
+  operationType: string;
+  startDate: string;
+}
+
+export interface ProfitabilityReport {
+  currency: string;
+  rows: ProfitabilityReportRow[];
+  totals: PnLFigures;
+  missingRateCurrencies: string[];
+}
+
+export interface ProfitabilityFilters {
+  clientId?: string;
+  shippingMode?: string;
+  operationType?: string;
+  from?: Date; // Fecha de inicio de la operación
+  to?: Date;
+}
+
+interface ChargeLine {
+  operationId: string;
+  category: ChargeCategory;
+  kind: 'revenue' | 'cost' | 'estimatedRevenue' | 'estimatedCost';
+  amount: number; // En moneda de reporte
+}
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+function emptyFigures(): PnLFigures {
+  return {
+    estimatedRevenue: 0,
+    estimatedCost: 0,
+    estimatedMargin: 0,
+    actualRevenue: 0,
+    actualCost: 0,
+    actualMargin: 0,
+    marginPercent: null,
+  };
+}
+
+function addLine(figures: PnLFigures, line: ChargeLine) {
+  switch (line.kind) {
+    case 'revenue': figures.actualRevenue += line.amount; break;
+    case 'cost': figures.actualCost += line.amount; break;
+    case 'estimatedRevenue': figures.estimatedRevenue += line.amount; break;
+    case 'estimatedCost': figures.estimatedCost += line.amount; break;
+  }
+}
+
+function finalize<T extends PnLFigures>(figures: T): T {
+  const actualRevenue = round2(figures.actualRevenue);
+  const actualCost = round2(figures.actualCost);
+  const estimatedRevenue = round2(figures.estimatedRevenue);
+  const estimatedCost = round2(figures.estimatedCost);
+  const actualMargin = round2(actualRevenue - actualCost);
+
+  return {
+    ...figures,
+    actualRevenue,
+    actualCost,
+    actualMargin,
+    estimatedRevenue,
+    estimatedCost,
+    estimatedMargin: round2(estimatedRevenue - estimatedCost),
+    marginPercent: actualRevenue > 0 ? round2((actualMargin / actualRevenue) * 100) : null,
+  };
+}
+
+export class OperationProfitabilityService {
+  async getEstimates(operationId: string): Promise<OperationChargeEstimate[]> {
+    return await db.select().from(operationChargeEstimates)
+      .where(eq(operationChargeEstimates.operationId, operationId))
+      .orderBy(asc(operationChargeEstimates.chargeCategory));
+  }
+
+  /**
+   * Reemplaza los estimados de la operación (uno por categoría)
+   */
+  async replaceEstimates(operationId: string, estimates: Omit<InsertOperationChargeEstimate, 'operationId'>[]): Promise<OperationChargeEstimate[]> {
+    return await db.transaction(async (tx) => {
+      await tx.delete(operationChargeEstimates).where(eq(operationChargeEstimates.operationId, operationId));
+
+      const rows = estimates.filter(estimate => Number(estimate.estimatedRevenue || 0) !== 0 || Number(estimate.estimatedCost || 0) !== 0);
+      if (rows.length === 0) return [];
+
+      return await tx.insert(operationChargeEstimates)
+        .values(rows.map(estimate => ({ ...estimate, operationId })))
+        .returning();
+    });
+  }
+
+  /**
+   * P&L de una operación por categoría de cargo, estimado vs. real
+   */
+  async getOperationPnL(operationId: string, reportingCurrency?: string): Promise<OperationPnL | undefined> {
+    const [operation] = await db.select().from(operations).where(eq(operations.id, operationId));
+    if (!operation) return undefined;
+
+    const currency = reportingCurrency || operation.projectCurrency;
+    const { lines, missingRateCurrencies } = await this.collectLines([operation], exchangeRateService.createConverter(currency));
+
+    const byCategory = new Map<ChargeCategory, PnLFigures>();
+    const totals = emptyFigures();
+    for (const line of lines) {
+      if (!byCategory.has(line.category)) byCategory.set(line.category, emptyFigures());
+      addLine(byCategory.get(line.category)!, line);
+      addLine(totals, line);
+    }
+
+    const finalTotals = finalize(totals);
+    return {
+      operationId: operation.id,
+      operationName: operation.name,
+      currency,
+      categories: CHARGE_CATEGORIES
+        .filter(category => byCategory.has(category.code))
+        .map(category => finalize({
+          ...byCategory.get(category.code)!,
+          category: category.code,
+          label: category.label,
+        })),
+      totals: finalTotals,
+      estimatedMarginPercent: finalTotals.estimatedRevenue > 0
+        ? round2((finalTotals.estimatedMargin / finalTotals.estimatedRevenue) * 100)
+        : null,
+      missingRateCurrencies,
+    };
+  }
+
+  /**
+   * Rentabilidad de varias operaciones, filtrable por cliente, modo, tipo y rango de fechas
+   */
+  async getProfitabilityReport(filters: ProfitabilityFilters, reportingCurrency: string): Promise<ProfitabilityReport> {
+    const conditions = [ne(operations.status, 'cancelled')];
+    if (filters.clientId) conditions.push(eq(operations.clientId, filters.clientId));
+    if (filters.shippingMode) conditions.push(eq(operations.shippingMode, filters.shippingMode));
+    if (filters.operationType) conditions.push(eq(operations.operationType, filters.operationType));
+    if (filters.from) conditions.push(gte(operations.startDate, filters.from));
+    if (filters.to) conditions.push(lte(operations.startDate, filters.to));
+
+    const rows = await db.select({ operation: operations, clientName: clients.name })
+      .from(operations)
+      .leftJoin(clients, eq(operations.clientId, clients.id))
+      .where(and(...conditions))
+      .orderBy(asc(operations.startDate));
+
+    const { lines, missingRateCurrencies } = await this.collectLines(rows.map(row => row.operation), exchangeRateService.createConverter(reportingCurrency));
+
+    const byOperation = new Map<string, PnLFigures>();
+    const totals = emptyFigures();
+    for (const line of lines) {
+      if (!byOperation.has(line.operationId)) byOperation.set(line.operationId, emptyFigures());
+      addLine(byOperation.get(line.operationId)!, line);
+      addLine(totals, line);
+    }
+
+    return {
+      currency: reportingCurrency,
+      rows: rows.map(({ operation, clientName }) => finalize({
+        ...(byOperation.get(operation.id) || emptyFigures()),
+        operationId: operation.id,
+        operationName: operation.name,
+        clientId: operation.clientId,
+        clientName,
+        shippingMode: operation.shippingMode,
+        operationType: operation.operationType,
+        startDate: operation.startDate.toISOString(),
+      })),
+      totals: finalize(totals),
+      missingRateCurrencies,
+    };
+  }
+
+  /**
+   * Ingresos, costos y estimados de las operaciones, clasificados y convertidos
+   */
+  private async collectLines(operationList: Operation[], converter: CurrencyConverter): Promise<{ lines: ChargeLine[]; missingRateCurrencies: string[] }> {
+    if (operationList.length === 0) return { lines: [], missingRateCurrencies: [] };
+    const operationIds = operationList.map(operation => operation.id);
+    const startDates = new Map(operationList.map(operation => [operation.id, operation.startDate]));
+
+    const [revenueRows, costRows, billRows, estimateRows] = await Promise.all([
+      db.select({ item: invoiceItems, invoice: invoices })
+        .from(invoiceItems)
+        .innerJoin(invoices, eq(invoiceItems.invoiceId, invoices.id))
+        .where(and(
+          inArray(invoices.operationId, operationIds),
+          notInArray(invoices.status, NON_REVENUE_STATUSES)
+        )),
+      db.select().from(expenses)
+        .where(and(inArray(expenses.operationId, operationIds), ne(expenses.status, 'rejected'))),
+      db.select().from(supplierBills)
+        .where(and(inArray(supplierBills.operationId, operationIds), ne(supplierBills.status, 'cancelled'))),
+      db.select().from(operationChargeEstimates)
+        .where(inArray(operationChargeEstimates.operationId, operationIds)),
+    ]);
+
+    const lines: ChargeLine[] = [];
+    const missingRates = new Set<string>();
+
+    // Un tipo de cambio faltante no tumba el P&L: el monto se omite y se reporta la moneda
+    const push = async (line: Omit<ChargeLine, 'amount'>, amount: number, currency: string, date: Date) => {
+      const converted = await converter.tryConvert(amount, currency, date);
+      if (converted === null) {
+        missingRates.add(currency);
+        return;
+      }
+      lines.push({ ...line, amount: converted });
+    };
+
+    for (const { item, invoice } of revenueRows) {
+      const tipo = invoice.tipoComprobante || 'I';
+      if (tipo !== 'I' && tipo !== 'E') continue; // Traslados y pagos no son ingreso
+      const amount = Number(item.amount);
+      await push({
+        operationId: invoice.operationId!,
+        category: classifyCharge(item.description, item.chargeCategory),
+        kind: 'revenue',
+      }, tipo === 'E' ? -amount : amount, invoice.currency, invoice.stampedAt || invoice.createdAt);
+    }
+
+    for (const expense of costRows) {
+      await push({
+        operationId: expense.operationId!,
+        category: classifyCharge(expense.description, expense.chargeCategory),
+        kind: 'cost',
+      }, Number(expense.amount), expense.currency, expense.date);
+    }
+
+    for (const bill of billRows) {
+      await push({
+        operationId: bill.operationId!,
+        category: classifyCharge(bill.description, bill.chargeCategory),
+        kind: 'cost',
+      }, Number(bill.subtotal), bill.currency, bill.billDate);
+    }
+
+    for (const estimate of estimateRows) {
+      const date = startDates.get(estimate.operationId) || new Date();
+      const category = classifyCharge(null, estimate.chargeCategory);
+      if (Number(estimate.estimatedRevenue) !== 0) {
+        await push({ operationId: estimate.operationId, category, kind: 'estimatedRevenue' }, Number(estimate.estimatedRevenue), estimate.currency, date);
+      }
+      if (Number(estimate.estimatedCost) !== 0) {
+        await push({ operationId: estimate.operationId, category, kind: 'estimatedCost' }, Number(estimate.estimatedCost), estimate.currency, date);
+      }
+    }
+
+    return { lines, missingRateCurrencies: Array.from(missingRates).sort() };
+  }
+}
+
+// Instancia singleton
+export const operationProfitabilityService = new OperationProfitabilityService();
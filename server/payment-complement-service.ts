@@ -0,0 +1,324 @@
+/**
+ * Payment Complement Service - Complemento de Pago (REP, CFDI tipo P)
+ *
+ * Las facturas timbradas con método de pago PPD requieren un complemento de pago por
+ * cada pago recibido. Este servicio calcula la parcialidad (NumParcialidad, ImpSaldoAnt,
+ * ImpSaldoInsoluto) a partir de los pagos de la factura, lo timbra en Facturama y
+ * guarda el XML y PDF en Backblaze B2.
+ */
+
+import { db } from './db';
+import { eq, and, asc } from 'drizzle-orm';
+import { invoices, invoiceItems, payments, clients, paymentComplements } from '@shared/schema';
+import type { Invoice, Payment, PaymentComplement } from '@shared/schema';
+import { stampPaymentComplementInFacturama, downloadInvoiceXML, downloadInvoicePDF } from './facturama-service';
+import { backblazeStorage } from './backblazeStorage';
+
+// c_FormaPago del SAT según el método de pago registrado ("99 - Por definir" no es válido en pagos)
+const SAT_PAYMENT_FORMS: Record<string, string> = {
+  cash: '01',
+  check: '02',
+  transfer: '03',
+  card: '04',
+};
+
+const toCents = (value: string | number | null | undefined) => Math.round(Number(value || 0) * 100);
+const fromCents = (cents: number) => (cents / 100).toFixed(2);
+
+export class PaymentComplementError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'PaymentComplementError';
+    Object.setPrototypeOf(this, PaymentComplementError.prototype);
+  }
+}
+
+export interface PaymentComplementFile {
+  buffer: Buffer;
+  fileName: string;
+  mimeType: string;
+}
+
+/**
+ * Una factura requiere complemento de pago si es de ingreso, PPD y ya está timbrada
+ */
+export function requiresPaymentComplement(invoice: Invoice): boolean {
+  return invoice.metodoPago === 'PPD'
+    && !!invoice.folioFiscal
+    && (invoice.tipoComprobante || 'I') === 'I'
+    && invoice.status !== 'cancelled';
+}
+
+export class PaymentComplementService {
+  async getByInvoice(invoiceId: string): Promise<PaymentComplement[]> {
+    return await db.select().from(paymentComplements)
+      .where(eq(paymentComplements.invoiceId, invoiceId))
+      .orderBy(asc(paymentComplements.installmentNumber));
+  }
+
+  async getByPayment(paymentId: string): Promise<PaymentComplement | undefined> {
+    const [complement] = await db.select().from(paymentComplements).where(eq(paymentComplements.paymentId, paymentId));
+    return complement || undefined;
+  }
+
+  /**
+   * Calcula la parcialidad de un pago según el orden de los pagos de la factura.
+   * Se cuentan todos los pagos previos, incluidos los que se documentaron fuera del sistema.
+   */
+  async calculateInstallment(invoice: Invoice, payment: Payment): Promise<{
+    installmentNumber: number;
+    previousBalance: string;
+    amountPaid: string;
+    outstandingBalance: string;
+  }> {
+    const invoicePayments = await db.select().from(payments)
+      .where(eq(payments.invoiceId, invoice.id))
+      .orderBy(asc(payments.paymentDate), asc(payments.createdAt));
+
+    const index = invoicePayments.findIndex(p => p.id === payment.id);
+    if (index === -1) {
+      throw new PaymentComplementError('El pago no pertenece a la factura');
+    }
+
+    const paidBeforeCents = invoicePayments
+      .slice(0, index)
+      .reduce((sum, p) => sum + toCents(p.amount), 0);
+    // Las notas de crédito aplicadas también reducen el saldo documentado
+    const previousBalanceCents = Math.max(toCents(invoice.total) - toCents(invoice.amountCredited) - paidBeforeCents, 0);
+
+    if (previousBalanceCents === 0) {
+      throw new PaymentComplementError('La factura ya estaba liquidada antes de este pago; el excedente no lleva complemento de pago');
+    }
+
+    // Un sobrepago solo documenta lo aplicado a la factura (el resto es saldo a favor)
+    const amountPaidCents = Math.min(toCents(payment.amount), previousBalanceCents);
+
+    return {
+      installmentNumber: index + 1,
+      previousBalance: fromCents(previousBalanceCents),
+      amountPaid: fromCents(amountPaidCents),
+      outstandingBalance: fromCents(previousBalanceCents - amountPaidCents),
+    };
+  }
+
+  /**
+   * Genera y timbra el complemento de pago de un pago. Si ya está timbrado lo regresa sin cambios;
+   * si falló antes, lo reintenta recalculando la parcialidad. Mientras está en `pending_stamp`
+   * otro proceso lo está timbrando y no se reintenta.
+   */
+  async generateForPayment(paymentId: string, options: { exchangeRate?: string | null } = {}): Promise<PaymentComplement> {
+    const [payment] = await db.select().from(payments).where(eq(payments.id, paymentId));
+    if (!payment) {
+      throw new PaymentComplementError('Pago no encontrado');
+    }
+    if (!payment.invoiceId) {
+      throw new PaymentComplementError('El pago no está asignado a una factura');
+    }
+
+    const [invoice] = await db.select().from(invoices).where(eq(invoices.id, payment.invoiceId));
+    if (!invoice || !requiresPaymentComplement(invoice)) {
+      throw new PaymentComplementError('Solo las facturas PPD timbradas requieren complemento de pago');
+    }
+
+    const existing = await this.getByPayment(paymentId);
+    if (existing?.stampStatus === 'stamped') {
+      return existing;
+    }
+
+    const paymentForm = SAT_PAYMENT_FORMS[payment.paymentMethod];
+    if (!paymentForm) {
+      throw new PaymentComplementError(`El método de pago "${payment.paymentMethod}" no tiene forma de pago SAT para el complemento`);
+    }
+    if (payment.currency !== invoice.currency) {
+      throw new PaymentComplementError('La moneda del pago debe coincidir con la de la factura para generar el complemento');
+    }
+
+    const exchangeRate = options.exchangeRate || existing?.exchangeRate || null;
+    if (payment.currency !== 'MXN' && !exchangeRate) {
+      throw new PaymentComplementError(`Se requiere el tipo de cambio ${payment.currency}/MXN del día del pago`);
+    }
+
+    const installment = await this.calculateInstallment(invoice, payment);
+    const values = {
+      paymentId,
+      invoiceId: invoice.id,
+      ...installment,
+      paymentForm,
+      currency: payment.currency,
+      exchangeRate,
+      stampStatus: 'pending_stamp',
+      stampError: null,
+    };
+
+    // Reclamar el registro antes de llamar a Facturama: si el timbrado en segundo plano y el
+    // manual llegan a la vez, solo uno lo obtiene y no se emiten dos CFDI tipo P por el mismo pago
+    const [complement] = existing
+      ? await db.update(paymentComplements)
+        .set(values)
+        .where(and(eq(paymentComplements.id, existing.id), eq(paymentComplements.stampStatus, 'stamp_failed')))
+        .returning()
+      : await db.insert(paymentComplements)
+        .values(values)
+        .onConflictDoNothing({ target: paymentComplements.paymentId })
+        .returning();
+
+    if (!complement) {
+      const current = await this.getByPayment(paymentId);
+      if (current?.stampStatus === 'stamped') return current;
+      throw new PaymentComplementError('El complemento de pago de este pago ya se está timbrando');
+    }
+
+    const [client] = await db.select().from(clients).where(eq(clients.id, invoice.clientId));
+    const items = await db.select().from(invoiceItems).where(eq(invoiceItems.invoiceId, invoice.id));
+
+    try {
+      const result = await stampPaymentComplementInFacturama({
+        invoiceNumber: invoice.invoiceNumber,
+        invoiceUuid: invoice.folioFiscal!,
+        invoiceCurrency: invoice.currency,
+        invoiceTotal: Number(invoice.total),
+        invoiceItems: items,
+        lugarExpedicion: invoice.lugarExpedicion || '',
+        receiverRFC: invoice.recipientRFC || client?.rfc || '',
+        receiverName: invoice.recipientName || client?.razonSocial || client?.name || '',
+        receiverFiscalRegime: invoice.recipientRegimenFiscal || client?.regimenFiscal || '612',
+        receiverZipCode: invoice.recipientCodigoPostal || client?.codigoPostal,
+        paymentDate: payment.paymentDate,
+        paymentForm,
+        paymentCurrency: payment.currency,
+        exchangeRate: exchangeRate ? Number(exchangeRate) : null,
+        installmentNumber: installment.installmentNumber,
+        previousBalance: Number(installment.previousBalance),
+        amountPaid: Number(installment.amountPaid),
+        outstandingBalance: Number(installment.outstandingBalance),
+      });
+
+      const [stamped] = await db.update(paymentComplements)
+        .set({
+          stampStatus: 'stamped',
+          folioFiscal: result.folioFiscal,
+          facturamaCfdiId: result.facturamId,
+          stampedAt: new Date(),
+          stampError: null,
+        })
+        .where(eq(paymentComplements.id, complement.id))
+        .returning();
+
+      console.log(`[Payment Complement] Stamped ${result.folioFiscal} for invoice ${invoice.invoiceNumber} (parcialidad ${installment.installmentNumber})`);
+
+      // El complemento ya es válido ante el SAT aunque falle el respaldo en B2
+      try {
+        return await this.archiveFiles(stamped);
+      } catch (error) {
+        console.error('[Payment Complement] Error archiving XML/PDF in B2:', error);
+        return stamped;
+      }
+    } catch (error: any) {
+      await db.update(paymentComplements)
+        .set({ stampStatus: 'stamp_failed', stampError: error?.message || 'Error al timbrar' })
+        .where(eq(paymentComplements.id, complement.id));
+      throw new PaymentComplementError(error?.message || 'Error al timbrar complemento de pago');
+    }
+  }
+
+  /**
+   * Genera el complemento en segundo plano después de registrar un pago (no bloquea el registro)
+   */
+  async generateInBackground(payment: Payment, options: { exchangeRate?: string | null } = {}): Promise<void> {
+    if (!payment.invoiceId) return;
+
+    const [invoice] = await db.select().from(invoices).where(eq(invoices.id, payment.invoiceId));
+    if (!invoice || !requiresPaymentComplement(invoice)) return;
+
+    this.generateForPayment(payment.id, options).catch(error => {
+      console.error(`[Payment Complement] Could not stamp complement for payment ${payment.id}:`, error?.message || error);
+    });
+  }
+
+  /**
+   * Descarga XML y PDF de Facturama y los guarda en B2
+   */
+  async archiveFiles(complement: PaymentComplement): Promise<PaymentComplement> {
+    if (!complement.facturamaCfdiId || !backblazeStorage.isAvailable()) {
+      return complement;
+    }
+
+    const folder = `invoices/${complement.invoiceId}/payment-complements`;
+    const updates: Partial<PaymentComplement> = {};
+
+    if (!complement.xmlB2Key) {
+      const xml = await downloadInvoiceXML(complement.facturamaCfdiId);
+      const upload = await backblazeStorage.uploadFile(Buffer.from(xml, 'utf-8'), folder, {
+        originalName: `${complement.folioFiscal}.xml`,
+        mimeType: 'application/xml',
+        category: 'payment_complement',
+      });
+      updates.xmlB2Key = upload.fileKey;
+    }
+
+    if (!complement.pdfB2Key) {
+      const pdf = await downloadInvoicePDF(complement.facturamaCfdiId);
+      const upload = await backblazeStorage.uploadFile(pdf, folder, {
+        originalName: `${complement.folioFiscal}.pdf`,
+        mimeType: 'application/pdf',
+        category: 'payment_complement',
+      });
+      updates.pdfB2Key = upload.fileKey;
+    }
+
+    if (Object.keys(updates).length === 0) return complement;
+
+    const [updated] = await db.update(paymentComplements)
+      .set(updates)
+      .where(eq(paymentComplements.id, complement.id))
+      .returning();
+    return updated;
+  }
+
+  /**
+   * XML o PDF del complemento: desde B2 si está respaldado, si no directo de Facturama
+   */
+  async getFile(complementId: string, format: 'xml' | 'pdf'): Promise<PaymentComplementFile> {
+    const [complement] = await db.select().from(paymentComplements).where(eq(paymentComplements.id, complementId));
+    if (!complement || complement.stampStatus !== 'stamped' || !complement.facturamaCfdiId) {
+      throw new PaymentComplementError('El complemento de pago no está timbrado');
+    }
+
+    const fileName = `complemento-pago-${complement.folioFiscal}.${format}`;
+    const mimeType = format === 'xml' ? 'application/xml' : 'application/pdf';
+    const b2Key = format === 'xml' ? complement.xmlB2Key : complement.pdfB2Key;
+
+    if (b2Key && backblazeStorage.isAvailable()) {
+      return { buffer: await backblazeStorage.downloadFile(b2Key), fileName, mimeType };
+    }
+
+    const buffer = format === 'xml'
+      ? Buffer.from(await downloadInvoiceXML(complement.facturamaCfdiId), 'utf-8')
+      : await downloadInvoicePDF(complement.facturamaCfdiId);
+
+    // Reintentar el respaldo en B2 sin bloquear la descarga
+    this.archiveFiles(complement).catch(error => {
+      console.error('[Payment Complement] Error archiving XML/PDF in B2:', error);
+    });
+
+    return { buffer, fileName, mimeType };
+  }
+
+  /**
+   * Libera el complemento de un pago que se va a modificar o eliminar.
+   * Un complemento timbrado ya se reportó al SAT y debe cancelarse antes.
+   */
+  async releasePayment(paymentId: string): Promise<void> {
+    const complement = await this.getByPayment(paymentId);
+    if (!complement) return;
+
+    if (complement.stampStatus === 'stamped') {
+      throw new PaymentComplementError('Este pago ya tiene un complemento de pago timbrado; cancélalo en Facturama antes de modificar o eliminar el pago');
+    }
+
+    await db.delete(paymentComplements).where(eq(paymentComplements.id, complement.id));
+  }
+}
+
+// Instancia singleton
+export const paymentComplementService = new PaymentComplementService();
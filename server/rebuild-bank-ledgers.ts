@@ -0,0 +1,22 @@
+/**
+ * Reconstrucción del libro mayor bancario
+ *
+ * Regenera las entradas de pagos, gastos y pagos a proveedores de todas las cuentas
+ * (conservando los ajustes manuales) y recalcula `currentBalance`. Se corre una vez
+ * después de `migrations/add_bank_ledger_entries.sql` y se puede repetir sin riesgo.
+ *
+ * Uso: npm run ledger:rebuild
+ */
+
+import { bankLedgerService } from './bank-ledger-service';
+
+(async () => {
+  try {
+    const { accounts, errors } = await bankLedgerService.rebuildAllAccounts();
+    console.log(`[Bank Ledger] Done: ${accounts} accounts rebuilt, ${errors} errors`);
+    process.exit(errors > 0 ? 1 : 0);
+  } catch (error) {
+    console.error('[Bank Ledger] Rebuild failed:', error);
+    process.exit(1);
+  }
+})();
@@ -0,0 +1,92 @@
+/**
+ * Re-cifrado de secretos - Rotación de la llave maestra
+ *
+ * Recorre todas las columnas con secretos y vuelve a cifrar con SECRETS_MASTER_KEY los
+ * valores en texto plano o cifrados con una llave anterior (que debe seguir en
+ * SECRETS_PREVIOUS_MASTER_KEYS hasta terminar). Al agregar columnas con secretos
+ * (p. ej. credenciales de Facturama) hay que incluirlas aquí.
+ *
+ * Uso: npm run secrets:reencrypt [-- --dry-run]
+ */
+
+import { eq } from 'drizzle-orm';
+import { db } from './db';
+import { gmailAccounts } from '@shared/schema';
+import { secretVault } from './secret-vault';
+import { securityAuditService } from './security-audit-service';
+
+interface ReencryptStats {
+  rowsScanned: number;
+  secretsReencrypted: number;
+  errors: number;
+}
+
+/**
+ * Valor cifrado con la llave actual, o null si ya lo estaba
+ */
+function reencrypt(value: string | null): string | null {
+  if (!value || !secretVault.needsReencryption(value)) return null;
+  return secretVault.encrypt(secretVault.decrypt(value));
+}
+
+async function reencryptGmailAccounts(dryRun: boolean, stats: ReencryptStats): Promise<void> {
+  const accounts = await db
+    .select({
+      id: gmailAccounts.id,
+      email: gmailAccounts.email,
+      accessToken: gmailAccounts.accessToken,
+      refreshToken: gmailAccounts.refreshToken,
+      mailPassword: gmailAccounts.mailPassword,
+    })
+    .from(gmailAccounts);
+
+  for (const account of accounts) {
+    stats.rowsScanned++;
+    try {
+      const updates: { accessToken?: string; refreshToken?: string; mailPassword?: string } = {};
+      const accessToken = reencrypt(account.accessToken);
+      const refreshToken = reencrypt(account.refreshToken);
+      const mailPassword = reencrypt(account.mailPassword);
+      if (accessToken) updates.accessToken = accessToken;
+      if (refreshToken) updates.refreshToken = refreshToken;
+      if (mailPassword) updates.mailPassword = mailPassword;
+
+      const count = Object.keys(updates).length;
+      if (count === 0) continue;
+
+      if (!dryRun) {
+        await db.update(gmailAccounts).set(updates).where(eq(gmailAccounts.id, account.id));
+      }
+      stats.secretsReencrypted += count;
+      console.log(`[Secrets] ${account.email}: ${count} secret(s) ${dryRun ? 'to re-encrypt' : 're-encrypted'}`);
+    } catch (error) {
+      stats.errors++;
+      console.error(`[Secrets] Error re-encrypting account ${account.email}:`, error);
+    }
+  }
+}
+
+(async () => {
+  const dryRun = process.argv.includes('--dry-run');
+  const keyId = secretVault.currentKeyId;
+  if (!keyId) {
+    console.error('[Secrets] SECRETS_MASTER_KEY no está configurada');
+    process.exit(1);
+  }
+
+  console.log(`[Secrets] Re-encrypting stored secrets with master key "${keyId}"${dryRun ? ' (dry run)' : ''}`);
+
+  const stats: ReencryptStats = { rowsScanned: 0, secretsReencrypted: 0, errors: 0 };
+  await reencryptGmailAccounts(dryRun, stats);
+
+  if (!dryRun) {
+    await securityAuditService.record({
+      eventType: 'secrets_reencrypted',
+      entityType: 'system',
+      details: { keyId, ...stats },
+    });
+  }
+
+  console.log(`[Secrets] Done: ${stats.rowsScanned} rows scanned, ${stats.secretsReencrypted} secrets ${dryRun ? 'pending' : 're-encrypted'}, ${stats.errors} errors`);
+  process.exit(stats.errors > 0 ? 1 : 0);
+})();
@@ -408,6 +408,17 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  app.get("/api/clients/:id/credits", requireAuth, async (req, res) => {
+    try {
+      const { invoiceBalanceService } = await import('./invoice-balance-service');
+      const credits = await invoiceBalanceService.getClientCredits(req.params.id);
+      res.json(credits);
+    } catch (error) {
+      console.error("Get client credits error:", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
   app.delete("/api/clients/:id", requireAuth, async (req, res) => {
     try {
       const { id } = req.params;
@@ -436,6 +447,225 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Supplier Routes (carriers, agents, customs brokers, truckers)
+  app.get("/api/suppliers", requireAuth, async (req, res) => {
+    try {
+      const allSuppliers = await storage.getAllSuppliers();
+      res.json(allSuppliers);
+    } catch (error) {
+      console.error("Get suppliers error:", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  app.get("/api/suppliers/:id", requireAuth, async (req, res) => {
+    try {
+      const supplier = await storage.getSupplier(req.params.id);
+      if (!supplier) {
+        return res.status(404).json({ message: "Supplier not found" });
+      }
+      res.json(supplier);
+    } catch (error) {
+      console.error("Get supplier error:", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  app.post("/api/suppliers", requireAuth, async (req, res) => {
+    try {
+      const { insertSupplierSchema } = await import("@shared/schema");
+      const data = insertSupplierSchema.parse(req.body);
+
+      if (data.rfc && await storage.getSupplierByRfc(data.rfc)) {
+        return res.status(400).json({ message: `Ya existe un proveedor con el RFC ${data.rfc.toUpperCase()}` });
+      }
+
+      const supplier = await storage.createSupplier(data);
+      res.json(supplier);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Validation error", errors: error.errors });
+      }
+      console.error("Create supplier error:", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  app.patch("/api/suppliers/:id", requireAuth, async (req, res) => {
+    try {
+      const { id } = req.params;
+      const { insertSupplierSchema } = await import("@shared/schema");
+      const data = insertSupplierSchema.partial().parse(req.body);
+
+      if (data.rfc) {
+        const existing = await storage.getSupplierByRfc(data.rfc);
+        if (existing && existing.id !== id) {
+          return res.status(400).json({ message: `Ya existe un proveedor con el RFC ${data.rfc.toUpperCase()}` });
+        }
+      }
+
+      const supplier = await storage.updateSupplier(id, data);
+      if (!supplier) {
+        return res.status(404).json({ message: "Supplier not found" });
+      }
+      res.json(supplier);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Validation error", errors: error.errors });
+      }
+      console.error("Update supplier error:", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  app.delete("/api/suppliers/:id", requireAuth, async (req, res) => {
+    try {
+      const { id } = req.params;
+      const { supplierBills } = await import("@shared/schema");
+
+      // Verificar si el proveedor tiene facturas registradas
+      const [billCount] = await db
+        .select({ count: count() })
+        .from(supplierBills)
+        .where(eq(supplierBills.supplierId, id));
+
+      if (billCount.count > 0) {
+        return res.status(400).json({
+          message: `No se puede eliminar este proveedor porque tiene ${billCount.count} factura(s) registrada(s). Márcalo como inactivo.`
+        });
+      }
+
+      await storage.deleteSupplier(id);
+      res.json({ message: "Supplier deleted successfully" });
+    } catch (error) {
+      console.error("Delete supplier error:", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  // Rate tariffs from carriers and agents (CSV / XLSX) and lane rate lookup
+  app.get("/api/tariffs", requireAuth, async (req, res) => {
+    try {
+      const { tariffService } = await import('./tariff-service');
+      const tariffs = await tariffService.getTariffs();
+      res.json(tariffs);
+    } catch (error) {
+      console.error("Get tariffs error:", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  app.get("/api/tariffs/lookup", requireAuth, async (req, res) => {
+    try {
+      const lookupSchema = z.object({
+        origin: z.string().trim().min(1),
+        destination: z.string().trim().min(1),
+        date: z.coerce.date().optional(),
+        mode: z.enum(["sea", "air", "land"]).optional(),
+        equipmentType: z.string().optional(),
+        containers: z.coerce.number().int().positive().optional(),
+        weightKg: z.coerce.number().positive().optional(),
+        currency: z.string().trim().length(3).optional(),
+        limit: z.coerce.number().int().positive().optional(),
+      });
+      const query = lookupSchema.parse(req.query);
+
+      const { tariffService } = await import('./tariff-service');
+      const result = await tariffService.lookupRates(query);
+      res.json(result);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Validation error", errors: error.errors });
+      }
+      const { TariffError } = await import('./tariff-service');
+      if (error instanceof TariffError) {
+        return res.status(400).json({ message: error.message });
+      }
+      console.error("Tariff rate lookup error:", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  app.post("/api/tariffs/import", requireAuth, async (req, res) => {
+    try {
+      const { fileName, content, format, ...body } = req.body;
+      if (!fileName || !content) {
+        return res.status(400).json({ message: "Missing required fields" });
+      }
+      if (format && !['csv', 'xlsx'].includes(format)) {
+        return res.status(400).json({ message: "Unsupported tariff format" });
+      }
+
+      const { insertRateTariffSchema } = await import("@shared/schema");
+      const data = insertRateTariffSchema.parse(body);
+
+      const { tariffService } = await import('./tariff-service');
+      const result = await tariffService.importTariff({
+        ...data,
+        fileName,
+        content,
+        format,
+        uploadedById: req.session.userId,
+      });
+      res.json(result);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Validation error", errors: error.errors });
+      }
+      const { TariffError } = await import('./tariff-service');
+      const { TariffParseError } = await import('./tariff-parser');
+      if (error instanceof TariffError || error instanceof TariffParseError) {
+        return res.status(400).json({ message: error.message });
+      }
+      console.error("Import tariff error:", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  app.get("/api/tariffs/:id/rates", requireAuth, async (req, res) => {
+    try {
+      const { tariffService } = await import('./tariff-service');
+      const rates = await tariffService.getRates(req.params.id);
+      res.json(rates);
+    } catch (error) {
+      console.error("Get tariff rates error:", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  app.patch("/api/tariffs/:id", requireAuth, async (req, res) => {
+    try {
+      const { status } = z.object({ status: z.enum(["active", "archived"]) }).parse(req.body);
+
+      const { tariffService } = await import('./tariff-service');
+      const tariff = await tariffService.updateStatus(req.params.id, status);
+      if (!tariff) {
+        return res.status(404).json({ message: "Tariff not found" });
+      }
+      res.json(tariff);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Validation error", errors: error.errors });
+      }
+      console.error("Update tariff error:", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  app.delete("/api/tariffs/:id", requireAuth, async (req, res) => {
+    try {
+      const { tariffService } = await import('./tariff-service');
+      const deleted = await tariffService.deleteTariff(req.params.id);
+      if (!deleted) {
+        return res.status(404).json({ message: "Tariff not found" });
+      }
+      res.json({ message: "Tariff deleted successfully" });
+    } catch (error) {
+      console.error("Delete tariff error:", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
   // Helper function to create or update birthday event
   async function handleBirthdayEvent(employeeId: string, employeeName: Date | null, birthdate: Date | null, currentBirthdayEventId?: string | null) {
     if (!birthdate) {
@@ -605,6 +835,18 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Operations grouped by lane (origin → destination locations) for the map
+  app.get("/api/operations/lanes", requireAuth, async (req, res) => {
+    try {
+      const { locationService } = await import('./location-service');
+      const lanes = await locationService.getOperationLanes();
+      res.json(lanes);
+    } catch (error) {
+      console.error("Get operation lanes error:", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
   app.get("/api/operations/:id", requireAuth, async (req, res) => {
     try {
       const { id } = req.params;
@@ -631,7 +873,11 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(404).json({ message: "Operation not found" });
       }
 
-      const financialSummary = await storage.getOperationFinancialSummary(id);
+      const { currency } = req.query;
+      const financialSummary = await storage.getOperationFinancialSummary(
+        id,
+        typeof currency === 'string' && currency ? currency : undefined
+      );
       res.json(financialSummary);
     } catch (error) {
       console.error("Get operation financial overview error:", error);
@@ -639,197 +885,604 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post("/api/operations", requireAuth, async (req, res) => {
+  // Operation P&L by charge category (estimated vs. actual)
+  app.get("/api/operations/:id/profitability", requireAuth, async (req, res) => {
     try {
-      const { employeeIds, ...operationData } = req.body;
-      const data = insertOperationSchema.parse(operationData);
-      const operation = await storage.createOperation(data);
+      const { currency } = req.query;
+      const { operationProfitabilityService } = await import('./operation-profitability-service');
+      const pnl = await operationProfitabilityService.getOperationPnL(
+        req.params.id,
+        typeof currency === 'string' && currency ? currency : undefined
+      );
 
-      if (employeeIds && Array.isArray(employeeIds) && employeeIds.length > 0) {
-        await storage.setOperationEmployees(operation.id, employeeIds);
+      if (!pnl) {
+        return res.status(404).json({ message: "Operation not found" });
       }
 
-      // Invalidate cache
-      queryCache.invalidate('operations:all');
+      res.json(pnl);
+    } catch (error) {
+      console.error("Get operation profitability error:", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
 
-      res.json(operation);
+  app.get("/api/operations/:id/charge-estimates", requireAuth, async (req, res) => {
+    try {
+      const { operationProfitabilityService } = await import('./operation-profitability-service');
+      const estimates = await operationProfitabilityService.getEstimates(req.params.id);
+      res.json(estimates);
     } catch (error) {
-      if (error instanceof z.ZodError) {
-        return res.status(400).json({ message: "Validation error", errors: error.errors });
-      }
-      console.error("Create operation error:", error);
+      console.error("Get operation charge estimates error:", error);
       res.status(500).json({ message: "Internal server error" });
     }
   });
 
-  app.patch("/api/operations/:id", requireAuth, async (req, res) => {
+  app.put("/api/operations/:id/charge-estimates", requireAuth, async (req, res) => {
     try {
       const { id } = req.params;
-      const { employeeIds, ...operationData } = req.body;
-      const data = insertOperationSchema.partial().parse(operationData);
-      const operation = await storage.updateOperation(id, data);
+      const operation = await storage.getOperation(id);
 
       if (!operation) {
         return res.status(404).json({ message: "Operation not found" });
       }
 
-      if (employeeIds !== undefined && Array.isArray(employeeIds)) {
-        await storage.setOperationEmployees(id, employeeIds);
-      }
-
-      // Invalidate cache
-      queryCache.invalidate('operations:all');
+      const { insertOperationChargeEstimateSchema } = await import("@shared/schema");
+      const { estimates } = z.object({
+        estimates: z.array(insertOperationChargeEstimateSchema.omit({ operationId: true })),
+      }).parse(req.body);
 
-      res.json(operation);
+      const { operationProfitabilityService } = await import('./operation-profitability-service');
+      const saved = await operationProfitabilityService.replaceEstimates(id, estimates);
+      res.json(saved);
     } catch (error) {
       if (error instanceof z.ZodError) {
         return res.status(400).json({ message: "Validation error", errors: error.errors });
       }
-      console.error("Update operation error:", error);
+      console.error("Update operation charge estimates error:", error);
       res.status(500).json({ message: "Internal server error" });
     }
   });
 
-  app.delete("/api/operations/:id", requireAuth, async (req, res) => {
+  // Containers and cargo lines of an operation
+  app.get("/api/operations/:id/cargo", requireAuth, async (req, res) => {
     try {
-      const { id } = req.params;
-      await storage.deleteOperation(id);
-
-      // Invalidate cache
-      queryCache.invalidate('operations:all');
-
-      res.json({ message: "Operation deleted successfully" });
+      const { operationCargoService } = await import('./operation-cargo-service');
+      const cargo = await operationCargoService.getCargo(req.params.id);
+      res.json(cargo);
     } catch (error) {
-      console.error("Delete operation error:", error);
+      console.error("Get operation cargo error:", error);
       res.status(500).json({ message: "Internal server error" });
     }
   });
 
-  // Sync automation employees to all operations
-  app.post("/api/operations/sync-employees", requireAuth, async (req, res) => {
+  app.put("/api/operations/:id/cargo", requireAuth, async (req, res) => {
     try {
-      const result = await storage.syncAutomationEmployeesToOperations();
-      res.json({
-        success: true,
-        message: `Sincronizados ${result.assignmentsCreated} empleados en ${result.operationsUpdated} operaciones`,
-        ...result
-      });
+      const { id } = req.params;
+      const operation = await storage.getOperation(id);
+
+      if (!operation) {
+        return res.status(404).json({ message: "Operation not found" });
+      }
+
+      const { operationCargoSchema } = await import("@shared/schema");
+      const cargo = operationCargoSchema.parse(req.body);
+
+      const { operationCargoService } = await import('./operation-cargo-service');
+      const saved = await operationCargoService.replaceCargo(id, cargo);
+      res.json(saved);
     } catch (error) {
-      console.error("Sync employees error:", error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Validation error", errors: error.errors });
+      }
+      console.error("Update operation cargo error:", error);
       res.status(500).json({ message: "Internal server error" });
     }
   });
 
-  // Invoice Routes
-  app.get("/api/invoices", requireAuth, async (req, res) => {
+  // Shipment milestone timeline (planned / estimated / actual)
+  app.get("/api/operations/:id/milestones", requireAuth, async (req, res) => {
     try {
-      const allInvoices = await storage.getAllInvoices();
-      res.json(allInvoices);
+      const { operationMilestoneService } = await import('./operation-milestone-service');
+      const timeline = await operationMilestoneService.getTimeline(req.params.id);
+      res.json(timeline);
     } catch (error) {
-      console.error("Get invoices error:", error);
+      console.error("Get operation milestones error:", error);
       res.status(500).json({ message: "Internal server error" });
     }
   });
 
-  app.post("/api/invoices", requireAuth, async (req, res) => {
+  app.post("/api/operations/:id/milestones", requireAuth, async (req, res) => {
     try {
-      const data = insertInvoiceSchema.parse(req.body);
-      const invoice = await storage.createInvoice(data);
-      res.json(invoice);
+      const { id } = req.params;
+      const operation = await storage.getOperation(id);
+
+      if (!operation) {
+        return res.status(404).json({ message: "Operation not found" });
+      }
+
+      const { insertOperationMilestoneSchema } = await import("@shared/schema");
+      const { source, sourceGmailMessageId, ...data } = insertOperationMilestoneSchema.omit({ operationId: true }).parse(req.body);
+
+      const { operationMilestoneService } = await import('./operation-milestone-service');
+      const milestone = await operationMilestoneService.createMilestone(id, data, {
+        userId: req.session.userId!,
+        source,
+        sourceGmailMessageId,
+      });
+      res.json(milestone);
     } catch (error) {
       if (error instanceof z.ZodError) {
         return res.status(400).json({ message: "Validation error", errors: error.errors });
       }
-      console.error("Create invoice error:", error);
+      const { MilestoneError } = await import('./operation-milestone-service');
+      if (error instanceof MilestoneError) {
+        return res.status(400).json({ message: error.message });
+      }
+      console.error("Create operation milestone error:", error);
       res.status(500).json({ message: "Internal server error" });
     }
   });
 
-  app.patch("/api/invoices/:id", requireAuth, async (req, res) => {
+  app.patch("/api/milestones/:id", requireAuth, async (req, res) => {
     try {
-      const { id } = req.params;
-      const data = insertInvoiceSchema.partial().parse(req.body);
-      const invoice = await storage.updateInvoice(id, data);
+      const { insertOperationMilestoneSchema } = await import("@shared/schema");
+      const { source, sourceGmailMessageId, ...data } = insertOperationMilestoneSchema.omit({ operationId: true }).partial().parse(req.body);
 
-      if (!invoice) {
-        return res.status(404).json({ message: "Invoice not found" });
+      const { operationMilestoneService } = await import('./operation-milestone-service');
+      const milestone = await operationMilestoneService.updateMilestone(req.params.id, data, {
+        userId: req.session.userId!,
+        source: source || 'manual',
+        sourceGmailMessageId,
+      });
+
+      if (!milestone) {
+        return res.status(404).json({ message: "Milestone not found" });
       }
 
-      res.json(invoice);
+      res.json(milestone);
     } catch (error) {
       if (error instanceof z.ZodError) {
         return res.status(400).json({ message: "Validation error", errors: error.errors });
       }
-      console.error("Update invoice error:", error);
+      const { MilestoneError } = await import('./operation-milestone-service');
+      if (error instanceof MilestoneError) {
+        return res.status(400).json({ message: error.message });
+      }
+      console.error("Update operation milestone error:", error);
       res.status(500).json({ message: "Internal server error" });
     }
   });
 
-  app.delete("/api/invoices/:id", requireAuth, async (req, res) => {
+  app.delete("/api/milestones/:id", requireAuth, async (req, res) => {
     try {
-      const { id } = req.params;
-      await storage.deleteInvoice(id);
-      res.json({ message: "Invoice deleted successfully" });
+      const { operationMilestoneService } = await import('./operation-milestone-service');
+      const deleted = await operationMilestoneService.deleteMilestone(req.params.id);
+
+      if (!deleted) {
+        return res.status(404).json({ message: "Milestone not found" });
+      }
+
+      res.json({ success: true });
     } catch (error) {
-      console.error("Delete invoice error:", error);
+      console.error("Delete operation milestone error:", error);
       res.status(500).json({ message: "Internal server error" });
     }
   });
 
-  app.post("/api/invoices/:invoiceId/stamp", requireAuth, async (req, res) => {
+  // Dismiss a delay alert (it fires again if the delay keeps growing)
+  app.post("/api/milestones/:id/acknowledge-delay", requireAuth, async (req, res) => {
     try {
-      const { invoiceId } = req.params;
-      
-      const invoice = await storage.getInvoiceById(invoiceId);
-      if (!invoice) {
-        return res.status(404).json({ message: "Invoice not found" });
-      }
+      const { operationMilestoneService } = await import('./operation-milestone-service');
+      const milestone = await operationMilestoneService.acknowledgeDelay(req.params.id, req.session.userId!);
 
-      if (invoice.folioFiscal) {
-        return res.status(400).json({ message: "Esta factura ya está timbrada" });
+      if (!milestone) {
+        return res.status(404).json({ message: "Milestone not found" });
       }
 
-      const items = await storage.getInvoiceItems(invoiceId);
-      if (!items || items.length === 0) {
-        return res.status(400).json({ message: "La factura debe tener al menos un concepto" });
-      }
-
-      const client = await storage.getClientById(invoice.clientId);
-      if (!client) {
-        return res.status(404).json({ message: "Cliente no encontrado" });
-      }
-
-      const { stampInvoiceInFacturama } = await import("./facturama-service");
-      const result = await stampInvoiceInFacturama(
-        { ...invoice, id: invoiceId },
-        items,
-        client.rfc || "",
-        client.name,
-        client.fiscalRegime || "612"
-      );
-
-      await storage.updateInvoice(invoiceId, {
-        folioFiscal: result.folioFiscal,
-      });
-
-      res.json({ 
-        message: "Factura timbrada exitosamente",
-        folioFiscal: result.folioFiscal,
-        facturamId: result.facturamId
-      });
-    } catch (error: any) {
-      console.error("Stamp invoice error:", error);
-      res.status(500).json({ 
-        message: error?.message || "Error al timbrar factura" 
-      });
+      res.json(milestone);
+    } catch (error) {
+      console.error("Acknowledge milestone delay error:", error);
+      res.status(500).json({ message: "Internal server error" });
     }
   });
 
-  app.post("/api/invoices/reprocess-without-items", requireAuth, async (req, res) => {
+  app.get("/api/milestones/delay-alerts", requireAuth, async (req, res) => {
     try {
-      const { invoiceAutoAssignmentService } = await import("./invoice-auto-assignment-service");
-      const result = await invoiceAutoAssignmentService.reprocessInvoicesWithoutItems();
-      
+      const { operationMilestoneService } = await import('./operation-milestone-service');
+      const alerts = await operationMilestoneService.getDelayAlerts();
+      res.json(alerts);
+    } catch (error) {
+      console.error("Get milestone delay alerts error:", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  // UN/LOCODE locations (ports, airports, inland depots)
+  app.get("/api/locations", requireAuth, async (req, res) => {
+    try {
+      const { locationService } = await import('./location-service');
+      const search = typeof req.query.search === 'string' ? req.query.search : '';
+      const kind = req.query.kind === 'seaport' || req.query.kind === 'airport' || req.query.kind === 'inland'
+        ? req.query.kind
+        : undefined;
+      const locations = await locationService.search(search, { kind });
+      res.json(locations);
+    } catch (error) {
+      console.error("Search locations error:", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  app.get("/api/locations/by-ids", requireAuth, async (req, res) => {
+    try {
+      const { locationService } = await import('./location-service');
+      const ids = typeof req.query.ids === 'string' ? req.query.ids.split(',').filter(Boolean) : [];
+      const locations = await locationService.getByIds(ids);
+      res.json(locations);
+    } catch (error) {
+      console.error("Get locations error:", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  // Cross-operation profitability report
+  app.get("/api/reports/profitability", requireAuth, async (req, res) => {
+    try {
+      const { clientId, shippingMode, operationType, from, to, currency } = z.object({
+        clientId: z.string().optional(),
+        shippingMode: z.string().optional(),
+        operationType: z.string().optional(),
+        from: z.string().optional(),
+        to: z.string().optional(),
+        currency: z.string().optional(),
+      }).parse(req.query);
+
+      const { operationProfitabilityService } = await import('./operation-profitability-service');
+      const report = await operationProfitabilityService.getProfitabilityReport({
+        clientId: clientId || undefined,
+        shippingMode: shippingMode || undefined,
+        operationType: operationType || undefined,
+        from: from ? new Date(from) : undefined,
+        // Incluye todo el día final del rango
+        to: to ? new Date(`${to}T23:59:59.999`) : undefined,
+      }, currency || 'MXN');
+
+      res.json(report);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Validation error", errors: error.errors });
+      }
+      console.error("Get profitability report error:", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  app.post("/api/operations", requireAuth, async (req, res) => {
+    try {
+      const { employeeIds, cargo: cargoData, ...operationData } = req.body;
+      const data = insertOperationSchema.parse(operationData);
+      const { operationCargoSchema } = await import("@shared/schema");
+      const cargo = cargoData !== undefined ? operationCargoSchema.parse(cargoData) : undefined;
+      const operation = await storage.createOperation(data);
+
+      if (employeeIds && Array.isArray(employeeIds) && employeeIds.length > 0) {
+        await storage.setOperationEmployees(operation.id, employeeIds);
+      }
+
+      if (cargo) {
+        const { operationCargoService } = await import('./operation-cargo-service');
+        await operationCargoService.replaceCargo(operation.id, cargo);
+      }
+
+      // Recolección / ETD / ETA capturadas al crear quedan como plan de sus hitos
+      const { operationMilestoneService } = await import('./operation-milestone-service');
+      await operationMilestoneService.recordOperationDates(
+        { ...operation, pickUpDate: null, etd: null, eta: null },
+        operation,
+        req.session.userId!
+      );
+
+      // Invalidate cache
+      queryCache.invalidate('operations:all');
+
+      res.json(operation);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Validation error", errors: error.errors });
+      }
+      console.error("Create operation error:", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  app.patch("/api/operations/:id", requireAuth, async (req, res) => {
+    try {
+      const { id } = req.params;
+      const { employeeIds, cargo: cargoData, ...operationData } = req.body;
+      const data = insertOperationSchema.partial().parse(operationData);
+      const { operationCargoSchema } = await import("@shared/schema");
+      const cargo = cargoData !== undefined ? operationCargoSchema.parse(cargoData) : undefined;
+      const previous = await storage.getOperation(id);
+      const operation = await storage.updateOperation(id, data);
+
+      if (!previous || !operation) {
+        return res.status(404).json({ message: "Operation not found" });
+      }
+
+      // Cambios de recolección / ETD / ETA quedan en el historial de sus hitos
+      const { operationMilestoneService } = await import('./operation-milestone-service');
+      await operationMilestoneService.recordOperationDates(previous, operation, req.session.userId!);
+
+      if (employeeIds !== undefined && Array.isArray(employeeIds)) {
+        await storage.setOperationEmployees(id, employeeIds);
+      }
+
+      if (cargo) {
+        const { operationCargoService } = await import('./operation-cargo-service');
+        await operationCargoService.replaceCargo(id, cargo);
+      }
+
+      // Invalidate cache
+      queryCache.invalidate('operations:all');
+
+      res.json(operation);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Validation error", errors: error.errors });
+      }
+      console.error("Update operation error:", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  app.delete("/api/operations/:id", requireAuth, async (req, res) => {
+    try {
+      const { id } = req.params;
+      await storage.deleteOperation(id);
+
+      // Invalidate cache
+      queryCache.invalidate('operations:all');
+
+      res.json({ message: "Operation deleted successfully" });
+    } catch (error) {
+      console.error("Delete operation error:", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  // Sync automation employees to all operations
+  app.post("/api/operations/sync-employees", requireAuth, async (req, res) => {
+    try {
+      const result = await storage.syncAutomationEmployeesToOperations();
+      res.json({
+        success: true,
+        message: `Sincronizados ${result.assignmentsCreated} empleados en ${result.operationsUpdated} operaciones`,
+        ...result
+      });
+    } catch (error) {
+      console.error("Sync employees error:", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  // Invoice Routes
+  app.get("/api/invoices", requireAuth, async (req, res) => {
+    try {
+      const allInvoices = await storage.getAllInvoices();
+      res.json(allInvoices);
+    } catch (error) {
+      console.error("Get invoices error:", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  // Accounts receivable aging (current, 1-30, 31-60, 61-90, 90+ days)
+  app.get("/api/invoices/aging", requireAuth, async (req, res) => {
+    try {
+      const { groupBy, clientId, currency } = req.query;
+      const { invoiceAgingService } = await import('./invoice-aging-service');
+
+      const report = await invoiceAgingService.getAgingReport({
+        groupBy: groupBy === 'currency' ? 'currency' : 'client',
+        clientId: typeof clientId === 'string' && clientId ? clientId : undefined,
+        reportingCurrency: typeof currency === 'string' && currency ? currency : undefined,
+      });
+
+      res.json(report);
+    } catch (error) {
+      const { ExchangeRateError } = await import('./exchange-rate-service');
+      if (error instanceof ExchangeRateError) {
+        return res.status(400).json({ message: error.message });
+      }
+      console.error("Get invoice aging error:", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  app.post("/api/invoices", requireAuth, async (req, res) => {
+    try {
+      const data = insertInvoiceSchema.parse(req.body);
+      const invoice = await storage.createInvoice(data);
+      res.json(invoice);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Validation error", errors: error.errors });
+      }
+      console.error("Create invoice error:", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  app.patch("/api/invoices/:id", requireAuth, async (req, res) => {
+    try {
+      const { id } = req.params;
+      const data = insertInvoiceSchema.partial().parse(req.body);
+      const invoice = await storage.updateInvoice(id, data);
+
+      if (!invoice) {
+        return res.status(404).json({ message: "Invoice not found" });
+      }
+
+      res.json(invoice);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Validation error", errors: error.errors });
+      }
+      console.error("Update invoice error:", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  app.delete("/api/invoices/:id", requireAuth, async (req, res) => {
+    try {
+      const { id } = req.params;
+      await storage.deleteInvoice(id);
+      res.json({ message: "Invoice deleted successfully" });
+    } catch (error) {
+      console.error("Delete invoice error:", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  app.post("/api/invoices/:invoiceId/stamp", requireAuth, async (req, res) => {
+    try {
+      const { invoiceId } = req.params;
+      const { invoiceCfdiService } = await import("./invoice-cfdi-service");
+      const invoice = await invoiceCfdiService.stampInvoice(invoiceId);
+
+      res.json({ 
+        message: "Factura timbrada exitosamente",
+        folioFiscal: invoice.folioFiscal,
+        facturamId: invoice.facturamaCfdiId
+      });
+    } catch (error: any) {
+      const { InvoiceCfdiError } = await import("./invoice-cfdi-service");
+      if (error instanceof InvoiceCfdiError) {
+        return res.status(400).json({ message: error.message });
+      }
+      console.error("Stamp invoice error:", error);
+      res.status(500).json({ 
+        message: error?.message || "Error al timbrar factura" 
+      });
+    }
+  });
+
+  app.post("/api/invoices/:invoiceId/cancel", requireAuth, async (req, res) => {
+    try {
+      const { invoiceId } = req.params;
+      const { motive, replacementInvoiceNumber } = z.object({
+        motive: z.enum(['01', '02', '03', '04']),
+        replacementInvoiceNumber: z.string().optional(),
+      }).parse(req.body);
+
+      const { invoiceCfdiService } = await import("./invoice-cfdi-service");
+      const result = await invoiceCfdiService.requestCancellation(invoiceId, motive, { replacementInvoiceNumber });
+      res.json(result);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Validation error", errors: error.errors });
+      }
+      const { InvoiceCfdiError } = await import("./invoice-cfdi-service");
+      if (error instanceof InvoiceCfdiError) {
+        return res.status(400).json({ message: error.message });
+      }
+      console.error("Cancel invoice error:", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  app.post("/api/invoices/:invoiceId/cancellation/refresh", requireAuth, async (req, res) => {
+    try {
+      const { invoiceCfdiService } = await import("./invoice-cfdi-service");
+      const invoice = await invoiceCfdiService.refreshCancellationStatus(req.params.invoiceId);
+      res.json(invoice);
+    } catch (error) {
+      const { InvoiceCfdiError } = await import("./invoice-cfdi-service");
+      if (error instanceof InvoiceCfdiError) {
+        return res.status(400).json({ message: error.message });
+      }
+      console.error("Refresh invoice cancellation error:", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  app.post("/api/invoices/:invoiceId/cancellation/withdraw", requireAuth, async (req, res) => {
+    try {
+      const { invoiceCfdiService } = await import("./invoice-cfdi-service");
+      const invoice = await invoiceCfdiService.withdrawCancellation(req.params.invoiceId);
+      res.json(invoice);
+    } catch (error) {
+      const { InvoiceCfdiError } = await import("./invoice-cfdi-service");
+      if (error instanceof InvoiceCfdiError) {
+        return res.status(400).json({ message: error.message });
+      }
+      console.error("Withdraw invoice cancellation error:", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  app.get("/api/invoices/:invoiceId/cancellation/acuse", requireAuth, async (req, res) => {
+    try {
+      const { invoiceCfdiService } = await import("./invoice-cfdi-service");
+      const acuse = await invoiceCfdiService.getCancellationAcuse(req.params.invoiceId);
+      res.setHeader('Content-Type', 'application/xml');
+      res.setHeader('Content-Disposition', `attachment; filename="acuse-cancelacion-${req.params.invoiceId}.xml"`);
+      res.send(acuse);
+    } catch (error) {
+      const { InvoiceCfdiError } = await import("./invoice-cfdi-service");
+      if (error instanceof InvoiceCfdiError) {
+        return res.status(400).json({ message: error.message });
+      }
+      console.error("Download cancellation acuse error:", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  // Credit Notes (CFDI de Egreso relacionado a la factura original)
+  app.get("/api/invoices/:invoiceId/credit-notes", requireAuth, async (req, res) => {
+    try {
+      const { creditNoteService } = await import("./credit-note-service");
+      const creditNotes = await creditNoteService.getCreditNotes(req.params.invoiceId);
+      res.json(creditNotes);
+    } catch (error) {
+      console.error("Get credit notes error:", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  app.post("/api/invoices/:invoiceId/credit-notes", requireAuth, async (req, res) => {
+    try {
+      const data = z.object({
+        items: z.array(z.object({
+          invoiceItemId: z.string(),
+          quantity: z.union([z.string(), z.number()]),
+        })).optional(),
+        amount: z.union([z.string(), z.number()]).optional(),
+        description: z.string().optional(),
+        stamp: z.boolean().optional(),
+      }).parse(req.body);
+
+      const { creditNoteService } = await import("./credit-note-service");
+      const result = await creditNoteService.createCreditNote(req.params.invoiceId, data);
+      res.json(result);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Validation error", errors: error.errors });
+      }
+      const { CreditNoteError } = await import("./credit-note-service");
+      if (error instanceof CreditNoteError) {
+        return res.status(400).json({ message: error.message });
+      }
+      console.error("Create credit note error:", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  app.post("/api/invoices/reprocess-without-items", requireAuth, async (req, res) => {
+    try {
+      const { invoiceAutoAssignmentService } = await import("./invoice-auto-assignment-service");
+      const result = await invoiceAutoAssignmentService.reprocessInvoicesWithoutItems();
+      
       res.json({ 
         message: "Reprocesamiento completado",
         ...result
@@ -853,421 +1506,1246 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post("/api/proposals", requireAuth, async (req, res) => {
+  app.post("/api/proposals", requireAuth, async (req, res) => {
+    try {
+      const data = insertProposalSchema.parse(req.body);
+      const proposal = await storage.createProposal(data);
+      res.json(proposal);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Validation error", errors: error.errors });
+      }
+      console.error("Create proposal error:", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  app.patch("/api/proposals/:id", requireAuth, async (req, res) => {
+    try {
+      const { id } = req.params;
+      const data = insertProposalSchema.partial().parse(req.body);
+      const proposal = await storage.updateProposal(id, data);
+
+      if (!proposal) {
+        return res.status(404).json({ message: "Proposal not found" });
+      }
+
+      res.json(proposal);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Validation error", errors: error.errors });
+      }
+      console.error("Update proposal error:", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  app.delete("/api/proposals/:id", requireAuth, async (req, res) => {
+    try {
+      const { id } = req.params;
+      await storage.deleteProposal(id);
+      res.json({ message: "Proposal deleted successfully" });
+    } catch (error) {
+      console.error("Delete proposal error:", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  // Convert Proposal to Invoice
+  app.post("/api/proposals/:id/convert-to-invoice", requireAuth, async (req, res) => {
+    try {
+      const { id } = req.params;
+      const proposal = await storage.getProposal(id);
+
+      if (!proposal) {
+        return res.status(404).json({ message: "Proposal not found" });
+      }
+
+      if (proposal.convertedToInvoiceId) {
+        return res.status(400).json({ message: "Proposal already converted to invoice" });
+      }
+
+      if (proposal.quoteType === "freight") {
+        return res.status(400).json({ message: "Freight quotes are converted by accepting a route option" });
+      }
+
+      const proposalItems = await storage.getProposalItems(id);
+
+      const invoiceNumber = `INV-${Date.now()}`;
+      const dueDate = new Date();
+      dueDate.setDate(dueDate.getDate() + 30);
+
+      const invoice = await storage.createInvoice({
+        invoiceNumber,
+        clientId: proposal.clientId,
+        employeeId: proposal.employeeId,
+        operationId: null,
+        currency: proposal.currency,
+        subtotal: proposal.subtotal,
+        tax: proposal.tax,
+        total: proposal.total,
+        status: "draft",
+        dueDate,
+        paidDate: null,
+        notes: `Converted from proposal ${proposal.proposalNumber}`,
+      });
+
+      for (const item of proposalItems) {
+        await storage.createInvoiceItem({
+          invoiceId: invoice.id,
+          description: item.description,
+          quantity: item.quantity,
+          unitPrice: item.unitPrice,
+          amount: item.amount,
+        });
+      }
+
+      await storage.updateProposal(id, {
+        status: "converted",
+        convertedToInvoiceId: invoice.id,
+      });
+
+      res.json(invoice);
+    } catch (error) {
+      console.error("Convert proposal to invoice error:", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  // Freight quote builder: route options with buy/sell charge lines
+  app.get("/api/proposals/:id/freight-quote", requireAuth, async (req, res) => {
+    try {
+      const proposal = await storage.getProposal(req.params.id);
+      if (!proposal) {
+        return res.status(404).json({ message: "Proposal not found" });
+      }
+
+      const { freightQuoteService } = await import('./freight-quote-service');
+      const quote = await freightQuoteService.getQuote(proposal);
+      res.json(quote);
+    } catch (error) {
+      console.error("Get freight quote error:", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  app.put("/api/proposals/:id/freight-quote", requireAuth, async (req, res) => {
+    try {
+      const proposal = await storage.getProposal(req.params.id);
+      if (!proposal) {
+        return res.status(404).json({ message: "Proposal not found" });
+      }
+
+      const { freightQuoteSchema } = await import("@shared/schema");
+      const data = freightQuoteSchema.parse(req.body);
+      const { freightQuoteService } = await import('./freight-quote-service');
+      const quote = await freightQuoteService.replaceQuote(proposal, data);
+      res.json(quote);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Validation error", errors: error.errors });
+      }
+      const { FreightQuoteError } = await import('./freight-quote-service');
+      if (error instanceof FreightQuoteError) {
+        return res.status(400).json({ message: error.message });
+      }
+      console.error("Save freight quote error:", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  // Client accepted a route option: creates the operation and the invoice draft
+  app.post("/api/proposals/:id/accept", requireAuth, async (req, res) => {
+    try {
+      const proposal = await storage.getProposal(req.params.id);
+      if (!proposal) {
+        return res.status(404).json({ message: "Proposal not found" });
+      }
+
+      const { optionId } = z.object({ optionId: z.string().min(1) }).parse(req.body);
+      const { freightQuoteService } = await import('./freight-quote-service');
+      const result = await freightQuoteService.acceptQuote(proposal, optionId, req.session.userId!);
+
+      queryCache.invalidate('operations:all');
+
+      res.json(result);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Validation error", errors: error.errors });
+      }
+      const { FreightQuoteError } = await import('./freight-quote-service');
+      if (error instanceof FreightQuoteError) {
+        return res.status(400).json({ message: error.message });
+      }
+      console.error("Accept freight quote error:", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  app.get("/api/proposals/:id/pdf", requireAuth, async (req, res) => {
+    try {
+      const proposal = await storage.getProposal(req.params.id);
+      if (!proposal) {
+        return res.status(404).json({ message: "Proposal not found" });
+      }
+
+      const { freightQuoteService } = await import('./freight-quote-service');
+      const pdf = await freightQuoteService.generatePdf(proposal);
+      res.setHeader('Content-Type', 'application/pdf');
+      res.setHeader('Content-Disposition', `inline; filename="cotizacion-${proposal.proposalNumber}.pdf"`);
+      res.send(pdf);
+    } catch (error) {
+      console.error("Generate proposal PDF error:", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  // Invoice Items Routes
+  app.get("/api/invoices/:invoiceId/items", requireAuth, async (req, res) => {
+    try {
+      const { invoiceId } = req.params;
+      const items = await storage.getInvoiceItems(invoiceId);
+      res.json(items);
+    } catch (error) {
+      console.error("Get invoice items error:", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  app.post("/api/invoices/:invoiceId/items", requireAuth, async (req, res) => {
+    try {
+      const { invoiceId } = req.params;
+      const { insertInvoiceItemSchema } = await import("@shared/schema");
+      const data = insertInvoiceItemSchema.parse({ ...req.body, invoiceId });
+      const item = await storage.createInvoiceItem(data);
+      res.json(item);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Validation error", errors: error.errors });
+      }
+      console.error("Create invoice item error:", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  app.patch("/api/invoice-items/:id", requireAuth, async (req, res) => {
+    try {
+      const { id } = req.params;
+      const { insertInvoiceItemSchema } = await import("@shared/schema");
+      const data = insertInvoiceItemSchema.partial().parse(req.body);
+      const item = await storage.updateInvoiceItem(id, data);
+
+      if (!item) {
+        return res.status(404).json({ message: "Invoice item not found" });
+      }
+
+      res.json(item);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Validation error", errors: error.errors });
+      }
+      console.error("Update invoice item error:", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  app.delete("/api/invoice-items/:id", requireAuth, async (req, res) => {
+    try {
+      const { id } = req.params;
+      await storage.deleteInvoiceItem(id);
+      res.json({ message: "Invoice item deleted successfully" });
+    } catch (error) {
+      console.error("Delete invoice item error:", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  // Proposal Items Routes
+  app.get("/api/proposals/:proposalId/items", requireAuth, async (req, res) => {
+    try {
+      const { proposalId } = req.params;
+      const items = await storage.getProposalItems(proposalId);
+      res.json(items);
+    } catch (error) {
+      console.error("Get proposal items error:", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  app.post("/api/proposals/:proposalId/items", requireAuth, async (req, res) => {
+    try {
+      const { proposalId } = req.params;
+      const { insertProposalItemSchema } = await import("@shared/schema");
+      const data = insertProposalItemSchema.parse({ ...req.body, proposalId });
+      const item = await storage.createProposalItem(data);
+      res.json(item);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Validation error", errors: error.errors });
+      }
+      console.error("Create proposal item error:", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  app.patch("/api/proposal-items/:id", requireAuth, async (req, res) => {
+    try {
+      const { id } = req.params;
+      const { insertProposalItemSchema } = await import("@shared/schema");
+      const data = insertProposalItemSchema.partial().parse(req.body);
+      const item = await storage.updateProposalItem(id, data);
+
+      if (!item) {
+        return res.status(404).json({ message: "Proposal item not found" });
+      }
+
+      res.json(item);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Validation error", errors: error.errors });
+      }
+      console.error("Update proposal item error:", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  app.delete("/api/proposal-items/:id", requireAuth, async (req, res) => {
+    try {
+      const { id } = req.params;
+      await storage.deleteProposalItem(id);
+      res.json({ message: "Proposal item deleted successfully" });
+    } catch (error) {
+      console.error("Delete proposal item error:", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  // Payments Routes
+  app.get("/api/invoices/:invoiceId/payments", requireAuth, async (req, res) => {
+    try {
+      const { invoiceId } = req.params;
+      const payments = await storage.getPayments(invoiceId);
+      res.json(payments);
+    } catch (error) {
+      console.error("Get payments error:", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  app.post("/api/invoices/:invoiceId/payments", requireAuth, async (req, res) => {
+    try {
+      const { invoiceId } = req.params;
+      const { insertPaymentSchema } = await import("@shared/schema");
+      const { invoiceBalanceService } = await import('./invoice-balance-service');
+      const data = insertPaymentSchema.parse({ ...req.body, invoiceId });
+      // reject (default): un pago mayor al saldo pendiente se rechaza; credit: el excedente queda a favor del cliente
+      const overpaymentHandling = z.enum(['reject', 'credit']).default('reject').parse(req.body.overpaymentHandling);
+
+      const invoice = await storage.getInvoice(invoiceId);
+      if (!invoice) {
+        return res.status(404).json({ message: "Invoice not found" });
+      }
+
+      const { payment, clientCredit } = await invoiceBalanceService.recordPayment({ ...data, invoiceId }, overpaymentHandling);
+
+      // Facturas PPD timbradas: timbrar el complemento de pago sin bloquear el registro
+      const { paymentComplementService } = await import('./payment-complement-service');
+      const complementExchangeRate = z.string().optional().parse(req.body.complementExchangeRate);
+      await paymentComplementService.generateInBackground(payment, { exchangeRate: complementExchangeRate });
+
+      res.json(clientCredit ? { ...payment, clientCredit } : payment);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Validation error", errors: error.errors });
+      }
+      const { InvoiceBalanceError } = await import('./invoice-balance-service');
+      if (error instanceof InvoiceBalanceError) {
+        return res.status(400).json({ message: error.message, balanceDue: error.balanceDue, excess: error.excess });
+      }
+      console.error("Create payment error:", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  app.patch("/api/payments/:id", requireAuth, async (req, res) => {
+    try {
+      const { id } = req.params;
+      const { insertPaymentSchema } = await import("@shared/schema");
+      const { invoiceBalanceService } = await import('./invoice-balance-service');
+      const data = insertPaymentSchema.partial().parse(req.body);
+
+      const existing = await storage.getPayment(id);
+      if (!existing) {
+        return res.status(404).json({ message: "Payment not found" });
+      }
+
+      // Cambios que alteran lo documentado en un complemento de pago
+      const fiscalFields = ['amount', 'invoiceId', 'paymentDate', 'paymentMethod', 'currency'] as const;
+      if (fiscalFields.some(field => data[field] !== undefined && String(data[field]) !== String(existing[field]))) {
+        const { paymentComplementService } = await import('./payment-complement-service');
+        await paymentComplementService.releasePayment(id);
+      }
+
+      // Validación del saldo y actualización bajo el bloqueo de la factura
+      const payment = await invoiceBalanceService.updatePayment(id, data);
+
+      if (!payment) {
+        return res.status(404).json({ message: "Payment not found" });
+      }
+
+      res.json(payment);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Validation error", errors: error.errors });
+      }
+      const { InvoiceBalanceError } = await import('./invoice-balance-service');
+      if (error instanceof InvoiceBalanceError) {
+        return res.status(400).json({ message: error.message, balanceDue: error.balanceDue, excess: error.excess });
+      }
+      const { PaymentComplementError } = await import('./payment-complement-service');
+      if (error instanceof PaymentComplementError) {
+        return res.status(400).json({ message: error.message });
+      }
+      console.error("Update payment error:", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  app.delete("/api/payments/:id", requireAuth, async (req, res) => {
+    try {
+      const { id } = req.params;
+      const { paymentComplementService } = await import('./payment-complement-service');
+      await paymentComplementService.releasePayment(id);
+      await storage.deletePayment(id);
+      res.json({ message: "Payment deleted successfully" });
+    } catch (error) {
+      const { PaymentComplementError } = await import('./payment-complement-service');
+      if (error instanceof PaymentComplementError) {
+        return res.status(400).json({ message: error.message });
+      }
+      console.error("Delete payment error:", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  // Payment Complements (CFDI tipo P para facturas PPD)
+  app.get("/api/invoices/:invoiceId/payment-complements", requireAuth, async (req, res) => {
+    try {
+      const { paymentComplementService } = await import('./payment-complement-service');
+      const complements = await paymentComplementService.getByInvoice(req.params.invoiceId);
+      res.json(complements);
+    } catch (error) {
+      console.error("Get payment complements error:", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  app.post("/api/payments/:id/payment-complement", requireAuth, async (req, res) => {
+    try {
+      const { paymentComplementService } = await import('./payment-complement-service');
+      const { exchangeRate } = z.object({ exchangeRate: z.string().optional() }).parse(req.body);
+      const complement = await paymentComplementService.generateForPayment(req.params.id, { exchangeRate });
+      res.json(complement);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Validation error", errors: error.errors });
+      }
+      const { PaymentComplementError } = await import('./payment-complement-service');
+      if (error instanceof PaymentComplementError) {
+        return res.status(400).json({ message: error.message });
+      }
+      console.error("Stamp payment complement error:", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  app.get("/api/payment-complements/:id/download/:format", requireAuth, async (req, res) => {
+    try {
+      const format = z.enum(['xml', 'pdf']).parse(req.params.format);
+      const { paymentComplementService } = await import('./payment-complement-service');
+      const file = await paymentComplementService.getFile(req.params.id, format);
+      res.setHeader('Content-Type', file.mimeType);
+      res.setHeader('Content-Disposition', `attachment; filename="${file.fileName}"`);
+      res.send(file.buffer);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Validation error", errors: error.errors });
+      }
+      const { PaymentComplementError } = await import('./payment-complement-service');
+      if (error instanceof PaymentComplementError) {
+        return res.status(400).json({ message: error.message });
+      }
+      console.error("Download payment complement error:", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  // Operation Payments Routes
+  app.get("/api/operations/:operationId/payments", requireAuth, async (req, res) => {
+    try {
+      const { operationId } = req.params;
+      const payments = await storage.getPaymentsByOperation(operationId);
+      res.json(payments);
+    } catch (error) {
+      console.error("Get operation payments error:", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  app.post("/api/operations/:operationId/payments", requireAuth, async (req, res) => {
+    try {
+      const { operationId } = req.params;
+      const { insertPaymentSchema } = await import("@shared/schema");
+      const data = insertPaymentSchema.parse({ ...req.body, operationId });
+      const payment = await storage.createPayment(data);
+      const { paymentComplementService } = await import('./payment-complement-service');
+      await paymentComplementService.generateInBackground(payment);
+      res.json(payment);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Validation error", errors: error.errors });
+      }
+      console.error("Create operation payment error:", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  // Operation Invoices Routes
+  app.get("/api/operations/:operationId/invoices", requireAuth, async (req, res) => {
+    try {
+      const { operationId } = req.params;
+      const invoices = await storage.getInvoicesByOperation(operationId);
+      res.json(invoices);
+    } catch (error) {
+      console.error("Get operation invoices error:", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  // Exchange Rate Routes (MXN por unidad de moneda, por día)
+  app.get("/api/exchange-rates", requireAuth, async (req, res) => {
+    try {
+      const { currency, from, to } = req.query;
+      const { exchangeRateService } = await import('./exchange-rate-service');
+      const rates = await exchangeRateService.getRates({
+        currency: typeof currency === 'string' && currency ? currency : undefined,
+        from: typeof from === 'string' && from ? new Date(from) : undefined,
+        to: typeof to === 'string' && to ? new Date(to) : undefined,
+      });
+      res.json(rates);
+    } catch (error) {
+      console.error("Get exchange rates error:", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  // Rate in effect for a currency on a date (last published on or before it)
+  app.get("/api/exchange-rates/lookup", requireAuth, async (req, res) => {
+    try {
+      const { currency, date } = z.object({
+        currency: z.string().min(3),
+        date: z.string().optional(),
+      }).parse(req.query);
+      const { exchangeRateService } = await import('./exchange-rate-service');
+      const rate = await exchangeRateService.getRate(currency, date ? new Date(date) : new Date());
+      res.json({ currency, rate });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Validation error", errors: error.errors });
+      }
+      const { ExchangeRateError } = await import('./exchange-rate-service');
+      if (error instanceof ExchangeRateError) {
+        return res.status(404).json({ message: error.message });
+      }
+      console.error("Lookup exchange rate error:", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  app.post("/api/exchange-rates", requireAuth, async (req, res) => {
+    try {
+      const { insertExchangeRateSchema } = await import("@shared/schema");
+      const data = insertExchangeRateSchema.parse({
+        ...req.body,
+        source: 'manual',
+        createdById: req.session.userId,
+      });
+      const { exchangeRateService } = await import('./exchange-rate-service');
+      const { rate } = await exchangeRateService.upsertRate(data);
+      res.json(rate);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Validation error", errors: error.errors });
+      }
+      const { ExchangeRateError } = await import('./exchange-rate-service');
+      if (error instanceof ExchangeRateError) {
+        return res.status(400).json({ message: error.message });
+      }
+      console.error("Create exchange rate error:", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  // Import Banxico FIX rates (SIE CSV export or API JSON)
+  app.post("/api/exchange-rates/import-banxico", requireAuth, async (req, res) => {
+    try {
+      const { content } = req.body;
+
+      if (!content) {
+        return res.status(400).json({ message: "Missing required fields" });
+      }
+
+      const { exchangeRateService } = await import('./exchange-rate-service');
+      const result = await exchangeRateService.importBanxicoFile(content, req.session.userId);
+      res.json(result);
+    } catch (error) {
+      const { ExchangeRateError } = await import('./exchange-rate-service');
+      if (error instanceof ExchangeRateError) {
+        return res.status(400).json({ message: error.message });
+      }
+      console.error("Import Banxico exchange rates error:", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  app.delete("/api/exchange-rates/:id", requireAuth, async (req, res) => {
+    try {
+      const { exchangeRateService } = await import('./exchange-rate-service');
+      await exchangeRateService.deleteRate(req.params.id);
+      res.json({ message: "Exchange rate deleted successfully" });
+    } catch (error) {
+      console.error("Delete exchange rate error:", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  // Supplier Bills (accounts payable)
+  app.get("/api/supplier-bills", requireAuth, async (req, res) => {
+    try {
+      const { supplierId, operationId, status } = req.query;
+      const { supplierBillService } = await import('./supplier-bill-service');
+      const bills = await supplierBillService.getBills({
+        supplierId: typeof supplierId === 'string' && supplierId ? supplierId : undefined,
+        operationId: typeof operationId === 'string' && operationId ? operationId : undefined,
+        status: typeof status === 'string' && status ? status : undefined,
+      });
+      res.json(bills);
+    } catch (error) {
+      console.error("Get supplier bills error:", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  // Open bills with overdue / next-7-days / scheduled totals per currency
+  app.get("/api/supplier-bills/payables", requireAuth, async (req, res) => {
+    try {
+      const { supplierId } = req.query;
+      const { supplierBillService } = await import('./supplier-bill-service');
+      const report = await supplierBillService.getAccountsPayable({
+        supplierId: typeof supplierId === 'string' && supplierId ? supplierId : undefined,
+      });
+      res.json(report);
+    } catch (error) {
+      console.error("Get accounts payable error:", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  app.post("/api/supplier-bills", requireAuth, async (req, res) => {
+    try {
+      const { insertSupplierBillSchema } = await import("@shared/schema");
+      const data = insertSupplierBillSchema.parse({ ...req.body, source: 'manual' });
+      const { supplierBillService } = await import('./supplier-bill-service');
+      const bill = await supplierBillService.createBill(data);
+      res.json(bill);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Validation error", errors: error.errors });
+      }
+      const { SupplierBillError } = await import('./supplier-bill-service');
+      if (error instanceof SupplierBillError) {
+        return res.status(400).json({ message: error.message });
+      }
+      console.error("Create supplier bill error:", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  // Create a supplier bill from a received CFDI XML (we are the receptor)
+  app.post("/api/supplier-bills/import-cfdi", requireAuth, async (req, res) => {
+    try {
+      const { content, filename, operationId } = req.body;
+
+      if (!content) {
+        return res.status(400).json({ message: "Missing required fields" });
+      }
+
+      const { supplierBillService } = await import('./supplier-bill-service');
+      const result = await supplierBillService.importCfdiXml(content, filename || 'cfdi.xml', operationId || null);
+      res.json(result);
+    } catch (error) {
+      const { SupplierBillError } = await import('./supplier-bill-service');
+      if (error instanceof SupplierBillError) {
+        return res.status(400).json({ message: error.message });
+      }
+      console.error("Import supplier CFDI error:", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  app.patch("/api/supplier-bills/:id", requireAuth, async (req, res) => {
     try {
-      const data = insertProposalSchema.parse(req.body);
-      const proposal = await storage.createProposal(data);
-      res.json(proposal);
+      const { insertSupplierBillSchema } = await import("@shared/schema");
+      const data = insertSupplierBillSchema.partial().parse(req.body);
+      const { supplierBillService } = await import('./supplier-bill-service');
+      const bill = await supplierBillService.updateBill(req.params.id, data);
+      if (!bill) {
+        return res.status(404).json({ message: "Supplier bill not found" });
+      }
+      res.json(bill);
     } catch (error) {
       if (error instanceof z.ZodError) {
         return res.status(400).json({ message: "Validation error", errors: error.errors });
       }
-      console.error("Create proposal error:", error);
+      const { SupplierBillError } = await import('./supplier-bill-service');
+      if (error instanceof SupplierBillError) {
+        return res.status(400).json({ message: error.message });
+      }
+      console.error("Update supplier bill error:", error);
       res.status(500).json({ message: "Internal server error" });
     }
   });
 
-  app.patch("/api/proposals/:id", requireAuth, async (req, res) => {
+  // Schedule (or unschedule with scheduledPaymentDate: null) a bill payment
+  app.post("/api/supplier-bills/:id/schedule", requireAuth, async (req, res) => {
     try {
-      const { id } = req.params;
-      const data = insertProposalSchema.partial().parse(req.body);
-      const proposal = await storage.updateProposal(id, data);
+      const data = z.object({
+        scheduledPaymentDate: z.string().nullable(),
+        scheduledBankAccountId: z.string().nullable().optional(),
+      }).parse(req.body);
 
-      if (!proposal) {
-        return res.status(404).json({ message: "Proposal not found" });
+      const { supplierBillService } = await import('./supplier-bill-service');
+      const bill = await supplierBillService.schedulePayment(
+        req.params.id,
+        data.scheduledPaymentDate ? new Date(data.scheduledPaymentDate) : null,
+        data.scheduledBankAccountId || null
+      );
+      if (!bill) {
+        return res.status(404).json({ message: "Supplier bill not found" });
       }
-
-      res.json(proposal);
+      res.json(bill);
     } catch (error) {
       if (error instanceof z.ZodError) {
         return res.status(400).json({ message: "Validation error", errors: error.errors });
       }
-      console.error("Update proposal error:", error);
+      const { SupplierBillError } = await import('./supplier-bill-service');
+      if (error instanceof SupplierBillError) {
+        return res.status(400).json({ message: error.message });
+      }
+      console.error("Schedule supplier bill error:", error);
       res.status(500).json({ message: "Internal server error" });
     }
   });
 
-  app.delete("/api/proposals/:id", requireAuth, async (req, res) => {
+  app.post("/api/supplier-bills/:id/cancel", requireAuth, async (req, res) => {
     try {
-      const { id } = req.params;
-      await storage.deleteProposal(id);
-      res.json({ message: "Proposal deleted successfully" });
+      const { supplierBillService } = await import('./supplier-bill-service');
+      const bill = await supplierBillService.cancelBill(req.params.id);
+      if (!bill) {
+        return res.status(404).json({ message: "Supplier bill not found" });
+      }
+      res.json(bill);
     } catch (error) {
-      console.error("Delete proposal error:", error);
+      const { SupplierBillError } = await import('./supplier-bill-service');
+      if (error instanceof SupplierBillError) {
+        return res.status(400).json({ message: error.message });
+      }
+      console.error("Cancel supplier bill error:", error);
       res.status(500).json({ message: "Internal server error" });
     }
   });
 
-  // Convert Proposal to Invoice
-  app.post("/api/proposals/:id/convert-to-invoice", requireAuth, async (req, res) => {
+  app.delete("/api/supplier-bills/:id", requireAuth, async (req, res) => {
     try {
-      const { id } = req.params;
-      const proposal = await storage.getProposal(id);
-
-      if (!proposal) {
-        return res.status(404).json({ message: "Proposal not found" });
-      }
-
-      if (proposal.convertedToInvoiceId) {
-        return res.status(400).json({ message: "Proposal already converted to invoice" });
-      }
-
-      const proposalItems = await storage.getProposalItems(id);
-
-      const invoiceNumber = `INV-${Date.now()}`;
-      const dueDate = new Date();
-      dueDate.setDate(dueDate.getDate() + 30);
-
-      const invoice = await storage.createInvoice({
-        invoiceNumber,
-        clientId: proposal.clientId,
-        employeeId: proposal.employeeId,
-        operationId: null,
-        currency: proposal.currency,
-        subtotal: proposal.subtotal,
-        tax: proposal.tax,
-        total: proposal.total,
-        status: "draft",
-        dueDate,
-        paidDate: null,
-        notes: `Converted from proposal ${proposal.proposalNumber}`,
-      });
-
-      for (const item of proposalItems) {
-        await storage.createInvoiceItem({
-          invoiceId: invoice.id,
-          description: item.description,
-          quantity: item.quantity,
-          unitPrice: item.unitPrice,
-          amount: item.amount,
-        });
+      const { supplierBillService } = await import('./supplier-bill-service');
+      const deleted = await supplierBillService.deleteBill(req.params.id);
+      if (!deleted) {
+        return res.status(404).json({ message: "Supplier bill not found" });
       }
-
-      await storage.updateProposal(id, {
-        status: "converted",
-        convertedToInvoiceId: invoice.id,
-      });
-
-      res.json(invoice);
+      res.json({ message: "Supplier bill deleted successfully" });
     } catch (error) {
-      console.error("Convert proposal to invoice error:", error);
+      const { SupplierBillError } = await import('./supplier-bill-service');
+      if (error instanceof SupplierBillError) {
+        return res.status(400).json({ message: error.message });
+      }
+      console.error("Delete supplier bill error:", error);
       res.status(500).json({ message: "Internal server error" });
     }
   });
 
-  // Invoice Items Routes
-  app.get("/api/invoices/:invoiceId/items", requireAuth, async (req, res) => {
+  app.get("/api/supplier-bills/:id/payments", requireAuth, async (req, res) => {
     try {
-      const { invoiceId } = req.params;
-      const items = await storage.getInvoiceItems(invoiceId);
-      res.json(items);
+      const { supplierBillService } = await import('./supplier-bill-service');
+      const payments = await supplierBillService.getPayments(req.params.id);
+      res.json(payments);
     } catch (error) {
-      console.error("Get invoice items error:", error);
+      console.error("Get supplier bill payments error:", error);
       res.status(500).json({ message: "Internal server error" });
     }
   });
 
-  app.post("/api/invoices/:invoiceId/items", requireAuth, async (req, res) => {
+  app.post("/api/supplier-bills/:id/payments", requireAuth, async (req, res) => {
     try {
-      const { invoiceId } = req.params;
-      const { insertInvoiceItemSchema } = await import("@shared/schema");
-      const data = insertInvoiceItemSchema.parse({ ...req.body, invoiceId });
-      const item = await storage.createInvoiceItem(data);
-      res.json(item);
+      const { insertSupplierBillPaymentSchema } = await import("@shared/schema");
+      const data = insertSupplierBillPaymentSchema.omit({ supplierBillId: true, currency: true }).parse(req.body);
+      const { supplierBillService } = await import('./supplier-bill-service');
+      const result = await supplierBillService.recordPayment(req.params.id, data);
+      res.json(result);
     } catch (error) {
       if (error instanceof z.ZodError) {
         return res.status(400).json({ message: "Validation error", errors: error.errors });
       }
-      console.error("Create invoice item error:", error);
+      const { SupplierBillError } = await import('./supplier-bill-service');
+      if (error instanceof SupplierBillError) {
+        return res.status(400).json({ message: error.message });
+      }
+      console.error("Create supplier bill payment error:", error);
       res.status(500).json({ message: "Internal server error" });
     }
   });
 
-  app.patch("/api/invoice-items/:id", requireAuth, async (req, res) => {
+  app.delete("/api/supplier-bills/:id/payments/:paymentId", requireAuth, async (req, res) => {
     try {
-      const { id } = req.params;
-      const { insertInvoiceItemSchema } = await import("@shared/schema");
-      const data = insertInvoiceItemSchema.partial().parse(req.body);
-      const item = await storage.updateInvoiceItem(id, data);
-
-      if (!item) {
-        return res.status(404).json({ message: "Invoice item not found" });
+      const { supplierBillService } = await import('./supplier-bill-service');
+      const bill = await supplierBillService.deletePayment(req.params.id, req.params.paymentId);
+      if (!bill) {
+        return res.status(404).json({ message: "Payment not found" });
       }
-
-      res.json(item);
+      res.json(bill);
     } catch (error) {
-      if (error instanceof z.ZodError) {
-        return res.status(400).json({ message: "Validation error", errors: error.errors });
-      }
-      console.error("Update invoice item error:", error);
+      console.error("Delete supplier bill payment error:", error);
       res.status(500).json({ message: "Internal server error" });
     }
   });
 
-  app.delete("/api/invoice-items/:id", requireAuth, async (req, res) => {
+  // Bank Account Routes
+  app.get("/api/bank-accounts", requireAuth, async (req, res) => {
     try {
-      const { id } = req.params;
-      await storage.deleteInvoiceItem(id);
-      res.json({ message: "Invoice item deleted successfully" });
+      const accounts = await storage.getAllBankAccounts();
+      res.json(accounts);
     } catch (error) {
-      console.error("Delete invoice item error:", error);
+      console.error("Get bank accounts error:", error);
       res.status(500).json({ message: "Internal server error" });
     }
   });
 
-  // Proposal Items Routes
-  app.get("/api/proposals/:proposalId/items", requireAuth, async (req, res) => {
+  // Sum of active account balances converted to a reporting currency at today's rate
+  app.get("/api/bank-accounts/consolidated-balance", requireAuth, async (req, res) => {
     try {
-      const { proposalId } = req.params;
-      const items = await storage.getProposalItems(proposalId);
-      res.json(items);
+      const currency = typeof req.query.currency === 'string' && req.query.currency ? req.query.currency : 'MXN';
+      const { exchangeRateService } = await import('./exchange-rate-service');
+      const converter = exchangeRateService.createConverter(currency);
+      const now = new Date();
+
+      const accounts = (await storage.getAllBankAccounts()).filter(account => account.isActive);
+      const converted = await Promise.all(accounts.map(account =>
+        converter.convert(parseFloat(account.currentBalance), account.currency, now)
+      ));
+      const total = Math.round(converted.reduce((sum, amount) => sum + amount, 0) * 100) / 100;
+
+      res.json({ currency, total, accountCount: accounts.length, asOf: now.toISOString() });
     } catch (error) {
-      console.error("Get proposal items error:", error);
+      const { ExchangeRateError } = await import('./exchange-rate-service');
+      if (error instanceof ExchangeRateError) {
+        return res.status(400).json({ message: error.message });
+      }
+      console.error("Get consolidated bank balance error:", error);
       res.status(500).json({ message: "Internal server error" });
     }
   });
 
-  app.post("/api/proposals/:proposalId/items", requireAuth, async (req, res) => {
+  app.post("/api/bank-accounts", requireAuth, async (req, res) => {
     try {
-      const { proposalId } = req.params;
-      const { insertProposalItemSchema } = await import("@shared/schema");
-      const data = insertProposalItemSchema.parse({ ...req.body, proposalId });
-      const item = await storage.createProposalItem(data);
-      res.json(item);
+      const data = insertBankAccountSchema.parse(req.body);
+      const account = await storage.createBankAccount(data);
+      res.json(account);
     } catch (error) {
       if (error instanceof z.ZodError) {
         return res.status(400).json({ message: "Validation error", errors: error.errors });
       }
-      console.error("Create proposal item error:", error);
+      console.error("Create bank account error:", error);
       res.status(500).json({ message: "Internal server error" });
     }
   });
 
-  app.patch("/api/proposal-items/:id", requireAuth, async (req, res) => {
+  app.patch("/api/bank-accounts/:id", requireAuth, async (req, res) => {
     try {
       const { id } = req.params;
-      const { insertProposalItemSchema } = await import("@shared/schema");
-      const data = insertProposalItemSchema.partial().parse(req.body);
-      const item = await storage.updateProposalItem(id, data);
+      const data = insertBankAccountSchema.partial().parse(req.body);
+      const account = await storage.updateBankAccount(id, data);
 
-      if (!item) {
-        return res.status(404).json({ message: "Proposal item not found" });
+      if (!account) {
+        return res.status(404).json({ message: "Bank account not found" });
       }
 
-      res.json(item);
+      res.json(account);
     } catch (error) {
       if (error instanceof z.ZodError) {
         return res.status(400).json({ message: "Validation error", errors: error.errors });
       }
-      console.error("Update proposal item error:", error);
+      console.error("Update bank account error:", error);
       res.status(500).json({ message: "Internal server error" });
     }
   });
 
-  app.delete("/api/proposal-items/:id", requireAuth, async (req, res) => {
+  app.delete("/api/bank-accounts/:id", requireAuth, async (req, res) => {
     try {
       const { id } = req.params;
-      await storage.deleteProposalItem(id);
-      res.json({ message: "Proposal item deleted successfully" });
+      await storage.deleteBankAccount(id);
+      res.json({ message: "Bank account deleted successfully" });
     } catch (error) {
-      console.error("Delete proposal item error:", error);
+      console.error("Delete bank account error:", error);
       res.status(500).json({ message: "Internal server error" });
     }
   });
 
-  // Payments Routes
-  app.get("/api/invoices/:invoiceId/payments", requireAuth, async (req, res) => {
+  // Get bank account by ID
+  app.get("/api/bank-accounts/:id", requireAuth, async (req, res) => {
     try {
-      const { invoiceId } = req.params;
-      const payments = await storage.getPayments(invoiceId);
+      const { id } = req.params;
+      const account = await storage.getBankAccount(id);
+      
+      if (!account) {
+        return res.status(404).json({ message: "Bank account not found" });
+      }
+      
+      res.json(account);
+    } catch (error) {
+      console.error("Get bank account error:", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  // Get payments by bank account
+  app.get("/api/bank-accounts/:id/payments", requireAuth, async (req, res) => {
+    try {
+      const { id } = req.params;
+      const payments = await storage.getPaymentsByBankAccount(id);
       res.json(payments);
     } catch (error) {
-      console.error("Get payments error:", error);
+      console.error("Get payments by bank account error:", error);
       res.status(500).json({ message: "Internal server error" });
     }
   });
 
-  app.post("/api/invoices/:invoiceId/payments", requireAuth, async (req, res) => {
+  // Get expenses by bank account
+  app.get("/api/bank-accounts/:id/expenses", requireAuth, async (req, res) => {
     try {
-      const { invoiceId } = req.params;
-      const { insertPaymentSchema } = await import("@shared/schema");
-      const data = insertPaymentSchema.parse({ ...req.body, invoiceId });
-      const payment = await storage.createPayment(data);
-      res.json(payment);
+      const { id } = req.params;
+      const expenses = await storage.getExpensesByBankAccount(id);
+      res.json(expenses);
     } catch (error) {
-      if (error instanceof z.ZodError) {
-        return res.status(400).json({ message: "Validation error", errors: error.errors });
+      console.error("Get expenses by bank account error:", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  // Bank ledger statement with running balances
+  app.get("/api/bank-accounts/:id/ledger", requireAuth, async (req, res) => {
+    try {
+      const { id } = req.params;
+      const { from, to } = req.query;
+      const { bankLedgerService } = await import('./bank-ledger-service');
+
+      const statement = await bankLedgerService.getStatement(
+        id,
+        typeof from === 'string' && from ? new Date(from) : undefined,
+        typeof to === 'string' && to ? new Date(to) : undefined
+      );
+
+      if (!statement) {
+        return res.status(404).json({ message: "Bank account not found" });
       }
-      console.error("Create payment error:", error);
+
+      res.json(statement);
+    } catch (error) {
+      console.error("Get bank ledger error:", error);
       res.status(500).json({ message: "Internal server error" });
     }
   });
 
-  app.patch("/api/payments/:id", requireAuth, async (req, res) => {
+  // Manual ledger adjustment (e.g. opening balance correction)
+  app.post("/api/bank-accounts/:id/ledger/adjustments", requireAuth, async (req, res) => {
     try {
       const { id } = req.params;
-      const { insertPaymentSchema } = await import("@shared/schema");
-      const data = insertPaymentSchema.partial().parse(req.body);
-      const payment = await storage.updatePayment(id, data);
+      const { insertBankLedgerEntrySchema } = await import("@shared/schema");
+      const { bankLedgerService } = await import('./bank-ledger-service');
 
-      if (!payment) {
-        return res.status(404).json({ message: "Payment not found" });
+      const account = await storage.getBankAccount(id);
+      if (!account) {
+        return res.status(404).json({ message: "Bank account not found" });
       }
 
-      res.json(payment);
+      const data = insertBankLedgerEntrySchema.parse({
+        ...req.body,
+        bankAccountId: id,
+        entryType: 'adjustment',
+        createdById: req.session.userId,
+      });
+      const entry = await bankLedgerService.createAdjustment(data);
+      res.json(entry);
     } catch (error) {
       if (error instanceof z.ZodError) {
         return res.status(400).json({ message: "Validation error", errors: error.errors });
       }
-      console.error("Update payment error:", error);
+      console.error("Create bank ledger adjustment error:", error);
       res.status(500).json({ message: "Internal server error" });
     }
   });
 
-  app.delete("/api/payments/:id", requireAuth, async (req, res) => {
+  app.delete("/api/bank-accounts/:id/ledger/adjustments/:entryId", requireAuth, async (req, res) => {
+    try {
+      const { id, entryId } = req.params;
+      const { bankLedgerService } = await import('./bank-ledger-service');
+
+      const deleted = await bankLedgerService.deleteAdjustment(id, entryId);
+      if (!deleted) {
+        return res.status(404).json({ message: "Adjustment not found" });
+      }
+
+      res.json({ message: "Adjustment deleted successfully" });
+    } catch (error) {
+      console.error("Delete bank ledger adjustment error:", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  // Rebuild ledger from payments/expenses and recompute balance from initialBalance
+  app.post("/api/bank-accounts/:id/ledger/recompute", requireAuth, async (req, res) => {
     try {
       const { id } = req.params;
-      await storage.deletePayment(id);
-      res.json({ message: "Payment deleted successfully" });
+      const { bankLedgerService } = await import('./bank-ledger-service');
+
+      const account = await bankLedgerService.rebuildAccount(id);
+      if (!account) {
+        return res.status(404).json({ message: "Bank account not found" });
+      }
+
+      res.json(account);
     } catch (error) {
-      console.error("Delete payment error:", error);
+      console.error("Recompute bank ledger error:", error);
       res.status(500).json({ message: "Internal server error" });
     }
   });
 
-  // Operation Payments Routes
-  app.get("/api/operations/:operationId/payments", requireAuth, async (req, res) => {
+  // Bank statement import (CSV, OFX, CAMT.053) with auto-match
+  app.post("/api/bank-accounts/:id/statements/import", requireAuth, async (req, res) => {
     try {
-      const { operationId } = req.params;
-      const payments = await storage.getPaymentsByOperation(operationId);
-      res.json(payments);
+      const { id } = req.params;
+      const { fileName, content, format } = req.body;
+
+      if (!fileName || !content) {
+        return res.status(400).json({ message: "Missing required fields" });
+      }
+      if (format && !['csv', 'ofx', 'camt053'].includes(format)) {
+        return res.status(400).json({ message: "Unsupported statement format" });
+      }
+
+      const { bankReconciliationService } = await import('./bank-reconciliation-service');
+      const result = await bankReconciliationService.importStatement({
+        bankAccountId: id,
+        fileName,
+        content,
+        format,
+        uploadedById: req.session.userId,
+      });
+
+      res.json(result);
     } catch (error) {
-      console.error("Get operation payments error:", error);
+      const { ReconciliationError } = await import('./bank-reconciliation-service');
+      const { BankStatementParseError } = await import('./bank-statement-parser');
+      if (error instanceof ReconciliationError || error instanceof BankStatementParseError) {
+        return res.status(400).json({ message: error.message });
+      }
+      console.error("Import bank statement error:", error);
       res.status(500).json({ message: "Internal server error" });
     }
   });
 
-  app.post("/api/operations/:operationId/payments", requireAuth, async (req, res) => {
+  app.get("/api/bank-accounts/:id/statements", requireAuth, async (req, res) => {
     try {
-      const { operationId } = req.params;
-      const { insertPaymentSchema } = await import("@shared/schema");
-      const data = insertPaymentSchema.parse({ ...req.body, operationId });
-      const payment = await storage.createPayment(data);
-      res.json(payment);
+      const { bankReconciliationService } = await import('./bank-reconciliation-service');
+      const imports = await bankReconciliationService.getImports(req.params.id);
+      res.json(imports);
     } catch (error) {
-      if (error instanceof z.ZodError) {
-        return res.status(400).json({ message: "Validation error", errors: error.errors });
-      }
-      console.error("Create operation payment error:", error);
+      console.error("Get bank statement imports error:", error);
       res.status(500).json({ message: "Internal server error" });
     }
   });
 
-  // Operation Invoices Routes
-  app.get("/api/operations/:operationId/invoices", requireAuth, async (req, res) => {
+  app.delete("/api/bank-accounts/:id/statements/:importId", requireAuth, async (req, res) => {
     try {
-      const { operationId } = req.params;
-      const invoices = await storage.getInvoicesByOperation(operationId);
-      res.json(invoices);
+      const { id, importId } = req.params;
+      const { bankReconciliationService } = await import('./bank-reconciliation-service');
+
+      const deleted = await bankReconciliationService.deleteImport(id, importId);
+      if (!deleted) {
+        return res.status(404).json({ message: "Statement import not found" });
+      }
+
+      res.json({ message: "Statement import deleted successfully" });
     } catch (error) {
-      console.error("Get operation invoices error:", error);
+      console.error("Delete bank statement import error:", error);
       res.status(500).json({ message: "Internal server error" });
     }
   });
 
-  // Bank Account Routes
-  app.get("/api/bank-accounts", requireAuth, async (req, res) => {
+  // Reconciliation lines (optionally filtered by status: unmatched, suggested, matched, ignored)
+  app.get("/api/bank-accounts/:id/reconciliation", requireAuth, async (req, res) => {
     try {
-      const accounts = await storage.getAllBankAccounts();
-      res.json(accounts);
+      const { id } = req.params;
+      const status = typeof req.query.status === 'string' ? req.query.status : undefined;
+      const { bankReconciliationService } = await import('./bank-reconciliation-service');
+
+      const lines = await bankReconciliationService.getReconciliationLines(id, status);
+      res.json(lines);
     } catch (error) {
-      console.error("Get bank accounts error:", error);
+      console.error("Get bank reconciliation error:", error);
       res.status(500).json({ message: "Internal server error" });
     }
   });
 
-  app.post("/api/bank-accounts", requireAuth, async (req, res) => {
+  app.get("/api/bank-statement-lines/:id/candidates", requireAuth, async (req, res) => {
     try {
-      const data = insertBankAccountSchema.parse(req.body);
-      const account = await storage.createBankAccount(data);
-      res.json(account);
+      const { bankReconciliationService } = await import('./bank-reconciliation-service');
+      const candidates = await bankReconciliationService.getLineCandidates(req.params.id);
+      res.json(candidates);
     } catch (error) {
-      if (error instanceof z.ZodError) {
-        return res.status(400).json({ message: "Validation error", errors: error.errors });
+      const { ReconciliationError } = await import('./bank-reconciliation-service');
+      if (error instanceof ReconciliationError) {
+        return res.status(400).json({ message: error.message });
       }
-      console.error("Create bank account error:", error);
+      console.error("Get bank statement line candidates error:", error);
       res.status(500).json({ message: "Internal server error" });
     }
   });
 
-  app.patch("/api/bank-accounts/:id", requireAuth, async (req, res) => {
+  // Accept the match proposed by auto-match (approves financial suggestions)
+  app.post("/api/bank-statement-lines/:id/accept", requireAuth, async (req, res) => {
     try {
       const { id } = req.params;
-      const data = insertBankAccountSchema.partial().parse(req.body);
-      const account = await storage.updateBankAccount(id, data);
+      const userId = req.session.userId!;
+      const { bankReconciliationService } = await import('./bank-reconciliation-service');
 
-      if (!account) {
-        return res.status(404).json({ message: "Bank account not found" });
-      }
+      // Expenses require an employee: use the one sent or the current user's
+      const currentEmployee = await storage.getEmployeeByUserId(userId);
+      const employeeId = req.body.employeeId || currentEmployee?.id || null;
 
-      res.json(account);
+      const line = await bankReconciliationService.acceptMatch(id, userId, employeeId);
+
+      res.json(line);
     } catch (error) {
-      if (error instanceof z.ZodError) {
-        return res.status(400).json({ message: "Validation error", errors: error.errors });
+      const { ReconciliationError } = await import('./bank-reconciliation-service');
+      if (error instanceof ReconciliationError) {
+        return res.status(400).json({ message: error.message });
       }
-      console.error("Update bank account error:", error);
+      console.error("Accept bank statement match error:", error);
       res.status(500).json({ message: "Internal server error" });
     }
   });
 
-  app.delete("/api/bank-accounts/:id", requireAuth, async (req, res) => {
+  app.post("/api/bank-statement-lines/:id/link", requireAuth, async (req, res) => {
     try {
       const { id } = req.params;
-      await storage.deleteBankAccount(id);
-      res.json({ message: "Bank account deleted successfully" });
+      const userId = req.session.userId!;
+      const { bankReconciliationService } = await import('./bank-reconciliation-service');
+      const { type, recordId } = req.body;
+
+      if (!['payment', 'expense', 'suggestion'].includes(type) || !recordId) {
+        return res.status(400).json({ message: "type and recordId are required" });
+      }
+
+      // Expenses require an employee: use the one sent or the current user's
+      const currentEmployee = await storage.getEmployeeByUserId(userId);
+      const employeeId = req.body.employeeId || currentEmployee?.id || null;
+
+      const line = await bankReconciliationService.linkLine(id, { type, id: recordId }, userId, employeeId);
+
+      res.json(line);
     } catch (error) {
-      console.error("Delete bank account error:", error);
+      const { ReconciliationError } = await import('./bank-reconciliation-service');
+      if (error instanceof ReconciliationError) {
+        return res.status(400).json({ message: error.message });
+      }
+      console.error("Link bank statement line error:", error);
       res.status(500).json({ message: "Internal server error" });
     }
   });
 
-  // Get bank account by ID
-  app.get("/api/bank-accounts/:id", requireAuth, async (req, res) => {
+  // Create a payment (credit) or expense (debit) from an unmatched line
+  app.post("/api/bank-statement-lines/:id/create-record", requireAuth, async (req, res) => {
     try {
       const { id } = req.params;
-      const account = await storage.getBankAccount(id);
-      
-      if (!account) {
-        return res.status(404).json({ message: "Bank account not found" });
-      }
-      
-      res.json(account);
+      const userId = req.session.userId!;
+      const { bankReconciliationService } = await import('./bank-reconciliation-service');
+
+      // Expenses require an employee: use the one sent or the current user's
+      const currentEmployee = await storage.getEmployeeByUserId(userId);
+      const employeeId = req.body.employeeId || currentEmployee?.id || null;
+
+      const line = await bankReconciliationService.createRecordFromLine(id, {
+        employeeId,
+        category: req.body.category,
+        paymentMethod: req.body.paymentMethod,
+        operationId: req.body.operationId,
+        invoiceId: req.body.invoiceId,
+        description: req.body.description,
+      }, userId);
+
+      res.json(line);
     } catch (error) {
-      console.error("Get bank account error:", error);
+      const { ReconciliationError } = await import('./bank-reconciliation-service');
+      if (error instanceof ReconciliationError) {
+        return res.status(400).json({ message: error.message });
+      }
+      console.error("Create record from bank statement line error:", error);
       res.status(500).json({ message: "Internal server error" });
     }
   });
 
-  // Get payments by bank account
-  app.get("/api/bank-accounts/:id/payments", requireAuth, async (req, res) => {
+  app.post("/api/bank-statement-lines/:id/ignore", requireAuth, async (req, res) => {
     try {
       const { id } = req.params;
-      const payments = await storage.getPaymentsByBankAccount(id);
-      res.json(payments);
+      const userId = req.session.userId!;
+      const { bankReconciliationService } = await import('./bank-reconciliation-service');
+
+      const line = await bankReconciliationService.ignoreLine(id, userId);
+
+      res.json(line);
     } catch (error) {
-      console.error("Get payments by bank account error:", error);
+      const { ReconciliationError } = await import('./bank-reconciliation-service');
+      if (error instanceof ReconciliationError) {
+        return res.status(400).json({ message: error.message });
+      }
+      console.error("Ignore bank statement line error:", error);
       res.status(500).json({ message: "Internal server error" });
     }
   });
 
-  // Get expenses by bank account
-  app.get("/api/bank-accounts/:id/expenses", requireAuth, async (req, res) => {
+  app.post("/api/bank-statement-lines/:id/unmatch", requireAuth, async (req, res) => {
     try {
       const { id } = req.params;
-      const expenses = await storage.getExpensesByBankAccount(id);
-      res.json(expenses);
+      const { bankReconciliationService } = await import('./bank-reconciliation-service');
+
+      const line = await bankReconciliationService.unmatchLine(id);
+
+      res.json(line);
     } catch (error) {
-      console.error("Get expenses by bank account error:", error);
+      const { ReconciliationError } = await import('./bank-reconciliation-service');
+      if (error instanceof ReconciliationError) {
+        return res.status(400).json({ message: error.message });
+      }
+      console.error("Unmatch bank statement line error:", error);
       res.status(500).json({ message: "Internal server error" });
     }
   });
@@ -1599,7 +3077,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const userId = req.session.userId!;
       const accounts = await storage.getAllGmailAccounts(userId);
 
-      const accountsWithoutTokens = accounts.map(({ accessToken, refreshToken, ...account }) => account);
+      const accountsWithoutTokens = accounts.map(({ accessToken, refreshToken, mailPassword, ...account }) => account);
       res.json(accountsWithoutTokens);
     } catch (error) {
       console.error("Get Gmail accounts error:", error);
@@ -1607,67 +3085,315 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.delete("/api/gmail/accounts/:id", requireAuth, async (req, res) => {
+  // Buzones IMAP/SMTP (Exchange, Dovecot...): se prueban las credenciales antes de guardar
+  app.post("/api/gmail/accounts/imap/test", requireAuth, async (req, res) => {
+    try {
+      const { imapAccountSettingsSchema } = await import("@shared/schema");
+      const settings = imapAccountSettingsSchema.parse(req.body);
+
+      const { verifyImapConnection } = await import('./imap-sync');
+      await verifyImapConnection(settings);
+      res.json({ message: "Connection successful" });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Validation error", errors: error.errors });
+      }
+      const { ImapAccountError } = await import('./imap-sync');
+      if (error instanceof ImapAccountError) {
+        return res.status(400).json({ message: error.message });
+      }
+      console.error("Test IMAP account error:", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  app.post("/api/gmail/accounts/imap", requireAuth, async (req, res) => {
+    try {
+      const userId = req.session.userId!;
+      const { imapAccountSettingsSchema } = await import("@shared/schema");
+      const settings = imapAccountSettingsSchema.parse(req.body);
+
+      const { verifyImapConnection } = await import('./imap-sync');
+      await verifyImapConnection(settings);
+
+      const { secretVault } = await import('./secret-vault');
+      const account = await storage.createGmailAccount({
+        ...settings,
+        mailPassword: secretVault.encrypt(settings.mailPassword),
+        userId,
+        provider: 'imap',
+        syncEnabled: true,
+      });
+
+      gmailSync.startSync(account.id);
+
+      const { accessToken, refreshToken, mailPassword, ...accountWithoutSecrets } = account;
+      res.status(201).json(accountWithoutSecrets);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Validation error", errors: error.errors });
+      }
+      const { ImapAccountError } = await import('./imap-sync');
+      if (error instanceof ImapAccountError) {
+        return res.status(400).json({ message: error.message });
+      }
+      console.error("Create IMAP account error:", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  app.delete("/api/gmail/accounts/:id", requireAuth, async (req, res) => {
+    try {
+      const { id } = req.params;
+      const userId = req.session.userId!;
+
+      const account = await storage.getGmailAccount(id);
+      if (!account || account.userId !== userId) {
+        return res.status(404).json({ message: "Account not found" });
+      }
+
+      await gmailSync.revokeAccountCredentials(account, userId);
+      await storage.deleteGmailAccount(id);
+      res.json({ message: "Gmail account disconnected successfully" });
+    } catch (error) {
+      console.error("Delete Gmail account error:", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  app.patch("/api/gmail/accounts/:id/toggle-sync", requireAuth, async (req, res) => {
+    try {
+      const { id } = req.params;
+      const userId = req.session.userId!;
+
+      const account = await storage.getGmailAccount(id);
+      if (!account || account.userId !== userId) {
+        return res.status(404).json({ message: "Account not found" });
+      }
+
+      const updatedAccount = await storage.updateGmailAccount(id, {
+        syncEnabled: !account.syncEnabled,
+      });
+
+      if (!updatedAccount) {
+        return res.status(404).json({ message: "Account not found" });
+      }
+
+      if (updatedAccount.syncEnabled) {
+        gmailSync.startSync(id);
+      }
+
+      const { accessToken, refreshToken, mailPassword, ...accountWithoutTokens } = updatedAccount;
+      res.json(accountWithoutTokens);
+    } catch (error) {
+      console.error("Toggle Gmail sync error:", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  app.patch("/api/gmail/accounts/:id/shared", requireAuth, async (req, res) => {
+    try {
+      const { id } = req.params;
+      const userId = req.session.userId!;
+      const { isShared } = z.object({ isShared: z.boolean() }).parse(req.body);
+
+      const account = await storage.getGmailAccount(id);
+      if (!account || account.userId !== userId) {
+        return res.status(404).json({ message: "Account not found" });
+      }
+
+      const updatedAccount = await storage.updateGmailAccount(id, { isShared });
+      if (!updatedAccount) {
+        return res.status(404).json({ message: "Account not found" });
+      }
+
+      const { accessToken, refreshToken, mailPassword, ...accountWithoutTokens } = updatedAccount;
+      res.json(accountWithoutTokens);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Validation error", errors: error.errors });
+      }
+      console.error("Toggle shared inbox error:", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  app.post("/api/gmail/accounts/:id/resync", requireAuth, async (req, res) => {
+    try {
+      const { id } = req.params;
+      const userId = req.session.userId!;
+
+      const account = await storage.getGmailAccount(id);
+      if (!account || account.userId !== userId) {
+        return res.status(404).json({ message: "Account not found" });
+      }
+
+      if (!account.syncEnabled) {
+        return res.status(400).json({ message: "Sync is disabled for this account" });
+      }
+
+      gmailSync.startSync(id);
+      res.json({ message: "Sync started" });
+    } catch (error) {
+      console.error("Resync Gmail account error:", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  // Spam Rule Routes - reglas por cuenta (del usuario) o globales (admin/manager)
+  const canManageGlobalSpamRules = async (userId: string) => {
+    const user = await storage.getUser(userId);
+    return !!user && (user.role === "admin" || user.role === "manager");
+  };
+
+  const canManageSpamRule = async (userId: string, gmailAccountId: string | null | undefined) => {
+    if (!gmailAccountId) {
+      return canManageGlobalSpamRules(userId);
+    }
+    const account = await storage.getGmailAccount(gmailAccountId);
+    return !!account && account.userId === userId;
+  };
+
+  app.get("/api/gmail/spam-rules", requireAuth, async (req, res) => {
+    try {
+      const accounts = await storage.getAllGmailAccounts(req.session.userId!);
+      const { spamRuleService } = await import('./spam-rule-service');
+      const rules = await spamRuleService.getRules(accounts.map(a => a.id));
+      res.json(rules);
+    } catch (error) {
+      console.error("Get spam rules error:", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  app.post("/api/gmail/spam-rules", requireAuth, async (req, res) => {
+    try {
+      const userId = req.session.userId!;
+      const { insertSpamRuleSchema } = await import("@shared/schema");
+      const data = insertSpamRuleSchema.parse({ ...req.body, createdBy: userId });
+
+      if (!(await canManageSpamRule(userId, data.gmailAccountId))) {
+        return res.status(403).json({ message: "No tienes permiso para crear esta regla" });
+      }
+
+      const { spamRuleService } = await import('./spam-rule-service');
+      const rule = await spamRuleService.createRule(data);
+      res.status(201).json(rule);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Validation error", errors: error.errors });
+      }
+      const { SpamRuleError } = await import('./spam-rule-service');
+      if (error instanceof SpamRuleError) {
+        return res.status(400).json({ message: error.message });
+      }
+      console.error("Create spam rule error:", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  app.patch("/api/gmail/spam-rules/:id", requireAuth, async (req, res) => {
+    try {
+      const userId = req.session.userId!;
+      const { spamRuleService } = await import('./spam-rule-service');
+      const rule = await spamRuleService.getRule(req.params.id);
+      if (!rule || !(await canManageSpamRule(userId, rule.gmailAccountId))) {
+        return res.status(404).json({ message: "Regla no encontrada" });
+      }
+
+      const { insertSpamRuleSchema } = await import("@shared/schema");
+      const data = insertSpamRuleSchema.omit({ gmailAccountId: true, createdBy: true }).partial().parse(req.body);
+      const updated = await spamRuleService.updateRule(rule.id, data);
+      res.json(updated);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Validation error", errors: error.errors });
+      }
+      const { SpamRuleError } = await import('./spam-rule-service');
+      if (error instanceof SpamRuleError) {
+        return res.status(400).json({ message: error.message });
+      }
+      console.error("Update spam rule error:", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  app.delete("/api/gmail/spam-rules/:id", requireAuth, async (req, res) => {
+    try {
+      const userId = req.session.userId!;
+      const { spamRuleService } = await import('./spam-rule-service');
+      const rule = await spamRuleService.getRule(req.params.id);
+      if (!rule || !(await canManageSpamRule(userId, rule.gmailAccountId))) {
+        return res.status(404).json({ message: "Regla no encontrada" });
+      }
+
+      await spamRuleService.deleteRule(rule.id);
+      res.status(204).send();
+    } catch (error) {
+      console.error("Delete spam rule error:", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  app.get("/api/gmail/spam-stats", requireAuth, async (req, res) => {
     try {
-      const { id } = req.params;
-      const userId = req.session.userId!;
-
-      const account = await storage.getGmailAccount(id);
-      if (!account || account.userId !== userId) {
-        return res.status(404).json({ message: "Account not found" });
-      }
-
-      await storage.deleteGmailAccount(id);
-      res.json({ message: "Gmail account disconnected successfully" });
+      const accounts = await storage.getAllGmailAccounts(req.session.userId!);
+      const { spamRuleService } = await import('./spam-rule-service');
+      const stats = await spamRuleService.getStats(accounts.map(a => a.id));
+      res.json(stats);
     } catch (error) {
-      console.error("Delete Gmail account error:", error);
+      console.error("Get spam stats error:", error);
       res.status(500).json({ message: "Internal server error" });
     }
   });
 
-  app.patch("/api/gmail/accounts/:id/toggle-sync", requireAuth, async (req, res) => {
+  app.get("/api/gmail/accounts/:accountId/spam-filtered", requireAuth, async (req, res) => {
     try {
-      const { id } = req.params;
-      const userId = req.session.userId!;
-
-      const account = await storage.getGmailAccount(id);
-      if (!account || account.userId !== userId) {
+      const { accountId } = req.params;
+      const account = await storage.getGmailAccount(accountId);
+      if (!account || account.userId !== req.session.userId!) {
         return res.status(404).json({ message: "Account not found" });
       }
 
-      const updatedAccount = await storage.updateGmailAccount(id, {
-        syncEnabled: !account.syncEnabled,
-      });
-
-      if (updatedAccount?.syncEnabled) {
-        gmailSync.startSync(id);
-      }
-
-      res.json(updatedAccount);
+      const status = req.query.status === 'restored' ? 'restored' : 'filtered';
+      const { spamRuleService } = await import('./spam-rule-service');
+      const messages = await spamRuleService.getFilteredMessages(accountId, status);
+      res.json(messages);
     } catch (error) {
-      console.error("Toggle Gmail sync error:", error);
+      console.error("Get spam filtered messages error:", error);
       res.status(500).json({ message: "Internal server error" });
     }
   });
 
-  app.post("/api/gmail/accounts/:id/resync", requireAuth, async (req, res) => {
+  app.post("/api/gmail/spam-filtered/:id/not-spam", requireAuth, async (req, res) => {
     try {
-      const { id } = req.params;
       const userId = req.session.userId!;
+      const options = z.object({
+        ruleType: z.enum(["address", "domain"]).default("address"),
+        global: z.boolean().default(false),
+      }).parse(req.body);
 
-      const account = await storage.getGmailAccount(id);
-      if (!account || account.userId !== userId) {
-        return res.status(404).json({ message: "Account not found" });
+      const { spamRuleService } = await import('./spam-rule-service');
+      const filtered = await spamRuleService.getFilteredMessage(req.params.id);
+      const account = filtered ? await storage.getGmailAccount(filtered.gmailAccountId) : undefined;
+      if (!filtered || !account || account.userId !== userId) {
+        return res.status(404).json({ message: "Correo filtrado no encontrado" });
       }
-
-      if (!account.syncEnabled) {
-        return res.status(400).json({ message: "Sync is disabled for this account" });
+      if (options.global && !(await canManageGlobalSpamRules(userId))) {
+        return res.status(403).json({ message: "Solo administradores y gerentes pueden crear reglas globales" });
       }
 
-      gmailSync.startSync(id);
-      res.json({ message: "Sync started" });
+      const result = await spamRuleService.markNotSpam(filtered.id, options, userId);
+      res.json(result);
     } catch (error) {
-      console.error("Resync Gmail account error:", error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Validation error", errors: error.errors });
+      }
+      const { SpamRuleError } = await import('./spam-rule-service');
+      if (error instanceof SpamRuleError) {
+        return res.status(400).json({ message: error.message });
+      }
+      console.error("Mark not spam error:", error);
       res.status(500).json({ message: "Internal server error" });
     }
   });
@@ -3059,17 +4785,405 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Gmail threads touching this operation, with conflicts against other operations
+  app.get("/api/operations/:operationId/threads", requireAuth, async (req, res) => {
+    try {
+      const { emailThreadService } = await import('./email-thread-service');
+      const threads = await emailThreadService.getOperationThreads(req.params.operationId);
+      res.json(threads);
+    } catch (error) {
+      console.error("Get operation threads error:", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  // Gmail threads whose messages are linked to more than one operation
+  app.get("/api/gmail/threads/conflicts", requireAuth, async (req, res) => {
+    try {
+      const { emailThreadService } = await import('./email-thread-service');
+      res.json(await emailThreadService.getConflicts());
+    } catch (error) {
+      console.error("Get thread conflicts error:", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  app.get("/api/gmail/threads/:threadId", requireAuth, async (req, res) => {
+    try {
+      const { emailThreadService } = await import('./email-thread-service');
+      res.json(await emailThreadService.getThread(req.params.threadId));
+    } catch (error) {
+      const { EmailThreadError } = await import('./email-thread-service');
+      if (error instanceof EmailThreadError) {
+        return res.status(404).json({ message: error.message });
+      }
+      console.error("Get thread error:", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  // Link every message of the thread to one operation (resolves a conflict)
+  app.post("/api/gmail/threads/:threadId/link", requireAuth, async (req, res) => {
+    try {
+      const { operationId } = z.object({ operationId: z.string().min(1) }).parse(req.body);
+      const { emailThreadService } = await import('./email-thread-service');
+      const thread = await emailThreadService.linkThread(req.params.threadId, operationId, req.session.userId!);
+      res.json(thread);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Validation error", errors: error.errors });
+      }
+      const { EmailThreadError } = await import('./email-thread-service');
+      if (error instanceof EmailThreadError) {
+        return res.status(400).json({ message: error.message });
+      }
+      console.error("Link thread error:", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  // Split the thread: assign each message to its own operation (or none)
+  app.post("/api/gmail/threads/:threadId/split", requireAuth, async (req, res) => {
+    try {
+      const { assignments } = z.object({
+        assignments: z.array(z.object({
+          messageId: z.string().min(1),
+          operationId: z.string().min(1).nullable(),
+        })).min(1),
+      }).parse(req.body);
+      const { emailThreadService } = await import('./email-thread-service');
+      const thread = await emailThreadService.splitThread(req.params.threadId, assignments, req.session.userId!);
+      res.json(thread);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Validation error", errors: error.errors });
+      }
+      const { EmailThreadError } = await import('./email-thread-service');
+      if (error instanceof EmailThreadError) {
+        return res.status(400).json({ message: error.message });
+      }
+      console.error("Split thread error:", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  app.delete("/api/gmail/threads/:threadId/split", requireAuth, async (req, res) => {
+    try {
+      const { emailThreadService } = await import('./email-thread-service');
+      const thread = await emailThreadService.unsplitThread(req.params.threadId);
+      res.json(thread);
+    } catch (error) {
+      const { EmailThreadError } = await import('./email-thread-service');
+      if (error instanceof EmailThreadError) {
+        return res.status(404).json({ message: error.message });
+      }
+      console.error("Unsplit thread error:", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  // Shared Inbox Routes - asignación, estado, pausa y SLA de hilos de Gmail
+  app.get("/api/shared-inbox", requireAuth, async (req, res) => {
+    try {
+      const filters = z.object({
+        queue: z.enum(["unassigned", "mine", "employee", "all"]).optional(),
+        employeeId: z.string().optional(),
+        status: z.enum(["open", "waiting_client", "done", "snoozed"]).optional(),
+        operationId: z.string().optional(),
+      }).parse(req.query);
+
+      const { sharedInboxService } = await import('./shared-inbox-service');
+      const threads = await sharedInboxService.getInbox(req.session.userId!, filters);
+      res.json(threads);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Validation error", errors: error.errors });
+      }
+      console.error("Get shared inbox error:", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  app.get("/api/shared-inbox/workload", requireAuth, async (req, res) => {
+    try {
+      const { sharedInboxService } = await import('./shared-inbox-service');
+      const workload = await sharedInboxService.getWorkload(req.session.userId!);
+      res.json(workload);
+    } catch (error) {
+      console.error("Get shared inbox workload error:", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  app.patch("/api/shared-inbox/threads/:threadId", requireAuth, async (req, res) => {
+    try {
+      const update = z.object({
+        assignedEmployeeId: z.string().nullable().optional(),
+        status: z.enum(["open", "waiting_client", "done"]).optional(),
+        snoozedUntil: z.coerce.date().nullable().optional(),
+      }).parse(req.body);
+
+      const { sharedInboxService } = await import('./shared-inbox-service');
+      const assignment = await sharedInboxService.updateThread(req.params.threadId, update, req.session.userId!);
+      res.json(assignment);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Validation error", errors: error.errors });
+      }
+      const { SharedInboxError } = await import('./shared-inbox-service');
+      if (error instanceof SharedInboxError) {
+        return res.status(400).json({ message: error.message });
+      }
+      console.error("Update shared inbox thread error:", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  // Email Templates
+  app.get("/api/email-templates", requireAuth, async (req, res) => {
+    try {
+      const { language, category, active } = req.query;
+      const templates = await storage.getEmailTemplates({
+        language: typeof language === 'string' && language ? language : undefined,
+        category: typeof category === 'string' && category ? category : undefined,
+        activeOnly: active === 'true',
+      });
+      res.json(templates);
+    } catch (error) {
+      console.error("Get email templates error:", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  app.post("/api/email-templates", requireAuth, async (req, res) => {
+    try {
+      const { insertEmailTemplateSchema } = await import("@shared/schema");
+      const data = insertEmailTemplateSchema.parse({ ...req.body, createdBy: req.session.userId! });
+      const template = await storage.createEmailTemplate(data);
+      res.json(template);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Validation error", errors: error.errors });
+      }
+      console.error("Create email template error:", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  // Render a saved template or an unsaved draft ({subject, body, language}) against an operation
+  app.post("/api/email-templates/preview", requireAuth, async (req, res) => {
+    try {
+      const data = z.object({
+        operationId: z.string().min(1),
+        templateId: z.string().optional(),
+        subject: z.string().optional(),
+        body: z.string().optional(),
+        language: z.enum(['es', 'en']).optional(),
+      }).parse(req.body);
+
+      let template: { subject: string; body: string; language: string } = { subject: data.subject || '', body: data.body || '', language: data.language || 'es' };
+      if (data.templateId) {
+        const saved = await storage.getEmailTemplate(data.templateId);
+        if (!saved) {
+          return res.status(404).json({ message: "Email template not found" });
+        }
+        template = saved;
+      }
+
+      const { emailTemplateService } = await import('./email-template-service');
+      const rendered = await emailTemplateService.renderForOperation(template, data.operationId);
+      res.json(rendered);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Validation error", errors: error.errors });
+      }
+      const { EmailTemplateError } = await import('./email-template-service');
+      if (error instanceof EmailTemplateError) {
+        return res.status(400).json({ message: error.message });
+      }
+      console.error("Preview email template error:", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  app.patch("/api/email-templates/:id", requireAuth, async (req, res) => {
+    try {
+      const { insertEmailTemplateSchema } = await import("@shared/schema");
+      const data = insertEmailTemplateSchema.partial().omit({ createdBy: true }).parse(req.body);
+      const template = await storage.updateEmailTemplate(req.params.id, data);
+      if (!template) {
+        return res.status(404).json({ message: "Email template not found" });
+      }
+      res.json(template);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Validation error", errors: error.errors });
+      }
+      console.error("Update email template error:", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  app.delete("/api/email-templates/:id", requireAuth, async (req, res) => {
+    try {
+      await storage.deleteEmailTemplate(req.params.id);
+      res.json({ message: "Email template deleted successfully" });
+    } catch (error) {
+      console.error("Delete email template error:", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  // Compose, reply, reply-all or forward from an operation through a connected Gmail account
+  app.post("/api/operations/:operationId/messages/send", requireAuth, async (req, res) => {
+    try {
+      const { operationId } = req.params;
+      const userId = req.session.userId!;
+
+      const data = z.object({
+        accountId: z.string().min(1),
+        mode: z.enum(['new', 'reply', 'replyAll', 'forward']),
+        originalMessageId: z.string().nullable().optional(),
+        to: z.array(z.string().email()).min(1),
+        cc: z.array(z.string().email()).optional(),
+        bcc: z.array(z.string().email()).optional(),
+        subject: z.string(),
+        body: z.string(),
+        operationFileIds: z.array(z.string()).optional(),
+        includeOriginalAttachments: z.boolean().optional(),
+      }).parse(req.body);
+
+      const { gmailSendService } = await import('./gmail-send-service');
+      const message = await gmailSendService.sendOperationEmail(userId, operationId, data);
+      res.json(message);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Validation error", errors: error.errors });
+      }
+      const { GmailSendError } = await import('./gmail-send-service');
+      if (error instanceof GmailSendError) {
+        return res.status(400).json({ message: error.message });
+      }
+      console.error("Send operation email error:", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
   // Manually trigger email-operation linking
   app.post("/api/gmail/link-messages", requireAuth, async (req, res) => {
     try {
-      await storage.linkMessagesToOperations();
-      res.json({ message: "Email linking completed" });
+      const { reevaluate } = z.object({ reevaluate: z.boolean().optional() }).parse(req.body || {});
+      const { emailLinkingService } = await import('./email-linking-service');
+      const result = await emailLinkingService.linkUnlinkedMessages({ reevaluate });
+      res.json({ message: "Email linking completed", ...result });
     } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Validation error", errors: error.errors });
+      }
       console.error("Link messages error:", error);
       res.status(500).json({ message: "Internal server error" });
     }
   });
 
+  // Email linking matchers with their weights and reviewed accuracy
+  app.get("/api/email-linking/matchers", requireAuth, async (req, res) => {
+    try {
+      const { emailLinkingService } = await import('./email-linking-service');
+      res.json(await emailLinkingService.getMatcherSettings());
+    } catch (error) {
+      console.error("Get email linking matchers error:", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  app.patch("/api/email-linking/matchers/:key", requireAdminOrManager, async (req, res) => {
+    try {
+      const data = z.object({
+        weight: z.number().int().min(0).max(100).optional(),
+        isEnabled: z.boolean().optional(),
+      }).parse(req.body);
+      const { emailLinkingService } = await import('./email-linking-service');
+      const matcher = await emailLinkingService.updateMatcherSetting(req.params.key, data);
+      res.json(matcher);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Validation error", errors: error.errors });
+      }
+      const { EmailLinkingError } = await import('./email-linking-service');
+      if (error instanceof EmailLinkingError) {
+        return res.status(400).json({ message: error.message });
+      }
+      console.error("Update email linking matcher error:", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  // Latest linker decision per message (?reviewStatus=pending&decision=ambiguous&messageId=)
+  app.get("/api/email-linking/decisions", requireAuth, async (req, res) => {
+    try {
+      const { reviewStatus, decision, messageId } = req.query;
+      const { emailLinkingService } = await import('./email-linking-service');
+      const decisions = await emailLinkingService.getDecisions({
+        reviewStatus: reviewStatus ? String(reviewStatus) : undefined,
+        decision: decision ? String(decision) : undefined,
+        messageId: messageId ? String(messageId) : undefined,
+      });
+      res.json(decisions);
+    } catch (error) {
+      console.error("Get email link decisions error:", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  app.post("/api/email-linking/decisions/:id/confirm", requireAuth, async (req, res) => {
+    try {
+      const { emailLinkingService } = await import('./email-linking-service');
+      const decision = await emailLinkingService.confirmDecision(req.params.id, req.session.userId!);
+      res.json(decision);
+    } catch (error) {
+      const { EmailLinkingError } = await import('./email-linking-service');
+      if (error instanceof EmailLinkingError) {
+        return res.status(400).json({ message: error.message });
+      }
+      console.error("Confirm email link error:", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  app.post("/api/email-linking/decisions/:id/override", requireAuth, async (req, res) => {
+    try {
+      const { operationId } = z.object({ operationId: z.string().min(1) }).parse(req.body);
+      const { emailLinkingService } = await import('./email-linking-service');
+      const decision = await emailLinkingService.overrideDecision(req.params.id, operationId, req.session.userId!);
+      res.json(decision);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Validation error", errors: error.errors });
+      }
+      const { EmailLinkingError } = await import('./email-linking-service');
+      if (error instanceof EmailLinkingError) {
+        return res.status(400).json({ message: error.message });
+      }
+      console.error("Override email link error:", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  app.post("/api/email-linking/decisions/:id/unlink", requireAuth, async (req, res) => {
+    try {
+      const { emailLinkingService } = await import('./email-linking-service');
+      const decision = await emailLinkingService.unlinkDecision(req.params.id, req.session.userId!);
+      res.json(decision);
+    } catch (error) {
+      const { EmailLinkingError } = await import('./email-linking-service');
+      if (error instanceof EmailLinkingError) {
+        return res.status(400).json({ message: error.message });
+      }
+      console.error("Unlink email error:", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
   // Operation Analysis - AI-powered insights
   app.get("/api/operations/:operationId/analysis", requireAuth, async (req, res) => {
     try {
@@ -3518,6 +5632,65 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Global Search Routes - texto completo sobre correos, adjuntos, archivos, notas y tareas
+  app.get("/api/search", requireAuth, async (req, res) => {
+    try {
+      const { SEARCH_ENTITY_TYPES, searchService } = await import('./search-service');
+      const params = z.object({
+        q: z.string().trim().min(2).max(200),
+        types: z.string().optional(),
+        limit: z.coerce.number().int().min(1).max(25).default(5),
+      }).parse(req.query);
+
+      const types = params.types
+        ? SEARCH_ENTITY_TYPES.filter(type => params.types!.split(',').includes(type))
+        : undefined;
+      const accounts = await storage.getAllGmailAccounts(req.session.userId!);
+
+      const groups = await searchService.search(params.q, {
+        accountIds: accounts.map(a => a.id),
+        types,
+        limitPerType: params.limit,
+      });
+      res.json(groups);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Validation error", errors: error.errors });
+      }
+      console.error("Global search error:", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  app.post("/api/search/reindex", requireAdminOrManager, async (req, res) => {
+    try {
+      const { searchService } = await import('./search-service');
+      const result = await searchService.indexPending();
+      res.json(result);
+    } catch (error) {
+      console.error("Search reindex error:", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  // Security Audit Routes - refresco/revocación de tokens y rotación de la llave maestra
+  app.get("/api/security/audit-events", requireAdmin, async (req, res) => {
+    try {
+      const { eventType, entityType, entityId, limit } = req.query;
+      const { securityAuditService } = await import('./security-audit-service');
+      const events = await securityAuditService.getEvents({
+        eventType: eventType as string | undefined,
+        entityType: entityType as string | undefined,
+        entityId: entityId as string | undefined,
+        limit: limit ? parseInt(limit as string) : undefined,
+      });
+      res.json(events);
+    } catch (error) {
+      console.error("Get security audit events error:", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
   const httpServer = createServer(app);
 
   return httpServer;
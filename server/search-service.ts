@@ -0,0 +1,480 @@
+/**
+ * Search Service - Búsqueda de texto completo (Postgres) sobre correos, adjuntos, archivos,
+ * notas y tareas
+ *
+ * Los cuerpos de correo y el texto OCR viven en B2, así que un job en segundo plano copia
+ * el texto a `search_documents` con un tsvector en español e inglés (título con peso A,
+ * contenido con peso B). Cada documento guarda una huella de su fila de origen para
+ * reindexar solo lo que cambió.
+ */
+
+import { db } from './db';
+import { eq, and, or, desc, sql, inArray, isNull, isNotNull, lte, type SQL, type SQLWrapper } from 'drizzle-orm';
+import {
+  searchDocuments, gmailMessages, gmailAttachments, operationFiles, operationNotes, operationTasks, operations,
+} from '@shared/schema';
+import { backblazeStorage } from './backblazeStorage';
+
+export type SearchEntityType = 'email' | 'email_attachment' | 'operation_file' | 'operation_note' | 'operation_task';
+
+export const SEARCH_ENTITY_TYPES: SearchEntityType[] = ['email', 'email_attachment', 'operation_file', 'operation_note', 'operation_task'];
+
+export interface SearchResult {
+  entityType: SearchEntityType;
+  entityId: string;
+  title: string;
+  snippet: string; // Fragmento con los términos entre <mark></mark>
+  operationId: string | null;
+  operationName: string | null;
+  date: Date | null;
+  rank: number;
+}
+
+export interface SearchResultGroup {
+  entityType: SearchEntityType;
+  results: SearchResult[];
+}
+
+export interface SearchOptions {
+  accountIds: string[]; // Cuentas de Gmail del usuario (correos no vinculados de otras cuentas no se muestran)
+  types?: SearchEntityType[];
+  limitPerType?: number;
+}
+
+interface IndexableDocument {
+  entityType: SearchEntityType;
+  entityId: string;
+  operationId: string | null;
+  gmailAccountId: string | null;
+  title: string;
+  content: string;
+  sourceVersion: string | null; // null: contenido incompleto, se reintenta en la siguiente corrida
+  sourceDate: Date | null;
+}
+
+// Filas de origen por tipo que se indexan en cada corrida
+const BATCH_SIZE = 200;
+
+// Texto máximo por documento (el tsvector de Postgres tiene límite de 1 MB)
+const MAX_CONTENT_LENGTH = 100_000;
+
+const MAX_QUERY_TERMS = 8;
+
+const HEADLINE_OPTIONS = 'StartSel=<mark>, StopSel=</mark>, MaxFragments=2, MaxWords=20, MinWords=8, FragmentDelimiter=" … "';
+
+export class SearchService {
+  private isRunning = false;
+  private isIndexing = false;
+  private intervalId: NodeJS.Timeout | null = null;
+  private readonly INDEX_INTERVAL = 10 * 60 * 1000; // 10 minutes
+
+  start() {
+    if (this.isRunning) {
+      console.log('[Search] Service is already running');
+      return;
+    }
+
+    this.isRunning = true;
+    console.log('[Search] Service started (interval: 10 minutes)');
+
+    this.indexPending().catch(err => {
+      console.error('[Search] Error in initial indexing:', err);
+    });
+
+    this.intervalId = setInterval(() => {
+      this.indexPending().catch(err => {
+        console.error('[Search] Error in indexing:', err);
+      });
+    }, this.INDEX_INTERVAL);
+  }
+
+  stop() {
+    if (this.intervalId) {
+      clearInterval(this.intervalId);
+      this.intervalId = null;
+    }
+    this.isRunning = false;
+    console.log('[Search] Service stopped');
+  }
+
+  /**
+   * Indexa los documentos nuevos o modificados, actualiza la operación de correos y
+   * adjuntos que se vincularon después y borra los documentos cuyo origen ya no existe
+   */
+  async indexPending(): Promise<{ indexed: number; removed: number }> {
+    if (this.isIndexing) {
+      return { indexed: 0, removed: 0 };
+    }
+
+    this.isIndexing = true;
+    try {
+      let indexed = 0;
+      indexed += await this.indexEmails();
+      indexed += await this.indexEmailAttachments();
+      indexed += await this.indexOperationFiles();
+      indexed += await this.indexOperationNotes();
+      indexed += await this.indexOperationTasks();
+
+      await this.syncEmailOperations();
+      const removed = await this.removeOrphans();
+
+      if (indexed > 0 || removed > 0) {
+        console.log(`[Search] ${indexed} document(s) indexed, ${removed} removed`);
+      }
+      return { indexed, removed };
+    } finally {
+      this.isIndexing = false;
+    }
+  }
+
+  /**
+   * Condición "falta indexar o cambió" para las filas de un tipo de entidad
+   */
+  private pendingCondition(entityType: SearchEntityType, sourceId: SQLWrapper, version: SQL): SQL {
+    return sql`NOT EXISTS (
+      SELECT 1 FROM ${searchDocuments}
+      WHERE ${searchDocuments.entityType} = ${entityType}
+        AND ${searchDocuments.entityId} = ${sourceId}
+        AND ${searchDocuments.sourceVersion} IS NOT DISTINCT FROM ${version}
+    )`;
+  }
+
+  private async indexEmails(): Promise<number> {
+    const version = sql`COALESCE(${gmailMessages.bodyTextB2Key}, ${gmailMessages.bodyHtmlB2Key}, '')`;
+    const rows = await db.select({
+      id: gmailMessages.id,
+      gmailAccountId: gmailMessages.gmailAccountId,
+      operationId: gmailMessages.operationId,
+      subject: gmailMessages.subject,
+      fromEmail: gmailMessages.fromEmail,
+      fromName: gmailMessages.fromName,
+      date: gmailMessages.date,
+      bodyText: gmailMessages.bodyText,
+      bodyHtml: gmailMessages.bodyHtml,
+      bodyTextB2Key: gmailMessages.bodyTextB2Key,
+      bodyHtmlB2Key: gmailMessages.bodyHtmlB2Key,
+      version: sql<string>`${version}`,
+    })
+      .from(gmailMessages)
+      .where(this.pendingCondition('email', gmailMessages.id, version))
+      .orderBy(desc(gmailMessages.date))
+      .limit(BATCH_SIZE);
+
+    for (const row of rows) {
+      const text = await this.readText(row.bodyText, row.bodyTextB2Key);
+      const html = text ? '' : await this.readText(row.bodyHtml, row.bodyHtmlB2Key);
+      const body = text || this.stripHtml(html || '');
+      await this.upsertDocument({
+        entityType: 'email',
+        entityId: row.id,
+        operationId: row.operationId,
+        gmailAccountId: row.gmailAccountId,
+        title: row.subject || '(Sin asunto)',
+        content: [row.fromName, row.fromEmail, body].filter(Boolean).join('\n'),
+        sourceVersion: text === null || html === null ? null : row.version,
+        sourceDate: row.date,
+      });
+    }
+    return rows.length;
+  }
+
+  private async indexEmailAttachments(): Promise<number> {
+    const version = sql`COALESCE(${gmailAttachments.extractedTextB2Key}, md5(${gmailAttachments.extractedText}), '')`;
+    const rows = await db.select({
+      id: gmailAttachments.id,
+      filename: gmailAttachments.filename,
+      extractedText: gmailAttachments.extractedText,
+      extractedTextB2Key: gmailAttachments.extractedTextB2Key,
+      gmailAccountId: gmailMessages.gmailAccountId,
+      operationId: gmailMessages.operationId,
+      date: gmailMessages.date,
+      version: sql<string>`${version}`,
+    })
+      .from(gmailAttachments)
+      .innerJoin(gmailMessages, eq(gmailMessages.id, gmailAttachments.gmailMessageId))
+      .where(this.pendingCondition('email_attachment', gmailAttachments.id, version))
+      .orderBy(desc(gmailMessages.date))
+      .limit(BATCH_SIZE);
+
+    for (const row of rows) {
+      const text = await this.readText(row.extractedText, row.extractedTextB2Key);
+      await this.upsertDocument({
+        entityType: 'email_attachment',
+        entityId: row.id,
+        operationId: row.operationId,
+        gmailAccountId: row.gmailAccountId,
+        title: row.filename,
+        content: text || '',
+        sourceVersion: text === null ? null : row.version,
+        sourceDate: row.date,
+      });
+    }
+    return rows.length;
+  }
+
+  private async indexOperationFiles(): Promise<number> {
+    const version = sql`${operationFiles.updatedAt}::text || COALESCE(${operationFiles.extractedTextB2Key}, md5(${operationFiles.extractedText}), '')`;
+    const rows = await db.select({
+      id: operationFiles.id,
+      operationId: operationFiles.operationId,
+      name: operationFiles.name,
+      description: operationFiles.description,
+      tags: operationFiles.tags,
+      extractedText: operationFiles.extractedText,
+      extractedTextB2Key: operationFiles.extractedTextB2Key,
+      createdAt: operationFiles.createdAt,
+      version: sql<string>`${version}`,
+    })
+      .from(operationFiles)
+      .where(this.pendingCondition('operation_file', operationFiles.id, version))
+      .orderBy(desc(operationFiles.updatedAt))
+      .limit(BATCH_SIZE);
+
+    for (const row of rows) {
+      const text = await this.readText(row.extractedText, row.extractedTextB2Key);
+      await this.upsertDocument({
+        entityType: 'operation_file',
+        entityId: row.id,
+        operationId: row.operationId,
+        gmailAccountId: null,
+        title: row.name,
+        content: [row.description, row.tags?.join(' '), text].filter(Boolean).join('\n'),
+        sourceVersion: text === null ? null : row.version,
+        sourceDate: row.createdAt,
+      });
+    }
+    return rows.length;
+  }
+
+  private async indexOperationNotes(): Promise<number> {
+    const version = sql`${operationNotes.updatedAt}::text`;
+    const rows = await db.select({
+      id: operationNotes.id,
+      operationId: operationNotes.operationId,
+      content: operationNotes.content,
+      createdAt: operationNotes.createdAt,
+      version: sql<string>`${version}`,
+    })
+      .from(operationNotes)
+      .where(this.pendingCondition('operation_note', operationNotes.id, version))
+      .orderBy(desc(operationNotes.updatedAt))
+      .limit(BATCH_SIZE);
+
+    for (const row of rows) {
+      const firstLine = row.content.split('\n')[0].trim();
+      await this.upsertDocument({
+        entityType: 'operation_note',
+        entityId: row.id,
+        operationId: row.operationId,
+        gmailAccountId: null,
+        title: firstLine.length > 80 ? `${firstLine.slice(0, 80)}…` : firstLine || 'Nota',
+        content: row.content,
+        sourceVersion: row.version,
+        sourceDate: row.createdAt,
+      });
+    }
+    return rows.length;
+  }
+
+  private async indexOperationTasks(): Promise<number> {
+    const version = sql`${operationTasks.updatedAt}::text`;
+    const rows = await db.select({
+      id: operationTasks.id,
+      operationId: operationTasks.operationId,
+      title: operationTasks.title,
+      description: operationTasks.description,
+      createdAt: operationTasks.createdAt,
+      version: sql<string>`${version}`,
+    })
+      .from(operationTasks)
+      .where(this.pendingCondition('operation_task', operationTasks.id, version))
+      .orderBy(desc(operationTasks.updatedAt))
+      .limit(BATCH_SIZE);
+
+    for (const row of rows) {
+      await this.upsertDocument({
+        entityType: 'operation_task',
+        entityId: row.id,
+        operationId: row.operationId,
+        gmailAccountId: null,
+        title: row.title,
+        content: row.description || '',
+        sourceVersion: row.version,
+        sourceDate: row.createdAt,
+      });
+    }
+    return rows.length;
+  }
+
+  /**
+   * Correos y adjuntos que se vincularon (o desvincularon) de una operación después de indexarse
+   */
+  private async syncEmailOperations(): Promise<void> {
+    await db.execute(sql`
+      UPDATE search_documents d SET operation_id = m.operation_id
+      FROM gmail_messages m
+      WHERE d.entity_type = 'email' AND d.entity_id = m.id
+        AND d.operation_id IS DISTINCT FROM m.operation_id
+    `);
+    await db.execute(sql`
+      UPDATE search_documents d SET operation_id = m.operation_id
+      FROM gmail_attachments a JOIN gmail_messages m ON m.id = a.gmail_message_id
+      WHERE d.entity_type = 'email_attachment' AND d.entity_id = a.id
+        AND d.operation_id IS DISTINCT FROM m.operation_id
+    `);
+  }
+
+  private async removeOrphans(): Promise<number> {
+    const sources: Array<[SearchEntityType, string]> = [
+      ['email', 'gmail_messages'],
+      ['email_attachment', 'gmail_attachments'],
+      ['operation_file', 'operation_files'],
+      ['operation_note', 'operation_notes'],
+      ['operation_task', 'operation_tasks'],
+    ];
+
+    let removed = 0;
+    for (const [entityType, table] of sources) {
+      const result = await db.execute(sql`
+        DELETE FROM search_documents d
+        WHERE d.entity_type = ${entityType}
+          AND NOT EXISTS (SELECT 1 FROM ${sql.identifier(table)} s WHERE s.id = d.entity_id)
+      `);
+      removed += result.rowCount || 0;
+    }
+    return removed;
+  }
+
+  private async upsertDocument(doc: IndexableDocument): Promise<void> {
+    // Postgres no acepta el carácter nulo en columnas de texto
+    const title = doc.title.replace(/\u0000/g, '').slice(0, 500);
+    const content = doc.content.replace(/\u0000/g, '').slice(0, MAX_CONTENT_LENGTH);
+    const searchVector = sql`
+      setweight(to_tsvector('spanish', ${title}), 'A') || setweight(to_tsvector('english', ${title}), 'A') ||
+      setweight(to_tsvector('spanish', ${content}), 'B') || setweight(to_tsvector('english', ${content}), 'B')
+    `;
+
+    const values = {
+      operationId: doc.operationId,
+      gmailAccountId: doc.gmailAccountId,
+      title,
+      content,
+      searchVector,
+      sourceVersion: doc.sourceVersion,
+      sourceDate: doc.sourceDate,
+    };
+
+    await db.insert(searchDocuments)
+      .values({ entityType: doc.entityType, entityId: doc.entityId, ...values })
+      .onConflictDoUpdate({
+        target: [searchDocuments.entityType, searchDocuments.entityId],
+        set: { ...values, indexedAt: new Date() },
+      });
+  }
+
+  /**
+   * Texto guardado en la base de datos o, si se movió a B2, descargado de ahí.
+   * Regresa null si la descarga falla, para que el documento se vuelva a indexar.
+   */
+  private async readText(inline: string | null, b2Key: string | null): Promise<string | null> {
+    if (inline) return inline;
+    if (!b2Key || !backblazeStorage.isAvailable()) return '';
+
+    try {
+      const buffer = await backblazeStorage.downloadFile(b2Key);
+      return buffer.toString('utf-8');
+    } catch (error) {
+      console.error(`[Search] Could not read ${b2Key} from Backblaze:`, error);
+      return null;
+    }
+  }
+
+  private stripHtml(html: string): string {
+    return html
+      .replace(/<(script|style)[\s\S]*?<\/\1>/gi, ' ')
+      .replace(/<[^>]+>/g, ' ')
+      .replace(/&nbsp;/g, ' ')
+      .replace(/\s+/g, ' ')
+      .trim();
+  }
+
+  /**
+   * Convierte la búsqueda del usuario en un tsquery con prefijos (para buscar mientras se
+   * escribe): todas las palabras deben aparecer, con raíces en español o en inglés
+   */
+  private buildTsQuery(query: string): SQL | null {
+    const terms = query.toLowerCase().split(/[^\w\u00C0-\u024F]+/).filter(Boolean).slice(0, MAX_QUERY_TERMS);
+    if (terms.length === 0) return null;
+
+    const expression = terms.map(term => `${term}:*`).join(' & ');
+    return sql`(to_tsquery('spanish', ${expression}) || to_tsquery('english', ${expression}))`;
+  }
+
+  /**
+   * Busca en todos los tipos de documento y agrupa los resultados por tipo, con fragmentos resaltados
+   */
+  async search(query: string, options: SearchOptions): Promise<SearchResultGroup[]> {
+    const tsQuery = this.buildTsQuery(query);
+    if (!tsQuery) return [];
+
+    const types = options.types && options.types.length > 0 ? options.types : SEARCH_ENTITY_TYPES;
+    const limitPerType = options.limitPerType ?? 5;
+
+    // Correos y adjuntos: de las cuentas del usuario o ya vinculados a una operación
+    const visibility = options.accountIds.length > 0
+      ? or(isNull(searchDocuments.gmailAccountId), isNotNull(searchDocuments.operationId), inArray(searchDocuments.gmailAccountId, options.accountIds))
+      : or(isNull(searchDocuments.gmailAccountId), isNotNull(searchDocuments.operationId));
+
+    const rank = sql`ts_rank(${searchDocuments.searchVector}, ${tsQuery})`;
+    const ranked = db.select({
+      entityType: searchDocuments.entityType,
+      entityId: searchDocuments.entityId,
+      title: searchDocuments.title,
+      content: searchDocuments.content,
+      operationId: searchDocuments.operationId,
+      operationName: operations.name,
+      date: searchDocuments.sourceDate,
+      rank: sql<number>`${rank}`.as('rank'),
+      position: sql<number>`ROW_NUMBER() OVER (PARTITION BY ${searchDocuments.entityType} ORDER BY ${rank} DESC, ${searchDocuments.sourceDate} DESC NULLS LAST)`.as('position'),
+    })
+      .from(searchDocuments)
+      .leftJoin(operations, eq(searchDocuments.operationId, operations.id))
+      .where(and(
+        sql`${searchDocuments.searchVector} @@ ${tsQuery}`,
+        inArray(searchDocuments.entityType, types),
+        visibility,
+      ))
+      .as('ranked');
+
+    const rows = await db.select({
+      entityType: ranked.entityType,
+      entityId: ranked.entityId,
+      title: ranked.title,
+      operationId: ranked.operationId,
+      operationName: ranked.operationName,
+      date: ranked.date,
+      rank: ranked.rank,
+      snippet: sql<string>`CASE WHEN ${ranked.content} = '' THEN '' ELSE ts_headline('spanish', ${ranked.content}, ${tsQuery}, ${HEADLINE_OPTIONS}) END`,
+    })
+      .from(ranked)
+      .where(lte(ranked.position, limitPerType))
+      .orderBy(desc(ranked.rank));
+
+    return types
+      .map(entityType => ({
+        entityType,
+        results: rows
+          .filter(row => row.entityType === entityType)
+          .map(row => ({ ...row, entityType, rank: Number(row.rank) })),
+      }))
+      .filter(group => group.results.length > 0);
+  }
+}
+
+// Instancia singleton
+export const searchService = new SearchService();
+
+// Auto-start function for background processing
+export function startSearchService() {
+  searchService.start();
+}
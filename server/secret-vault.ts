@@ -0,0 +1,170 @@
+/**
+ * Secret Vault - Cifrado en sobre (envelope encryption) de los secretos guardados en la base
+ *
+ * Cada secreto (tokens OAuth de Gmail, contraseñas IMAP/SMTP, credenciales de terceros) se
+ * cifra con su propia llave de datos AES-256-GCM, y esa llave se cifra con la llave maestra
+ * del entorno. Un volcado de la base no basta para leerlos.
+ *
+ * Formato guardado: enc:v1:<id de llave maestra>:<llave de datos cifrada>:<secreto cifrado>
+ * (cada parte cifrada en base64 = iv | tag | texto cifrado).
+ *
+ * Configuración:
+ * - SECRETS_MASTER_KEY = "<id>:<32 bytes en base64>" (llave con la que se cifra)
+ * - SECRETS_PREVIOUS_MASTER_KEYS = "<id>:<base64>,..." (solo para descifrar tras una rotación)
+ *
+ * Rotación: mover la llave actual a SECRETS_PREVIOUS_MASTER_KEYS, poner la nueva en
+ * SECRETS_MASTER_KEY y ejecutar `npm run secrets:reencrypt`. Los valores en texto plano
+ * (anteriores al cifrado) se leen tal cual hasta que ese comando los cifra.
+ *
+ * Sin SECRETS_MASTER_KEY el servidor no arranca en producción (NODE_ENV=production) y
+ * `encrypt` se niega a guardar texto plano. Fuera de producción los secretos nuevos se guardan
+ * en texto plano, con una advertencia al arrancar (`checkConfiguration`); al configurarla,
+ * correr `npm run secrets:reencrypt`.
+ */
+
+import { createCipheriv, createDecipheriv, randomBytes } from 'crypto';
+
+const PREFIX = 'enc:v1:';
+const ALGORITHM = 'aes-256-gcm';
+const IV_BYTES = 12;
+const TAG_BYTES = 16;
+const KEY_BYTES = 32;
+
+interface MasterKey {
+  id: string;
+  key: Buffer;
+}
+
+export class SecretVaultError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'SecretVaultError';
+    Object.setPrototypeOf(this, SecretVaultError.prototype);
+  }
+}
+
+function parseMasterKey(value: string, variable: string): MasterKey {
+  const separator = value.indexOf(':');
+  const id = value.slice(0, separator).trim();
+  const key = Buffer.from(value.slice(separator + 1).trim(), 'base64');
+  if (separator <= 0 || key.length !== KEY_BYTES) {
+    throw new SecretVaultError(`${variable} debe tener el formato "<id>:<32 bytes en base64>"`);
+  }
+  return { id, key };
+}
+
+function seal(key: Buffer, plaintext: Buffer): string {
+  const iv = randomBytes(IV_BYTES);
+  const cipher = createCipheriv(ALGORITHM, key, iv);
+  const encrypted = Buffer.concat([cipher.update(plaintext), cipher.final()]);
+  return Buffer.concat([iv, cipher.getAuthTag(), encrypted]).toString('base64');
+}
+
+function open(key: Buffer, sealed: string): Buffer {
+  const data = Buffer.from(sealed, 'base64');
+  const decipher = createDecipheriv(ALGORITHM, key, data.subarray(0, IV_BYTES));
+  decipher.setAuthTag(data.subarray(IV_BYTES, IV_BYTES + TAG_BYTES));
+  return Buffer.concat([decipher.update(data.subarray(IV_BYTES + TAG_BYTES)), decipher.final()]);
+}
+
+export class SecretVault {
+  private currentKey: MasterKey | null = null;
+  private keys: Map<string, Buffer> | null = null;
+
+  /**
+   * Llaves maestras del entorno (se leen una sola vez)
+   */
+  private loadKeys(): Map<string, Buffer> {
+    if (this.keys) return this.keys;
+
+    const keys = new Map<string, Buffer>();
+    if (process.env.SECRETS_MASTER_KEY) {
+      this.currentKey = parseMasterKey(process.env.SECRETS_MASTER_KEY, 'SECRETS_MASTER_KEY');
+      keys.set(this.currentKey.id, this.currentKey.key);
+    }
+    for (const value of (process.env.SECRETS_PREVIOUS_MASTER_KEYS || '').split(',').filter(v => v.trim())) {
+      const previous = parseMasterKey(value, 'SECRETS_PREVIOUS_MASTER_KEYS');
+      if (!keys.has(previous.id)) keys.set(previous.id, previous.key);
+    }
+
+    this.keys = keys;
+    return keys;
+  }
+
+  /**
+   * Se llama al arrancar el servidor: en producción falla sin llave maestra, fuera de
+   * producción solo advierte que los secretos nuevos se guardarán sin cifrar
+   */
+  checkConfiguration(): void {
+    this.loadKeys();
+    if (this.currentKey) return;
+    if (process.env.NODE_ENV === 'production') {
+      throw new SecretVaultError('SECRETS_MASTER_KEY es obligatoria en producción');
+    }
+    console.warn('[Secret Vault] SECRETS_MASTER_KEY no está configurada: los secretos nuevos se guardarán sin cifrar');
+  }
+
+  get currentKeyId(): string | null {
+    this.loadKeys();
+    return this.currentKey?.id || null;
+  }
+
+  isEncrypted(value: string): boolean {
+    return value.startsWith(PREFIX);
+  }
+
+  /**
+   * Texto plano o cifrado con una llave que no es la actual
+   */
+  needsReencryption(value: string): boolean {
+    return !this.isEncrypted(value) || value.slice(PREFIX.length).split(':')[0] !== this.currentKeyId;
+  }
+
+  /**
+   * Sin llave maestra regresa el texto plano, salvo en producción (ver checkConfiguration)
+   */
+  encrypt(plaintext: string): string {
+    this.loadKeys();
+    if (!this.currentKey) {
+      if (process.env.NODE_ENV === 'production') {
+        throw new SecretVaultError('SECRETS_MASTER_KEY no está configurada; no se guardan secretos sin cifrar en producción');
+      }
+      return plaintext;
+    }
+
+    const dataKey = randomBytes(KEY_BYTES);
+    const wrappedKey = seal(this.currentKey.key, dataKey);
+    const payload = seal(dataKey, Buffer.from(plaintext, 'utf-8'));
+    return `${PREFIX}${this.currentKey.id}:${wrappedKey}:${payload}`;
+  }
+
+  decrypt(value: string): string {
+    if (!this.isEncrypted(value)) {
+      return value; // Guardado antes del cifrado
+    }
+
+    const [keyId, wrappedKey, payload] = value.slice(PREFIX.length).split(':');
+    const masterKey = this.loadKeys().get(keyId);
+    if (!masterKey) {
+      throw new SecretVaultError(`Llave maestra "${keyId}" no disponible; agrégala a SECRETS_PREVIOUS_MASTER_KEYS`);
+    }
+
+    try {
+      const dataKey = open(masterKey, wrappedKey);
+      return open(dataKey, payload).toString('utf-8');
+    } catch {
+      throw new SecretVaultError(`No se pudo descifrar el secreto con la llave "${keyId}"`);
+    }
+  }
+
+  encryptOptional(plaintext: string | null | undefined): string | null {
+    return plaintext ? this.encrypt(plaintext) : null;
+  }
+
+  decryptOptional(value: string | null | undefined): string | null {
+    return value ? this.decrypt(value) : null;
+  }
+}
+
+// Instancia singleton
+export const secretVault = new SecretVault();
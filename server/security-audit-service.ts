@@ -0,0 +1,46 @@
+/**
+ * Security Audit Service - Bitácora de eventos de seguridad
+ *
+ * Registra cada refresco o revocación de tokens OAuth / credenciales y las rotaciones de
+ * la llave maestra de secretos. Registrar nunca interrumpe la operación que lo provoca:
+ * si falla la escritura solo se deja en el log.
+ */
+
+import { db } from './db';
+import { and, desc, eq } from 'drizzle-orm';
+import { securityAuditEvents } from '@shared/schema';
+import type { SecurityAuditEvent, InsertSecurityAuditEvent } from '@shared/schema';
+
+export interface SecurityAuditFilters {
+  eventType?: string;
+  entityType?: string;
+  entityId?: string;
+  limit?: number;
+}
+
+export class SecurityAuditService {
+  async record(event: InsertSecurityAuditEvent): Promise<void> {
+    try {
+      await db.insert(securityAuditEvents).values(event);
+    } catch (error) {
+      console.error(`[Security Audit] Could not record ${event.eventType} for ${event.entityType} ${event.entityId || ''}:`, error);
+    }
+  }
+
+  async getEvents(filters: SecurityAuditFilters = {}): Promise<SecurityAuditEvent[]> {
+    const conditions = [];
+    if (filters.eventType) conditions.push(eq(securityAuditEvents.eventType, filters.eventType));
+    if (filters.entityType) conditions.push(eq(securityAuditEvents.entityType, filters.entityType));
+    if (filters.entityId) conditions.push(eq(securityAuditEvents.entityId, filters.entityId));
+
+    return await db
+      .select()
+      .from(securityAuditEvents)
+      .where(conditions.length > 0 ? and(...conditions) : undefined)
+      .orderBy(desc(securityAuditEvents.createdAt))
+      .limit(Math.min(filters.limit || 200, 1000));
+  }
+}
+
+// Instancia singleton
+export const securityAuditService = new SecurityAuditService();
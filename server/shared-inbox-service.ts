@@ -0,0 +1,326 @@
+/**
+ * Shared Inbox Service - Bandeja compartida sobre los hilos de Gmail
+ *
+ * Los hilos de las cuentas marcadas como compartidas (y los de las cuentas propias) se
+ * reparten entre empleados con un estado (abierto, esperando al cliente, terminado) y
+ * una pausa opcional. Un correo entrante posterior al último cambio de estado reabre
+ * los hilos en espera o terminados. El SLA mide la primera respuesta desde la cuenta
+ * al primer correo entrante del hilo.
+ */
+
+import { db } from './db';
+import { eq, sql } from 'drizzle-orm';
+import { emailThreadAssignments, gmailMessages, employees } from '@shared/schema';
+import type { EmailThreadAssignment } from '@shared/schema';
+import { storage } from './storage';
+
+// Horas para la primera respuesta a un hilo entrante
+export const FIRST_RESPONSE_SLA_HOURS = 4;
+
+// Fracción del SLA consumida a partir de la cual el hilo está "en riesgo"
+const SLA_AT_RISK_RATIO = 0.75;
+
+// Hilos con actividad en estos días (más los asignados sin terminar) entran en la bandeja
+const INBOX_WINDOW_DAYS = 60;
+
+const MAX_THREADS = 500;
+
+const HOUR_MS = 60 * 60 * 1000;
+
+export type InboxStatus = 'open' | 'waiting_client' | 'done';
+export type InboxQueue = 'unassigned' | 'mine' | 'employee' | 'all';
+export type SlaState = 'pending' | 'at_risk' | 'breached' | 'met' | 'missed';
+
+export class SharedInboxError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'SharedInboxError';
+    Object.setPrototypeOf(this, SharedInboxError.prototype);
+  }
+}
+
+export interface ThreadSla {
+  firstInboundAt: Date;
+  firstResponseAt: Date | null;
+  dueAt: Date;
+  state: SlaState;
+  responseMinutes: number | null;
+}
+
+export interface InboxThread {
+  threadId: string;
+  gmailAccountId: string;
+  accountEmail: string;
+  subject: string | null;
+  lastFrom: string | null;
+  lastMessageAt: Date;
+  lastInboundAt: Date;
+  messageCount: number;
+  operationId: string | null;
+  operationName: string | null;
+  assignedEmployeeId: string | null;
+  assignedEmployeeName: string | null;
+  status: InboxStatus; // Estado efectivo (reabierto si llegó un correo nuevo)
+  snoozedUntil: Date | null;
+  isSnoozed: boolean;
+  sla: ThreadSla;
+}
+
+export interface InboxFilters {
+  queue?: InboxQueue;
+  employeeId?: string; // Para queue = 'employee'
+  status?: InboxStatus | 'snoozed';
+  operationId?: string; // Hilos con algún mensaje vinculado a la operación (ignora la ventana y las cuentas)
+}
+
+export interface ThreadInboxUpdate {
+  assignedEmployeeId?: string | null;
+  status?: InboxStatus;
+  snoozedUntil?: Date | null;
+}
+
+export interface EmployeeWorkload {
+  employeeId: string;
+  employeeName: string;
+  open: number;
+  waitingClient: number;
+  snoozed: number;
+  slaBreached: number;
+  slaAtRisk: number;
+  avgFirstResponseMinutes: number | null; // Hilos respondidos en la ventana de la bandeja
+}
+
+interface InboxRow extends Record<string, unknown> {
+  thread_id: string;
+  gmail_account_id: string;
+  account_email: string;
+  subject: string | null;
+  last_from: string | null;
+  message_count: number;
+  last_message_at: Date;
+  first_inbound_at: Date;
+  last_inbound_at: Date;
+  first_response_at: Date | null;
+  operation_id: string | null;
+  operation_name: string | null;
+  assigned_employee_id: string | null;
+  assigned_employee_name: string | null;
+  status: InboxStatus | null;
+  snoozed_until: Date | null;
+  status_changed_at: Date | null;
+}
+
+export function computeSla(firstInboundAt: Date, firstResponseAt: Date | null, now: Date = new Date()): ThreadSla {
+  const dueAt = new Date(firstInboundAt.getTime() + FIRST_RESPONSE_SLA_HOURS * HOUR_MS);
+  const responseMinutes = firstResponseAt
+    ? Math.round((firstResponseAt.getTime() - firstInboundAt.getTime()) / 60000)
+    : null;
+
+  let state: SlaState;
+  if (firstResponseAt) {
+    state = firstResponseAt <= dueAt ? 'met' : 'missed';
+  } else if (now > dueAt) {
+    state = 'breached';
+  } else {
+    const elapsed = (now.getTime() - firstInboundAt.getTime()) / (FIRST_RESPONSE_SLA_HOURS * HOUR_MS);
+    state = elapsed >= SLA_AT_RISK_RATIO ? 'at_risk' : 'pending';
+  }
+
+  return { firstInboundAt, firstResponseAt, dueAt, state, responseMinutes };
+}
+
+export class SharedInboxService {
+  /**
+   * Hilos de la bandeja con su asignación y SLA, filtrados por cola y estado
+   */
+  async getInbox(userId: string, filters: InboxFilters = {}): Promise<InboxThread[]> {
+    const queue = filters.queue || 'all';
+
+    let employeeId = filters.employeeId;
+    if (queue === 'mine') {
+      const employee = await storage.getEmployeeByUserId(userId);
+      if (!employee) return [];
+      employeeId = employee.id;
+    }
+
+    const threads = await this.loadThreads(userId, filters.operationId);
+
+    return threads
+      .filter(thread => {
+        if (queue === 'unassigned' && thread.assignedEmployeeId) return false;
+        if ((queue === 'mine' || queue === 'employee') && thread.assignedEmployeeId !== employeeId) return false;
+
+        if (filters.status === 'snoozed') return thread.isSnoozed;
+        if (filters.status) return thread.status === filters.status && !thread.isSnoozed;
+        // Sin filtro de estado: las colas muestran lo pendiente (no terminado ni pausado)
+        if (filters.operationId) return true;
+        return thread.status !== 'done' && !thread.isSnoozed;
+      })
+      .sort((a, b) => {
+        // Primero los que vencen antes; los respondidos al final por fecha
+        const aDue = a.sla.firstResponseAt ? Infinity : a.sla.dueAt.getTime();
+        const bDue = b.sla.firstResponseAt ? Infinity : b.sla.dueAt.getTime();
+        if (aDue !== bDue) return aDue - bDue;
+        return b.lastMessageAt.getTime() - a.lastMessageAt.getTime();
+      });
+  }
+
+  /**
+   * Hilos con al menos un correo entrante, agregados desde gmail_messages
+   */
+  private async loadThreads(userId: string, operationId?: string): Promise<InboxThread[]> {
+    const since = new Date(Date.now() - INBOX_WINDOW_DAYS * 24 * HOUR_MS);
+
+    const scope = operationId
+      ? sql`m.thread_id IN (SELECT thread_id FROM gmail_messages WHERE operation_id = ${operationId})`
+      : sql`(a.is_shared OR a.user_id = ${userId})
+          AND (m.date >= ${since} OR m.thread_id IN (SELECT thread_id FROM email_thread_assignments WHERE status <> 'done'))`;
+
+    const result = await db.execute<InboxRow>(sql`
+      WITH messages AS (
+        SELECT m.thread_id, m.gmail_account_id, m.subject, m.from_email, m.from_name, m.date, m.operation_id,
+          a.email AS account_email,
+          LOWER(m.from_email) <> LOWER(a.email) AS inbound
+        FROM gmail_messages m
+        JOIN gmail_accounts a ON a.id = m.gmail_account_id
+        WHERE ${scope}
+      ),
+      marked AS (
+        SELECT *, MIN(date) FILTER (WHERE inbound) OVER (PARTITION BY thread_id) AS first_inbound_at
+        FROM messages
+      ),
+      threads AS (
+        SELECT thread_id,
+          (ARRAY_AGG(gmail_account_id ORDER BY date))[1] AS gmail_account_id,
+          (ARRAY_AGG(account_email ORDER BY date))[1] AS account_email,
+          (ARRAY_AGG(subject ORDER BY date))[1] AS subject,
+          (ARRAY_AGG(COALESCE(from_name, from_email) ORDER BY date DESC))[1] AS last_from,
+          COUNT(*)::int AS message_count,
+          MAX(date) AS last_message_at,
+          MIN(first_inbound_at) AS first_inbound_at,
+          MAX(date) FILTER (WHERE inbound) AS last_inbound_at,
+          MIN(date) FILTER (WHERE NOT inbound AND date > first_inbound_at) AS first_response_at,
+          (ARRAY_AGG(operation_id ORDER BY date DESC) FILTER (WHERE operation_id IS NOT NULL))[1] AS operation_id
+        FROM marked
+        GROUP BY thread_id
+        HAVING MIN(first_inbound_at) IS NOT NULL
+      )
+      SELECT t.*, o.name AS operation_name,
+        ta.assigned_employee_id, e.name AS assigned_employee_name,
+        ta.status, ta.snoozed_until, ta.status_changed_at
+      FROM threads t
+      LEFT JOIN operations o ON o.id = t.operation_id
+      LEFT JOIN email_thread_assignments ta ON ta.thread_id = t.thread_id
+      LEFT JOIN employees e ON e.id = ta.assigned_employee_id
+      ORDER BY t.last_message_at DESC
+      LIMIT ${MAX_THREADS}
+    `);
+
+    const now = new Date();
+    return result.rows.map(row => {
+      const lastInboundAt = new Date(row.last_inbound_at);
+      const statusChangedAt = row.status_changed_at ? new Date(row.status_changed_at) : null;
+      const snoozedUntil = row.snoozed_until ? new Date(row.snoozed_until) : null;
+
+      // Un correo entrante después del último cambio de estado reabre el hilo
+      let status: InboxStatus = row.status || 'open';
+      if (status !== 'open' && statusChangedAt && lastInboundAt > statusChangedAt) {
+        status = 'open';
+      }
+
+      return {
+        threadId: row.thread_id,
+        gmailAccountId: row.gmail_account_id,
+        accountEmail: row.account_email,
+        subject: row.subject,
+        lastFrom: row.last_from,
+        lastMessageAt: new Date(row.last_message_at),
+        lastInboundAt,
+        messageCount: Number(row.message_count),
+        operationId: row.operation_id,
+        operationName: row.operation_name,
+        assignedEmployeeId: row.assigned_employee_id,
+        assignedEmployeeName: row.assigned_employee_name,
+        status,
+        snoozedUntil,
+        isSnoozed: !!snoozedUntil && snoozedUntil > now,
+        sla: computeSla(new Date(row.first_inbound_at), row.first_response_at ? new Date(row.first_response_at) : null, now),
+      };
+    });
+  }
+
+  /**
+   * Asigna, cambia el estado o pausa un hilo (crea su registro de bandeja si no existe)
+   */
+  async updateThread(threadId: string, update: ThreadInboxUpdate, userId: string): Promise<EmailThreadAssignment> {
+    const [message] = await db.select({ gmailAccountId: gmailMessages.gmailAccountId })
+      .from(gmailMessages)
+      .where(eq(gmailMessages.threadId, threadId))
+      .limit(1);
+    if (!message) {
+      throw new SharedInboxError('Hilo no encontrado');
+    }
+
+    if (update.assignedEmployeeId) {
+      const employee = await storage.getEmployee(update.assignedEmployeeId);
+      if (!employee) {
+        throw new SharedInboxError('Empleado no encontrado');
+      }
+    }
+
+    const now = new Date();
+    const values = {
+      ...(update.assignedEmployeeId !== undefined && {
+        assignedEmployeeId: update.assignedEmployeeId,
+        assignedBy: userId,
+        assignedAt: now,
+      }),
+      ...(update.status !== undefined && { status: update.status, statusChangedAt: now }),
+      ...(update.snoozedUntil !== undefined && { snoozedUntil: update.snoozedUntil }),
+    };
+
+    const [assignment] = await db.insert(emailThreadAssignments)
+      .values({ threadId, gmailAccountId: message.gmailAccountId, ...values })
+      .onConflictDoUpdate({
+        target: emailThreadAssignments.threadId,
+        set: { ...values, updatedAt: now },
+      })
+      .returning();
+
+    console.log(`[Shared Inbox] Thread ${threadId} updated: ${JSON.stringify(update)}`);
+    return assignment;
+  }
+
+  /**
+   * Carga de trabajo por empleado activo: hilos abiertos, en espera, pausados y SLA
+   */
+  async getWorkload(userId: string): Promise<EmployeeWorkload[]> {
+    const [threads, staff] = await Promise.all([
+      this.loadThreads(userId),
+      db.select({ id: employees.id, name: employees.name }).from(employees).where(eq(employees.status, 'active')),
+    ]);
+
+    return staff
+      .map(employee => {
+        const assigned = threads.filter(t => t.assignedEmployeeId === employee.id);
+        const active = assigned.filter(t => t.status !== 'done' && !t.isSnoozed);
+        const responded = assigned.filter(t => t.sla.responseMinutes !== null);
+        return {
+          employeeId: employee.id,
+          employeeName: employee.name,
+          open: active.filter(t => t.status === 'open').length,
+          waitingClient: active.filter(t => t.status === 'waiting_client').length,
+          snoozed: assigned.filter(t => t.isSnoozed && t.status !== 'done').length,
+          slaBreached: active.filter(t => t.sla.state === 'breached').length,
+          slaAtRisk: active.filter(t => t.sla.state === 'at_risk').length,
+          avgFirstResponseMinutes: responded.length > 0
+            ? Math.round(responded.reduce((sum, t) => sum + t.sla.responseMinutes!, 0) / responded.length)
+            : null,
+        };
+      })
+      .sort((a, b) => (b.open + b.waitingClient) - (a.open + a.waitingClient));
+  }
+}
+
+// Instancia singleton
+export const sharedInboxService = new SharedInboxService();
@@ -5,15 +5,32 @@
  * - Facturas y comprobantes
  * - Documentos legales
  * - Notificaciones transaccionales importantes
+ *
+ * Las reglas guardadas en la base de datos (spam_rules) se evalúan antes que las
+ * heurísticas de este archivo: primero las de permiso, luego las de bloqueo, y dentro
+ * de cada grupo las de la cuenta antes que las globales.
  */
 
-interface EmailMetadata {
+import type { SpamRule } from '@shared/schema';
+
+export interface EmailMetadata {
   fromEmail: string;
   fromName: string;
   subject: string;
   bodyText?: string;
   bodyHtml?: string;
   labels?: string[];
+  headers?: Record<string, string>; // Nombres de encabezado en minúsculas
+}
+
+// Campos de una regla que necesita el filtro para evaluarla
+export type SpamFilterRule = Pick<SpamRule, 'id' | 'gmailAccountId' | 'action' | 'ruleType' | 'pattern' | 'headerName'>;
+
+export interface SpamFilterResult {
+  isSpam: boolean;
+  reason: string;
+  confidence: 'high' | 'medium' | 'low';
+  ruleId: string | null; // Regla de la base de datos que decidió, si alguna
 }
 
 export class SpamFilter {
@@ -112,7 +129,12 @@ export class SpamFilter {
    * Determina si un correo es spam
    * @returns true si es spam (debe filtrarse), false si es importante (debe guardarse)
    */
-  static isSpam(email: EmailMetadata): boolean {
+  static isSpam(email: EmailMetadata, rules: SpamFilterRule[] = []): boolean {
+    const rule = this.findMatchingRule(email, rules);
+    if (rule) {
+      return rule.action === 'block';
+    }
+
     const { fromEmail, fromName, subject, labels } = email;
     const lowerEmail = fromEmail.toLowerCase();
     const lowerSubject = subject.toLowerCase();
@@ -207,14 +229,89 @@ export class SpamFilter {
     return parts.length === 2 ? parts[1] : email;
   }
 
+  /**
+   * Convierte un patrón /regex/flags en RegExp; null si el patrón es texto simple
+   */
+  static parseRegexPattern(pattern: string): RegExp | null {
+    const match = pattern.match(/^\/(.+)\/([a-z]*)$/);
+    return match ? new RegExp(match[1], match[2].includes('i') ? match[2] : `${match[2]}i`) : null;
+  }
+
+  /**
+   * Indica si una regla de la base de datos aplica al correo
+   */
+  static ruleMatches(rule: SpamFilterRule, email: EmailMetadata): boolean {
+    const pattern = rule.pattern.trim().toLowerCase();
+    const fromEmail = email.fromEmail.toLowerCase();
+
+    switch (rule.ruleType) {
+      case 'domain': {
+        const domain = this.extractDomain(fromEmail);
+        const ruleDomain = pattern.replace(/^@/, '');
+        return domain === ruleDomain || domain.endsWith(`.${ruleDomain}`);
+      }
+      case 'address':
+        return fromEmail === pattern;
+      case 'subject': {
+        try {
+          const regex = this.parseRegexPattern(rule.pattern.trim());
+          return regex ? regex.test(email.subject) : email.subject.toLowerCase().includes(pattern);
+        } catch {
+          return false; // Regex inválida guardada antes de validar
+        }
+      }
+      case 'header': {
+        if (!rule.headerName) return false;
+        const value = email.headers?.[rule.headerName.toLowerCase()];
+        if (value === undefined) return false;
+        return pattern === '' || value.toLowerCase().includes(pattern);
+      }
+      default:
+        return false;
+    }
+  }
+
+  /**
+   * Primera regla que aplica: permiso antes que bloqueo, cuenta antes que global
+   */
+  static findMatchingRule(email: EmailMetadata, rules: SpamFilterRule[]): SpamFilterRule | null {
+    const rank = (rule: SpamFilterRule) => (rule.action === 'allow' ? 0 : 2) + (rule.gmailAccountId ? 0 : 1);
+    const ordered = [...rules].sort((a, b) => rank(a) - rank(b));
+    return ordered.find(rule => this.ruleMatches(rule, email)) || null;
+  }
+
+  /**
+   * Texto legible de una regla, para razones y la interfaz
+   */
+  static describeRule(rule: SpamFilterRule): string {
+    const scope = rule.gmailAccountId ? 'de la cuenta' : 'global';
+    const action = rule.action === 'allow' ? 'Regla de permiso' : 'Regla de bloqueo';
+    switch (rule.ruleType) {
+      case 'domain':
+        return `${action} ${scope}: dominio ${rule.pattern}`;
+      case 'address':
+        return `${action} ${scope}: remitente ${rule.pattern}`;
+      case 'subject':
+        return `${action} ${scope}: asunto "${rule.pattern}"`;
+      default:
+        return `${action} ${scope}: encabezado ${rule.headerName}${rule.pattern ? ` contiene "${rule.pattern}"` : ''}`;
+    }
+  }
+
   /**
    * Obtiene estadísticas del filtrado
    */
-  static getFilterStats(email: EmailMetadata): {
-    isSpam: boolean;
-    reason: string;
-    confidence: 'high' | 'medium' | 'low';
-  } {
+  static getFilterStats(email: EmailMetadata, rules: SpamFilterRule[] = []): SpamFilterResult {
+    const rule = this.findMatchingRule(email, rules);
+    if (rule) {
+      return {
+        isSpam: rule.action === 'block',
+        reason: this.describeRule(rule),
+        confidence: 'high',
+        ruleId: rule.id,
+      };
+    }
+
     const isSpam = this.isSpam(email);
     const domain = this.extractDomain(email.fromEmail.toLowerCase());
     
@@ -243,6 +340,6 @@ export class SpamFilter {
       confidence = 'low';
     }
 
-    return { isSpam, reason, confidence };
+    return { isSpam, reason, confidence, ruleId: null };
   }
 }
@@ -0,0 +1,302 @@
+/**
+ * Spam Rule Service - Reglas de spam/permiso editables y bitácora de correos filtrados
+ *
+ * Las reglas se guardan por cuenta de Gmail (o globales) y el sync las pasa a
+ * `SpamFilter`. Los correos filtrados no se guardan en gmail_messages, así que se
+ * registran en `spam_filtered_messages` para poder revisarlos y marcarlos como
+ * "no es spam": eso crea una regla de permiso y vuelve a importar los correos afectados.
+ */
+
+import { db } from './db';
+import { eq, and, or, desc, sql, inArray, isNull } from 'drizzle-orm';
+import { spamRules, spamFilteredMessages } from '@shared/schema';
+import type { SpamRule, InsertSpamRule, SpamFilteredMessage, InsertSpamFilteredMessage } from '@shared/schema';
+import { SpamFilter } from './spam-filter';
+
+export class SpamRuleError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'SpamRuleError';
+    Object.setPrototypeOf(this, SpamRuleError.prototype);
+  }
+}
+
+export interface NotSpamOptions {
+  ruleType: 'address' | 'domain';
+  global: boolean; // Regla para todas las cuentas en vez de solo la del correo
+}
+
+export interface NotSpamResult {
+  rule: SpamRule;
+  restored: number; // Correos filtrados que la nueva regla volvió a importar
+}
+
+export interface SpamFilterStats {
+  filtered: number;
+  restored: number;
+  filteredLast30Days: number;
+  byReason: { reason: string; count: number }[];
+  byConfidence: { confidence: string; count: number }[];
+  topDomains: { domain: string; count: number }[];
+  topRules: { id: string; description: string; action: string; hitCount: number; lastHitAt: Date | null }[];
+}
+
+export class SpamRuleService {
+  /**
+   * Reglas de las cuentas indicadas más las globales
+   */
+  async getRules(accountIds: string[]): Promise<SpamRule[]> {
+    const scope = accountIds.length > 0
+      ? or(isNull(spamRules.gmailAccountId), inArray(spamRules.gmailAccountId, accountIds))
+      : isNull(spamRules.gmailAccountId);
+    return db.select().from(spamRules).where(scope).orderBy(desc(spamRules.createdAt));
+  }
+
+  async getRule(id: string): Promise<SpamRule | undefined> {
+    const [rule] = await db.select().from(spamRules).where(eq(spamRules.id, id));
+    return rule;
+  }
+
+  /**
+   * Reglas encendidas que aplican a una cuenta (las suyas y las globales)
+   */
+  async getActiveRules(accountId: string): Promise<SpamRule[]> {
+    return db.select().from(spamRules).where(and(
+      eq(spamRules.isEnabled, true),
+      or(isNull(spamRules.gmailAccountId), eq(spamRules.gmailAccountId, accountId)),
+    ));
+  }
+
+  async createRule(data: InsertSpamRule): Promise<SpamRule> {
+    const values = this.normalizeRule(data);
+
+    const [duplicate] = await db.select().from(spamRules).where(and(
+      values.gmailAccountId ? eq(spamRules.gmailAccountId, values.gmailAccountId) : isNull(spamRules.gmailAccountId),
+      eq(spamRules.action, values.action),
+      eq(spamRules.ruleType, values.ruleType),
+      eq(spamRules.pattern, values.pattern),
+    ));
+    if (duplicate && (duplicate.headerName || null) === (values.headerName || null)) {
+      throw new SpamRuleError('Ya existe una regla igual');
+    }
+
+    const [rule] = await db.insert(spamRules).values(values).returning();
+    console.log(`[Spam Rules] Created ${rule.action} rule ${rule.ruleType}:${rule.pattern}`);
+    return rule;
+  }
+
+  async updateRule(id: string, data: Partial<InsertSpamRule>): Promise<SpamRule> {
+    const existing = await this.getRule(id);
+    if (!existing) {
+      throw new SpamRuleError('Regla no encontrada');
+    }
+
+    const values = this.normalizeRule({ ...existing, ...data } as InsertSpamRule);
+    const [rule] = await db.update(spamRules)
+      .set({
+        action: values.action,
+        ruleType: values.ruleType,
+        pattern: values.pattern,
+        headerName: values.headerName,
+        note: values.note,
+        isEnabled: values.isEnabled,
+      })
+      .where(eq(spamRules.id, id))
+      .returning();
+    return rule;
+  }
+
+  async deleteRule(id: string): Promise<void> {
+    await db.delete(spamRules).where(eq(spamRules.id, id));
+  }
+
+  /**
+   * Valida la regla y normaliza dominios/direcciones a minúsculas
+   */
+  private normalizeRule(data: InsertSpamRule): InsertSpamRule {
+    const pattern = data.pattern.trim();
+
+    if (data.ruleType === 'header') {
+      if (!data.headerName?.trim()) {
+        throw new SpamRuleError('Las reglas de encabezado necesitan el nombre del encabezado');
+      }
+      return { ...data, pattern, headerName: data.headerName.trim() };
+    }
+
+    if (!pattern) {
+      throw new SpamRuleError('El patrón no puede estar vacío');
+    }
+
+    if (data.ruleType === 'subject') {
+      try {
+        SpamFilter.parseRegexPattern(pattern);
+      } catch {
+        throw new SpamRuleError('La expresión regular del asunto no es válida');
+      }
+      return { ...data, pattern, headerName: null };
+    }
+
+    if (data.ruleType === 'address' && !/^[^@\s]+@[^@\s]+$/.test(pattern)) {
+      throw new SpamRuleError('La dirección de correo no es válida');
+    }
+    if (data.ruleType === 'domain' && !/^@?[^@\s]+\.[^@\s]+$/.test(pattern)) {
+      throw new SpamRuleError('El dominio no es válido');
+    }
+
+    return { ...data, pattern: pattern.toLowerCase().replace(/^@/, ''), headerName: null };
+  }
+
+  /**
+   * Suma un acierto a la regla que decidió el filtrado de un correo
+   */
+  async recordRuleHit(ruleId: string): Promise<void> {
+    await db.update(spamRules)
+      .set({ hitCount: sql`${spamRules.hitCount} + 1`, lastHitAt: new Date() })
+      .where(eq(spamRules.id, ruleId));
+  }
+
+  async recordFilteredMessage(data: InsertSpamFilteredMessage): Promise<void> {
+    await db.insert(spamFilteredMessages).values(data).onConflictDoNothing();
+  }
+
+  async getFilteredMessages(accountId: string, status: string = 'filtered'): Promise<SpamFilteredMessage[]> {
+    return db.select()
+      .from(spamFilteredMessages)
+      .where(and(eq(spamFilteredMessages.gmailAccountId, accountId), eq(spamFilteredMessages.status, status)))
+      .orderBy(desc(spamFilteredMessages.date))
+      .limit(200);
+  }
+
+  async getFilteredMessage(id: string): Promise<SpamFilteredMessage | undefined> {
+    const [message] = await db.select().from(spamFilteredMessages).where(eq(spamFilteredMessages.id, id));
+    return message;
+  }
+
+  /**
+   * Marca un correo filtrado como "no es spam": crea (o reutiliza) una regla de permiso
+   * para su remitente o dominio y vuelve a importar los correos filtrados que la cumplan
+   */
+  async markNotSpam(id: string, options: NotSpamOptions, userId: string): Promise<NotSpamResult> {
+    const filtered = await this.getFilteredMessage(id);
+    if (!filtered) {
+      throw new SpamRuleError('Correo filtrado no encontrado');
+    }
+
+    const fromEmail = filtered.fromEmail.toLowerCase();
+    const pattern = options.ruleType === 'domain' ? fromEmail.split('@')[1] || fromEmail : fromEmail;
+    const gmailAccountId = options.global ? null : filtered.gmailAccountId;
+
+    const [existing] = await db.select().from(spamRules).where(and(
+      gmailAccountId ? eq(spamRules.gmailAccountId, gmailAccountId) : isNull(spamRules.gmailAccountId),
+      eq(spamRules.action, 'allow'),
+      eq(spamRules.ruleType, options.ruleType),
+      eq(spamRules.pattern, pattern),
+    ));
+
+    const rule = existing
+      ? (existing.isEnabled ? existing : await this.updateRule(existing.id, { isEnabled: true }))
+      : await this.createRule({
+          gmailAccountId,
+          action: 'allow',
+          ruleType: options.ruleType,
+          pattern,
+          note: `Marcado como no spam: ${filtered.subject || filtered.fromEmail}`,
+          createdBy: userId,
+        });
+
+    // Correos filtrados a los que ahora aplica la regla (siempre incluye el marcado)
+    const candidates = await db.select()
+      .from(spamFilteredMessages)
+      .where(and(
+        eq(spamFilteredMessages.status, 'filtered'),
+        gmailAccountId ? eq(spamFilteredMessages.gmailAccountId, gmailAccountId) : undefined,
+      ));
+    const toRestore = candidates.filter(message =>
+      message.id === filtered.id ||
+      SpamFilter.ruleMatches(rule, { fromEmail: message.fromEmail, fromName: message.fromName || '', subject: message.subject || '' })
+    );
+
+    const { restoreFilteredMessage } = await import('./gmail-sync');
+    let restored = 0;
+    for (const message of toRestore) {
+      try {
+        const result = await restoreFilteredMessage(message.gmailAccountId, message.messageId);
+        await db.update(spamFilteredMessages)
+          .set({ status: 'restored', restoredBy: userId, restoredAt: new Date() })
+          .where(eq(spamFilteredMessages.id, message.id));
+        if (result === 'synced') restored++;
+      } catch (error) {
+        console.error(`[Spam Rules] Could not restore message ${message.messageId}:`, error);
+      }
+    }
+
+    console.log(`[Spam Rules] Message ${filtered.messageId} marked as not spam, ${restored} messages restored`);
+    return { rule, restored };
+  }
+
+  /**
+   * Estadísticas del filtro a partir de las razones que dio SpamFilter.getFilterStats
+   */
+  async getStats(accountIds: string[]): Promise<SpamFilterStats> {
+    if (accountIds.length === 0) {
+      return { filtered: 0, restored: 0, filteredLast30Days: 0, byReason: [], byConfidence: [], topDomains: [], topRules: [] };
+    }
+
+    const scope = inArray(spamFilteredMessages.gmailAccountId, accountIds);
+    const since = new Date(Date.now() - 30 * 24 * 60 * 60 * 1000);
+
+    const [totals] = await db.select({
+      filtered: sql<number>`COUNT(*) FILTER (WHERE ${spamFilteredMessages.status} = 'filtered')::int`,
+      restored: sql<number>`COUNT(*) FILTER (WHERE ${spamFilteredMessages.status} = 'restored')::int`,
+      filteredLast30Days: sql<number>`COUNT(*) FILTER (WHERE ${spamFilteredMessages.filteredAt} >= ${since})::int`,
+    }).from(spamFilteredMessages).where(scope);
+
+    const byReason = await db.select({
+      reason: spamFilteredMessages.reason,
+      count: sql<number>`COUNT(*)::int`,
+    })
+      .from(spamFilteredMessages)
+      .where(scope)
+      .groupBy(spamFilteredMessages.reason)
+      .orderBy(desc(sql`COUNT(*)`))
+      .limit(10);
+
+    const byConfidence = await db.select({
+      confidence: spamFilteredMessages.confidence,
+      count: sql<number>`COUNT(*)::int`,
+    })
+      .from(spamFilteredMessages)
+      .where(scope)
+      .groupBy(spamFilteredMessages.confidence);
+
+    const domain = sql<string>`LOWER(SPLIT_PART(${spamFilteredMessages.fromEmail}, '@', 2))`;
+    const topDomains = await db.select({ domain, count: sql<number>`COUNT(*)::int` })
+      .from(spamFilteredMessages)
+      .where(and(scope, eq(spamFilteredMessages.status, 'filtered')))
+      .groupBy(domain)
+      .orderBy(desc(sql`COUNT(*)`))
+      .limit(10);
+
+    const rules = (await this.getRules(accountIds))
+      .filter(rule => rule.hitCount > 0)
+      .sort((a, b) => b.hitCount - a.hitCount)
+      .slice(0, 10);
+
+    return {
+      ...totals,
+      byReason,
+      byConfidence,
+      topDomains,
+      topRules: rules.map(rule => ({
+        id: rule.id,
+        description: SpamFilter.describeRule(rule),
+        action: rule.action,
+        hitCount: rule.hitCount,
+        lastHitAt: rule.lastHitAt,
+      })),
+    };
+  }
+}
+
+// Instancia singleton
+export const spamRuleService = new SpamRuleService();
@@ -7,9 +7,10 @@ import {
   operationEmployees, gmailAccounts, gmailMessages, gmailAttachments, calendarEvents,
   automationConfigs, automationRules, automationLogs, operationNotes, operationTasks,
   operationFolders, operationFiles, operationAnalyses, bankAccountAnalyses, knowledgeBase, chatConversations, chatMessages,
-  financialSuggestions,
+  financialSuggestions, bankLedgerEntries, suppliers, emailTemplates,
   type User, type InsertUser,
   type Client, type InsertClient,
+  type Supplier, type InsertSupplier,
   type Employee, type InsertEmployee,
   type Operation, type InsertOperation,
   type OperationEmployee, type InsertOperationEmployee,
@@ -26,6 +27,7 @@ import {
   type GmailAccount, type InsertGmailAccount,
   type GmailMessage, type InsertGmailMessage,
   type GmailAttachment, type InsertGmailAttachment,
+  type EmailTemplate, type InsertEmailTemplate,
   type CalendarEvent, type InsertCalendarEvent,
   type AutomationConfig, type InsertAutomationConfig,
   type AutomationRule, type InsertAutomationRule,
@@ -40,7 +42,24 @@ import {
   type ChatConversation, type InsertChatConversation,
   type ChatMessage, type InsertChatMessage,
   type FinancialSuggestion, type InsertFinancialSuggestion,
+  type BankLedgerEntry,
 } from "@shared/schema";
+import { bankLedgerService } from "./bank-ledger-service";
+import { invoiceBalanceService } from "./invoice-balance-service";
+import { exchangeRateService } from "./exchange-rate-service";
+
+export interface OperationFinancialTotals {
+  invoicesTotal: number;
+  paymentsTotal: number;
+  expensesTotal: number;
+  profit: number;
+}
+
+export interface OperationFinancialSummary extends OperationFinancialTotals {
+  currency: string | null;
+  totalsByCurrency: Array<OperationFinancialTotals & { currency: string }>; // Montos en su moneda original
+  missingRateCurrencies: string[]; // Monedas sin tipo de cambio: sus montos no entran en los totales convertidos
+}
 
 export interface IStorage {
   // Users
@@ -59,6 +78,14 @@ export interface IStorage {
   deleteClient(id: string): Promise<void>;
   countClients(): Promise<number>;
 
+  // Suppliers
+  getAllSuppliers(): Promise<Supplier[]>;
+  getSupplier(id: string): Promise<Supplier | undefined>;
+  getSupplierByRfc(rfc: string): Promise<Supplier | undefined>;
+  createSupplier(supplier: InsertSupplier): Promise<Supplier>;
+  updateSupplier(id: string, supplier: Partial<InsertSupplier>): Promise<Supplier | undefined>;
+  deleteSupplier(id: string): Promise<void>;
+
   // Employees
   getAllEmployees(): Promise<Employee[]>;
   getEmployee(id: string): Promise<Employee | undefined>;
@@ -75,13 +102,7 @@ export interface IStorage {
   updateOperation(id: string, operation: Partial<InsertOperation>): Promise<Operation | undefined>;
   deleteOperation(id: string): Promise<void>;
   countOperations(): Promise<number>;
-  getOperationFinancialSummary(operationId: string): Promise<{
-    invoicesTotal: number;
-    paymentsTotal: number;
-    expensesTotal: number;
-    profit: number;
-    currency: string | null;
-  }>;
+  getOperationFinancialSummary(operationId: string, reportingCurrency?: string): Promise<OperationFinancialSummary>;
 
   // Invoices
   getAllInvoices(): Promise<Invoice[]>;
@@ -121,6 +142,10 @@ export interface IStorage {
   updateBankAccount(id: string, account: Partial<InsertBankAccount>): Promise<BankAccount | undefined>;
   deleteBankAccount(id: string): Promise<void>;
 
+  // Bank Ledger
+  getBankLedgerEntries(bankAccountId: string): Promise<BankLedgerEntry[]>;
+  getBankLedgerEntry(id: string): Promise<BankLedgerEntry | undefined>;
+
   // Payments
   getPayments(invoiceId: string): Promise<Payment[]>;
   getPaymentsByOperation(operationId: string): Promise<Payment[]>;
@@ -194,6 +219,13 @@ export interface IStorage {
   updateGmailAttachment(id: string, attachment: Partial<InsertGmailAttachment>): Promise<GmailAttachment | undefined>;
   deleteGmailAttachment(id: string): Promise<void>;
 
+  // Email Templates
+  getEmailTemplates(filters?: { language?: string; category?: string; activeOnly?: boolean }): Promise<EmailTemplate[]>;
+  getEmailTemplate(id: string): Promise<EmailTemplate | undefined>;
+  createEmailTemplate(template: InsertEmailTemplate): Promise<EmailTemplate>;
+  updateEmailTemplate(id: string, template: Partial<InsertEmailTemplate>): Promise<EmailTemplate | undefined>;
+  deleteEmailTemplate(id: string): Promise<void>;
+
   // Calendar Events
   getAllCalendarEvents(userId: string): Promise<CalendarEvent[]>;
   getCalendarEventsByAccount(accountId: string): Promise<CalendarEvent[]>;
@@ -230,7 +262,6 @@ export interface IStorage {
   getUnprocessedMessages(accountIds: string[], since: Date): Promise<GmailMessage[]>;
   linkMessageToOperation(messageId: string, operationId: string | null): Promise<void>;
   getOperationMessages(operationId: string): Promise<GmailMessage[]>;
-  linkMessagesToOperations(): Promise<void>;
 
   // Operation Notes
   getOperationNotes(operationId: string): Promise<OperationNote[]>;
@@ -355,6 +386,39 @@ export class DatabaseStorage implements IStorage {
     await db.delete(clients).where(eq(clients.id, id));
   }
 
+  // Suppliers
+  async getAllSuppliers(): Promise<Supplier[]> {
+    return await db.select().from(suppliers).orderBy(asc(suppliers.name));
+  }
+
+  async getSupplier(id: string): Promise<Supplier | undefined> {
+    const [supplier] = await db.select().from(suppliers).where(eq(suppliers.id, id));
+    return supplier || undefined;
+  }
+
+  async getSupplierByRfc(rfc: string): Promise<Supplier | undefined> {
+    const [supplier] = await db.select().from(suppliers).where(eq(suppliers.rfc, rfc.toUpperCase()));
+    return supplier || undefined;
+  }
+
+  async createSupplier(insertSupplier: InsertSupplier): Promise<Supplier> {
+    const [supplier] = await db.insert(suppliers).values({
+      ...insertSupplier,
+      rfc: insertSupplier.rfc ? insertSupplier.rfc.toUpperCase() : insertSupplier.rfc,
+    }).returning();
+    return supplier;
+  }
+
+  async updateSupplier(id: string, updateData: Partial<InsertSupplier>): Promise<Supplier | undefined> {
+    const data = updateData.rfc ? { ...updateData, rfc: updateData.rfc.toUpperCase() } : updateData;
+    const [supplier] = await db.update(suppliers).set(data).where(eq(suppliers.id, id)).returning();
+    return supplier || undefined;
+  }
+
+  async deleteSupplier(id: string): Promise<void> {
+    await db.delete(suppliers).where(eq(suppliers.id, id));
+  }
+
   // Employees
   async getAllEmployees(): Promise<Employee[]> {
     return await db.select().from(employees).orderBy(desc(employees.createdAt));
@@ -418,42 +482,74 @@ export class DatabaseStorage implements IStorage {
     await db.delete(operations).where(eq(operations.id, id));
   }
 
-  async getOperationFinancialSummary(operationId: string): Promise<{
-    invoicesTotal: number;
-    paymentsTotal: number;
-    expensesTotal: number;
-    profit: number;
-    currency: string | null;
-  }> {
+  async getOperationFinancialSummary(operationId: string, reportingCurrency?: string): Promise<OperationFinancialSummary> {
     const operation = await this.getOperation(operationId);
-    const currency = operation?.currency || null;
+    const currency = reportingCurrency || operation?.projectCurrency || null;
+    // Cada monto se convierte con el tipo de cambio de la fecha de su transacción
+    const converter = currency ? exchangeRateService.createConverter(currency) : null;
+    const round = (value: number) => Math.round(value * 100) / 100;
+    const emptyTotals = (): OperationFinancialTotals => ({ invoicesTotal: 0, paymentsTotal: 0, expensesTotal: 0, profit: 0 });
+
+    const byCurrency = new Map<string, OperationFinancialTotals>();
+    const missingRates = new Set<string>();
+    const converted = emptyTotals();
+
+    // Un tipo de cambio faltante no tumba el resumen: el monto queda solo en su moneda original
+    const add = async (field: 'invoicesTotal' | 'paymentsTotal' | 'expensesTotal', amount: number, fromCurrency: string, date: Date) => {
+      if (!byCurrency.has(fromCurrency)) byCurrency.set(fromCurrency, emptyTotals());
+      byCurrency.get(fromCurrency)![field] += amount;
+
+      const convertedAmount = converter ? await converter.tryConvert(amount, fromCurrency, date) : amount;
+      if (convertedAmount === null) {
+        missingRates.add(fromCurrency);
+      } else {
+        converted[field] += convertedAmount;
+      }
+    };
 
     const operationInvoices = await db.select()
       .from(invoices)
       .where(eq(invoices.operationId, operationId));
-    
-    const invoicesTotal = operationInvoices.reduce((sum, inv) => sum + Number(inv.totalAmount || 0), 0);
+
+    // Las notas de crédito restan; las facturas canceladas no cuentan
+    for (const inv of operationInvoices.filter(inv => inv.status !== 'cancelled')) {
+      const amount = Number(inv.total || 0);
+      await add('invoicesTotal', inv.tipoComprobante === 'E' ? -amount : amount, inv.currency, inv.stampedAt || inv.createdAt);
+    }
 
     const operationPayments = await db.select()
       .from(payments)
       .where(eq(payments.operationId, operationId));
-    
-    const paymentsTotal = operationPayments.reduce((sum, pay) => sum + Number(pay.amount || 0), 0);
+
+    for (const pay of operationPayments) {
+      await add('paymentsTotal', Number(pay.amount || 0), pay.currency, pay.paymentDate);
+    }
 
     const operationExpenses = await db.select()
       .from(expenses)
       .where(eq(expenses.operationId, operationId));
-    
-    const expensesTotal = operationExpenses.reduce((sum, exp) => sum + Number(exp.amount || 0), 0);
 
-    const profit = paymentsTotal - expensesTotal;
+    for (const exp of operationExpenses) {
+      await add('expensesTotal', Number(exp.amount || 0), exp.currency, exp.date);
+    }
+
+    const finalize = (totals: OperationFinancialTotals): OperationFinancialTotals => ({
+      invoicesTotal: round(totals.invoicesTotal),
+      paymentsTotal: round(totals.paymentsTotal),
+      expensesTotal: round(totals.expensesTotal),
+      profit: round(totals.paymentsTotal - totals.expensesTotal),
+    });
+
+    const totalsByCurrency: OperationFinancialSummary['totalsByCurrency'] = [];
+    byCurrency.forEach((totals, totalsCurrency) => {
+      totalsByCurrency.push({ currency: totalsCurrency, ...finalize(totals) });
+    });
 
     return {
-      invoicesTotal,
-      paymentsTotal,
-      expensesTotal,
-      profit,
-      currency
+      ...finalize(converted),
+      currency,
+      totalsByCurrency: totalsByCurrency.sort((a, b) => a.currency.localeCompare(b.currency)),
+      missingRateCurrencies: Array.from(missingRates).sort(),
     };
   }
 
@@ -490,12 +586,27 @@ export class DatabaseStorage implements IStorage {
   }
 
   async updateInvoice(id: string, updateData: Partial<InsertInvoice>): Promise<Invoice | undefined> {
-    const [invoice] = await db.update(invoices).set(updateData).where(eq(invoices.id, id)).returning();
-    return invoice || undefined;
+    return await db.transaction(async (tx) => {
+      const [invoice] = await tx.update(invoices).set(updateData).where(eq(invoices.id, id)).returning();
+      if (!invoice) return undefined;
+      // status y paidDate se derivan de los pagos: recalcular si cambia algo que los afecta,
+      // respetando el estado que el usuario haya fijado explícitamente en esta actualización
+      if (updateData.total !== undefined || updateData.dueDate !== undefined || updateData.status !== undefined) {
+        return await invoiceBalanceService.syncInvoiceStatus(tx, id, { preserveStatus: updateData.status !== undefined });
+      }
+      return invoice;
+    });
   }
 
   async deleteInvoice(id: string): Promise<void> {
-    await db.delete(invoices).where(eq(invoices.id, id));
+    await db.transaction(async (tx) => {
+      // Los pagos y sus entradas de ledger se eliminan en cascada; solo falta recalcular las cuentas
+      const invoicePayments = await tx.select({ bankAccountId: payments.bankAccountId })
+        .from(payments)
+        .where(eq(payments.invoiceId, id));
+      await tx.delete(invoices).where(eq(invoices.id, id));
+      await bankLedgerService.recomputeAccounts(tx, invoicePayments.map(payment => payment.bankAccountId));
+    });
   }
 
   // Proposals
@@ -551,17 +662,30 @@ export class DatabaseStorage implements IStorage {
   }
 
   async createExpense(insertExpense: InsertExpense): Promise<Expense> {
-    const [expense] = await db.insert(expenses).values(insertExpense).returning();
-    return expense;
+    return await db.transaction(async (tx) => {
+      const [expense] = await tx.insert(expenses).values(insertExpense).returning();
+      await bankLedgerService.syncExpenseEntry(tx, expense);
+      return expense;
+    });
   }
 
   async updateExpense(id: string, updateData: Partial<InsertExpense>): Promise<Expense | undefined> {
-    const [expense] = await db.update(expenses).set(updateData).where(eq(expenses.id, id)).returning();
-    return expense || undefined;
+    return await db.transaction(async (tx) => {
+      const [existing] = await tx.select().from(expenses).where(eq(expenses.id, id));
+      if (!existing) return undefined;
+      const [expense] = await tx.update(expenses).set(updateData).where(eq(expenses.id, id)).returning();
+      await bankLedgerService.syncExpenseEntry(tx, expense, existing.bankAccountId);
+      return expense;
+    });
   }
 
   async deleteExpense(id: string): Promise<void> {
-    await db.delete(expenses).where(eq(expenses.id, id));
+    await db.transaction(async (tx) => {
+      const [deleted] = await tx.delete(expenses).where(eq(expenses.id, id)).returning();
+      if (deleted) {
+        await bankLedgerService.recomputeAccounts(tx, [deleted.bankAccountId]);
+      }
+    });
   }
 
   // Leads
@@ -714,19 +838,42 @@ export class DatabaseStorage implements IStorage {
   }
 
   async createBankAccount(insertAccount: InsertBankAccount): Promise<BankAccount> {
-    const [account] = await db.insert(bankAccounts).values(insertAccount).returning();
+    // currentBalance lo mantiene el ledger: una cuenta nueva arranca en su saldo inicial
+    const [account] = await db.insert(bankAccounts).values({
+      ...insertAccount,
+      currentBalance: insertAccount.initialBalance ?? "0",
+    }).returning();
     return account;
   }
 
   async updateBankAccount(id: string, updateData: Partial<InsertBankAccount>): Promise<BankAccount | undefined> {
-    const [account] = await db.update(bankAccounts).set(updateData).where(eq(bankAccounts.id, id)).returning();
-    return account || undefined;
+    const { currentBalance, ...data } = updateData;
+    return await db.transaction(async (tx) => {
+      const [account] = await tx.update(bankAccounts).set(data).where(eq(bankAccounts.id, id)).returning();
+      if (!account) return undefined;
+      if (data.initialBalance !== undefined) {
+        return await bankLedgerService.recomputeRunningBalances(tx, id);
+      }
+      return account;
+    });
   }
 
   async deleteBankAccount(id: string): Promise<void> {
     await db.delete(bankAccounts).where(eq(bankAccounts.id, id));
   }
 
+  // Bank Ledger
+  async getBankLedgerEntries(bankAccountId: string): Promise<BankLedgerEntry[]> {
+    return await db.select().from(bankLedgerEntries)
+      .where(eq(bankLedgerEntries.bankAccountId, bankAccountId))
+      .orderBy(asc(bankLedgerEntries.entryDate), asc(bankLedgerEntries.createdAt));
+  }
+
+  async getBankLedgerEntry(id: string): Promise<BankLedgerEntry | undefined> {
+    const [entry] = await db.select().from(bankLedgerEntries).where(eq(bankLedgerEntries.id, id));
+    return entry || undefined;
+  }
+
   // Payments
   async getPayments(invoiceId: string): Promise<Payment[]> {
     return await db.select().from(payments).where(eq(payments.invoiceId, invoiceId)).orderBy(desc(payments.paymentDate));
@@ -746,17 +893,40 @@ export class DatabaseStorage implements IStorage {
   }
 
   async createPayment(insertPayment: InsertPayment): Promise<Payment> {
-    const [payment] = await db.insert(payments).values(insertPayment).returning();
-    return payment;
+    return await db.transaction(async (tx) => {
+      const [payment] = await tx.insert(payments).values(insertPayment).returning();
+      await bankLedgerService.syncPaymentEntry(tx, payment);
+      if (payment.invoiceId) {
+        await invoiceBalanceService.syncInvoiceStatus(tx, payment.invoiceId);
+      }
+      return payment;
+    });
   }
 
   async updatePayment(id: string, updateData: Partial<InsertPayment>): Promise<Payment | undefined> {
-    const [payment] = await db.update(payments).set(updateData).where(eq(payments.id, id)).returning();
-    return payment || undefined;
+    return await db.transaction(async (tx) => {
+      const [existing] = await tx.select().from(payments).where(eq(payments.id, id));
+      if (!existing) return undefined;
+      const [payment] = await tx.update(payments).set(updateData).where(eq(payments.id, id)).returning();
+      await bankLedgerService.syncPaymentEntry(tx, payment, existing.bankAccountId);
+      const invoiceIds = new Set([existing.invoiceId, payment.invoiceId].filter((invoiceId): invoiceId is string => !!invoiceId));
+      for (const invoiceId of Array.from(invoiceIds)) {
+        await invoiceBalanceService.syncInvoiceStatus(tx, invoiceId);
+      }
+      return payment;
+    });
   }
 
   async deletePayment(id: string): Promise<void> {
-    await db.delete(payments).where(eq(payments.id, id));
+    await db.transaction(async (tx) => {
+      const [deleted] = await tx.delete(payments).where(eq(payments.id, id)).returning();
+      if (deleted) {
+        await bankLedgerService.recomputeAccounts(tx, [deleted.bankAccountId]);
+        if (deleted.invoiceId) {
+          await invoiceBalanceService.syncInvoiceStatus(tx, deleted.invoiceId);
+        }
+      }
+    });
   }
 
   // Operation Employees (many-to-many)
@@ -938,6 +1108,40 @@ export class DatabaseStorage implements IStorage {
     await db.delete(gmailAttachments).where(eq(gmailAttachments.id, id));
   }
 
+  // Email Templates
+  async getEmailTemplates(filters: { language?: string; category?: string; activeOnly?: boolean } = {}): Promise<EmailTemplate[]> {
+    const conditions = [];
+    if (filters.language) conditions.push(eq(emailTemplates.language, filters.language));
+    if (filters.category) conditions.push(eq(emailTemplates.category, filters.category));
+    if (filters.activeOnly) conditions.push(eq(emailTemplates.isActive, true));
+
+    return await db.select().from(emailTemplates)
+      .where(conditions.length > 0 ? and(...conditions) : undefined)
+      .orderBy(asc(emailTemplates.category), asc(emailTemplates.name));
+  }
+
+  async getEmailTemplate(id: string): Promise<EmailTemplate | undefined> {
+    const [template] = await db.select().from(emailTemplates).where(eq(emailTemplates.id, id));
+    return template || undefined;
+  }
+
+  async createEmailTemplate(insertTemplate: InsertEmailTemplate): Promise<EmailTemplate> {
+    const [template] = await db.insert(emailTemplates).values(insertTemplate).returning();
+    return template;
+  }
+
+  async updateEmailTemplate(id: string, updateData: Partial<InsertEmailTemplate>): Promise<EmailTemplate | undefined> {
+    const [template] = await db.update(emailTemplates)
+      .set({ ...updateData, updatedAt: new Date() })
+      .where(eq(emailTemplates.id, id))
+      .returning();
+    return template || undefined;
+  }
+
+  async deleteEmailTemplate(id: string): Promise<void> {
+    await db.delete(emailTemplates).where(eq(emailTemplates.id, id));
+  }
+
   // Calendar Events
   async getAllCalendarEvents(userId: string): Promise<CalendarEvent[]> {
     const accounts = await this.getAllGmailAccounts(userId);
@@ -1122,55 +1326,6 @@ export class DatabaseStorage implements IStorage {
       .orderBy(desc(gmailMessages.date));
   }
 
-  async linkMessagesToOperations(): Promise<void> {
-    // Get all operations
-    const allOperations = await db.select().from(operations);
-
-    // Get all messages without operation link
-    const unlinkedMessages = await db.select()
-      .from(gmailMessages)
-      .where(sql`${gmailMessages.operationId} IS NULL`);
-
-    // Get all attachments for text extraction
-    const allAttachments = await db.select().from(gmailAttachments);
-
-    let linkedCount = 0;
-
-    for (const message of unlinkedMessages) {
-      for (const operation of allOperations) {
-        const operationName = operation.name.toLowerCase();
-        const bookingNumber = operation.bookingTracking?.toLowerCase();
-
-        // Build searchable content
-        const subject = (message.subject || '').toLowerCase();
-        const from = (message.fromEmail || '').toLowerCase();
-        const snippet = (message.snippet || '').toLowerCase();
-        const bodyText = (message.bodyText || '').toLowerCase();
-
-        // Get attachments text for this message
-        const messageAttachments = allAttachments.filter(att => att.gmailMessageId === message.id);
-        const attachmentsText = messageAttachments
-          .map(att => (att.extractedText || '').toLowerCase())
-          .join(' ');
-
-        // Combine all searchable content
-        const fullContent = `${subject} ${from} ${snippet} ${bodyText} ${attachmentsText}`;
-
-        // Check if operation name or booking number exists
-        const hasOperationName = fullContent.includes(operationName);
-        const hasBookingNumber = bookingNumber && fullContent.includes(bookingNumber);
-
-        if (hasOperationName || hasBookingNumber) {
-          await this.linkMessageToOperation(message.id, operation.id);
-          linkedCount++;
-          break; // Only link to first matching operation
-        }
-      }
-    }
-
-    console.log(`[Email Linking] Linked ${linkedCount} messages to operations`);
-  }
-
   // Operation Notes
   async getOperationNotes(operationId: string): Promise<OperationNote[]> {
     return await db.select().from(operationNotes)
@@ -0,0 +1,483 @@
+/**
+ * Supplier Bill Service - Cuentas por pagar a proveedores
+ *
+ * Registra facturas de proveedores (navieras, agentes, agentes aduanales, transportistas)
+ * con su vencimiento según los días de crédito, programa pagos y aplica los pagos
+ * realizados. Cada pago genera un egreso en el ledger de la cuenta bancaria y mueve la
+ * factura por `pending` → `partially_paid` → `paid`.
+ *
+ * Los CFDI recibidos (XML donde somos el receptor) crean la factura automáticamente y,
+ * si el emisor no existe, el proveedor con sus datos fiscales.
+ */
+
+import { db } from './db';
+import { eq, and, asc, desc, sql, notInArray } from 'drizzle-orm';
+import { suppliers, supplierBills, supplierBillPayments, bankAccounts, operations } from '@shared/schema';
+import type { Supplier, SupplierBill, InsertSupplierBill, SupplierBillPayment, InsertSupplierBillPayment } from '@shared/schema';
+import { bankLedgerService, supplierPaymentDescription, type DbExecutor } from './bank-ledger-service';
+import { storage } from './storage';
+import { facturamaCfdXmlParser } from './facturama-cfdi-xml-parser';
+import type { FacturamaInvoiceData } from './facturama-invoice-extractor';
+
+// Facturas que ya no forman parte de las cuentas por pagar
+const CLOSED_STATUSES = ['paid', 'cancelled'];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const toCents = (value: string | number | null | undefined) => Math.round(Number(value || 0) * 100);
+const fromCents = (cents: number) => (cents / 100).toFixed(2);
+
+export class SupplierBillError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'SupplierBillError';
+    Object.setPrototypeOf(this, SupplierBillError.prototype);
+  }
+}
+
+/**
+ * RFC de la empresa; un CFDI cuyo receptor tenga este RFC es una factura de proveedor
+ */
+export function getCompanyRfc(): string | null {
+  return process.env.COMPANY_RFC ? process.env.COMPANY_RFC.trim().toUpperCase() : null;
+}
+
+/**
+ * Indica si un CFDI fue emitido a nuestro nombre (lo recibimos de un proveedor)
+ */
+export function isReceivedCfdi(invoiceData: FacturamaInvoiceData): boolean {
+  const companyRfc = getCompanyRfc();
+  return !!companyRfc && invoiceData.receptor.rfc.trim().toUpperCase() === companyRfc;
+}
+
+export interface PayableBill extends SupplierBill {
+  supplierName: string;
+  operationName: string | null;
+  balanceDue: string;
+  daysOverdue: number; // Negativo = días que faltan para el vencimiento
+}
+
+export interface PayablesSummaryRow {
+  currency: string;
+  current: number;
+  overdue: number;
+  dueNext7Days: number;
+  scheduled: number; // Saldo con pago programado
+  total: number;
+}
+
+export interface AccountsPayableReport {
+  asOf: string;
+  bills: PayableBill[];
+  summary: PayablesSummaryRow[];
+}
+
+export interface SupplierBillFilters {
+  supplierId?: string;
+  operationId?: string;
+  status?: string; // "open" = pending + partially_paid
+}
+
+export interface CfdiBillImportResult {
+  bill: SupplierBill;
+  supplier: Supplier;
+  created: boolean; // false = ya existía una factura con el mismo UUID
+  supplierCreated: boolean;
+}
+
+/**
+ * Estado que corresponde a una factura de proveedor según lo pagado
+ */
+export function getBillStatus(totalCents: number, paidCents: number): string {
+  if (totalCents > 0 && paidCents >= totalCents) return 'paid';
+  if (paidCents > 0) return 'partially_paid';
+  return 'pending';
+}
+
+export class SupplierBillService {
+  async getBills(filters: SupplierBillFilters = {}): Promise<PayableBill[]> {
+    const conditions = [];
+    if (filters.supplierId) conditions.push(eq(supplierBills.supplierId, filters.supplierId));
+    if (filters.operationId) conditions.push(eq(supplierBills.operationId, filters.operationId));
+    if (filters.status === 'open') conditions.push(notInArray(supplierBills.status, CLOSED_STATUSES));
+    else if (filters.status) conditions.push(eq(supplierBills.status, filters.status));
+
+    const rows = await db.select({ bill: supplierBills, supplierName: suppliers.name, operationName: operations.name })
+      .from(supplierBills)
+      .innerJoin(suppliers, eq(supplierBills.supplierId, suppliers.id))
+      .leftJoin(operations, eq(supplierBills.operationId, operations.id))
+      .where(conditions.length > 0 ? and(...conditions) : undefined)
+      .orderBy(asc(supplierBills.dueDate));
+
+    const now = new Date();
+    return rows.map(({ bill, supplierName, operationName }) => this.toPayable(bill, supplierName, operationName, now));
+  }
+
+  async getBill(id: string): Promise<SupplierBill | undefined> {
+    const [bill] = await db.select().from(supplierBills).where(eq(supplierBills.id, id));
+    return bill;
+  }
+
+  async getPayments(billId: string): Promise<SupplierBillPayment[]> {
+    return await db.select().from(supplierBillPayments)
+      .where(eq(supplierBillPayments.supplierBillId, billId))
+      .orderBy(desc(supplierBillPayments.paymentDate));
+  }
+
+  /**
+   * Registra una factura de proveedor; sin vencimiento explícito se usa fecha + días de crédito
+   */
+  async createBill(data: InsertSupplierBill): Promise<SupplierBill> {
+    const supplier = await storage.getSupplier(data.supplierId);
+    if (!supplier) {
+      throw new SupplierBillError('Proveedor no encontrado');
+    }
+    this.validateAmounts(data.subtotal, data.tax, data.total);
+
+    if (data.folioFiscal) {
+      const [duplicate] = await db.select({ id: supplierBills.id }).from(supplierBills)
+        .where(eq(supplierBills.folioFiscal, data.folioFiscal.toUpperCase()));
+      if (duplicate) {
+        throw new SupplierBillError(`Ya existe una factura de proveedor con el folio fiscal ${data.folioFiscal}`);
+      }
+    }
+
+    const [bill] = await db.insert(supplierBills).values({
+      ...data,
+      folioFiscal: data.folioFiscal ? data.folioFiscal.toUpperCase() : null,
+      dueDate: data.dueDate || new Date(data.billDate.getTime() + supplier.paymentTermsDays * DAY_MS),
+    }).returning();
+
+    console.log(`[Supplier Bills] Created bill ${bill.billNumber} for ${supplier.name} (${bill.total} ${bill.currency})`);
+    return bill;
+  }
+
+  async updateBill(id: string, data: Partial<InsertSupplierBill>): Promise<SupplierBill | undefined> {
+    return await db.transaction(async (tx) => {
+      const [bill] = await tx.select().from(supplierBills).where(eq(supplierBills.id, id)).for('update');
+      if (!bill) return undefined;
+      if (bill.status === 'cancelled') {
+        throw new SupplierBillError('La factura está cancelada');
+      }
+
+      const paidCents = await this.getPaidCents(tx, id);
+      if (paidCents > 0 && data.currency && data.currency !== bill.currency) {
+        throw new SupplierBillError('No se puede cambiar la moneda de una factura con pagos registrados');
+      }
+      if (data.total !== undefined && toCents(data.total) < paidCents) {
+        throw new SupplierBillError(`El total no puede ser menor a lo ya pagado (${fromCents(paidCents)})`);
+      }
+      this.validateAmounts(data.subtotal ?? bill.subtotal, data.tax ?? bill.tax, data.total ?? bill.total);
+
+      const { dueDate, ...rest } = data;
+      const [updated] = await tx.update(supplierBills)
+        .set({ ...rest, ...(dueDate ? { dueDate } : {}) })
+        .where(eq(supplierBills.id, id))
+        .returning();
+
+      return await this.syncBillStatus(tx, updated.id) || updated;
+    });
+  }
+
+  /**
+   * Cancela una factura sin pagos (p. ej. el proveedor la sustituyó)
+   */
+  async cancelBill(id: string): Promise<SupplierBill | undefined> {
+    return await db.transaction(async (tx) => {
+      const [bill] = await tx.select().from(supplierBills).where(eq(supplierBills.id, id)).for('update');
+      if (!bill) return undefined;
+      if (await this.getPaidCents(tx, id) > 0) {
+        throw new SupplierBillError('Elimina primero los pagos registrados de la factura');
+      }
+
+      const [updated] = await tx.update(supplierBills)
+        .set({ status: 'cancelled', scheduledPaymentDate: null, scheduledBankAccountId: null })
+        .where(eq(supplierBills.id, id))
+        .returning();
+      return updated;
+    });
+  }
+
+  async deleteBill(id: string): Promise<boolean> {
+    const bill = await this.getBill(id);
+    if (!bill) return false;
+    if (toCents(bill.amountPaid) > 0) {
+      throw new SupplierBillError('No se puede eliminar una factura con pagos registrados');
+    }
+    await db.delete(supplierBills).where(eq(supplierBills.id, id));
+    return true;
+  }
+
+  /**
+   * Programa (o quita, con fecha nula) el pago de una factura pendiente
+   */
+  async schedulePayment(id: string, scheduledPaymentDate: Date | null, scheduledBankAccountId: string | null): Promise<SupplierBill | undefined> {
+    const bill = await this.getBill(id);
+    if (!bill) return undefined;
+    if (CLOSED_STATUSES.includes(bill.status)) {
+      throw new SupplierBillError('Solo se pueden programar pagos de facturas pendientes');
+    }
+
+    if (scheduledPaymentDate && scheduledBankAccountId) {
+      const [account] = await db.select().from(bankAccounts).where(eq(bankAccounts.id, scheduledBankAccountId));
+      if (!account) {
+        throw new SupplierBillError('Cuenta bancaria no encontrada');
+      }
+      if (account.currency !== bill.currency) {
+        throw new SupplierBillError(`La cuenta ${account.name} es en ${account.currency} y la factura en ${bill.currency}`);
+      }
+    }
+
+    const [updated] = await db.update(supplierBills)
+      .set({
+        scheduledPaymentDate,
+        scheduledBankAccountId: scheduledPaymentDate ? scheduledBankAccountId : null,
+      })
+      .where(eq(supplierBills.id, id))
+      .returning();
+    return updated;
+  }
+
+  /**
+   * Registra un pago al proveedor: egreso en el ledger y recálculo del saldo de la factura
+   */
+  async recordPayment(billId: string, data: Omit<InsertSupplierBillPayment, 'supplierBillId' | 'currency'>): Promise<{ payment: SupplierBillPayment; bill: SupplierBill }> {
+    return await db.transaction(async (tx) => {
+      const [bill] = await tx.select().from(supplierBills).where(eq(supplierBills.id, billId)).for('update');
+      if (!bill) {
+        throw new SupplierBillError('Factura de proveedor no encontrada');
+      }
+      if (CLOSED_STATUSES.includes(bill.status)) {
+        throw new SupplierBillError(bill.status === 'paid' ? 'La factura ya está pagada' : 'La factura está cancelada');
+      }
+
+      const amountCents = toCents(data.amount);
+      if (amountCents <= 0) {
+        throw new SupplierBillError('El monto del pago debe ser mayor a cero');
+      }
+      const balanceCents = toCents(bill.total) - await this.getPaidCents(tx, billId);
+      if (amountCents > balanceCents) {
+        throw new SupplierBillError(`El pago excede el saldo pendiente de la factura (${fromCents(balanceCents)} ${bill.currency})`);
+      }
+
+      if (data.bankAccountId) {
+        const [account] = await tx.select().from(bankAccounts).where(eq(bankAccounts.id, data.bankAccountId));
+        if (!account) {
+          throw new SupplierBillError('Cuenta bancaria no encontrada');
+        }
+        if (account.currency !== bill.currency) {
+          throw new SupplierBillError(`La cuenta ${account.name} es en ${account.currency} y la factura en ${bill.currency}`);
+        }
+      }
+
+      const [payment] = await tx.insert(supplierBillPayments).values({
+        ...data,
+        supplierBillId: billId,
+        amount: fromCents(amountCents),
+        currency: bill.currency,
+      }).returning();
+
+      const [supplier] = await tx.select({ name: suppliers.name }).from(suppliers).where(eq(suppliers.id, bill.supplierId));
+      await bankLedgerService.syncSupplierPaymentEntry(tx, payment, supplierPaymentDescription(supplier?.name || 'Proveedor', bill.billNumber));
+
+      const updated = await this.syncBillStatus(tx, billId);
+      console.log(`[Supplier Bills] Payment of ${payment.amount} ${payment.currency} applied to bill ${bill.billNumber}`);
+      return { payment, bill: updated! };
+    });
+  }
+
+  async deletePayment(billId: string, paymentId: string): Promise<SupplierBill | undefined> {
+    return await db.transaction(async (tx) => {
+      const [payment] = await tx.delete(supplierBillPayments)
+        .where(and(eq(supplierBillPayments.id, paymentId), eq(supplierBillPayments.supplierBillId, billId)))
+        .returning();
+      if (!payment) return undefined;
+
+      // La entrada del ledger se elimina en cascada; solo falta recalcular la cuenta
+      await bankLedgerService.recomputeAccounts(tx, [payment.bankAccountId]);
+      return await this.syncBillStatus(tx, billId);
+    });
+  }
+
+  /**
+   * Cuentas por pagar abiertas con antigüedad, próximos vencimientos y pagos programados
+   */
+  async getAccountsPayable(filters: { supplierId?: string } = {}, asOf: Date = new Date()): Promise<AccountsPayableReport> {
+    const bills = await this.getBills({ supplierId: filters.supplierId, status: 'open' });
+    const nextWeek = new Date(asOf.getTime() + 7 * DAY_MS);
+    const summary = new Map<string, PayablesSummaryRow>();
+
+    for (const bill of bills) {
+      if (!summary.has(bill.currency)) {
+        summary.set(bill.currency, { currency: bill.currency, current: 0, overdue: 0, dueNext7Days: 0, scheduled: 0, total: 0 });
+      }
+      const row = summary.get(bill.currency)!;
+      const balance = Number(bill.balanceDue);
+
+      if (bill.dueDate < asOf) row.overdue += balance;
+      else row.current += balance;
+      if (bill.dueDate >= asOf && bill.dueDate <= nextWeek) row.dueNext7Days += balance;
+      if (bill.scheduledPaymentDate) row.scheduled += balance;
+      row.total += balance;
+    }
+
+    const round2 = (value: number) => Math.round(value * 100) / 100;
+    return {
+      asOf: asOf.toISOString(),
+      bills,
+      summary: Array.from(summary.values())
+        .sort((a, b) => a.currency.localeCompare(b.currency))
+        .map(row => ({
+          ...row,
+          current: round2(row.current),
+          overdue: round2(row.overdue),
+          dueNext7Days: round2(row.dueNext7Days),
+          scheduled: round2(row.scheduled),
+          total: round2(row.total),
+        })),
+    };
+  }
+
+  /**
+   * Crea la factura de proveedor a partir de un CFDI recibido (somos el receptor).
+   * Busca al proveedor por RFC del emisor y lo da de alta si no existe.
+   */
+  async createBillFromCfdi(invoiceData: FacturamaInvoiceData, options: { operationId?: string | null; sourceFileId?: string | null } = {}): Promise<CfdiBillImportResult> {
+    if (!isReceivedCfdi(invoiceData)) {
+      throw new SupplierBillError(
+        getCompanyRfc()
+          ? `El receptor del CFDI (${invoiceData.receptor.rfc}) no es la empresa (${getCompanyRfc()})`
+          : 'Configura COMPANY_RFC para identificar los CFDI recibidos'
+      );
+    }
+    if (invoiceData.tipoComprobante && invoiceData.tipoComprobante !== 'I') {
+      throw new SupplierBillError(`Solo se registran CFDI de Ingreso como facturas de proveedor (tipo ${invoiceData.tipoComprobante})`);
+    }
+    if (!invoiceData.emisor) {
+      throw new SupplierBillError('El CFDI no tiene datos del emisor');
+    }
+    if (!invoiceData.folioFiscal) {
+      throw new SupplierBillError('El CFDI no tiene folio fiscal (UUID)');
+    }
+
+    const folioFiscal = invoiceData.folioFiscal.toUpperCase();
+    let supplier = await storage.getSupplierByRfc(invoiceData.emisor.rfc);
+    let supplierCreated = false;
+
+    const [existing] = await db.select().from(supplierBills).where(eq(supplierBills.folioFiscal, folioFiscal));
+    if (existing) {
+      // Vincular a la operación si la factura se importó antes sin ella
+      if (!existing.operationId && options.operationId) {
+        const [linked] = await db.update(supplierBills)
+          .set({ operationId: options.operationId, sourceFileId: existing.sourceFileId || options.sourceFileId || null })
+          .where(eq(supplierBills.id, existing.id))
+          .returning();
+        return { bill: linked, supplier: (await storage.getSupplier(linked.supplierId))!, created: false, supplierCreated };
+      }
+      return { bill: existing, supplier: (await storage.getSupplier(existing.supplierId))!, created: false, supplierCreated };
+    }
+
+    if (!supplier) {
+      supplier = await storage.createSupplier({
+        name: invoiceData.emisor.nombre,
+        razonSocial: invoiceData.emisor.nombre,
+        rfc: invoiceData.emisor.rfc,
+        regimenFiscal: invoiceData.emisor.regimenFiscal || null,
+        codigoPostal: invoiceData.emisor.lugarExpedicion || null,
+        currency: invoiceData.moneda || 'MXN',
+        createdFromCfdi: true,
+      });
+      supplierCreated = true;
+      console.log(`[Supplier Bills] Created supplier ${supplier.name} (${supplier.rfc}) from CFDI`);
+    }
+
+    const total = invoiceData.total || 0;
+    const subtotal = invoiceData.subtotal ?? total;
+    const billDate = invoiceData.fecha ? new Date(invoiceData.fecha) : new Date();
+
+    const bill = await this.createBill({
+      supplierId: supplier.id,
+      operationId: options.operationId || null,
+      billNumber: invoiceData.folio || folioFiscal.substring(0, 8),
+      folioFiscal,
+      description: invoiceData.conceptos?.join('; ') || null,
+      currency: invoiceData.moneda || supplier.currency,
+      subtotal: subtotal.toFixed(2),
+      tax: (total - subtotal).toFixed(2), // Traslados menos retenciones
+      total: total.toFixed(2),
+      billDate,
+      source: 'cfdi_xml',
+      sourceFileId: options.sourceFileId || null,
+    });
+
+    return { bill, supplier, created: true, supplierCreated };
+  }
+
+  /**
+   * Importa un XML de CFDI recibido subido directamente (sin pasar por adjuntos de correo)
+   */
+  async importCfdiXml(content: string, filename: string, operationId?: string | null): Promise<CfdiBillImportResult> {
+    const invoiceData = await facturamaCfdXmlParser.parseXml(Buffer.from(content, 'utf-8'), filename);
+    if (!invoiceData) {
+      throw new SupplierBillError('El archivo no es un CFDI válido');
+    }
+    return await this.createBillFromCfdi(invoiceData, { operationId });
+  }
+
+  private async getPaidCents(executor: DbExecutor, billId: string): Promise<number> {
+    const [row] = await executor.select({
+      amount: sql<string>`coalesce(sum(${supplierBillPayments.amount}), 0)`,
+    })
+      .from(supplierBillPayments)
+      .where(eq(supplierBillPayments.supplierBillId, billId));
+
+    return toCents(row?.amount);
+  }
+
+  /**
+   * Recalcula `amountPaid` y `status`; una factura liquidada deja de tener pago programado
+   */
+  private async syncBillStatus(executor: DbExecutor, billId: string): Promise<SupplierBill | undefined> {
+    const [bill] = await executor.select().from(supplierBills).where(eq(supplierBills.id, billId));
+    if (!bill) return undefined;
+
+    const paidCents = await this.getPaidCents(executor, billId);
+    const updates: Partial<SupplierBill> = { amountPaid: fromCents(paidCents) };
+    if (bill.status !== 'cancelled') {
+      updates.status = getBillStatus(toCents(bill.total), paidCents);
+      if (updates.status === 'paid') {
+        updates.scheduledPaymentDate = null;
+        updates.scheduledBankAccountId = null;
+      }
+    }
+
+    const [updated] = await executor.update(supplierBills)
+      .set(updates)
+      .where(eq(supplierBills.id, billId))
+      .returning();
+    return updated;
+  }
+
+  private validateAmounts(subtotal: string, tax: string | null | undefined, total: string) {
+    if (toCents(total) <= 0) {
+      throw new SupplierBillError('El total de la factura debe ser mayor a cero');
+    }
+    if (toCents(subtotal) + toCents(tax) !== toCents(total)) {
+      throw new SupplierBillError('El total debe ser igual al subtotal más impuestos');
+    }
+  }
+
+  private toPayable(bill: SupplierBill, supplierName: string, operationName: string | null, now: Date): PayableBill {
+    const balanceCents = bill.status === 'cancelled' ? 0 : toCents(bill.total) - toCents(bill.amountPaid);
+    return {
+      ...bill,
+      supplierName,
+      operationName,
+      balanceDue: fromCents(balanceCents),
+      daysOverdue: Math.floor((now.getTime() - bill.dueDate.getTime()) / DAY_MS),
+    };
+  }
+}
+
+// Instancia singleton
+export const supplierBillService = new SupplierBillService();
@@ -0,0 +1,352 @@
+/**
+ * Tariff Parser
+ *
+ * Convierte tarifarios de carriers y agentes (CSV o XLSX) a renglones por lane.
+ *
+ * El encabezado se detecta por nombre de columna (español / inglés) dentro de las primeras
+ * filas, porque los tarifarios suelen traer títulos y leyendas antes de la tabla:
+ * - Obligatorias: origen, destino y tarifa (UN/LOCODE o, en aéreo, código IATA)
+ * - Opcionales: equipo, rango de peso (+45, +100...; "-45" equivale a 0), mínimo, moneda,
+ *   vigencia desde / hasta, tránsito, carrier y notas
+ * - Recargos: cualquier columna cuyo encabezado sea un código de cargo (BAF, LSS, THC, FSC...)
+ */
+
+import ExcelJS from 'exceljs';
+import { CHARGE_CODES } from '@shared/freight-quote';
+
+export type TariffFileFormat = 'csv' | 'xlsx';
+
+export interface ParsedTariffSurcharge {
+  chargeCode: string;
+  rate: number;
+}
+
+export interface ParsedTariffRow {
+  row: number; // Número de fila en el archivo (1 = primera fila)
+  origin: string;
+  destination: string;
+  equipmentType: string | null;
+  weightBreakKg: number | null;
+  baseRate: number;
+  minimumCharge: number | null;
+  currency: string | null;
+  surcharges: ParsedTariffSurcharge[];
+  carrier: string | null;
+  transitDays: number | null;
+  validFrom: Date | null;
+  validUntil: Date | null;
+  notes: string | null;
+}
+
+export interface TariffRowError {
+  row: number;
+  message: string;
+}
+
+export interface ParsedTariff {
+  format: TariffFileFormat;
+  rows: ParsedTariffRow[];
+  errors: TariffRowError[];
+}
+
+export class TariffParseError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'TariffParseError';
+    Object.setPrototypeOf(this, TariffParseError.prototype);
+  }
+}
+
+const HEADER_SCAN_ROWS = 15;
+
+// Los códigos de flete base se leen como la tarifa, no como recargo
+const BASE_RATE_CODES = ['OFR', 'AFR', 'TRK'];
+
+const COLUMNS = {
+  origin: ['origen', 'origin', 'pol', 'aol', 'puerto de carga', 'port of loading', 'aeropuerto de origen', 'from'],
+  destination: ['destino', 'destination', 'pod', 'aod', 'puerto de descarga', 'port of discharge', 'aeropuerto de destino', 'to'],
+  rate: ['tarifa', 'flete', 'rate', 'base rate', 'freight', 'ofr', 'afr', 'trk', 'precio', 'all in'],
+  equipment: ['equipo', 'contenedor', 'tipo de contenedor', 'equipment', 'container', 'container type', 'cntr'],
+  weightBreak: ['rango', 'rango de peso', 'peso', 'weight break', 'break', 'desde kg', 'min kg', 'kg'],
+  minimum: ['minimo', 'cargo minimo', 'minimum', 'min', 'min charge'],
+  currency: ['moneda', 'divisa', 'currency', 'cur', 'curr'],
+  validFrom: ['vigencia desde', 'valido desde', 'desde', 'valid from', 'effective', 'effective date', 'inicio'],
+  validUntil: ['vigencia hasta', 'valido hasta', 'vigencia', 'hasta', 'valid until', 'valid to', 'expiry', 'expiration', 'vencimiento'],
+  transitDays: ['transito', 'tiempo de transito', 'dias de transito', 'transit', 'transit time', 'transit days', 'tt'],
+  carrier: ['carrier', 'naviera', 'aerolinea', 'linea', 'transportista', 'airline', 'shipping line'],
+  notes: ['notas', 'observaciones', 'comentarios', 'notes', 'remarks'],
+};
+
+/**
+ * Detecta el formato del archivo por extensión
+ */
+export function detectTariffFormat(fileName: string): TariffFileFormat {
+  return /\.xlsx$/i.test(fileName) ? 'xlsx' : 'csv';
+}
+
+/**
+ * Parsea un tarifario. En XLSX el contenido llega en base64; en CSV, como texto.
+ * Solo se lee la primera hoja del libro.
+ */
+export async function parseTariffFile(fileName: string, content: string, format?: TariffFileFormat): Promise<ParsedTariff> {
+  if (/\.xls$/i.test(fileName)) {
+    throw new TariffParseError('Los archivos .xls (Excel 97-2003) no se admiten; guárdalo como .xlsx o CSV');
+  }
+
+  const resolvedFormat = format || detectTariffFormat(fileName);
+  const rows = resolvedFormat === 'xlsx' ? await readWorkbookRows(content) : readCsvRows(content);
+
+  const headerIndex = rows.slice(0, HEADER_SCAN_ROWS).findIndex(row => {
+    const headers = row.map(cell => normalizeHeader(String(cell)));
+    return [COLUMNS.origin, COLUMNS.destination, COLUMNS.rate].every(names => headers.some(h => names.includes(h)));
+  });
+
+  if (headerIndex === -1) {
+    throw new TariffParseError('No se encontró un encabezado con columnas de origen, destino y tarifa');
+  }
+
+  const rawHeaders = rows[headerIndex].map(cell => String(cell).trim());
+  const headers = rawHeaders.map(normalizeHeader);
+  const column = (names: string[]) => headers.findIndex(h => names.includes(h));
+  const cols = {
+    origin: column(COLUMNS.origin),
+    destination: column(COLUMNS.destination),
+    rate: column(COLUMNS.rate),
+    equipment: column(COLUMNS.equipment),
+    weightBreak: column(COLUMNS.weightBreak),
+    minimum: column(COLUMNS.minimum),
+    currency: column(COLUMNS.currency),
+    validFrom: column(COLUMNS.validFrom),
+    validUntil: column(COLUMNS.validUntil),
+    transitDays: column(COLUMNS.transitDays),
+    carrier: column(COLUMNS.carrier),
+    notes: column(COLUMNS.notes),
+  };
+
+  // "BAF", "BAF (USD)", "THC Origen"... -> código de cargo
+  const surchargeColumns: { index: number; chargeCode: string }[] = [];
+  rawHeaders.forEach((header, index) => {
+    const code = header.toUpperCase().match(/^[A-Z]{3,4}\b/)?.[0];
+    if (code && index !== cols.rate && !BASE_RATE_CODES.includes(code) && CHARGE_CODES.some(item => item.code === code)) {
+      surchargeColumns.push({ index, chargeCode: code });
+    }
+  });
+
+  const parsedRows: ParsedTariffRow[] = [];
+  const errors: TariffRowError[] = [];
+
+  for (let i = headerIndex + 1; i < rows.length; i++) {
+    const fields = rows[i];
+    if (fields.every(cell => String(cell).trim() === '')) continue;
+
+    const rowNumber = i + 1;
+    const text = (index: number) => (index === -1 ? '' : String(fields[index] ?? '').trim());
+    const origin = normalizeCode(text(cols.origin));
+    const destination = normalizeCode(text(cols.destination));
+    const baseRate = parseNumber(fields[cols.rate]);
+
+    if (!origin || !destination) {
+      errors.push({ row: rowNumber, message: 'Falta origen o destino' });
+      continue;
+    }
+    if (baseRate === null || baseRate < 0) {
+      errors.push({ row: rowNumber, message: 'Tarifa inválida' });
+      continue;
+    }
+
+    const surcharges: ParsedTariffSurcharge[] = [];
+    for (const { index, chargeCode } of surchargeColumns) {
+      const rate = parseNumber(fields[index]);
+      if (rate) surcharges.push({ chargeCode, rate });
+    }
+
+    const currency = text(cols.currency).toUpperCase();
+    const transitDays = parseNumber(fields[cols.transitDays]);
+    parsedRows.push({
+      row: rowNumber,
+      origin,
+      destination,
+      equipmentType: text(cols.equipment) || null,
+      weightBreakKg: cols.weightBreak === -1 ? null : parseWeightBreak(fields[cols.weightBreak]),
+      baseRate,
+      minimumCharge: cols.minimum === -1 ? null : parseNumber(fields[cols.minimum]),
+      currency: /^[A-Z]{3}$/.test(currency) ? currency : null,
+      surcharges,
+      carrier: text(cols.carrier) || null,
+      transitDays: transitDays !== null ? Math.round(transitDays) : null,
+      validFrom: cols.validFrom === -1 ? null : parseDate(fields[cols.validFrom]),
+      validUntil: cols.validUntil === -1 ? null : parseDate(fields[cols.validUntil]),
+      notes: text(cols.notes) || null,
+    });
+  }
+
+  return { format: resolvedFormat, rows: parsedRows, errors };
+}
+
+// ============================================================================
+// Lectura de archivos
+// ============================================================================
+
+/**
+ * Filas de la primera hoja de un XLSX (base64), conservando las filas vacías
+ * para que los números de fila coincidan con los del archivo
+ */
+async function readWorkbookRows(base64: string): Promise<unknown[][]> {
+  const workbook = new ExcelJS.Workbook();
+  try {
+    await workbook.xlsx.load(Buffer.from(base64, 'base64'));
+  } catch (error) {
+    throw new TariffParseError(`No se pudo leer el archivo: ${error instanceof Error ? error.message : 'formato inválido'}`);
+  }
+
+  const sheet = workbook.worksheets[0];
+  if (!sheet) {
+    throw new TariffParseError('El archivo no contiene hojas');
+  }
+
+  const rows: unknown[][] = [];
+  for (let r = 1; r <= sheet.rowCount; r++) {
+    const row = sheet.getRow(r);
+    const cells: unknown[] = [];
+    for (let c = 1; c <= sheet.columnCount; c++) {
+      cells.push(cellValue(row.getCell(c).value));
+    }
+    rows.push(cells);
+  }
+  return rows;
+}
+
+/**
+ * Valor simple de una celda: el resultado de las fórmulas y el texto de hipervínculos y texto enriquecido
+ */
+function cellValue(value: ExcelJS.CellValue): unknown {
+  if (value === null || value === undefined) return '';
+  if (typeof value !== 'object' || value instanceof Date) return value;
+  if ('result' in value) return value.result ?? '';
+  if ('richText' in value) return value.richText.map(part => part.text).join('');
+  if ('text' in value) return value.text;
+  return '';
+}
+
+/**
+ * Filas de un CSV separado por comas, punto y coma o tabuladores
+ */
+function readCsvRows(content: string): unknown[][] {
+  const lines = content.replace(/^\uFEFF/, '').split(/\r?\n/);
+  const sample = lines.slice(0, HEADER_SCAN_ROWS);
+  const delimiter = [';', '\t', ','].find(d => sample.some(line => line.split(d).length > 2)) || ',';
+  return lines.map(line => splitCsvLine(line, delimiter));
+}
+
+function splitCsvLine(line: string, delimiter: string): string[] {
+  const fields: string[] = [];
+  let current = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (char === '"') {
+      if (inQuotes && line[i + 1] === '"') {
+        current += '"';
+        i++;
+      } else {
+        inQuotes = !inQuotes;
+      }
+    } else if (char === delimiter && !inQuotes) {
+      fields.push(current.trim());
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+  fields.push(current.trim());
+  return fields;
+}
+
+// ============================================================================
+// Utilidades
+// ============================================================================
+
+function normalizeHeader(header: string): string {
+  return header
+    .toLowerCase()
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/\(.*?\)/g, '') // "Tarifa (USD)" -> "tarifa"
+    .replace(/["'.:]/g, '')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+/**
+ * UN/LOCODE ("MX ZLO", "mxzlo") o IATA ("MEX"); otros textos se conservan para buscarlos por nombre
+ */
+function normalizeCode(raw: string): string {
+  const compact = raw.toUpperCase().replace(/[\s-]/g, '');
+  return /^[A-Z]{2}[A-Z0-9]{3}$/.test(compact) || /^[A-Z]{3}$/.test(compact) ? compact : raw.trim();
+}
+
+/**
+ * Convierte "1,234.56", "$ 1.234,56", "USD 950" o números de la hoja
+ */
+function parseNumber(raw: unknown): number | null {
+  if (raw === undefined || raw === null) return null;
+  if (typeof raw === 'number') return isFinite(raw) ? raw : null;
+
+  let value = String(raw).trim().replace(/[^0-9.,-]/g, '');
+  if (!value) return null;
+
+  const lastComma = value.lastIndexOf(',');
+  const lastDot = value.lastIndexOf('.');
+  if (lastComma > lastDot) {
+    // Coma como separador decimal solo si le siguen 1-2 dígitos
+    const decimals = value.length - lastComma - 1;
+    value = decimals > 0 && decimals <= 2
+      ? value.replace(/\./g, '').replace(',', '.')
+      : value.replace(/,/g, '');
+  } else {
+    value = value.replace(/,/g, '');
+  }
+
+  const parsed = parseFloat(value);
+  return isNaN(parsed) ? null : parsed;
+}
+
+/**
+ * Rangos aéreos: "+45" -> 45, "-45" / "min" -> 0 (aplica desde el primer kg)
+ */
+function parseWeightBreak(raw: unknown): number | null {
+  const value = String(raw ?? '').trim();
+  if (!value) return null;
+  if (value.startsWith('-') || /^m(in|ín)/i.test(value)) return 0;
+  const parsed = parseNumber(value.replace(/^\+/, ''));
+  return parsed !== null && parsed >= 0 ? parsed : null;
+}
+
+/**
+ * Fechas de la hoja (Date, que exceljs entrega en UTC), YYYY-MM-DD o DD/MM/YYYY, a mediodía UTC
+ */
+function parseDate(raw: unknown): Date | null {
+  if (raw instanceof Date) {
+    return isNaN(raw.getTime()) ? null : utcNoon(raw.getUTCFullYear(), raw.getUTCMonth() + 1, raw.getUTCDate());
+  }
+
+  const value = String(raw ?? '').trim();
+  if (!value) return null;
+
+  let match = value.match(/^(\d{4})-(\d{1,2})-(\d{1,2})/);
+  if (match) return utcNoon(+match[1], +match[2], +match[3]);
+
+  match = value.match(/^(\d{1,2})[\/.-](\d{1,2})[\/.-](\d{2,4})/);
+  if (match) {
+    const year = match[3].length === 2 ? 2000 + +match[3] : +match[3];
+    return utcNoon(year, +match[2], +match[1]);
+  }
+
+  return null;
+}
+
+function utcNoon(year: number, month: number, day: number): Date | null {
+  if (month < 1 || month > 12 || day < 1 || day > 31) return null;
+  return new Date(Date.UTC(year, month - 1, day, 12, 0, 0));
+}
@@ -0,0 +1,419 @@
+/**
+ * Tariff Service - Tarifarios de carriers y agentes y búsqueda de tarifas por lane
+ *
+ * Cada tarifario pertenece a un proveedor (carrier o agente) y se carga desde su hoja de
+ * tarifas (CSV / XLSX). Al importar, origen y destino se resuelven contra el catálogo
+ * UN/LOCODE y cada renglón hereda moneda y vigencia del tarifario si no las trae.
+ *
+ * La búsqueda toma los renglones vigentes a la fecha de la lane, calcula el costo con sus
+ * recargos (en aéreo, el rango de peso más barato para el peso tasable, respetando el
+ * mínimo) y devuelve las opciones más baratas convertidas a la moneda solicitada.
+ */
+
+import { db } from './db';
+import { eq, and, or, desc, inArray, isNull, lte, gte } from 'drizzle-orm';
+import { rateTariffs, tariffRates, suppliers, locations } from '@shared/schema';
+import type { RateTariff, TariffRate, InsertRateTariff, Location } from '@shared/schema';
+import { computeChargeLineAmounts, getChargeCode, type ChargeBasis } from '@shared/freight-quote';
+import {
+  getTariffMode,
+  normalizeEquipmentType,
+  EQUIPMENT_TYPES,
+  type TariffMode,
+  type TariffSurcharge,
+  type RateLookupChargeLine,
+  type RateLookupOption,
+} from '@shared/tariffs';
+import { exchangeRateService, ExchangeRateError } from './exchange-rate-service';
+import { locationService } from './location-service';
+import { parseTariffFile, type TariffFileFormat, type TariffRowError } from './tariff-parser';
+
+const INSERT_BATCH_SIZE = 500;
+const DEFAULT_LOOKUP_LIMIT = 5;
+const MAX_LOOKUP_LIMIT = 20;
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+export class TariffError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'TariffError';
+    Object.setPrototypeOf(this, TariffError.prototype);
+  }
+}
+
+export interface TariffImportInput extends InsertRateTariff {
+  fileName: string;
+  content: string;
+  format?: TariffFileFormat;
+  uploadedById?: string;
+}
+
+export interface TariffImportResult {
+  tariff: RateTariff;
+  imported: number;
+  skipped: TariffRowError[];
+}
+
+export interface TariffWithSupplier extends RateTariff {
+  supplierName: string;
+  supplierType: string;
+}
+
+export interface TariffRateWithLane extends TariffRate {
+  origin: Pick<Location, 'unlocode' | 'name'> | null;
+  destination: Pick<Location, 'unlocode' | 'name'> | null;
+}
+
+export interface RateLookupQuery {
+  origin: string; // Id de ubicación, UN/LOCODE, IATA o nombre
+  destination: string;
+  date?: Date;
+  mode?: TariffMode;
+  equipmentType?: string;
+  containers?: number;
+  weightKg?: number; // Peso tasable; obligatorio para tarifas por kg
+  currency?: string;
+  limit?: number;
+}
+
+export interface RateLookupResult {
+  origin: Location;
+  destination: Location;
+  date: Date;
+  currency: string;
+  options: RateLookupOption[];
+}
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+function utcNoon(date: Date): Date {
+  return new Date(Date.UTC(date.getFullYear(), date.getMonth(), date.getDate(), 12, 0, 0));
+}
+
+class TariffService {
+  /**
+   * Importa un tarifario. Los renglones con ubicaciones desconocidas se omiten y se reportan.
+   */
+  async importTariff(input: TariffImportInput): Promise<TariffImportResult> {
+    const { fileName, content, format, uploadedById, ...tariffData } = input;
+
+    const [supplier] = await db.select().from(suppliers).where(eq(suppliers.id, tariffData.supplierId));
+    if (!supplier) {
+      throw new TariffError('Proveedor no encontrado');
+    }
+
+    const parsed = await parseTariffFile(fileName, content, format);
+    const mode = getTariffMode(tariffData.mode)!;
+    const resolved = await this.resolveLocations(
+      parsed.rows.flatMap(row => [row.origin, row.destination]),
+      tariffData.mode
+    );
+
+    const skipped: TariffRowError[] = [...parsed.errors];
+    const rates: Omit<TariffRate, 'id' | 'tariffId' | 'createdAt'>[] = [];
+    for (const row of parsed.rows) {
+      const origin = resolved.get(row.origin);
+      const destination = resolved.get(row.destination);
+      if (!origin || !destination) {
+        const unknown = [origin ? null : row.origin, destination ? null : row.destination].filter(Boolean).join(', ');
+        skipped.push({ row: row.row, message: `Ubicación desconocida: ${unknown}` });
+        continue;
+      }
+
+      const currency = row.currency || tariffData.currency;
+      const basis: ChargeBasis = mode.code === 'air' || row.weightBreakKg !== null ? 'per_kg' : mode.basis;
+      const surcharges: TariffSurcharge[] = row.surcharges.map(surcharge => ({
+        chargeCode: surcharge.chargeCode,
+        basis: getChargeCode(surcharge.chargeCode)?.basis || 'per_shipment',
+        rate: surcharge.rate,
+        currency,
+      }));
+
+      rates.push({
+        originLocationId: origin.id,
+        destinationLocationId: destination.id,
+        equipmentType: mode.code === 'sea' ? normalizeEquipmentType(row.equipmentType) : null,
+        weightBreakKg: basis === 'per_kg' ? String(row.weightBreakKg ?? 0) : null,
+        basis,
+        currency,
+        baseRate: String(row.baseRate),
+        minimumCharge: row.minimumCharge !== null ? String(row.minimumCharge) : null,
+        surcharges,
+        carrier: row.carrier,
+        transitDays: row.transitDays,
+        validFrom: row.validFrom || tariffData.validFrom || null,
+        validUntil: row.validUntil || tariffData.validUntil || null,
+        notes: row.notes,
+      });
+    }
+
+    if (rates.length === 0) {
+      const reasons = skipped.slice(0, 3).map(error => `fila ${error.row}: ${error.message}`).join('; ');
+      throw new TariffError(`El archivo no contiene tarifas válidas${reasons ? ` (${reasons})` : ''}`);
+    }
+
+    const tariff = await db.transaction(async (tx) => {
+      const [created] = await tx.insert(rateTariffs).values({
+        ...tariffData,
+        fileName,
+        rateCount: rates.length,
+        uploadedById: uploadedById || null,
+      }).returning();
+
+      for (let i = 0; i < rates.length; i += INSERT_BATCH_SIZE) {
+        await tx.insert(tariffRates).values(
+          rates.slice(i, i + INSERT_BATCH_SIZE).map(rate => ({ ...rate, tariffId: created.id }))
+        );
+      }
+      return created;
+    });
+
+    skipped.sort((a, b) => a.row - b.row);
+    console.log(`[Tariffs] Imported ${rates.length} rates into "${tariff.name}" (${skipped.length} rows skipped)`);
+    return { tariff, imported: rates.length, skipped };
+  }
+
+  async getTariffs(): Promise<TariffWithSupplier[]> {
+    const rows = await db.select({ tariff: rateTariffs, supplierName: suppliers.name, supplierType: suppliers.supplierType })
+      .from(rateTariffs)
+      .innerJoin(suppliers, eq(rateTariffs.supplierId, suppliers.id))
+      .orderBy(desc(rateTariffs.createdAt));
+
+    return rows.map(row => ({ ...row.tariff, supplierName: row.supplierName, supplierType: row.supplierType }));
+  }
+
+  async getRates(tariffId: string): Promise<TariffRateWithLane[]> {
+    const rates = await db.select().from(tariffRates).where(eq(tariffRates.tariffId, tariffId));
+    const laneLocations = await locationService.getByIds(
+      rates.flatMap(rate => [rate.originLocationId, rate.destinationLocationId])
+    );
+    const byId = new Map(laneLocations.map(location => [location.id, location]));
+    const summary = (id: string) => {
+      const location = byId.get(id);
+      return location ? { unlocode: location.unlocode, name: location.name } : null;
+    };
+
+    return rates
+      .map(rate => ({ ...rate, origin: summary(rate.originLocationId), destination: summary(rate.destinationLocationId) }))
+      .sort((a, b) =>
+        (a.origin?.unlocode || '').localeCompare(b.origin?.unlocode || '') ||
+        (a.destination?.unlocode || '').localeCompare(b.destination?.unlocode || '') ||
+        (a.equipmentType || '').localeCompare(b.equipmentType || '') ||
+        Number(a.weightBreakKg || 0) - Number(b.weightBreakKg || 0)
+      );
+  }
+
+  async updateStatus(id: string, status: 'active' | 'archived'): Promise<RateTariff | undefined> {
+    const [tariff] = await db.update(rateTariffs).set({ status }).where(eq(rateTariffs.id, id)).returning();
+    return tariff;
+  }
+
+  async deleteTariff(id: string): Promise<boolean> {
+    const deleted = await db.delete(rateTariffs).where(eq(rateTariffs.id, id)).returning({ id: rateTariffs.id });
+    return deleted.length > 0;
+  }
+
+  /**
+   * Opciones vigentes más baratas para una lane y fecha, con el desglose de cargos de compra
+   */
+  async lookupRates(query: RateLookupQuery): Promise<RateLookupResult> {
+    const [origin, destination] = await Promise.all([
+      this.resolveLocation(query.origin, query.mode),
+      this.resolveLocation(query.destination, query.mode),
+    ]);
+    if (!origin) throw new TariffError(`Origen desconocido: ${query.origin}`);
+    if (!destination) throw new TariffError(`Destino desconocido: ${query.destination}`);
+
+    const date = utcNoon(query.date || new Date());
+    const currency = (query.currency || 'USD').toUpperCase();
+    const equipmentType = normalizeEquipmentType(query.equipmentType);
+    const containers = query.containers && query.containers > 0 ? query.containers : 1;
+    const weightKg = query.weightKg && query.weightKg > 0 ? query.weightKg : null;
+
+    const rows = await db.select({ rate: tariffRates, tariff: rateTariffs, supplierName: suppliers.name })
+      .from(tariffRates)
+      .innerJoin(rateTariffs, eq(tariffRates.tariffId, rateTariffs.id))
+      .innerJoin(suppliers, eq(rateTariffs.supplierId, suppliers.id))
+      .where(and(
+        eq(tariffRates.originLocationId, origin.id),
+        eq(tariffRates.destinationLocationId, destination.id),
+        eq(rateTariffs.status, 'active'),
+        query.mode ? eq(rateTariffs.mode, query.mode) : undefined,
+        equipmentType ? eq(tariffRates.equipmentType, equipmentType) : undefined,
+        or(isNull(tariffRates.validFrom), lte(tariffRates.validFrom, date)),
+        or(isNull(tariffRates.validUntil), gte(tariffRates.validUntil, date)),
+      ));
+
+    // Un rango de peso superior puede salir más barato que el que corresponde al peso
+    const cheapest = new Map<string, { option: RateLookupOption; amounts: Map<string, number> }>();
+    for (const { rate, tariff, supplierName } of rows) {
+      if (rate.basis === 'per_kg' && !weightKg) continue;
+
+      const chargeLines = this.buildChargeLines(rate, tariff.mode as TariffMode, { containers, weightKg });
+      const amounts = new Map<string, number>();
+      chargeLines.forEach(line => amounts.set(line.currency, (amounts.get(line.currency) || 0) + line.amount));
+
+      const option: RateLookupOption = {
+        rateId: rate.id,
+        tariffId: tariff.id,
+        tariffName: tariff.name,
+        supplierId: tariff.supplierId,
+        supplierName,
+        carrier: rate.carrier || supplierName,
+        mode: tariff.mode as TariffMode,
+        equipmentType: rate.equipmentType,
+        weightBreakKg: rate.weightBreakKg !== null ? Number(rate.weightBreakKg) : null,
+        transitDays: rate.transitDays,
+        validUntil: rate.validUntil ? rate.validUntil.toISOString() : null,
+        chargeLines,
+        total: 0,
+        currency,
+      };
+
+      const key = [tariff.id, rate.carrier || '', rate.equipmentType || '', rate.basis].join('|');
+      const current = cheapest.get(key);
+      if (!current || this.sameCurrencyTotal(amounts) < this.sameCurrencyTotal(current.amounts)) {
+        cheapest.set(key, { option, amounts });
+      }
+    }
+
+    const candidates = Array.from(cheapest.values());
+    const rates = await this.getExchangeRates(
+      candidates.flatMap(candidate => Array.from(candidate.amounts.keys())),
+      currency
+    );
+    const options = candidates.map(({ option, amounts }) => {
+      let total = 0;
+      amounts.forEach((amount, lineCurrency) => { total += amount * rates.get(lineCurrency)!; });
+      return { ...option, total: round2(total) };
+    });
+
+    options.sort((a, b) => a.total - b.total || (a.transitDays ?? 999) - (b.transitDays ?? 999));
+    const limit = Math.min(query.limit || DEFAULT_LOOKUP_LIMIT, MAX_LOOKUP_LIMIT);
+
+    return { origin, destination, date, currency, options: options.slice(0, limit) };
+  }
+
+  private buildChargeLines(
+    rate: TariffRate,
+    mode: TariffMode,
+    shipment: { containers: number; weightKg: number | null }
+  ): RateLookupChargeLine[] {
+    const chargeableKg = Math.max(shipment.weightKg || 0, Number(rate.weightBreakKg || 0));
+    const quantityFor = (basis: ChargeBasis) =>
+      basis === 'per_container' ? shipment.containers
+        : basis === 'per_kg' ? chargeableKg
+        : basis === 'per_shipment' ? 1
+        : 0; // % del valor: el tarifario no conoce el valor de la mercancía
+
+    const line = (chargeCode: string, description: string | null, basis: ChargeBasis, currency: string, buyRate: number): RateLookupChargeLine => {
+      const quantity = quantityFor(basis);
+      return {
+        chargeCode,
+        description,
+        basis,
+        quantity,
+        currency,
+        buyRate,
+        amount: computeChargeLineAmounts({ basis, quantity, buyRate }).buyAmount,
+      };
+    };
+
+    const basis = rate.basis as ChargeBasis;
+    const equipmentLabel = EQUIPMENT_TYPES.find(item => item.code === rate.equipmentType)?.label || rate.equipmentType;
+    const description = basis === 'per_kg' ? `Rango +${Number(rate.weightBreakKg || 0)} kg` : equipmentLabel;
+    const base = line(getTariffMode(mode)?.baseChargeCode || 'OTH', description, basis, rate.currency, Number(rate.baseRate));
+
+    // Mínimo: se cobra como tarifa única por embarque
+    const minimum = rate.minimumCharge !== null ? Number(rate.minimumCharge) : 0;
+    const baseLine = base.amount < minimum
+      ? { ...base, description: `${description ? `${description} - ` : ''}mínimo`, basis: 'per_shipment' as ChargeBasis, quantity: 1, buyRate: minimum, amount: minimum }
+      : base;
+
+    return [
+      baseLine,
+      ...(rate.surcharges || []).map(surcharge =>
+        line(surcharge.chargeCode, null, surcharge.basis, surcharge.currency, surcharge.rate)
+      ),
+    ];
+  }
+
+  /**
+   * Total comparable entre rangos del mismo tarifario (comparten monedas)
+   */
+  private sameCurrencyTotal(amounts: Map<string, number>): number {
+    let total = 0;
+    amounts.forEach(amount => { total += amount; });
+    return total;
+  }
+
+  private async resolveLocation(ref: string, mode?: TariffMode): Promise<Location | undefined> {
+    const value = ref.trim();
+    if (UUID_PATTERN.test(value)) {
+      return await locationService.getLocation(value);
+    }
+    const resolved = await this.resolveLocations([value], mode);
+    return resolved.get(value);
+  }
+
+  /**
+   * Resuelve referencias de la hoja: UN/LOCODE, IATA (en aéreo) o, como último recurso, nombre
+   */
+  private async resolveLocations(refs: string[], mode?: string): Promise<Map<string, Location>> {
+    const unique = Array.from(new Set(refs.filter(Boolean)));
+    const resolved = new Map<string, Location>();
+    const compact = (ref: string) => ref.toUpperCase().replace(/[\s-]/g, '');
+
+    const unlocodes = unique.map(compact).filter(code => /^[A-Z]{2}[A-Z0-9]{3}$/.test(code));
+    if (unlocodes.length > 0) {
+      const found = await db.select().from(locations).where(inArray(locations.unlocode, unlocodes));
+      const byCode = new Map(found.map(location => [location.unlocode, location]));
+      unique.forEach(ref => {
+        const location = byCode.get(compact(ref));
+        if (location) resolved.set(ref, location);
+      });
+    }
+
+    const iataCodes = unique.filter(ref => !resolved.has(ref)).map(compact).filter(code => /^[A-Z]{3}$/.test(code));
+    if (iataCodes.length > 0) {
+      const found = await db.select().from(locations)
+        .where(inArray(locations.iataCode, iataCodes))
+        .orderBy(desc(locations.isAirport));
+      const byCode = new Map<string, Location>();
+      found.forEach(location => {
+        if (location.iataCode && !byCode.has(location.iataCode)) byCode.set(location.iataCode, location);
+      });
+      unique.forEach(ref => {
+        const location = byCode.get(compact(ref));
+        if (!resolved.has(ref) && location) resolved.set(ref, location);
+      });
+    }
+
+    const kind = mode === 'air' ? 'airport' : mode === 'sea' ? 'seaport' : undefined;
+    for (const ref of unique.filter(ref => !resolved.has(ref) && ref.length >= 3)) {
+      const [match] = await locationService.search(ref, { kind, limit: 1 });
+      if (match) resolved.set(ref, match);
+    }
+
+    return resolved;
+  }
+
+  private async getExchangeRates(currencies: string[], targetCurrency: string): Promise<Map<string, number>> {
+    const rates = new Map<string, number>();
+    try {
+      const targetRate = await exchangeRateService.getRate(targetCurrency);
+      for (const currency of Array.from(new Set(currencies))) {
+        rates.set(currency, currency === targetCurrency ? 1 : (await exchangeRateService.getRate(currency)) / targetRate);
+      }
+    } catch (error) {
+      if (error instanceof ExchangeRateError) {
+        throw new TariffError(error.message);
+      }
+      throw error;
+    }
+    return rates;
+  }
+}
+
+// Instancia singleton
+export const tariffService = new TariffService();
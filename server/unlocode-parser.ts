@@ -0,0 +1,123 @@
+/**
+ * UN/LOCODE Parser - Lectura de los archivos CSV del catálogo UN/LOCODE (UNECE)
+ *
+ * Columnas: Change, Country, Location, Name, NameWoDiacritics, Subdivision, Status,
+ * Function, Date, IATA, Coordinates, Remarks. Los archivos oficiales (CodeListPart1-3.csv)
+ * vienen sin encabezado; las copias con encabezado también se aceptan. Solo se importan
+ * ubicaciones de transporte: puerto (1), ferrocarril (2), carretera (3), aeropuerto (4) y
+ * terminal multimodal / ICD (6). Las filas de país (sin código de ubicación) y las marcadas
+ * para eliminación (X) se omiten.
+ */
+
+import type { InsertLocation } from '@shared/schema';
+
+export class UnlocodeParseError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'UnlocodeParseError';
+    Object.setPrototypeOf(this, UnlocodeParseError.prototype);
+  }
+}
+
+const TRANSPORT_FUNCTIONS = ['1', '2', '3', '4', '6'];
+
+function splitCsvLine(line: string): string[] {
+  const fields: string[] = [];
+  let current = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (char === '"') {
+      if (inQuotes && line[i + 1] === '"') {
+        current += '"';
+        i++;
+      } else {
+        inQuotes = !inQuotes;
+      }
+    } else if (char === ',' && !inQuotes) {
+      fields.push(current.trim());
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+  fields.push(current.trim());
+  return fields;
+}
+
+/**
+ * Texto en minúsculas sin diacríticos (para búsqueda)
+ */
+export function normalizeLocationName(name: string): string {
+  return name.toLowerCase().normalize('NFD').replace(/[\u0300-\u036f]/g, '').trim();
+}
+
+/**
+ * "3131N 12129E" (grados y minutos) → [31.516667, 121.483333]
+ */
+export function parseUnlocodeCoordinates(value: string): [number, number] | null {
+  const match = value.trim().match(/^(\d{2})(\d{2})([NS])\s+(\d{3})(\d{2})([EW])$/);
+  if (!match) return null;
+
+  const latitude = (Number(match[1]) + Number(match[2]) / 60) * (match[3] === 'S' ? -1 : 1);
+  const longitude = (Number(match[4]) + Number(match[5]) / 60) * (match[6] === 'W' ? -1 : 1);
+  if (Math.abs(latitude) > 90 || Math.abs(longitude) > 180) return null;
+  return [Math.round(latitude * 1e6) / 1e6, Math.round(longitude * 1e6) / 1e6];
+}
+
+export function parseUnlocodeRow(fields: string[]): InsertLocation | null {
+  const [change, country, location, name, nameWoDiacritics, subdivision, , functions = '', , iata, coordinates = ''] = fields;
+
+  if (change === 'X') return null;
+  if (!/^[A-Z]{2}$/.test(country || '') || !/^[A-Z2-9]{3}$/.test(location || '') || !name) return null;
+  if (!TRANSPORT_FUNCTIONS.some(code => functions.includes(code))) return null;
+
+  const coords = parseUnlocodeCoordinates(coordinates);
+  const isSeaport = functions[0] === '1';
+  const isAirport = functions[3] === '4';
+  return {
+    unlocode: `${country}${location}`,
+    countryCode: country,
+    name,
+    nameAscii: normalizeLocationName(nameWoDiacritics || name),
+    subdivision: subdivision || null,
+    functions,
+    isSeaport,
+    isAirport,
+    // Terminal multimodal (ICD) o punto solo ferroviario / carretero
+    isInlandDepot: functions[5] === '6' || (!isSeaport && !isAirport),
+    // La columna IATA solo se llena cuando difiere del código de ubicación
+    iataCode: iata || (isAirport ? location : null),
+    latitude: coords ? coords[0].toFixed(6) : null,
+    longitude: coords ? coords[1].toFixed(6) : null,
+  };
+}
+
+/**
+ * Decodifica el archivo: UTF-8 si es válido, si no ISO-8859-1 (ediciones anteriores)
+ */
+export function decodeUnlocodeFile(buffer: Buffer): string {
+  const utf8 = buffer.toString('utf-8');
+  return utf8.includes('\uFFFD') ? buffer.toString('latin1') : utf8;
+}
+
+export function parseUnlocodeCsv(content: string): InsertLocation[] {
+  const rows = content.split(/\r?\n/).filter(row => row.trim());
+  if (rows.length === 0) {
+    throw new UnlocodeParseError('El archivo UN/LOCODE está vacío');
+  }
+
+  const locations: InsertLocation[] = [];
+  for (const row of rows) {
+    const fields = splitCsvLine(row);
+    if (fields.length < 8) continue;
+    const location = parseUnlocodeRow(fields);
+    if (location) locations.push(location);
+  }
+
+  if (locations.length === 0) {
+    throw new UnlocodeParseError('No se encontraron ubicaciones de transporte; ¿es un archivo CSV de UN/LOCODE?');
+  }
+  return locations;
+}
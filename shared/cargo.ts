@@ -0,0 +1,105 @@
+/**
+ * Carga de una operación: tipos de contenedor, tipos de bulto y cálculo de peso tasable
+ *
+ * El peso tasable aéreo es el mayor entre el peso bruto y el peso volumétrico, con el factor
+ * IATA 1:6000 (cm³ / 6000 = kg, es decir 166.67 kg por m³), redondeado al siguiente medio kilo.
+ */
+
+export const AIR_VOLUMETRIC_DIVISOR = 6000;
+
+export interface ContainerTypeItem {
+  code: string;
+  label: string;
+  reefer: boolean;
+}
+
+export const CONTAINER_TYPES: ContainerTypeItem[] = [
+  { code: "20GP", label: "20' Dry", reefer: false },
+  { code: "40GP", label: "40' Dry", reefer: false },
+  { code: "40HC", label: "40' High Cube", reefer: false },
+  { code: "45HC", label: "45' High Cube", reefer: false },
+  { code: "20RF", label: "20' Reefer", reefer: true },
+  { code: "40RF", label: "40' Reefer High Cube", reefer: true },
+  { code: "20OT", label: "20' Open Top", reefer: false },
+  { code: "40OT", label: "40' Open Top", reefer: false },
+  { code: "20FR", label: "20' Flat Rack", reefer: false },
+  { code: "40FR", label: "40' Flat Rack", reefer: false },
+];
+
+export const PACKAGE_TYPES: { code: string; label: string }[] = [
+  { code: "carton", label: "Cajas" },
+  { code: "pallet", label: "Tarimas" },
+  { code: "crate", label: "Huacales" },
+  { code: "drum", label: "Tambores" },
+  { code: "bag", label: "Sacos" },
+  { code: "roll", label: "Rollos" },
+  { code: "bundle", label: "Atados" },
+  { code: "piece", label: "Piezas" },
+];
+
+export function isReeferContainerType(code: string | null | undefined): boolean {
+  return !!CONTAINER_TYPES.find(type => type.code === code)?.reefer;
+}
+
+export interface CargoLineMeasures {
+  packageCount?: number | string | null;
+  grossWeightKg?: number | string | null;
+  volumeCbm?: number | string | null;
+  lengthCm?: number | string | null;
+  widthCm?: number | string | null;
+  heightCm?: number | string | null;
+}
+
+export interface CargoTotals {
+  packages: number;
+  grossWeightKg: number;
+  volumeCbm: number;
+  volumetricWeightKg: number;
+  chargeableWeightKg: number;
+}
+
+function toNumber(value: number | string | null | undefined): number {
+  const parsed = Number(value);
+  return Number.isFinite(parsed) ? parsed : 0;
+}
+
+function roundTo(value: number, decimals: number): number {
+  const factor = Math.pow(10, decimals);
+  return Math.round(value * factor) / factor;
+}
+
+/**
+ * Volumen de la línea: por dimensiones del bulto si están completas, si no el capturado
+ */
+export function cargoLineVolumeCbm(line: CargoLineMeasures): number {
+  const length = toNumber(line.lengthCm);
+  const width = toNumber(line.widthCm);
+  const height = toNumber(line.heightCm);
+  if (length > 0 && width > 0 && height > 0) {
+    return roundTo((length * width * height * Math.max(toNumber(line.packageCount), 1)) / 1000000, 3);
+  }
+  return toNumber(line.volumeCbm);
+}
+
+export function volumetricWeightKg(volumeCbm: number): number {
+  return roundTo((volumeCbm * 1000000) / AIR_VOLUMETRIC_DIVISOR, 2);
+}
+
+export function chargeableWeightKg(grossWeightKg: number, volumeCbm: number): number {
+  const weight = Math.max(grossWeightKg, volumetricWeightKg(volumeCbm));
+  return Math.ceil(weight * 2) / 2;
+}
+
+export function computeCargoTotals(lines: CargoLineMeasures[]): CargoTotals {
+  const packages = lines.reduce((sum, line) => sum + toNumber(line.packageCount), 0);
+  const grossWeightKg = roundTo(lines.reduce((sum, line) => sum + toNumber(line.grossWeightKg), 0), 3);
+  const volumeCbm = roundTo(lines.reduce((sum, line) => sum + cargoLineVolumeCbm(line), 0), 3);
+
+  return {
+    packages,
+    grossWeightKg,
+    volumeCbm,
+    volumetricWeightKg: volumetricWeightKg(volumeCbm),
+    chargeableWeightKg: chargeableWeightKg(grossWeightKg, volumeCbm),
+  };
+}
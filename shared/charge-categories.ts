@@ -0,0 +1,85 @@
+/**
+ * Categorías de cargos de una operación de freight forwarding
+ *
+ * Se usan para agrupar ingresos (conceptos de factura) y costos (gastos) en el P&L
+ * por operación. Los registros sin categoría se clasifican por palabras clave de su descripción.
+ */
+
+export type ChargeCategory =
+  | "ocean_freight"
+  | "air_freight"
+  | "inland_freight"
+  | "local_charges"
+  | "customs"
+  | "insurance"
+  | "storage"
+  | "other";
+
+export interface ChargeCategoryItem {
+  code: ChargeCategory;
+  label: string;
+  keywords: string[];
+}
+
+// El orden importa: se toma la primera categoría cuya palabra clave aparezca en la descripción
+export const CHARGE_CATEGORIES: ChargeCategoryItem[] = [
+  {
+    code: "customs",
+    label: "Aduana",
+    keywords: ["aduana", "despacho", "pedimento", "customs", "broker", "agente aduanal", "impuestos de importación", "dta", "prevalidación"],
+  },
+  {
+    code: "insurance",
+    label: "Seguro",
+    keywords: ["seguro", "insurance", "póliza", "poliza", "prima"],
+  },
+  {
+    code: "storage",
+    label: "Almacenaje",
+    keywords: ["almacenaje", "almacén", "almacen", "storage", "warehouse", "demora", "demurrage", "detention", "estadía"],
+  },
+  {
+    code: "inland_freight",
+    label: "Transporte terrestre",
+    keywords: ["terrestre", "trucking", "camión", "camion", "arrastre", "flete local", "drayage", "pick up", "pickup", "entrega", "delivery", "ferro", "rail"],
+  },
+  {
+    code: "air_freight",
+    label: "Flete aéreo",
+    keywords: ["aéreo", "aereo", "air freight", "airfreight", "awb", "guía aérea", "fuel surcharge"],
+  },
+  {
+    code: "ocean_freight",
+    label: "Flete marítimo",
+    keywords: ["marítimo", "maritimo", "ocean", "sea freight", "flete", "freight", "baf", "bunker", "fcl", "lcl"],
+  },
+  {
+    code: "local_charges",
+    label: "Cargos locales",
+    keywords: ["thc", "handling", "maniobra", "documentación", "documentacion", "bl fee", "emisión", "emision", "revalidación", "revalidacion", "isps", "gastos locales", "local charges", "desconsolidación", "desconsolidacion"],
+  },
+  {
+    code: "other",
+    label: "Otros",
+    keywords: [],
+  },
+];
+
+export function getChargeCategoryLabel(code: string | null | undefined): string {
+  return CHARGE_CATEGORIES.find((category) => category.code === code)?.label || "Otros";
+}
+
+/**
+ * Categoría de un cargo: la asignada explícitamente o la inferida por su descripción
+ */
+export function classifyCharge(description: string | null | undefined, explicit?: string | null): ChargeCategory {
+  if (explicit && CHARGE_CATEGORIES.some((category) => category.code === explicit)) {
+    return explicit as ChargeCategory;
+  }
+
+  const text = (description || "").toLowerCase();
+  const match = CHARGE_CATEGORIES.find((category) =>
+    category.keywords.some((keyword) => text.includes(keyword))
+  );
+  return match?.code || "other";
+}
@@ -0,0 +1,57 @@
+/**
+ * Números de contenedor ISO 6346
+ *
+ * Formato: 3 letras del propietario + categoría (U, J o Z) + 6 dígitos de serie + dígito
+ * verificador (ej. MSCU1234565). El dígito verificador se calcula con los valores de
+ * cada carácter ponderados por 2^posición, módulo 11 (10 se toma como 0).
+ */
+
+const CONTAINER_PATTERN = /\b([A-Z]{3}[UJZ])[\s-]?(\d{6})[\s-]?(\d)\b/g;
+
+// Valores de las letras; se saltan los múltiplos de 11 (11, 22, 33)
+const LETTER_VALUES: Record<string, number> = (() => {
+  const values: Record<string, number> = {};
+  let value = 10;
+  for (const letter of "ABCDEFGHIJKLMNOPQRSTUVWXYZ") {
+    if (value % 11 === 0) value++;
+    values[letter] = value++;
+  }
+  return values;
+})();
+
+/**
+ * Normaliza a 11 caracteres sin espacios ni guiones, en mayúsculas
+ */
+export function normalizeContainerNumber(value: string): string {
+  return value.toUpperCase().replace(/[^A-Z0-9]/g, "");
+}
+
+export function containerCheckDigit(ownerAndSerial: string): number {
+  let sum = 0;
+  for (let i = 0; i < 10; i++) {
+    const char = ownerAndSerial[i];
+    const value = i < 4 ? LETTER_VALUES[char] : Number(char);
+    sum += value * Math.pow(2, i);
+  }
+  return (sum % 11) % 10;
+}
+
+export function isValidContainerNumber(value: string): boolean {
+  const normalized = normalizeContainerNumber(value);
+  if (!/^[A-Z]{3}[UJZ]\d{7}$/.test(normalized)) return false;
+  return containerCheckDigit(normalized) === Number(normalized[10]);
+}
+
+/**
+ * Números de contenedor válidos encontrados en un texto, sin duplicados
+ */
+export function extractContainerNumbers(text: string): string[] {
+  const found = new Set<string>();
+  for (const match of Array.from(text.toUpperCase().matchAll(CONTAINER_PATTERN))) {
+    const candidate = `${match[1]}${match[2]}${match[3]}`;
+    if (isValidContainerNumber(candidate)) {
+      found.add(candidate);
+    }
+  }
+  return Array.from(found);
+}
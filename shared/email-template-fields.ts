@@ -0,0 +1,125 @@
+/**
+ * Campos combinables de las plantillas de correo
+ *
+ * Las plantillas usan marcadores `{{grupo.campo}}` (ej. `{{operation.bookingTracking}}`)
+ * que se reemplazan con los datos de la operación, su cliente y los empleados asignados.
+ * Las fechas y los valores de catálogo (modo de envío, tipo) se formatean según el
+ * idioma de la plantilla.
+ */
+
+export type TemplateLanguage = "es" | "en";
+
+export type TemplateCategory = "booking_confirmation" | "arrival_notice" | "document_request" | "other";
+
+export const TEMPLATE_CATEGORIES: Array<{ code: TemplateCategory; label: string }> = [
+  { code: "booking_confirmation", label: "Confirmación de booking" },
+  { code: "arrival_notice", label: "Aviso de arribo" },
+  { code: "document_request", label: "Solicitud de documentos" },
+  { code: "other", label: "Otro" },
+];
+
+export interface MergeField {
+  key: string; // Marcador sin llaves, ej. "operation.eta"
+  label: string;
+  group: "operation" | "client" | "employee";
+  type?: "date";
+}
+
+export const MERGE_FIELDS: MergeField[] = [
+  { key: "operation.name", label: "Nombre de la operación", group: "operation" },
+  { key: "operation.bookingTracking", label: "Booking / Tracking", group: "operation" },
+  { key: "operation.mblAwb", label: "MBL / AWB", group: "operation" },
+  { key: "operation.hblAwb", label: "HBL / AWB", group: "operation" },
+  { key: "operation.etd", label: "ETD", group: "operation", type: "date" },
+  { key: "operation.eta", label: "ETA", group: "operation", type: "date" },
+  { key: "operation.pickUpDate", label: "Fecha de recolección", group: "operation", type: "date" },
+  { key: "operation.pickUpAddress", label: "Dirección de recolección", group: "operation" },
+  { key: "operation.deliveryAddress", label: "Dirección de entrega", group: "operation" },
+  { key: "operation.courier", label: "Transportista", group: "operation" },
+  { key: "operation.shippingMode", label: "Modo de envío", group: "operation" },
+  { key: "operation.operationType", label: "Tipo de operación", group: "operation" },
+  { key: "operation.projectCategory", label: "Categoría", group: "operation" },
+  { key: "client.name", label: "Cliente", group: "client" },
+  { key: "client.razonSocial", label: "Razón social", group: "client" },
+  { key: "client.email", label: "Email del cliente", group: "client" },
+  { key: "client.phone", label: "Teléfono del cliente", group: "client" },
+  { key: "employee.name", label: "Empleado asignado", group: "employee" },
+  { key: "employee.email", label: "Email del empleado", group: "employee" },
+  { key: "employee.phone", label: "Teléfono del empleado", group: "employee" },
+  { key: "employee.position", label: "Puesto del empleado", group: "employee" },
+  { key: "employees.names", label: "Todos los empleados asignados", group: "employee" },
+];
+
+// Valores de catálogo traducidos
+const VALUE_LABELS: Record<string, Record<TemplateLanguage, string>> = {
+  sea: { es: "Marítimo", en: "Sea" },
+  air: { es: "Aéreo", en: "Air" },
+  land: { es: "Terrestre", en: "Land" },
+  multimodal: { es: "Multimodal", en: "Multimodal" },
+  import: { es: "Importación", en: "Import" },
+  export: { es: "Exportación", en: "Export" },
+  domestic: { es: "Nacional", en: "Domestic" },
+  warehousing: { es: "Almacenaje", en: "Warehousing" },
+  Road: { es: "Terrestre", en: "Road" },
+  Rail: { es: "Ferroviario", en: "Rail" },
+  Air: { es: "Aéreo", en: "Air" },
+};
+
+// Datos planos de la operación, cliente y empleados; las fechas como ISO o Date
+export type MergeContext = Record<string, string | Date | null | undefined>;
+
+export interface RenderedTemplate {
+  subject: string;
+  body: string;
+  missingFields: string[]; // Marcadores conocidos sin dato en la operación
+  unknownFields: string[]; // Marcadores que no existen en el catálogo
+}
+
+const PLACEHOLDER_PATTERN = /\{\{\s*([\w.]+)\s*\}\}/g;
+
+function formatMergeValue(field: MergeField | undefined, value: string | Date | null | undefined, language: TemplateLanguage): string {
+  if (value === null || value === undefined || value === "") return "";
+
+  if (field?.type === "date") {
+    const date = value instanceof Date ? value : new Date(value);
+    if (isNaN(date.getTime())) return String(value);
+    return date.toLocaleDateString(language === "es" ? "es-MX" : "en-US", {
+      day: "2-digit",
+      month: "short",
+      year: "numeric",
+      timeZone: "UTC",
+    });
+  }
+
+  const text = value instanceof Date ? value.toISOString() : value;
+  return VALUE_LABELS[text]?.[language] ?? text;
+}
+
+/**
+ * Reemplaza los marcadores de un texto; los campos sin dato quedan vacíos
+ */
+function renderMergeText(template: string, context: MergeContext, language: TemplateLanguage, missing: Set<string>, unknown: Set<string>): string {
+  return template.replace(PLACEHOLDER_PATTERN, (match, key: string) => {
+    const field = MERGE_FIELDS.find((f) => f.key === key);
+    if (!field) {
+      unknown.add(key);
+      return match; // Se deja visible para corregir la plantilla
+    }
+    const value = formatMergeValue(field, context[key], language);
+    if (!value) missing.add(key);
+    return value;
+  });
+}
+
+export function renderTemplate(template: { subject: string; body: string; language: string }, context: MergeContext): RenderedTemplate {
+  const language: TemplateLanguage = template.language === "en" ? "en" : "es";
+  const missing = new Set<string>();
+  const unknown = new Set<string>();
+
+  return {
+    subject: renderMergeText(template.subject, context, language, missing, unknown),
+    body: renderMergeText(template.body, context, language, missing, unknown),
+    missingFields: Array.from(missing),
+    unknownFields: Array.from(unknown),
+  };
+}
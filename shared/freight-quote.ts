@@ -0,0 +1,112 @@
+/**
+ * Cotización de flete: conceptos de cargo, bases de cobro y cálculo de margen
+ *
+ * Cada renglón tiene tarifa de compra (lo que cobra el carrier / agente) y de venta (lo que
+ * se cotiza al cliente) en su propia moneda. El importe es cantidad × tarifa, salvo la base
+ * "% del valor", donde la cantidad es el valor de la mercancía y la tarifa un porcentaje.
+ * Los totales de cada opción de ruta se expresan en la moneda de la cotización con el tipo
+ * de cambio fijado al guardar.
+ */
+
+import type { ChargeCategory } from "./charge-categories";
+
+export type ChargeBasis = "per_container" | "per_kg" | "per_shipment" | "percent_of_value";
+
+export const CHARGE_BASES: { code: ChargeBasis; label: string; unit: string }[] = [
+  { code: "per_container", label: "Por contenedor", unit: "cont." },
+  { code: "per_kg", label: "Por kg tasable", unit: "kg" },
+  { code: "per_shipment", label: "Por embarque", unit: "emb." },
+  { code: "percent_of_value", label: "% del valor", unit: "%" },
+];
+
+export interface ChargeCodeItem {
+  code: string;
+  label: string;
+  basis: ChargeBasis; // Base sugerida al elegir el concepto
+  category: ChargeCategory; // Categoría del P&L de la operación
+}
+
+export const CHARGE_CODES: ChargeCodeItem[] = [
+  { code: "OFR", label: "Flete marítimo", basis: "per_container", category: "ocean_freight" },
+  { code: "BAF", label: "Recargo por combustible (BAF)", basis: "per_container", category: "ocean_freight" },
+  { code: "LSS", label: "Recargo bajo azufre (LSS)", basis: "per_container", category: "ocean_freight" },
+  { code: "AFR", label: "Flete aéreo", basis: "per_kg", category: "air_freight" },
+  { code: "FSC", label: "Recargo por combustible aéreo", basis: "per_kg", category: "air_freight" },
+  { code: "SSC", label: "Recargo de seguridad aéreo", basis: "per_kg", category: "air_freight" },
+  { code: "THC", label: "Manejo en terminal (THC)", basis: "per_container", category: "local_charges" },
+  { code: "DOC", label: "Emisión de documentos", basis: "per_shipment", category: "local_charges" },
+  { code: "ISPS", label: "ISPS", basis: "per_container", category: "local_charges" },
+  { code: "HDL", label: "Handling", basis: "per_shipment", category: "local_charges" },
+  { code: "TRK", label: "Flete terrestre", basis: "per_shipment", category: "inland_freight" },
+  { code: "PUP", label: "Recolección", basis: "per_shipment", category: "inland_freight" },
+  { code: "DEL", label: "Entrega", basis: "per_shipment", category: "inland_freight" },
+  { code: "CUS", label: "Despacho aduanal", basis: "per_shipment", category: "customs" },
+  { code: "INS", label: "Seguro de carga", basis: "percent_of_value", category: "insurance" },
+  { code: "STO", label: "Almacenaje", basis: "per_shipment", category: "storage" },
+  { code: "OTH", label: "Otro cargo", basis: "per_shipment", category: "other" },
+];
+
+export function getChargeCode(code: string | null | undefined): ChargeCodeItem | undefined {
+  return CHARGE_CODES.find((item) => item.code === code);
+}
+
+export function getChargeBasisLabel(basis: string | null | undefined): string {
+  return CHARGE_BASES.find((item) => item.code === basis)?.label || "Por embarque";
+}
+
+export interface ChargeLineRates {
+  basis: string;
+  quantity?: number | string | null;
+  buyRate?: number | string | null;
+  sellRate?: number | string | null;
+  exchangeRate?: number | string | null; // Moneda de la cotización por unidad de la moneda del renglón
+}
+
+export interface ChargeLineAmounts {
+  buyAmount: number; // En la moneda del renglón
+  sellAmount: number;
+  buyAmountQuote: number; // En la moneda de la cotización
+  sellAmountQuote: number;
+}
+
+export interface QuoteOptionTotals {
+  buyTotal: number;
+  sellTotal: number;
+  margin: number;
+  marginPercent: number | null; // Sobre la venta; null sin venta
+}
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+export function computeChargeLineAmounts(line: ChargeLineRates): ChargeLineAmounts {
+  const quantity = Number(line.quantity) || 0;
+  const factor = line.basis === "percent_of_value" ? quantity / 100 : quantity;
+  const exchangeRate = Number(line.exchangeRate) || 1;
+  const buyAmount = round2(factor * (Number(line.buyRate) || 0));
+  const sellAmount = round2(factor * (Number(line.sellRate) || 0));
+
+  return {
+    buyAmount,
+    sellAmount,
+    buyAmountQuote: round2(buyAmount * exchangeRate),
+    sellAmountQuote: round2(sellAmount * exchangeRate),
+  };
+}
+
+export function computeQuoteOptionTotals(lines: ChargeLineRates[]): QuoteOptionTotals {
+  const totals = lines.reduce(
+    (acc, line) => {
+      const amounts = computeChargeLineAmounts(line);
+      return { buyTotal: acc.buyTotal + amounts.buyAmountQuote, sellTotal: acc.sellTotal + amounts.sellAmountQuote };
+    },
+    { buyTotal: 0, sellTotal: 0 }
+  );
+
+  const margin = round2(totals.sellTotal - totals.buyTotal);
+  return {
+    buyTotal: round2(totals.buyTotal),
+    sellTotal: round2(totals.sellTotal),
+    margin,
+    marginPercent: totals.sellTotal > 0 ? Math.round((margin / totals.sellTotal) * 1000) / 10 : null,
+  };
+}
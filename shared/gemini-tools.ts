@@ -65,6 +65,55 @@ export const geminiTools = [
       required: ['operationId']
     }
   },
+  {
+    name: 'get_operation_milestones',
+    description: 'Obtiene la línea de tiempo de hitos de una operación (booking, recolección, zarpe, transbordo, arribo, liberación, entrega) con fechas planeadas, estimadas y reales y sus retrasos',
+    parameters: {
+      type: 'object',
+      properties: {
+        operationId: { type: 'string', description: 'ID de la operación' }
+      },
+      required: ['operationId']
+    }
+  },
+  {
+    name: 'update_milestone',
+    description: 'Registra fechas de un hito del embarque (p. ej. nueva ETA informada por la naviera). Si el hito ya existe se actualiza; los transbordos se agregan',
+    parameters: {
+      type: 'object',
+      properties: {
+        operationId: { type: 'string', description: 'ID de la operación' },
+        milestoneType: {
+          type: 'string',
+          enum: ['booking_confirmed', 'cargo_picked_up', 'gate_in', 'loaded_on_board', 'departed', 'transshipment', 'arrived', 'customs_released', 'delivered']
+        },
+        plannedAt: { type: 'string', description: 'Fecha planeada (ISO 8601)' },
+        estimatedAt: { type: 'string', description: 'Fecha estimada (ISO 8601)' },
+        actualAt: { type: 'string', description: 'Fecha real (ISO 8601)' },
+        location: { type: 'string', description: 'Puerto, aeropuerto, terminal o almacén' },
+        notes: { type: 'string', description: 'Notas del hito' }
+      },
+      required: ['operationId', 'milestoneType']
+    }
+  },
+  {
+    name: 'lookup_lane_rates',
+    description: 'Busca en los tarifarios de carriers y agentes las tarifas de compra vigentes más baratas para una ruta (origen → destino) en una fecha, con el desglose de flete y recargos',
+    parameters: {
+      type: 'object',
+      properties: {
+        origin: { type: 'string', description: 'Origen: UN/LOCODE (MXZLO), código IATA (MEX) o nombre del puerto / ciudad' },
+        destination: { type: 'string', description: 'Destino: UN/LOCODE, código IATA o nombre' },
+        date: { type: 'string', description: 'Fecha de embarque (ISO 8601); por defecto hoy' },
+        mode: { type: 'string', enum: ['sea', 'air', 'land'] },
+        equipmentType: { type: 'string', description: 'Tipo de contenedor: 20GP, 40GP, 40HC, 45HC, 20RF, 40RF...' },
+        containers: { type: 'number', description: 'Número de contenedores (por defecto 1)' },
+        weightKg: { type: 'number', description: 'Peso tasable en kg; obligatorio para tarifas aéreas' },
+        currency: { type: 'string', description: 'Moneda para comparar totales (por defecto USD)' }
+      },
+      required: ['origin', 'destination']
+    }
+  },
   {
     name: 'get_clients',
     description: 'Obtiene la lista de clientes. Puede buscar por nombre o email.',
@@ -0,0 +1,111 @@
+/**
+ * Hitos del embarque (booking → entrega) y cálculo de retrasos
+ *
+ * Cada hito tiene fecha planeada (compromiso con el cliente), estimada (la última que dio la
+ * naviera / aerolínea / transportista) y real. Un hito está retrasado cuando su estimado se
+ * mueve más allá de lo planeado, y vencido cuando pasó su fecha sin registrar la real.
+ */
+
+export type MilestoneType =
+  | "booking_confirmed"
+  | "cargo_picked_up"
+  | "gate_in"
+  | "loaded_on_board"
+  | "departed"
+  | "transshipment"
+  | "arrived"
+  | "customs_released"
+  | "delivered";
+
+export type MilestoneSource = "manual" | "email" | "ai";
+
+export type MilestoneStatus = "pending" | "on_track" | "delayed" | "overdue" | "completed";
+
+export interface MilestoneTypeItem {
+  code: MilestoneType;
+  label: string;
+  repeatable: boolean; // Puede haber varios (un transbordo por puerto)
+}
+
+// En el orden del embarque
+export const MILESTONE_TYPES: MilestoneTypeItem[] = [
+  { code: "booking_confirmed", label: "Booking confirmado", repeatable: false },
+  { code: "cargo_picked_up", label: "Carga recolectada", repeatable: false },
+  { code: "gate_in", label: "Ingreso a terminal", repeatable: false },
+  { code: "loaded_on_board", label: "Cargado a bordo", repeatable: false },
+  { code: "departed", label: "Zarpe / despegue", repeatable: false },
+  { code: "transshipment", label: "Transbordo", repeatable: true },
+  { code: "arrived", label: "Arribo", repeatable: false },
+  { code: "customs_released", label: "Liberación aduanal", repeatable: false },
+  { code: "delivered", label: "Entregado", repeatable: false },
+];
+
+export const MILESTONE_TYPE_CODES = MILESTONE_TYPES.map(type => type.code) as [MilestoneType, ...MilestoneType[]];
+
+export const MILESTONE_SOURCES: { code: MilestoneSource; label: string }[] = [
+  { code: "manual", label: "Manual" },
+  { code: "email", label: "Correo" },
+  { code: "ai", label: "IA" },
+];
+
+// Holgura antes de considerar un hito retrasado o vencido
+export const MILESTONE_DELAY_TOLERANCE_MINUTES = 12 * 60;
+
+// Hitos que alimentan las fechas de la operación (pickUpDate, etd, eta)
+export const OPERATION_DATE_MILESTONES: Partial<Record<MilestoneType, "pickUpDate" | "etd" | "eta">> = {
+  cargo_picked_up: "pickUpDate",
+  departed: "etd",
+  arrived: "eta",
+};
+
+export interface MilestoneDates {
+  plannedAt: Date | string | null;
+  estimatedAt: Date | string | null;
+  actualAt: Date | string | null;
+}
+
+export interface MilestoneDelay {
+  status: MilestoneStatus;
+  delayMinutes: number; // Contra lo planeado (o contra la fecha esperada si está vencido); 0 si va a tiempo
+}
+
+export function getMilestoneTypeLabel(code: string): string {
+  return MILESTONE_TYPES.find(type => type.code === code)?.label || code;
+}
+
+function toTime(value: Date | string | null): number | null {
+  return value ? new Date(value).getTime() : null;
+}
+
+export function getMilestoneDelay(milestone: MilestoneDates, now: Date = new Date()): MilestoneDelay {
+  const planned = toTime(milestone.plannedAt);
+  const estimated = toTime(milestone.estimatedAt);
+  const actual = toTime(milestone.actualAt);
+  const tolerance = MILESTONE_DELAY_TOLERANCE_MINUTES * 60000;
+  const minutes = (ms: number) => Math.max(0, Math.round(ms / 60000));
+
+  if (actual !== null) {
+    return { status: "completed", delayMinutes: planned !== null && actual - planned > tolerance ? minutes(actual - planned) : 0 };
+  }
+
+  const expected = estimated ?? planned;
+  if (expected === null) {
+    return { status: "pending", delayMinutes: 0 };
+  }
+  if (now.getTime() - expected > tolerance) {
+    return { status: "overdue", delayMinutes: minutes(now.getTime() - (planned ?? expected)) };
+  }
+  if (planned !== null && estimated !== null && estimated - planned > tolerance) {
+    return { status: "delayed", delayMinutes: minutes(estimated - planned) };
+  }
+  return { status: "on_track", delayMinutes: 0 };
+}
+
+export function formatDelay(minutes: number): string {
+  if (minutes >= 24 * 60) {
+    const days = Math.round(minutes / (24 * 60) * 10) / 10;
+    return `${days} ${days === 1 ? "día" : "días"}`;
+  }
+  const hours = Math.max(1, Math.round(minutes / 60));
+  return `${hours} h`;
+}
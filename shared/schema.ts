@@ -1,7 +1,10 @@
 import { sql, relations } from "drizzle-orm";
-import { pgTable, text, varchar, timestamp, integer, decimal, jsonb, boolean } from "drizzle-orm/pg-core";
+import { pgTable, text, varchar, timestamp, integer, decimal, jsonb, boolean, customType, index, unique } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
+import { isValidContainerNumber, normalizeContainerNumber } from "./container-number";
+import { MILESTONE_TYPE_CODES } from "./milestones";
+import type { TariffSurcharge } from "./tariffs";
 
 // Session table (managed by connect-pg-simple for express-session)
 export const session = pgTable("session", {
@@ -49,6 +52,38 @@ export const clients = pgTable("clients", {
   createdAt: timestamp("created_at").notNull().defaultNow(),
 });
 
+// Suppliers table - Carriers, agents, customs brokers and truckers we pay
+export const suppliers = pgTable("suppliers", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  name: text("name").notNull(),
+  supplierType: text("supplier_type").notNull().default("other"), // carrier, agent, customs_broker, trucker, other
+  email: text("email"),
+  phone: text("phone"),
+  contactName: text("contact_name"),
+  address: text("address"),
+  currency: text("currency").notNull().default("MXN"), // Default currency of their bills
+  status: text("status").notNull().default("active"), // active, inactive
+  notes: text("notes"),
+  
+  // Datos fiscales mexicanos (emisor de sus CFDI)
+  rfc: text("rfc"), // RFC del proveedor
+  razonSocial: text("razon_social"),
+  regimenFiscal: text("regimen_fiscal"), // Código de régimen fiscal (ej: 601)
+  codigoPostal: text("codigo_postal"),
+  
+  // Condiciones de pago
+  paymentTermsDays: integer("payment_terms_days").notNull().default(0), // Días de crédito; vencimiento = fecha de factura + días
+  
+  // Datos bancarios para transferencias
+  bankName: text("bank_name"),
+  bankAccountNumber: text("bank_account_number"),
+  clabe: text("clabe"), // CLABE interbancaria (México)
+  swiftCode: text("swift_code"), // Proveedores extranjeros
+  
+  createdFromCfdi: boolean("created_from_cfdi").default(false), // Creado automáticamente desde un CFDI recibido
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
 // Employees table
 export const employees = pgTable("employees", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
@@ -96,6 +131,11 @@ export const operations = pgTable("operations", {
   mblAwb: text("mbl_awb"), // Master Bill of Lading / Air Waybill
   hblAwb: text("hbl_awb"), // House Bill of Lading / Air Waybill
   
+  // Route (UN/LOCODE locations)
+  originLocationId: varchar("origin_location_id").references(() => locations.id, { onDelete: "set null" }),
+  destinationLocationId: varchar("destination_location_id").references(() => locations.id, { onDelete: "set null" }),
+  transshipmentLocationIds: text("transshipment_location_ids").array(), // Ordered transshipment ports/airports
+  
   // Automation fields
   createdAutomatically: boolean("created_automatically").notNull().default(false),
   automationRuleId: varchar("automation_rule_id"),
@@ -123,9 +163,12 @@ export const invoices = pgTable("invoices", {
   subtotal: decimal("subtotal", { precision: 12, scale: 2 }).notNull().default("0"),
   tax: decimal("tax", { precision: 12, scale: 2 }).notNull().default("0"),
   total: decimal("total", { precision: 12, scale: 2 }).notNull().default("0"),
-  status: text("status").notNull().default("draft"), // draft, sent, paid, overdue, cancelled
+  status: text("status").notNull().default("draft"), // draft, sent, partially_paid, paid, overdue, cancelled, applied (credit notes)
   dueDate: timestamp("due_date").notNull(),
   paidDate: timestamp("paid_date"),
+  amountPaid: decimal("amount_paid", { precision: 12, scale: 2 }).notNull().default("0"), // Payments allocated to this invoice (capped at total)
+  amountCredited: decimal("amount_credited", { precision: 12, scale: 2 }).notNull().default("0"), // Stamped credit notes applied to this invoice
+  exchangeRate: decimal("exchange_rate", { precision: 12, scale: 6 }), // TipoCambio a MXN (CFDI en moneda distinta a MXN)
   notes: text("notes"),
   
   // CFDI 4.0 Fields - Emisor (Issuer)
@@ -159,6 +202,16 @@ export const invoices = pgTable("invoices", {
   xmlB2Key: text("xml_b2_key"), // Key del XML en Backblaze B2
   pdfB2Key: text("pdf_b2_key"), // Key del PDF en Backblaze B2
   
+  // Cancelación ante el SAT
+  cancellationStatus: text("cancellation_status"), // pending_substitute, requested, accepted, rejected
+  cancellationMotive: text("cancellation_motive"), // 01=Con relación, 02=Sin relación, 03=No se llevó a cabo, 04=Factura global
+  cancellationRequestedAt: timestamp("cancellation_requested_at"),
+  cancelledAt: timestamp("cancelled_at"), // Fecha en que el SAT aceptó la cancelación
+  cancellationError: text("cancellation_error"),
+  cancellationAcuseB2Key: text("cancellation_acuse_b2_key"), // Acuse de cancelación (XML) en Backblaze B2
+  replacesInvoiceId: varchar("replaces_invoice_id"), // Factura que sustituye (cancelación con motivo 01)
+  relatedInvoiceId: varchar("related_invoice_id"), // Factura original de una nota de crédito (CfdiRelacionados 01)
+  
   // Automation fields
   createdAutomatically: boolean("created_automatically").notNull().default(false),
   sourceInvoiceAttachmentId: varchar("source_invoice_attachment_id"), // Attachment de donde se creó
@@ -181,6 +234,19 @@ export const proposals = pgTable("proposals", {
   status: text("status").notNull().default("draft"), // draft, sent, accepted, rejected, expired, converted
   validUntil: timestamp("valid_until").notNull(),
   convertedToInvoiceId: varchar("converted_to_invoice_id").references(() => invoices.id, { onDelete: "set null" }),
+  
+  // Freight quote (quoteType = freight): route options with buy/sell charge lines
+  quoteType: text("quote_type").notNull().default("general"), // general, freight
+  projectCategory: text("project_category"), // import, export, domestic... (copied to the operation)
+  operationType: text("operation_type"), // FCL, LCL, Air, Road...
+  shippingMode: text("shipping_mode"), // sea, air, land, multimodal
+  incoterm: text("incoterm"), // EXW, FOB, CIF, DAP, DDP...
+  originLocationId: varchar("origin_location_id").references(() => locations.id, { onDelete: "set null" }),
+  destinationLocationId: varchar("destination_location_id").references(() => locations.id, { onDelete: "set null" }),
+  cargoDescription: text("cargo_description"),
+  cargoValue: decimal("cargo_value", { precision: 12, scale: 2 }), // Base of "% of value" charges (insurance)
+  selectedOptionId: varchar("selected_option_id"), // Route option accepted by the client
+  convertedToOperationId: varchar("converted_to_operation_id").references(() => operations.id, { onDelete: "set null" }),
   createdAt: timestamp("created_at").notNull().defaultNow(),
 });
 
@@ -207,6 +273,7 @@ export const expenses = pgTable("expenses", {
   employeeId: varchar("employee_id").notNull().references(() => employees.id, { onDelete: "restrict" }),
   bankAccountId: varchar("bank_account_id").references(() => bankAccounts.id, { onDelete: "restrict" }),
   category: text("category").notNull(), // travel, supplies, equipment, services, other
+  chargeCategory: text("charge_category"), // Operation P&L category: ocean_freight, air_freight, inland_freight, local_charges, customs, insurance, storage, other (null = by description)
   amount: decimal("amount", { precision: 12, scale: 2 }).notNull(),
   currency: text("currency").notNull().default("MXN"), // Must match bank account currency
   description: text("description").notNull(),
@@ -247,6 +314,7 @@ export const invoiceItems = pgTable("invoice_items", {
   identification: text("identification"), // No Identificación adicional (CALLAO, PR - MANZANILLO, MX)
   taxRate: decimal("tax_rate", { precision: 5, scale: 4 }), // Tasa de impuesto (0.16 para IVA 16%)
   taxAmount: decimal("tax_amount", { precision: 12, scale: 2 }), // Monto del impuesto
+  chargeCategory: text("charge_category"), // ocean_freight, air_freight, inland_freight, local_charges, customs, insurance, storage, other (null = by description)
   
   createdAt: timestamp("created_at").notNull().defaultNow(),
 });
@@ -262,6 +330,42 @@ export const proposalItems = pgTable("proposal_items", {
   createdAt: timestamp("created_at").notNull().defaultNow(),
 });
 
+// Proposal Route Options table - Alternatives of a freight quote (carrier, routing, transit, validity)
+export const proposalRouteOptions = pgTable("proposal_route_options", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  proposalId: varchar("proposal_id").notNull().references(() => proposals.id, { onDelete: "cascade" }),
+  name: text("name").notNull(), // "Directo Maersk", "Vía Panamá"
+  carrier: text("carrier"),
+  transitDays: integer("transit_days"),
+  transshipmentLocationIds: text("transshipment_location_ids").array(), // Ordered transshipment ports/airports
+  validUntil: timestamp("valid_until"), // Rate validity from the carrier / agent
+  notes: text("notes"),
+  buyTotal: decimal("buy_total", { precision: 12, scale: 2 }).notNull().default("0"), // In the proposal currency
+  sellTotal: decimal("sell_total", { precision: 12, scale: 2 }).notNull().default("0"),
+  sortOrder: integer("sort_order").notNull().default(0),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+}, (table) => [
+  index("idx_proposal_route_options_proposal").on(table.proposalId),
+]);
+
+// Proposal Charge Lines table - Buy/sell rates of a route option
+export const proposalChargeLines = pgTable("proposal_charge_lines", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  optionId: varchar("option_id").notNull().references(() => proposalRouteOptions.id, { onDelete: "cascade" }),
+  chargeCode: text("charge_code").notNull(), // OFR, BAF, THC, AFR, FSC, DOC, INS...
+  description: text("description"),
+  basis: text("basis").notNull(), // per_container, per_kg, per_shipment, percent_of_value
+  quantity: decimal("quantity", { precision: 12, scale: 3 }).notNull().default("1"), // Containers, kg or cargo value
+  currency: text("currency").notNull(),
+  buyRate: decimal("buy_rate", { precision: 12, scale: 4 }).notNull().default("0"),
+  sellRate: decimal("sell_rate", { precision: 12, scale: 4 }).notNull().default("0"), // Percentage for percent_of_value
+  exchangeRate: decimal("exchange_rate", { precision: 12, scale: 6 }).notNull().default("1"), // Proposal currency per unit, fixed on save
+  sortOrder: integer("sort_order").notNull().default(0),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+}, (table) => [
+  index("idx_proposal_charge_lines_option").on(table.optionId),
+]);
+
 // Payments table
 export const payments = pgTable("payments", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
@@ -277,6 +381,165 @@ export const payments = pgTable("payments", {
   createdAt: timestamp("created_at").notNull().defaultNow(),
 });
 
+// Client Credits table - Overpayments kept as credit in favor of the client
+export const clientCredits = pgTable("client_credits", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  clientId: varchar("client_id").notNull().references(() => clients.id, { onDelete: "cascade" }),
+  invoiceId: varchar("invoice_id").references(() => invoices.id, { onDelete: "set null" }), // Invoice that was overpaid
+  paymentId: varchar("payment_id").references(() => payments.id, { onDelete: "cascade" }), // Payment that generated the credit
+  amount: decimal("amount", { precision: 12, scale: 2 }).notNull(),
+  currency: text("currency").notNull(),
+  status: text("status").notNull().default("available"), // available, applied
+  notes: text("notes"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+// Payment Complements table - CFDI tipo P (Complemento de Pago) por cada pago de una factura PPD
+export const paymentComplements = pgTable("payment_complements", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  paymentId: varchar("payment_id").notNull().unique().references(() => payments.id, { onDelete: "restrict" }),
+  invoiceId: varchar("invoice_id").notNull().references(() => invoices.id, { onDelete: "cascade" }),
+  installmentNumber: integer("installment_number").notNull(), // NumParcialidad
+  previousBalance: decimal("previous_balance", { precision: 12, scale: 2 }).notNull(), // ImpSaldoAnt
+  amountPaid: decimal("amount_paid", { precision: 12, scale: 2 }).notNull(), // ImpPagado
+  outstandingBalance: decimal("outstanding_balance", { precision: 12, scale: 2 }).notNull(), // ImpSaldoInsoluto
+  paymentForm: text("payment_form").notNull(), // c_FormaPago: 01, 02, 03, 04, 28
+  currency: text("currency").notNull(),
+  exchangeRate: decimal("exchange_rate", { precision: 12, scale: 6 }), // TipoCambioP (pagos en moneda distinta a MXN)
+  
+  // Timbrado Facturama
+  stampStatus: text("stamp_status").notNull().default("pending_stamp"), // pending_stamp, stamped, stamp_failed
+  folioFiscal: text("folio_fiscal"), // UUID del complemento
+  facturamaCfdiId: text("facturama_cfdi_id"),
+  stampedAt: timestamp("stamped_at"),
+  stampError: text("stamp_error"),
+  xmlB2Key: text("xml_b2_key"), // Key del XML en Backblaze B2
+  pdfB2Key: text("pdf_b2_key"), // Key del PDF en Backblaze B2
+  
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+// Supplier Bills table - Accounts payable (facturas de proveedores)
+export const supplierBills = pgTable("supplier_bills", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  supplierId: varchar("supplier_id").notNull().references(() => suppliers.id, { onDelete: "restrict" }),
+  operationId: varchar("operation_id").references(() => operations.id, { onDelete: "set null" }),
+  billNumber: text("bill_number").notNull(), // Folio del proveedor
+  folioFiscal: text("folio_fiscal").unique(), // UUID del CFDI recibido
+  description: text("description"),
+  chargeCategory: text("charge_category"), // Operation P&L category (null = by description)
+  currency: text("currency").notNull().default("MXN"),
+  subtotal: decimal("subtotal", { precision: 12, scale: 2 }).notNull(),
+  tax: decimal("tax", { precision: 12, scale: 2 }).notNull().default("0"),
+  total: decimal("total", { precision: 12, scale: 2 }).notNull(),
+  amountPaid: decimal("amount_paid", { precision: 12, scale: 2 }).notNull().default("0"), // Derived from supplier bill payments
+  billDate: timestamp("bill_date").notNull(),
+  dueDate: timestamp("due_date").notNull(),
+  status: text("status").notNull().default("pending"), // pending, partially_paid, paid, cancelled
+  
+  // Pago programado
+  scheduledPaymentDate: timestamp("scheduled_payment_date"),
+  scheduledBankAccountId: varchar("scheduled_bank_account_id").references(() => bankAccounts.id, { onDelete: "set null" }),
+  
+  source: text("source").notNull().default("manual"), // manual, cfdi_xml
+  sourceFileId: varchar("source_file_id").references(() => operationFiles.id, { onDelete: "set null" }), // XML adjunto de la operación
+  notes: text("notes"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+// Supplier Bill Payments table - Payments made to suppliers against a bill
+export const supplierBillPayments = pgTable("supplier_bill_payments", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  supplierBillId: varchar("supplier_bill_id").notNull().references(() => supplierBills.id, { onDelete: "cascade" }),
+  bankAccountId: varchar("bank_account_id").references(() => bankAccounts.id, { onDelete: "restrict" }),
+  amount: decimal("amount", { precision: 12, scale: 2 }).notNull(),
+  currency: text("currency").notNull(), // Must match bill and bank account currency
+  paymentDate: timestamp("payment_date").notNull(),
+  paymentMethod: text("payment_method").notNull(), // transfer, check, cash, card, other
+  reference: text("reference"),
+  notes: text("notes"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+// Bank Ledger Entries table - One entry per payment/expense/adjustment with running balance
+export const bankLedgerEntries = pgTable("bank_ledger_entries", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  bankAccountId: varchar("bank_account_id").notNull().references(() => bankAccounts.id, { onDelete: "cascade" }),
+  entryType: text("entry_type").notNull(), // payment, expense, supplier_payment, adjustment
+  paymentId: varchar("payment_id").references(() => payments.id, { onDelete: "cascade" }), // Source payment (credit)
+  expenseId: varchar("expense_id").references(() => expenses.id, { onDelete: "cascade" }), // Source expense (debit)
+  supplierBillPaymentId: varchar("supplier_bill_payment_id").references(() => supplierBillPayments.id, { onDelete: "cascade" }), // Source supplier payment (debit)
+  amount: decimal("amount", { precision: 12, scale: 2 }).notNull(), // Signed: positive = credit, negative = debit
+  runningBalance: decimal("running_balance", { precision: 12, scale: 2 }).notNull().default("0"), // Balance after this entry
+  entryDate: timestamp("entry_date").notNull(),
+  description: text("description").notNull(),
+  reference: text("reference"),
+  createdById: varchar("created_by_id").references(() => users.id, { onDelete: "set null" }), // Only for manual adjustments
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+}, (table) => [
+  index("idx_bank_ledger_entries_account_date").on(table.bankAccountId, table.entryDate),
+  index("idx_bank_ledger_entries_payment").on(table.paymentId),
+  index("idx_bank_ledger_entries_expense").on(table.expenseId),
+  index("idx_bank_ledger_entries_supplier_payment").on(table.supplierBillPaymentId),
+]);
+
+// Bank Statement Imports table - One row per uploaded bank statement file
+export const bankStatementImports = pgTable("bank_statement_imports", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  bankAccountId: varchar("bank_account_id").notNull().references(() => bankAccounts.id, { onDelete: "cascade" }),
+  fileName: text("file_name").notNull(),
+  format: text("format").notNull(), // csv, ofx, camt053
+  periodStart: timestamp("period_start"),
+  periodEnd: timestamp("period_end"),
+  openingBalance: decimal("opening_balance", { precision: 12, scale: 2 }), // As reported by the bank, if present
+  closingBalance: decimal("closing_balance", { precision: 12, scale: 2 }),
+  totalLines: integer("total_lines").notNull().default(0),
+  duplicateLines: integer("duplicate_lines").notNull().default(0), // Lines skipped because they were already imported
+  matchedLines: integer("matched_lines").notNull().default(0),
+  uploadedById: varchar("uploaded_by_id").references(() => users.id, { onDelete: "set null" }),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+}, (table) => [
+  index("idx_bank_statement_imports_account").on(table.bankAccountId),
+]);
+
+// Bank Statement Lines table - Individual bank transactions to reconcile against the books
+export const bankStatementLines = pgTable("bank_statement_lines", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  importId: varchar("import_id").notNull().references(() => bankStatementImports.id, { onDelete: "cascade" }),
+  bankAccountId: varchar("bank_account_id").notNull().references(() => bankAccounts.id, { onDelete: "cascade" }),
+  transactionDate: timestamp("transaction_date").notNull(),
+  amount: decimal("amount", { precision: 12, scale: 2 }).notNull(), // Signed: positive = credit, negative = debit
+  description: text("description").notNull(),
+  reference: text("reference"),
+  externalId: text("external_id"), // FITID (OFX) / AcctSvcrRef (CAMT.053)
+  balance: decimal("balance", { precision: 12, scale: 2 }), // Balance reported by the bank after this line
+  fingerprint: text("fingerprint").notNull(), // Used to skip lines already imported for the account
+  status: text("status").notNull().default("unmatched"), // unmatched, suggested, matched, ignored
+  matchedPaymentId: varchar("matched_payment_id").references(() => payments.id, { onDelete: "set null" }),
+  matchedExpenseId: varchar("matched_expense_id").references(() => expenses.id, { onDelete: "set null" }),
+  matchedSuggestionId: varchar("matched_suggestion_id").references(() => financialSuggestions.id, { onDelete: "set null" }),
+  matchConfidence: decimal("match_confidence", { precision: 5, scale: 2 }), // 0-100
+  matchMethod: text("match_method"), // auto, manual, created
+  reconciledById: varchar("reconciled_by_id").references(() => users.id, { onDelete: "set null" }),
+  reconciledAt: timestamp("reconciled_at"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+}, (table) => [
+  index("idx_bank_statement_lines_import").on(table.importId),
+  index("idx_bank_statement_lines_account_status").on(table.bankAccountId, table.status),
+  index("idx_bank_statement_lines_fingerprint").on(table.bankAccountId, table.fingerprint),
+]);
+
+// Exchange Rates table - Daily rate of each currency expressed in MXN (1 unit = rate MXN)
+export const exchangeRates = pgTable("exchange_rates", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  currency: text("currency").notNull(), // USD, EUR, ARS, CAD
+  rateDate: timestamp("rate_date").notNull(), // Day the rate applies to (00:00 UTC); unique per currency
+  rate: decimal("rate", { precision: 12, scale: 6 }).notNull(), // MXN per unit of currency
+  source: text("source").notNull().default("manual"), // manual, banxico_fix
+  createdById: varchar("created_by_id").references(() => users.id, { onDelete: "set null" }),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
 // Custom Fields Definition table
 export const customFields = pgTable("custom_fields", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
@@ -290,6 +553,90 @@ export const customFields = pgTable("custom_fields", {
   createdAt: timestamp("created_at").notNull().defaultNow(),
 });
 
+// Operation Charge Estimates table - Estimated revenue and cost per charge category (operation P&L)
+export const operationChargeEstimates = pgTable("operation_charge_estimates", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  operationId: varchar("operation_id").notNull().references(() => operations.id, { onDelete: "cascade" }),
+  chargeCategory: text("charge_category").notNull(), // ocean_freight, air_freight, inland_freight, local_charges, customs, insurance, storage, other
+  estimatedRevenue: decimal("estimated_revenue", { precision: 12, scale: 2 }).notNull().default("0"),
+  estimatedCost: decimal("estimated_cost", { precision: 12, scale: 2 }).notNull().default("0"),
+  currency: text("currency").notNull(), // Converted to the reporting currency at the operation start date
+  notes: text("notes"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+// Operation Containers table - Equipment of the shipment (number, ISO type, seal)
+export const operationContainers = pgTable("operation_containers", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  operationId: varchar("operation_id").notNull().references(() => operations.id, { onDelete: "cascade" }),
+  containerNumber: text("container_number"), // ISO 6346, normalized (MSCU1234565); null until the carrier assigns it
+  containerType: text("container_type"), // 20GP, 40GP, 40HC, 45HC, 20RF, 40RF, 20OT, 40OT, 20FR, 40FR
+  sealNumber: text("seal_number"),
+  tareWeightKg: decimal("tare_weight_kg", { precision: 12, scale: 3 }),
+  grossWeightKg: decimal("gross_weight_kg", { precision: 12, scale: 3 }), // VGM when known
+  reeferTemperatureC: decimal("reefer_temperature_c", { precision: 5, scale: 1 }),
+  sortOrder: integer("sort_order").notNull().default(0),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+}, (table) => [
+  index("idx_operation_containers_operation").on(table.operationId),
+  index("idx_operation_containers_number").on(table.containerNumber),
+]);
+
+// Operation Cargo Lines table - Goods of the shipment (packages, weight, volume)
+export const operationCargoLines = pgTable("operation_cargo_lines", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  operationId: varchar("operation_id").notNull().references(() => operations.id, { onDelete: "cascade" }),
+  containerId: varchar("container_id").references(() => operationContainers.id, { onDelete: "set null" }), // FCL: container the line is stuffed in
+  description: text("description").notNull(),
+  hsCode: text("hs_code"),
+  packageType: text("package_type").notNull().default("carton"), // carton, pallet, crate, drum, bag, roll, bundle, piece
+  packageCount: integer("package_count").notNull().default(1),
+  grossWeightKg: decimal("gross_weight_kg", { precision: 12, scale: 3 }).notNull().default("0"),
+  lengthCm: decimal("length_cm", { precision: 10, scale: 2 }), // Per package; when complete, volume is computed from them
+  widthCm: decimal("width_cm", { precision: 10, scale: 2 }),
+  heightCm: decimal("height_cm", { precision: 10, scale: 2 }),
+  volumeCbm: decimal("volume_cbm", { precision: 12, scale: 3 }).notNull().default("0"),
+  sortOrder: integer("sort_order").notNull().default(0),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+}, (table) => [
+  index("idx_operation_cargo_lines_operation").on(table.operationId),
+]);
+
+// Operation Milestones table - Shipment timeline with planned, estimated and actual dates
+export const operationMilestones = pgTable("operation_milestones", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  operationId: varchar("operation_id").notNull().references(() => operations.id, { onDelete: "cascade" }),
+  milestoneType: text("milestone_type").notNull(), // booking_confirmed, cargo_picked_up, gate_in, loaded_on_board, departed, transshipment, arrived, customs_released, delivered
+  plannedAt: timestamp("planned_at"), // Committed to the client
+  estimatedAt: timestamp("estimated_at"), // Latest estimate from the carrier
+  actualAt: timestamp("actual_at"),
+  location: text("location"), // Port, airport, terminal or warehouse
+  source: text("source").notNull().default("manual"), // manual, email, ai - of the latest change
+  sourceGmailMessageId: varchar("source_gmail_message_id").references(() => gmailMessages.id, { onDelete: "set null" }),
+  notes: text("notes"),
+  delayAcknowledgedMinutes: integer("delay_acknowledged_minutes"), // Delay alert dismissed up to this delay; a bigger slip alerts again
+  delayAcknowledgedBy: varchar("delay_acknowledged_by").references(() => users.id, { onDelete: "set null" }),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+}, (table) => [
+  index("idx_operation_milestones_operation").on(table.operationId),
+]);
+
+// Operation Milestone Changes table - History of every planned/estimated/actual date change
+export const operationMilestoneChanges = pgTable("operation_milestone_changes", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  milestoneId: varchar("milestone_id").notNull().references(() => operationMilestones.id, { onDelete: "cascade" }),
+  field: text("field").notNull(), // plannedAt, estimatedAt, actualAt
+  previousValue: timestamp("previous_value"),
+  newValue: timestamp("new_value"),
+  source: text("source").notNull(), // manual, email, ai
+  sourceGmailMessageId: varchar("source_gmail_message_id").references(() => gmailMessages.id, { onDelete: "set null" }),
+  changedBy: varchar("changed_by").references(() => users.id, { onDelete: "set null" }),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+}, (table) => [
+  index("idx_operation_milestone_changes_milestone").on(table.milestoneId),
+]);
+
 // Operation Notes table
 export const operationNotes = pgTable("operation_notes", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
@@ -344,12 +691,26 @@ export const gmailAccounts = pgTable("gmail_accounts", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
   email: text("email").notNull(),
-  accessToken: text("access_token").notNull(),
-  refreshToken: text("refresh_token").notNull(),
-  tokenExpiry: timestamp("token_expiry").notNull(),
+  provider: text("provider").notNull().default("gmail"), // gmail, imap
+  accessToken: text("access_token"), // OAuth de Google (solo provider = gmail)
+  refreshToken: text("refresh_token"),
+  tokenExpiry: timestamp("token_expiry"),
+  // Buzones IMAP/SMTP (Exchange, Dovecot...) con usuario y contraseña o contraseña de aplicación
+  imapHost: text("imap_host"),
+  imapPort: integer("imap_port"),
+  imapSecure: boolean("imap_secure").notNull().default(true), // TLS directo; false = STARTTLS si el servidor lo ofrece
+  smtpHost: text("smtp_host"),
+  smtpPort: integer("smtp_port"),
+  smtpSecure: boolean("smtp_secure").notNull().default(true),
+  mailUsername: text("mail_username"),
+  mailPassword: text("mail_password"),
+  imapUseIdle: boolean("imap_use_idle").notNull().default(true), // IDLE (push) además del sondeo periódico
+  imapSyncState: jsonb("imap_sync_state"), // { [carpeta]: { uidValidity, lastUid } } checkpoint por carpeta
   syncEnabled: boolean("sync_enabled").notNull().default(true),
   syncFromDate: timestamp("sync_from_date").notNull(), // User-configured start date for sync
   lastSyncDate: timestamp("last_sync_date"),
+  historyId: text("history_id"), // Gmail History API checkpoint for incremental sync (null = full sync)
+  isShared: boolean("is_shared").notNull().default(false), // Shared team inbox: every user sees and works its threads
   firstEmailDate: timestamp("first_email_date"), // Detected oldest email in account
   status: text("status").notNull().default("active"), // active, paused, error, disconnected
   syncStatus: text("sync_status").notNull().default("pending"), // pending, syncing, completed, error
@@ -410,6 +771,207 @@ export const gmailAttachments = pgTable("gmail_attachments", {
   createdAt: timestamp("created_at").notNull().defaultNow(),
 });
 
+// Email Templates table - reusable subject/body with operation merge fields
+export const emailTemplates = pgTable("email_templates", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  name: text("name").notNull(),
+  category: text("category").notNull().default("other"), // booking_confirmation, arrival_notice, document_request, other
+  language: text("language").notNull().default("es"), // es, en
+  subject: text("subject").notNull(), // Supports {{operation.bookingTracking}}-style placeholders
+  body: text("body").notNull(),
+  isActive: boolean("is_active").notNull().default(true),
+  createdBy: varchar("created_by").references(() => users.id, { onDelete: "set null" }),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+});
+
+// Email Linking Matchers table - weight and on/off switch for each email→operation matcher
+export const emailLinkingMatchers = pgTable("email_linking_matchers", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  matcherKey: text("matcher_key").notNull().unique(), // operation_name, booking, bill_of_lading, container, purchase_order, thread, sender_domain
+  isEnabled: boolean("is_enabled").notNull().default(true),
+  weight: integer("weight").notNull(), // Points added to a candidate operation when the matcher hits
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+});
+
+// Email Link Decisions table - explainable log of every linker decision and its human review
+export const emailLinkDecisions = pgTable("email_link_decisions", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  gmailMessageId: varchar("gmail_message_id").notNull().references(() => gmailMessages.id, { onDelete: "cascade" }),
+  operationId: varchar("operation_id").references(() => operations.id, { onDelete: "set null" }), // Best candidate chosen by the linker
+  decision: text("decision").notNull(), // linked, ambiguous, below_threshold, no_match, manual (thread split/link by a user)
+  score: integer("score").notNull().default(0), // Score of the best candidate
+  reason: text("reason").notNull(), // Human-readable explanation
+  candidates: jsonb("candidates"), // [{operationId, operationName, score, matches: [{matcher, weight, location, evidence}]}]
+  reviewStatus: text("review_status").notNull().default("pending"), // pending, confirmed, overridden, unlinked
+  reviewedOperationId: varchar("reviewed_operation_id").references(() => operations.id, { onDelete: "set null" }), // Operation chosen by the reviewer
+  reviewedBy: varchar("reviewed_by").references(() => users.id, { onDelete: "set null" }),
+  reviewedAt: timestamp("reviewed_at"),
+  evaluatedAt: timestamp("evaluated_at").notNull().defaultNow(), // Last linker run that reached this same outcome
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+// Email Thread Splits table - Gmail threads a user split across operations (no thread inheritance)
+export const emailThreadSplits = pgTable("email_thread_splits", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  threadId: text("thread_id").notNull().unique(),
+  splitBy: varchar("split_by").references(() => users.id, { onDelete: "set null" }),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+// Email Thread Assignments table - shared inbox state of a Gmail thread (assignee, status, snooze)
+export const emailThreadAssignments = pgTable("email_thread_assignments", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  threadId: text("thread_id").notNull().unique(),
+  gmailAccountId: varchar("gmail_account_id").notNull().references(() => gmailAccounts.id, { onDelete: "cascade" }),
+  assignedEmployeeId: varchar("assigned_employee_id").references(() => employees.id, { onDelete: "set null" }),
+  status: text("status").notNull().default("open"), // open, waiting_client, done
+  snoozedUntil: timestamp("snoozed_until"), // Hidden from the queues until this date
+  statusChangedAt: timestamp("status_changed_at").notNull().defaultNow(), // A newer inbound email reopens waiting/done threads
+  assignedBy: varchar("assigned_by").references(() => users.id, { onDelete: "set null" }),
+  assignedAt: timestamp("assigned_at"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+});
+
+// Spam Rules table - block/allow rules for the Gmail spam filter (per account, or global when gmailAccountId is null)
+export const spamRules = pgTable("spam_rules", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  gmailAccountId: varchar("gmail_account_id").references(() => gmailAccounts.id, { onDelete: "cascade" }), // null = all accounts
+  action: text("action").notNull(), // block, allow
+  ruleType: text("rule_type").notNull(), // domain, address, subject, header
+  pattern: text("pattern").notNull(), // Domain, address, subject text (or /regex/), or header value (empty = header present)
+  headerName: text("header_name"), // Only for header rules, e.g. List-Unsubscribe
+  note: text("note"),
+  isEnabled: boolean("is_enabled").notNull().default(true),
+  hitCount: integer("hit_count").notNull().default(0),
+  lastHitAt: timestamp("last_hit_at"),
+  createdBy: varchar("created_by").references(() => users.id, { onDelete: "set null" }),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+// Spam Filtered Messages table - messages the spam filter skipped during sync (not stored in gmail_messages)
+export const spamFilteredMessages = pgTable("spam_filtered_messages", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  gmailAccountId: varchar("gmail_account_id").notNull().references(() => gmailAccounts.id, { onDelete: "cascade" }),
+  messageId: text("message_id").notNull().unique(), // Gmail message ID
+  threadId: text("thread_id"),
+  fromEmail: text("from_email").notNull(),
+  fromName: text("from_name"),
+  subject: text("subject"),
+  date: timestamp("date").notNull(),
+  reason: text("reason").notNull(), // Reason returned by SpamFilter.getFilterStats
+  confidence: text("confidence").notNull(), // high, medium, low
+  spamRuleId: varchar("spam_rule_id").references(() => spamRules.id, { onDelete: "set null" }), // Block rule that matched, if any
+  status: text("status").notNull().default("filtered"), // filtered, restored
+  restoredBy: varchar("restored_by").references(() => users.id, { onDelete: "set null" }),
+  restoredAt: timestamp("restored_at"),
+  filteredAt: timestamp("filtered_at").notNull().defaultNow(),
+});
+
+// Postgres tsvector column (full-text search)
+const tsvector = customType<{ data: string }>({
+  dataType() {
+    return "tsvector";
+  },
+});
+
+// Search Documents table - full-text index over emails, attachment/file OCR text, notes and tasks
+export const searchDocuments = pgTable("search_documents", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  entityType: text("entity_type").notNull(), // email, email_attachment, operation_file, operation_note, operation_task
+  entityId: varchar("entity_id").notNull(),
+  operationId: varchar("operation_id").references(() => operations.id, { onDelete: "set null" }),
+  gmailAccountId: varchar("gmail_account_id").references(() => gmailAccounts.id, { onDelete: "cascade" }), // Emails and attachments only (visibility)
+  title: text("title").notNull(),
+  content: text("content").notNull().default(""), // Indexed text (body, OCR text, note...) used for snippets
+  searchVector: tsvector("search_vector").notNull(), // Spanish + English stems; title weighted A, content B
+  sourceVersion: text("source_version"), // Fingerprint of the source row to detect changes (updatedAt, B2 key)
+  sourceDate: timestamp("source_date"),
+  indexedAt: timestamp("indexed_at").notNull().defaultNow(),
+}, (table) => [
+  unique("search_documents_entity_unique").on(table.entityType, table.entityId),
+  index("idx_search_documents_vector").using("gin", table.searchVector),
+]);
+
+// Security Audit Events table - refresco y revocación de tokens, rotación de la llave maestra
+export const securityAuditEvents = pgTable("security_audit_events", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  eventType: text("event_type").notNull(), // token_refreshed, token_revoked, secrets_reencrypted
+  entityType: text("entity_type").notNull(), // gmail_account, system
+  entityId: varchar("entity_id"), // Sin FK: el evento se conserva aunque se elimine la cuenta
+  userId: varchar("user_id").references(() => users.id, { onDelete: "set null" }), // null = proceso automático
+  details: jsonb("details"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+}, (table) => [
+  index("idx_security_audit_events_entity").on(table.entityType, table.entityId),
+]);
+
+// Locations table - UN/LOCODE master data (ports, airports, inland depots) with coordinates
+export const locations = pgTable("locations", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  unlocode: text("unlocode").notNull().unique(), // Country + location code, e.g. MXZLO
+  countryCode: text("country_code").notNull(), // ISO 3166-1 alpha-2
+  name: text("name").notNull(),
+  nameAscii: text("name_ascii").notNull(), // Name without diacritics, lowercase (search)
+  subdivision: text("subdivision"), // ISO 3166-2 state/province code
+  functions: text("functions").notNull(), // UN/LOCODE function classifier, e.g. "1-3-----"
+  isSeaport: boolean("is_seaport").notNull().default(false),
+  isAirport: boolean("is_airport").notNull().default(false),
+  isInlandDepot: boolean("is_inland_depot").notNull().default(false), // Rail/road terminal or multimodal (ICD)
+  iataCode: text("iata_code"),
+  latitude: decimal("latitude", { precision: 9, scale: 6 }),
+  longitude: decimal("longitude", { precision: 9, scale: 6 }),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+}, (table) => [
+  index("idx_locations_name_ascii").on(table.nameAscii),
+  index("idx_locations_country").on(table.countryCode),
+]);
+
+// Rate Tariffs table - Rate sheets uploaded from carriers and agents
+export const rateTariffs = pgTable("rate_tariffs", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  supplierId: varchar("supplier_id").notNull().references(() => suppliers.id, { onDelete: "cascade" }),
+  name: text("name").notNull(), // "Maersk Asia - México Q4"
+  mode: text("mode").notNull(), // sea, air, land
+  currency: text("currency").notNull().default("USD"), // Default currency of the rows
+  validFrom: timestamp("valid_from"), // Default validity of the rows
+  validUntil: timestamp("valid_until"),
+  status: text("status").notNull().default("active"), // active, archived
+  fileName: text("file_name"),
+  rateCount: integer("rate_count").notNull().default(0),
+  notes: text("notes"),
+  uploadedById: varchar("uploaded_by_id").references(() => users.id, { onDelete: "set null" }),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+}, (table) => [
+  index("idx_rate_tariffs_supplier").on(table.supplierId),
+]);
+
+// Tariff Rates table - One lane and container type or weight break of a rate sheet
+export const tariffRates = pgTable("tariff_rates", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  tariffId: varchar("tariff_id").notNull().references(() => rateTariffs.id, { onDelete: "cascade" }),
+  originLocationId: varchar("origin_location_id").notNull().references(() => locations.id, { onDelete: "cascade" }),
+  destinationLocationId: varchar("destination_location_id").notNull().references(() => locations.id, { onDelete: "cascade" }),
+  equipmentType: text("equipment_type"), // 20GP, 40GP, 40HC... null for air and land
+  weightBreakKg: decimal("weight_break_kg", { precision: 10, scale: 2 }), // Air: chargeable weight from which the rate applies
+  basis: text("basis").notNull(), // per_container, per_kg, per_shipment
+  currency: text("currency").notNull(),
+  baseRate: decimal("base_rate", { precision: 12, scale: 4 }).notNull(),
+  minimumCharge: decimal("minimum_charge", { precision: 12, scale: 2 }),
+  surcharges: jsonb("surcharges").$type<TariffSurcharge[]>().notNull().default(sql`'[]'::jsonb`),
+  carrier: text("carrier"), // Actual carrier when an agent quotes several
+  transitDays: integer("transit_days"),
+  validFrom: timestamp("valid_from"), // Row validity, falls back to the tariff's on import
+  validUntil: timestamp("valid_until"),
+  notes: text("notes"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+}, (table) => [
+  index("idx_tariff_rates_lane").on(table.originLocationId, table.destinationLocationId),
+  index("idx_tariff_rates_tariff").on(table.tariffId),
+]);
+
 // Calendar Events table
 export const calendarEvents = pgTable("calendar_events", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
@@ -755,6 +1317,70 @@ export const operationsRelations = relations(operations, ({ one, many }) => ({
   employeeAssignments: many(operationEmployees),
   invoices: many(invoices),
   expenses: many(expenses),
+  supplierBills: many(supplierBills),
+  chargeEstimates: many(operationChargeEstimates),
+  containers: many(operationContainers),
+  cargoLines: many(operationCargoLines),
+  milestones: many(operationMilestones),
+  originLocation: one(locations, {
+    fields: [operations.originLocationId],
+    references: [locations.id],
+    relationName: "originLocation",
+  }),
+  destinationLocation: one(locations, {
+    fields: [operations.destinationLocationId],
+    references: [locations.id],
+    relationName: "destinationLocation",
+  }),
+}));
+
+export const operationChargeEstimatesRelations = relations(operationChargeEstimates, ({ one }) => ({
+  operation: one(operations, {
+    fields: [operationChargeEstimates.operationId],
+    references: [operations.id],
+  }),
+}));
+
+export const operationContainersRelations = relations(operationContainers, ({ one, many }) => ({
+  operation: one(operations, {
+    fields: [operationContainers.operationId],
+    references: [operations.id],
+  }),
+  cargoLines: many(operationCargoLines),
+}));
+
+export const operationCargoLinesRelations = relations(operationCargoLines, ({ one }) => ({
+  operation: one(operations, {
+    fields: [operationCargoLines.operationId],
+    references: [operations.id],
+  }),
+  container: one(operationContainers, {
+    fields: [operationCargoLines.containerId],
+    references: [operationContainers.id],
+  }),
+}));
+
+export const operationMilestonesRelations = relations(operationMilestones, ({ one, many }) => ({
+  operation: one(operations, {
+    fields: [operationMilestones.operationId],
+    references: [operations.id],
+  }),
+  sourceGmailMessage: one(gmailMessages, {
+    fields: [operationMilestones.sourceGmailMessageId],
+    references: [gmailMessages.id],
+  }),
+  changes: many(operationMilestoneChanges),
+}));
+
+export const operationMilestoneChangesRelations = relations(operationMilestoneChanges, ({ one }) => ({
+  milestone: one(operationMilestones, {
+    fields: [operationMilestoneChanges.milestoneId],
+    references: [operationMilestones.id],
+  }),
+  changedByUser: one(users, {
+    fields: [operationMilestoneChanges.changedBy],
+    references: [users.id],
+  }),
 }));
 
 export const invoicesRelations = relations(invoices, ({ one, many }) => ({
@@ -787,7 +1413,12 @@ export const proposalsRelations = relations(proposals, ({ one, many }) => ({
     fields: [proposals.convertedToInvoiceId],
     references: [invoices.id],
   }),
+  convertedToOperation: one(operations, {
+    fields: [proposals.convertedToOperationId],
+    references: [operations.id],
+  }),
   items: many(proposalItems),
+  routeOptions: many(proposalRouteOptions),
 }));
 
 export const invoiceItemsRelations = relations(invoiceItems, ({ one }) => ({
@@ -804,6 +1435,21 @@ export const proposalItemsRelations = relations(proposalItems, ({ one }) => ({
   }),
 }));
 
+export const proposalRouteOptionsRelations = relations(proposalRouteOptions, ({ one, many }) => ({
+  proposal: one(proposals, {
+    fields: [proposalRouteOptions.proposalId],
+    references: [proposals.id],
+  }),
+  chargeLines: many(proposalChargeLines),
+}));
+
+export const proposalChargeLinesRelations = relations(proposalChargeLines, ({ one }) => ({
+  option: one(proposalRouteOptions, {
+    fields: [proposalChargeLines.optionId],
+    references: [proposalRouteOptions.id],
+  }),
+}));
+
 export const paymentsRelations = relations(payments, ({ one }) => ({
   invoice: one(invoices, {
     fields: [payments.invoiceId],
@@ -822,6 +1468,125 @@ export const expensesRelations = relations(expenses, ({ one }) => ({
   }),
 }));
 
+export const clientCreditsRelations = relations(clientCredits, ({ one }) => ({
+  client: one(clients, {
+    fields: [clientCredits.clientId],
+    references: [clients.id],
+  }),
+  invoice: one(invoices, {
+    fields: [clientCredits.invoiceId],
+    references: [invoices.id],
+  }),
+  payment: one(payments, {
+    fields: [clientCredits.paymentId],
+    references: [payments.id],
+  }),
+}));
+
+export const paymentComplementsRelations = relations(paymentComplements, ({ one }) => ({
+  payment: one(payments, {
+    fields: [paymentComplements.paymentId],
+    references: [payments.id],
+  }),
+  invoice: one(invoices, {
+    fields: [paymentComplements.invoiceId],
+    references: [invoices.id],
+  }),
+}));
+
+export const suppliersRelations = relations(suppliers, ({ many }) => ({
+  bills: many(supplierBills),
+  rateTariffs: many(rateTariffs),
+}));
+
+export const supplierBillsRelations = relations(supplierBills, ({ one, many }) => ({
+  supplier: one(suppliers, {
+    fields: [supplierBills.supplierId],
+    references: [suppliers.id],
+  }),
+  operation: one(operations, {
+    fields: [supplierBills.operationId],
+    references: [operations.id],
+  }),
+  scheduledBankAccount: one(bankAccounts, {
+    fields: [supplierBills.scheduledBankAccountId],
+    references: [bankAccounts.id],
+  }),
+  payments: many(supplierBillPayments),
+}));
+
+export const supplierBillPaymentsRelations = relations(supplierBillPayments, ({ one }) => ({
+  bill: one(supplierBills, {
+    fields: [supplierBillPayments.supplierBillId],
+    references: [supplierBills.id],
+  }),
+  bankAccount: one(bankAccounts, {
+    fields: [supplierBillPayments.bankAccountId],
+    references: [bankAccounts.id],
+  }),
+}));
+
+export const bankLedgerEntriesRelations = relations(bankLedgerEntries, ({ one }) => ({
+  bankAccount: one(bankAccounts, {
+    fields: [bankLedgerEntries.bankAccountId],
+    references: [bankAccounts.id],
+  }),
+  payment: one(payments, {
+    fields: [bankLedgerEntries.paymentId],
+    references: [payments.id],
+  }),
+  expense: one(expenses, {
+    fields: [bankLedgerEntries.expenseId],
+    references: [expenses.id],
+  }),
+  supplierBillPayment: one(supplierBillPayments, {
+    fields: [bankLedgerEntries.supplierBillPaymentId],
+    references: [supplierBillPayments.id],
+  }),
+}));
+
+export const bankStatementImportsRelations = relations(bankStatementImports, ({ one, many }) => ({
+  bankAccount: one(bankAccounts, {
+    fields: [bankStatementImports.bankAccountId],
+    references: [bankAccounts.id],
+  }),
+  uploadedBy: one(users, {
+    fields: [bankStatementImports.uploadedById],
+    references: [users.id],
+  }),
+  lines: many(bankStatementLines),
+}));
+
+export const bankStatementLinesRelations = relations(bankStatementLines, ({ one }) => ({
+  import: one(bankStatementImports, {
+    fields: [bankStatementLines.importId],
+    references: [bankStatementImports.id],
+  }),
+  bankAccount: one(bankAccounts, {
+    fields: [bankStatementLines.bankAccountId],
+    references: [bankAccounts.id],
+  }),
+  matchedPayment: one(payments, {
+    fields: [bankStatementLines.matchedPaymentId],
+    references: [payments.id],
+  }),
+  matchedExpense: one(expenses, {
+    fields: [bankStatementLines.matchedExpenseId],
+    references: [expenses.id],
+  }),
+  matchedSuggestion: one(financialSuggestions, {
+    fields: [bankStatementLines.matchedSuggestionId],
+    references: [financialSuggestions.id],
+  }),
+}));
+
+export const exchangeRatesRelations = relations(exchangeRates, ({ one }) => ({
+  createdBy: one(users, {
+    fields: [exchangeRates.createdById],
+    references: [users.id],
+  }),
+}));
+
 export const leadsRelations = relations(leads, ({ one }) => ({
   assignedEmployee: one(employees, {
     fields: [leads.assignedEmployeeId],
@@ -883,6 +1648,84 @@ export const gmailAttachmentsRelations = relations(gmailAttachments, ({ one }) =
   }),
 }));
 
+export const emailLinkDecisionsRelations = relations(emailLinkDecisions, ({ one }) => ({
+  message: one(gmailMessages, {
+    fields: [emailLinkDecisions.gmailMessageId],
+    references: [gmailMessages.id],
+  }),
+  operation: one(operations, {
+    fields: [emailLinkDecisions.operationId],
+    references: [operations.id],
+  }),
+}));
+
+export const emailThreadAssignmentsRelations = relations(emailThreadAssignments, ({ one }) => ({
+  gmailAccount: one(gmailAccounts, {
+    fields: [emailThreadAssignments.gmailAccountId],
+    references: [gmailAccounts.id],
+  }),
+  assignedEmployee: one(employees, {
+    fields: [emailThreadAssignments.assignedEmployeeId],
+    references: [employees.id],
+  }),
+}));
+
+export const spamRulesRelations = relations(spamRules, ({ one }) => ({
+  gmailAccount: one(gmailAccounts, {
+    fields: [spamRules.gmailAccountId],
+    references: [gmailAccounts.id],
+  }),
+}));
+
+export const spamFilteredMessagesRelations = relations(spamFilteredMessages, ({ one }) => ({
+  gmailAccount: one(gmailAccounts, {
+    fields: [spamFilteredMessages.gmailAccountId],
+    references: [gmailAccounts.id],
+  }),
+  rule: one(spamRules, {
+    fields: [spamFilteredMessages.spamRuleId],
+    references: [spamRules.id],
+  }),
+}));
+
+export const searchDocumentsRelations = relations(searchDocuments, ({ one }) => ({
+  operation: one(operations, {
+    fields: [searchDocuments.operationId],
+    references: [operations.id],
+  }),
+}));
+
+export const securityAuditEventsRelations = relations(securityAuditEvents, ({ one }) => ({
+  user: one(users, {
+    fields: [securityAuditEvents.userId],
+    references: [users.id],
+  }),
+}));
+
+export const rateTariffsRelations = relations(rateTariffs, ({ one, many }) => ({
+  supplier: one(suppliers, {
+    fields: [rateTariffs.supplierId],
+    references: [suppliers.id],
+  }),
+  uploadedBy: one(users, {
+    fields: [rateTariffs.uploadedById],
+    references: [users.id],
+  }),
+  rates: many(tariffRates),
+}));
+
+export const tariffRatesRelations = relations(tariffRates, ({ one }) => ({
+  tariff: one(rateTariffs, {
+    fields: [tariffRates.tariffId],
+    references: [rateTariffs.id],
+  }),
+}));
+
+export const locationsRelations = relations(locations, ({ many }) => ({
+  originOperations: many(operations, { relationName: "originLocation" }),
+  destinationOperations: many(operations, { relationName: "destinationLocation" }),
+}));
+
 export const calendarEventsRelations = relations(calendarEvents, ({ one }) => ({
   gmailAccount: one(gmailAccounts, {
     fields: [calendarEvents.gmailAccountId],
@@ -969,6 +1812,7 @@ export const chatMessagesRelations = relations(chatMessages, ({ one }) => ({
 // Insert schemas
 export const insertUserSchema = createInsertSchema(users).omit({ id: true, createdAt: true });
 export const insertClientSchema = createInsertSchema(clients).omit({ id: true, createdAt: true });
+export const insertSupplierSchema = createInsertSchema(suppliers).omit({ id: true, createdAt: true });
 export const insertEmployeeSchema = createInsertSchema(employees).omit({ id: true, createdAt: true, birthdayEventId: true, userId: true }).extend({
   department: z.string().optional(),
   birthdate: z.union([z.string(), z.date()]).optional().nullable().transform((val) => {
@@ -1013,6 +1857,9 @@ export const insertOperationSchema = createInsertSchema(operations).omit({ id: t
     if (typeof val === 'string') return new Date(val);
     return val;
   }),
+  originLocationId: z.string().optional().nullable().transform((val) => val || null),
+  destinationLocationId: z.string().optional().nullable().transform((val) => val || null),
+  transshipmentLocationIds: z.array(z.string()).optional().nullable().transform((val) => val ? val.filter(Boolean) : val),
 });
 export const insertOperationEmployeeSchema = createInsertSchema(operationEmployees).omit({ id: true, createdAt: true });
 export const insertInvoiceSchema = createInsertSchema(invoices).omit({ 
@@ -1025,6 +1872,16 @@ export const insertInvoiceSchema = createInsertSchema(invoices).omit({
   stampError: true, // Set by system on error
   xmlB2Key: true, // Set by system after downloading XML
   pdfB2Key: true, // Set by system after downloading PDF
+  amountPaid: true, // Computed from payments
+  cancellationStatus: true, // Managed by system during cancellation
+  cancellationMotive: true, // Set when cancellation is requested
+  cancellationRequestedAt: true, // Set when cancellation is requested
+  cancelledAt: true, // Set when SAT accepts the cancellation
+  cancellationError: true, // Set by system on error
+  cancellationAcuseB2Key: true, // Set by system after storing the acuse
+  replacesInvoiceId: true, // Set when the substitute draft is created
+  relatedInvoiceId: true, // Set when a credit note is created
+  amountCredited: true, // Computed from stamped credit notes
 });
 export const insertProposalSchema = createInsertSchema(proposals).omit({ id: true, createdAt: true });
 export const insertBankAccountSchema = createInsertSchema(bankAccounts).omit({ id: true, createdAt: true });
@@ -1032,16 +1889,146 @@ export const insertExpenseSchema = createInsertSchema(expenses).omit({ id: true,
 export const insertLeadSchema = createInsertSchema(leads).omit({ id: true, createdAt: true });
 export const insertInvoiceItemSchema = createInsertSchema(invoiceItems).omit({ id: true, createdAt: true });
 export const insertProposalItemSchema = createInsertSchema(proposalItems).omit({ id: true, createdAt: true });
+export const insertProposalRouteOptionSchema = createInsertSchema(proposalRouteOptions).omit({ id: true, createdAt: true }).extend({
+  validUntil: z.coerce.date().nullish(),
+});
+export const insertProposalChargeLineSchema = createInsertSchema(proposalChargeLines).omit({ id: true, createdAt: true }).extend({
+  basis: z.enum(["per_container", "per_kg", "per_shipment", "percent_of_value"]),
+  currency: z.string().trim().toUpperCase().length(3),
+});
+// Opciones de ruta completas de una cotización de flete; los totales y tipos de cambio los calcula el servidor
+export const freightQuoteSchema = z.object({
+  options: z.array(insertProposalRouteOptionSchema.omit({ proposalId: true, buyTotal: true, sellTotal: true, sortOrder: true }).extend({
+    chargeLines: z.array(insertProposalChargeLineSchema.omit({ optionId: true, exchangeRate: true, sortOrder: true })).min(1, "Cada opción necesita al menos un cargo"),
+  })).min(1, "La cotización necesita al menos una opción de ruta"),
+  selectedOptionIndex: z.number().int().min(0).nullish(),
+}).refine(quote => quote.selectedOptionIndex == null || quote.selectedOptionIndex < quote.options.length, {
+  message: "La opción seleccionada no existe",
+  path: ["selectedOptionIndex"],
+});
 export const insertPaymentSchema = createInsertSchema(payments).omit({ id: true, createdAt: true });
+export const insertClientCreditSchema = createInsertSchema(clientCredits).omit({ id: true, createdAt: true });
+export const insertPaymentComplementSchema = createInsertSchema(paymentComplements).omit({ id: true, createdAt: true });
+export const insertSupplierBillSchema = createInsertSchema(supplierBills).omit({ id: true, createdAt: true, amountPaid: true, status: true }).extend({
+  billDate: z.union([z.string(), z.date()]).transform((val) => {
+    if (typeof val === 'string') return new Date(val);
+    return val;
+  }),
+  // Opcional: si no se indica se calcula con los días de crédito del proveedor
+  dueDate: z.union([z.string(), z.date()]).optional().nullable().transform((val) => {
+    if (typeof val === 'string') return new Date(val);
+    return val;
+  }),
+  scheduledPaymentDate: z.union([z.string(), z.date()]).optional().nullable().transform((val) => {
+    if (typeof val === 'string') return new Date(val);
+    return val;
+  }),
+});
+export const insertSupplierBillPaymentSchema = createInsertSchema(supplierBillPayments).omit({ id: true, createdAt: true }).extend({
+  paymentDate: z.union([z.string(), z.date()]).transform((val) => {
+    if (typeof val === 'string') return new Date(val);
+    return val;
+  }),
+});
+export const insertBankLedgerEntrySchema = createInsertSchema(bankLedgerEntries).omit({ id: true, createdAt: true, runningBalance: true }).extend({
+  entryDate: z.union([z.string(), z.date()]).transform((val) => {
+    if (typeof val === 'string') return new Date(val);
+    return val;
+  }),
+});
+export const insertBankStatementImportSchema = createInsertSchema(bankStatementImports).omit({ id: true, createdAt: true });
+export const insertBankStatementLineSchema = createInsertSchema(bankStatementLines).omit({ id: true, createdAt: true });
+export const insertExchangeRateSchema = createInsertSchema(exchangeRates).omit({ id: true, createdAt: true }).extend({
+  rateDate: z.union([z.string(), z.date()]).transform((val) => {
+    if (typeof val === 'string') return new Date(val);
+    return val;
+  }),
+});
 export const insertCustomFieldSchema = createInsertSchema(customFields).omit({ id: true, createdAt: true });
 export const insertCustomFieldValueSchema = createInsertSchema(customFieldValues).omit({ id: true, createdAt: true });
 export const insertGmailAccountSchema = createInsertSchema(gmailAccounts).omit({ id: true, createdAt: true });
+// Alta de un buzón IMAP/SMTP (se verifica la conexión antes de guardarlo)
+export const imapAccountSettingsSchema = z.object({
+  email: z.string().email(),
+  mailUsername: z.string().min(1),
+  mailPassword: z.string().min(1),
+  imapHost: z.string().min(1),
+  imapPort: z.coerce.number().int().min(1).max(65535).default(993),
+  imapSecure: z.boolean().default(true),
+  smtpHost: z.string().min(1),
+  smtpPort: z.coerce.number().int().min(1).max(65535).default(465),
+  smtpSecure: z.boolean().default(true),
+  imapUseIdle: z.boolean().default(true),
+  syncFromDate: z.coerce.date(),
+});
 export const insertGmailMessageSchema = createInsertSchema(gmailMessages).omit({ id: true, createdAt: true });
 export const insertGmailAttachmentSchema = createInsertSchema(gmailAttachments).omit({ id: true, createdAt: true });
 export const insertCalendarEventSchema = createInsertSchema(calendarEvents).omit({ id: true, createdAt: true, updatedAt: true });
 export const insertAutomationConfigSchema = createInsertSchema(automationConfigs).omit({ id: true, createdAt: true, updatedAt: true });
 export const insertAutomationRuleSchema = createInsertSchema(automationRules).omit({ id: true, createdAt: true, updatedAt: true });
 export const insertAutomationLogSchema = createInsertSchema(automationLogs).omit({ id: true, createdAt: true });
+export const insertOperationChargeEstimateSchema = createInsertSchema(operationChargeEstimates).omit({ id: true, createdAt: true });
+export const insertOperationContainerSchema = createInsertSchema(operationContainers).omit({ id: true, createdAt: true }).extend({
+  containerNumber: z.string().nullish()
+    .transform(value => value ? normalizeContainerNumber(value) : null)
+    .refine(value => !value || isValidContainerNumber(value), { message: "Número de contenedor inválido (ISO 6346)" }),
+});
+export const insertOperationCargoLineSchema = createInsertSchema(operationCargoLines).omit({ id: true, createdAt: true });
+export const insertOperationMilestoneSchema = createInsertSchema(operationMilestones).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+  delayAcknowledgedMinutes: true,
+  delayAcknowledgedBy: true,
+}).extend({
+  milestoneType: z.enum(MILESTONE_TYPE_CODES),
+  source: z.enum(["manual", "email", "ai"]).default("manual"),
+  plannedAt: z.coerce.date().nullish(),
+  estimatedAt: z.coerce.date().nullish(),
+  actualAt: z.coerce.date().nullish(),
+});
+// Carga completa de una operación; las líneas apuntan a su contenedor por posición en la lista
+export const operationCargoSchema = z.object({
+  containers: z.array(insertOperationContainerSchema.omit({ operationId: true, sortOrder: true })).default([]),
+  lines: z.array(insertOperationCargoLineSchema.omit({ operationId: true, containerId: true, sortOrder: true }).extend({
+    containerIndex: z.number().int().min(0).nullish(),
+  })).default([]),
+}).refine(cargo => cargo.lines.every(line => line.containerIndex == null || line.containerIndex < cargo.containers.length), {
+  message: "La línea de carga apunta a un contenedor que no existe",
+  path: ["lines"],
+});
+export const insertEmailTemplateSchema = createInsertSchema(emailTemplates).omit({ id: true, createdAt: true, updatedAt: true }).extend({
+  language: z.enum(["es", "en"]),
+});
+export const insertEmailLinkingMatcherSchema = createInsertSchema(emailLinkingMatchers).omit({ id: true, updatedAt: true });
+export const insertEmailLinkDecisionSchema = createInsertSchema(emailLinkDecisions).omit({ id: true, createdAt: true });
+export const insertEmailThreadSplitSchema = createInsertSchema(emailThreadSplits).omit({ id: true, createdAt: true });
+export const insertEmailThreadAssignmentSchema = createInsertSchema(emailThreadAssignments).omit({ id: true, createdAt: true, updatedAt: true }).extend({
+  status: z.enum(["open", "waiting_client", "done"]),
+});
+export const insertSecurityAuditEventSchema = createInsertSchema(securityAuditEvents).omit({ id: true, createdAt: true }).extend({
+  eventType: z.enum(["token_refreshed", "token_revoked", "secrets_reencrypted"]),
+});
+export const insertLocationSchema = createInsertSchema(locations).omit({ id: true, createdAt: true, updatedAt: true });
+export const insertRateTariffSchema = createInsertSchema(rateTariffs).omit({
+  id: true,
+  createdAt: true,
+  status: true,
+  fileName: true,
+  rateCount: true,
+  uploadedById: true,
+}).extend({
+  mode: z.enum(["sea", "air", "land"]),
+  currency: z.string().trim().toUpperCase().length(3),
+  validFrom: z.coerce.date().nullish(),
+  validUntil: z.coerce.date().nullish(),
+});
+export const insertSpamRuleSchema = createInsertSchema(spamRules).omit({ id: true, createdAt: true, hitCount: true, lastHitAt: true }).extend({
+  action: z.enum(["block", "allow"]),
+  ruleType: z.enum(["domain", "address", "subject", "header"]),
+  pattern: z.string().trim(),
+});
+export const insertSpamFilteredMessageSchema = createInsertSchema(spamFilteredMessages).omit({ id: true, filteredAt: true });
 export const insertOperationNoteSchema = createInsertSchema(operationNotes).omit({ id: true, createdAt: true, updatedAt: true });
 export const insertOperationTaskSchema = createInsertSchema(operationTasks).omit({ id: true, createdAt: true, updatedAt: true });
 export const insertOperationFolderSchema = createInsertSchema(operationFolders).omit({ id: true, createdAt: true, updatedAt: true });
@@ -1078,9 +2065,43 @@ export type InvoiceItem = typeof invoiceItems.$inferSelect;
 export type InsertProposalItem = z.infer<typeof insertProposalItemSchema>;
 export type ProposalItem = typeof proposalItems.$inferSelect;
 
+export type InsertProposalRouteOption = z.infer<typeof insertProposalRouteOptionSchema>;
+export type ProposalRouteOption = typeof proposalRouteOptions.$inferSelect;
+
+export type InsertProposalChargeLine = z.infer<typeof insertProposalChargeLineSchema>;
+export type ProposalChargeLine = typeof proposalChargeLines.$inferSelect;
+export type FreightQuoteInput = z.infer<typeof freightQuoteSchema>;
+
 export type InsertPayment = z.infer<typeof insertPaymentSchema>;
 export type Payment = typeof payments.$inferSelect;
 
+export type InsertClientCredit = z.infer<typeof insertClientCreditSchema>;
+export type ClientCredit = typeof clientCredits.$inferSelect;
+
+export type InsertPaymentComplement = z.infer<typeof insertPaymentComplementSchema>;
+export type PaymentComplement = typeof paymentComplements.$inferSelect;
+
+export type InsertSupplier = z.infer<typeof insertSupplierSchema>;
+export type Supplier = typeof suppliers.$inferSelect;
+
+export type InsertSupplierBill = z.infer<typeof insertSupplierBillSchema>;
+export type SupplierBill = typeof supplierBills.$inferSelect;
+
+export type InsertSupplierBillPayment = z.infer<typeof insertSupplierBillPaymentSchema>;
+export type SupplierBillPayment = typeof supplierBillPayments.$inferSelect;
+
+export type InsertBankLedgerEntry = z.infer<typeof insertBankLedgerEntrySchema>;
+export type BankLedgerEntry = typeof bankLedgerEntries.$inferSelect;
+
+export type InsertBankStatementImport = z.infer<typeof insertBankStatementImportSchema>;
+export type BankStatementImport = typeof bankStatementImports.$inferSelect;
+
+export type InsertBankStatementLine = z.infer<typeof insertBankStatementLineSchema>;
+export type BankStatementLine = typeof bankStatementLines.$inferSelect;
+
+export type InsertExchangeRate = z.infer<typeof insertExchangeRateSchema>;
+export type ExchangeRate = typeof exchangeRates.$inferSelect;
+
 export type InsertProposal = z.infer<typeof insertProposalSchema>;
 export type Proposal = typeof proposals.$inferSelect;
 
@@ -1101,6 +2122,7 @@ export type CustomFieldValue = typeof customFieldValues.$inferSelect;
 
 export type InsertGmailAccount = z.infer<typeof insertGmailAccountSchema>;
 export type GmailAccount = typeof gmailAccounts.$inferSelect;
+export type ImapAccountSettings = z.infer<typeof imapAccountSettingsSchema>;
 
 export type InsertGmailMessage = z.infer<typeof insertGmailMessageSchema>;
 export type GmailMessage = typeof gmailMessages.$inferSelect;
@@ -1108,6 +2130,39 @@ export type GmailMessage = typeof gmailMessages.$inferSelect;
 export type InsertGmailAttachment = z.infer<typeof insertGmailAttachmentSchema>;
 export type GmailAttachment = typeof gmailAttachments.$inferSelect;
 
+export type InsertEmailTemplate = z.infer<typeof insertEmailTemplateSchema>;
+export type EmailTemplate = typeof emailTemplates.$inferSelect;
+
+export type InsertEmailLinkingMatcher = z.infer<typeof insertEmailLinkingMatcherSchema>;
+export type EmailLinkingMatcher = typeof emailLinkingMatchers.$inferSelect;
+
+export type InsertEmailLinkDecision = z.infer<typeof insertEmailLinkDecisionSchema>;
+export type EmailLinkDecision = typeof emailLinkDecisions.$inferSelect;
+
+export type InsertEmailThreadSplit = z.infer<typeof insertEmailThreadSplitSchema>;
+export type EmailThreadSplit = typeof emailThreadSplits.$inferSelect;
+
+export type InsertEmailThreadAssignment = z.infer<typeof insertEmailThreadAssignmentSchema>;
+export type EmailThreadAssignment = typeof emailThreadAssignments.$inferSelect;
+
+export type InsertLocation = z.infer<typeof insertLocationSchema>;
+export type Location = typeof locations.$inferSelect;
+
+export type InsertRateTariff = z.infer<typeof insertRateTariffSchema>;
+export type RateTariff = typeof rateTariffs.$inferSelect;
+export type TariffRate = typeof tariffRates.$inferSelect;
+
+export type InsertSpamRule = z.infer<typeof insertSpamRuleSchema>;
+export type SpamRule = typeof spamRules.$inferSelect;
+
+export type InsertSpamFilteredMessage = z.infer<typeof insertSpamFilteredMessageSchema>;
+export type SpamFilteredMessage = typeof spamFilteredMessages.$inferSelect;
+
+export type SearchDocument = typeof searchDocuments.$inferSelect;
+
+export type InsertSecurityAuditEvent = z.infer<typeof insertSecurityAuditEventSchema>;
+export type SecurityAuditEvent = typeof securityAuditEvents.$inferSelect;
+
 export type InsertCalendarEvent = z.infer<typeof insertCalendarEventSchema>;
 export type CalendarEvent = typeof calendarEvents.$inferSelect;
 
@@ -1120,6 +2175,20 @@ export type AutomationRule = typeof automationRules.$inferSelect;
 export type InsertAutomationLog = z.infer<typeof insertAutomationLogSchema>;
 export type AutomationLog = typeof automationLogs.$inferSelect;
 
+export type InsertOperationChargeEstimate = z.infer<typeof insertOperationChargeEstimateSchema>;
+export type OperationChargeEstimate = typeof operationChargeEstimates.$inferSelect;
+
+export type InsertOperationContainer = z.infer<typeof insertOperationContainerSchema>;
+export type OperationContainer = typeof operationContainers.$inferSelect;
+
+export type InsertOperationCargoLine = z.infer<typeof insertOperationCargoLineSchema>;
+export type OperationCargoLine = typeof operationCargoLines.$inferSelect;
+export type OperationCargoInput = z.infer<typeof operationCargoSchema>;
+
+export type InsertOperationMilestone = z.infer<typeof insertOperationMilestoneSchema>;
+export type OperationMilestone = typeof operationMilestones.$inferSelect;
+export type OperationMilestoneChange = typeof operationMilestoneChanges.$inferSelect;
+
 export type InsertOperationNote = z.infer<typeof insertOperationNoteSchema>;
 export type OperationNote = typeof operationNotes.$inferSelect;
 
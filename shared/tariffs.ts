@@ -0,0 +1,88 @@
+/**
+ * Tarifarios de carriers y agentes: tipos de equipo, recargos y resultado de la búsqueda por lane
+ *
+ * Cada renglón del tarifario es una lane (origen → destino) con una tarifa base por contenedor
+ * (marítimo), por kg a partir de un rango de peso (aéreo) o por embarque (terrestre), más
+ * recargos propios. La búsqueda devuelve las opciones vigentes más baratas ya desglosadas en
+ * cargos con el mismo formato que los renglones de compra de una cotización de flete.
+ */
+
+import type { ChargeBasis } from "./freight-quote";
+
+export type TariffMode = "sea" | "air" | "land";
+
+export const TARIFF_MODES: { code: TariffMode; label: string; baseChargeCode: string; basis: ChargeBasis }[] = [
+  { code: "sea", label: "Marítimo", baseChargeCode: "OFR", basis: "per_container" },
+  { code: "air", label: "Aéreo", baseChargeCode: "AFR", basis: "per_kg" },
+  { code: "land", label: "Terrestre", baseChargeCode: "TRK", basis: "per_shipment" },
+];
+
+export function getTariffMode(mode: string | null | undefined) {
+  return TARIFF_MODES.find((item) => item.code === mode);
+}
+
+export const EQUIPMENT_TYPES: { code: string; label: string }[] = [
+  { code: "20GP", label: "20' Dry" },
+  { code: "40GP", label: "40' Dry" },
+  { code: "40HC", label: "40' High Cube" },
+  { code: "45HC", label: "45' High Cube" },
+  { code: "20RF", label: "20' Reefer" },
+  { code: "40RF", label: "40' Reefer" },
+  { code: "20OT", label: "20' Open Top" },
+  { code: "40OT", label: "40' Open Top" },
+  { code: "20FR", label: "20' Flat Rack" },
+  { code: "40FR", label: "40' Flat Rack" },
+];
+
+const EQUIPMENT_ALIASES: Record<string, string> = {
+  "20": "20GP", "20DV": "20GP", "20DC": "20GP", "20ST": "20GP", "20SD": "20GP",
+  "40": "40GP", "40DV": "40GP", "40DC": "40GP", "40ST": "40GP", "40SD": "40GP",
+  "40HQ": "40HC", "40HCDV": "40HC", "45HQ": "45HC", "45": "45HC",
+  "20RE": "20RF", "20RH": "20RF", "40RE": "40RF", "40RH": "40RF", "40RQ": "40RF", "40HR": "40RF",
+  "20FL": "20FR", "40FL": "40FR",
+};
+
+/**
+ * Normaliza el tipo de equipo ("40'HC", "40 HQ", "20DV"...) al código del catálogo
+ */
+export function normalizeEquipmentType(raw: string | null | undefined): string | null {
+  if (!raw) return null;
+  const code = String(raw).toUpperCase().replace(/[^A-Z0-9]/g, "");
+  if (!code) return null;
+  if (EQUIPMENT_TYPES.some((item) => item.code === code)) return code;
+  return EQUIPMENT_ALIASES[code] || code;
+}
+
+export interface TariffSurcharge {
+  chargeCode: string; // BAF, LSS, THC, FSC, SSC...
+  basis: ChargeBasis;
+  rate: number;
+  currency: string;
+}
+
+export interface RateLookupChargeLine {
+  chargeCode: string;
+  description: string | null;
+  basis: ChargeBasis;
+  quantity: number;
+  currency: string;
+  buyRate: number;
+  amount: number; // En la moneda del renglón
+}
+
+export interface RateLookupOption {
+  rateId: string;
+  tariffId: string;
+  tariffName: string;
+  supplierId: string;
+  supplierName: string;
+  carrier: string; // Carrier del renglón o, si no viene, el proveedor
+  mode: TariffMode;
+  equipmentType: string | null;
+  weightBreakKg: number | null;
+  transitDays: number | null;
+  validUntil: string | null;
+  chargeLines: RateLookupChargeLine[];
+  total: number; // En la moneda solicitada
+  currency: string;
+}